@@ -1,6 +1,7 @@
 /**
  * @daemux/mcp-client - Model Context Protocol client library
- * Supports stdio, SSE, HTTP, and WebSocket transports
+ * Supports stdio, SSE, HTTP, and WebSocket transports, plus a tools-only
+ * server over stdio and HTTP
  */
 
 // Types
@@ -10,11 +11,57 @@ export type {
   MCPServer,
   MCPConfig,
   MCPTransport,
+  MCPCloseHandler,
+  MCPNotificationHandler,
+  MCPServerCapabilities,
+  MCPPrompt,
+  MCPPromptMessage,
+  MCPClientHandlers,
+  MCPSamplingContent,
+  MCPSamplingMessage,
+  MCPSamplingRequest,
+  MCPSamplingResult,
+  MCPRoot,
+  MCPElicitationSchema,
+  MCPElicitationRequest,
+  MCPElicitationResult,
+  MCPAuthProvider,
 } from './types';
 
 // JSON-RPC Transport
 export { JsonRpcTransport } from './mcp-jsonrpc';
 
+// Server-to-Client Requests
+export { MCPRequestError } from './mcp-client-requests';
+
+// Authorization
+export {
+  discoverOAuth,
+  registerClient,
+  createPkcePair,
+  buildAuthorizationUrl,
+  exchangeAuthorizationCode,
+  refreshAccessToken,
+  fetchWithAuth,
+} from './mcp-oauth';
+export type {
+  OAuthServerMetadata,
+  OAuthClientInfo,
+  OAuthTokens,
+  OAuthDiscovery,
+  PkcePair,
+} from './mcp-oauth';
+
+// Server
+export { createMCPMessageHandler, serveMCPStdio, handleMCPHttpRequest } from './mcp-server';
+export type {
+  MCPServerTool,
+  MCPServerToolResult,
+  MCPServerOptions,
+  MCPMessageHandler,
+  MCPStdioStreams,
+} from './mcp-server';
+
 // Client Implementations
 export { StdioMCPClient } from './mcp-client';
 export { SseMCPClient } from './mcp-sse-client';
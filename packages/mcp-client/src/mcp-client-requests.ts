@@ -0,0 +1,98 @@
+/**
+ * MCP Server-to-Client Requests
+ * Dispatches sampling/createMessage, roots/list and elicitation/create
+ * requests from a server to the client's handlers and builds the reply.
+ */
+
+import type {
+  Logger, MCPClientHandlers, MCPSamplingRequest, MCPElicitationRequest,
+} from './types';
+import { JSONRPC_VERSION } from './mcp-client-utils';
+import type { JsonRpcIncoming } from './mcp-client-utils';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface JsonRpcServerRequest {
+  id: number | string;
+  method: string;
+  params: Record<string, unknown>;
+}
+
+export interface JsonRpcReply {
+  jsonrpc: typeof JSONRPC_VERSION;
+  /** null only when answering a message whose id could not be read */
+  id: number | string | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export const PARSE_ERROR = -32700;
+export const INVALID_REQUEST = -32600;
+export const METHOD_NOT_FOUND = -32601;
+export const INVALID_PARAMS = -32602;
+export const INTERNAL_ERROR = -32603;
+
+/** Thrown by client handlers to answer with a specific JSON-RPC error code */
+export class MCPRequestError extends Error {
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = 'MCPRequestError';
+    this.code = code;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Dispatch
+// ---------------------------------------------------------------------------
+
+/** A message with both an id and a method is a request from the server */
+export function asServerRequest(parsed: JsonRpcIncoming): JsonRpcServerRequest | null {
+  if (parsed.id === undefined || parsed.id === null || typeof parsed.method !== 'string') return null;
+  return { id: parsed.id, method: parsed.method, params: parsed.params ?? {} };
+}
+
+async function dispatch(
+  serverId: string, handlers: MCPClientHandlers | undefined, method: string, params: Record<string, unknown>,
+): Promise<unknown> {
+  switch (method) {
+    case 'ping':
+      return {};
+    case 'sampling/createMessage':
+      if (handlers?.createMessage) {
+        return handlers.createMessage(serverId, params as unknown as MCPSamplingRequest);
+      }
+      break;
+    case 'roots/list':
+      if (handlers?.listRoots) return { roots: await handlers.listRoots(serverId) };
+      break;
+    case 'elicitation/create':
+      if (handlers?.elicit) return handlers.elicit(serverId, params as unknown as MCPElicitationRequest);
+      break;
+  }
+  throw new MCPRequestError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+}
+
+/** Runs the handler for a server request; failures become JSON-RPC errors */
+export async function answerServerRequest(
+  serverId: string,
+  handlers: MCPClientHandlers | undefined,
+  request: JsonRpcServerRequest,
+  log?: Logger,
+): Promise<JsonRpcReply> {
+  log?.debug(`MCP '${serverId}' server request`, { method: request.method });
+  try {
+    const result = await dispatch(serverId, handlers, request.method, request.params);
+    return { jsonrpc: JSONRPC_VERSION, id: request.id, result };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const code = err instanceof MCPRequestError ? err.code : INTERNAL_ERROR;
+    if (code !== METHOD_NOT_FOUND) {
+      log?.warn(`MCP '${serverId}' request '${request.method}' failed`, { error: message });
+    }
+    return { jsonrpc: JSONRPC_VERSION, id: request.id, error: { code, message } };
+  }
+}
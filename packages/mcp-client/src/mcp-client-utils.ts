@@ -3,7 +3,10 @@
  * JSON-RPC types, subprocess handle, and content parsing helpers
  */
 
-import type { ToolDefinition } from './types';
+import type {
+  ToolDefinition, MCPCloseHandler, MCPNotificationHandler, MCPServerCapabilities, MCPPrompt, MCPPromptMessage,
+  MCPClientHandlers,
+} from './types';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -37,10 +40,19 @@ export interface JsonRpcResponse {
   error?: { code: number; message: string; data?: unknown };
 }
 
+export interface JsonRpcIncoming {
+  id?: number | string | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
 export interface PendingRequest {
   resolve: (value: unknown) => void;
   reject: (reason: Error) => void;
-  timeout: ReturnType<typeof setTimeout>;
+  /** Names the request in its timeout error, e.g. "MCP request 'tools/call'" */
+  label: string;
+  /** Unset while the deadline is paused */
+  timeout?: ReturnType<typeof setTimeout>;
 }
 
 // ---------------------------------------------------------------------------
@@ -76,6 +88,22 @@ export interface ResourceReadResult {
   contents?: Array<{ uri: string; text?: string; blob?: string; mimeType?: string }>;
 }
 
+export interface PromptsListResult {
+  prompts?: MCPPrompt[];
+}
+
+export interface PromptGetResult {
+  description?: string;
+  messages?: Array<{
+    role: 'user' | 'assistant';
+    content: { type: string; text?: string; resource?: { uri: string; text?: string } };
+  }>;
+}
+
+export interface InitializeResult {
+  capabilities?: MCPServerCapabilities;
+}
+
 // ---------------------------------------------------------------------------
 // Helper Functions
 // ---------------------------------------------------------------------------
@@ -138,38 +166,162 @@ export function handleResourceReadResult(
   };
 }
 
-export function buildInitializeParams(): Record<string, unknown> {
+export function mapPromptsList(result: PromptsListResult): MCPPrompt[] {
+  return (result.prompts ?? []).map(p => ({
+    name: p.name,
+    description: p.description,
+    arguments: p.arguments,
+  }));
+}
+
+/** Prompt messages as plain text; embedded resources contribute their text */
+export function handlePromptGetResult(
+  name: string,
+  result: PromptGetResult
+): { description?: string; messages: MCPPromptMessage[] } {
+  if (!result.messages) throw new Error(`MCP prompt '${name}' returned no messages`);
+  return {
+    description: result.description,
+    messages: result.messages.map(m => ({
+      role: m.role,
+      content: m.content.text ?? m.content.resource?.text ?? `[${m.content.type} content]`,
+    })),
+  };
+}
+
+/** Client capabilities announced in initialize for the handlers that are set */
+export function buildClientCapabilities(handlers?: MCPClientHandlers): Record<string, unknown> {
+  const capabilities: Record<string, unknown> = {};
+  if (handlers?.createMessage) capabilities.sampling = {};
+  if (handlers?.listRoots) capabilities.roots = { listChanged: false };
+  if (handlers?.elicit) capabilities.elicitation = {};
+  return capabilities;
+}
+
+export function buildInitializeParams(handlers?: MCPClientHandlers): Record<string, unknown> {
   return {
     protocolVersion: PROTOCOL_VERSION,
-    capabilities: { tools: {}, resources: {} },
+    capabilities: buildClientCapabilities(handlers),
     clientInfo: { name: 'daemux', version: '1.0.0' },
   };
 }
 
-export function clearPendingRequests(pending: Map<number, PendingRequest>, reason: string): void {
-  for (const entry of pending.values()) {
+/** A message without an id but with a method is a server notification */
+export function asNotification(parsed: JsonRpcIncoming): { method: string; params: Record<string, unknown> } | null {
+  if ((parsed.id !== undefined && parsed.id !== null) || typeof parsed.method !== 'string') return null;
+  return { method: parsed.method, params: parsed.params ?? {} };
+}
+
+// ---------------------------------------------------------------------------
+// Pending Requests
+// ---------------------------------------------------------------------------
+
+/**
+ * Requests awaiting a reply, each failing after `timeoutMs`. While the client
+ * answers a request from the server, e.g. sampling or elicitation inside a
+ * tools/call, every deadline is paused: the server cannot reply before it has
+ * our answer, and the model or user behind it may take longer than the
+ * timeout. Server requests do not say which call they belong to, so all
+ * deadlines pause, and they restart in full once the last answer is sent.
+ */
+export class PendingRequests {
+  private entries = new Map<number, PendingRequest>();
+  private answering = 0;
+
+  constructor(private timeoutMs: number = DEFAULT_TIMEOUT_MS) {}
+
+  /** Wait for the reply to request `id` */
+  add(id: number, label: string): Promise<unknown> {
+    return new Promise<unknown>((resolve, reject) => {
+      const entry: PendingRequest = { resolve, reject, label };
+      this.entries.set(id, entry);
+      if (this.answering === 0) this.startTimer(id, entry);
+    });
+  }
+
+  /** Settle the request a response belongs to; false when none is waiting for it */
+  settle(parsed: JsonRpcResponse): boolean {
+    if (parsed.id === undefined || parsed.id === null) return false;
+    const entry = this.take(parsed.id);
+    if (!entry) return false;
+
+    if (parsed.error) {
+      entry.reject(new Error(`MCP error (${parsed.error.code}): ${parsed.error.message}`));
+    } else {
+      entry.resolve(parsed.result);
+    }
+    return true;
+  }
+
+  /** Fail one request, e.g. when it could not be sent */
+  reject(id: number, err: Error): void {
+    this.take(id)?.reject(err);
+  }
+
+  rejectAll(reason: string): void {
+    for (const entry of this.entries.values()) {
+      clearTimeout(entry.timeout);
+      entry.reject(new Error(reason));
+    }
+    this.entries.clear();
+  }
+
+  /** Run the answer to a server request with every deadline paused */
+  async whileAnswering<T>(answer: () => Promise<T>): Promise<T> {
+    if (this.answering++ === 0) {
+      for (const entry of this.entries.values()) {
+        clearTimeout(entry.timeout);
+        entry.timeout = undefined;
+      }
+    }
+    try {
+      return await answer();
+    } finally {
+      if (--this.answering === 0) {
+        for (const [id, entry] of this.entries) this.startTimer(id, entry);
+      }
+    }
+  }
+
+  private take(id: number): PendingRequest | undefined {
+    const entry = this.entries.get(id);
+    if (!entry) return undefined;
+    this.entries.delete(id);
     clearTimeout(entry.timeout);
-    entry.reject(new Error(reason));
+    return entry;
+  }
+
+  private startTimer(id: number, entry: PendingRequest): void {
+    entry.timeout = setTimeout(() => {
+      this.entries.delete(id);
+      entry.reject(new Error(`${entry.label} timed out after ${this.timeoutMs}ms`));
+    }, this.timeoutMs);
   }
-  pending.clear();
 }
 
-export function resolveJsonRpcResponse(
-  pending: Map<number, PendingRequest>,
-  parsed: JsonRpcResponse
-): void {
-  if (parsed.id === undefined || parsed.id === null) return;
+// ---------------------------------------------------------------------------
+// Connection Events
+// ---------------------------------------------------------------------------
 
-  const entry = pending.get(parsed.id);
-  if (!entry) return;
+/** Close and notification listeners shared by the client implementations */
+export class ConnectionEvents {
+  private closeHandlers: MCPCloseHandler[] = [];
+  private notificationHandlers: MCPNotificationHandler[] = [];
 
-  pending.delete(parsed.id);
-  clearTimeout(entry.timeout);
+  onClose(handler: MCPCloseHandler): void {
+    this.closeHandlers.push(handler);
+  }
+
+  onNotification(handler: MCPNotificationHandler): void {
+    this.notificationHandlers.push(handler);
+  }
+
+  emitClose(reason: string): void {
+    for (const handler of this.closeHandlers) handler(reason);
+  }
 
-  if (parsed.error) {
-    entry.reject(new Error(`MCP error (${parsed.error.code}): ${parsed.error.message}`));
-  } else {
-    entry.resolve(parsed.result);
+  emitNotification(method: string, params: Record<string, unknown>): void {
+    for (const handler of this.notificationHandlers) handler(method, params);
   }
 }
 
@@ -3,17 +3,23 @@
  * Connects to MCP servers via subprocess, communicates using JSON-RPC 2.0
  */
 
-import type { ToolDefinition, MCPServer, MCPConfig, MCPTransport, Logger } from './types';
+import type {
+  ToolDefinition, MCPServer, MCPConfig, MCPTransport, Logger, MCPCloseHandler, MCPNotificationHandler,
+  MCPServerCapabilities, MCPPrompt, MCPPromptMessage, MCPClientHandlers, MCPAuthProvider,
+} from './types';
 import { SseMCPClient } from './mcp-sse-client';
 import { HttpMCPClient } from './mcp-http-client';
 import { WebSocketMCPClient } from './mcp-ws-client';
 import {
-  PROTOCOL_VERSION,
   mapToolsList,
   handleToolCallResult,
   mapResourcesList,
   handleResourceReadResult,
+  mapPromptsList,
+  handlePromptGetResult,
+  buildInitializeParams,
   spawnMCPProcess,
+  ConnectionEvents,
 } from './mcp-client-utils';
 import type {
   SubprocessHandle,
@@ -21,8 +27,12 @@ import type {
   ToolCallResult,
   ResourcesListResult,
   ResourceReadResult,
+  PromptsListResult,
+  PromptGetResult,
+  InitializeResult,
 } from './mcp-client-utils';
 import { JsonRpcTransport } from './mcp-jsonrpc';
+import { answerServerRequest } from './mcp-client-requests';
 
 // ---------------------------------------------------------------------------
 // StdioMCPClient
@@ -31,18 +41,24 @@ import { JsonRpcTransport } from './mcp-jsonrpc';
 export class StdioMCPClient implements MCPServer {
   readonly id: string;
   readonly transport: MCPTransport = 'stdio';
+  capabilities?: MCPServerCapabilities;
 
   private proc: SubprocessHandle | null = null;
   private connected = false;
   private config: MCPConfig;
   private log: Logger | undefined;
   private rpc: JsonRpcTransport;
+  private events = new ConnectionEvents();
+  private handlers: MCPClientHandlers | undefined;
 
-  constructor(id: string, config: MCPConfig, logger?: Logger) {
+  constructor(id: string, config: MCPConfig, logger?: Logger, handlers?: MCPClientHandlers) {
     this.id = id;
     this.config = config;
     this.log = logger;
-    this.rpc = new JsonRpcTransport(id, logger);
+    this.handlers = handlers;
+    this.rpc = new JsonRpcTransport(id, logger, config.timeoutMs);
+    this.rpc.setNotificationHandler((method, params) => this.events.emitNotification(method, params));
+    this.rpc.setRequestHandler(request => answerServerRequest(id, this.handlers, request, logger));
   }
 
   async connect(): Promise<void> {
@@ -116,18 +132,43 @@ export class StdioMCPClient implements MCPServer {
     );
   }
 
+  async listPrompts(): Promise<MCPPrompt[]> {
+    this.assertConnected();
+    return mapPromptsList(await this.rpc.sendRequest('prompts/list', {}) as PromptsListResult);
+  }
+
+  async getPrompt(
+    name: string, args: Record<string, string>,
+  ): Promise<{ description?: string; messages: MCPPromptMessage[] }> {
+    this.assertConnected();
+    return handlePromptGetResult(
+      name,
+      await this.rpc.sendRequest('prompts/get', { name, arguments: args }) as PromptGetResult
+    );
+  }
+
+  async ping(): Promise<void> {
+    this.assertConnected();
+    await this.rpc.sendRequest('ping', {});
+  }
+
+  onClose(handler: MCPCloseHandler): void {
+    this.events.onClose(handler);
+  }
+
+  onNotification(handler: MCPNotificationHandler): void {
+    this.events.onNotification(handler);
+  }
+
   // ---------------------------------------------------------------------------
   // Private: Protocol Init & Process Monitoring
   // ---------------------------------------------------------------------------
 
   private async initializeProtocol(): Promise<void> {
-    const result = await this.rpc.sendRequest('initialize', {
-      protocolVersion: PROTOCOL_VERSION,
-      capabilities: { tools: {}, resources: {} },
-      clientInfo: { name: 'daemux', version: '1.0.0' },
-    });
+    const result = await this.rpc.sendRequest('initialize', buildInitializeParams(this.handlers));
 
     this.log?.debug(`MCP '${this.id}' initialized`, { result });
+    this.capabilities = (result as InitializeResult).capabilities;
 
     this.rpc.sendNotification('notifications/initialized', {});
   }
@@ -149,6 +190,7 @@ export class StdioMCPClient implements MCPServer {
         this.connected = false;
         this.rpc.clearPending(`MCP server process exited with code ${code}`);
         this.rpc.detach();
+        this.events.emitClose(`process exited with code ${code}`);
       }
     });
   }
@@ -164,21 +206,29 @@ export class StdioMCPClient implements MCPServer {
 // Factory Function
 // ---------------------------------------------------------------------------
 
+/**
+ * Create a client for the transport. Client handlers answer sampling,
+ * roots and elicitation requests; the stateless HTTP transport cannot
+ * receive requests from the server and ignores them. The auth provider
+ * supplies OAuth tokens to the HTTP and SSE transports.
+ */
 export function createMCPClient(
   id: string,
   transport: MCPTransport,
   config: MCPConfig,
-  logger?: Logger
+  logger?: Logger,
+  handlers?: MCPClientHandlers,
+  auth?: MCPAuthProvider
 ): MCPServer {
   switch (transport) {
     case 'stdio':
-      return new StdioMCPClient(id, config, logger);
+      return new StdioMCPClient(id, config, logger, handlers);
     case 'sse':
-      return new SseMCPClient(id, config, logger);
+      return new SseMCPClient(id, config, logger, handlers, auth);
     case 'http':
-      return new HttpMCPClient(id, config, logger);
+      return new HttpMCPClient(id, config, logger, auth);
     case 'websocket':
-      return new WebSocketMCPClient(id, config, logger);
+      return new WebSocketMCPClient(id, config, logger, handlers);
     default:
       throw new Error(`MCP transport '${transport}' is not supported.`);
   }
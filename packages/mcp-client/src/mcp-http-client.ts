@@ -1,9 +1,13 @@
 /**
  * MCP HTTP Client - Stateless HTTP POST transport
- * Each request/response is a single fetch POST cycle using JSON-RPC 2.0
+ * Each request/response is a single fetch POST cycle using JSON-RPC 2.0.
+ * With an auth provider each request carries its OAuth access token.
  */
 
-import type { ToolDefinition, MCPServer, MCPConfig, MCPTransport, Logger } from './types';
+import type {
+  ToolDefinition, MCPServer, MCPConfig, MCPTransport, Logger, MCPServerCapabilities, MCPPrompt, MCPPromptMessage,
+  MCPAuthProvider,
+} from './types';
 import {
   JSONRPC_VERSION,
   DEFAULT_TIMEOUT_MS,
@@ -11,6 +15,8 @@ import {
   handleToolCallResult,
   mapResourcesList,
   handleResourceReadResult,
+  mapPromptsList,
+  handlePromptGetResult,
   buildInitializeParams,
 } from './mcp-client-utils';
 import type {
@@ -19,7 +25,11 @@ import type {
   ToolCallResult,
   ResourcesListResult,
   ResourceReadResult,
+  PromptsListResult,
+  PromptGetResult,
+  InitializeResult,
 } from './mcp-client-utils';
+import { fetchWithAuth } from './mcp-oauth';
 
 // ---------------------------------------------------------------------------
 // HTTP MCP Client
@@ -28,17 +38,20 @@ import type {
 export class HttpMCPClient implements MCPServer {
   readonly id: string;
   readonly transport: MCPTransport = 'http';
+  capabilities?: MCPServerCapabilities;
 
   private connected = false;
   private config: MCPConfig;
   private log: Logger | undefined;
   private requestId = 0;
   private sessionId: string | null = null;
+  private auth: MCPAuthProvider | undefined;
 
-  constructor(id: string, config: MCPConfig, logger?: Logger) {
+  constructor(id: string, config: MCPConfig, logger?: Logger, auth?: MCPAuthProvider) {
     this.id = id;
     this.config = config;
     this.log = logger;
+    this.auth = auth;
   }
 
   async connect(): Promise<void> {
@@ -50,7 +63,8 @@ export class HttpMCPClient implements MCPServer {
 
     this.log?.debug(`MCP HTTP connecting to '${this.id}'`, { url: this.config.url });
 
-    await this.sendRequest('initialize', buildInitializeParams());
+    const result = await this.sendRequest('initialize', buildInitializeParams()) as InitializeResult;
+    this.capabilities = result.capabilities;
     this.connected = true;
 
     this.log?.info(`MCP server '${this.id}' connected via HTTP`);
@@ -89,6 +103,26 @@ export class HttpMCPClient implements MCPServer {
     );
   }
 
+  async listPrompts(): Promise<MCPPrompt[]> {
+    this.assertConnected();
+    return mapPromptsList(await this.sendRequest('prompts/list', {}) as PromptsListResult);
+  }
+
+  async getPrompt(
+    name: string, args: Record<string, string>,
+  ): Promise<{ description?: string; messages: MCPPromptMessage[] }> {
+    this.assertConnected();
+    return handlePromptGetResult(
+      name,
+      await this.sendRequest('prompts/get', { name, arguments: args }) as PromptGetResult
+    );
+  }
+
+  async ping(): Promise<void> {
+    this.assertConnected();
+    await this.sendRequest('ping', {});
+  }
+
   // ---------------------------------------------------------------------------
   // Private
   // ---------------------------------------------------------------------------
@@ -113,15 +147,15 @@ export class HttpMCPClient implements MCPServer {
     }
 
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), DEFAULT_TIMEOUT_MS);
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
 
     try {
-      const response = await fetch(url, {
+      const response = await fetchWithAuth(url, {
         method: 'POST',
         headers,
         body,
         signal: controller.signal,
-      });
+      }, this.auth);
 
       const respSessionId = response.headers.get('Mcp-Session-Id');
       if (respSessionId) {
@@ -3,16 +3,19 @@
  * Handles JSON-RPC request/response lifecycle, message writing, and stdout reading.
  */
 
-import type { Logger } from './types';
+import type { Logger, MCPNotificationHandler } from './types';
 import {
   JSONRPC_VERSION,
-  DEFAULT_TIMEOUT_MS,
+  PendingRequests,
+  asNotification,
 } from './mcp-client-utils';
+import { asServerRequest, METHOD_NOT_FOUND } from './mcp-client-requests';
+import type { JsonRpcReply, JsonRpcServerRequest } from './mcp-client-requests';
 import type {
+  JsonRpcIncoming,
   JsonRpcRequest,
   JsonRpcNotification,
   JsonRpcResponse,
-  PendingRequest,
   SubprocessHandle,
 } from './mcp-client-utils';
 
@@ -23,15 +26,18 @@ import type {
 export class JsonRpcTransport {
   private proc: SubprocessHandle | null = null;
   private requestId = 0;
-  private pending = new Map<number, PendingRequest>();
+  private pending: PendingRequests;
   private buffer = '';
   private readLoopActive = false;
   private log: Logger | undefined;
   private serverId: string;
+  private notificationHandler: MCPNotificationHandler | null = null;
+  private requestHandler: ((request: JsonRpcServerRequest) => Promise<JsonRpcReply>) | null = null;
 
-  constructor(serverId: string, logger?: Logger) {
+  constructor(serverId: string, logger?: Logger, timeoutMs?: number) {
     this.serverId = serverId;
     this.log = logger;
+    this.pending = new PendingRequests(timeoutMs);
   }
 
   attach(proc: SubprocessHandle): void {
@@ -44,16 +50,21 @@ export class JsonRpcTransport {
     this.buffer = '';
   }
 
+  setNotificationHandler(handler: MCPNotificationHandler): void {
+    this.notificationHandler = handler;
+  }
+
+  /** Answers requests the server sends; without a handler they fail with "method not found" */
+  setRequestHandler(handler: (request: JsonRpcServerRequest) => Promise<JsonRpcReply>): void {
+    this.requestHandler = handler;
+  }
+
   isAttached(): boolean {
     return this.proc !== null;
   }
 
   clearPending(reason: string): void {
-    for (const entry of this.pending.values()) {
-      clearTimeout(entry.timeout);
-      entry.reject(new Error(reason));
-    }
-    this.pending.clear();
+    this.pending.rejectAll(reason);
   }
 
   sendRequest(method: string, params?: Record<string, unknown>): Promise<unknown> {
@@ -69,15 +80,9 @@ export class JsonRpcTransport {
       params: params ?? {},
     };
 
-    return new Promise<unknown>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        this.pending.delete(id);
-        reject(new Error(`MCP request '${method}' timed out after ${DEFAULT_TIMEOUT_MS}ms`));
-      }, DEFAULT_TIMEOUT_MS);
-
-      this.pending.set(id, { resolve, reject, timeout });
-      this.writeMessage(request);
-    });
+    const reply = this.pending.add(id, `MCP request '${method}'`);
+    this.writeMessage(request);
+    return reply;
   }
 
   sendNotification(method: string, params?: Record<string, unknown>): void {
@@ -102,7 +107,7 @@ export class JsonRpcTransport {
   // Private: Message Writing
   // ---------------------------------------------------------------------------
 
-  private writeMessage(message: JsonRpcRequest | JsonRpcNotification): void {
+  private writeMessage(message: JsonRpcRequest | JsonRpcNotification | JsonRpcReply): void {
     if (!this.proc) return;
 
     try {
@@ -132,29 +137,36 @@ export class JsonRpcTransport {
       return;
     }
 
+    const request = asServerRequest(parsed as JsonRpcIncoming);
+    if (request) {
+      void this.answerRequest(request);
+      return;
+    }
+
     if (parsed.id === undefined || parsed.id === null) {
       this.log?.debug(`MCP '${this.serverId}' received notification`, {
         message: data.slice(0, 500),
       });
+      const notification = asNotification(parsed as JsonRpcIncoming);
+      if (notification) this.notificationHandler?.(notification.method, notification.params);
       return;
     }
 
-    const pending = this.pending.get(parsed.id);
-    if (!pending) {
+    if (!this.pending.settle(parsed)) {
       this.log?.debug(`MCP '${this.serverId}' unknown response id`, { id: parsed.id });
-      return;
     }
+  }
 
-    this.pending.delete(parsed.id);
-    clearTimeout(pending.timeout);
-
-    if (parsed.error) {
-      pending.reject(new Error(
-        `MCP error (${parsed.error.code}): ${parsed.error.message}`
-      ));
-    } else {
-      pending.resolve(parsed.result);
-    }
+  private async answerRequest(request: JsonRpcServerRequest): Promise<void> {
+    const handler = this.requestHandler;
+    const reply: JsonRpcReply = handler
+      ? await this.pending.whileAnswering(() => handler(request))
+      : {
+        jsonrpc: JSONRPC_VERSION,
+        id: request.id,
+        error: { code: METHOD_NOT_FOUND, message: `Method not found: ${request.method}` },
+      };
+    this.writeMessage(reply);
   }
 
   // ---------------------------------------------------------------------------
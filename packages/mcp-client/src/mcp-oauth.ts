@@ -0,0 +1,240 @@
+/**
+ * MCP Authorization
+ * The OAuth 2.1 pieces of the MCP authorization flow: protected-resource
+ * and authorization-server discovery, dynamic client registration, PKCE,
+ * the authorization code and refresh token grants, and fetch with a
+ * Bearer token that is refreshed once on 401.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { MCPAuthProvider } from './types';
+import { DEFAULT_TIMEOUT_MS } from './mcp-client-utils';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Authorization server metadata (RFC 8414), limited to the fields the flow uses */
+export interface OAuthServerMetadata {
+  issuer?: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  registration_endpoint?: string;
+  scopes_supported?: string[];
+}
+
+export interface OAuthClientInfo {
+  client_id: string;
+  client_secret?: string;
+}
+
+export interface OAuthTokens {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  refresh_token?: string;
+  scope?: string;
+}
+
+export interface OAuthDiscovery {
+  /** Resource indicator (RFC 8707) sent with authorization and token requests */
+  resource: string;
+  metadata: OAuthServerMetadata;
+  /** Scopes the protected resource lists, requested when present */
+  scopes?: string[];
+}
+
+export interface PkcePair {
+  verifier: string;
+  challenge: string;
+}
+
+interface ProtectedResourceMetadata {
+  resource?: string;
+  authorization_servers?: string[];
+  scopes_supported?: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Discovery
+// ---------------------------------------------------------------------------
+
+/** Well-known URLs for a base URL: path-inserted first, then at the origin root */
+function wellKnownUrls(base: URL, suffix: string): string[] {
+  const path = base.pathname.replace(/\/$/, '');
+  const urls = [`${base.origin}/.well-known/${suffix}${path}`];
+  if (path) urls.push(`${base.origin}/.well-known/${suffix}`);
+  return urls;
+}
+
+/** The first URL that answers with JSON; missing documents are skipped */
+async function firstJson(urls: string[]): Promise<unknown> {
+  for (const url of urls) {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS),
+    });
+    if (response.ok) return response.json();
+  }
+  return undefined;
+}
+
+/** Endpoints assumed when the authorization server publishes no metadata */
+function defaultMetadata(issuer: URL): OAuthServerMetadata {
+  return {
+    authorization_endpoint: new URL('/authorize', issuer.origin).href,
+    token_endpoint: new URL('/token', issuer.origin).href,
+    registration_endpoint: new URL('/register', issuer.origin).href,
+  };
+}
+
+/**
+ * Finds the authorization server of an MCP server from its protected
+ * resource metadata (RFC 9728). Servers without that document are
+ * treated as their own authorization server.
+ */
+export async function discoverOAuth(serverUrl: string): Promise<OAuthDiscovery> {
+  const server = new URL(serverUrl);
+  const resource = await firstJson(wellKnownUrls(server, 'oauth-protected-resource')) as
+    ProtectedResourceMetadata | undefined;
+
+  const issuer = new URL(resource?.authorization_servers?.[0] ?? server.origin);
+  const metadata = await firstJson([
+    ...wellKnownUrls(issuer, 'oauth-authorization-server'),
+    ...wellKnownUrls(issuer, 'openid-configuration'),
+  ]) as OAuthServerMetadata | undefined;
+
+  if (metadata && (!metadata.authorization_endpoint || !metadata.token_endpoint)) {
+    throw new Error(`Authorization server ${issuer.href} metadata has no authorization or token endpoint`);
+  }
+
+  return {
+    resource: resource?.resource ?? serverUrl,
+    metadata: metadata ?? defaultMetadata(issuer),
+    scopes: resource?.scopes_supported,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Registration and Grants
+// ---------------------------------------------------------------------------
+
+async function postOAuth(url: string, body: string, contentType: string): Promise<Record<string, unknown>> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': contentType, Accept: 'application/json' },
+    body,
+    signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS),
+  });
+  const data = await response.json().catch(() => ({})) as Record<string, unknown>;
+  if (!response.ok) {
+    const reason = [data.error, data.error_description].filter(Boolean).join(': ');
+    throw new Error(`${url} returned ${response.status}: ${reason || response.statusText}`);
+  }
+  return data;
+}
+
+/** Dynamic client registration (RFC 7591) of a public client using PKCE */
+export async function registerClient(
+  metadata: OAuthServerMetadata, redirectUri: string, clientName: string,
+): Promise<OAuthClientInfo> {
+  if (!metadata.registration_endpoint) {
+    throw new Error('Authorization server does not support dynamic client registration');
+  }
+
+  const data = await postOAuth(metadata.registration_endpoint, JSON.stringify({
+    client_name: clientName,
+    redirect_uris: [redirectUri],
+    grant_types: ['authorization_code', 'refresh_token'],
+    response_types: ['code'],
+    token_endpoint_auth_method: 'none',
+  }), 'application/json');
+
+  if (typeof data.client_id !== 'string') {
+    throw new Error('Client registration returned no client_id');
+  }
+  return {
+    client_id: data.client_id,
+    client_secret: typeof data.client_secret === 'string' ? data.client_secret : undefined,
+  };
+}
+
+export function createPkcePair(): PkcePair {
+  const verifier = randomBytes(32).toString('base64url');
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+}
+
+export function buildAuthorizationUrl(
+  discovery: OAuthDiscovery,
+  client: OAuthClientInfo,
+  options: { redirectUri: string; challenge: string; state: string },
+): string {
+  const url = new URL(discovery.metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', client.client_id);
+  url.searchParams.set('redirect_uri', options.redirectUri);
+  url.searchParams.set('code_challenge', options.challenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  url.searchParams.set('state', options.state);
+  url.searchParams.set('resource', discovery.resource);
+  if (discovery.scopes?.length) url.searchParams.set('scope', discovery.scopes.join(' '));
+  return url.href;
+}
+
+async function requestTokens(
+  discovery: OAuthDiscovery, client: OAuthClientInfo, params: Record<string, string>,
+): Promise<OAuthTokens> {
+  const body = new URLSearchParams({ ...params, client_id: client.client_id, resource: discovery.resource });
+  if (client.client_secret) body.set('client_secret', client.client_secret);
+
+  const data = await postOAuth(discovery.metadata.token_endpoint, body.toString(), 'application/x-www-form-urlencoded');
+  if (typeof data.access_token !== 'string') {
+    throw new Error('Token endpoint returned no access_token');
+  }
+  return data as unknown as OAuthTokens;
+}
+
+export function exchangeAuthorizationCode(
+  discovery: OAuthDiscovery,
+  client: OAuthClientInfo,
+  options: { code: string; verifier: string; redirectUri: string },
+): Promise<OAuthTokens> {
+  return requestTokens(discovery, client, {
+    grant_type: 'authorization_code',
+    code: options.code,
+    code_verifier: options.verifier,
+    redirect_uri: options.redirectUri,
+  });
+}
+
+export function refreshAccessToken(
+  discovery: OAuthDiscovery, client: OAuthClientInfo, refreshToken: string,
+): Promise<OAuthTokens> {
+  return requestTokens(discovery, client, { grant_type: 'refresh_token', refresh_token: refreshToken });
+}
+
+// ---------------------------------------------------------------------------
+// Authorized Requests
+// ---------------------------------------------------------------------------
+
+/**
+ * fetch with the provider's Bearer token. A 401 asks the provider for a
+ * refreshed token and retries once; the 401 is returned when there is
+ * none. Without a provider this is a plain fetch.
+ */
+export async function fetchWithAuth(
+  url: string, init: RequestInit & { headers: Record<string, string> }, auth?: MCPAuthProvider,
+): Promise<Response> {
+  if (!auth) return fetch(url, init);
+
+  const send = (token: string | undefined) => fetch(url, token
+    ? { ...init, headers: { ...init.headers, Authorization: `Bearer ${token}` } }
+    : init);
+
+  const response = await send(await auth.accessToken());
+  if (response.status !== 401) return response;
+
+  const token = await auth.refresh();
+  return token ? send(token) : response;
+}
@@ -0,0 +1,237 @@
+/**
+ * MCP Server
+ * The server side of the same JSON-RPC framing: answers initialize, ping,
+ * tools/list and tools/call for a fixed set of tools, over newline-delimited
+ * stdio or stateless streamable HTTP (one JSON response per POST).
+ */
+
+import type { Logger, ToolDefinition } from './types';
+import { JSONRPC_VERSION, PROTOCOL_VERSION } from './mcp-client-utils';
+import {
+  INTERNAL_ERROR,
+  INVALID_PARAMS,
+  INVALID_REQUEST,
+  METHOD_NOT_FOUND,
+  MCPRequestError,
+  PARSE_ERROR,
+} from './mcp-client-requests';
+import type { JsonRpcReply } from './mcp-client-requests';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface MCPServerToolResult {
+  content: string;
+  isError?: boolean;
+}
+
+export interface MCPServerTool {
+  definition: ToolDefinition;
+  execute(input: Record<string, unknown>): Promise<MCPServerToolResult>;
+}
+
+export interface MCPServerOptions {
+  name: string;
+  version: string;
+  /** Sent to clients in the initialize result as usage guidance */
+  instructions?: string;
+  tools: MCPServerTool[];
+  logger?: Logger;
+}
+
+/** Answers one parsed message or batch; null when nothing needs to be sent back */
+export type MCPMessageHandler = (message: unknown) => Promise<JsonRpcReply | JsonRpcReply[] | null>;
+
+export interface MCPStdioStreams {
+  input: ReadableStream<Uint8Array>;
+  write: (data: string) => void;
+}
+
+/** Newest first; a client asking for another version is offered the newest */
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', PROTOCOL_VERSION];
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function errorReply(id: number | string | null, code: number, message: string): JsonRpcReply {
+  return { jsonrpc: JSONRPC_VERSION, id, error: { code, message } };
+}
+
+// ---------------------------------------------------------------------------
+// Dispatch
+// ---------------------------------------------------------------------------
+
+async function callTool(
+  options: MCPServerOptions, tools: Map<string, MCPServerTool>, params: Record<string, unknown>,
+): Promise<unknown> {
+  const name = params.name;
+  const tool = typeof name === 'string' ? tools.get(name) : undefined;
+  if (!tool) throw new MCPRequestError(INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+
+  const input = (params.arguments ?? {}) as Record<string, unknown>;
+  try {
+    const result = await tool.execute(input);
+    return { content: [{ type: 'text', text: result.content }], isError: result.isError ?? false };
+  } catch (err) {
+    // Tool failures are results the calling model can see, not protocol errors
+    options.logger?.warn(`MCP tool '${tool.definition.name}' failed`, { error: errorMessage(err) });
+    return { content: [{ type: 'text', text: errorMessage(err) }], isError: true };
+  }
+}
+
+async function dispatch(
+  options: MCPServerOptions, tools: Map<string, MCPServerTool>, method: string, params: Record<string, unknown>,
+): Promise<unknown> {
+  switch (method) {
+    case 'initialize': {
+      const requested = params.protocolVersion;
+      const protocolVersion = typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+        ? requested
+        : SUPPORTED_PROTOCOL_VERSIONS[0];
+      return {
+        protocolVersion,
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: { name: options.name, version: options.version },
+        ...(options.instructions ? { instructions: options.instructions } : {}),
+      };
+    }
+    case 'ping':
+      return {};
+    case 'tools/list':
+      return {
+        tools: options.tools.map(({ definition }) => ({
+          name: definition.name,
+          description: definition.description,
+          inputSchema: definition.inputSchema,
+        })),
+      };
+    case 'tools/call':
+      return callTool(options, tools, params);
+  }
+  throw new MCPRequestError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+}
+
+async function handleSingle(
+  options: MCPServerOptions, tools: Map<string, MCPServerTool>, message: unknown,
+): Promise<JsonRpcReply | null> {
+  if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+    return errorReply(null, INVALID_REQUEST, 'Invalid request');
+  }
+
+  const { id, method, params } = message as { id?: unknown; method?: unknown; params?: unknown };
+  const validId = typeof id === 'number' || typeof id === 'string';
+  if (typeof method !== 'string') {
+    // Responses to requests this server never sends are dropped
+    if ('result' in message || 'error' in message) return null;
+    return errorReply(validId ? id : null, INVALID_REQUEST, 'Invalid request');
+  }
+  if (!validId) {
+    options.logger?.debug('MCP server notification', { method });
+    return null;
+  }
+
+  options.logger?.debug('MCP server request', { method });
+  try {
+    const args = typeof params === 'object' && params !== null ? params as Record<string, unknown> : {};
+    return { jsonrpc: JSONRPC_VERSION, id, result: await dispatch(options, tools, method, args) };
+  } catch (err) {
+    const code = err instanceof MCPRequestError ? err.code : INTERNAL_ERROR;
+    return errorReply(id, code, errorMessage(err));
+  }
+}
+
+/**
+ * Builds the message handler shared by the stdio and HTTP transports.
+ * Batches are answered with the replies of their requests, in order.
+ */
+export function createMCPMessageHandler(options: MCPServerOptions): MCPMessageHandler {
+  const tools = new Map(options.tools.map(tool => [tool.definition.name, tool]));
+
+  return async (message) => {
+    if (!Array.isArray(message)) return handleSingle(options, tools, message);
+    if (message.length === 0) return errorReply(null, INVALID_REQUEST, 'Empty batch');
+
+    const replies = await Promise.all(message.map(item => handleSingle(options, tools, item)));
+    const sent = replies.filter((reply): reply is JsonRpcReply => reply !== null);
+    return sent.length > 0 ? sent : null;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Transports
+// ---------------------------------------------------------------------------
+
+/**
+ * Serves newline-delimited JSON-RPC until the input ends. Requests are
+ * answered concurrently, so a slow tool call does not hold up pings.
+ */
+export async function serveMCPStdio(
+  handle: MCPMessageHandler,
+  streams: MCPStdioStreams = {
+    input: Bun.stdin.stream(),
+    write: (data) => { process.stdout.write(data); },
+  },
+): Promise<void> {
+  const reader = streams.input.getReader();
+  const decoder = new TextDecoder();
+  const inFlight = new Set<Promise<void>>();
+  let buffer = '';
+
+  const answer = (line: string): void => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      streams.write(JSON.stringify(errorReply(null, PARSE_ERROR, 'Parse error')) + '\n');
+      return;
+    }
+    const task = handle(parsed).then((reply) => {
+      if (reply) streams.write(JSON.stringify(reply) + '\n');
+    }).finally(() => inFlight.delete(task));
+    inFlight.add(task);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let idx = buffer.indexOf('\n');
+      while (idx !== -1) {
+        const line = buffer.slice(0, idx).trim();
+        buffer = buffer.slice(idx + 1);
+        if (line.length > 0) answer(line);
+        idx = buffer.indexOf('\n');
+      }
+    }
+    if (buffer.trim().length > 0) answer(buffer.trim());
+  } finally {
+    reader.releaseLock();
+  }
+
+  await Promise.all(inFlight);
+}
+
+/**
+ * Answers one streamable HTTP request. Each POST gets a JSON response;
+ * the server never opens an SSE stream, so GET is refused with 405 as
+ * the transport allows, and there are no sessions to DELETE.
+ */
+export async function handleMCPHttpRequest(handle: MCPMessageHandler, req: Request): Promise<Response> {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405, headers: { Allow: 'POST' } });
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = await req.json();
+  } catch {
+    return Response.json(errorReply(null, PARSE_ERROR, 'Parse error'), { status: 400 });
+  }
+
+  const reply = await handle(parsed);
+  return reply ? Response.json(reply) : new Response(null, { status: 202 });
+}
@@ -1,28 +1,41 @@
 /**
  * MCP SSE Client - Server-Sent Events transport
- * Uses EventSource for server->client and fetch POST for client->server
+ * Uses EventSource for server->client and fetch POST for client->server.
+ * With an auth provider the stream and each POST carry its OAuth access token;
+ * the POST endpoint must share the origin of the configured URL.
  */
 
-import type { ToolDefinition, MCPServer, MCPConfig, MCPTransport, Logger } from './types';
+import type {
+  ToolDefinition, MCPServer, MCPConfig, MCPTransport, Logger, MCPCloseHandler, MCPNotificationHandler,
+  MCPServerCapabilities, MCPPrompt, MCPPromptMessage, MCPClientHandlers, MCPAuthProvider,
+} from './types';
 import {
   JSONRPC_VERSION,
-  DEFAULT_TIMEOUT_MS,
   mapToolsList,
   handleToolCallResult,
   mapResourcesList,
   handleResourceReadResult,
+  mapPromptsList,
+  handlePromptGetResult,
   buildInitializeParams,
-  clearPendingRequests,
-  resolveJsonRpcResponse,
+  asNotification,
+  PendingRequests,
+  ConnectionEvents,
 } from './mcp-client-utils';
 import type {
+  JsonRpcIncoming,
   JsonRpcResponse,
-  PendingRequest,
   ToolsListResult,
   ToolCallResult,
   ResourcesListResult,
   ResourceReadResult,
+  PromptsListResult,
+  PromptGetResult,
+  InitializeResult,
 } from './mcp-client-utils';
+import { answerServerRequest, asServerRequest } from './mcp-client-requests';
+import type { JsonRpcServerRequest } from './mcp-client-requests';
+import { fetchWithAuth } from './mcp-oauth';
 
 // ---------------------------------------------------------------------------
 // SSE MCP Client
@@ -31,20 +44,29 @@ import type {
 export class SseMCPClient implements MCPServer {
   readonly id: string;
   readonly transport: MCPTransport = 'sse';
+  capabilities?: MCPServerCapabilities;
 
   private connected = false;
   private config: MCPConfig;
   private log: Logger | undefined;
   private requestId = 0;
-  private pending = new Map<number, PendingRequest>();
+  private pending: PendingRequests;
   private postEndpoint: string | null = null;
   private abortController: AbortController | null = null;
   private streamActive = false;
+  private events = new ConnectionEvents();
+  private handlers: MCPClientHandlers | undefined;
+  private auth: MCPAuthProvider | undefined;
 
-  constructor(id: string, config: MCPConfig, logger?: Logger) {
+  constructor(
+    id: string, config: MCPConfig, logger?: Logger, handlers?: MCPClientHandlers, auth?: MCPAuthProvider,
+  ) {
     this.id = id;
     this.config = config;
     this.log = logger;
+    this.handlers = handlers;
+    this.auth = auth;
+    this.pending = new PendingRequests(config.timeoutMs);
   }
 
   async connect(): Promise<void> {
@@ -63,7 +85,8 @@ export class SseMCPClient implements MCPServer {
     this.streamActive = true;
     try {
       await this.startEventStream(sseUrl);
-      await this.sendRequest('initialize', buildInitializeParams());
+      const result = await this.sendRequest('initialize', buildInitializeParams(this.handlers)) as InitializeResult;
+      this.capabilities = result.capabilities;
     } catch (err) {
       this.streamActive = false;
       this.abortController?.abort();
@@ -82,7 +105,7 @@ export class SseMCPClient implements MCPServer {
     this.streamActive = false;
     this.abortController?.abort();
     this.abortController = null;
-    clearPendingRequests(this.pending, 'SSE client disconnected');
+    this.pending.rejectAll('SSE client disconnected');
 
     this.log?.info(`MCP server '${this.id}' disconnected`);
   }
@@ -113,15 +136,43 @@ export class SseMCPClient implements MCPServer {
     );
   }
 
+  async listPrompts(): Promise<MCPPrompt[]> {
+    this.assertConnected();
+    return mapPromptsList(await this.sendRequest('prompts/list', {}) as PromptsListResult);
+  }
+
+  async getPrompt(
+    name: string, args: Record<string, string>,
+  ): Promise<{ description?: string; messages: MCPPromptMessage[] }> {
+    this.assertConnected();
+    return handlePromptGetResult(
+      name,
+      await this.sendRequest('prompts/get', { name, arguments: args }) as PromptGetResult
+    );
+  }
+
+  async ping(): Promise<void> {
+    this.assertConnected();
+    await this.sendRequest('ping', {});
+  }
+
+  onClose(handler: MCPCloseHandler): void {
+    this.events.onClose(handler);
+  }
+
+  onNotification(handler: MCPNotificationHandler): void {
+    this.events.onNotification(handler);
+  }
+
   // ---------------------------------------------------------------------------
   // Private
   // ---------------------------------------------------------------------------
 
   private async startEventStream(sseUrl: string): Promise<void> {
-    const response = await fetch(sseUrl, {
+    const response = await fetchWithAuth(sseUrl, {
       headers: { Accept: 'text/event-stream', ...this.config.headers },
       signal: this.abortController?.signal,
-    });
+    }, this.auth);
 
     if (!response.ok) {
       throw new Error(`MCP SSE server '${this.id}' returned ${response.status}`);
@@ -143,11 +194,7 @@ export class SseMCPClient implements MCPServer {
       for (const line of lines) {
         if (line.startsWith('event: endpoint')) continue;
         if (line.startsWith('data: ')) {
-          const endpoint = line.slice(6).trim();
-          const baseUrl = this.config.url!;
-          this.postEndpoint = endpoint.startsWith('http')
-            ? endpoint
-            : new URL(endpoint, baseUrl).toString();
+          this.postEndpoint = this.resolveEndpoint(line.slice(6).trim());
           break;
         }
       }
@@ -175,7 +222,10 @@ export class SseMCPClient implements MCPServer {
               readyResolve();
             }
             const { done, value } = await readPromise;
-            if (done) break;
+            if (done) {
+              this.handleStreamEnd('event stream ended');
+              break;
+            }
             buffer += decoder.decode(value, { stream: true });
             const lines = buffer.split('\n');
             buffer = lines.pop() ?? '';
@@ -188,6 +238,7 @@ export class SseMCPClient implements MCPServer {
         } catch {
           if (this.streamActive) {
             this.log?.warn(`MCP SSE '${this.id}' stream read error`);
+            this.handleStreamEnd('event stream read error');
           }
         } finally {
           reader.releaseLock();
@@ -197,6 +248,30 @@ export class SseMCPClient implements MCPServer {
     });
   }
 
+  /**
+   * The POST URL from the endpoint event. Posts carry the configured headers
+   * and the OAuth token, so an endpoint on another origin is refused.
+   */
+  private resolveEndpoint(endpoint: string): string {
+    const base = new URL(this.config.url!);
+    const resolved = new URL(endpoint, base);
+    if (resolved.origin !== base.origin) {
+      throw new Error(
+        `MCP SSE server '${this.id}' sent an endpoint on another origin: ${resolved.origin} (expected ${base.origin})`,
+      );
+    }
+    return resolved.toString();
+  }
+
+  /** The stream dropped while connected: fail pending requests and report the close */
+  private handleStreamEnd(reason: string): void {
+    if (!this.connected) return;
+    this.connected = false;
+    this.streamActive = false;
+    this.pending.rejectAll(`MCP SSE ${reason}`);
+    this.events.emitClose(reason);
+  }
+
   private handleJsonLine(data: string): void {
     let parsed: JsonRpcResponse;
     try {
@@ -204,7 +279,36 @@ export class SseMCPClient implements MCPServer {
     } catch {
       return;
     }
-    resolveJsonRpcResponse(this.pending, parsed);
+    const request = asServerRequest(parsed as JsonRpcIncoming);
+    if (request) {
+      void this.answerRequest(request);
+      return;
+    }
+    const notification = asNotification(parsed as JsonRpcIncoming);
+    if (notification) {
+      this.events.emitNotification(notification.method, notification.params);
+      return;
+    }
+    this.pending.settle(parsed);
+  }
+
+  /** Replies to a server request with a POST, like any other client message */
+  private async answerRequest(request: JsonRpcServerRequest): Promise<void> {
+    const reply = await this.pending.whileAnswering(
+      () => answerServerRequest(this.id, this.handlers, request, this.log),
+    );
+    if (!this.postEndpoint) return;
+    try {
+      await fetchWithAuth(this.postEndpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.config.headers },
+        body: JSON.stringify(reply),
+      }, this.auth);
+    } catch (err) {
+      this.log?.warn(`MCP SSE '${this.id}' reply to '${request.method}' failed`, {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
   }
 
   private sendRequest(method: string, params?: Record<string, unknown>): Promise<unknown> {
@@ -215,24 +319,21 @@ export class SseMCPClient implements MCPServer {
     const id = ++this.requestId;
     const body = JSON.stringify({ jsonrpc: JSONRPC_VERSION, id, method, params: params ?? {} });
 
-    return new Promise<unknown>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        this.pending.delete(id);
-        reject(new Error(`MCP SSE request '${method}' timed out after ${DEFAULT_TIMEOUT_MS}ms`));
-      }, DEFAULT_TIMEOUT_MS);
-
-      this.pending.set(id, { resolve, reject, timeout });
+    const reply = this.pending.add(id, `MCP SSE request '${method}'`);
 
-      fetch(this.postEndpoint!, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...this.config.headers },
-        body,
-      }).catch(err => {
-        this.pending.delete(id);
-        clearTimeout(timeout);
-        reject(err);
-      });
+    fetchWithAuth(this.postEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.config.headers },
+      body,
+    }, this.auth).then(response => {
+      if (!response.ok) {
+        throw new Error(`MCP SSE server '${this.id}' returned ${response.status}: ${response.statusText}`);
+      }
+    }).catch(err => {
+      this.pending.reject(id, err instanceof Error ? err : new Error(String(err)));
     });
+
+    return reply;
   }
 
   private assertConnected(): void {
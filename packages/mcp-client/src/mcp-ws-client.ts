@@ -3,7 +3,10 @@
  * Uses a single WebSocket connection for both request and response
  */
 
-import type { ToolDefinition, MCPServer, MCPConfig, MCPTransport, Logger } from './types';
+import type {
+  ToolDefinition, MCPServer, MCPConfig, MCPTransport, Logger, MCPCloseHandler, MCPNotificationHandler,
+  MCPServerCapabilities, MCPPrompt, MCPPromptMessage, MCPClientHandlers,
+} from './types';
 import {
   JSONRPC_VERSION,
   DEFAULT_TIMEOUT_MS,
@@ -11,18 +14,26 @@ import {
   handleToolCallResult,
   mapResourcesList,
   handleResourceReadResult,
+  mapPromptsList,
+  handlePromptGetResult,
   buildInitializeParams,
-  clearPendingRequests,
-  resolveJsonRpcResponse,
+  asNotification,
+  PendingRequests,
+  ConnectionEvents,
 } from './mcp-client-utils';
 import type {
+  JsonRpcIncoming,
   JsonRpcResponse,
-  PendingRequest,
   ToolsListResult,
   ToolCallResult,
   ResourcesListResult,
   ResourceReadResult,
+  PromptsListResult,
+  PromptGetResult,
+  InitializeResult,
 } from './mcp-client-utils';
+import { answerServerRequest, asServerRequest } from './mcp-client-requests';
+import type { JsonRpcServerRequest } from './mcp-client-requests';
 
 // ---------------------------------------------------------------------------
 // WebSocket MCP Client
@@ -31,18 +42,23 @@ import type {
 export class WebSocketMCPClient implements MCPServer {
   readonly id: string;
   readonly transport: MCPTransport = 'websocket';
+  capabilities?: MCPServerCapabilities;
 
   private connected = false;
   private config: MCPConfig;
   private log: Logger | undefined;
   private requestId = 0;
-  private pending = new Map<number, PendingRequest>();
+  private pending: PendingRequests;
   private ws: WebSocket | null = null;
+  private events = new ConnectionEvents();
+  private handlers: MCPClientHandlers | undefined;
 
-  constructor(id: string, config: MCPConfig, logger?: Logger) {
+  constructor(id: string, config: MCPConfig, logger?: Logger, handlers?: MCPClientHandlers) {
     this.id = id;
     this.config = config;
     this.log = logger;
+    this.handlers = handlers;
+    this.pending = new PendingRequests(config.timeoutMs);
   }
 
   async connect(): Promise<void> {
@@ -56,7 +72,8 @@ export class WebSocketMCPClient implements MCPServer {
     this.log?.debug(`MCP WebSocket connecting to '${this.id}'`, { url: wsUrl });
 
     await this.openWebSocket(wsUrl);
-    await this.sendRequest('initialize', buildInitializeParams());
+    const result = await this.sendRequest('initialize', buildInitializeParams(this.handlers)) as InitializeResult;
+    this.capabilities = result.capabilities;
     this.connected = true;
 
     this.log?.info(`MCP server '${this.id}' connected via WebSocket`);
@@ -66,7 +83,7 @@ export class WebSocketMCPClient implements MCPServer {
     if (!this.connected) return;
 
     this.connected = false;
-    clearPendingRequests(this.pending, 'WebSocket client disconnected');
+    this.pending.rejectAll('WebSocket client disconnected');
 
     if (this.ws) {
       this.ws.close();
@@ -102,6 +119,34 @@ export class WebSocketMCPClient implements MCPServer {
     );
   }
 
+  async listPrompts(): Promise<MCPPrompt[]> {
+    this.assertConnected();
+    return mapPromptsList(await this.sendRequest('prompts/list', {}) as PromptsListResult);
+  }
+
+  async getPrompt(
+    name: string, args: Record<string, string>,
+  ): Promise<{ description?: string; messages: MCPPromptMessage[] }> {
+    this.assertConnected();
+    return handlePromptGetResult(
+      name,
+      await this.sendRequest('prompts/get', { name, arguments: args }) as PromptGetResult
+    );
+  }
+
+  async ping(): Promise<void> {
+    this.assertConnected();
+    await this.sendRequest('ping', {});
+  }
+
+  onClose(handler: MCPCloseHandler): void {
+    this.events.onClose(handler);
+  }
+
+  onNotification(handler: MCPNotificationHandler): void {
+    this.events.onNotification(handler);
+  }
+
   // ---------------------------------------------------------------------------
   // Private
   // ---------------------------------------------------------------------------
@@ -135,7 +180,10 @@ export class WebSocketMCPClient implements MCPServer {
         if (this.connected) {
           this.log?.warn(`MCP WebSocket '${this.id}' closed unexpectedly`);
           this.connected = false;
-          clearPendingRequests(this.pending, 'WebSocket closed unexpectedly');
+          this.pending.rejectAll('WebSocket closed unexpectedly');
+          this.ws = null;
+          this.events.emitClose('WebSocket closed');
+          return;
         }
         this.ws = null;
       });
@@ -151,12 +199,33 @@ export class WebSocketMCPClient implements MCPServer {
       return;
     }
 
+    const request = asServerRequest(parsed as JsonRpcIncoming);
+    if (request) {
+      void this.answerRequest(request);
+      return;
+    }
+
     if (parsed.id === undefined || parsed.id === null) {
       this.log?.debug(`MCP WebSocket '${this.id}' received notification`);
+      const notification = asNotification(parsed as JsonRpcIncoming);
+      if (notification) this.events.emitNotification(notification.method, notification.params);
       return;
     }
 
-    resolveJsonRpcResponse(this.pending, parsed);
+    this.pending.settle(parsed);
+  }
+
+  private async answerRequest(request: JsonRpcServerRequest): Promise<void> {
+    const reply = await this.pending.whileAnswering(
+      () => answerServerRequest(this.id, this.handlers, request, this.log),
+    );
+    try {
+      this.ws?.send(JSON.stringify(reply));
+    } catch (err) {
+      this.log?.warn(`MCP WebSocket '${this.id}' reply to '${request.method}' failed`, {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
   }
 
   private sendRequest(method: string, params?: Record<string, unknown>): Promise<unknown> {
@@ -172,22 +241,13 @@ export class WebSocketMCPClient implements MCPServer {
       params: params ?? {},
     });
 
-    return new Promise<unknown>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        this.pending.delete(id);
-        reject(new Error(`MCP WebSocket request '${method}' timed out after ${DEFAULT_TIMEOUT_MS}ms`));
-      }, DEFAULT_TIMEOUT_MS);
-
-      this.pending.set(id, { resolve, reject, timeout });
-
-      try {
-        this.ws!.send(message);
-      } catch (err) {
-        this.pending.delete(id);
-        clearTimeout(timeout);
-        reject(err);
-      }
-    });
+    const reply = this.pending.add(id, `MCP WebSocket request '${method}'`);
+    try {
+      this.ws.send(message);
+    } catch (err) {
+      this.pending.reject(id, err instanceof Error ? err : new Error(String(err)));
+    }
+    return reply;
   }
 
   private assertConnected(): void {
@@ -34,15 +34,140 @@ export interface ToolDefinition {
 
 export type MCPTransport = 'stdio' | 'sse' | 'http' | 'websocket';
 
+/** Capabilities the server announced in its initialize result */
+export interface MCPServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  [capability: string]: unknown;
+}
+
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export type MCPCloseHandler = (reason: string) => void;
+export type MCPNotificationHandler = (method: string, params: Record<string, unknown>) => void;
+
 export interface MCPServer {
   id: string;
   transport: MCPTransport;
+  /** Set once connected; undefined when the server did not report any */
+  capabilities?: MCPServerCapabilities;
   connect(): Promise<void>;
   disconnect(): Promise<void>;
   listTools(): Promise<ToolDefinition[]>;
   callTool(name: string, input: Record<string, unknown>): Promise<unknown>;
   listResources(): Promise<Array<{ uri: string; name: string; mimeType?: string }>>;
   readResource(uri: string): Promise<{ content: string; mimeType?: string }>;
+  /** Servers without prompt support may leave out listPrompts and getPrompt */
+  listPrompts?(): Promise<MCPPrompt[]>;
+  getPrompt?(name: string, args: Record<string, string>): Promise<{ description?: string; messages: MCPPromptMessage[] }>;
+  /** Liveness check: resolves once the server answers a ping */
+  ping?(): Promise<void>;
+  /** Called when the connection drops without disconnect() */
+  onClose?(handler: MCPCloseHandler): void;
+  /** Called for server notifications such as notifications/tools/list_changed */
+  onNotification?(handler: MCPNotificationHandler): void;
+}
+
+// ---------------------------------------------------------------------------
+// Client Features (requests the server sends to the client)
+// ---------------------------------------------------------------------------
+
+export type MCPSamplingContent =
+  | { type: 'text'; text: string }
+  | { type: 'image' | 'audio'; data: string; mimeType: string };
+
+export interface MCPSamplingMessage {
+  role: 'user' | 'assistant';
+  content: MCPSamplingContent;
+}
+
+/** Params of sampling/createMessage */
+export interface MCPSamplingRequest {
+  messages: MCPSamplingMessage[];
+  systemPrompt?: string;
+  maxTokens: number;
+  temperature?: number;
+  stopSequences?: string[];
+  modelPreferences?: {
+    hints?: Array<{ name?: string }>;
+    costPriority?: number;
+    speedPriority?: number;
+    intelligencePriority?: number;
+  };
+  includeContext?: 'none' | 'thisServer' | 'allServers';
+}
+
+export interface MCPSamplingResult {
+  role: 'assistant';
+  content: { type: 'text'; text: string };
+  model: string;
+  stopReason?: string;
+}
+
+export interface MCPRoot {
+  uri: string;
+  name?: string;
+}
+
+/** Flat object schema of an elicitation; every property is a primitive */
+export interface MCPElicitationSchema {
+  type: 'object';
+  properties: Record<string, {
+    type: 'string' | 'number' | 'integer' | 'boolean';
+    title?: string;
+    description?: string;
+    enum?: string[];
+    default?: string | number | boolean;
+  }>;
+  required?: string[];
+}
+
+/** Params of elicitation/create */
+export interface MCPElicitationRequest {
+  message: string;
+  requestedSchema: MCPElicitationSchema;
+}
+
+export interface MCPElicitationResult {
+  action: 'accept' | 'decline' | 'cancel';
+  content?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Answers requests that servers send to the client. Each handler that is
+ * set is announced as a client capability when connecting; a handler
+ * throws MCPRequestError to choose the JSON-RPC error code.
+ */
+export interface MCPClientHandlers {
+  createMessage?(serverId: string, request: MCPSamplingRequest): Promise<MCPSamplingResult>;
+  listRoots?(serverId: string): Promise<MCPRoot[]>;
+  elicit?(serverId: string, request: MCPElicitationRequest): Promise<MCPElicitationResult>;
+}
+
+// ---------------------------------------------------------------------------
+// Authorization
+// ---------------------------------------------------------------------------
+
+/**
+ * Supplies OAuth access tokens to the HTTP and SSE clients. The token is
+ * sent as a Bearer Authorization header; after a 401 the client asks for
+ * a refreshed token once and retries.
+ */
+export interface MCPAuthProvider {
+  /** The current access token, or undefined when there is none yet */
+  accessToken(): Promise<string | undefined>;
+  /** A new access token after a 401, or undefined when the user must log in again */
+  refresh(): Promise<string | undefined>;
 }
 
 export interface MCPConfig {
@@ -52,4 +177,6 @@ export interface MCPConfig {
   env?: Record<string, string>;
   type?: MCPTransport;
   headers?: Record<string, string>;
+  /** Per-request timeout in ms (default 30s), paused while the client answers a server request */
+  timeoutMs?: number;
 }
@@ -5,6 +5,181 @@
 
 import { z } from 'zod';
 
+// ---------------------------------------------------------------------------
+// Sandbox Policy
+// ---------------------------------------------------------------------------
+
+export const SandboxPolicySchema = z.object({
+  /** Enforce the policy; when false tools run unrestricted */
+  enabled: z.boolean().default(false),
+  /** Directories that Write, Edit and Bash may modify ('.' is the working directory) */
+  writeRoots: z.array(z.string()).default(['.']),
+  /** Path globs that no tool may read or modify (a plain path also covers everything below it) */
+  denyPaths: z.array(z.string()).default(['~/.daemux/credentials', '~/.ssh', '~/.aws', '~/.gnupg']),
+  /** Environment variables passed to Bash; a trailing '*' matches a prefix */
+  envAllowlist: z.array(z.string()).default([
+    'PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'TERM', 'TMPDIR', 'TZ', 'LANG', 'LC_*',
+  ]),
+  /** Allow network access from Bash; when false Bash runs in a private network namespace */
+  network: z.boolean().default(true),
+});
+
+export type SandboxPolicy = z.infer<typeof SandboxPolicySchema>;
+
+// ---------------------------------------------------------------------------
+// Tool Permissions
+// ---------------------------------------------------------------------------
+
+export const PermissionBehaviorSchema = z.enum(['allow', 'ask', 'deny']);
+export type PermissionBehavior = z.infer<typeof PermissionBehaviorSchema>;
+
+/**
+ * Permission rules are `Tool` or `Tool(specifier)`, e.g. `Bash(git push:*)`,
+ * `Write(/etc/**)`, `Read(**)`. Deny wins over ask, ask wins over allow.
+ */
+export const PermissionRulesSchema = z.object({
+  allow: z.array(z.string()).default([]),
+  ask: z.array(z.string()).default([]),
+  deny: z.array(z.string()).default([]),
+  /** Calls answered with "allow-always"; these skip ask rules but not deny rules */
+  approved: z.array(z.string()).default([]),
+  /** Behavior for tool calls that match no rule */
+  defaultMode: PermissionBehaviorSchema.default('allow'),
+});
+
+export type PermissionRules = z.infer<typeof PermissionRulesSchema>;
+
+// ---------------------------------------------------------------------------
+// Web Tools
+// ---------------------------------------------------------------------------
+
+/**
+ * Domains WebFetch and WebSearch may reach. An entry covers the domain and
+ * its subdomains; blocked wins over allowed, and an empty allow list allows all.
+ */
+export const WebToolsPolicySchema = z.object({
+  allowedDomains: z.array(z.string()).default([]),
+  blockedDomains: z.array(z.string()).default([]),
+  /** Let WebFetch reach loopback, link-local and private addresses */
+  allowPrivateNetwork: z.boolean().default(false),
+});
+
+export type WebToolsPolicy = z.infer<typeof WebToolsPolicySchema>;
+
+/**
+ * Built-in OpenAI-compatible chat-completions provider. Point baseUrl at a
+ * local server (llama.cpp, vLLM, Ollama) to use it without an API key.
+ */
+export const OpenAIProviderConfigSchema = z.object({
+  baseUrl: z.string().url().default('https://api.openai.com/v1'),
+  /** Model used when a request asks for the provider's default */
+  defaultModel: z.string().default('gpt-4o-mini'),
+  /** Model ids offered by listModels(); the endpoint accepts others too */
+  models: z.array(z.string()).optional(),
+  contextWindow: z.number().int().positive().default(128000),
+  /** The endpoint accepts image and PDF input; the model is then sent media blocks */
+  vision: z.boolean().default(false),
+});
+
+export type OpenAIProviderConfig = z.infer<typeof OpenAIProviderConfigSchema>;
+
+/**
+ * A model alias, or a provider-qualified model id such as
+ * "openai:gpt-4o-mini" that routes the request to that provider.
+ */
+export const AgentModelSchema = z.union([
+  z.enum(['inherit', 'sonnet', 'opus', 'haiku']),
+  z.string().regex(/^[a-z][a-z0-9-]*:.+$/),
+]);
+
+/** A concrete model for a role or alias, with an optional output token cap */
+export const ModelRouteSchema = z.object({
+  /** Model id, alias, "default", "inherit" or "provider:model" */
+  model: z.string().min(1),
+  maxTokens: z.number().int().positive().optional(),
+});
+
+export type ModelRoute = z.infer<typeof ModelRouteSchema>;
+
+const ModelRefSchema = z.union([z.string().min(1), ModelRouteSchema]);
+
+/**
+ * Which model serves each internal role, and what model aliases such as
+ * "haiku" expand to. Unset roles and aliases fall back to built-in defaults.
+ */
+export const ModelRoutingSchema = z.object({
+  roles: z.object({
+    /** Main conversation model; used when `model` is left at "default" */
+    main: ModelRefSchema.optional(),
+    compaction: ModelRefSchema.optional(),
+    classifier: ModelRefSchema.optional(),
+    planner: ModelRefSchema.optional(),
+    agentFactory: ModelRefSchema.optional(),
+    /** Model for agents whose definition says "inherit" */
+    subagent: ModelRefSchema.optional(),
+  }).default({}),
+  aliases: z.record(z.string(), ModelRefSchema).default({}),
+});
+
+export type ModelRouting = z.infer<typeof ModelRoutingSchema>;
+
+/**
+ * Retry, circuit breaker and failover policy for LLM calls. Fallbacks are
+ * tried in order when the primary provider keeps failing: a provider id
+ * ("openai") uses that provider's default model, anything else is resolved
+ * like a model reference ("openai:gpt-4o", "haiku").
+ */
+export const FailoverConfigSchema = z.object({
+  fallbacks: z.array(z.string().min(1)).default([]),
+  /** Retries per provider for transient errors (429, 5xx, network resets) */
+  maxRetries: z.number().int().min(0).default(4),
+  baseDelayMs: z.number().int().positive().default(2000),
+  /** Longest wait before a retry; longer server hints fail over instead */
+  maxDelayMs: z.number().int().positive().default(30000),
+  /** Consecutive failures that open a provider's circuit */
+  failureThreshold: z.number().int().positive().default(5),
+  /** How long an open circuit skips the provider before a trial call */
+  cooldownMs: z.number().int().positive().default(60000),
+});
+
+export type FailoverConfig = z.infer<typeof FailoverConfigSchema>;
+
+// ---------------------------------------------------------------------------
+// Pricing & Budgets
+// ---------------------------------------------------------------------------
+
+/** Model price in USD per million tokens; unset cache prices bill at the input price */
+export const ModelPricingSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+  cacheRead: z.number().min(0).optional(),
+  cacheWrite: z.number().min(0).optional(),
+});
+
+export type ModelPricing = z.infer<typeof ModelPricingSchema>;
+
+/** Spend limits in USD: soft limits warn, hard limits stop the loop */
+export const BudgetLimitSchema = z.object({
+  soft: z.number().positive().optional(),
+  hard: z.number().positive().optional(),
+});
+
+export type BudgetLimit = z.infer<typeof BudgetLimitSchema>;
+
+export const BudgetConfigSchema = z.object({
+  /** Total spend of one session */
+  session: BudgetLimitSchema.optional(),
+  /** Total spend of one work-loop task, across retries */
+  task: BudgetLimitSchema.optional(),
+  /** Spend of each agent per day, unless the agent has its own entry in `agents` */
+  agent: BudgetLimitSchema.optional(),
+  agents: z.record(z.string(), BudgetLimitSchema).default({}),
+  /** Spend of everything per day */
+  daily: BudgetLimitSchema.optional(),
+});
+
+export type BudgetConfig = z.infer<typeof BudgetConfigSchema>;
+
 // ---------------------------------------------------------------------------
 // Configuration
 // ---------------------------------------------------------------------------
@@ -18,6 +193,8 @@ export const ConfigSchema = z.object({
    * - 'default': Use the provider's default model
    * - Any string: Use the specified model ID (provider-specific)
    *
+   * - 'provider:model': Use the model on another registered provider (e.g. 'openai:gpt-4o-mini')
+   *
    * Note: The model string is passed directly to the LLM provider.
    * Common Anthropic models: claude-sonnet-4-20250514, claude-opus-4-20250514, claude-haiku-3-5-20250514
    */
@@ -35,6 +212,27 @@ export const ConfigSchema = z.object({
   maxConcurrentTasks: z.number().min(1).max(20).default(3),
   workPollingIntervalMs: z.number().positive().default(5000),
   workBudgetMaxTasksPerHour: z.number().positive().default(50),
+  promptCaching: z.boolean().default(true),
+  /** Name of the registered compaction strategy used when the context fills up */
+  compactionStrategy: z.string().default('full-summary'),
+  /** Model used for compaction summaries (defaults to a small fast model) */
+  compactionModel: z.string().optional(),
+  /** Recent turns kept verbatim by the keep-recent and elide-tool-results strategies */
+  compactionKeepTurns: z.number().int().positive().default(4),
+  /** Filesystem, environment and network policy applied to Bash, Write and Edit */
+  sandbox: SandboxPolicySchema.optional(),
+  /** Rules evaluated before every tool call */
+  permissions: PermissionRulesSchema.optional(),
+  web: WebToolsPolicySchema.optional(),
+  openai: OpenAIProviderConfigSchema.optional(),
+  /** Per-role model routing and alias definitions */
+  models: ModelRoutingSchema.optional(),
+  /** Retry and provider failover policy */
+  failover: FailoverConfigSchema.optional(),
+  /** Per-model prices, keyed by model id or id prefix; merged over the built-in table */
+  pricing: z.record(z.string(), ModelPricingSchema).optional(),
+  /** Spend limits per session, task, agent and day */
+  budgets: BudgetConfigSchema.optional(),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -46,6 +244,34 @@ export type Config = z.infer<typeof ConfigSchema>;
 export const MessageRoleSchema = z.enum(['user', 'assistant', 'system']);
 export type MessageRole = z.infer<typeof MessageRoleSchema>;
 
+/** Inline file data, as the Messages API expects it */
+export const MediaSourceSchema = z.object({
+  type: z.literal('base64'),
+  media_type: z.string(),
+  data: z.string(),
+});
+
+export type MediaSource = z.infer<typeof MediaSourceSchema>;
+
+export const ImageBlockSchema = z.object({
+  type: z.literal('image'),
+  source: MediaSourceSchema,
+});
+
+export type ImageBlock = z.infer<typeof ImageBlockSchema>;
+
+/** A PDF the model reads page by page */
+export const DocumentBlockSchema = z.object({
+  type: z.literal('document'),
+  source: MediaSourceSchema,
+  title: z.string().optional(),
+});
+
+export type DocumentBlock = z.infer<typeof DocumentBlockSchema>;
+
+export const MediaBlockSchema = z.discriminatedUnion('type', [ImageBlockSchema, DocumentBlockSchema]);
+export type MediaBlock = z.infer<typeof MediaBlockSchema>;
+
 export const ContentBlockSchema = z.discriminatedUnion('type', [
   z.object({
     type: z.literal('text'),
@@ -63,6 +289,17 @@ export const ContentBlockSchema = z.discriminatedUnion('type', [
     content: z.string(),
     is_error: z.boolean().optional(),
   }),
+  z.object({
+    type: z.literal('thinking'),
+    thinking: z.string(),
+    signature: z.string(),
+  }),
+  z.object({
+    type: z.literal('redacted_thinking'),
+    data: z.string(),
+  }),
+  ImageBlockSchema,
+  DocumentBlockSchema,
 ]);
 
 export type ContentBlock = z.infer<typeof ContentBlockSchema>;
@@ -74,10 +311,15 @@ export const MessageSchema = z.object({
   content: z.union([z.string(), z.array(ContentBlockSchema)]),
   createdAt: z.number(),
   tokenCount: z.number().optional(),
+  /** Set when the message was replaced by compaction; archived messages are not sent to the model */
+  archivedAt: z.number().optional(),
 });
 
 export type Message = z.infer<typeof MessageSchema>;
 
+export const ThinkingLevelSchema = z.enum(['off', 'low', 'medium', 'high']);
+export type ThinkingLevel = z.infer<typeof ThinkingLevelSchema>;
+
 export const SessionSchema = z.object({
   id: z.string().uuid(),
   createdAt: z.number(),
@@ -87,7 +329,7 @@ export const SessionSchema = z.object({
   queueMode: z.enum(['steer', 'interrupt', 'queue', 'collect']),
   activeChannelId: z.string().optional(),
   currentTaskId: z.string().optional(),
-  thinkingLevel: z.enum(['low', 'medium', 'high']).optional(),
+  thinkingLevel: ThinkingLevelSchema.optional(),
   flags: z.record(z.unknown()).default({}),
 });
 
@@ -114,6 +356,8 @@ export const ToolResultSchema = z.object({
   toolUseId: z.string(),
   content: z.string(),
   isError: z.boolean().optional(),
+  /** Images or documents shown to the model after the text result */
+  media: z.array(MediaBlockSchema).optional(),
 });
 
 export type ToolResult = z.infer<typeof ToolResultSchema>;
@@ -152,11 +396,15 @@ export type Task = z.infer<typeof TaskSchema>;
 export const AgentDefinitionSchema = z.object({
   name: z.string().regex(/^[a-z][a-z0-9-]{2,49}$/),
   description: z.string(),
-  model: z.enum(['inherit', 'sonnet', 'opus', 'haiku']).default('inherit'),
+  model: AgentModelSchema.default('inherit'),
   tools: z.array(z.string()).optional(),
   color: z.enum(['blue', 'cyan', 'green', 'yellow', 'red']),
   systemPrompt: z.string(),
   pluginId: z.string(),
+  compactionStrategy: z.string().optional(),
+  compactionModel: z.string().optional(),
+  /** Sandbox overrides merged over the configured policy for this agent */
+  sandbox: SandboxPolicySchema.partial().optional(),
 });
 
 export type AgentDefinition = z.infer<typeof AgentDefinitionSchema>;
@@ -190,6 +438,8 @@ export interface AgentResult {
   agentId: string;
   output: string;
   tokensUsed: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
   toolUses: number;
   durationMs: number;
 }
@@ -275,6 +525,28 @@ export const AuditEntrySchema = z.object({
 
 export type AuditEntry = z.infer<typeof AuditEntrySchema>;
 
+// ---------------------------------------------------------------------------
+// Usage Record
+// ---------------------------------------------------------------------------
+
+export const UsageRecordSchema = z.object({
+  id: z.number().optional(),
+  timestamp: z.number(),
+  sessionId: z.string(),
+  agent: z.string().optional(),
+  taskId: z.string().optional(),
+  swarmId: z.string().optional(),
+  provider: z.string(),
+  model: z.string(),
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  cacheReadTokens: z.number(),
+  cacheWriteTokens: z.number(),
+  costUsd: z.number(),
+});
+
+export type UsageRecord = z.infer<typeof UsageRecordSchema>;
+
 // ---------------------------------------------------------------------------
 // Queue Message
 // ---------------------------------------------------------------------------
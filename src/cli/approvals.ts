@@ -27,7 +27,7 @@ import type { ApprovalRow } from '../infra/db/types';
 // ---------------------------------------------------------------------------
 
 function getDefaultDbPath(): string {
-  return join(homedir(), '.daemux', 'agent.db');
+  return join(homedir(), '.daemux', 'state.db');
 }
 
 function withDb<T>(dbPath: string, fn: (db: BunSQLite) => T): T {
@@ -1,6 +1,6 @@
 /**
  * Authentication Commands
- * Token and API key management for Anthropic provider
+ * Token and API key management for the Anthropic and OpenAI-compatible providers
  */
 
 import { Command } from 'commander';
@@ -33,6 +33,8 @@ import {
   readClaudeCliCredentials,
   type ResolvedCredentials,
 } from './credentials';
+import { loadConfig } from '../core/config';
+import { createOpenAIProvider } from '../core/openai-provider';
 
 // Re-export credential resolution functions for backward compatibility
 export { resolveCredentials, resolveApiKey, hasValidCredentials };
@@ -70,6 +72,46 @@ function validateProvider(provider: string): provider is Provider {
   return SUPPORTED_PROVIDERS.includes(provider as Provider);
 }
 
+// ---------------------------------------------------------------------------
+// OpenAI-Compatible API Key
+// ---------------------------------------------------------------------------
+
+async function setupOpenAIKey(): Promise<void> {
+  const endpoint = loadConfig().openai;
+  const provider = createOpenAIProvider(endpoint);
+
+  console.log(bold('\nSetup API Key\n'));
+  console.log(dim(`Endpoint: ${endpoint?.baseUrl ?? 'https://api.openai.com/v1'}`));
+  console.log(dim('Set "openai.baseUrl" in ~/.daemux/settings.json to use a local or compatible server.\n'));
+
+  const value = await promptSecret('API Key:');
+  if (!value) {
+    printError('API key cannot be empty');
+    process.exit(1);
+  }
+
+  const verifySpinner = createSpinner('Verifying API key with the endpoint');
+  verifySpinner.start();
+
+  const verification = await provider.verifyCredentials({ type: 'api_key', value });
+  if (!verification.valid) {
+    verifySpinner.fail('API key verification failed');
+    printError(verification.error!);
+    process.exit(1);
+  }
+  verifySpinner.succeed('API key verified successfully');
+
+  saveCredentials('openai', {
+    type: 'api_key',
+    provider: 'openai',
+    apiKey: value,
+    expires: null,
+    createdAt: Date.now(),
+  });
+  printInfo(`Stored in: ${getCredentialsPath('openai')}`);
+  printInfo('Use it with a provider-qualified model, e.g. "model": "openai:gpt-4o-mini"');
+}
+
 // ---------------------------------------------------------------------------
 // Setup Credentials Commands
 // ---------------------------------------------------------------------------
@@ -83,6 +125,15 @@ async function setupCredential(
     process.exit(1);
   }
 
+  if (options.provider === 'openai') {
+    if (type === 'token') {
+      printError('Setup tokens are only supported for anthropic. Use: daemux auth api-key -p openai');
+      process.exit(1);
+    }
+    await setupOpenAIKey();
+    return;
+  }
+
   const isToken = type === 'token';
   const label = isToken ? 'Token' : 'API Key';
 
@@ -175,6 +226,9 @@ async function showStatus(): Promise<void> {
     console.log(`${success('✓')} Environment variable: ${envCreds.type === 'token' ? 'ANTHROPIC_OAUTH_TOKEN' : 'ANTHROPIC_API_KEY'}`);
     console.log(dim('  (Environment variables take priority over stored credentials)\n'));
   }
+  if (process.env.OPENAI_API_KEY) {
+    console.log(`${success('✓')} Environment variable: OPENAI_API_KEY\n`);
+  }
 
   // Check stored credentials
   let hasStored = false;
@@ -208,7 +262,7 @@ async function showStatus(): Promise<void> {
     console.log(dim('  (Automatically used when no other credentials are configured)\n'));
   }
 
-  if (!envCreds && !hasStored && !claudeCreds) {
+  if (!envCreds && !hasStored && !claudeCreds && !process.env.OPENAI_API_KEY) {
     console.log(`${warning('!')} No credentials configured.\n`);
     console.log('To configure authentication, run:');
     console.log(dim('  daemux auth api-key --provider anthropic\n'));
@@ -256,7 +310,7 @@ export function registerAuthCommands(program: Command): void {
 
   auth
     .command('api-key')
-    .description('Configure API key from Anthropic Console')
+    .description('Configure an API key (Anthropic Console, or OpenAI-compatible with -p openai)')
     .option('-p, --provider <provider>', 'Provider name', 'anthropic')
     .action(setupApiKey);
 
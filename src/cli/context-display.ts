@@ -6,17 +6,16 @@
 import { bold, dim, color, getTerminalWidth } from './utils';
 import { BUILTIN_TOOLS } from '../core/loop';
 import type { AgenticLoop } from '../core/loop';
+import type { ContextTokenCounts } from '../core/loop';
 import type { ToolDefinition } from '../core/types';
 import type { ColorName } from './utils';
+import { estimateTokens } from '../core/token-counter';
 
 // ---------------------------------------------------------------------------
-// Token Estimation Helpers
+// Token Formatting Helpers
 // ---------------------------------------------------------------------------
 
-export function estimateTokens(text: string): number {
-  if (!text) return 0;
-  return Math.ceil(text.length / 4);
-}
+export { estimateTokens };
 
 export function formatTokens(n: number): string {
   if (n >= 1000) {
@@ -90,6 +89,8 @@ interface ContextDisplayInput {
   agentContextText: string | null;
   messageTokens: number;
   messageCount: number;
+  /** Counts from the loop's token counter; estimated from the text when absent */
+  tokenCounts?: ContextTokenCounts;
 }
 
 /** Safe percentage: returns 0 when total is zero. */
@@ -109,17 +110,30 @@ interface TokenBreakdown {
   freeTokens: number;
 }
 
+function estimateTokenCounts(info: ContextDisplayInput, tools: ToolDefinition[]): ContextTokenCounts {
+  const agentContext = info.agentContextText ? estimateTokens(info.agentContextText) : 0;
+  const builtinNames = new Set(BUILTIN_TOOLS.map(t => t.name));
+  const mcpToolList = tools.filter(t => !builtinNames.has(t.name));
+
+  return {
+    systemPrompt: Math.max(0, estimateTokens(info.systemPromptText) - agentContext),
+    agentContext,
+    builtinTools: estimateTokens(JSON.stringify(tools.filter(t => builtinNames.has(t.name)))),
+    mcpTools: mcpToolList.length > 0 ? estimateTokens(JSON.stringify(mcpToolList)) : 0,
+  };
+}
+
 function computeTokenBreakdown(info: ContextDisplayInput, tools: ToolDefinition[]): TokenBreakdown {
   const total = info.effectiveContextWindow;
-  const agentTokens = info.agentContextText ? estimateTokens(info.agentContextText) : 0;
-  const systemOnlyTokens = Math.max(0, estimateTokens(info.systemPromptText) - agentTokens);
+  const counts = info.tokenCounts ?? estimateTokenCounts(info, tools);
+  const agentTokens = counts.agentContext;
+  const systemOnlyTokens = counts.systemPrompt;
 
   const builtinNames = new Set(BUILTIN_TOOLS.map(t => t.name));
-  const builtinToolList = tools.filter(t => builtinNames.has(t.name));
-  const mcpToolList = tools.filter(t => !builtinNames.has(t.name));
+  const mcpToolCount = tools.filter(t => !builtinNames.has(t.name)).length;
 
-  const builtinToolTokens = estimateTokens(JSON.stringify(builtinToolList));
-  const mcpToolTokens = mcpToolList.length > 0 ? estimateTokens(JSON.stringify(mcpToolList)) : 0;
+  const builtinToolTokens = counts.builtinTools;
+  const mcpToolTokens = counts.mcpTools;
   const msgTokens = info.messageTokens;
 
   const usedTokens = systemOnlyTokens + agentTokens + builtinToolTokens + mcpToolTokens + msgTokens;
@@ -128,7 +142,7 @@ function computeTokenBreakdown(info: ContextDisplayInput, tools: ToolDefinition[
 
   return {
     systemOnlyTokens, agentTokens, builtinToolTokens,
-    mcpToolTokens, mcpToolCount: mcpToolList.length,
+    mcpToolTokens, mcpToolCount,
     msgTokens, usedTokens, compactionBuffer, freeTokens,
   };
 }
@@ -204,7 +218,7 @@ export async function gatherAndDisplay(
   loop: AgenticLoop,
   tools: ToolDefinition[],
 ): Promise<void> {
-  const info = await loop.getContextInfo();
+  const info = await loop.getContextInfo(tools);
   const output = renderContextDisplay(info, tools);
   console.log(output);
 }
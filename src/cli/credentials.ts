@@ -16,7 +16,7 @@ import Anthropic from '@anthropic-ai/sdk';
 export const TOKEN_PREFIX = 'sk-ant-oat01-';
 export const API_KEY_PREFIX = 'sk-ant-api';
 export const TOKEN_MIN_LENGTH = 80;
-export const SUPPORTED_PROVIDERS = ['anthropic'] as const;
+export const SUPPORTED_PROVIDERS = ['anthropic', 'openai'] as const;
 
 export type Provider = (typeof SUPPORTED_PROVIDERS)[number];
 
@@ -341,6 +341,21 @@ export function resolveCredentials(): ResolvedCredentials | undefined {
   return undefined;
 }
 
+/**
+ * Resolve the API key for the built-in OpenAI-compatible provider.
+ * Local servers usually need none, so a missing key is not an error.
+ */
+export function resolveOpenAICredentials(): ResolvedCredentials | undefined {
+  if (process.env.OPENAI_API_KEY) {
+    return { type: 'api_key', value: process.env.OPENAI_API_KEY, source: 'env' };
+  }
+
+  const creds = loadCredentials('openai');
+  if (creds?.apiKey) return { type: 'api_key', value: creds.apiKey, source: 'stored' };
+
+  return undefined;
+}
+
 /** @deprecated Use resolveCredentials() instead for proper OAuth token support */
 export function resolveApiKey(): string | undefined {
   const creds = resolveCredentials();
@@ -0,0 +1,65 @@
+/**
+ * Hook Commands
+ * daemux hooks trust - review and trust the project's .daemux/hooks.json,
+ * and the project hook loading shared by run, work and mcp serve
+ */
+
+import { Command } from 'commander';
+import { existsSync, readFileSync } from 'fs';
+import { loadConfig } from '../core/config';
+import { projectHooksPath, trustHooksContent } from '../core/hook-trust';
+import type { HookManager } from '../core/hook-manager';
+import type { Config } from '../core/types';
+import { confirm, dim, printError, printInfo, printWarning } from './utils';
+
+/** Show the hooks file and record its contents as trusted if the user agrees */
+async function reviewAndTrust(config: Config, filePath: string): Promise<boolean> {
+  const content = readFileSync(filePath, 'utf-8');
+  printInfo(`${filePath} runs these commands on tool calls:`);
+  console.log(dim(content.trimEnd()));
+  if (!await confirm('Trust these hooks for this project?')) return false;
+
+  trustHooksContent(config.dataDir, filePath, content);
+  return true;
+}
+
+/**
+ * Load the project's hooks if they are trusted. With `ask`, untrusted hooks
+ * are shown and the user can trust them on the spot; otherwise they are
+ * skipped with a warning.
+ */
+export async function loadProjectHooks(
+  hookManager: HookManager, config: Config, options: { ask: boolean },
+): Promise<void> {
+  if (hookManager.loadProjectHooks(process.cwd())) return;
+
+  const filePath = projectHooksPath(process.cwd());
+  if (options.ask && process.stdin.isTTY && await reviewAndTrust(config, filePath)) {
+    hookManager.loadProjectHooks(process.cwd());
+    return;
+  }
+  printWarning(`Project hooks in ${filePath} are not trusted and were not loaded. Review them with \`daemux hooks trust\`.`);
+}
+
+async function trustCommand(): Promise<void> {
+  const config = loadConfig();
+  const filePath = projectHooksPath(process.cwd());
+  if (!existsSync(filePath)) {
+    printError(`No project hooks found at ${filePath}`);
+    process.exit(1);
+  }
+
+  if (await reviewAndTrust(config, filePath)) printInfo('Project hooks trusted');
+  else printWarning('Project hooks not trusted');
+}
+
+export function registerHookCommands(program: Command): void {
+  const hooks = program
+    .command('hooks')
+    .description('Manage tool hooks');
+
+  hooks
+    .command('trust')
+    .description("Review and trust the project's .daemux/hooks.json")
+    .action(trustCommand);
+}
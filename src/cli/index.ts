@@ -17,6 +17,9 @@ import { registerApprovalCommands } from './approvals';
 import { registerChannelCommands } from './channels';
 import { registerWorkCommands } from './work';
 import { registerMCPCommands } from './mcp';
+import { registerSessionCommands } from './sessions';
+import { registerUsageCommands } from './usage';
+import { registerHookCommands } from './hooks';
 import { setConfig, getConfig } from '../core/config';
 import { initLogger } from '../infra/logger';
 import { version as packageVersion } from '../../package.json';
@@ -85,6 +88,9 @@ function createProgram(): Command {
   registerChannelCommands(program);
   registerWorkCommands(program);
   registerMCPCommands(program);
+  registerSessionCommands(program);
+  registerUsageCommands(program);
+  registerHookCommands(program);
 
   return program;
 }
@@ -0,0 +1,218 @@
+/**
+ * MCP Serve Command
+ * daemux mcp serve - expose daemux tasks, agents, memory, approvals and
+ * schedules as MCP tools over stdio (default) or streamable HTTP (--http).
+ * In stdio mode stdout carries the protocol, so console output goes to stderr.
+ */
+
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { serveMCPStdio } from '@daemux/mcp-client';
+import { formatError, printError, printInfo, printWarning, onShutdown, dim } from './utils';
+import { loadConfig } from '../core/config';
+import type { Config } from '../core/types';
+import type { LLMProvider } from '../core/plugin-api-types';
+import { Database } from '../infra/database';
+import { createEventBus } from '../core/event-bus';
+import type { EventBus } from '../core/event-bus';
+import { TaskManager } from '../core/task-manager';
+import { CronService } from '../core/cron-service';
+import { AgenticLoop } from '../core/loop';
+import { createAgentRegistry } from '../core/agent-registry';
+import { loadBuiltinAgents } from '../core/agent-loader';
+import { createApprovalManager } from '../core/approval-manager';
+import { PermissionEngine } from '../core/permissions';
+import { createHookManager } from '../core/hook-manager';
+import { loadProjectHooks } from './hooks';
+import type { SpawnAgentDeps } from '../core/loop/tools/spawn-agent';
+import { createDaemuxMCPTools } from '../core/mcp/serve-tools';
+import { createMCPServeHandler, startMCPHttpServer } from '../core/mcp/serve';
+import type { MCPHttpServer } from '../core/mcp/serve';
+import { initLogger } from '../infra/logger';
+import type { Logger } from '../infra/logger';
+import { hasConfiguredProvider, loadProviders, withFailover } from './provider-loader';
+import { version as packageVersion } from '../../package.json';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ServeOptions {
+  http?: boolean;
+  port?: string;
+  host?: string;
+  tokenFile?: string;
+}
+
+interface AgentSetup {
+  deps: SpawnAgentDeps;
+  shutdown: () => void;
+}
+
+const DEFAULT_PORT = 3850;
+const TOKEN_ENV = 'DAEMUX_MCP_TOKEN';
+const TOKEN_FILE = 'mcp-token';
+
+const INSTRUCTIONS =
+  'Tools for a local daemux installation: create and list tasks for `daemux work`, run registered ' +
+  'subagents, search memory, resolve pending command approvals, and manage task schedules.';
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+/** Subagents need a provider; without one SpawnAgent is left out */
+async function setupAgents(
+  db: Database, eventBus: EventBus, config: Config, logger: Logger,
+): Promise<AgentSetup | undefined> {
+  if (!hasConfiguredProvider(config)) {
+    logger.info('No provider configured; SpawnAgent is not served');
+    return undefined;
+  }
+
+  let mainProvider: LLMProvider;
+  try {
+    mainProvider = await loadProviders(config);
+  } catch (err) {
+    // The other tools do not need a model, so serve them anyway
+    printWarning(`SpawnAgent is not served: ${formatError(err)}`);
+    logger.warn('Provider failed to load; SpawnAgent is not served', { error: formatError(err) });
+    return undefined;
+  }
+
+  const provider = withFailover(mainProvider, config, eventBus);
+  // Commands the subagents want to run wait for approval like in `daemux work`
+  const approvalManager = createApprovalManager({ db, eventBus });
+  const permissions = new PermissionEngine({
+    rules: config.permissions, db, approvalManager, agentId: config.agentId,
+  });
+  const hookManager = createHookManager({ config, eventBus, logger });
+  hookManager.loadHooks(config.dataDir);
+  // stdin may carry the protocol, so untrusted project hooks are skipped without asking
+  await loadProjectHooks(hookManager, config, { ask: false });
+
+  const registry = createAgentRegistry({ db, eventBus, config });
+  registry.setProvider(provider);
+  registry.setLoopFactory(options => new AgenticLoop({ ...options, permissions }));
+  registry.loadAgents(loadBuiltinAgents());
+
+  return {
+    deps: {
+      spawnSubagent: (name, task, options) => registry.spawnSubagent(name, task, options),
+      listAgents: () => registry.listAgents(),
+      getAgent: name => registry.getAgent(name),
+      getSubagentSessionId: id => registry.getSubagentSessionId(id),
+    },
+    shutdown: () => {
+      approvalManager.shutdown();
+      hookManager.shutdown();
+      registry.clearSessions();
+    },
+  };
+}
+
+function parsePort(raw: string | undefined): number {
+  if (raw === undefined) return DEFAULT_PORT;
+  const port = Number(raw);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    printError(`Invalid port "${raw}".`);
+    process.exit(1);
+  }
+  return port;
+}
+
+function readTokenFile(path: string): string {
+  let token: string;
+  try {
+    token = readFileSync(path, 'utf-8').trim();
+  } catch (err) {
+    throw new Error(`Cannot read the token file ${path}: ${formatError(err)}`);
+  }
+  if (!token) throw new Error(`The token file ${path} is empty`);
+  return token;
+}
+
+/**
+ * The Bearer token HTTP clients must send: from --token-file, else from
+ * $DAEMUX_MCP_TOKEN, else the one in the data directory, created on first
+ * use. It is never taken from the command line, where `ps` shows it to
+ * every user on the machine.
+ */
+export function resolveServeToken(
+  options: Pick<ServeOptions, 'tokenFile'>, dataDir: string,
+): { token: string; source: string } {
+  if (options.tokenFile) return { token: readTokenFile(options.tokenFile), source: options.tokenFile };
+
+  const fromEnv = process.env[TOKEN_ENV]?.trim();
+  if (fromEnv) return { token: fromEnv, source: `$${TOKEN_ENV}` };
+
+  const path = join(dataDir, TOKEN_FILE);
+  if (existsSync(path)) return { token: readTokenFile(path), source: path };
+
+  const token = randomBytes(32).toString('hex');
+  mkdirSync(dataDir, { recursive: true });
+  writeFileSync(path, token + '\n', { mode: 0o600 });
+  return { token, source: path };
+}
+
+// ---------------------------------------------------------------------------
+// Command
+// ---------------------------------------------------------------------------
+
+export async function serveCommand(options: ServeOptions): Promise<void> {
+  // stdout belongs to the protocol in stdio mode
+  if (!options.http) console.log = console.error;
+  const port = options.http ? parsePort(options.port) : 0;
+
+  const config = loadConfig();
+  const logger = await initLogger({ level: config.debug ? 'debug' : 'info', dataDir: config.dataDir });
+  if (!existsSync(config.dataDir)) mkdirSync(config.dataDir, { recursive: true });
+
+  const db = new Database({ path: join(config.dataDir, 'state.db'), enableVec: true });
+  await db.initialize();
+
+  const eventBus = createEventBus();
+  const agents = await setupAgents(db, eventBus, config, logger);
+  const tools = createDaemuxMCPTools({
+    db,
+    taskManager: new TaskManager({ db, eventBus }),
+    cronService: new CronService(db, eventBus),
+    agents: agents?.deps,
+  });
+  const handle = createMCPServeHandler(tools, { version: packageVersion, instructions: INSTRUCTIONS, logger });
+
+  let stopServer = (): void => {};
+  const cleanup = (): void => {
+    stopServer();
+    agents?.shutdown();
+    db.close();
+  };
+  onShutdown(cleanup);
+
+  if (!options.http) {
+    logger.info('MCP server listening on stdio', { tools: tools.tools.length });
+    await serveMCPStdio(handle);
+    cleanup();
+    process.exit(0);
+  }
+
+  let server: MCPHttpServer;
+  let source: string;
+  try {
+    const resolved = resolveServeToken(options, config.dataDir);
+    source = resolved.source;
+    server = startMCPHttpServer(handle, { port, host: options.host, token: resolved.token });
+  } catch (err) {
+    printError(err);
+    cleanup();
+    process.exit(1);
+  }
+  stopServer = server.stop;
+  const { url } = server;
+  logger.info('MCP server listening', { url, tools: tools.tools.length });
+  printInfo(`daemux MCP server listening on ${url}`);
+  console.log(dim(`  ${tools.tools.map(tool => tool.name).join(', ')}`));
+  console.log(dim(`  Clients must send the Bearer token from ${source}.`));
+  console.log(dim('  Press Ctrl+C to stop.'));
+}
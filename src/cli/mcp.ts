@@ -2,19 +2,28 @@
  * CLI Commands for MCP Server Configuration
  * daemux mcp add <name>    - add an MCP server
  * daemux mcp remove <name> - remove an MCP server
- * daemux mcp list          - list configured servers
+ * daemux mcp list          - list configured servers and their health
  * daemux mcp get <name>    - show server details
+ * daemux mcp login <name>  - authorize an HTTP/SSE server with OAuth
+ * daemux mcp serve         - expose daemux itself as an MCP server
  */
 
 import { Command } from 'commander';
 import { existsSync, readFileSync, writeFileSync, mkdirSync, chmodSync } from 'fs';
 import { homedir } from 'os';
-import { join } from 'path';
+import { dirname, join } from 'path';
 import type { MCPConfig, MCPTransport } from '@daemux/mcp-client';
+import { latestServerHealth, type MCPServerHealth } from '../core/mcp/health';
+import { loadMCPConfigs } from '../core/mcp/config-loader';
+import { expandMCPConfig } from '../core/mcp/env-expand';
+import { loadMCPCredentials, loginMCPServer } from '../core/mcp/oauth';
+import { serveCommand, type ServeOptions } from './mcp-serve';
 import {
   bold,
   dim,
+  formatError,
   printError,
+  printInfo,
   printSuccess,
   printTable,
 } from './utils';
@@ -97,6 +106,27 @@ function parseEnvVars(values: string[]): Record<string, string> {
   return parseKeyValues(values, '=', 'env var', 'KEY=VALUE');
 }
 
+/** Health reports written by running daemux processes, next to settings.json */
+function getHealthDir(): string {
+  return join(dirname(getSettingsPath()), 'mcp-health');
+}
+
+function formatAge(timestamp: number): string {
+  const seconds = Math.max(0, Math.round((Date.now() - timestamp) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m ago`;
+  return `${Math.round(seconds / 3600)}h ago`;
+}
+
+export function formatHealth(health: MCPServerHealth | undefined): string {
+  if (!health) return 'not running';
+  if (health.status === 'reconnecting') {
+    return `reconnecting (attempt ${health.reconnectAttempts}${health.lastError ? `: ${health.lastError}` : ''})`;
+  }
+  const ping = health.lastPingAt !== undefined ? `, ping ${health.lastPingMs}ms ${formatAge(health.lastPingAt)}` : '';
+  return `connected (${health.toolCount} tools${ping})`;
+}
+
 function inferTransportType(config: MCPConfig): MCPTransport {
   if (config.type) return config.type;
   if (config.command) return 'stdio';
@@ -104,6 +134,18 @@ function inferTransportType(config: MCPConfig): MCPTransport {
   return 'stdio';
 }
 
+/** Best effort: the URL is printed as well in case no browser opens */
+function openBrowser(url: string): void {
+  const command = process.platform === 'darwin' ? ['open', url]
+    : process.platform === 'win32' ? ['cmd', '/c', 'start', '', url]
+    : ['xdg-open', url];
+  try {
+    Bun.spawn(command, { stdout: 'ignore', stderr: 'ignore' });
+  } catch {
+    // No browser opener available
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Commands
 // ---------------------------------------------------------------------------
@@ -191,8 +233,14 @@ function listServers(opts: ListOptions): void {
     return;
   }
 
+  const health = latestServerHealth(getHealthDir());
+
   if (opts.json) {
-    console.log(JSON.stringify(servers, null, 2));
+    const withHealth = Object.fromEntries(entries.map(([name, config]) => {
+      const status = health.get(name);
+      return [name, status ? { ...config, health: status } : config];
+    }));
+    console.log(JSON.stringify(withHealth, null, 2));
     return;
   }
 
@@ -201,6 +249,7 @@ function listServers(opts: ListOptions): void {
     name,
     type: inferTransportType(config),
     target: config.command ?? config.url ?? '-',
+    status: formatHealth(health.get(name)),
   }));
 
   printTable(
@@ -208,6 +257,7 @@ function listServers(opts: ListOptions): void {
       { header: 'Name', key: 'name' },
       { header: 'Type', key: 'type' },
       { header: 'Command/URL', key: 'target', width: 50 },
+      { header: 'Status', key: 'status' },
     ],
     rows,
   );
@@ -254,9 +304,40 @@ function getServer(name: string, opts: GetOptions): void {
     }
   }
 
+  if (config.url && loadMCPCredentials(name)) console.log('  OAuth:    logged in');
+
   console.log();
 }
 
+async function loginServer(name: string): Promise<void> {
+  const found = loadMCPConfigs(getSettingsPath())[name];
+  if (!found) {
+    printError(`MCP server "${name}" not found.`);
+    process.exit(1);
+  }
+
+  const config = expandMCPConfig(found);
+  const transport = inferTransportType(config);
+  if (!config.url || (transport !== 'http' && transport !== 'sse')) {
+    printError(`MCP server "${name}" uses the ${transport} transport; only HTTP and SSE servers support login.`);
+    process.exit(1);
+  }
+
+  try {
+    await loginMCPServer(name, config.url, {
+      openUrl: (url) => {
+        printInfo('Opening your browser to authorize daemux. If it does not open, visit:');
+        console.log(`\n  ${url}\n`);
+        openBrowser(url);
+      },
+    });
+  } catch (err) {
+    printError(`Login to MCP server "${name}" failed: ${formatError(err)}`);
+    process.exit(1);
+  }
+  printSuccess(`Logged in to MCP server "${name}".`);
+}
+
 // ---------------------------------------------------------------------------
 // Registration
 // ---------------------------------------------------------------------------
@@ -285,7 +366,7 @@ export function registerMCPCommands(program: Command): void {
 
   mcp
     .command('list')
-    .description('List configured MCP servers')
+    .description('List configured MCP servers and their health')
     .option('--json', 'output as JSON')
     .action((opts: ListOptions) => listServers(opts));
 
@@ -294,4 +375,18 @@ export function registerMCPCommands(program: Command): void {
     .description('Show details of an MCP server')
     .option('--json', 'output as JSON')
     .action((name: string, opts: GetOptions) => getServer(name, opts));
+
+  mcp
+    .command('login <name>')
+    .description('Authorize an HTTP or SSE MCP server with OAuth')
+    .action((name: string) => loginServer(name));
+
+  mcp
+    .command('serve')
+    .description('Serve daemux tasks, agents, memory, approvals and schedules as MCP tools')
+    .option('--http', 'serve streamable HTTP instead of stdio')
+    .option('-p, --port <port>', 'HTTP port (default: 3850)')
+    .option('--host <host>', 'HTTP host to bind (default: 127.0.0.1)')
+    .option('--token-file <path>', 'read the HTTP Bearer token from this file (default: $DAEMUX_MCP_TOKEN or ~/.daemux/mcp-token)')
+    .action((opts: ServeOptions) => serveCommand(opts));
 }
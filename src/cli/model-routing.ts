@@ -0,0 +1,109 @@
+/**
+ * Model Routing Command
+ * daemux providers models - list provider models and the model each role
+ * (main, compaction, classifier, planner, agentFactory, subagent) resolves to
+ */
+
+import { loadConfig } from '../core/config';
+import { createProviderManager, getProviderManager, hasProviderManager } from '../core/provider-manager';
+import { ModelRouter, MODEL_ROLES } from '../core/model-router';
+import { hasConfiguredProvider, loadProviders } from './provider-loader';
+import {
+  bold,
+  dim,
+  printError,
+  printInfo,
+  printWarning,
+  printTable,
+} from './utils';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface RoleRow {
+  role: string;
+  reference: string;
+  provider?: string;
+  model?: string;
+  maxTokens?: number;
+  error?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Show Model Routing
+// ---------------------------------------------------------------------------
+
+export async function showModelRouting(options: { json?: boolean }): Promise<void> {
+  const config = loadConfig();
+  if (!hasConfiguredProvider(config)) {
+    printError('No API credentials configured.');
+    process.exit(1);
+  }
+
+  const manager = hasProviderManager() ? getProviderManager() : createProviderManager();
+  try {
+    const main = await loadProviders(config, { checkRouting: false });
+    const router = new ModelRouter(config, manager);
+
+    const roles: RoleRow[] = MODEL_ROLES.map(role => {
+      const reference = router.reference(role).model;
+      try {
+        const resolved = router.resolveRole(role, main);
+        return { role, reference, provider: resolved.provider.id, model: resolved.model, maxTokens: resolved.maxTokens };
+      } catch (err) {
+        return { role, reference, error: err instanceof Error ? err.message : String(err) };
+      }
+    });
+    const report = router.validate(main);
+
+    if (options.json) {
+      console.log(JSON.stringify({ providers: manager.listAllModels(), roles, ...report }, null, 2));
+      return;
+    }
+
+    for (const { providerId, models } of manager.listAllModels()) {
+      console.log(bold(`\n${providerId}${providerId === main.id ? ' (main)' : ''}\n`));
+      if (models.length === 0) {
+        printInfo('Provider lists no models.');
+        continue;
+      }
+      printTable(
+        [
+          { header: 'Model', key: 'id', width: 36 },
+          { header: 'Name', key: 'name', width: 28 },
+          { header: 'Context', key: 'context', width: 9, align: 'right' },
+          { header: 'Max Out', key: 'output', width: 8, align: 'right' },
+        ],
+        models.map(m => ({
+          id: m.id, name: m.name, context: String(m.contextWindow), output: String(m.maxOutputTokens),
+        })),
+      );
+    }
+
+    console.log(bold('\nRoles\n'));
+    printTable(
+      [
+        { header: 'Role', key: 'role', width: 13 },
+        { header: 'Reference', key: 'reference', width: 24 },
+        { header: 'Resolves To', key: 'target', width: 44 },
+        { header: 'Max Tokens', key: 'maxTokens', width: 10, align: 'right' },
+      ],
+      roles.map(r => ({
+        role: r.role,
+        reference: r.reference,
+        target: r.error ? 'error' : `${r.provider}:${r.model}`,
+        maxTokens: r.maxTokens ? String(r.maxTokens) : '-',
+      })),
+    );
+
+    console.log(dim('\nConfigure roles and aliases under "models" in ~/.daemux/settings.json'));
+    for (const error of report.errors) printError(error);
+    for (const warning of report.warnings) printWarning(warning);
+  } catch (err) {
+    printError(err);
+    process.exit(1);
+  } finally {
+    await manager.shutdownAll();
+  }
+}
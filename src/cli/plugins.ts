@@ -12,6 +12,7 @@ import { execSync, spawnSync } from 'child_process';
 import { createSpinner, printError, printInfo, printTable, bold, dim, success, warning } from './utils';
 import { createProviderManager, hasProviderManager, getProviderManager } from '../core/provider-manager';
 import { createPluginLoader } from '../core/plugin-loader';
+import { showModelRouting } from './model-routing';
 
 // ---------------------------------------------------------------------------
 // Types and Constants
@@ -551,4 +552,7 @@ export function registerPluginCommands(program: Command): void {
   providers.command('set-default <id>').description('Set the default LLM provider').action(setDefaultProvider);
 
   providers.command('info <id>').description('Show detailed provider information').action(showProviderInfo);
+
+  providers.command('models').description('List provider models and the model each role resolves to')
+    .option('--json', 'Output as JSON').action(showModelRouting);
 }
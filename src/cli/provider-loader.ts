@@ -1,12 +1,21 @@
 /**
- * Anthropic Provider Loader
- * Shared utility for loading the Anthropic LLM provider plugin.
+ * Provider Loader
+ * Shared utility for loading the Anthropic LLM provider plugin and the
+ * built-in OpenAI-compatible provider.
  */
 
 import { join } from 'path';
 import { homedir } from 'os';
 import { existsSync } from 'fs';
+import type { Config } from '../core/types';
 import type { LLMProvider } from '../core/plugin-api-types';
+import { createProviderManager, getProviderManager, hasProviderManager } from '../core/provider-manager';
+import { createOpenAIProvider } from '../core/openai-provider';
+import { ModelRouter } from '../core/model-router';
+import { createResilientProvider } from '../core/resilient-provider';
+import type { EventBus } from '../core/event-bus';
+import { getLogger } from '../infra/logger';
+import { resolveCredentials, resolveOpenAICredentials } from './credentials';
 
 const PROVIDER_PATH = join(homedir(), '.daemux', 'plugins', 'anthropic-provider', 'dist', 'index.js');
 
@@ -21,3 +30,80 @@ export async function loadAnthropicProvider(): Promise<LLMProvider> {
     'or run: daemux plugins install @daemux/anthropic-provider',
   );
 }
+
+/** Whether any provider has credentials, or (for local servers) an endpoint configured */
+export function hasConfiguredProvider(config: Config): boolean {
+  return resolveCredentials() !== undefined
+    || resolveOpenAICredentials() !== undefined
+    || config.openai !== undefined;
+}
+
+/**
+ * Initialize every configured provider, register them with the global
+ * ProviderManager so "provider:model" ids can reach them, and return the
+ * provider that serves config.model. Anthropic is preferred when the model
+ * does not name a provider. Model routing is validated against the loaded
+ * providers, so a broken role or alias fails at startup instead of mid-task.
+ */
+export async function loadProviders(
+  config: Config,
+  options: { checkRouting?: boolean } = {},
+): Promise<LLMProvider> {
+  const manager = hasProviderManager() ? getProviderManager() : createProviderManager();
+  let anthropicError: unknown;
+
+  const anthropicCreds = resolveCredentials();
+  if (anthropicCreds) {
+    try {
+      const anthropic = await loadAnthropicProvider();
+      await anthropic.initialize({ type: anthropicCreds.type, value: anthropicCreds.value });
+      manager.registerProvider(anthropic);
+    } catch (err) {
+      anthropicError = err;
+    }
+  }
+
+  const openaiCreds = resolveOpenAICredentials();
+  if (openaiCreds || config.openai) {
+    const openai = createOpenAIProvider(config.openai);
+    await openai.initialize({ type: 'api_key', value: openaiCreds?.value ?? '' });
+    manager.registerProvider(openai);
+  }
+
+  const sep = config.model.indexOf(':');
+  const named = sep > 0 ? manager.getProvider(config.model.slice(0, sep)) : undefined;
+  const main = named ?? manager.listProviders()[0];
+  if (!main) {
+    throw anthropicError ?? new Error('No API credentials configured.');
+  }
+
+  if (anthropicError) {
+    getLogger().warn('Anthropic provider unavailable', {
+      error: anthropicError instanceof Error ? anthropicError.message : String(anthropicError),
+    });
+  }
+
+  if (options.checkRouting === false) return main;
+
+  const { errors, warnings } = new ModelRouter(config, manager).validate(main);
+  for (const warning of warnings) {
+    getLogger().warn('Model routing warning', { detail: warning });
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid model routing:\n  ${errors.join('\n  ')}`);
+  }
+  return main;
+}
+
+/**
+ * Wrap the main provider with retries, circuit breakers and the configured
+ * failover chain. Call after loadProviders() so fallbacks can be resolved.
+ */
+export function withFailover(provider: LLMProvider, config: Config, eventBus: EventBus): LLMProvider {
+  return createResilientProvider({
+    primary: provider,
+    config,
+    manager: hasProviderManager() ? getProviderManager() : null,
+    eventBus,
+  });
+}
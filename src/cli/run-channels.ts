@@ -17,6 +17,9 @@ import type { Logger } from '../infra/logger';
 import type { Config } from '@daemux/types';
 import type { Database } from '../infra/database';
 import type { LLMProvider } from '../core/plugin-api-types';
+import type { ApprovalManager } from '../core/approval-manager';
+import type { ElicitationBroker } from '../core/mcp/elicitation';
+import type { PermissionEngine } from '../core/permissions';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -122,7 +125,14 @@ export async function initializeChannels(
   eventBus: EventBus,
   loop: AgenticLoop,
   logger: Logger,
-  deps?: { db: Database; provider: LLMProvider; config: Config },
+  deps?: {
+    db: Database;
+    provider: LLMProvider;
+    config: Config;
+    approvalManager?: ApprovalManager;
+    permissions?: PermissionEngine;
+    elicitation?: ElicitationBroker;
+  },
 ): Promise<ChannelInitResult> {
   const channelConfigs = loadChannelSettings();
   if (channelConfigs.size === 0) return NO_CHANNELS;
@@ -166,6 +176,8 @@ export async function initializeChannels(
   const router = createChannelRouter({
     loop, channelManager, eventBus, transcriptionProvider, logger,
     db: deps?.db, provider: deps?.provider, config: deps?.config,
+    approvalManager: deps?.approvalManager, permissions: deps?.permissions,
+    elicitation: deps?.elicitation,
   });
   router.start();
 
@@ -6,10 +6,25 @@
 import { dim, error } from './utils';
 import type { StreamChunk } from '../core/loop/types';
 
-export function createStreamHandler(): (chunk: StreamChunk) => void {
+export interface StreamHandlerOptions {
+  /** Stream extended thinking deltas (dimmed) instead of hiding them */
+  showThinking?: boolean;
+}
+
+export function createStreamHandler(options: StreamHandlerOptions = {}): (chunk: StreamChunk) => void {
   let currentToolId: string | null = null;
+  let inThinking = false;
+
+  const endThinking = (): void => {
+    if (inThinking) {
+      process.stdout.write('\n\n');
+      inThinking = false;
+    }
+  };
 
   return (chunk: StreamChunk) => {
+    if (chunk.type !== 'thinking') endThinking();
+
     switch (chunk.type) {
       case 'text':
         process.stdout.write(chunk.content);
@@ -23,6 +38,10 @@ export function createStreamHandler(): (chunk: StreamChunk) => void {
         currentToolId = chunk.toolUseId;
         break;
 
+      case 'tool_progress':
+        process.stdout.write(dim(chunk.content));
+        break;
+
       case 'tool_result':
         if (chunk.isError) {
           process.stdout.write(error(`[Tool error: ${truncateResult(chunk.result)}]\n`));
@@ -33,7 +52,12 @@ export function createStreamHandler(): (chunk: StreamChunk) => void {
         break;
 
       case 'thinking':
-        process.stdout.write(dim(`\n[Thinking: ${chunk.content}]\n`));
+        if (!options.showThinking) break;
+        if (!inThinking) {
+          process.stdout.write(dim('[Thinking]\n'));
+          inThinking = true;
+        }
+        process.stdout.write(dim(chunk.content));
         break;
 
       case 'done':
@@ -48,7 +72,16 @@ export function truncateResult(result: string, maxLen = 100): string {
   return result.slice(0, maxLen) + '...';
 }
 
-export function printStats(tokensIn: number, tokensOut: number, toolCount: number, durationMs: number): void {
+export function formatCacheStats(cacheRead: number, cacheWrite: number): string {
+  if (cacheRead === 0 && cacheWrite === 0) return '';
+  return ` | Cache: ${cacheRead} read/${cacheWrite} written`;
+}
+
+export function printStats(
+  tokensIn: number, tokensOut: number, toolCount: number, durationMs: number,
+  cacheRead = 0, cacheWrite = 0,
+): void {
   const time = (durationMs / 1000).toFixed(1);
-  console.log(dim(`\n[Tokens: ${tokensIn}/${tokensOut} | Tools: ${toolCount} | Time: ${time}s]`));
+  const cache = formatCacheStats(cacheRead, cacheWrite);
+  console.log(dim(`\n[Tokens: ${tokensIn}/${tokensOut}${cache} | Tools: ${toolCount} | Time: ${time}s]`));
 }
@@ -6,8 +6,8 @@
 import { Command } from 'commander';
 import { createInterface } from 'readline';
 import { join } from 'path';
-import { existsSync, mkdirSync } from 'fs';
-import { resolveCredentials, hasValidCredentials } from './auth';
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { resolveCredentials } from './auth';
 import {
   printError,
   printInfo,
@@ -18,17 +18,30 @@ import {
   color,
 } from './utils';
 import { loadConfig } from '../core/config';
+import { ThinkingLevelSchema } from '../core/types';
 import { Database } from '../infra/database';
 import { createEventBus } from '../core/event-bus';
-import { AgenticLoop, createAgenticLoop, BUILTIN_TOOLS } from '../core/loop';
+import { AgenticLoop, createAgenticLoop, BUILTIN_TOOLS, killAllShells } from '../core/loop';
 import type { LoopConfig } from '../core/loop';
+import type { JSONSchema } from '../core/structured-output';
 import { createAgentRegistry } from '../core/agent-registry';
+import { createApprovalManager } from '../core/approval-manager';
+import { PermissionEngine } from '../core/permissions';
+import { createHookManager } from '../core/hook-manager';
+import { loadProjectHooks } from './hooks';
 import { loadBuiltinAgents } from '../core/agent-loader';
 import { initLogger } from '../infra/logger';
-import { createStreamHandler, printStats } from './run-output';
+import { createStreamHandler, printStats, formatCacheStats } from './run-output';
 import { initializeChannels } from './run-channels';
-import { loadAnthropicProvider } from './provider-loader';
+import { hasConfiguredProvider, loadProviders, withFailover } from './provider-loader';
 import { initMCP } from '../core/mcp/init';
+import { createMCPClientHandlers, workspaceRoots } from '../core/mcp/client-handlers';
+import { ElicitationBroker, ANSWER_COMMAND } from '../core/mcp/elicitation';
+import { ModelRouter } from '../core/model-router';
+import { UsageTracker } from '../core/usage-tracker';
+import type { MCPServerManager } from '../core/mcp/server-manager';
+import { inlineResourceMentions } from '../core/mcp/resource-tools';
+import { resolvePromptCommand } from '../core/mcp/prompt-commands';
 import { getServiceManager } from '../infra/service';
 
 // ---------------------------------------------------------------------------
@@ -52,6 +65,18 @@ function setupDataDir(dataDir: string): DataDirSetup {
   };
 }
 
+// ---------------------------------------------------------------------------
+// MCP Mentions
+// ---------------------------------------------------------------------------
+
+/** Inlines @server:uri resource mentions, warning about those that cannot be read */
+async function expandMentions(text: string, mcp: MCPServerManager | null): Promise<string> {
+  if (!mcp) return text;
+  const { text: expanded, errors } = await inlineResourceMentions(text, mcp);
+  for (const error of errors) printWarning(`Could not read ${error}`);
+  return expanded;
+}
+
 // ---------------------------------------------------------------------------
 // Interactive Mode
 // ---------------------------------------------------------------------------
@@ -64,10 +89,18 @@ function createReadlineInterface(): ReturnType<typeof createInterface> {
   });
 }
 
+interface InteractiveContext {
+  sessionId?: string;
+  running: boolean;
+  streamHandler: ReturnType<typeof createStreamHandler>;
+  mcp: MCPServerManager | null;
+  elicitation: ElicitationBroker | null;
+}
+
 async function processInteractiveInput(
   input: string,
   loop: AgenticLoop,
-  ctx: { sessionId?: string; running: boolean; streamHandler: ReturnType<typeof createStreamHandler> },
+  ctx: InteractiveContext,
   rl: ReturnType<typeof createInterface>,
   mcpConfig: LoopConfig,
 ): Promise<void> {
@@ -84,23 +117,47 @@ async function processInteractiveInput(
     return;
   }
 
-  if (trimmed.startsWith('/')) {
-    await handleCommand(trimmed, loop, mcpConfig);
+  // Answers reach the MCP server while its tool call is still running
+  if (ctx.elicitation && ANSWER_COMMAND.test(trimmed)) {
+    try {
+      printInfo(ctx.elicitation.answer(trimmed));
+    } catch (err) {
+      printError(err);
+    }
     rl.prompt();
     return;
   }
 
+  let message = trimmed;
+  if (trimmed.startsWith('/')) {
+    let prompt: string | null;
+    try {
+      prompt = ctx.mcp ? await resolvePromptCommand(trimmed, ctx.mcp) : null;
+    } catch (err) {
+      printError(err);
+      rl.prompt();
+      return;
+    }
+    if (prompt === null) {
+      await handleCommand(trimmed, loop, mcpConfig);
+      rl.prompt();
+      return;
+    }
+    message = prompt;
+  }
+
   ctx.running = true;
   console.log();
 
   try {
-    const result = await loop.run(trimmed, {
+    const result = await loop.run(await expandMentions(message, ctx.mcp), {
       sessionId: ctx.sessionId,
       onStream: ctx.streamHandler,
       ...mcpConfig,
     });
     ctx.sessionId = result.sessionId;
-    printStats(result.tokensUsed.input, result.tokensUsed.output, result.toolCalls.length, result.durationMs);
+    const { input, output, cacheRead, cacheWrite } = result.tokensUsed;
+    printStats(input, output, result.toolCalls.length, result.durationMs, cacheRead, cacheWrite);
   } catch (err) {
     printError(err);
   }
@@ -110,12 +167,21 @@ async function processInteractiveInput(
   rl.prompt();
 }
 
-async function runInteractive(loop: AgenticLoop, sessionId?: string, mcpConfig: LoopConfig = {}): Promise<void> {
+async function runInteractive(
+  loop: AgenticLoop,
+  sessionId?: string,
+  mcpConfig: LoopConfig = {},
+  showThinking = false,
+  mcp: MCPServerManager | null = null,
+  elicitation: ElicitationBroker | null = null,
+): Promise<void> {
   console.log(bold('\nAgent Interactive Session'));
   console.log(dim('Type your message and press Enter. Type "exit" or press Ctrl+C to quit.\n'));
 
   const rl = createReadlineInterface();
-  const ctx = { sessionId, running: false, streamHandler: createStreamHandler() };
+  const ctx: InteractiveContext = {
+    sessionId, running: false, streamHandler: createStreamHandler({ showThinking }), mcp, elicitation,
+  };
 
   rl.on('SIGINT', () => {
     if (ctx.running) {
@@ -133,7 +199,7 @@ async function runInteractive(loop: AgenticLoop, sessionId?: string, mcpConfig:
 }
 
 async function handleCommand(cmd: string, loop: AgenticLoop, mcpConfig: LoopConfig = {}): Promise<void> {
-  const [command] = cmd.slice(1).split(' ');
+  const [command, ...args] = cmd.slice(1).split(' ');
 
   switch (command) {
     case 'help':
@@ -141,6 +207,10 @@ async function handleCommand(cmd: string, loop: AgenticLoop, mcpConfig: LoopConf
       console.log('  /help     - Show this help message');
       console.log('  /session  - Show current session ID');
       console.log('  /context  - Show context window usage');
+      console.log('  /think    - Show or set thinking level (off|low|medium|high)');
+      console.log('  /rewind   - List checkpoints, or rewind files and history to one');
+      console.log('  /<server>:<prompt> - Run a prompt from an MCP server');
+      console.log('  /answer   - Answer a question from an MCP server');
       console.log('  /clear    - Clear screen');
       console.log('  /exit     - Exit the session');
       console.log();
@@ -158,6 +228,14 @@ async function handleCommand(cmd: string, loop: AgenticLoop, mcpConfig: LoopConf
       return;
     }
 
+    case 'think':
+      handleThinkCommand(args[0], loop, mcpConfig);
+      return;
+
+    case 'rewind':
+      await handleRewindCommand(args[0], loop);
+      return;
+
     case 'clear':
       console.clear();
       return;
@@ -172,6 +250,46 @@ async function handleCommand(cmd: string, loop: AgenticLoop, mcpConfig: LoopConf
   }
 }
 
+async function handleRewindCommand(messageUuid: string | undefined, loop: AgenticLoop): Promise<void> {
+  if (!messageUuid) {
+    const checkpoints = loop.getCheckpoints();
+    if (checkpoints.length === 0) {
+      printInfo('No checkpoints in this session');
+      return;
+    }
+    for (const c of checkpoints) {
+      const files = c.fileChanges > 0 ? dim(` (${c.fileChanges} file changes after)`) : '';
+      console.log(`  ${bold(c.messageUuid.slice(0, 8))}  ${c.preview}${files}`);
+    }
+    console.log(dim('Use /rewind <id> to go back to a checkpoint.'));
+    return;
+  }
+
+  try {
+    const { printRewindResult } = await import('./sessions');
+    printRewindResult(loop.rewind(messageUuid));
+  } catch (err) {
+    printError(err);
+  }
+}
+
+function handleThinkCommand(level: string | undefined, loop: AgenticLoop, mcpConfig: LoopConfig): void {
+  if (!level) {
+    const current = mcpConfig.thinkingLevel ?? loop.getSessionThinkingLevel() ?? 'off';
+    printInfo(`Thinking level: ${current}`);
+    return;
+  }
+
+  const parsed = ThinkingLevelSchema.safeParse(level);
+  if (!parsed.success) {
+    printWarning(`Invalid thinking level: ${level}. Use off, low, medium or high.`);
+    return;
+  }
+
+  mcpConfig.thinkingLevel = parsed.data;
+  printInfo(`Thinking level set to ${parsed.data}`);
+}
+
 // ---------------------------------------------------------------------------
 // Single Message Mode
 // ---------------------------------------------------------------------------
@@ -182,8 +300,9 @@ async function runSingleMessage(
   sessionId?: string,
   showStream = true,
   mcpConfig: LoopConfig = {},
+  showThinking = false,
 ): Promise<void> {
-  const streamHandler = showStream ? createStreamHandler() : undefined;
+  const streamHandler = showStream ? createStreamHandler({ showThinking }) : undefined;
 
   try {
     const result = await loop.run(message, {
@@ -192,7 +311,16 @@ async function runSingleMessage(
       ...mcpConfig,
     });
 
-    if (!showStream) {
+    if (mcpConfig.outputSchema) {
+      // A run that ends any other way (timeout, budget, context limit) has no accepted answer either
+      if (!('output' in result)) {
+        printError(result.stopReason === 'invalid_output'
+          ? `Answer did not match the schema:\n  ${(result.outputErrors ?? []).join('\n  ')}`
+          : `No answer matching the schema was given (stopped: ${result.stopReason})`);
+        process.exit(1);
+      }
+      console.log(JSON.stringify(result.output, null, 2));
+    } else if (!showStream) {
       console.log(result.response);
     }
 
@@ -200,7 +328,8 @@ async function runSingleMessage(
     process.stderr.write(
       dim(
         `\n[Session: ${result.sessionId} | ` +
-          `Tokens: ${result.tokensUsed.input}/${result.tokensUsed.output} | ` +
+          `Tokens: ${result.tokensUsed.input}/${result.tokensUsed.output}` +
+          `${formatCacheStats(result.tokensUsed.cacheRead, result.tokensUsed.cacheWrite)} | ` +
           `Time: ${(result.durationMs / 1000).toFixed(1)}s]\n`
       )
     );
@@ -210,6 +339,20 @@ async function runSingleMessage(
   }
 }
 
+/** Read the --json-schema file; the answer is printed as JSON instead of streamed */
+function loadOutputSchema(path: string): JSONSchema {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Cannot read JSON schema ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    throw new Error(`JSON schema ${path} must be an object`);
+  }
+  return schema as JSONSchema;
+}
+
 // ---------------------------------------------------------------------------
 // Main Run Command
 // ---------------------------------------------------------------------------
@@ -220,18 +363,42 @@ export interface RunOptions {
   debug?: boolean;
   mcpDebug?: boolean;
   quiet?: boolean;
+  thinking?: string;
+  showThinking?: boolean;
+  jsonSchema?: string;
 }
 
 export async function runCommand(options: RunOptions = {}): Promise<void> {
-  if (!hasValidCredentials()) {
+  const thinkingLevel = options.thinking ? ThinkingLevelSchema.safeParse(options.thinking) : undefined;
+  if (thinkingLevel && !thinkingLevel.success) {
+    printError(`Invalid thinking level: ${options.thinking}. Use off, low, medium or high.`);
+    process.exit(1);
+  }
+
+  let outputSchema: JSONSchema | undefined;
+  if (options.jsonSchema) {
+    if (!options.message) {
+      printError('--json-schema requires --message');
+      process.exit(1);
+    }
+    try {
+      outputSchema = loadOutputSchema(options.jsonSchema);
+    } catch (err) {
+      printError(err);
+      process.exit(1);
+    }
+  }
+
+  const config = loadConfig();
+  if (!hasConfiguredProvider(config)) {
     printError('No API credentials configured.');
     console.log('\nTo configure authentication, run:');
     console.log(dim('  daemux auth setup-token --provider anthropic'));
     console.log(dim('  daemux auth api-key --provider anthropic'));
+    console.log(dim('  daemux auth api-key --provider openai'));
     process.exit(1);
   }
 
-  const config = loadConfig();
   config.debug = options.debug || config.debug;
   config.mcpDebug = options.mcpDebug || config.mcpDebug;
 
@@ -242,12 +409,7 @@ export async function runCommand(options: RunOptions = {}): Promise<void> {
   await db.initialize();
 
   const credentials = resolveCredentials();
-  if (!credentials) {
-    printError('Failed to resolve API credentials');
-    process.exit(1);
-  }
-
-  if (credentials.source === 'claude-keychain') {
+  if (credentials?.source === 'claude-keychain') {
     const isServiceMode = !process.stdin.isTTY && !options.message;
     if (isServiceMode) {
       printWarning(
@@ -258,11 +420,34 @@ export async function runCommand(options: RunOptions = {}): Promise<void> {
     }
   }
 
-  const provider = await loadAnthropicProvider();
-  await provider.initialize({ type: credentials.type, value: credentials.value });
+  const mainProvider = await loadProviders(config);
 
   const eventBus = createEventBus();
-  const loop = createAgenticLoop({ db, eventBus, config, provider });
+  const provider = withFailover(mainProvider, config, eventBus);
+  const modelRouter = new ModelRouter(config);
+  eventBus.on('provider:failover', ({ from, to, model, reason }) => {
+    printWarning(`Provider ${from} unavailable (${reason}), using ${to}:${model}`);
+  });
+  eventBus.on('usage:budget', ({ scope, level, spentUsd, limitUsd }) => {
+    const action = level === 'hard' ? 'stopping' : 'continuing';
+    printWarning(`${scope} budget ${level} limit reached: $${spentUsd.toFixed(2)} of $${limitUsd.toFixed(2)}, ${action}`);
+  });
+  const approvalManager = createApprovalManager({ db, eventBus });
+  const permissions = new PermissionEngine({
+    rules: config.permissions, db, approvalManager, agentId: config.agentId,
+  });
+  eventBus.on('approval:request', ({ id, command }) => {
+    printWarning(`Approval required: ${command}`);
+    console.log(dim(`  daemux approve resolve ${id.slice(0, 8)} allow-once|allow-always|deny`));
+  });
+  // User hooks (~/.daemux/hooks.json) run before project hooks (.daemux/hooks.json),
+  // which load only once the user trusted them
+  const hookManager = createHookManager({ config, eventBus, logger });
+  hookManager.loadHooks(config.dataDir);
+  await loadProjectHooks(hookManager, config, { ask: true });
+
+  const usage = new UsageTracker({ db, config, eventBus });
+  const loop = createAgenticLoop({ db, eventBus, config, provider, permissions, hooks: hookManager, usage });
 
   // Initialize agent registry and load built-in agents (before plugin activation)
   const agentRegistry = createAgentRegistry({ db, eventBus, config });
@@ -270,12 +455,31 @@ export async function runCommand(options: RunOptions = {}): Promise<void> {
   const builtinAgents = loadBuiltinAgents();
   agentRegistry.loadAgents(builtinAgents);
 
-  // Initialize MCP servers and bridge their tools into the agentic loop
-  const { tools: mcpTools, executors: mcpExecutors, cleanup: mcpCleanup } = await initMCP(logger);
+  // Initialize MCP servers and bridge their tools into the agentic loop.
+  // Servers may sample the main model (after approval), list the workspace
+  // roots and ask the user questions.
+  const elicitation = new ElicitationBroker({ eventBus });
+  const mcp = await initMCP(logger, createMCPClientHandlers({
+    resolveModel: () => {
+      // Sampling happens inside a tool call, so it counts against the session running it
+      const target = modelRouter.resolveRole('main', provider);
+      const sessionId = loop.getSession();
+      return sessionId ? { ...target, provider: usage.track(target.provider, { sessionId }) } : target;
+    },
+    approvals: approvalManager,
+    roots: () => workspaceRoots(config.sandbox),
+    elicitation,
+  }));
   const mcpConfig: LoopConfig = {
-    tools: [...BUILTIN_TOOLS, ...mcpTools],
-    toolExecutors: mcpExecutors.size > 0 ? mcpExecutors : undefined,
+    tools: [...BUILTIN_TOOLS, ...mcp.tools],
+    toolExecutors: mcp.executors.size > 0 ? mcp.executors : undefined,
+    thinkingLevel: thinkingLevel?.data,
   };
+  // Reconnects and tools/list_changed take effect from the next turn
+  mcp.onToolsChanged(({ tools, executors }) => {
+    mcpConfig.tools = [...BUILTIN_TOOLS, ...tools];
+    mcpConfig.toolExecutors = executors.size > 0 ? executors : undefined;
+  });
 
   // Skip channels in interactive mode if daemux service is already running
   let skipChannels = false;
@@ -295,14 +499,20 @@ export async function runCommand(options: RunOptions = {}): Promise<void> {
   // Initialize channels (Telegram, etc.) with dialog mode dependencies
   const { router, channelIds } = skipChannels
     ? { router: null, channelIds: [] as string[] }
-    : await initializeChannels(eventBus, loop, logger, { db, provider, config });
+    : await initializeChannels(eventBus, loop, logger, {
+      db, provider, config, approvalManager, permissions, elicitation,
+    });
 
   let cleanedUp = false;
   async function cleanup(): Promise<void> {
     if (cleanedUp) return;
     cleanedUp = true;
-    await mcpCleanup();
+    elicitation.shutdown();
+    await mcp.cleanup();
     if (router) await router.stop();
+    approvalManager.shutdown();
+    hookManager.shutdown();
+    killAllShells();
     db.close();
   }
 
@@ -318,11 +528,15 @@ export async function runCommand(options: RunOptions = {}): Promise<void> {
 
   if (options.message) {
     // Single message mode
-    await runSingleMessage(loop, options.message, options.session, !options.quiet, mcpConfig);
+    await runSingleMessage(
+      loop, await expandMentions(options.message, mcp.manager), options.session, !options.quiet && !outputSchema,
+      { ...mcpConfig, outputSchema }, options.showThinking,
+    );
     await cleanup();
   } else if (process.stdin.isTTY) {
     // Interactive terminal mode (channels also active in background)
-    await runInteractive(loop, options.session, mcpConfig);
+    eventBus.on('mcp:elicitation', ({ question }) => printWarning(question));
+    await runInteractive(loop, options.session, mcpConfig, options.showThinking, mcp.manager, elicitation);
   } else if (router && channelIds.length > 0) {
     // Service mode: no terminal, channels are the only input
     logger.info('Running in service mode with channels', { channels: channelIds.join(', ') });
@@ -347,5 +561,8 @@ export function registerRunCommands(program: Command): void {
     .option('-m, --message <message>', 'Run a single message instead of interactive mode')
     .option('-s, --session <id>', 'Resume an existing session')
     .option('-q, --quiet', 'Suppress streaming output (print final response only)')
+    .option('-t, --thinking <level>', 'Extended thinking level for the session (off|low|medium|high)')
+    .option('--show-thinking', 'Stream thinking output (dimmed) while the agent reasons')
+    .option('--json-schema <file>', 'With --message: answer as JSON matching this schema file')
     .action(runCommand);
 }
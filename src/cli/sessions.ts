@@ -0,0 +1,148 @@
+/**
+ * Session Commands
+ * daemux sessions checkpoints <sessionId>          - list rewind points
+ * daemux sessions rewind <sessionId> <messageUuid> - restore files and history
+ */
+
+import { Command } from 'commander';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { loadConfig } from '../core/config';
+import { listCheckpoints, rewindSession, type RewindResult } from '../core/session-rewind';
+import { fileSnapshotDir } from '../core/loop/tools';
+import { Database } from '../infra/database';
+import {
+  bold,
+  dim,
+  success,
+  printError,
+  printInfo,
+  printWarning,
+  printTable,
+} from './utils';
+
+// ---------------------------------------------------------------------------
+// Database Helpers
+// ---------------------------------------------------------------------------
+
+async function withSessionDb<T>(
+  fn: (db: Database, dataDir: string) => T,
+): Promise<T> {
+  const { dataDir } = loadConfig();
+  const dbPath = join(dataDir, 'state.db');
+  if (!existsSync(dbPath)) {
+    throw new Error(`Database not found at ${dbPath}`);
+  }
+  const db = new Database({ path: dbPath });
+  await db.initialize();
+  try {
+    return fn(db, dataDir);
+  } finally {
+    db.close();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Output
+// ---------------------------------------------------------------------------
+
+/** Print a rewind summary; shared with the interactive /rewind command */
+export function printRewindResult(result: RewindResult, dryRun = false): void {
+  const verb = dryRun ? 'Would rewind' : 'Rewound';
+  console.log(`${success('v')} ${verb} to ${bold(result.messageUuid.slice(0, 8))}`);
+  printInfo(`Messages archived: ${result.archivedMessages}, restored: ${result.restoredMessages}`);
+  for (const path of result.restoredFiles) {
+    console.log(`  ${dryRun ? 'would restore' : 'restored'} ${path}`);
+  }
+  for (const path of result.unrestoredFiles) {
+    printWarning(`Cannot restore ${path}: its snapshot was pruned`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// List Checkpoints
+// ---------------------------------------------------------------------------
+
+async function showCheckpoints(sessionId: string, options: { json?: boolean }): Promise<void> {
+  try {
+    await withSessionDb((db, dataDir) => {
+      const checkpoints = listCheckpoints(db, sessionId, fileSnapshotDir(dataDir, sessionId));
+
+      if (options.json) {
+        console.log(JSON.stringify(checkpoints, null, 2));
+        return;
+      }
+      if (checkpoints.length === 0) {
+        printInfo(`No checkpoints in session ${sessionId}.`);
+        return;
+      }
+
+      console.log(bold('\nCheckpoints\n'));
+      printTable(
+        [
+          { header: 'ID', key: 'id', width: 10 },
+          { header: 'Time', key: 'time', width: 21 },
+          { header: 'Files', key: 'files', width: 7 },
+          { header: 'Reply', key: 'preview', width: 60 },
+        ],
+        checkpoints.map(c => ({
+          id: c.messageUuid.slice(0, 8),
+          time: new Date(c.createdAt).toLocaleString(),
+          files: String(c.fileChanges),
+          preview: c.preview,
+        })),
+      );
+      console.log(dim(`\nUse: daemux sessions rewind ${sessionId} <id>`));
+    });
+  } catch (err) {
+    printError(err);
+    process.exit(1);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Rewind
+// ---------------------------------------------------------------------------
+
+async function rewind(
+  sessionId: string,
+  messageUuid: string,
+  options: { dryRun?: boolean },
+): Promise<void> {
+  try {
+    await withSessionDb((db, dataDir) => {
+      const result = rewindSession(db, {
+        sessionId,
+        messageUuid,
+        snapshotDir: fileSnapshotDir(dataDir, sessionId),
+        dryRun: options.dryRun,
+      });
+      printRewindResult(result, options.dryRun);
+    });
+  } catch (err) {
+    printError(err);
+    process.exit(1);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Command Registration
+// ---------------------------------------------------------------------------
+
+export function registerSessionCommands(program: Command): void {
+  const sessions = program
+    .command('sessions')
+    .description('Inspect and rewind agent sessions');
+
+  sessions
+    .command('checkpoints <sessionId>')
+    .description('List the points a session can be rewound to')
+    .option('--json', 'Output as JSON')
+    .action(showCheckpoints);
+
+  sessions
+    .command('rewind <sessionId> <messageUuid>')
+    .description('Restore files and message history to a checkpoint')
+    .option('--dry-run', 'Show what would change without changing it')
+    .action(rewind);
+}
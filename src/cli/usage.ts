@@ -0,0 +1,144 @@
+/**
+ * Usage Commands
+ * daemux usage [--days <n>] [--by <day|agent|model>] - spend report
+ */
+
+import { Command } from 'commander';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { loadConfig } from '../core/config';
+import { startOfDay } from '../core/usage-tracker';
+import { Database } from '../infra/database';
+import type { UsageGroupBy, UsageSummary, UsageFilter } from '../infra/db/usage';
+import { bold, dim, printError, printInfo, printTable } from './utils';
+
+const GROUPS: readonly UsageGroupBy[] = ['day', 'agent', 'model'];
+
+const GROUP_TITLES: Record<UsageGroupBy, string> = {
+  day: 'By Day',
+  agent: 'By Agent',
+  model: 'By Model',
+};
+
+const DAY_MS = 86_400_000;
+
+interface UsageOptions {
+  days: string;
+  by?: string;
+  session?: string;
+  task?: string;
+  json?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+function printSummary(groupBy: UsageGroupBy, rows: UsageSummary[]): void {
+  console.log(bold(`\n${GROUP_TITLES[groupBy]}\n`));
+  printTable(
+    [
+      { header: groupBy === 'day' ? 'Day' : groupBy === 'agent' ? 'Agent' : 'Model', key: 'key' },
+      { header: 'Calls', key: 'calls', align: 'right' },
+      { header: 'Input', key: 'input', align: 'right' },
+      { header: 'Output', key: 'output', align: 'right' },
+      { header: 'Cache R/W', key: 'cache', align: 'right' },
+      { header: 'Cost', key: 'cost', align: 'right' },
+    ],
+    rows.map(row => ({
+      key: row.key ?? (groupBy === 'agent' ? '(main)' : '-'),
+      calls: String(row.calls),
+      input: formatTokens(row.inputTokens),
+      output: formatTokens(row.outputTokens),
+      cache: `${formatTokens(row.cacheReadTokens)}/${formatTokens(row.cacheWriteTokens)}`,
+      cost: formatCost(row.costUsd),
+    })),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Report
+// ---------------------------------------------------------------------------
+
+async function showUsage(options: UsageOptions): Promise<void> {
+  try {
+    const days = parseInt(options.days, 10);
+    if (!Number.isInteger(days) || days < 1) {
+      throw new Error(`Invalid --days value: ${options.days}`);
+    }
+    if (options.by && !GROUPS.includes(options.by as UsageGroupBy)) {
+      throw new Error(`Invalid --by value: ${options.by} (expected ${GROUPS.join(', ')})`);
+    }
+    const groups = options.by ? [options.by as UsageGroupBy] : GROUPS;
+
+    const config = loadConfig();
+    const dbPath = join(config.dataDir, 'state.db');
+    if (!existsSync(dbPath)) {
+      throw new Error(`Database not found at ${dbPath}`);
+    }
+    const db = new Database({ path: dbPath });
+    await db.initialize();
+
+    try {
+      const filter: UsageFilter = {
+        fromMs: startOfDay() - (days - 1) * DAY_MS,
+        sessionId: options.session,
+        taskId: options.task,
+      };
+      const totals = db.usage.totals(filter);
+      const breakdown = Object.fromEntries(groups.map(g => [g, db.usage.summarize(g, filter)]));
+
+      if (options.json) {
+        console.log(JSON.stringify({ days, totals, ...breakdown }, null, 2));
+        return;
+      }
+      if (totals.calls === 0) {
+        printInfo(`No usage recorded in the last ${days} day(s).`);
+        return;
+      }
+
+      for (const group of groups) printSummary(group, breakdown[group] ?? []);
+
+      console.log(`\n${bold('Total:')} ${formatCost(totals.costUsd)} over ${totals.calls} calls` +
+        dim(` (last ${days} day${days === 1 ? '' : 's'})`));
+      const daily = config.budgets?.daily;
+      if (daily?.hard || daily?.soft) {
+        const today = db.usage.totals({ fromMs: startOfDay() }).costUsd;
+        const limits = [daily.soft && `soft ${formatCost(daily.soft)}`, daily.hard && `hard ${formatCost(daily.hard)}`]
+          .filter(Boolean).join(', ');
+        console.log(`${bold('Today:')} ${formatCost(today)} ${dim(`(${limits})`)}`);
+      }
+    } finally {
+      db.close();
+    }
+  } catch (err) {
+    printError(err);
+    process.exit(1);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Command Registration
+// ---------------------------------------------------------------------------
+
+export function registerUsageCommands(program: Command): void {
+  program
+    .command('usage')
+    .description('Show token usage and spend by day, agent and model')
+    .option('-d, --days <n>', 'Number of days to include, counting today', '7')
+    .option('--by <group>', 'Only one breakdown: day, agent or model')
+    .option('--session <id>', 'Only usage of one session')
+    .option('--task <id>', 'Only usage of one work-loop task')
+    .option('--json', 'Output as JSON')
+    .action(showUsage);
+}
@@ -6,15 +6,20 @@
 import { Command } from 'commander';
 import { join } from 'path';
 import { existsSync, mkdirSync } from 'fs';
-import { resolveCredentials, hasValidCredentials } from './auth';
 import { printError, printInfo, printWarning, onShutdown, dim, bold, success } from './utils';
 import { loadConfig } from '../core/config';
+import { SandboxPolicySchema } from '../core/types';
 import { Database } from '../infra/database';
 import { createEventBus } from '../core/event-bus';
 import { TaskManager } from '../core/task-manager';
 import { WorkLoop } from '../core/work-loop';
+import { killAllShells } from '../core/loop';
+import { createApprovalManager } from '../core/approval-manager';
+import { PermissionEngine } from '../core/permissions';
+import { createHookManager } from '../core/hook-manager';
+import { loadProjectHooks } from './hooks';
 import { initLogger } from '../infra/logger';
-import { loadAnthropicProvider } from './provider-loader';
+import { hasConfiguredProvider, loadProviders, withFailover } from './provider-loader';
 
 // ---------------------------------------------------------------------------
 // Data Directory Setup
@@ -34,6 +39,8 @@ interface WorkCommandOptions {
   maxConcurrent?: string;
   budgetLimit?: string;
   once?: boolean;
+  sandbox?: boolean;
+  network?: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -51,40 +58,51 @@ function applyPositiveInt(raw: string | undefined, setter: (value: number) => vo
 // ---------------------------------------------------------------------------
 
 async function workCommand(options: WorkCommandOptions): Promise<void> {
-  if (!hasValidCredentials()) {
+  const config = loadConfig();
+  if (!hasConfiguredProvider(config)) {
     printError('No API credentials configured.');
     console.log('\nTo configure authentication, run:');
     console.log(dim('  daemux auth setup-token --provider anthropic'));
     console.log(dim('  daemux auth api-key --provider anthropic'));
+    console.log(dim('  daemux auth api-key --provider openai'));
     process.exit(1);
   }
 
-  const config = loadConfig();
-
   // Apply CLI flag overrides
   applyPositiveInt(options.pollInterval, v => { config.workPollingIntervalMs = v; });
   applyPositiveInt(options.maxConcurrent, v => { config.maxConcurrentTasks = v; });
   applyPositiveInt(options.budgetLimit, v => { config.workBudgetMaxTasksPerHour = v; });
+  if (options.sandbox || options.network === false) {
+    config.sandbox = SandboxPolicySchema.parse({
+      ...config.sandbox,
+      enabled: true,
+      ...(options.network === false ? { network: false } : {}),
+    });
+  }
 
-  await initLogger({ level: config.debug ? 'debug' : 'info', dataDir: config.dataDir });
+  const logger = await initLogger({ level: config.debug ? 'debug' : 'info', dataDir: config.dataDir });
   const dbPath = setupDataDir(config.dataDir);
 
   const db = new Database({ path: dbPath, enableVec: true });
   await db.initialize();
 
-  const credentials = resolveCredentials();
-  if (!credentials) {
-    printError('Failed to resolve API credentials');
-    process.exit(1);
-  }
-
-  const provider = await loadAnthropicProvider();
-  await provider.initialize({ type: credentials.type, value: credentials.value });
+  const mainProvider = await loadProviders(config);
 
   const eventBus = createEventBus();
+  const provider = withFailover(mainProvider, config, eventBus);
   const taskManager = new TaskManager({ db, eventBus });
 
-  const workLoop = new WorkLoop({ db, eventBus, config, provider, taskManager });
+  const approvalManager = createApprovalManager({ db, eventBus });
+  const permissions = new PermissionEngine({
+    rules: config.permissions, db, approvalManager, agentId: config.agentId,
+  });
+
+  // Loops created by the WorkLoop pick up the global hook manager
+  const hookManager = createHookManager({ config, eventBus, logger });
+  hookManager.loadHooks(config.dataDir);
+  await loadProjectHooks(hookManager, config, { ask: true });
+
+  const workLoop = new WorkLoop({ db, eventBus, config, provider, taskManager, permissions });
 
   // Wire events to console output
   wireEventHandlers(eventBus);
@@ -105,6 +123,9 @@ async function workCommand(options: WorkCommandOptions): Promise<void> {
     const forceTimer = setTimeout(() => process.exit(1), 5000);
     try {
       await workLoop.stop('shutdown signal');
+      approvalManager.shutdown();
+      hookManager.shutdown();
+      killAllShells();
       db.close();
     } finally {
       clearTimeout(forceTimer);
@@ -136,6 +157,11 @@ function wireEventHandlers(eventBus: ReturnType<typeof createEventBus>): void {
     printWarning(`Budget limit reached: ${tasksThisHour}/${limit} tasks this hour`);
   });
 
+  eventBus.on('approval:request', ({ id, command }) => {
+    printWarning(`Approval required: ${command}`);
+    console.log(dim(`  daemux approve resolve ${id.slice(0, 8)} allow-once|allow-always|deny`));
+  });
+
   eventBus.on('work:stopped', ({ reason }) => {
     console.log(dim(`\nWork loop stopped${reason ? `: ${reason}` : ''}`));
   });
@@ -180,5 +206,7 @@ export function registerWorkCommands(program: Command): void {
     .option('--max-concurrent <n>', 'Maximum concurrent tasks')
     .option('--budget-limit <n>', 'Maximum tasks per hour')
     .option('--once', 'Process one task and exit')
+    .option('--sandbox', 'Enforce the sandbox policy for Bash, Write and Edit')
+    .option('--no-network', 'Run Bash without network access (implies --sandbox)')
     .action(workCommand);
 }
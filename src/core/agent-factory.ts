@@ -4,9 +4,13 @@
  * Generated agents are ephemeral (in-memory only, pluginId: 'dynamic').
  */
 
+import { z } from 'zod';
 import type { AgentDefinition } from './types';
 import type { LLMProvider } from './plugin-api-types';
 import type { AgentRegistry } from './agent-registry';
+import type { ModelRouter } from './model-router';
+import { trackedProvider, type UsageContext } from './usage-tracker';
+import { requestStructured } from './structured-output';
 import { getLogger } from '../infra/logger';
 
 // ---------------------------------------------------------------------------
@@ -16,20 +20,15 @@ import { getLogger } from '../infra/logger';
 export interface AgentFactoryDeps {
   provider: LLMProvider;
   registry: AgentRegistry;
+  /** Resolves the agentFactory role; built from the config so role overrides apply */
+  router: ModelRouter;
 }
 
 export interface CreateAgentOptions {
   tools?: string[];
   model?: string;
-}
-
-interface ParsedAgentConfig {
-  name: string;
-  description: string;
-  systemPrompt: string;
-  tools: string[];
-  model: ValidModel;
-  color: ValidColor;
+  /** Records the generation call; without it the call goes unrecorded */
+  usage?: UsageContext;
 }
 
 // ---------------------------------------------------------------------------
@@ -40,21 +39,33 @@ const VALID_MODELS = ['inherit', 'sonnet', 'opus', 'haiku'] as const;
 type ValidModel = typeof VALID_MODELS[number];
 
 const VALID_COLORS = ['blue', 'cyan', 'green', 'yellow', 'red'] as const;
-type ValidColor = typeof VALID_COLORS[number];
 
-const HAIKU_MODEL = 'claude-haiku-3-5-20250514';
+const MAX_GENERATION_TOKENS = 500;
 
-const GENERATION_PROMPT = `You are an agent configuration generator. Given a task description, generate a JSON object defining an AI agent optimized for that task.
+const GENERATION_PROMPT = `You are an agent configuration generator. Given a task description, define an AI agent optimized for that task.
 
-The JSON must have these exact fields:
+The configuration has these fields:
 - "name": lowercase alphanumeric with hyphens, 3-50 chars, starting with a letter (e.g. "code-reviewer")
 - "description": one-line description of what the agent does (max 100 chars)
 - "systemPrompt": detailed instructions for the agent (2-5 sentences)
-- "tools": array of tool names the agent needs. Available tools: Read, Write, Edit, Bash, Glob, Grep, SpawnAgent
+- "tools": array of tool names the agent needs. Available tools: Read, Write, Edit, MultiEdit, ApplyPatch, Bash, BashBackground, BashOutput, BashInput, BashKill, Glob, Grep, WebFetch, WebSearch, SpawnAgent
 - "model": one of "inherit", "haiku", "sonnet", "opus". Use "haiku" for simple/fast tasks, "inherit" for general, "sonnet"/"opus" for complex reasoning
-- "color": one of "blue", "cyan", "green", "yellow", "red"
-
-Respond with ONLY the JSON object, no markdown fencing, no explanation.`;
+- "color": one of "blue", "cyan", "green", "yellow", "red"`;
+
+/** Only the name is strict; a bad model, color or tool entry falls back instead of costing a repair */
+const AgentConfigSchema = z.object({
+  name: z.string().trim().regex(/^[a-z][a-z0-9-]{2,49}$/, 'Invalid agent name: must match /^[a-z][a-z0-9-]{2,49}$/'),
+  description: z.string().trim().default('Dynamic agent'),
+  systemPrompt: z.string().trim().default('You are a helpful assistant.'),
+  tools: z.preprocess(
+    value => Array.isArray(value) ? value.filter(t => typeof t === 'string') : [],
+    z.array(z.string()),
+  ),
+  model: z.enum(VALID_MODELS).catch('inherit'),
+  color: z.enum(VALID_COLORS).catch('blue'),
+});
+
+type ParsedAgentConfig = z.infer<typeof AgentConfigSchema>;
 
 // ---------------------------------------------------------------------------
 // AgentFactory
@@ -75,7 +86,7 @@ export class AgentFactory {
       throw new Error('Task description is required');
     }
 
-    const config = await this.generateConfig(taskDescription.trim());
+    const config = await this.generateConfig(taskDescription.trim(), options?.usage);
     const agent = this.buildDefinition(config, options);
 
     this.deps.registry.registerAgent(agent);
@@ -84,19 +95,18 @@ export class AgentFactory {
     return agent;
   }
 
-  private async generateConfig(taskDescription: string): Promise<ParsedAgentConfig> {
+  private async generateConfig(taskDescription: string, usage?: UsageContext): Promise<ParsedAgentConfig> {
     const userPrompt = `Generate an agent configuration for this task:\n\n${taskDescription}`;
 
     try {
-      const response = await this.deps.provider.compactionChat({
-        model: HAIKU_MODEL,
-        messages: [{ role: 'user', content: userPrompt }],
+      const target = this.deps.router.resolveRole('agentFactory', this.deps.provider);
+      return await requestStructured(trackedProvider(target.provider, usage), {
+        model: target.model,
         systemPrompt: GENERATION_PROMPT,
-        maxTokens: 500,
+        prompt: userPrompt,
+        schema: AgentConfigSchema,
+        maxTokens: target.maxTokens ?? MAX_GENERATION_TOKENS,
       });
-
-      const text = this.extractText(response);
-      return this.parseResponse(text);
     } catch (err) {
       getLogger().error('AgentFactory LLM call failed', {
         error: err instanceof Error ? err.message : String(err),
@@ -107,56 +117,6 @@ export class AgentFactory {
     }
   }
 
-  private extractText(response: { content: Array<{ type: string; text?: string }> }): string {
-    for (const block of response.content) {
-      if (block.type === 'text' && block.text) {
-        return block.text.trim();
-      }
-    }
-    throw new Error('LLM response contained no text content');
-  }
-
-  private parseResponse(text: string): ParsedAgentConfig {
-    // Strip markdown code fences if present
-    const cleaned = text
-      .replace(/^```(?:json)?\s*/i, '')
-      .replace(/\s*```\s*$/, '')
-      .trim();
-
-    let parsed: Record<string, unknown>;
-    try {
-      parsed = JSON.parse(cleaned);
-    } catch {
-      throw new Error(`Failed to parse agent config JSON: ${cleaned.slice(0, 200)}`);
-    }
-
-    return this.validateConfig(parsed);
-  }
-
-  private validateConfig(raw: Record<string, unknown>): ParsedAgentConfig {
-    const name = String(raw.name ?? '').trim();
-    if (!name || !/^[a-z][a-z0-9-]{2,49}$/.test(name)) {
-      throw new Error(`Invalid agent name: "${name}". Must match /^[a-z][a-z0-9-]{2,49}$/`);
-    }
-
-    const description = String(raw.description ?? 'Dynamic agent').trim();
-    const systemPrompt = String(raw.systemPrompt ?? 'You are a helpful assistant.').trim();
-
-    const tools = Array.isArray(raw.tools)
-      ? raw.tools.filter((t): t is string => typeof t === 'string')
-      : [];
-
-    const model = VALID_MODELS.includes(raw.model as ValidModel)
-      ? (raw.model as ValidModel)
-      : 'inherit';
-
-    const color = VALID_COLORS.includes(raw.color as ValidColor)
-      ? (raw.color as ValidColor)
-      : 'blue';
-
-    return { name, description, systemPrompt, tools, model, color };
-  }
-
   private buildDefinition(
     config: ParsedAgentConfig,
     options?: CreateAgentOptions,
@@ -80,6 +80,27 @@ export function parseFrontmatter(content: string): { data: Record<string, unknow
   return { data, body: fmMatch[2] ?? '' };
 }
 
+/**
+ * Build an agent's sandbox overrides from flat frontmatter keys:
+ * sandbox, sandboxWriteRoots, sandboxDenyPaths, sandboxEnvAllowlist, sandboxNetwork.
+ */
+export function parseSandboxFrontmatter(data: Record<string, unknown>): AgentDefinition['sandbox'] {
+  const sandbox: NonNullable<AgentDefinition['sandbox']> = {};
+  const list = (value: unknown): string[] | undefined =>
+    Array.isArray(value) ? value.map(String) : undefined;
+
+  if (typeof data.sandbox === 'boolean') sandbox.enabled = data.sandbox;
+  if (typeof data.sandboxNetwork === 'boolean') sandbox.network = data.sandboxNetwork;
+  const writeRoots = list(data.sandboxWriteRoots);
+  if (writeRoots) sandbox.writeRoots = writeRoots;
+  const denyPaths = list(data.sandboxDenyPaths);
+  if (denyPaths) sandbox.denyPaths = denyPaths;
+  const envAllowlist = list(data.sandboxEnvAllowlist);
+  if (envAllowlist) sandbox.envAllowlist = envAllowlist;
+
+  return Object.keys(sandbox).length > 0 ? sandbox : undefined;
+}
+
 /**
  * Load all built-in agents from a directory of .md files.
  * Returns AgentDefinition[] with pluginId set to 'core'.
@@ -116,6 +137,9 @@ export function loadBuiltinAgents(agentsDir?: string): AgentDefinition[] {
       color: (data.color as AgentDefinition['color']) || 'blue',
       systemPrompt: body.trim(),
       pluginId: 'core',
+      compactionStrategy: data.compactionStrategy as string | undefined,
+      compactionModel: data.compactionModel as string | undefined,
+      sandbox: parseSandboxFrontmatter(data),
     });
   }
 
@@ -9,6 +9,7 @@ import { EventBus } from './event-bus';
 import type { LLMProvider } from './plugin-api-types';
 import type { MetricsCollector, AgentMetrics } from './metrics';
 import { getLogger } from '../infra/logger';
+import { ModelRouter, BUILTIN_MODEL_ALIASES } from './model-router';
 import { BUILTIN_TOOLS } from './loop/tools';
 
 export const MAX_SUBAGENT_DEPTH = 3;
@@ -20,6 +21,9 @@ export interface SpawnSubagentOptions {
   parentId?: string;
   depth?: number;
   resumeSessionId?: string;
+  /** Work-loop task and swarm the subagent runs for, for usage accounting and budgets */
+  taskId?: string;
+  swarmId?: string;
 }
 
 /** Factory injected at runtime to avoid circular imports with AgenticLoop. */
@@ -30,21 +34,24 @@ export type LoopFactory = (options: {
   resume?(sessionId: string, message: string, config: LoopRunConfig): Promise<LoopRunResult>;
 };
 
-export type StreamChunkType = 'text_delta' | 'tool_use' | 'tool_result';
+export type StreamChunkType = 'text_delta' | 'tool_use' | 'tool_progress' | 'tool_result';
 
 export interface LoopRunConfig {
   sessionId?: string;
+  agent?: AgentDefinition;
   systemPrompt?: string;
   tools?: ToolDefinition[];
   toolExecutors?: Map<string, (id: string, input: Record<string, unknown>) => Promise<{ toolUseId: string; content: string; isError?: boolean }>>;
   timeoutMs?: number;
+  taskId?: string;
+  swarmId?: string;
   onStream?: (chunk: { type: string; [key: string]: unknown }) => void;
 }
 
 export interface LoopRunResult {
   response: string;
   sessionId: string;
-  tokensUsed: { input: number; output: number };
+  tokensUsed: { input: number; output: number; cacheRead?: number; cacheWrite?: number };
   toolCalls: Array<{ name: string; durationMs: number }>;
   durationMs: number;
 }
@@ -122,12 +129,12 @@ export class AgentRegistry {
       id: record.id, task: task.slice(0, 100), timeout: timeoutMs, depth: currentDepth,
     });
 
-    return this.runSubagentLoop(record, agent, task, timeoutMs, options?.tools, options?.resumeSessionId);
+    return this.runSubagentLoop(record, agent, task, timeoutMs, options ?? {});
   }
 
   private async runSubagentLoop(
     record: SubagentRecord, agent: AgentDefinition, task: string,
-    timeoutMs: number, toolOverrides?: string[], resumeSessionId?: string,
+    timeoutMs: number, options: SpawnSubagentOptions,
   ): Promise<SubagentRecord> {
     if (!this.provider || !this.loopFactory) {
       getLogger().warn('No provider/loopFactory set; finalizing subagent as failed', { id: record.id });
@@ -136,7 +143,10 @@ export class AgentRegistry {
 
     const startTime = Date.now();
     const outputBuffer = this.createStreamingBuffer(record.id);
-    const loopConfig = this.buildLoopConfig(agent, timeoutMs, toolOverrides, outputBuffer.onStream);
+    const loopConfig = this.buildLoopConfig(agent, timeoutMs, options.tools, outputBuffer.onStream);
+    loopConfig.taskId = options.taskId;
+    loopConfig.swarmId = options.swarmId;
+    const { resumeSessionId } = options;
 
     try {
       const loop = this.loopFactory({
@@ -168,6 +178,8 @@ export class AgentRegistry {
         return this.finalizeSubagent(record.id, 'completed', {
           agentId: record.id, output,
           tokensUsed: result.tokensUsed.input + result.tokensUsed.output,
+          cacheReadTokens: result.tokensUsed.cacheRead,
+          cacheWriteTokens: result.tokensUsed.cacheWrite,
           toolUses: result.toolCalls.length, durationMs: Date.now() - startTime,
         });
       } finally {
@@ -198,6 +210,9 @@ export class AgentRegistry {
         chunkText = chunk.type === 'tool_start'
           ? `[Tool: ${chunk.name as string}]`
           : (chunk.input as string) ?? '';
+      } else if (chunk.type === 'tool_progress') {
+        streamType = 'tool_progress';
+        chunkText = (chunk.content as string) ?? '';
       } else if (chunk.type === 'tool_result') {
         streamType = 'tool_result';
         chunkText = (chunk.result as string) ?? '';
@@ -222,6 +237,7 @@ export class AgentRegistry {
       : BUILTIN_TOOLS;
 
     return {
+      agent,
       systemPrompt: agent.systemPrompt,
       tools: filteredTools,
       timeoutMs,
@@ -263,6 +279,8 @@ export class AgentRegistry {
         const metrics: AgentMetrics = {
           agentName: record.agentName,
           tokensUsed: agentResult.tokensUsed,
+          cacheReadTokens: agentResult.cacheReadTokens,
+          cacheWriteTokens: agentResult.cacheWriteTokens,
           toolUses: agentResult.toolUses,
           duration: agentResult.durationMs,
           model: agent?.model ?? 'unknown',
@@ -310,14 +328,18 @@ export class AgentRegistry {
     return this.db.subagents.markOrphaned(olderThanMs);
   }
 
+  /**
+   * Concrete model id for an agent. "inherit" follows the subagent role and
+   * aliases are resolved through the provider's model list; ids on another
+   * provider come back qualified ("openai:gpt-4o-mini").
+   */
   resolveModel(agent: AgentDefinition): Config['model'] {
-    if (agent.model === 'inherit') return this.config.model;
-    const modelMap: Record<string, Config['model']> = {
-      sonnet: 'claude-sonnet-4-20250514',
-      opus: 'claude-opus-4-20250514',
-      haiku: 'claude-haiku-3-5-20250514',
-    };
-    return modelMap[agent.model] ?? this.config.model;
+    const router = new ModelRouter(this.config);
+    const ref = agent.model === 'inherit' ? router.reference('subagent').model : agent.model;
+    if (!this.provider) {
+      return ref === 'inherit' ? this.config.model : BUILTIN_MODEL_ALIASES[ref] ?? ref;
+    }
+    return router.qualify(router.resolve(ref, this.provider), this.provider);
   }
 
   getAgentTools(agent: AgentDefinition, availableTools: string[]): string[] {
@@ -14,6 +14,7 @@ import { getLogger } from '../infra/logger';
 // ---------------------------------------------------------------------------
 
 const DEFAULT_TIMEOUT_MS = 120_000;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
 
 // ---------------------------------------------------------------------------
 // Pending Entry (in-memory state for each inflight approval)
@@ -34,11 +35,14 @@ export class ApprovalManager {
   private db: Database;
   private eventBus: EventBus;
   private timeoutMs: number;
+  private pollIntervalMs: number;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
 
-  constructor(options: { db: Database; eventBus: EventBus; timeoutMs?: number }) {
+  constructor(options: { db: Database; eventBus: EventBus; timeoutMs?: number; pollIntervalMs?: number }) {
     this.db = options.db;
     this.eventBus = options.eventBus;
     this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
   }
 
   /**
@@ -66,6 +70,7 @@ export class ApprovalManager {
       }, this.timeoutMs);
 
       this.pending.set(record.id, { resolve, timeout, request: record });
+      this.startPolling();
 
       void this.eventBus.emit('approval:request', {
         id: record.id,
@@ -79,18 +84,38 @@ export class ApprovalManager {
    * persists the decision to DB, and resolves the waiting Promise.
    */
   resolveApproval(id: string, decision: ApprovalDecision, decidedBy?: string): void {
-    const entry = this.pending.get(id);
-    if (!entry) {
+    if (!this.pending.has(id)) {
       getLogger().warn('Attempted to resolve unknown or already-resolved approval', { id });
       return;
     }
 
-    clearTimeout(entry.timeout);
-    this.pending.delete(id);
+    this.db.approvals.update(id, { decision, decidedAtMs: Date.now(), decidedBy });
+    this.settle(id, decision, decidedBy);
+  }
+
+  /**
+   * Pick up decisions written to the DB by another process
+   * (e.g. `daemux approve resolve`) for requests still pending here.
+   */
+  syncExternalDecisions(): void {
+    for (const id of Array.from(this.pending.keys())) {
+      const record = this.db.approvals.get(id);
+      if (record?.decision && record.decision !== 'timeout') {
+        this.settle(id, record.decision, record.decidedBy);
+      }
+    }
+  }
 
-    const decidedAtMs = Date.now();
+  /**
+   * Settle an in-memory pending entry whose decision is already persisted.
+   */
+  private settle(id: string, decision: ApprovalDecision, decidedBy?: string): void {
+    const entry = this.pending.get(id);
+    if (!entry) return;
 
-    this.db.approvals.update(id, { decision, decidedAtMs, decidedBy });
+    clearTimeout(entry.timeout);
+    this.pending.delete(id);
+    this.stopPollingIfIdle();
 
     getLogger().info('Approval decided', { id, decision, decidedBy });
 
@@ -148,9 +173,22 @@ export class ApprovalManager {
     }
 
     this.pending.clear();
+    this.stopPollingIfIdle();
     logger.info('ApprovalManager shut down', { clearedCount: count });
   }
 
+  private startPolling(): void {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => this.syncExternalDecisions(), this.pollIntervalMs);
+  }
+
+  private stopPollingIfIdle(): void {
+    if (this.pollTimer && this.pending.size === 0) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
   /**
    * Handle a single approval timing out. Updates DB, emits event, resolves Promise.
    */
@@ -159,6 +197,7 @@ export class ApprovalManager {
     if (!entry) return;
 
     this.pending.delete(id);
+    this.stopPollingIfIdle();
 
     this.db.approvals.update(id, {
       decision: 'timeout',
@@ -183,6 +222,7 @@ export function createApprovalManager(options: {
   db: Database;
   eventBus: EventBus;
   timeoutMs?: number;
+  pollIntervalMs?: number;
 }): ApprovalManager {
   globalApprovalManager = new ApprovalManager(options);
   return globalApprovalManager;
@@ -11,6 +11,7 @@ import type { Config } from './types';
 import type { Database } from '../infra/database';
 import type { EventBus } from './event-bus';
 import type { LLMProvider } from './plugin-api-types';
+import type { PermissionEngine } from './permissions';
 import { getLogger } from '../infra/logger';
 
 // ---------------------------------------------------------------------------
@@ -38,6 +39,9 @@ export type SpawnResult = {
 
 export type TaskCompleteCallback = (taskId: string, result: string, success: boolean) => void;
 
+/** Characters of recent output reported in each progress update */
+const PROGRESS_TAIL_CHARS = 200;
+
 // ---------------------------------------------------------------------------
 // Internal Task Record
 // ---------------------------------------------------------------------------
@@ -68,12 +72,14 @@ export class BackgroundTaskRunner {
   private maxPerChat: number;
   private progressThrottleMs: number;
   private cleanupDelayMs: number;
+  private permissions: PermissionEngine | undefined;
 
   constructor(options: {
     db: Database;
     eventBus: EventBus;
     config: Config;
     provider: LLMProvider;
+    permissions?: PermissionEngine;
     maxPerChat?: number;
     progressThrottleMs?: number;
     cleanupDelayMs?: number;
@@ -82,6 +88,7 @@ export class BackgroundTaskRunner {
     this.eventBus = options.eventBus;
     this.config = options.config;
     this.provider = options.provider;
+    this.permissions = options.permissions;
     this.maxPerChat = options.maxPerChat ?? 3;
     this.progressThrottleMs = options.progressThrottleMs ?? 30_000;
     this.cleanupDelayMs = options.cleanupDelayMs ?? 60_000;
@@ -107,6 +114,7 @@ export class BackgroundTaskRunner {
       eventBus: this.eventBus,
       config: this.config,
       provider: this.provider,
+      permissions: this.permissions,
     });
 
     const record: TaskRecord = {
@@ -179,12 +187,15 @@ export class BackgroundTaskRunner {
 
   private startTask(record: TaskRecord): void {
     let lastProgressAt = 0;
+    let recentOutput = '';
     const onStream = (chunk: { type: string; content?: string }) => {
-      if (chunk.type !== 'text' || !chunk.content) return;
+      if ((chunk.type !== 'text' && chunk.type !== 'tool_progress') || !chunk.content) return;
+      // Keep the tail of text and tool output so each update shows the latest activity
+      recentOutput = (recentOutput + chunk.content).slice(-PROGRESS_TAIL_CHARS);
       const now = Date.now();
       if (now - lastProgressAt < this.progressThrottleMs) return;
       lastProgressAt = now;
-      record.progress = chunk.content.slice(0, 200);
+      record.progress = recentOutput.trim();
       void this.eventBus.emit('bg-task:progress', {
         taskId: record.id, chatKey: record.chatKey, text: record.progress,
       });
@@ -195,7 +206,8 @@ export class BackgroundTaskRunner {
       loopConfig.timeoutMs = record.timeBudgetMs;
     }
 
-    record.loop!.run(record.description, loopConfig)
+    const loop = record.loop!;
+    loop.run(record.description, loopConfig)
       .then(result => {
         if (record.status === 'cancelled') return;
         const response = result.response || 'Task completed with no output';
@@ -206,7 +218,9 @@ export class BackgroundTaskRunner {
         const errorMsg = err instanceof Error ? err.message : String(err);
         getLogger().error('Background task failed', { taskId: record.id, error: errorMsg });
         this.finalizeTask(record, 'failed', errorMsg, `Task failed: ${errorMsg}`);
-      });
+      })
+      // Each task runs in its own session, which ends with it, cancelled or not
+      .finally(() => loop.endSession());
   }
 
   private finalizeTask(
@@ -1,7 +1,9 @@
 /**
  * Channel Router
  * Bridges channel messages to ChatSessions and routes responses back.
- * Handles audio transcription, per-chat session management, and error delivery.
+ * Handles audio transcription, photo and document attachments, per-chat
+ * session management, error delivery, and /approve and /answer replies to
+ * tool approvals and MCP server questions.
  */
 
 import type { AgenticLoop } from './loop';
@@ -13,9 +15,15 @@ import type { Logger } from '../infra/logger';
 import type { Config } from './types';
 import type { Database } from '../infra/database';
 import type { LLMProvider } from './plugin-api-types';
+import type { ApprovalDecision } from './types';
+import type { MediaBlock } from './types';
+import type { ApprovalManager } from './approval-manager';
+import type { PermissionEngine } from './permissions';
+import { ANSWER_COMMAND, type ElicitationBroker } from './mcp/elicitation';
 import { ChatSession } from './chat-session';
 import { BackgroundTaskRunner } from './background-task-runner';
 import { LegacyChannelHandler } from './legacy-channel-handler';
+import { mediaTypeForPath, isViewableMediaType, toMediaBlock } from './media';
 
 // ---------------------------------------------------------------------------
 // Channel Router Options
@@ -31,6 +39,12 @@ export interface ChannelRouterOptions {
   db?: Database;
   provider?: LLMProvider;
   config?: Config;
+  /** Lets chat users answer tool approval requests with /approve */
+  approvalManager?: ApprovalManager;
+  /** Permission engine for background task loops */
+  permissions?: PermissionEngine;
+  /** Lets chat users answer MCP server questions with /answer */
+  elicitation?: ElicitationBroker;
 }
 
 // ---------------------------------------------------------------------------
@@ -39,6 +53,9 @@ export interface ChannelRouterOptions {
 
 const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
 const SESSION_IDLE_CHECK_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+const APPROVE_COMMAND = /^\/approve\s+(\S+)\s+(allow-once|allow-always|deny)$/;
+/** Stands in for the text of a message that is only a photo or document */
+const ATTACHMENT_ONLY_TEXT = '(Sent without a caption; see the attachment.)';
 
 // ---------------------------------------------------------------------------
 // Channel Router
@@ -55,6 +72,10 @@ export class ChannelRouter {
   private taskRunner: BackgroundTaskRunner | null = null;
   private unsubscribers: Array<() => void> = [];
   private idleCheckTimer: ReturnType<typeof setInterval> | null = null;
+  private approvalManager: ApprovalManager | null;
+  private elicitation: ElicitationBroker | null;
+  /** Chats that last talked to the agent, keyed by channel:chat */
+  private activeChats: Map<string, { channel: EnhancedChannel; chatId: string }> = new Map();
 
   // Dependencies for ChatSession creation (dialog mode)
   private db: Database | null;
@@ -73,11 +94,13 @@ export class ChannelRouter {
     this.db = options.db ?? null;
     this.provider = options.provider ?? null;
     this.config = options.config ?? null;
+    this.approvalManager = options.approvalManager ?? null;
+    this.elicitation = options.elicitation ?? null;
 
     if (this.isDialogMode()) {
       this.taskRunner = new BackgroundTaskRunner({
         db: this.db!, eventBus: this.eventBus, config: this.config!, provider: this.provider!,
-        maxPerChat: this.config!.maxConcurrentTasks,
+        permissions: options.permissions, maxPerChat: this.config!.maxConcurrentTasks,
       });
     } else if (this.loop) {
       this.legacyHandler = new LegacyChannelHandler({
@@ -105,6 +128,17 @@ export class ChannelRouter {
     if (this.isDialogMode()) {
       this.idleCheckTimer = setInterval(() => this.evictIdleSessions(), SESSION_IDLE_CHECK_INTERVAL_MS);
     }
+    if (this.approvalManager) {
+      this.unsubscribers.push(this.eventBus.on('approval:request', ({ id, command }) => {
+        const text = `Approval required: ${command}\nReply /approve ${id.slice(0, 8)} allow-once|allow-always|deny`;
+        void this.notifyActiveChats(text, 'approval request');
+      }));
+    }
+    if (this.elicitation) {
+      this.unsubscribers.push(this.eventBus.on('mcp:elicitation', ({ question }) => {
+        void this.notifyActiveChats(question, 'MCP question');
+      }));
+    }
 
     this.logger.info('ChannelRouter started', {
       channelCount: String(this.channelManager.list().length),
@@ -124,6 +158,7 @@ export class ChannelRouter {
     for (const session of this.chatSessions.values()) session.stop();
     this.chatSessions.clear();
     this.chatSessionLastActive.clear();
+    this.activeChats.clear();
 
     if (this.taskRunner) this.taskRunner.stopAll();
 
@@ -157,13 +192,27 @@ export class ChannelRouter {
         }
       }
 
-      const trimmed = text?.trim();
+      const { media, notes } = await this.collectMedia(message, channel);
+      if (notes.length > 0) text = [text, ...notes].filter(Boolean).join('\n\n');
+
+      const trimmed = text?.trim() || (media.length > 0 ? ATTACHMENT_ONLY_TEXT : '');
       if (!trimmed) return;
 
+      const chatId = this.resolveChatId(message);
+      this.activeChats.set(`${channel.id}:${chatId}`, { channel, chatId });
+      if (this.approvalManager && APPROVE_COMMAND.test(trimmed)) {
+        await this.handleApproveCommand(trimmed, message, channel);
+        return;
+      }
+      if (this.elicitation && ANSWER_COMMAND.test(trimmed)) {
+        await this.handleAnswerCommand(trimmed, chatId, channel);
+        return;
+      }
+
       if (this.isDialogMode()) {
-        await this.routeToSession(trimmed, message, channel);
+        await this.routeToSession(trimmed, message, channel, media);
       } else if (this.legacyHandler) {
-        this.legacyHandler.enqueue({ message, channel, text: trimmed });
+        this.legacyHandler.enqueue({ message, channel, text: trimmed, media });
       }
     } catch (err) {
       this.logger.error('Failed to handle channel message', {
@@ -193,7 +242,7 @@ export class ChannelRouter {
   }
 
   private async routeToSession(
-    text: string, message: RichChannelMessage, channel: EnhancedChannel,
+    text: string, message: RichChannelMessage, channel: EnhancedChannel, media: MediaBlock[],
   ): Promise<void> {
     const chatId = this.resolveChatId(message);
     const sessionKey = `${channel.id}:${chatId}`;
@@ -209,7 +258,7 @@ export class ChannelRouter {
     }
     this.chatSessionLastActive.set(sessionKey, Date.now());
 
-    await session.handleMessage(text, message);
+    await session.handleMessage(text, message, media);
   }
 
   private evictIdleSessions(): void {
@@ -226,6 +275,51 @@ export class ChannelRouter {
     }
   }
 
+  // -----------------------------------------------------------------------
+  // Tool Approvals and MCP Questions
+  // -----------------------------------------------------------------------
+
+  private async notifyActiveChats(text: string, what: string): Promise<void> {
+    for (const { channel, chatId } of this.activeChats.values()) {
+      try {
+        await channel.sendText(chatId, text);
+      } catch (err) {
+        this.logger.warn(`Failed to send ${what}`, {
+          channelId: channel.id, error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  }
+
+  private async handleApproveCommand(
+    text: string, message: RichChannelMessage, channel: EnhancedChannel,
+  ): Promise<void> {
+    const [, idPrefix, decision] = text.match(APPROVE_COMMAND)!;
+    const chatId = this.resolveChatId(message);
+    const matches = this.approvalManager!.getPending().filter(r => r.id.startsWith(idPrefix!));
+
+    if (matches.length !== 1) {
+      const reason = matches.length === 0 ? 'No pending approval matches' : 'Ambiguous approval ID';
+      await channel.sendText(chatId, `${reason} "${idPrefix}".`);
+      return;
+    }
+
+    const request = matches[0]!;
+    const decidedBy = `${channel.id}:${message.senderId}`;
+    this.approvalManager!.resolveApproval(request.id, decision as ApprovalDecision, decidedBy);
+    await channel.sendText(chatId, `Approval ${request.id.slice(0, 8)} resolved: ${decision}`);
+  }
+
+  private async handleAnswerCommand(text: string, chatId: string, channel: EnhancedChannel): Promise<void> {
+    let reply: string;
+    try {
+      reply = this.elicitation!.answer(text);
+    } catch (err) {
+      reply = err instanceof Error ? err.message : String(err);
+    }
+    await channel.sendText(chatId, reply);
+  }
+
   // -----------------------------------------------------------------------
   // Audio Transcription
   // -----------------------------------------------------------------------
@@ -254,6 +348,61 @@ export class ChannelRouter {
     }
   }
 
+  // -----------------------------------------------------------------------
+  // Photo and Document Attachments
+  // -----------------------------------------------------------------------
+
+  private static MEDIA_ATTACHMENT_TYPES: ReadonlySet<string> = new Set(['photo', 'document']);
+
+  private supportsVision(): boolean {
+    return (this.provider ?? this.loop?.getProvider())?.capabilities.vision ?? false;
+  }
+
+  /**
+   * Photos and documents as content blocks for the model. Attachments it
+   * cannot see become notes in the message text so it can say so.
+   */
+  private async collectMedia(
+    message: RichChannelMessage, channel: EnhancedChannel,
+  ): Promise<{ media: MediaBlock[]; notes: string[] }> {
+    const attachments = message.attachments.filter(a => ChannelRouter.MEDIA_ATTACHMENT_TYPES.has(a.type));
+    const media: MediaBlock[] = [];
+    const notes: string[] = [];
+    if (attachments.length === 0) return { media, notes };
+
+    if (!this.supportsVision()) {
+      notes.push(`[${attachments.length} attachment(s) received; the current model cannot view images or documents]`);
+      return { media, notes };
+    }
+
+    for (const attachment of attachments) {
+      const label = attachment.fileName ?? attachment.type;
+      try {
+        const file = attachment.data
+          ? { data: attachment.data, mimeType: attachment.mimeType, fileName: attachment.fileName }
+          : attachment.url ? await channel.downloadAttachment(attachment.url) : null;
+        if (!file) {
+          notes.push(`[Attachment ${label} could not be downloaded]`);
+          continue;
+        }
+
+        const fileName = file.fileName ?? attachment.fileName;
+        const mediaType = file.mimeType ?? attachment.mimeType
+          ?? (fileName ? mediaTypeForPath(fileName) : undefined)
+          ?? (attachment.type === 'photo' ? 'image/jpeg' : undefined);
+        if (!mediaType || !isViewableMediaType(mediaType)) {
+          notes.push(`[Attachment ${label} (${mediaType ?? 'unknown type'}) cannot be viewed]`);
+          continue;
+        }
+        media.push(toMediaBlock(file.data, mediaType, fileName));
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        this.logger.warn('Failed to attach channel media', { channelId: channel.id, messageId: message.id, error: msg });
+        notes.push(`[Attachment ${label} could not be attached: ${msg}]`);
+      }
+    }
+    return { media, notes };
+  }
 }
 
 // ---------------------------------------------------------------------------
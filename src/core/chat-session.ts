@@ -3,7 +3,7 @@
 import { AgenticLoop } from './loop';
 import { DIALOG_TOOLS, createDialogToolExecutors } from './dialog-tools';
 import type { BackgroundTaskRunner } from './background-task-runner';
-import type { Config, ToolResult } from './types';
+import type { Config, ToolResult, MediaBlock } from './types';
 import type { Database } from '../infra/database';
 import type { EventBus } from './event-bus';
 import type { LLMProvider } from './plugin-api-types';
@@ -11,7 +11,9 @@ import type { EnhancedChannel, RichChannelMessage } from './channel-types';
 import type { AgentRegistry } from './agent-registry';
 import type { AgentFactory } from './agent-factory';
 import type { ComplexityClassifier } from './complexity-classifier';
+import type { ModelRouter } from './model-router';
 import { SwarmCoordinator } from './swarm';
+import { UsageTracker, type UsageContext } from './usage-tracker';
 import { classifyError } from './error-classify';
 import { getLogger } from '../infra/logger';
 
@@ -26,6 +28,8 @@ const DIALOG_SYSTEM_PROMPT =
 interface QueueItem {
   text: string;
   message: RichChannelMessage;
+  /** Photos and documents shown to the model with the text */
+  media: MediaBlock[];
   resolve: () => void;
 }
 
@@ -33,11 +37,15 @@ export interface SwarmDeps {
   registry: AgentRegistry;
   agentFactory: AgentFactory;
   complexityClassifier: ComplexityClassifier;
+  /** Router built from the config at startup, shared with the classifier and agent factory */
+  router: ModelRouter;
 }
 
 export class ChatSession {
   private chatKey: string;
   private dialogLoop: AgenticLoop;
+  private db: Database;
+  private usage: UsageTracker;
   private taskRunner: BackgroundTaskRunner;
   private eventBus: EventBus;
   private config: Config;
@@ -67,26 +75,30 @@ export class ChatSession {
     this.chatKey = options.chatKey;
     this.chatId = options.chatId;
     this.channel = options.channel;
+    this.db = options.db;
     this.eventBus = options.eventBus;
     this.config = options.config;
     this.provider = options.provider;
     this.taskRunner = options.taskRunner;
     this.swarmDeps = options.swarmDeps ?? null;
 
+    this.usage = new UsageTracker({ db: options.db, config: options.config, eventBus: options.eventBus });
     this.dialogLoop = new AgenticLoop({
       db: options.db,
       eventBus: options.eventBus,
       config: options.config,
       provider: options.provider,
+      usage: this.usage,
     });
 
     this.toolExecutors = createDialogToolExecutors(this.taskRunner, this.chatKey);
     this.registerTaskCompletionHandler();
+    this.registerTaskProgressHandler();
   }
 
-  async handleMessage(text: string, message: RichChannelMessage): Promise<void> {
+  async handleMessage(text: string, message: RichChannelMessage, media: MediaBlock[] = []): Promise<void> {
     return new Promise<void>((resolve) => {
-      this.queue.push({ text, message, resolve });
+      this.queue.push({ text, message, media, resolve });
       if (!this.processing) {
         void this.processNext();
       }
@@ -105,6 +117,7 @@ export class ChatSession {
     if (this.dialogLoop.isRunning()) {
       this.dialogLoop.interrupt();
     }
+    this.dialogLoop.endSession();
     if (this.activeSwarm) {
       this.activeSwarm.stop();
       this.activeSwarm = null;
@@ -146,16 +159,18 @@ export class ChatSession {
   }
 
   private async processDialogMessage(item: QueueItem): Promise<void> {
-    // Check if swarm should handle this task
-    if (this.swarmDeps) {
-      const complexity = await this.swarmDeps.complexityClassifier.classify(item.text);
+    // Check if swarm should handle this task; swarm agents cannot see attachments
+    if (this.swarmDeps && item.media.length === 0) {
+      const usage: UsageContext = { tracker: this.usage, scope: { sessionId: this.ensureSession() } };
+      const complexity = await this.swarmDeps.complexityClassifier.classify(item.text, undefined, usage);
       if (complexity === 'complex') {
-        await this.handleWithSwarm(item);
+        await this.handleWithSwarm(item, usage);
         return;
       }
     }
 
-    const result = await this.dialogLoop.run(item.text, {
+    const content = item.media.length > 0 ? [{ type: 'text' as const, text: item.text }, ...item.media] : item.text;
+    const result = await this.dialogLoop.run(content, {
       sessionId: this.sessionId,
       systemPrompt: DIALOG_SYSTEM_PROMPT,
       tools: DIALOG_TOOLS,
@@ -173,7 +188,20 @@ export class ChatSession {
   // Private: Swarm Handling
   // -----------------------------------------------------------------------
 
-  private async handleWithSwarm(item: QueueItem): Promise<void> {
+  /** The dialog session, created before the first turn so classifier and swarm calls are recorded against it */
+  private ensureSession(): string {
+    this.sessionId ??= this.db.sessions.create({
+      createdAt: Date.now(),
+      lastActivity: Date.now(),
+      compactionCount: 0,
+      totalTokensUsed: 0,
+      queueMode: this.config.queueMode,
+      flags: {},
+    }).id;
+    return this.sessionId;
+  }
+
+  private async handleWithSwarm(item: QueueItem, usage: UsageContext): Promise<void> {
     if (!this.swarmDeps) return;
 
     const logger = getLogger();
@@ -188,6 +216,8 @@ export class ChatSession {
         provider: this.provider,
         registry: this.swarmDeps.registry,
         agentFactory: this.swarmDeps.agentFactory,
+        router: this.swarmDeps.router,
+        usage,
       });
 
       this.activeSwarm = swarm;
@@ -253,4 +283,21 @@ export class ChatSession {
     });
     this.unsubscribers.push(unsub);
   }
+
+  private registerTaskProgressHandler(): void {
+    const unsub = this.eventBus.on('bg-task:progress', async (payload) => {
+      if (payload.chatKey !== this.chatKey) return;
+      if (this.stopped || !payload.text.trim()) return;
+
+      try {
+        await this.channel.sendText(this.chatId, `Task ${payload.taskId.slice(0, 8)} progress:\n${payload.text}`);
+      } catch (err) {
+        getLogger().error('Failed to send task progress message', {
+          chatKey: this.chatKey,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    });
+    this.unsubscribers.push(unsub);
+  }
 }
@@ -4,7 +4,11 @@
  * Used to decide routing: direct answer, single agent, or swarm.
  */
 
+import { z } from 'zod';
 import type { LLMProvider } from './plugin-api-types';
+import type { ModelRouter } from './model-router';
+import { trackedProvider, type UsageContext } from './usage-tracker';
+import { requestStructured } from './structured-output';
 import { getLogger } from '../infra/logger';
 
 // ---------------------------------------------------------------------------
@@ -15,6 +19,8 @@ export type TaskComplexity = 'simple' | 'medium' | 'complex';
 
 export interface ClassifierDeps {
   provider: LLMProvider;
+  /** Resolves the classifier role; built from the config so role overrides apply */
+  router: ModelRouter;
 }
 
 // ---------------------------------------------------------------------------
@@ -22,7 +28,15 @@ export interface ClassifierDeps {
 // ---------------------------------------------------------------------------
 
 const VALID_COMPLEXITIES = ['simple', 'medium', 'complex'] as const;
-const HAIKU_MODEL = 'claude-haiku-3-5-20250514';
+const MAX_CLASSIFY_TOKENS = 100;
+const MAX_CLASSIFY_REPAIRS = 1;
+
+const ClassificationSchema = z.object({
+  complexity: z.preprocess(
+    value => typeof value === 'string' ? value.trim().toLowerCase() : value,
+    z.enum(VALID_COMPLEXITIES),
+  ),
+});
 
 const CLASSIFICATION_PROMPT = `You are a task complexity classifier. Classify the given task into exactly one category.
 
@@ -31,7 +45,21 @@ Classification criteria:
 - "medium": Multi-step but focused tasks, single-file changes, debugging, code review, research
 - "complex": Multi-file changes, architectural decisions, multi-concern tasks needing planning and execution, refactoring across modules
 
-Respond with ONLY one word: simple, medium, or complex`;
+Answer with the category in the "complexity" field.`;
+
+/** Quotes, emphasis and punctuation a model may wrap a bare answer in */
+const KEYWORD_WRAPPING = /^[\s"'`*_.,:;!?()[\]]+|[\s"'`*_.,:;!?()[\]]+$/g;
+
+/**
+ * A bare category in a plain-text answer, e.g. "Complex.", from providers
+ * without tool use. Anything more than the keyword itself is left to the
+ * repair round, since a sentence can name a category it rules out.
+ */
+function parseKeyword(text: string): { complexity: TaskComplexity } | undefined {
+  const normalized = text.toLowerCase().replace(KEYWORD_WRAPPING, '');
+  const complexity = VALID_COMPLEXITIES.find(c => normalized === c);
+  return complexity ? { complexity } : undefined;
+}
 
 // ---------------------------------------------------------------------------
 // ComplexityClassifier
@@ -44,7 +72,8 @@ export class ComplexityClassifier {
     this.deps = deps;
   }
 
-  async classify(task: string, context?: string): Promise<TaskComplexity> {
+  /** `usage` records the classifier call; without it the call goes unrecorded */
+  async classify(task: string, context?: string, usage?: UsageContext): Promise<TaskComplexity> {
     if (!task?.trim()) {
       return 'simple';
     }
@@ -54,14 +83,18 @@ export class ComplexityClassifier {
         ? `Task: ${task.trim()}\n\nContext: ${context.trim()}`
         : `Task: ${task.trim()}`;
 
-      const response = await this.deps.provider.compactionChat({
-        model: HAIKU_MODEL,
-        messages: [{ role: 'user', content: userMessage }],
+      const target = this.deps.router.resolveRole('classifier', this.deps.provider);
+      const { complexity } = await requestStructured(trackedProvider(target.provider, usage), {
+        model: target.model,
         systemPrompt: CLASSIFICATION_PROMPT,
-        maxTokens: 10,
+        prompt: userMessage,
+        schema: ClassificationSchema,
+        maxTokens: target.maxTokens ?? MAX_CLASSIFY_TOKENS,
+        maxRepairs: MAX_CLASSIFY_REPAIRS,
+        parseText: parseKeyword,
       });
 
-      return this.parseClassification(response);
+      return complexity;
     } catch (err) {
       getLogger().error('Complexity classification failed, defaulting to medium', {
         error: err instanceof Error ? err.message : String(err),
@@ -69,26 +102,4 @@ export class ComplexityClassifier {
       return 'medium';
     }
   }
-
-  private parseClassification(
-    response: { content: Array<{ type: string; text?: string }> },
-  ): TaskComplexity {
-    for (const block of response.content) {
-      if (block.type === 'text' && block.text) {
-        const normalized = block.text.trim().toLowerCase();
-        if (VALID_COMPLEXITIES.includes(normalized as TaskComplexity)) {
-          return normalized as TaskComplexity;
-        }
-        // Try to find a valid complexity anywhere in the response
-        for (const complexity of VALID_COMPLEXITIES) {
-          if (normalized.includes(complexity)) {
-            return complexity;
-          }
-        }
-      }
-    }
-
-    getLogger().warn('Could not parse complexity from LLM response, defaulting to medium');
-    return 'medium';
-  }
 }
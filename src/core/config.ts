@@ -6,9 +6,20 @@
 import { z } from 'zod';
 import { homedir } from 'os';
 import { join } from 'path';
-import { existsSync, readFileSync } from 'fs';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
 import { randomUUID } from 'crypto';
-import { ConfigSchema, type Config } from './types';
+import {
+  BudgetConfigSchema,
+  ConfigSchema,
+  FailoverConfigSchema,
+  ModelPricingSchema,
+  ModelRoutingSchema,
+  OpenAIProviderConfigSchema,
+  PermissionRulesSchema,
+  SandboxPolicySchema,
+  WebToolsPolicySchema,
+  type Config,
+} from './types';
 
 // ---------------------------------------------------------------------------
 // Settings File Schema (subset of full config)
@@ -29,6 +40,18 @@ const SettingsFileSchema = z.object({
   maxConcurrentTasks: z.number().min(1).max(20).optional(),
   workPollingIntervalMs: z.number().positive().optional(),
   workBudgetMaxTasksPerHour: z.number().positive().optional(),
+  promptCaching: z.boolean().optional(),
+  compactionStrategy: z.string().optional(),
+  compactionModel: z.string().optional(),
+  compactionKeepTurns: z.number().int().positive().optional(),
+  sandbox: SandboxPolicySchema.partial().optional(),
+  permissions: PermissionRulesSchema.partial().optional(),
+  web: WebToolsPolicySchema.partial().optional(),
+  openai: OpenAIProviderConfigSchema.partial().optional(),
+  models: ModelRoutingSchema.partial().optional(),
+  failover: FailoverConfigSchema.partial().optional(),
+  pricing: z.record(z.string(), ModelPricingSchema).optional(),
+  budgets: BudgetConfigSchema.partial().optional(),
 }).passthrough();
 
 export type SettingsFile = z.infer<typeof SettingsFileSchema>;
@@ -64,6 +87,9 @@ const DEFAULT_CONFIG: Omit<Config, 'agentId' | 'dataDir'> = {
   maxConcurrentTasks: 3,
   workPollingIntervalMs: 5000,
   workBudgetMaxTasksPerHour: 50,
+  promptCaching: true,
+  compactionStrategy: 'full-summary',
+  compactionKeepTurns: 4,
 };
 
 // ---------------------------------------------------------------------------
@@ -95,6 +121,42 @@ const getUserSettingsPath = () => join(homedir(), '.daemux', 'settings.json');
 const getProjectSettingsPath = (projectDir: string) => join(projectDir, '.daemux', 'settings.json');
 const getProjectLocalSettingsPath = (projectDir: string) => join(projectDir, '.daemux', 'settings.local.json');
 
+/**
+ * Layer settings over the config. Permission rule lists accumulate across
+ * files so a local "always allow" list does not drop project deny rules.
+ */
+function mergeSettings(config: Partial<Config>, settings: Partial<Config>): Partial<Config> {
+  const merged = { ...config, ...settings };
+  if (config.permissions && settings.permissions) {
+    merged.permissions = {
+      ...config.permissions,
+      ...settings.permissions,
+      allow: [...(config.permissions.allow ?? []), ...(settings.permissions.allow ?? [])],
+      ask: [...(config.permissions.ask ?? []), ...(settings.permissions.ask ?? [])],
+      deny: [...(config.permissions.deny ?? []), ...(settings.permissions.deny ?? [])],
+      approved: [...(config.permissions.approved ?? []), ...(settings.permissions.approved ?? [])],
+    };
+  }
+  return merged;
+}
+
+/**
+ * Read-modify-write the git-ignored project local settings file.
+ */
+export function updateProjectLocalSettings(
+  projectDir: string,
+  update: (settings: Record<string, unknown>) => void,
+): void {
+  const path = getProjectLocalSettingsPath(projectDir);
+  let settings: Record<string, unknown> = {};
+  if (existsSync(path)) {
+    settings = JSON.parse(readFileSync(path, 'utf-8')) as Record<string, unknown>;
+  }
+  update(settings);
+  mkdirSync(join(projectDir, '.daemux'), { recursive: true });
+  writeFileSync(path, JSON.stringify(settings, null, 2) + '\n');
+}
+
 // ---------------------------------------------------------------------------
 // Environment Variable Mapping
 // ---------------------------------------------------------------------------
@@ -123,6 +185,9 @@ const ENV_MAPPINGS: EnvMapping[] = [
   { envKey: 'AGENT_MAX_CONCURRENT_TASKS', configKey: 'maxConcurrentTasks', transform: (v: string) => parseInt(v, 10) },
   { envKey: 'AGENT_WORK_POLLING_INTERVAL_MS', configKey: 'workPollingIntervalMs', transform: (v: string) => parseInt(v, 10) },
   { envKey: 'AGENT_WORK_BUDGET_MAX_TASKS_PER_HOUR', configKey: 'workBudgetMaxTasksPerHour', transform: (v: string) => parseInt(v, 10) },
+  { envKey: 'AGENT_PROMPT_CACHING', configKey: 'promptCaching', transform: (v: string) => v === 'true' || v === '1' },
+  { envKey: 'AGENT_COMPACTION_STRATEGY', configKey: 'compactionStrategy', transform: (v) => v },
+  { envKey: 'AGENT_COMPACTION_MODEL', configKey: 'compactionModel', transform: (v) => v },
   { envKey: 'ANTHROPIC_LOG', configKey: 'debug', transform: (v: string) => v.toLowerCase() === 'debug' },
 ];
 
@@ -179,7 +244,7 @@ export class ConfigLoader {
       const userPath = getUserSettingsPath();
       const userSettings = loadJsonFile(userPath, SettingsFileSchema);
       if (userSettings) {
-        config = { ...config, ...this.mapSettingsToConfig(userSettings) };
+        config = mergeSettings(config, this.mapSettingsToConfig(userSettings));
       }
     }
 
@@ -188,14 +253,14 @@ export class ConfigLoader {
       const projectPath = getProjectSettingsPath(this.projectDir);
       const projectSettings = loadJsonFile(projectPath, SettingsFileSchema);
       if (projectSettings) {
-        config = { ...config, ...this.mapSettingsToConfig(projectSettings) };
+        config = mergeSettings(config, this.mapSettingsToConfig(projectSettings));
       }
 
       // Load project local settings (overrides project settings)
       const localPath = getProjectLocalSettingsPath(this.projectDir);
       const localSettings = loadJsonFile(localPath, SettingsFileSchema);
       if (localSettings) {
-        config = { ...config, ...this.mapSettingsToConfig(localSettings) };
+        config = mergeSettings(config, this.mapSettingsToConfig(localSettings));
       }
     }
 
@@ -260,7 +325,9 @@ export class ConfigLoader {
       'queueMode', 'collectWindowMs', 'hookTimeoutMs', 'turnTimeoutMs',
       'debug', 'mcpDebug', 'heartbeatIntervalMs', 'heartbeatEnabled',
       'maxConcurrentTasks', 'workPollingIntervalMs',
-      'workBudgetMaxTasksPerHour',
+      'workBudgetMaxTasksPerHour', 'promptCaching', 'compactionStrategy',
+      'compactionModel', 'compactionKeepTurns', 'sandbox', 'permissions', 'web',
+      'openai', 'models', 'failover', 'pricing', 'budgets',
     ];
 
     const config: Partial<Config> = {};
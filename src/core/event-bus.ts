@@ -20,7 +20,7 @@ export interface EventMap {
   'subagent:stream': {
     subagentId: string;
     chunk: string;
-    type: 'text_delta' | 'tool_use' | 'tool_result';
+    type: 'text_delta' | 'tool_use' | 'tool_progress' | 'tool_result';
   };
 
   // Task events
@@ -47,11 +47,27 @@ export interface EventMap {
   'shutdown': { reason?: string };
   'error': { error: Error; context?: string };
 
+  // Provider resilience events
+  'provider:retry': {
+    providerId: string; model: string; attempt: number; delayMs: number; kind: string; error: string;
+  };
+  'provider:failover': { from: string; to: string; model: string; reason: string };
+  'provider:circuit': { providerId: string; state: 'open' | 'half_open' | 'closed'; retryAt?: number };
+
+  // Spend events
+  'usage:budget': {
+    scope: 'session' | 'task' | 'agent' | 'daily'; level: 'soft' | 'hard';
+    spentUsd: number; limitUsd: number; sessionId?: string; agent?: string; taskId?: string;
+  };
+
   // Approval events
   'approval:request': { id: string; command: string };
   'approval:decision': { id: string; decision: string };
   'approval:timeout': { id: string };
 
+  // MCP events
+  'mcp:elicitation': { id: string; server: string; question: string };
+
   // Heartbeat events
   'heartbeat:started': { intervalMs: number };
   'heartbeat:stopped': Record<string, never>;
@@ -89,6 +105,7 @@ export interface EventMap {
   'metrics:agent': {
     agentName: string; tokensUsed: number; toolUses: number;
     duration: number; model: string; timestamp: number;
+    cacheReadTokens?: number; cacheWriteTokens?: number;
   };
   'metrics:swarm': {
     swarmId: string; totalTokens: number; totalToolUses: number;
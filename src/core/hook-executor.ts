@@ -41,8 +41,12 @@ export async function spawnAndCollect(
 
   try {
     const stdin = proc.stdin as import('bun').FileSink;
-    stdin.write(JSON.stringify(context));
-    stdin.end();
+    try {
+      stdin.write(JSON.stringify(context));
+      await stdin.end();
+    } catch {
+      // The hook exited without reading its input (EPIPE); its exit code still counts
+    }
 
     const stdoutPromise = new Response(proc.stdout as ReadableStream<Uint8Array>).text();
     const stderrPromise = new Response(proc.stderr as ReadableStream<Uint8Array>).text();
@@ -110,6 +114,7 @@ export function parseStdoutResult(
           ? obj.additionalContext
           : undefined,
         error: typeof obj.error === 'string' ? obj.error : undefined,
+        updatedInput: isPlainObject(obj.updatedInput) ? obj.updatedInput : undefined,
       };
     }
   } catch {
@@ -121,6 +126,10 @@ export function parseStdoutResult(
   return { allow: true };
 }
 
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
 export function buildWarnResult(message: string): HookResult {
   return { allow: true, error: message };
 }
@@ -150,6 +159,7 @@ export function isValidHooksFile<T = unknown>(
     if (typeof h.event !== 'string') return false;
     if (typeof h.command !== 'string') return false;
     if (h.timeout !== undefined && typeof h.timeout !== 'number') return false;
+    if (h.matcher !== undefined && typeof h.matcher !== 'string') return false;
   }
   return true;
 }
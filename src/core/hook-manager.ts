@@ -8,20 +8,29 @@
  *   1   - Show stderr to user (warning, not to Claude)
  *   2   - Block operation, show stderr to Claude (error)
  *   124 - Timeout, treated as exit 1
+ *
+ * preToolUse/postToolUse hooks receive toolName, toolInput and (post only)
+ * toolResult, and may set an optional `matcher` regex on the tool name.
+ * A matcher for `Bash` also matches BashBackground and BashInput.
+ * A preToolUse hook can rewrite the call by printing `{"updatedInput": ...}`.
  */
 
 import { existsSync, readFileSync } from 'fs';
-import { join } from 'path';
+import { dirname, join } from 'path';
 import type { Config } from './types';
 import type { EventBus } from './event-bus';
 import type { HookEvent, HookContext, HookResult } from './plugin-api-types';
 import type { Logger } from '../infra/logger';
 import { spawnAndCollect, isValidHooksFile } from './hook-executor';
+import { BASH_COMMAND_TOOLS } from './permissions';
+import { isHooksContentTrusted, projectHooksPath } from './hook-trust';
 
 interface HookEntry {
   event: HookEvent;
   command: string;
   timeout: number;
+  /** Tool name pattern for preToolUse/postToolUse; all tools when absent */
+  matcher?: RegExp;
 }
 
 interface HooksFileSchema {
@@ -29,11 +38,16 @@ interface HooksFileSchema {
     event: HookEvent;
     command: string;
     timeout?: number;
+    matcher?: string;
   }>;
 }
 
 const DEFAULT_RESULT: HookResult = { allow: true };
 
+function matchesTool(matcher: RegExp, toolName: string): boolean {
+  return matcher.test(toolName) || (BASH_COMMAND_TOOLS.has(toolName) && matcher.test('Bash'));
+}
+
 export class HookManager {
   private config: Config;
   private eventBus: EventBus;
@@ -61,27 +75,48 @@ export class HookManager {
       return;
     }
 
-    const parsed = this.parseHooksFile(filePath);
-    if (!parsed) return;
+    const raw = this.readHooksFile(filePath);
+    if (raw !== null) this.registerHooksFile(filePath, raw);
+  }
 
-    for (const entry of parsed.hooks) {
-      this.registerHook(entry.event, entry.command, entry.timeout);
-    }
+  /**
+   * Load a project's .daemux/hooks.json only if the user trusted its current
+   * contents (see hook-trust). Returns false when the file exists but was
+   * skipped as untrusted.
+   */
+  loadProjectHooks(projectDir: string): boolean {
+    const filePath = projectHooksPath(projectDir);
+    if (!existsSync(filePath)) return true;
 
-    this.log.info('Hooks loaded', {
-      dir: hooksDir,
-      count: parsed.hooks.length,
-    });
+    const raw = this.readHooksFile(filePath);
+    if (raw === null) return true;
+    if (!isHooksContentTrusted(this.config.dataDir, filePath, raw)) {
+      this.log.warn('Project hooks are not trusted, not loaded', { filePath });
+      return false;
+    }
+    this.registerHooksFile(filePath, raw);
+    return true;
   }
 
   /**
    * Register a hook programmatically (for plugins)
    */
-  registerHook(event: HookEvent, command: string, timeout?: number): void {
+  registerHook(event: HookEvent, command: string, timeout?: number, matcher?: string): void {
+    let pattern: RegExp | undefined;
+    if (matcher) {
+      try {
+        pattern = new RegExp(`^(?:${matcher})$`);
+      } catch {
+        this.log.warn('Invalid hook matcher, hook not registered', { event, command, matcher });
+        return;
+      }
+    }
+
     const entry: HookEntry = {
       event,
       command,
       timeout: timeout ?? this.config.hookTimeoutMs,
+      matcher: pattern,
     };
 
     const existing = this.hooks.get(event) ?? [];
@@ -103,29 +138,40 @@ export class HookManager {
   /**
    * Execute all hooks registered for a given event sequentially.
    * If any hook returns deny (exit 2), execution stops immediately.
+   * Each preToolUse hook sees the input as rewritten by the hooks before it.
    */
   async executeHooks(event: HookEvent, context: HookContext): Promise<HookResult[]> {
-    const entries = this.hooks.get(event);
-    if (!entries || entries.length === 0) {
+    const entries = (this.hooks.get(event) ?? []).filter(entry =>
+      !entry.matcher || (context.toolName !== undefined && matchesTool(entry.matcher, context.toolName)));
+    if (entries.length === 0) {
       return [];
     }
 
     const results: HookResult[] = [];
+    let current = context;
 
     for (const entry of entries) {
-      await this.emitHookEvent('hook:invoke', event, context);
-      const result = await this.executeHookEntry(entry, context);
-      await this.emitHookEvent('hook:result', event, context, result);
+      await this.emitHookEvent('hook:invoke', event, current);
+      const result = await this.executeHookEntry(entry, current);
+      await this.emitHookEvent('hook:result', event, current, result);
       results.push(result);
 
       if (!result.allow) {
         break;
       }
+      if (result.updatedInput && event === 'preToolUse') {
+        current = { ...current, toolInput: result.updatedInput };
+      }
     }
 
     return results;
   }
 
+  /** Check whether any hooks are registered for an event */
+  hasHooks(event: HookEvent): boolean {
+    return (this.hooks.get(event)?.length ?? 0) > 0;
+  }
+
   /**
    * Kill all running hook subprocesses
    */
@@ -142,9 +188,34 @@ export class HookManager {
     this.log.info('Hook manager shut down', { hookCount });
   }
 
-  private parseHooksFile(filePath: string): HooksFileSchema | null {
+  private readHooksFile(filePath: string): string | null {
+    try {
+      return readFileSync(filePath, 'utf-8');
+    } catch (err) {
+      this.log.error('Failed to read hooks.json', {
+        filePath,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return null;
+    }
+  }
+
+  private registerHooksFile(filePath: string, raw: string): void {
+    const parsed = this.parseHooksFile(filePath, raw);
+    if (!parsed) return;
+
+    for (const entry of parsed.hooks) {
+      this.registerHook(entry.event, entry.command, entry.timeout, entry.matcher);
+    }
+
+    this.log.info('Hooks loaded', {
+      dir: dirname(filePath),
+      count: parsed.hooks.length,
+    });
+  }
+
+  private parseHooksFile(filePath: string, raw: string): HooksFileSchema | null {
     try {
-      const raw = readFileSync(filePath, 'utf-8');
       const data = JSON.parse(raw) as unknown;
       if (!isValidHooksFile(data)) {
         this.log.warn('Invalid hooks.json format', { filePath });
@@ -226,3 +297,10 @@ export function getHookManager(): HookManager {
   }
   return globalHookManager;
 }
+
+/**
+ * Check if hook manager is initialized
+ */
+export function hasHookManager(): boolean {
+  return globalHookManager !== null;
+}
@@ -0,0 +1,46 @@
+/**
+ * Hook Trust
+ * A project's .daemux/hooks.json runs shell commands on every tool call, so
+ * a freshly cloned repository must not get to run them unasked. Project
+ * hooks load only after the user trusted the file's exact contents; the
+ * trusted files live in ~/.daemux/trusted-hooks.json as path -> SHA-256,
+ * and any edit to a file needs a new trust.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+
+const TRUST_FILE = 'trusted-hooks.json';
+
+export function projectHooksPath(projectDir: string): string {
+  return resolve(projectDir, '.daemux', 'hooks.json');
+}
+
+function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function readTrusted(dataDir: string): Record<string, string> {
+  const path = join(dataDir, TRUST_FILE);
+  if (!existsSync(path)) return {};
+  try {
+    const data = JSON.parse(readFileSync(path, 'utf-8')) as unknown;
+    return data && typeof data === 'object' && !Array.isArray(data) ? data as Record<string, string> : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Whether `content` is what the user trusted for the hooks file at `filePath` */
+export function isHooksContentTrusted(dataDir: string, filePath: string, content: string): boolean {
+  return readTrusted(dataDir)[resolve(filePath)] === hashContent(content);
+}
+
+/** Trust `content`, as shown to the user, for the hooks file at `filePath` */
+export function trustHooksContent(dataDir: string, filePath: string, content: string): void {
+  const trusted = readTrusted(dataDir);
+  trusted[resolve(filePath)] = hashContent(content);
+  mkdirSync(dataDir, { recursive: true });
+  writeFileSync(join(dataDir, TRUST_FILE), JSON.stringify(trusted, null, 2) + '\n', { mode: 0o600 });
+}
@@ -56,6 +56,10 @@ export type {
   LLMChatOptions,
   LLMChatChunk,
   LLMChatResponse,
+  LLMCacheBreakpoints,
+  LLMUsage,
+  LLMToolChoice,
+  TokenCounter,
   HookEvent,
   HookContext,
   HookResult,
@@ -64,8 +68,20 @@ export type {
   TranscriptionOptions,
   TranscriptionResult,
   ToolRegistration,
+  ExecutableToolRegistration,
+  WebSearchProviderRegistration,
+  WebSearchProvider,
+  WebSearchResult,
 } from './plugin-api-types';
 
+// Token Counting
+export {
+  approximateTokenCounter,
+  createTokenCounter,
+  estimateTokens,
+  estimateMessageTokens,
+} from './token-counter';
+
 // Provider Manager
 export {
   ProviderManager,
@@ -74,6 +90,65 @@ export {
   hasProviderManager,
 } from './provider-manager';
 
+// Model Routing
+export {
+  ModelRouter,
+  MODEL_ROLES,
+  BUILTIN_MODEL_ALIASES,
+  type ModelRole,
+  type ResolvedModel,
+  type ModelRoutingReport,
+} from './model-router';
+
+// Provider Resilience
+export {
+  ResilientProvider,
+  CircuitBreaker,
+  CircuitBreakerRegistry,
+  createResilientProvider,
+  resolveFailoverTargets,
+  classifyProviderError,
+  parseRetryAfter,
+  backoffDelay,
+  type ResilientProviderOptions,
+  type FailoverTarget,
+  type ClassifiedError,
+  type ProviderErrorKind,
+  type CircuitState,
+} from './resilient-provider';
+
+// Usage and Budgets
+export {
+  UsageTracker,
+  BUILTIN_PRICING,
+  findPricing,
+  estimateCost,
+  startOfDay,
+  type UsageScope,
+  type BudgetScope,
+  type BudgetBreach,
+  type BudgetStatus,
+} from './usage-tracker';
+
+// Structured Output
+export {
+  STRUCTURED_OUTPUT_TOOL,
+  StructuredOutputError,
+  toJSONSchema,
+  validateOutput,
+  requestStructured,
+  type JSONSchema,
+  type OutputSchema,
+  type OutputValidation,
+} from './structured-output';
+
+// Media Blocks
+export {
+  mediaTypeForPath,
+  toMediaBlock,
+  describeMedia,
+} from './media';
+
 // Plugin API Implementation
 export {
   createPluginAPI,
@@ -102,6 +177,7 @@ export type { SpawnSubagentOptions, LoopFactory, LoopRunConfig, LoopRunResult, S
 export {
   loadBuiltinAgents,
   parseFrontmatter,
+  parseSandboxFrontmatter,
 } from './agent-loader';
 
 // Task Manager
@@ -118,6 +194,7 @@ export {
   HookManager,
   createHookManager,
   getHookManager,
+  hasHookManager,
 } from './hook-manager';
 
 // Approval Manager
@@ -168,6 +245,15 @@ export {
   type SessionFileInfo,
 } from './session-persistence';
 
+// Session Checkpoints and Rewind
+export {
+  listCheckpoints,
+  rewindSession,
+  type SessionCheckpoint,
+  type RewindOptions,
+  type RewindResult,
+} from './session-rewind';
+
 // Agentic Loop
 export {
   AgenticLoop,
@@ -177,6 +263,16 @@ export {
   ToolExecutor,
   BUILTIN_TOOLS,
   registerToolExecutor,
+  registerCompactionStrategy,
+  getCompactionStrategy,
+  listCompactionStrategies,
+  resolveSandboxPolicy,
+  listBackgroundShells,
+  killSessionShells,
+  killAllShells,
+  registerWebSearchProvider,
+  clearWebCache,
+  type CompactionStrategy,
   type LoopConfig,
   type LoopResult,
   type StreamChunk,
@@ -184,6 +280,8 @@ export {
   type ToolResultBlock,
   type ToolCallRecord,
   type SessionContext,
+  type ToolContext,
+  type ResolvedSandboxPolicy,
 } from './loop';
 
 // Enhanced Channel Types
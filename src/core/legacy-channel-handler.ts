@@ -8,6 +8,7 @@ import type { AgenticLoop } from './loop';
 import type { EventBus } from './event-bus';
 import type { EnhancedChannel, RichChannelMessage } from './channel-types';
 import type { Logger } from '../infra/logger';
+import type { MediaBlock } from './types';
 import { classifyError } from './error-classify';
 
 // ---------------------------------------------------------------------------
@@ -18,6 +19,8 @@ export interface LegacyQueueItem {
   message: RichChannelMessage;
   channel: EnhancedChannel;
   text: string;
+  /** Photos and documents shown to the model with the text */
+  media?: MediaBlock[];
 }
 
 export type ChatIdResolver = (message: RichChannelMessage) => string;
@@ -92,12 +95,13 @@ export class LegacyChannelHandler {
   }
 
   private async processMessage(item: LegacyQueueItem): Promise<void> {
-    const { message, channel, text } = item;
+    const { message, channel, text, media = [] } = item;
     const chatId = this.resolveChatId(message);
     const sessionKey = `${channel.id}:${chatId}`;
     const existingSessionId = this.sessions.get(sessionKey);
 
-    const result = await this.loop.run(text, { sessionId: existingSessionId });
+    const content = media.length > 0 ? [{ type: 'text' as const, text }, ...media] : text;
+    const result = await this.loop.run(content, { sessionId: existingSessionId });
     this.sessions.set(sessionKey, result.sessionId);
 
     if (result.response?.trim()) {
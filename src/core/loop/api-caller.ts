@@ -1,59 +1,98 @@
 /**
  * API Caller - Handles LLM API streaming and response assembly
- * Includes exponential backoff retry for rate-limit errors.
+ * Includes prompt cache breakpoint placement. Retries and failover are left
+ * to ResilientProvider.
  */
 
-import type { ToolDefinition } from '../types';
-import type { LLMProvider, LLMChatOptions } from '../plugin-api-types';
+import type { ToolDefinition, ThinkingLevel } from '../types';
+import type { LLMProvider, LLMChatOptions, LLMCacheBreakpoints } from '../plugin-api-types';
 import type { Config } from '../types';
 import type { StreamChunk, ContentBlock, APIMessage } from './types';
 import type { EventBus } from '../event-bus';
+import { ModelRouter } from '../model-router';
+import { ResilientProvider } from '../resilient-provider';
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
+/** Output limit when the route sets none, lowered to what the model advertises */
 const DEFAULT_MAX_TOKENS = 40000;
-const BACKOFF_DELAYS = [2000, 4000, 8000, 16000, 30000];
-const MAX_RETRIES = 5;
+
+/** Trailing messages marked as cache breakpoints (previous turn + newest turn) */
+const CACHE_TAIL_MESSAGES = 2;
+
+/** Extended thinking token budget per session thinking level */
+const THINKING_BUDGETS: Record<Exclude<ThinkingLevel, 'off'>, number> = {
+  low: 4000,
+  medium: 12000,
+  high: 32000,
+};
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+export interface APIUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens: number;
+  cache_creation_input_tokens: number;
+}
+
 export interface APICallResult {
   content: ContentBlock[];
   stop_reason: 'end_turn' | 'tool_use' | 'max_tokens' | null;
-  usage: { input_tokens: number; output_tokens: number };
+  usage: APIUsage;
+  /** Provider id and model the request was routed to */
+  provider: string;
+  model: string;
 }
 
 export interface APICallerOptions {
   eventBus?: EventBus;
+  thinkingLevel?: ThinkingLevel;
 }
 
 // ---------------------------------------------------------------------------
-// Rate Limit Detection
+// Extended Thinking
 // ---------------------------------------------------------------------------
 
-function isRateLimitError(err: unknown): boolean {
-  if (!(err instanceof Error)) return false;
-  const msg = err.message.toLowerCase();
-  if (msg.includes('429') || msg.includes('rate limit') || msg.includes('overloaded')) return true;
-
-  const statusErr = err as Error & { status?: number; statusCode?: number };
-  if (statusErr.status === 429 || statusErr.statusCode === 429) return true;
-
-  return false;
+/** Map a session thinking level to a provider thinking budget (undefined = disabled) */
+export function resolveThinkingBudget(level: ThinkingLevel | undefined): number | undefined {
+  if (!level || level === 'off') return undefined;
+  return THINKING_BUDGETS[level];
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+// ---------------------------------------------------------------------------
+// Prompt Cache Breakpoints
+// ---------------------------------------------------------------------------
+
+/**
+ * Place cache breakpoints on the stable prefix (system prompt, tools) and
+ * on the rolling tail of the conversation, so each iteration reads the
+ * previous turn from cache and writes the newest one.
+ */
+export function buildCacheBreakpoints(
+  messageCount: number,
+  hasTools: boolean,
+): LLMCacheBreakpoints {
+  const messageIndices: number[] = [];
+  for (let i = Math.max(0, messageCount - CACHE_TAIL_MESSAGES); i < messageCount; i++) {
+    messageIndices.push(i);
+  }
+  return { system: true, tools: hasTools, messageIndices };
 }
 
 // ---------------------------------------------------------------------------
 // API Caller Function
 // ---------------------------------------------------------------------------
 
+function defaultMaxTokens(provider: LLMProvider, model: string): number {
+  const limit = provider.listModels().find(m => m.id === model)?.maxOutputTokens;
+  return limit ? Math.min(limit, DEFAULT_MAX_TOKENS) : DEFAULT_MAX_TOKENS;
+}
+
 export async function callLLMAPI(
   provider: LLMProvider,
   config: Config,
@@ -63,39 +102,12 @@ export async function callLLMAPI(
   onStream?: (chunk: StreamChunk) => void,
   options?: APICallerOptions
 ): Promise<APICallResult> {
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      return await executeCall(provider, config, systemPrompt, messages, tools, onStream);
-    } catch (err) {
-      if (isRateLimitError(err) && attempt < MAX_RETRIES) {
-        const delay = BACKOFF_DELAYS[attempt] ?? 30000;
-        if (options?.eventBus) {
-          void options.eventBus.emit('error', {
-            error: new Error(`Rate limit hit, retrying in ${delay}ms (attempt ${attempt + 1}/${MAX_RETRIES})`),
-            context: 'rate-limit-retry',
-          });
-        }
-        await sleep(delay);
-        continue;
-      }
-      throw err;
-    }
-  }
-
-  throw new Error('Rate limit retries exhausted');
-}
-
-async function executeCall(
-  provider: LLMProvider,
-  config: Config,
-  systemPrompt: string,
-  messages: APIMessage[],
-  tools: ToolDefinition[],
-  onStream?: (chunk: StreamChunk) => void
-): Promise<APICallResult> {
-  const model = config.model === 'default'
-    ? provider.getDefaultModel()
-    : config.model;
+  const route = new ModelRouter(config).resolveRole('main', provider);
+  const { model, maxTokens } = route;
+  // Providers not already wrapped (tests, provider-qualified routes) still retry transient errors
+  const target = route.provider instanceof ResilientProvider
+    ? route.provider
+    : new ResilientProvider({ primary: route.provider, policy: config.failover, eventBus: options?.eventBus });
 
   const chatOptions: LLMChatOptions = {
     model,
@@ -104,14 +116,26 @@ async function executeCall(
       content: m.content,
     })),
     tools,
-    maxTokens: DEFAULT_MAX_TOKENS,
+    maxTokens: maxTokens ?? defaultMaxTokens(route.provider, model),
     systemPrompt,
   };
 
+  if (config.promptCaching !== false) {
+    chatOptions.cacheBreakpoints = buildCacheBreakpoints(messages.length, tools.length > 0);
+  }
+
+  const thinkingBudget = resolveThinkingBudget(options?.thinkingLevel);
+  if (thinkingBudget) {
+    chatOptions.thinking = { budgetTokens: thinkingBudget };
+  }
+
   const contentBlocks: ContentBlock[] = [];
   let stopReason: 'end_turn' | 'tool_use' | 'max_tokens' | null = null;
-  let usage = { input_tokens: 0, output_tokens: 0 };
+  let usage: APIUsage = {
+    input_tokens: 0, output_tokens: 0, cache_read_input_tokens: 0, cache_creation_input_tokens: 0,
+  };
   let currentTextBlock: { type: 'text'; text: string } | null = null;
+  let currentThinkingBlock: { type: 'thinking'; thinking: string; signature: string } | null = null;
 
   const flushTextBlock = (): void => {
     if (currentTextBlock) {
@@ -120,8 +144,25 @@ async function executeCall(
     }
   };
 
-  for await (const chunk of provider.chat(chatOptions)) {
-    if (chunk.type === 'text' && chunk.content) {
+  for await (const chunk of target.chat(chatOptions)) {
+    if (chunk.type === 'thinking') {
+      flushTextBlock();
+      if (!currentThinkingBlock) {
+        currentThinkingBlock = { type: 'thinking', thinking: '', signature: '' };
+      }
+      if (chunk.content) {
+        currentThinkingBlock.thinking += chunk.content;
+        onStream?.({ type: 'thinking', content: chunk.content });
+      }
+      if (chunk.signature) {
+        currentThinkingBlock.signature = chunk.signature;
+        contentBlocks.push(currentThinkingBlock);
+        currentThinkingBlock = null;
+      }
+    } else if (chunk.type === 'redacted_thinking' && chunk.content) {
+      flushTextBlock();
+      contentBlocks.push({ type: 'redacted_thinking', data: chunk.content });
+    } else if (chunk.type === 'text' && chunk.content) {
       if (!currentTextBlock) {
         currentTextBlock = { type: 'text', text: '' };
       }
@@ -135,6 +176,7 @@ async function executeCall(
         name: chunk.toolName!,
         input: chunk.toolInput!,
       });
+      onStream?.({ type: 'tool_input', toolUseId: chunk.toolUseId!, input: JSON.stringify(chunk.toolInput ?? {}) });
     } else if (chunk.type === 'done') {
       flushTextBlock();
       stopReason = chunk.stopReason ?? null;
@@ -142,6 +184,8 @@ async function executeCall(
         usage = {
           input_tokens: chunk.usage.inputTokens,
           output_tokens: chunk.usage.outputTokens,
+          cache_read_input_tokens: chunk.usage.cacheReadTokens ?? 0,
+          cache_creation_input_tokens: chunk.usage.cacheWriteTokens ?? 0,
         };
       }
     }
@@ -151,5 +195,7 @@ async function executeCall(
     content: contentBlocks,
     stop_reason: stopReason,
     usage,
+    provider: route.provider.id,
+    model,
   };
 }
@@ -0,0 +1,200 @@
+/**
+ * Compaction Strategies
+ * Pluggable ways of shrinking a session's history once it nears the context
+ * limit. A strategy only computes the replacement history; archiving the
+ * original messages and persisting the result is handled by the caller.
+ */
+
+import type { Message } from '../types';
+import type { LLMProvider } from '../plugin-api-types';
+import { isMediaBlock, describeMedia } from '../media';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const COMPACTION_PROMPT = `Summarize the following conversation while preserving:
+1. Key facts and decisions made
+2. Current task state and progress
+3. Important user preferences or context
+4. Any errors or issues that need to be remembered
+
+Be concise but complete. This summary will replace the conversation history.`;
+
+export const DEFAULT_COMPACTION_STRATEGY = 'full-summary';
+
+/** Characters of an old tool result kept by the elide-tool-results strategy */
+const ELIDED_RESULT_CHARS = 300;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CompactionInput {
+  provider: LLMProvider;
+  /** Live (non-archived) messages of the session, oldest first */
+  messages: Message[];
+  /** Model used for any summarization call */
+  model: string;
+  /** Number of most recent turns to keep verbatim */
+  keepTurns: number;
+  /** Output token cap for summarization calls */
+  maxTokens?: number;
+}
+
+export type CompactedMessage = Pick<Message, 'role' | 'content' | 'tokenCount'>;
+
+export interface CompactionOutput {
+  /** Replacement history, oldest first */
+  messages: CompactedMessage[];
+  /** Summary text produced by the strategy ('' when none was generated) */
+  summary: string;
+}
+
+export interface CompactionStrategy {
+  name: string;
+  description: string;
+  compact(input: CompactionInput): Promise<CompactionOutput>;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Index of the first message of the last `turns` turns. A turn starts at a
+ * user message with plain text content (tool results continue a turn).
+ * Returns 0 when the history has no more than `turns` turns.
+ */
+export function findRecentTurnsStart(messages: Message[], turns: number): number {
+  let seen = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i]!;
+    if (msg.role === 'user' && typeof msg.content === 'string') {
+      seen++;
+      if (seen === turns) return i;
+    }
+  }
+  return 0;
+}
+
+/** Summarize messages with a single non-streaming LLM call */
+export async function summarizeMessages(
+  provider: LLMProvider,
+  model: string,
+  messages: Message[],
+  maxTokens = 2000,
+): Promise<string> {
+  const conversationText = messages
+    .map((m) => {
+      // Images and documents are described rather than sent as base64 text
+      const content = typeof m.content === 'string'
+        ? m.content
+        : JSON.stringify(m.content.map(b => isMediaBlock(b) ? { type: 'text', text: describeMedia(b) } : b));
+      return `${m.role.toUpperCase()}: ${content}`;
+    })
+    .join('\n\n');
+
+  const response = await provider.compactionChat({
+    model,
+    messages: [{ role: 'user', content: conversationText }],
+    maxTokens,
+    systemPrompt: COMPACTION_PROMPT,
+  });
+
+  const summaryBlock = response.content.find((b) => b.type === 'text');
+  return summaryBlock?.text ?? '';
+}
+
+function summaryMessage(summary: string): CompactedMessage {
+  return { role: 'user', content: `[Previous conversation summary]\n\n${summary}` };
+}
+
+function toCompacted(msg: Message): CompactedMessage {
+  return { role: msg.role, content: msg.content, tokenCount: msg.tokenCount };
+}
+
+function elideToolResults(msg: Message): CompactedMessage {
+  if (typeof msg.content === 'string') return toCompacted(msg);
+
+  let changed = false;
+  const content = msg.content.map((block) => {
+    if (isMediaBlock(block)) {
+      changed = true;
+      return { type: 'text' as const, text: `${describeMedia(block)} elided during compaction` };
+    }
+    if (block.type !== 'tool_result' || block.content.length <= ELIDED_RESULT_CHARS) return block;
+    changed = true;
+    const omitted = block.content.length - ELIDED_RESULT_CHARS;
+    return {
+      ...block,
+      content: `${block.content.slice(0, ELIDED_RESULT_CHARS)}\n[... ${omitted} characters elided during compaction]`,
+    };
+  });
+
+  return changed ? { role: msg.role, content } : toCompacted(msg);
+}
+
+// ---------------------------------------------------------------------------
+// Built-in Strategies
+// ---------------------------------------------------------------------------
+
+/** Replace the whole history with a single summary */
+export const fullSummaryStrategy: CompactionStrategy = {
+  name: 'full-summary',
+  description: 'Summarize the entire conversation into one message',
+  async compact({ provider, messages, model, maxTokens }) {
+    const summary = await summarizeMessages(provider, model, messages, maxTokens);
+    return { messages: [summaryMessage(summary)], summary };
+  },
+};
+
+/** Keep the last N turns verbatim and summarize everything before them */
+export const keepRecentStrategy: CompactionStrategy = {
+  name: 'keep-recent',
+  description: 'Keep the most recent turns and summarize the older part',
+  async compact({ provider, messages, model, keepTurns, maxTokens }) {
+    const start = findRecentTurnsStart(messages, keepTurns);
+    if (start === 0) {
+      return { messages: messages.map(toCompacted), summary: '' };
+    }
+
+    const summary = await summarizeMessages(provider, model, messages.slice(0, start), maxTokens);
+    const recent = messages.slice(start).map(toCompacted);
+    return { messages: [summaryMessage(summary), ...recent], summary };
+  },
+};
+
+/** Shorten tool results outside the recent turns without calling the LLM */
+export const elideToolResultsStrategy: CompactionStrategy = {
+  name: 'elide-tool-results',
+  description: 'Truncate old tool results, keeping recent turns intact',
+  async compact({ messages, keepTurns }) {
+    const start = findRecentTurnsStart(messages, keepTurns);
+    const older = messages.slice(0, start).map(elideToolResults);
+    const recent = messages.slice(start).map(toCompacted);
+    return { messages: [...older, ...recent], summary: '' };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Strategy Registry
+// ---------------------------------------------------------------------------
+
+const COMPACTION_STRATEGIES = new Map<string, CompactionStrategy>([
+  [fullSummaryStrategy.name, fullSummaryStrategy],
+  [keepRecentStrategy.name, keepRecentStrategy],
+  [elideToolResultsStrategy.name, elideToolResultsStrategy],
+]);
+
+export function registerCompactionStrategy(strategy: CompactionStrategy): void {
+  COMPACTION_STRATEGIES.set(strategy.name, strategy);
+}
+
+export function getCompactionStrategy(name: string): CompactionStrategy | undefined {
+  return COMPACTION_STRATEGIES.get(name);
+}
+
+export function listCompactionStrategies(): CompactionStrategy[] {
+  return [...COMPACTION_STRATEGIES.values()];
+}
@@ -1,70 +1,58 @@
 /**
  * Compaction Helpers
- * Module-level functions for conversation summarization and compaction stats.
+ * Module-level functions for applying compaction strategies and compaction stats.
  */
 
 import type { Message } from '../types';
 import type { Database } from '../../infra/database';
 import type { EventBus } from '../event-bus';
-import type { LLMProvider } from '../plugin-api-types';
+import type { CompactionStrategy } from './compaction-strategies';
+import type { ResolvedModel } from '../model-router';
 import { getLogger } from '../../infra/logger';
 
-// ---------------------------------------------------------------------------
-// Constants
-// ---------------------------------------------------------------------------
-
-const COMPACTION_PROMPT = `Summarize the following conversation while preserving:
-1. Key facts and decisions made
-2. Current task state and progress
-3. Important user preferences or context
-4. Any errors or issues that need to be remembered
-
-Be concise but complete. This summary will replace the conversation history.`;
-
-const COMPACTION_MODEL = 'claude-haiku-3-5-20250514';
-
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
 /**
- * Summarize a list of messages via the LLM provider and replace
- * the session's message history with the summary.
+ * Run a compaction strategy over the session's live messages, archive the
+ * originals and persist the strategy's replacement history as a new chain.
  */
-export async function summarizeAndReplace(
-  provider: LLMProvider,
+export async function compactWithStrategy(
+  strategy: CompactionStrategy,
+  target: ResolvedModel,
   db: Database,
   sessionId: string,
   messages: Message[],
+  options: { keepTurns: number },
   addMessage: (
     sessionId: string,
     role: Message['role'],
     content: Message['content'],
+    parentUuid?: string | null,
+    tokenCount?: number,
   ) => Message,
 ): Promise<string> {
-  const conversationText = messages
-    .map((m) => {
-      const content = typeof m.content === 'string'
-        ? m.content
-        : JSON.stringify(m.content);
-      return `${m.role.toUpperCase()}: ${content}`;
-    })
-    .join('\n\n');
-
-  const response = await provider.compactionChat({
-    model: COMPACTION_MODEL,
-    messages: [{ role: 'user', content: conversationText }],
-    maxTokens: 2000,
-    systemPrompt: COMPACTION_PROMPT,
+  const output = await strategy.compact({
+    provider: target.provider,
+    messages,
+    model: target.model,
+    keepTurns: options.keepTurns,
+    maxTokens: target.maxTokens,
   });
 
-  const summaryBlock = response.content.find((b) => b.type === 'text');
-  const summary = summaryBlock?.text ?? '';
+  db.messages.archive(sessionId, messages.map(m => m.uuid));
 
-  db.messages.deleteSession(sessionId);
-  addMessage(sessionId, 'system', `[Previous conversation summary]\n\n${summary}`);
+  let parentUuid: string | null = null;
+  for (const msg of output.messages) {
+    parentUuid = addMessage(sessionId, msg.role, msg.content, parentUuid, msg.tokenCount).uuid;
+  }
+
+  getLogger().debug('Compaction strategy applied', {
+    sessionId, strategy: strategy.name, archived: messages.length, kept: output.messages.length,
+  });
 
-  return summary;
+  return output.summary;
 }
 
 /**
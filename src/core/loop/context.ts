@@ -5,14 +5,38 @@
 
 import { existsSync, readFileSync } from 'fs';
 import { join } from 'path';
-import type { Message, Config } from '../types';
+import type { Message, Config, AgentDefinition, ToolDefinition } from '../types';
 import type { Database } from '../../infra/database';
 import type { EventBus } from '../event-bus';
-import type { LLMProvider } from '../plugin-api-types';
+import type { LLMProvider, TokenCounter } from '../plugin-api-types';
+import type { UsageTracker, UsageScope } from '../usage-tracker';
+import { createTokenCounter, estimateMessageTokens } from '../token-counter';
 import type { SessionContext, APIMessage, ContentBlock } from './types';
-import { summarizeAndReplace, updateCompactionStats, validateChain, updateActivity } from './compaction';
+import { compactWithStrategy, updateCompactionStats } from './compaction';
+import { ModelRouter } from '../model-router';
+import {
+  getCompactionStrategy,
+  fullSummaryStrategy,
+  DEFAULT_COMPACTION_STRATEGY,
+  type CompactionStrategy,
+} from './compaction-strategies';
 import { getLogger } from '../../infra/logger';
 
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_KEEP_TURNS = 4;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function filterThinking(blocks: ContentBlock[], keepThinking: boolean): ContentBlock[] {
+  if (keepThinking) return blocks;
+  return blocks.filter(b => b.type !== 'thinking' && b.type !== 'redacted_thinking');
+}
+
 // ---------------------------------------------------------------------------
 // Context Builder Class
 // ---------------------------------------------------------------------------
@@ -22,6 +46,8 @@ export class ContextBuilder {
   private eventBus: EventBus;
   private config: Config;
   private provider: LLMProvider;
+  private tokenCounter: TokenCounter;
+  private usage: UsageTracker | undefined;
   private agentContextCache: string | null | undefined = undefined;
 
   constructor(options: {
@@ -29,11 +55,19 @@ export class ContextBuilder {
     eventBus: EventBus;
     config: Config;
     provider: LLMProvider;
+    /** Records the summarization calls; they go unrecorded without it */
+    usage?: UsageTracker;
   }) {
     this.db = options.db;
     this.eventBus = options.eventBus;
     this.config = options.config;
     this.provider = options.provider;
+    this.tokenCounter = createTokenCounter(options.provider);
+    this.usage = options.usage;
+  }
+
+  getTokenCounter(): TokenCounter {
+    return this.tokenCounter;
   }
 
   /**
@@ -118,19 +152,38 @@ export class ContextBuilder {
   }
 
   /**
-   * Convert internal messages to API format
+   * Convert internal messages to API format.
+   * Thinking blocks are dropped unless extended thinking is enabled for the
+   * request, since providers reject them otherwise.
    */
-  toAPIMessages(messages: Message[]): APIMessage[] {
+  toAPIMessages(messages: Message[], options: { keepThinking?: boolean } = {}): APIMessage[] {
     return messages
       .filter(msg => msg.role !== 'system')
       .map(msg => ({
         role: msg.role as 'user' | 'assistant',
-        content: typeof msg.content === 'string' ? msg.content : msg.content as ContentBlock[],
+        content: typeof msg.content === 'string'
+          ? msg.content
+          : filterThinking(msg.content as ContentBlock[], options.keepThinking ?? false),
       }));
   }
 
   /**
-   * Add a message to the session
+   * Count the tokens a message will occupy in the context window
+   */
+  async countMessageTokens(role: Message['role'], content: Message['content']): Promise<number> {
+    return this.tokenCounter.countTokens([{ role, content }]);
+  }
+
+  /**
+   * Count the fixed per-request overhead: system prompt plus tool definitions
+   */
+  async countPromptTokens(systemPrompt: string, tools: ToolDefinition[]): Promise<number> {
+    return this.tokenCounter.countTokens([], tools, systemPrompt);
+  }
+
+  /**
+   * Add a message to the session. Without an explicit token count the
+   * local approximation is stored, so every message carries a count.
    */
   addMessage(
     sessionId: string,
@@ -144,7 +197,7 @@ export class ContextBuilder {
       role,
       content,
       createdAt: Date.now(),
-      tokenCount,
+      tokenCount: tokenCount ?? estimateMessageTokens(content),
     });
   }
 
@@ -165,11 +218,19 @@ export class ContextBuilder {
   }
 
   /**
-   * Compact the conversation history
+   * Compact the conversation history using the agent's or configured strategy.
+   * The replaced messages are archived, not deleted. When the strategy leaves
+   * the history at the limit, e.g. keep-recent with too few turns to summarize,
+   * the history is summarized in full instead. `reservedTokens` counts what
+   * every request carries besides the history (system prompt and tools).
+   * Summarization calls are recorded against `usageScope`.
    */
   async compact(
     sessionId: string,
-    systemPrompt: string
+    systemPrompt: string,
+    agent?: AgentDefinition,
+    reservedTokens = 0,
+    usageScope: UsageScope = { sessionId, agent: agent?.name },
   ): Promise<{ summary: string; beforeTokens: number; afterTokens: number }> {
     const beforeTokens = this.db.messages.getTokenCount(sessionId);
     const messages = this.db.messages.list(sessionId);
@@ -178,14 +239,42 @@ export class ContextBuilder {
       return { summary: '', beforeTokens, afterTokens: beforeTokens };
     }
 
-    const summary = await summarizeAndReplace(
-      this.provider, this.db, sessionId, messages, this.addMessage.bind(this),
+    const strategy = this.resolveStrategy(agent);
+    // The compaction model may live on another provider, e.g. a local "openai:..." model
+    const resolved = new ModelRouter(this.config).resolveRole('compaction', this.provider, agent?.compactionModel);
+    const target = this.usage
+      ? { ...resolved, provider: this.usage.track(resolved.provider, usageScope) }
+      : resolved;
+    const keepTurns = this.config.compactionKeepTurns ?? DEFAULT_KEEP_TURNS;
+
+    let summary = await compactWithStrategy(
+      strategy, target, this.db, sessionId, messages,
+      { keepTurns }, this.addMessage.bind(this),
     );
-    const afterTokens = this.db.messages.getTokenCount(sessionId);
+    let afterTokens = this.db.messages.getTokenCount(sessionId);
+
+    if (strategy !== fullSummaryStrategy && this.atLimit(reservedTokens + afterTokens)) {
+      getLogger().warn('Compaction strategy left the history at the limit, summarizing it in full', {
+        sessionId, strategy: strategy.name, afterTokens,
+      });
+      summary = await compactWithStrategy(
+        fullSummaryStrategy, target, this.db, sessionId, this.db.messages.list(sessionId),
+        { keepTurns }, this.addMessage.bind(this),
+      );
+      afterTokens = this.db.messages.getTokenCount(sessionId);
+    }
 
     await updateCompactionStats(this.db, this.eventBus, sessionId, beforeTokens, afterTokens);
 
     return { summary, beforeTokens, afterTokens };
   }
 
+  private resolveStrategy(agent?: AgentDefinition): CompactionStrategy {
+    const name = agent?.compactionStrategy ?? this.config.compactionStrategy ?? DEFAULT_COMPACTION_STRATEGY;
+    const strategy = getCompactionStrategy(name);
+    if (strategy) return strategy;
+
+    getLogger().warn('Unknown compaction strategy, using default', { strategy: name });
+    return getCompactionStrategy(DEFAULT_COMPACTION_STRATEGY)!;
+  }
 }
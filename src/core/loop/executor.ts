@@ -1,18 +1,23 @@
 /**
  * Tool Executor
  * Handles parallel tool execution with error handling,
- * tool whitelisting enforcement, and concurrency safety.
+ * tool whitelisting enforcement, permission rules, preToolUse/postToolUse
+ * hooks, and concurrency safety.
  *
  * Concurrency model:
  * - Safe tools (isConcurrencySafe: true) run in parallel
  * - Unsafe tools targeting DIFFERENT files run in parallel
- * - Unsafe tools targeting the SAME file run sequentially
+ * - Unsafe tools targeting the SAME file run sequentially; ApplyPatch
+ *   counts as targeting every file in its patch
  */
 
 import type { ToolResult, ToolDefinition } from '../types';
-import type { ToolUseBlock, ToolCallRecord } from './types';
+import type { ToolUseBlock, ToolCallRecord, ToolContext, ContentBlock } from './types';
 import type { EventBus } from '../event-bus';
-import { getToolExecutor, BUILTIN_TOOLS } from './tools';
+import type { PermissionEngine } from '../permissions';
+import type { HookManager } from '../hook-manager';
+import type { HookContext } from '../plugin-api-types';
+import { getToolExecutor, BUILTIN_TOOLS, patchFilePaths, resolvePath } from './tools';
 import { getLogger } from '../../infra/logger';
 
 // ---------------------------------------------------------------------------
@@ -23,13 +28,18 @@ import { getLogger } from '../../infra/logger';
 const FILE_PATH_FIELDS: Record<string, string> = {
   Write: 'path',
   Edit: 'file_path',
+  MultiEdit: 'file_path',
 };
 
-function extractFilePath(toolName: string, input: Record<string, unknown>): string | null {
+/** Files a call writes; ApplyPatch may touch several */
+function extractFilePaths(toolName: string, input: Record<string, unknown>): string[] {
+  if (toolName === 'ApplyPatch') {
+    return patchFilePaths(input.patch, typeof input.cwd === 'string' ? input.cwd : undefined);
+  }
   const field = FILE_PATH_FIELDS[toolName];
-  if (!field) return null;
+  if (!field) return [];
   const value = input[field];
-  return typeof value === 'string' ? value : null;
+  return typeof value === 'string' ? [resolvePath(value)] : [];
 }
 
 function isToolConcurrencySafe(name: string): boolean {
@@ -50,6 +60,12 @@ interface IndexedEntry {
   toolUse: ToolUseBlock;
 }
 
+/** Outcome of a call, with the input as rewritten by preToolUse hooks */
+interface ExecutedCall {
+  result: ToolResult;
+  input: Record<string, unknown>;
+}
+
 // ---------------------------------------------------------------------------
 // Tool Executor Class
 // ---------------------------------------------------------------------------
@@ -57,20 +73,34 @@ interface IndexedEntry {
 export class ToolExecutor {
   private eventBus: EventBus;
   private allowedTools: Set<string>;
+  private context: ToolContext | undefined;
+  private permissions: PermissionEngine | undefined;
+  private hooks: HookManager | undefined;
   private customExecutors = new Map<
     string,
-    (id: string, input: Record<string, unknown>) => Promise<ToolResult>
+    (id: string, input: Record<string, unknown>, context?: ToolContext) => Promise<ToolResult>
   >();
 
-  constructor(options: { eventBus: EventBus; allowedTools?: string[] }) {
+  constructor(options: {
+    eventBus: EventBus;
+    allowedTools?: string[];
+    context?: ToolContext;
+    /** Permission rules checked before every call; all allowed tools run when absent */
+    permissions?: PermissionEngine;
+    /** Runs preToolUse/postToolUse hooks around every call */
+    hooks?: HookManager;
+  }) {
     this.eventBus = options.eventBus;
     this.allowedTools = new Set(options.allowedTools ?? BUILTIN_TOOLS.map(t => t.name));
+    this.context = options.context;
+    this.permissions = options.permissions;
+    this.hooks = options.hooks;
   }
 
   /** Register a custom tool executor */
   registerExecutor(
     name: string,
-    executor: (id: string, input: Record<string, unknown>) => Promise<ToolResult>,
+    executor: (id: string, input: Record<string, unknown>, context?: ToolContext) => Promise<ToolResult>,
   ): void {
     this.customExecutors.set(name, executor);
   }
@@ -119,15 +149,19 @@ export class ToolExecutor {
     for (const entry of allowed) {
       if (isToolConcurrencySafe(entry.toolUse.name)) {
         safe.push(entry);
-      } else {
-        const filePath = extractFilePath(entry.toolUse.name, entry.toolUse.input) ?? '__unknown__';
-        const group = unsafeByFile.get(filePath);
-        if (group) {
-          group.push(entry);
-        } else {
-          unsafeByFile.set(filePath, [entry]);
-        }
+        continue;
       }
+
+      // A call touching several files joins (and merges) the groups of all of them
+      const paths = extractFilePaths(entry.toolUse.name, entry.toolUse.input);
+      const keys = paths.length > 0 ? paths : ['__unknown__'];
+      const groups = new Set(keys.map(key => unsafeByFile.get(key)).filter(g => g !== undefined));
+      const merged = [...Array.from(groups).flat(), entry].sort((a, b) => a.index - b.index);
+
+      for (const [key, group] of unsafeByFile) {
+        if (groups.has(group)) unsafeByFile.set(key, merged);
+      }
+      for (const key of keys) unsafeByFile.set(key, merged);
     }
 
     // Phase 3: Execute -- safe in parallel, same-file unsafe in sequence
@@ -137,7 +171,7 @@ export class ToolExecutor {
 
     const promises: Promise<void>[] = safe.map(entry => run(entry));
 
-    for (const group of unsafeByFile.values()) {
+    for (const group of new Set(unsafeByFile.values())) {
       promises.push((async () => {
         for (const entry of group) await run(entry);
       })());
@@ -157,7 +191,7 @@ export class ToolExecutor {
       toolUseId: toolUse.id,
     });
 
-    const result = await this.execute(toolUse);
+    const { result, input } = await this.executeCall(toolUse);
     const durationMs = Date.now() - startTime;
 
     await this.eventBus.emit('tool:result', {
@@ -168,27 +202,64 @@ export class ToolExecutor {
 
     return {
       name: toolUse.name,
-      input: toolUse.input,
+      input,
       result: result.content,
       isError: result.isError ?? false,
       durationMs,
+      ...(result.media?.length ? { media: result.media } : {}),
     };
   }
 
   /** Execute a single tool */
   async execute(toolUse: ToolUseBlock): Promise<ToolResult> {
-    const { id, name, input } = toolUse;
+    return (await this.executeCall(toolUse)).result;
+  }
+
+  /** Whitelist, preToolUse hooks, permissions, the call itself, then postToolUse hooks */
+  private async executeCall(toolUse: ToolUseBlock): Promise<ExecutedCall> {
+    const { id, name } = toolUse;
 
     if (!this.isAllowed(name)) {
       getLogger().warn(`Tool not allowed: ${name}`, { toolUseId: id });
-      return { toolUseId: id, content: `Error: Tool '${name}' is not allowed for this agent`, isError: true };
+      return {
+        result: { toolUseId: id, content: `Error: Tool '${name}' is not allowed for this agent`, isError: true },
+        input: toolUse.input,
+      };
+    }
+
+    const pre = await this.runPreToolUseHooks(toolUse);
+    if (pre.blocked !== undefined) {
+      getLogger().info(`Tool call blocked by preToolUse hook: ${name}`, { toolUseId: id });
+      return {
+        result: { toolUseId: id, content: `Error: Blocked by preToolUse hook: ${pre.blocked}`, isError: true },
+        input: pre.input,
+      };
+    }
+
+    const result = await this.invoke(id, name, pre.input);
+    const feedback = [...pre.additionalContext, ...await this.runPostToolUseHooks(toolUse, pre.input, result)];
+    if (feedback.length > 0) {
+      result.content = `${result.content}\n\n${feedback.join('\n')}`;
+    }
+    return { result, input: pre.input };
+  }
+
+  private async invoke(id: string, name: string, input: Record<string, unknown>): Promise<ToolResult> {
+    if (this.permissions) {
+      const permission = await this.permissions.check(name, input, {
+        sessionId: this.context?.sessionId, toolUseId: id,
+      });
+      if (!permission.allowed) {
+        getLogger().info(`Tool call refused by permission rules: ${name}`, { toolUseId: id });
+        return { toolUseId: id, content: `Error: ${permission.reason}`, isError: true };
+      }
     }
 
     const executor = this.customExecutors.get(name) ?? getToolExecutor(name);
 
     if (executor) {
       try {
-        return await executor(id, input);
+        return await executor(id, input, this.context);
       } catch (err) {
         const msg = errorMessage(err);
         getLogger().error(`Tool execution error: ${name}`, { toolUseId: id, error: msg });
@@ -200,19 +271,88 @@ export class ToolExecutor {
     return { toolUseId: id, content: `Error: Tool '${name}' not found`, isError: true };
   }
 
-  /** Convert tool results to content blocks, matched by position */
-  toContentBlocks(records: ToolCallRecord[], toolUses: ToolUseBlock[]): Array<{
-    type: 'tool_result';
-    tool_use_id: string;
-    content: string;
-    is_error?: boolean;
+  // ---------------------------------------------------------------------------
+  // Tool Hooks
+  // ---------------------------------------------------------------------------
+
+  private hookContext(event: 'preToolUse' | 'postToolUse', toolUse: ToolUseBlock): HookContext {
+    return {
+      event,
+      sessionId: this.context?.sessionId ?? '',
+      toolName: toolUse.name,
+      toolUseId: toolUse.id,
+      toolInput: toolUse.input,
+    };
+  }
+
+  /**
+   * Run preToolUse hooks. A deny (exit 2) blocks the call with the hook's
+   * stderr; the last `updatedInput` replaces the input.
+   */
+  private async runPreToolUseHooks(toolUse: ToolUseBlock): Promise<{
+    input: Record<string, unknown>;
+    blocked?: string;
+    additionalContext: string[];
   }> {
-    return toolUses.map((toolUse, i) => ({
+    let input = toolUse.input;
+    const additionalContext: string[] = [];
+    if (!this.hooks?.hasHooks('preToolUse')) return { input, additionalContext };
+
+    const results = await this.hooks.executeHooks('preToolUse', this.hookContext('preToolUse', toolUse));
+    for (const hookResult of results) {
+      if (!hookResult.allow) {
+        return { input, blocked: hookResult.error ?? 'Hook blocked operation', additionalContext };
+      }
+      if (hookResult.error) {
+        getLogger().warn(`preToolUse hook warning: ${hookResult.error}`, { toolUseId: toolUse.id });
+      }
+      if (hookResult.updatedInput) input = hookResult.updatedInput;
+      if (hookResult.additionalContext) additionalContext.push(hookResult.additionalContext);
+    }
+    return { input, additionalContext };
+  }
+
+  /**
+   * Run postToolUse hooks. The call has already happened, so a deny only
+   * returns the hook's stderr to the model alongside the result.
+   */
+  private async runPostToolUseHooks(
+    toolUse: ToolUseBlock,
+    input: Record<string, unknown>,
+    result: ToolResult,
+  ): Promise<string[]> {
+    if (!this.hooks?.hasHooks('postToolUse')) return [];
+
+    const results = await this.hooks.executeHooks('postToolUse', {
+      ...this.hookContext('postToolUse', toolUse),
+      toolInput: input,
+      toolResult: { content: result.content, isError: result.isError ?? false },
+    });
+
+    const feedback: string[] = [];
+    for (const hookResult of results) {
+      if (hookResult.additionalContext) feedback.push(hookResult.additionalContext);
+      if (!hookResult.allow) {
+        feedback.push(`postToolUse hook: ${hookResult.error ?? 'Hook reported a problem'}`);
+      } else if (hookResult.error) {
+        getLogger().warn(`postToolUse hook warning: ${hookResult.error}`, { toolUseId: toolUse.id });
+      }
+    }
+    return feedback;
+  }
+
+  /**
+   * Convert tool results to content blocks, matched by position. Images and
+   * documents follow all tool_result blocks, which must come first.
+   */
+  toContentBlocks(records: ToolCallRecord[], toolUses: ToolUseBlock[]): ContentBlock[] {
+    const results: ContentBlock[] = toolUses.map((toolUse, i) => ({
       type: 'tool_result' as const,
       tool_use_id: toolUse.id,
       content: records[i]?.result ?? 'Error: No result',
       is_error: records[i]?.isError,
     }));
+    return [...results, ...records.flatMap(r => r?.media ?? [])];
   }
 
   /** Get allowed tool names */
@@ -8,6 +8,9 @@ import type { Database } from '../../infra/database';
 import type { EventBus } from '../event-bus';
 import type { LLMProvider } from '../plugin-api-types';
 import type { SessionPersistence } from '../session-persistence';
+import type { PermissionEngine } from '../permissions';
+import type { HookManager } from '../hook-manager';
+import type { UsageTracker } from '../usage-tracker';
 import { AgenticLoop } from './index';
 
 /** @deprecated Use LLMCredentials from plugin-api-types instead */
@@ -24,6 +27,9 @@ export function createAgenticLoop(options: {
   config: Config;
   provider?: LLMProvider;
   persistence?: SessionPersistence;
+  permissions?: PermissionEngine;
+  hooks?: HookManager;
+  usage?: UsageTracker;
   /** @deprecated Use provider instead */
   apiKey?: string;
   /** @deprecated Use provider instead */
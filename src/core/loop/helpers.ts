@@ -49,12 +49,15 @@ export async function buildResult(
     loopConfig: LoopConfig;
     totalInputTokens: number;
     totalOutputTokens: number;
+    totalCacheReadTokens: number;
+    totalCacheWriteTokens: number;
     allToolCalls: ToolCallRecord[];
     stopReason: LoopResult['stopReason'];
     finalResponse: string;
     compacted: boolean;
     startTime: number;
     iterations: number;
+    structured: { accepted: boolean; output?: unknown; errors: string[] } | null;
   },
   db: Database,
   persistence: SessionPersistence | null,
@@ -76,13 +79,19 @@ export async function buildResult(
   getLogger().info('Loop completed', {
     sessionId: state.sessionId, iterations: state.iterations,
     stopReason: state.stopReason, inputTokens: state.totalInputTokens,
-    outputTokens: state.totalOutputTokens, toolCalls: state.allToolCalls.length, durationMs,
+    outputTokens: state.totalOutputTokens, cacheReadTokens: state.totalCacheReadTokens,
+    cacheWriteTokens: state.totalCacheWriteTokens, toolCalls: state.allToolCalls.length, durationMs,
   });
 
   return {
     response: state.finalResponse, sessionId: state.sessionId,
-    tokensUsed: { input: state.totalInputTokens, output: state.totalOutputTokens },
+    tokensUsed: {
+      input: state.totalInputTokens, output: state.totalOutputTokens,
+      cacheRead: state.totalCacheReadTokens, cacheWrite: state.totalCacheWriteTokens,
+    },
     toolCalls: state.allToolCalls, stopReason: state.stopReason, durationMs,
     compacted: state.compacted,
+    ...(state.structured?.accepted ? { output: state.structured.output } : {}),
+    ...(state.stopReason === 'invalid_output' ? { outputErrors: state.structured?.errors } : {}),
   };
 }
@@ -4,7 +4,7 @@
  */
 
 import { randomUUID } from 'crypto';
-import type { Config } from '../types';
+import type { Config, ThinkingLevel, ToolDefinition } from '../types';
 import type { Database } from '../../infra/database';
 import type { EventBus } from '../event-bus';
 import type { LLMProvider } from '../plugin-api-types';
@@ -14,19 +14,56 @@ import type {
   ToolUseBlock,
   ContentBlock,
   ToolCallRecord,
+  ToolContext,
+  ContextTokenCounts,
 } from './types';
 import { ContextBuilder } from './context';
 import { ToolExecutor } from './executor';
-import { BUILTIN_TOOLS } from './tools';
+import {
+  BUILTIN_TOOLS, toolOutputDir, fileSnapshotDir, resolveSandboxPolicy, killSessionShells, clearFileState, clearWebCache,
+} from './tools';
 import { callLLMAPI } from './api-caller';
 import { getLogger } from '../../infra/logger';
+import { UsageTracker, type UsageScope } from '../usage-tracker';
+import {
+  STRUCTURED_OUTPUT_TOOL,
+  STRUCTURED_OUTPUT_INSTRUCTIONS,
+  DEFAULT_OUTPUT_REPAIRS,
+  structuredOutputTool,
+  unwrapToolInput,
+  validateOutput,
+  parseJSONText,
+  repairPrompt,
+  type OutputSchema,
+} from '../structured-output';
 import type { SessionPersistence } from '../session-persistence';
+import { PermissionEngine } from '../permissions';
+import { listCheckpoints, rewindSession, type SessionCheckpoint, type RewindResult } from '../session-rewind';
+import { getHookManager, hasHookManager, type HookManager } from '../hook-manager';
 import { resolveProvider, defaultSystemPrompt, persistTurn, buildResult } from './helpers';
 
 // Re-export types and sub-modules
 export * from './types';
-export { BUILTIN_TOOLS, registerToolExecutor } from './tools';
+export {
+  BUILTIN_TOOLS,
+  registerToolExecutor,
+  resolveSandboxPolicy,
+  listBackgroundShells,
+  killSessionShells,
+  killAllShells,
+  registerWebSearchProvider,
+  clearWebCache,
+} from './tools';
 export { ContextBuilder } from './context';
+export {
+  registerCompactionStrategy,
+  getCompactionStrategy,
+  listCompactionStrategies,
+  type CompactionStrategy,
+  type CompactionInput,
+  type CompactionOutput,
+  type CompactedMessage,
+} from './compaction-strategies';
 export { ToolExecutor } from './executor';
 export { defaultSystemPrompt } from './helpers';
 export { createAgenticLoop, getAgenticLoop } from './factory';
@@ -35,19 +72,41 @@ export { createAgenticLoop, getAgenticLoop } from './factory';
 // Internal State for a Single Loop Execution
 // ---------------------------------------------------------------------------
 
+/** Answer collection for a run with an outputSchema */
+interface StructuredOutputState {
+  schema: OutputSchema;
+  repairsLeft: number;
+  accepted: boolean;
+  output?: unknown;
+  /** Validation errors of the latest rejected answer */
+  errors: string[];
+}
+
 interface LoopState {
   sessionId: string;
   systemPrompt: string;
+  /** Tokens taken by the system prompt and tool definitions on every request */
+  promptTokens: number;
   toolExecutor: ToolExecutor;
+  /** Context shared with the ToolExecutor; messageUuid follows the latest assistant message */
+  toolContext: ToolContext;
   loopConfig: LoopConfig;
+  /** Tools offered to the model, including StructuredOutput when an outputSchema is set */
+  tools: ToolDefinition[];
+  structured: StructuredOutputState | null;
+  /** What this run's LLM calls are billed to */
+  usageScope: UsageScope;
   allToolCalls: ToolCallRecord[];
   totalInputTokens: number;
   totalOutputTokens: number;
+  totalCacheReadTokens: number;
+  totalCacheWriteTokens: number;
   compacted: boolean;
   finalResponse: string;
   stopReason: LoopResult['stopReason'];
   iterations: number;
   startTime: number;
+  thinkingLevel: ThinkingLevel | undefined;
 }
 
 // ---------------------------------------------------------------------------
@@ -67,9 +126,14 @@ export class AgenticLoop {
   private provider: LLMProvider;
   private contextBuilder: ContextBuilder;
   private persistence: SessionPersistence | null;
+  private permissions: PermissionEngine;
+  private hooks: HookManager | undefined;
+  private usage: UsageTracker;
   private running = false;
   private interrupted = false;
   private currentSessionId: string | null = null;
+  /** The session of the latest run; unlike currentSessionId it outlives the run, for endSession() */
+  private lastSessionId: string | null = null;
 
   constructor(options: {
     db: Database;
@@ -77,6 +141,12 @@ export class AgenticLoop {
     config: Config;
     provider?: LLMProvider;
     persistence?: SessionPersistence;
+    /** Shared permission engine; defaults to one built from config.permissions without an approver */
+    permissions?: PermissionEngine;
+    /** Tool hooks; defaults to the global HookManager when one was created */
+    hooks?: HookManager;
+    /** Usage recording and budget checks; defaults to one built from config.pricing and config.budgets */
+    usage?: UsageTracker;
     /** @deprecated Use provider instead */
     apiKey?: string;
     /** @deprecated Use provider instead */
@@ -86,13 +156,21 @@ export class AgenticLoop {
     this.eventBus = options.eventBus;
     this.config = options.config;
     this.persistence = options.persistence ?? null;
+    this.permissions = options.permissions ?? new PermissionEngine({
+      rules: this.config.permissions, db: this.db, agentId: this.config.agentId,
+    });
+    this.hooks = options.hooks ?? (hasHookManager() ? getHookManager() : undefined);
+    this.usage = options.usage ?? new UsageTracker({
+      db: this.db, config: this.config, eventBus: this.eventBus,
+    });
     this.provider = resolveProvider(options.provider);
     this.contextBuilder = new ContextBuilder({
-      db: this.db, eventBus: this.eventBus, config: this.config, provider: this.provider,
+      db: this.db, eventBus: this.eventBus, config: this.config, provider: this.provider, usage: this.usage,
     });
   }
 
-  async run(message: string, loopConfig: LoopConfig = {}): Promise<LoopResult> {
+  /** Run one user turn; the message may carry image and document blocks next to its text */
+  async run<T = unknown>(message: string | ContentBlock[], loopConfig: LoopConfig<T> = {}): Promise<LoopResult<T>> {
     const state = await this.initializeRun(message, loopConfig);
 
     while (!this.interrupted) {
@@ -106,21 +184,60 @@ export class AgenticLoop {
     const result = await buildResult(state, this.db, this.persistence, running, currentSessionId);
     this.running = running.value;
     this.currentSessionId = currentSessionId.value;
-    return result;
+    return result as LoopResult<T>;
   }
 
-  async resume(
-    sessionId: string, message: string, loopConfig: LoopConfig = {},
-  ): Promise<LoopResult> {
+  async resume<T = unknown>(
+    sessionId: string, message: string | ContentBlock[], loopConfig: LoopConfig<T> = {},
+  ): Promise<LoopResult<T>> {
     return this.run(message, { ...loopConfig, sessionId });
   }
 
   getSession(): string | null { return this.currentSessionId; }
-  interrupt(): void { this.interrupted = true; }
+  getSessionThinkingLevel(): ThinkingLevel | undefined {
+    return this.currentSessionId ? this.db.sessions.get(this.currentSessionId)?.thinkingLevel : undefined;
+  }
+  interrupt(): void {
+    this.interrupted = true;
+    if (this.currentSessionId) killSessionShells(this.currentSessionId);
+  }
+
+  /**
+   * Release what the tools keep for the latest run's session: background
+   * shells, tracked file state and cached web responses. Call once no more
+   * turns will run in the session.
+   */
+  endSession(): void {
+    if (!this.lastSessionId) return;
+    killSessionShells(this.lastSessionId);
+    clearFileState(this.lastSessionId);
+    clearWebCache(this.lastSessionId);
+  }
+
+  /** Checkpoints of the current session that rewind() accepts */
+  getCheckpoints(): SessionCheckpoint[] {
+    if (!this.currentSessionId) return [];
+    return listCheckpoints(
+      this.db, this.currentSessionId, fileSnapshotDir(this.config.dataDir, this.currentSessionId),
+    );
+  }
+
+  /** Rewind the current session's messages and file changes to a checkpoint */
+  rewind(messageUuid: string, options: { dryRun?: boolean } = {}): RewindResult {
+    if (this.running) throw new Error('Cannot rewind while a turn is running');
+    if (!this.currentSessionId) throw new Error('No active session');
+    return rewindSession(this.db, {
+      sessionId: this.currentSessionId,
+      messageUuid,
+      snapshotDir: fileSnapshotDir(this.config.dataDir, this.currentSessionId),
+      dryRun: options.dryRun,
+    });
+  }
+
   isRunning(): boolean { return this.running; }
   getProvider(): LLMProvider { return this.provider; }
 
-  async getContextInfo(): Promise<{
+  async getContextInfo(tools: ToolDefinition[] = []): Promise<{
     sessionId: string | null;
     effectiveContextWindow: number;
     compactionThreshold: number;
@@ -128,6 +245,7 @@ export class AgenticLoop {
     agentContextText: string | null;
     messageTokens: number;
     messageCount: number;
+    tokenCounts: ContextTokenCounts;
   }> {
     const basePrompt = defaultSystemPrompt({});
     const systemPromptText = await this.contextBuilder.buildSystemPrompt(basePrompt);
@@ -146,6 +264,25 @@ export class AgenticLoop {
       agentContextText,
       messageTokens,
       messageCount,
+      tokenCounts: await this.countContextTokens(systemPromptText, agentContextText, tools),
+    };
+  }
+
+  private async countContextTokens(
+    systemPromptText: string, agentContextText: string | null, tools: ToolDefinition[],
+  ): Promise<ContextTokenCounts> {
+    const counter = this.contextBuilder.getTokenCounter();
+    const builtinNames = new Set(BUILTIN_TOOLS.map(t => t.name));
+    const builtinTools = tools.filter(t => builtinNames.has(t.name));
+    const mcpTools = tools.filter(t => !builtinNames.has(t.name));
+
+    const agentContext = agentContextText ? await counter.countTokens([], [], agentContextText) : 0;
+    const fullPrompt = await counter.countTokens([], [], systemPromptText);
+    return {
+      systemPrompt: Math.max(0, fullPrompt - agentContext),
+      agentContext,
+      builtinTools: builtinTools.length > 0 ? await counter.countTokens([], builtinTools) : 0,
+      mcpTools: mcpTools.length > 0 ? await counter.countTokens([], mcpTools) : 0,
     };
   }
 
@@ -153,15 +290,50 @@ export class AgenticLoop {
   // Private: Run Initialization
   // ---------------------------------------------------------------------------
 
-  private async initializeRun(message: string, loopConfig: LoopConfig): Promise<LoopState> {
+  private async initializeRun(message: string | ContentBlock[], loopConfig: LoopConfig): Promise<LoopState> {
     this.running = true;
     this.interrupted = false;
     const startTime = Date.now();
+    const structured: StructuredOutputState | null = loopConfig.outputSchema
+      ? {
+        schema: loopConfig.outputSchema,
+        repairsLeft: loopConfig.maxOutputRepairs ?? DEFAULT_OUTPUT_REPAIRS,
+        accepted: false,
+        errors: [],
+      }
+      : null;
     const basePrompt = loopConfig.systemPrompt ?? defaultSystemPrompt(loopConfig);
-    const systemPrompt = await this.contextBuilder.buildSystemPrompt(basePrompt);
-    const tools = loopConfig.tools ?? BUILTIN_TOOLS;
+    const systemPrompt = await this.contextBuilder.buildSystemPrompt(
+      structured ? `${basePrompt}\n\n${STRUCTURED_OUTPUT_INSTRUCTIONS}` : basePrompt,
+    );
+    const tools = structured
+      ? [...(loopConfig.tools ?? BUILTIN_TOOLS), structuredOutputTool(structured.schema)]
+      : loopConfig.tools ?? BUILTIN_TOOLS;
+
+    const context = await this.contextBuilder.build(
+      loopConfig.sessionId ?? randomUUID(), systemPrompt,
+    );
+    this.currentSessionId = context.sessionId;
+    this.lastSessionId = context.sessionId;
+
+    const { onStream } = loopConfig;
+    const toolContext: ToolContext = {
+      sessionId: context.sessionId,
+      spillDir: toolOutputDir(this.config.dataDir, context.sessionId),
+      snapshotDir: fileSnapshotDir(this.config.dataDir, context.sessionId),
+      sandbox: resolveSandboxPolicy(this.config.sandbox, loopConfig.agent?.sandbox),
+      web: this.config.web,
+      vision: this.provider.capabilities.vision,
+      onProgress: onStream
+        ? (toolUseId, output) => onStream({ type: 'tool_progress', toolUseId, content: output })
+        : undefined,
+    };
     const toolExecutor = new ToolExecutor({
-      eventBus: this.eventBus, allowedTools: tools.map(t => t.name),
+      eventBus: this.eventBus,
+      allowedTools: tools.map(t => t.name),
+      context: toolContext,
+      permissions: this.permissions,
+      hooks: this.hooks,
     });
 
     if (loopConfig.toolExecutors) {
@@ -169,25 +341,40 @@ export class AgenticLoop {
         toolExecutor.registerExecutor(name, executor);
       }
     }
+    const thinkingLevel = this.resolveThinkingLevel(context.sessionId, loopConfig.thinkingLevel);
 
-    const context = await this.contextBuilder.build(
-      loopConfig.sessionId ?? randomUUID(), systemPrompt,
-    );
-    this.currentSessionId = context.sessionId;
-
-    if (this.contextBuilder.needsCompaction(context.tokenCount)) {
-      await this.contextBuilder.compact(context.sessionId, systemPrompt);
+    const promptTokens = await this.contextBuilder.countPromptTokens(systemPrompt, tools);
+    const usageScope: UsageScope = {
+      sessionId: context.sessionId, agent: loopConfig.agent?.name,
+      taskId: loopConfig.taskId, swarmId: loopConfig.swarmId,
+    };
+    let lastMsg = context.messages[context.messages.length - 1];
+    if (this.contextBuilder.needsCompaction(promptTokens + context.tokenCount)) {
+      await this.contextBuilder.compact(context.sessionId, systemPrompt, loopConfig.agent, promptTokens, usageScope);
+      lastMsg = this.db.messages.list(context.sessionId).pop();
     }
-    const lastMsg = context.messages[context.messages.length - 1];
-    this.contextBuilder.addMessage(context.sessionId, 'user', message, lastMsg?.uuid ?? null);
+    const messageTokens = await this.contextBuilder.countMessageTokens('user', message);
+    this.contextBuilder.addMessage(
+      context.sessionId, 'user', message, lastMsg?.uuid ?? null, messageTokens,
+    );
 
     return {
-      sessionId: context.sessionId, systemPrompt, toolExecutor, loopConfig,
-      allToolCalls: [], totalInputTokens: 0, totalOutputTokens: 0,
+      sessionId: context.sessionId, systemPrompt, promptTokens, toolExecutor, toolContext, loopConfig,
+      tools, structured, usageScope, allToolCalls: [], totalInputTokens: 0, totalOutputTokens: 0,
+      totalCacheReadTokens: 0, totalCacheWriteTokens: 0,
       compacted: false, finalResponse: '', stopReason: 'end_turn', iterations: 0, startTime,
+      thinkingLevel,
     };
   }
 
+  /** Persist an explicit thinking level override, otherwise use the session's stored level */
+  private resolveThinkingLevel(sessionId: string, override?: ThinkingLevel): ThinkingLevel | undefined {
+    if (override) {
+      return this.db.sessions.update(sessionId, { thinkingLevel: override }).thinkingLevel;
+    }
+    return this.db.sessions.get(sessionId)?.thinkingLevel;
+  }
+
   // ---------------------------------------------------------------------------
   // Private: Single Iteration (calls API, handles tool use)
   // ---------------------------------------------------------------------------
@@ -198,30 +385,62 @@ export class AgenticLoop {
       state.stopReason = 'timeout';
       return true;
     }
+    const { exceeded } = this.usage.check(state.usageScope);
+    if (exceeded) {
+      getLogger().warn('Budget exceeded, stopping loop', { sessionId: state.sessionId, ...exceeded });
+      state.stopReason = 'budget_exceeded';
+      return true;
+    }
 
     const messages = this.db.messages.list(state.sessionId);
-    const currentTokens = this.db.messages.getTokenCount(state.sessionId);
+    const currentTokens = state.promptTokens + this.db.messages.getTokenCount(state.sessionId);
     if (this.contextBuilder.atLimit(currentTokens)) {
       getLogger().warn('Token limit reached, compacting', { sessionId: state.sessionId });
-      await this.contextBuilder.compact(state.sessionId, state.systemPrompt);
+      const { afterTokens } = await this.contextBuilder.compact(
+        state.sessionId, state.systemPrompt, state.loopConfig.agent, state.promptTokens, state.usageScope,
+      );
       state.compacted = true;
+      // Another pass would archive and re-insert the same history without reaching the model
+      if (this.contextBuilder.atLimit(state.promptTokens + afterTokens)) {
+        getLogger().error('Compaction could not bring the context under the limit', {
+          sessionId: state.sessionId, tokens: state.promptTokens + afterTokens,
+        });
+        state.finalResponse = `Context limit reached: ${state.promptTokens + afterTokens} tokens remain after compaction.`;
+        state.stopReason = 'context_overflow';
+        return true;
+      }
       return false;
     }
 
-    const tools = state.loopConfig.tools ?? BUILTIN_TOOLS;
-    const apiMessages = this.contextBuilder.toAPIMessages(messages);
+    const { tools } = state;
+    const thinkingEnabled = state.thinkingLevel !== undefined && state.thinkingLevel !== 'off';
+    const apiMessages = this.contextBuilder.toAPIMessages(messages, { keepThinking: thinkingEnabled });
     const response = await callLLMAPI(
       this.provider, this.config, state.systemPrompt, apiMessages, tools,
-      state.loopConfig.onStream, { eventBus: this.eventBus },
+      state.loopConfig.onStream, { eventBus: this.eventBus, thinkingLevel: state.thinkingLevel },
     );
     state.totalInputTokens += response.usage.input_tokens;
     state.totalOutputTokens += response.usage.output_tokens;
+    state.totalCacheReadTokens += response.usage.cache_read_input_tokens;
+    state.totalCacheWriteTokens += response.usage.cache_creation_input_tokens;
+    this.usage.record(state.usageScope, {
+      provider: response.provider,
+      model: response.model,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+        cacheReadTokens: response.usage.cache_read_input_tokens,
+        cacheWriteTokens: response.usage.cache_creation_input_tokens,
+      },
+    });
 
     const lastUserMsg = messages[messages.length - 1];
-    this.contextBuilder.addMessage(
+    const assistantMsg = this.contextBuilder.addMessage(
       state.sessionId, 'assistant', response.content,
       lastUserMsg?.uuid ?? null, response.usage.output_tokens,
     );
+    // File snapshots taken by this message's tool calls are recorded against it for rewind
+    state.toolContext.messageUuid = assistantMsg.uuid;
 
     const textBlocks = response.content.filter(
       (b): b is { type: 'text'; text: string } => b.type === 'text',
@@ -231,11 +450,68 @@ export class AgenticLoop {
 
     if (response.stop_reason !== 'tool_use' || toolUses.length === 0) {
       state.stopReason = response.stop_reason === 'max_tokens' ? 'max_tokens' : 'end_turn';
-      return true;
+      return state.structured ? await this.finishWithTextAnswer(state, state.structured, assistantMsg.uuid) : true;
     }
 
     await this.executeToolsAndStream(state, toolUses);
     state.stopReason = 'tool_use';
+    const { structured } = state;
+    if (structured?.accepted) {
+      state.stopReason = 'end_turn';
+      return true;
+    }
+    if (structured && structured.repairsLeft < 0) {
+      state.stopReason = 'invalid_output';
+      return true;
+    }
+    return false;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private: Structured Output
+  // ---------------------------------------------------------------------------
+
+  /** Validate a StructuredOutput call; a rejected answer uses up one repair */
+  private acceptStructuredOutput(structured: StructuredOutputState, toolUse: ToolUseBlock): ToolCallRecord {
+    const result = validateOutput(unwrapToolInput(structured.schema, toolUse.input), structured.schema);
+    if (result.ok) {
+      structured.accepted = true;
+      structured.output = result.value;
+      return { name: toolUse.name, input: toolUse.input, result: 'Answer accepted.', isError: false, durationMs: 0 };
+    }
+    structured.errors = result.errors;
+    structured.repairsLeft--;
+    return {
+      name: toolUse.name, input: toolUse.input, result: repairPrompt(result.errors), isError: true, durationMs: 0,
+    };
+  }
+
+  /**
+   * The model ended its turn without calling StructuredOutput. Accept a
+   * valid JSON answer in the text, otherwise ask again while repairs last.
+   * Returns whether the run is over.
+   */
+  private async finishWithTextAnswer(
+    state: LoopState, structured: StructuredOutputState, parentUuid: string,
+  ): Promise<boolean> {
+    const answer = parseJSONText(state.finalResponse);
+    const result = answer === undefined
+      ? { ok: false as const, errors: [`no answer was given through the ${STRUCTURED_OUTPUT_TOOL} tool`] }
+      : validateOutput(answer, structured.schema);
+    if (result.ok) {
+      structured.accepted = true;
+      structured.output = result.value;
+      return true;
+    }
+
+    structured.errors = result.errors;
+    if (--structured.repairsLeft < 0) {
+      state.stopReason = 'invalid_output';
+      return true;
+    }
+    const prompt = repairPrompt(result.errors);
+    const tokens = await this.contextBuilder.countMessageTokens('user', prompt);
+    this.contextBuilder.addMessage(state.sessionId, 'user', prompt, parentUuid, tokens);
     return false;
   }
 
@@ -246,7 +522,7 @@ export class AgenticLoop {
       }
     }
 
-    const toolResults = await state.toolExecutor.executeAll(toolUses);
+    const toolResults = await this.runTools(state, toolUses);
     state.allToolCalls.push(...toolResults);
 
     if (state.loopConfig.onStream) {
@@ -261,9 +537,22 @@ export class AgenticLoop {
 
     const blocks = state.toolExecutor.toContentBlocks(toolResults, toolUses);
     const aMsg = this.db.messages.list(state.sessionId).pop();
+    const resultTokens = await this.contextBuilder.countMessageTokens('user', blocks);
     this.contextBuilder.addMessage(
-      state.sessionId, 'user', blocks as unknown as ContentBlock[], aMsg?.uuid ?? null,
+      state.sessionId, 'user', blocks, aMsg?.uuid ?? null, resultTokens,
     );
     await persistTurn(this.persistence, this.db, state.sessionId);
   }
+
+  /** StructuredOutput calls are answered by the loop itself, outside tool permissions and hooks */
+  private async runTools(state: LoopState, toolUses: ToolUseBlock[]): Promise<ToolCallRecord[]> {
+    const { structured } = state;
+    if (!structured) return state.toolExecutor.executeAll(toolUses);
+
+    const others = toolUses.filter(tu => tu.name !== STRUCTURED_OUTPUT_TOOL);
+    const results = await state.toolExecutor.executeAll(others);
+    return toolUses.map(tu => tu.name === STRUCTURED_OUTPUT_TOOL
+      ? this.acceptStructuredOutput(structured, tu)
+      : results[others.indexOf(tu)]!);
+  }
 }
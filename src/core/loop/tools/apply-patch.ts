@@ -0,0 +1,399 @@
+/**
+ * ApplyPatch Tool
+ * Applies a unified diff that may touch several files. Every hunk is
+ * matched in memory first; if any hunk fails, nothing is written and each
+ * failing hunk is reported. Writes are rolled back if one of them fails.
+ * Like Write and Edit, it refuses to touch existing files the session has
+ * not read or that changed since, and never renames onto an existing file.
+ */
+
+import { dirname, resolve } from 'path';
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import type { ToolDefinition, ToolResult } from '../../types';
+import type { ToolContext } from '../types';
+import { result, resolvePath } from './helpers';
+import { checkPathAccess, sandboxViolationResult } from './sandbox';
+import { checkFileFreshness, recordFileState } from './file-state';
+import { saveFileSnapshot } from './file-snapshots';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PatchHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Hunk body lines, each starting with ' ', '-' or '+' */
+  lines: string[];
+  /** "\ No newline at end of file" followed the last old/new line */
+  oldNoNewline: boolean;
+  newNoNewline: boolean;
+}
+
+export interface FilePatch {
+  /** Path before the change, or null when the file is created */
+  oldPath: string | null;
+  /** Path after the change, or null when the file is deleted */
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+export const applyPatchTool: ToolDefinition = {
+  name: 'ApplyPatch',
+  description: 'Apply a unified diff (as produced by `git diff` or `diff -u`) to one or more files. ' +
+    'Supports creating, deleting and renaming files. Either the whole patch applies or no file is changed.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      patch: {
+        type: 'string',
+        description: 'The unified diff to apply',
+      },
+      cwd: {
+        type: 'string',
+        description: 'Directory that paths in the patch are relative to (defaults to current working directory)',
+      },
+    },
+    required: ['patch'],
+  },
+  isConcurrencySafe: false,
+};
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+const NO_NEWLINE_MARKER = '\\';
+
+/** Strip a trailing timestamp from a ---/+++ header; /dev/null means "no file" */
+function headerPath(raw: string): string | null {
+  const path = raw.split('\t')[0]!.trim();
+  return path === '/dev/null' ? null : path;
+}
+
+/** Drop git's a/ and b/ prefixes when both sides use them */
+function stripGitPrefixes(patch: FilePatch): FilePatch {
+  const hasPrefix = (path: string | null, prefix: string) => path === null || path.startsWith(prefix);
+  if (!hasPrefix(patch.oldPath, 'a/') || !hasPrefix(patch.newPath, 'b/')) return patch;
+  return {
+    ...patch,
+    oldPath: patch.oldPath?.slice(2) ?? null,
+    newPath: patch.newPath?.slice(2) ?? null,
+  };
+}
+
+function parseHunk(lines: string[], start: number): { hunk: PatchHunk; next: number } {
+  const header = lines[start]!;
+  const match = header.match(HUNK_HEADER);
+  if (!match) throw new Error(`line ${start + 1}: invalid hunk header: ${header}`);
+
+  const hunk: PatchHunk = {
+    header: match[0],
+    oldStart: Number(match[1]),
+    oldLines: match[2] === undefined ? 1 : Number(match[2]),
+    newStart: Number(match[3]),
+    newLines: match[4] === undefined ? 1 : Number(match[4]),
+    lines: [],
+    oldNoNewline: false,
+    newNoNewline: false,
+  };
+
+  let oldRemaining = hunk.oldLines;
+  let newRemaining = hunk.newLines;
+  let i = start + 1;
+
+  while (oldRemaining > 0 || newRemaining > 0) {
+    // The last element is what follows the patch's final newline, not a line
+    if (i >= lines.length - 1 && !lines[i]) {
+      throw new Error(`${hunk.header}: patch ended before the hunk was complete`);
+    }
+    // Some editors strip the single space from empty context lines
+    const line = lines[i] === '' ? ' ' : lines[i]!;
+    const kind = line[0];
+
+    if (kind === ' ' && oldRemaining > 0 && newRemaining > 0) {
+      oldRemaining--;
+      newRemaining--;
+    } else if (kind === '-' && oldRemaining > 0) {
+      oldRemaining--;
+    } else if (kind === '+' && newRemaining > 0) {
+      newRemaining--;
+    } else if (kind === NO_NEWLINE_MARKER) {
+      markNoNewline(hunk);
+      i++;
+      continue;
+    } else {
+      throw new Error(`line ${i + 1}: unexpected line in ${hunk.header} (line counts do not match): ${lines[i]}`);
+    }
+    hunk.lines.push(line);
+    i++;
+  }
+
+  if (lines[i]?.startsWith(NO_NEWLINE_MARKER)) {
+    markNoNewline(hunk);
+    i++;
+  }
+  return { hunk, next: i };
+}
+
+/** The marker applies to the line before it: old side, new side, or both for context */
+function markNoNewline(hunk: PatchHunk): void {
+  const last = hunk.lines[hunk.lines.length - 1]?.[0];
+  if (last === '-' || last === ' ') hunk.oldNoNewline = true;
+  if (last === '+' || last === ' ') hunk.newNoNewline = true;
+}
+
+/** Parse a unified diff into per-file patches; throws on malformed input */
+export function parsePatch(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const patches: FilePatch[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+    if (!line.startsWith('--- ') || !lines[i + 1]?.startsWith('+++ ')) {
+      // diff --git, index, mode and other extended headers carry nothing we need
+      i++;
+      continue;
+    }
+
+    const patch: FilePatch = {
+      oldPath: headerPath(line.slice(4)),
+      newPath: headerPath(lines[i + 1]!.slice(4)),
+      hunks: [],
+    };
+    if (patch.oldPath === null && patch.newPath === null) {
+      throw new Error(`line ${i + 1}: both sides of the file header are /dev/null`);
+    }
+    i += 2;
+
+    while (lines[i]?.startsWith('@@')) {
+      const { hunk, next } = parseHunk(lines, i);
+      patch.hunks.push(hunk);
+      i = next;
+    }
+    if (patch.hunks.length === 0) {
+      throw new Error(`line ${i + 1}: no hunks for ${patch.newPath ?? patch.oldPath}`);
+    }
+    patches.push(stripGitPrefixes(patch));
+  }
+
+  if (patches.length === 0) {
+    throw new Error('no file changes found (expected ---/+++ headers followed by @@ hunks)');
+  }
+  return patches;
+}
+
+/** Absolute paths a patch reads or writes; empty when it does not parse */
+export function patchFilePaths(patch: unknown, cwd?: string): string[] {
+  if (typeof patch !== 'string') return [];
+  try {
+    const base = cwd ? resolvePath(cwd) : process.cwd();
+    const paths = parsePatch(patch).flatMap(p => [p.oldPath, p.newPath]);
+    return [...new Set(paths.filter((p): p is string => p !== null).map(p => resolve(base, p)))];
+  } catch {
+    return [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Applying Hunks
+// ---------------------------------------------------------------------------
+
+function findBlock(lines: string[], block: string[], from: number, expected: number): number {
+  let best = -1;
+  for (let start = from; start <= lines.length - block.length; start++) {
+    if (block.every((line, j) => lines[start + j] === line)) {
+      if (best === -1 || Math.abs(start - expected) < Math.abs(best - expected)) best = start;
+      if (start >= expected) break;
+    }
+  }
+  return best;
+}
+
+/** Apply hunks to file content (null for a new file); reports every hunk that does not match */
+export function applyHunks(
+  content: string | null,
+  hunks: PatchHunk[],
+): { content: string; added: number; removed: number } | { failures: string[] } {
+  const lines = content ? content.split('\n') : [];
+  let endsWithNewline = content === null || content === '' || content.endsWith('\n');
+  if (content && endsWithNewline) lines.pop();
+
+  const failures: string[] = [];
+  let offset = 0;
+  let minIndex = 0;
+  let added = 0;
+  let removed = 0;
+
+  for (const [i, hunk] of hunks.entries()) {
+    const oldBlock = hunk.lines.filter(l => l[0] !== '+').map(l => l.slice(1));
+    const newBlock = hunk.lines.filter(l => l[0] !== '-').map(l => l.slice(1));
+    // A zero-length old range (-N,0) inserts after line N rather than at it
+    const origin = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const expected = Math.max(minIndex, Math.min(origin + offset, lines.length));
+
+    const index = oldBlock.length === 0 ? expected : findBlock(lines, oldBlock, minIndex, expected);
+    if (index === -1) {
+      const firstLine = oldBlock[0]?.trim() ?? '';
+      failures.push(`hunk ${i + 1} (${hunk.header}) does not match the file` +
+        (firstLine ? `; expected text starting with: ${firstLine.slice(0, 80)}` : ''));
+      continue;
+    }
+
+    lines.splice(index, oldBlock.length, ...newBlock);
+    offset = index + newBlock.length - (origin + oldBlock.length);
+    minIndex = index + newBlock.length;
+    added += hunk.lines.filter(l => l[0] === '+').length;
+    removed += hunk.lines.filter(l => l[0] === '-').length;
+
+    if (minIndex === lines.length) {
+      if (hunk.newNoNewline) endsWithNewline = false;
+      else if (hunk.oldNoNewline) endsWithNewline = true;
+    }
+  }
+
+  if (failures.length > 0) return { failures };
+  const text = lines.join('\n');
+  return { content: endsWithNewline && lines.length > 0 ? `${text}\n` : text, added, removed };
+}
+
+// ---------------------------------------------------------------------------
+// Executor
+// ---------------------------------------------------------------------------
+
+interface StagedChange {
+  path: string;
+  /** New content, or null to delete the file */
+  content: string | null;
+  summary: string;
+}
+
+/** Write staged changes, restoring earlier files if a later write fails */
+function commitChanges(changes: Map<string, StagedChange>): void {
+  const originals: Array<{ path: string; content: string | null }> = [];
+  try {
+    for (const change of changes.values()) {
+      originals.push({ path: change.path, content: existsSync(change.path) ? readFileSync(change.path, 'utf-8') : null });
+      if (change.content === null) {
+        if (existsSync(change.path)) unlinkSync(change.path);
+      } else {
+        mkdirSync(dirname(change.path), { recursive: true });
+        writeFileSync(change.path, change.content, 'utf-8');
+      }
+    }
+  } catch (err) {
+    for (const original of originals.reverse()) {
+      try {
+        if (original.content === null) {
+          if (existsSync(original.path)) unlinkSync(original.path);
+        } else {
+          writeFileSync(original.path, original.content, 'utf-8');
+        }
+      } catch {
+        // Best effort; the original error is what gets reported
+      }
+    }
+    throw err;
+  }
+}
+
+export async function executeApplyPatch(
+  toolUseId: string,
+  input: Record<string, unknown>,
+  context?: ToolContext,
+): Promise<ToolResult> {
+  const patchText = input.patch as string;
+  const cwd = input.cwd as string | undefined;
+
+  if (!patchText) {
+    return result(toolUseId, 'Error: patch is required', true);
+  }
+
+  let patches: FilePatch[];
+  try {
+    patches = parsePatch(patchText);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return result(toolUseId, `Error: Invalid patch: ${msg}`, true);
+  }
+
+  const base = cwd ? resolvePath(cwd) : process.cwd();
+  const staged = new Map<string, StagedChange>();
+  const failures: string[] = [];
+
+  /** Current content of a path, including changes staged earlier in this patch */
+  const currentContent = (path: string): string | null => {
+    const change = staged.get(path);
+    if (change) return change.content;
+    return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+  };
+
+  try {
+    for (const patch of patches) {
+      const oldPath = patch.oldPath === null ? null : resolve(base, patch.oldPath);
+      const newPath = patch.newPath === null ? null : resolve(base, patch.newPath);
+
+      for (const path of [oldPath, newPath]) {
+        if (!path) continue;
+        const violation = checkPathAccess(context?.sandbox, path, 'write');
+        if (violation) return sandboxViolationResult(toolUseId, 'ApplyPatch', violation);
+        // Files staged earlier in this patch were already checked on disk
+        const stale = context && !staged.has(path) ? checkFileFreshness(context.sessionId, path) : null;
+        if (stale) return result(toolUseId, `Error: ${stale}`, true);
+      }
+
+      const label = newPath ?? oldPath!;
+      const original = oldPath === null ? null : currentContent(oldPath);
+      if (oldPath !== null && original === null) {
+        failures.push(`${oldPath}: file not found`);
+        continue;
+      }
+      if (oldPath !== newPath && newPath !== null && currentContent(newPath) !== null) {
+        failures.push(`${newPath}: file already exists`);
+        continue;
+      }
+
+      const applied = applyHunks(original, patch.hunks);
+      if ('failures' in applied) {
+        failures.push(...applied.failures.map(f => `${label}: ${f}`));
+        continue;
+      }
+
+      const stats = `(+${applied.added} -${applied.removed})`;
+      if (newPath === null) {
+        staged.set(oldPath!, { path: oldPath!, content: null, summary: `D ${oldPath}` });
+      } else if (oldPath !== null && oldPath !== newPath) {
+        staged.set(oldPath, { path: oldPath, content: null, summary: `R ${oldPath} -> ${newPath} ${stats}` });
+        staged.set(newPath, { path: newPath, content: applied.content, summary: '' });
+      } else {
+        const kind = oldPath === null ? 'A' : 'M';
+        staged.set(newPath, { path: newPath, content: applied.content, summary: `${kind} ${newPath} ${stats}` });
+      }
+    }
+
+    if (failures.length > 0) {
+      return result(
+        toolUseId,
+        `Error: Patch does not apply; no files were changed.\n${failures.map(f => `- ${f}`).join('\n')}`,
+        true,
+      );
+    }
+
+    for (const path of staged.keys()) saveFileSnapshot(context, 'ApplyPatch', toolUseId, path);
+    commitChanges(staged);
+    if (context) {
+      for (const path of staged.keys()) recordFileState(context.sessionId, path);
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return result(toolUseId, `Error applying patch: ${msg}. No files were changed.`, true);
+  }
+
+  const summaries = Array.from(staged.values()).map(c => c.summary).filter(Boolean);
+  return result(toolUseId, `Applied patch to ${summaries.length} file${summaries.length === 1 ? '' : 's'}:\n${summaries.join('\n')}`);
+}
@@ -0,0 +1,364 @@
+/**
+ * Background Shell Tools
+ * Long-running commands (dev servers, log tails, watchers) that outlive a
+ * single tool call. Each process gets an id, its combined stdout/stderr is
+ * buffered so the agent can poll for new output, and processes are tracked
+ * per session so an interrupted or shut down loop does not leave them behind.
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { randomUUID } from 'crypto';
+import type { ToolDefinition, ToolResult } from '../../types';
+import type { ToolContext } from '../types';
+import { result, resolvePath } from './helpers';
+import { limitToolOutput } from './output';
+import { prepareShellCommand } from './bash';
+import { sandboxViolationResult } from './sandbox';
+import { getLogger } from '../../../infra/logger';
+
+// ---------------------------------------------------------------------------
+// Types & State
+// ---------------------------------------------------------------------------
+
+export interface BackgroundShellInfo {
+  id: string;
+  sessionId: string;
+  command: string;
+  pid: number | undefined;
+  startedAt: number;
+  /** Exit code, or null while running or when killed by a signal */
+  exitCode: number | null;
+  running: boolean;
+}
+
+interface BackgroundShell extends BackgroundShellInfo {
+  proc: ChildProcess;
+  /** Buffered output; only the most recent MAX_BUFFER_CHARS are kept */
+  output: string;
+  /** Position in `output` up to which the agent has read */
+  readOffset: number;
+  /** Characters dropped from the front of the buffer before being read */
+  droppedUnread: number;
+}
+
+const MAX_BUFFER_CHARS = 1_000_000;
+const KILL_GRACE_MS = 5000;
+const DEFAULT_SESSION = 'default';
+
+const shells = new Map<string, BackgroundShell>();
+let exitHandlerInstalled = false;
+
+// ---------------------------------------------------------------------------
+// Tool Definitions
+// ---------------------------------------------------------------------------
+
+export const bashBackgroundTool: ToolDefinition = {
+  name: 'BashBackground',
+  description: 'Start a long-running bash command (e.g. a dev server or log tail) in the background. ' +
+    'Returns a shell id for BashOutput, BashInput and BashKill.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      command: {
+        type: 'string',
+        description: 'The bash command to run',
+      },
+      cwd: {
+        type: 'string',
+        description: 'Working directory for the command',
+      },
+    },
+    required: ['command'],
+  },
+  isConcurrencySafe: true,
+};
+
+export const bashOutputTool: ToolDefinition = {
+  name: 'BashOutput',
+  description: 'Read output a background shell produced since the last read, plus its status',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      shell_id: {
+        type: 'string',
+        description: 'Id returned by BashBackground',
+      },
+    },
+    required: ['shell_id'],
+  },
+  isConcurrencySafe: true,
+};
+
+export const bashInputTool: ToolDefinition = {
+  name: 'BashInput',
+  description: 'Write text to the stdin of a background shell. Include a trailing newline to submit a line.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      shell_id: {
+        type: 'string',
+        description: 'Id returned by BashBackground',
+      },
+      input: {
+        type: 'string',
+        description: 'Text to write to stdin',
+      },
+      close: {
+        type: 'boolean',
+        description: 'Close stdin after writing (default: false)',
+      },
+    },
+    required: ['shell_id', 'input'],
+  },
+};
+
+export const bashKillTool: ToolDefinition = {
+  name: 'BashKill',
+  description: 'Stop a background shell and its child processes',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      shell_id: {
+        type: 'string',
+        description: 'Id returned by BashBackground',
+      },
+    },
+    required: ['shell_id'],
+  },
+  isConcurrencySafe: true,
+};
+
+// ---------------------------------------------------------------------------
+// Process Helpers
+// ---------------------------------------------------------------------------
+
+function appendOutput(shell: BackgroundShell, chunk: string): void {
+  shell.output += chunk;
+  const excess = shell.output.length - MAX_BUFFER_CHARS;
+  if (excess <= 0) return;
+
+  shell.output = shell.output.slice(excess);
+  const unreadLost = Math.max(0, excess - shell.readOffset);
+  shell.droppedUnread += unreadLost;
+  shell.readOffset = Math.max(0, shell.readOffset - excess);
+}
+
+/** Signal the whole process group so children of the shell stop too */
+function signalShell(shell: BackgroundShell, signal: NodeJS.Signals): void {
+  if (!shell.running || shell.pid === undefined) return;
+  try {
+    process.kill(-shell.pid, signal);
+  } catch {
+    shell.proc.kill(signal);
+  }
+}
+
+function stopShell(shell: BackgroundShell): void {
+  signalShell(shell, 'SIGTERM');
+  const timer = setTimeout(() => signalShell(shell, 'SIGKILL'), KILL_GRACE_MS);
+  timer.unref();
+}
+
+function installExitHandler(): void {
+  if (exitHandlerInstalled) return;
+  exitHandlerInstalled = true;
+  // Detached process groups survive the parent, so kill them on the way out
+  process.once('exit', () => {
+    for (const shell of shells.values()) signalShell(shell, 'SIGKILL');
+  });
+}
+
+function statusLine(shell: BackgroundShell): string {
+  if (shell.running) return `Status: running (pid ${shell.pid})`;
+  return shell.exitCode === null ? 'Status: killed' : `Status: exited with code ${shell.exitCode}`;
+}
+
+function toInfo(shell: BackgroundShell): BackgroundShellInfo {
+  const { id, sessionId, command, pid, startedAt, exitCode, running } = shell;
+  return { id, sessionId, command, pid, startedAt, exitCode, running };
+}
+
+/** Look up a shell owned by the calling session */
+function findShell(toolUseId: string, input: Record<string, unknown>, context?: ToolContext):
+  { shell: BackgroundShell; error?: undefined } | { shell?: undefined; error: ToolResult } {
+  const shellId = input.shell_id as string;
+  if (!shellId) {
+    return { error: result(toolUseId, 'Error: shell_id is required', true) };
+  }
+
+  const shell = shells.get(shellId);
+  if (!shell || shell.sessionId !== (context?.sessionId ?? DEFAULT_SESSION)) {
+    return { error: result(toolUseId, `Error: No background shell with id ${shellId}`, true) };
+  }
+  return { shell };
+}
+
+// ---------------------------------------------------------------------------
+// Tool Executors
+// ---------------------------------------------------------------------------
+
+export async function executeBashBackground(
+  toolUseId: string,
+  input: Record<string, unknown>,
+  context?: ToolContext,
+): Promise<ToolResult> {
+  const command = input.command as string;
+  const cwd = input.cwd as string | undefined;
+
+  if (!command) {
+    return result(toolUseId, 'Error: command is required', true);
+  }
+
+  const workingDir = cwd ? resolvePath(cwd) : process.cwd();
+  const prepared = prepareShellCommand(command, workingDir, context);
+  if (prepared.violation) {
+    return sandboxViolationResult(toolUseId, 'BashBackground', prepared.violation);
+  }
+
+  const proc = spawn(prepared.argv[0]!, prepared.argv.slice(1), {
+    cwd: workingDir,
+    env: prepared.env,
+    stdio: ['pipe', 'pipe', 'pipe'],
+    detached: true,
+  });
+
+  const shell: BackgroundShell = {
+    id: `shell_${randomUUID().slice(0, 8)}`,
+    sessionId: context?.sessionId ?? DEFAULT_SESSION,
+    command,
+    pid: proc.pid,
+    startedAt: Date.now(),
+    exitCode: null,
+    running: true,
+    proc,
+    output: '',
+    readOffset: 0,
+    droppedUnread: 0,
+  };
+
+  proc.stdout?.on('data', (data) => appendOutput(shell, data.toString()));
+  proc.stderr?.on('data', (data) => appendOutput(shell, data.toString()));
+  proc.stdin?.on('error', () => {
+    // Writes after the process exits are reported by BashInput
+  });
+  proc.on('close', (code) => {
+    shell.running = false;
+    shell.exitCode = code;
+  });
+  proc.on('error', (err) => {
+    shell.running = false;
+    appendOutput(shell, `\nError: ${err.message}\n`);
+  });
+
+  const spawnError = await new Promise<Error | null>((resolveSpawn) => {
+    proc.once('spawn', () => resolveSpawn(null));
+    proc.once('error', (err) => resolveSpawn(err));
+  });
+  if (spawnError) {
+    return result(toolUseId, `Error: ${spawnError.message}`, true);
+  }
+
+  shells.set(shell.id, shell);
+  installExitHandler();
+  getLogger().debug('Background shell started', { id: shell.id, pid: shell.pid, sessionId: shell.sessionId });
+
+  return result(
+    toolUseId,
+    `Started background shell ${shell.id} (pid ${shell.pid}). Use BashOutput to read its output.`,
+  );
+}
+
+export async function executeBashOutput(
+  toolUseId: string,
+  input: Record<string, unknown>,
+  context?: ToolContext,
+): Promise<ToolResult> {
+  const found = findShell(toolUseId, input, context);
+  if (found.error) return found.error;
+  const { shell } = found;
+
+  const fresh = shell.output.slice(shell.readOffset);
+  shell.readOffset = shell.output.length;
+  const dropped = shell.droppedUnread > 0
+    ? `(${shell.droppedUnread} earlier characters were discarded before being read)\n`
+    : '';
+  shell.droppedUnread = 0;
+
+  const content = `${statusLine(shell)}\n${dropped}${fresh || '(no new output)'}`;
+  return result(toolUseId, limitToolOutput(toolUseId, content, context));
+}
+
+export async function executeBashInput(
+  toolUseId: string,
+  input: Record<string, unknown>,
+  context?: ToolContext,
+): Promise<ToolResult> {
+  const found = findShell(toolUseId, input, context);
+  if (found.error) return found.error;
+  const { shell } = found;
+  const text = input.input as string | undefined;
+
+  if (typeof text !== 'string') {
+    return result(toolUseId, 'Error: input is required', true);
+  }
+  const stdin = shell.proc.stdin;
+  if (!shell.running || !stdin || stdin.writableEnded) {
+    return result(toolUseId, `Error: Background shell ${shell.id} is not accepting input`, true);
+  }
+
+  await new Promise<void>((resolveWrite) => stdin.write(text, () => resolveWrite()));
+  if (input.close === true) stdin.end();
+
+  return result(toolUseId, `Wrote ${text.length} characters to ${shell.id}${input.close === true ? ' and closed stdin' : ''}`);
+}
+
+export async function executeBashKill(
+  toolUseId: string,
+  input: Record<string, unknown>,
+  context?: ToolContext,
+): Promise<ToolResult> {
+  const found = findShell(toolUseId, input, context);
+  if (found.error) return found.error;
+  const { shell } = found;
+
+  if (!shell.running) {
+    shells.delete(shell.id);
+    return result(toolUseId, `Background shell ${shell.id} already stopped. ${statusLine(shell)}`);
+  }
+
+  stopShell(shell);
+  shells.delete(shell.id);
+  return result(toolUseId, `Stopped background shell ${shell.id}`);
+}
+
+// ---------------------------------------------------------------------------
+// Lifecycle
+// ---------------------------------------------------------------------------
+
+/** Background shells, optionally limited to one session */
+export function listBackgroundShells(sessionId?: string): BackgroundShellInfo[] {
+  return Array.from(shells.values())
+    .filter(shell => sessionId === undefined || shell.sessionId === sessionId)
+    .map(toInfo);
+}
+
+/** Stop every background shell started by a session; returns how many were running */
+export function killSessionShells(sessionId: string): number {
+  let stopped = 0;
+  for (const shell of Array.from(shells.values())) {
+    if (shell.sessionId !== sessionId) continue;
+    if (shell.running) stopped++;
+    stopShell(shell);
+    shells.delete(shell.id);
+  }
+  if (stopped > 0) getLogger().info('Stopped background shells', { sessionId, count: stopped });
+  return stopped;
+}
+
+/** Stop all background shells (process shutdown) */
+export function killAllShells(): number {
+  const sessions = new Set(Array.from(shells.values()).map(shell => shell.sessionId));
+  let stopped = 0;
+  for (const sessionId of sessions) stopped += killSessionShells(sessionId);
+  return stopped;
+}
@@ -1,6 +1,9 @@
 import { spawn } from 'child_process';
 import type { ToolDefinition, ToolResult } from '../../types';
+import type { ToolContext } from '../types';
 import { result, resolvePath } from './helpers';
+import { appendCapped, limitToolOutput } from './output';
+import { buildSandboxedCommand, sandboxEnv, sandboxViolationResult, type SandboxViolation } from './sandbox';
 
 export const bashTool: ToolDefinition = {
   name: 'Bash',
@@ -26,9 +29,29 @@ export const bashTool: ToolDefinition = {
   isConcurrencySafe: true,
 };
 
+/**
+ * argv and environment for running a shell command, applying the sandbox
+ * policy from the context when one is active.
+ */
+export function prepareShellCommand(
+  command: string,
+  workingDir: string,
+  context?: ToolContext,
+): { argv: string[]; env: NodeJS.ProcessEnv; violation?: undefined } | { violation: SandboxViolation } {
+  const sandbox = context?.sandbox;
+  if (!sandbox) {
+    return { argv: ['bash', '-c', command], env: { ...process.env } };
+  }
+
+  const sandboxed = buildSandboxedCommand(sandbox, command, workingDir);
+  if (sandboxed.violation) return { violation: sandboxed.violation };
+  return { argv: sandboxed.argv, env: sandboxEnv(sandbox) };
+}
+
 export async function executeBash(
   toolUseId: string,
   input: Record<string, unknown>,
+  context?: ToolContext,
 ): Promise<ToolResult> {
   const command = input.command as string;
   const cwd = input.cwd as string | undefined;
@@ -39,15 +62,20 @@ export async function executeBash(
   }
 
   const workingDir = cwd ? resolvePath(cwd) : process.cwd();
+  const prepared = prepareShellCommand(command, workingDir, context);
+  if (prepared.violation) {
+    return sandboxViolationResult(toolUseId, 'Bash', prepared.violation);
+  }
+  const { argv, env } = prepared;
 
   return new Promise<ToolResult>((resolvePromise) => {
     let stdout = '';
     let stderr = '';
     let killed = false;
 
-    const proc = spawn('bash', ['-c', command], {
+    const proc = spawn(argv[0]!, argv.slice(1), {
       cwd: workingDir,
-      env: { ...process.env },
+      env,
       stdio: ['pipe', 'pipe', 'pipe'],
     });
 
@@ -62,11 +90,15 @@ export async function executeBash(
     }, timeout);
 
     proc.stdout.on('data', (data) => {
-      stdout += data.toString();
+      const text = data.toString();
+      stdout = appendCapped(stdout, text);
+      context?.onProgress?.(toolUseId, text);
     });
 
     proc.stderr.on('data', (data) => {
-      stderr += data.toString();
+      const text = data.toString();
+      stderr = appendCapped(stderr, text);
+      context?.onProgress?.(toolUseId, text);
     });
 
     proc.on('close', (code) => {
@@ -83,7 +115,7 @@ export async function executeBash(
         ? `Exit code ${code}:\n${output}`
         : output || '(no output)';
 
-      resolvePromise(result(toolUseId, content, isError));
+      resolvePromise(result(toolUseId, limitToolOutput(toolUseId, content, context), isError));
     });
 
     proc.on('error', (err) => {
@@ -1,6 +1,10 @@
 import { existsSync, readFileSync, writeFileSync } from 'fs';
 import type { ToolDefinition, ToolResult } from '../../types';
+import type { ToolContext } from '../types';
 import { result, resolvePath } from './helpers';
+import { checkPathAccess, sandboxViolationResult } from './sandbox';
+import { checkFileFreshness, recordFileState } from './file-state';
+import { saveFileSnapshot } from './file-snapshots';
 
 export const editTool: ToolDefinition = {
   name: 'Edit',
@@ -33,6 +37,7 @@ export const editTool: ToolDefinition = {
 export async function executeEdit(
   toolUseId: string,
   input: Record<string, unknown>,
+  context?: ToolContext,
 ): Promise<ToolResult> {
   const filePath = input.file_path as string;
   const oldString = input.old_string as string;
@@ -54,36 +59,34 @@ export async function executeEdit(
 
   const resolvedPath = resolvePath(filePath);
 
+  const violation = checkPathAccess(context?.sandbox, resolvedPath, 'write');
+  if (violation) {
+    return sandboxViolationResult(toolUseId, 'Edit', violation);
+  }
+
   if (!existsSync(resolvedPath)) {
     return result(toolUseId, `Error: File not found: ${resolvedPath}`, true);
   }
 
+  const stale = context ? checkFileFreshness(context.sessionId, resolvedPath) : null;
+  if (stale) {
+    return result(toolUseId, `Error: ${stale}`, true);
+  }
+
   try {
     const content = readFileSync(resolvedPath, 'utf-8');
-    const occurrences = countOccurrences(content, oldString);
-
-    if (occurrences === 0) {
-      return result(toolUseId, 'Error: old_string not found in file', true);
+    const applied = applyEdit(content, { oldString, newString, replaceAll });
+    if ('error' in applied) {
+      return result(toolUseId, `Error: ${applied.error}`, true);
     }
 
-    if (occurrences > 1 && !replaceAll) {
-      return result(
-        toolUseId,
-        `Error: old_string is not unique, found ${occurrences} occurrences. Use replace_all to replace all.`,
-        true,
-      );
-    }
-
-    const newContent = replaceAll
-      ? replaceAllOccurrences(content, oldString, newString)
-      : content.replace(oldString, newString);
+    saveFileSnapshot(context, 'Edit', toolUseId, resolvedPath);
+    writeFileSync(resolvedPath, applied.content, 'utf-8');
+    if (context) recordFileState(context.sessionId, resolvedPath);
 
-    writeFileSync(resolvedPath, newContent, 'utf-8');
-
-    const replacedCount = replaceAll ? occurrences : 1;
     return result(
       toolUseId,
-      `Successfully replaced ${replacedCount} occurrence${replacedCount > 1 ? 's' : ''} in ${resolvedPath}`,
+      `Successfully replaced ${applied.count} occurrence${applied.count > 1 ? 's' : ''} in ${resolvedPath}`,
     );
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
@@ -91,6 +94,32 @@ export async function executeEdit(
   }
 }
 
+export interface EditOperation {
+  oldString: string;
+  newString: string;
+  replaceAll: boolean;
+}
+
+/** Apply one replacement in memory; shared by Edit and MultiEdit */
+export function applyEdit(
+  content: string,
+  edit: EditOperation,
+): { content: string; count: number } | { error: string } {
+  const occurrences = countOccurrences(content, edit.oldString);
+
+  if (occurrences === 0) {
+    return { error: 'old_string not found in file' };
+  }
+
+  if (occurrences > 1 && !edit.replaceAll) {
+    return { error: `old_string is not unique, found ${occurrences} occurrences. Use replace_all to replace all.` };
+  }
+
+  return edit.replaceAll
+    ? { content: replaceAllOccurrences(content, edit.oldString, edit.newString), count: occurrences }
+    : { content: content.replace(edit.oldString, () => edit.newString), count: 1 };
+}
+
 function countOccurrences(content: string, search: string): number {
   return content.split(search).length - 1;
 }
@@ -0,0 +1,200 @@
+/**
+ * Pre-Edit Snapshots
+ * Before a builtin tool changes a file, its previous content is copied to
+ * the session's snapshot dir and listed in index.jsonl, together with the
+ * assistant message whose tool call made the change. Only the content of the
+ * most recent snapshots is kept; older entries stay in the index marked as
+ * pruned so a rewind can tell which files it cannot restore. A snapshot of a
+ * file that did not exist restores by deleting the file.
+ */
+
+import { randomUUID } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type { ToolContext } from '../types';
+import { getLogger } from '../../../infra/logger';
+
+// ---------------------------------------------------------------------------
+// Types & Constants
+// ---------------------------------------------------------------------------
+
+export interface FileSnapshot {
+  id: string;
+  /** Absolute path of the file that was about to change */
+  path: string;
+  tool: string;
+  toolUseId: string;
+  /** Assistant message that issued the tool call, when run by the agentic loop */
+  messageUuid?: string;
+  createdAt: number;
+  /** False when the tool created the file; restoring deletes it */
+  existed: boolean;
+  /** Content was dropped to stay under MAX_SNAPSHOTS_PER_SESSION */
+  pruned?: boolean;
+  /** Set once a rewind has undone this change, or reported it as unrestorable */
+  revertedAt?: number;
+}
+
+/** Snapshots whose content is kept per session; older ones are pruned */
+export const MAX_SNAPSHOTS_PER_SESSION = 200;
+
+const INDEX_FILE = 'index.jsonl';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Directory for pre-edit snapshots of a session */
+export function fileSnapshotDir(dataDir: string, sessionId: string): string {
+  return join(dataDir, 'sessions', sessionId, 'snapshots');
+}
+
+function readIndex(dir: string): FileSnapshot[] {
+  const indexPath = join(dir, INDEX_FILE);
+  if (!existsSync(indexPath)) return [];
+
+  const snapshots: FileSnapshot[] = [];
+  for (const line of readFileSync(indexPath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      snapshots.push(JSON.parse(line) as FileSnapshot);
+    } catch {
+      // Skip a line left half-written by a crash
+    }
+  }
+  return snapshots;
+}
+
+function writeIndex(dir: string, snapshots: FileSnapshot[]): void {
+  writeFileSync(join(dir, INDEX_FILE), snapshots.map(s => `${JSON.stringify(s)}\n`).join(''));
+}
+
+function prune(dir: string, snapshots: FileSnapshot[]): void {
+  const live = snapshots.filter(s => !s.pruned);
+  const excess = live.length - MAX_SNAPSHOTS_PER_SESSION;
+  if (excess <= 0) return;
+
+  for (const old of live.slice(0, excess)) {
+    rmSync(join(dir, old.id), { force: true });
+    old.pruned = true;
+  }
+  writeIndex(dir, snapshots);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Save the current content of a file before a tool changes it. Does nothing
+ * without a snapshot dir; failures are logged and never block the edit.
+ */
+export function saveFileSnapshot(
+  context: ToolContext | undefined,
+  tool: string,
+  toolUseId: string,
+  path: string,
+): FileSnapshot | null {
+  const dir = context?.snapshotDir;
+  if (!dir) return null;
+
+  try {
+    mkdirSync(dir, { recursive: true });
+    const existed = existsSync(path);
+    const snapshot: FileSnapshot = {
+      id: `${Date.now()}-${randomUUID().slice(0, 8)}`,
+      path,
+      tool,
+      toolUseId,
+      ...(context.messageUuid ? { messageUuid: context.messageUuid } : {}),
+      createdAt: Date.now(),
+      existed,
+    };
+
+    if (existed) writeFileSync(join(dir, snapshot.id), readFileSync(path));
+    appendFileSync(join(dir, INDEX_FILE), `${JSON.stringify(snapshot)}\n`);
+    prune(dir, readIndex(dir));
+    return snapshot;
+  } catch (err) {
+    getLogger().warn('Failed to save file snapshot', {
+      path, error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
+
+/** Snapshots in a snapshot dir, oldest first; pruned entries only on request */
+export function listFileSnapshots(dir: string, options: { includePruned?: boolean } = {}): FileSnapshot[] {
+  const snapshots = readIndex(dir);
+  return options.includePruned ? snapshots : snapshots.filter(s => !s.pruned);
+}
+
+/** Put a file back the way it was when the snapshot was taken */
+export function restoreFileSnapshot(dir: string, id: string): FileSnapshot {
+  const snapshot = readIndex(dir).find(s => s.id === id);
+  if (!snapshot) {
+    throw new Error(`Snapshot not found: ${id}`);
+  }
+  if (snapshot.pruned) {
+    throw new Error(`Snapshot content was pruned: ${id}`);
+  }
+
+  if (snapshot.existed) {
+    mkdirSync(dirname(snapshot.path), { recursive: true });
+    writeFileSync(snapshot.path, readFileSync(join(dir, snapshot.id)));
+  } else if (existsSync(snapshot.path)) {
+    unlinkSync(snapshot.path);
+  }
+  return snapshot;
+}
+
+/**
+ * Restore several snapshots as one change: every snapshot's content is read
+ * before any file is touched, and if a write fails the files already written
+ * are put back, so either all files are restored or none are.
+ */
+export function restoreFileSnapshots(dir: string, ids: string[]): FileSnapshot[] {
+  const index = new Map(readIndex(dir).map(s => [s.id, s]));
+  const staged = ids.map((id) => {
+    const snapshot = index.get(id);
+    if (!snapshot) throw new Error(`Snapshot not found: ${id}`);
+    if (snapshot.pruned) throw new Error(`Snapshot content was pruned: ${id}`);
+    return { snapshot, content: snapshot.existed ? readFileSync(join(dir, snapshot.id)) : null };
+  });
+
+  const originals: Array<{ path: string; content: Buffer | null }> = [];
+  try {
+    for (const { snapshot, content } of staged) {
+      originals.push({ path: snapshot.path, content: existsSync(snapshot.path) ? readFileSync(snapshot.path) : null });
+      if (content) {
+        mkdirSync(dirname(snapshot.path), { recursive: true });
+        writeFileSync(snapshot.path, content);
+      } else if (existsSync(snapshot.path)) {
+        unlinkSync(snapshot.path);
+      }
+    }
+  } catch (err) {
+    for (const original of originals.reverse()) {
+      try {
+        if (original.content) writeFileSync(original.path, original.content);
+        else if (existsSync(original.path)) unlinkSync(original.path);
+      } catch {
+        // Best effort; the original error is what gets reported
+      }
+    }
+    throw err;
+  }
+  return staged.map(s => s.snapshot);
+}
+
+/** Record that a rewind reverted these snapshots so a later rewind skips them */
+export function markSnapshotsReverted(dir: string, ids: string[]): void {
+  if (ids.length === 0) return;
+  const wanted = new Set(ids);
+  const now = Date.now();
+  const snapshots = readIndex(dir);
+  for (const snapshot of snapshots) {
+    if (wanted.has(snapshot.id)) snapshot.revertedAt = now;
+  }
+  writeIndex(dir, snapshots);
+}
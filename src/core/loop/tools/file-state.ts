@@ -0,0 +1,64 @@
+/**
+ * File State Tracking
+ * Remembers the content hash and mtime of every file a session read or
+ * wrote, so Write and Edit can refuse to overwrite a file the agent has not
+ * seen, or one that changed on disk after the agent last looked at it.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, statSync } from 'fs';
+
+interface FileState {
+  hash: string;
+  mtimeMs: number;
+  size: number;
+}
+
+const sessions = new Map<string, Map<string, FileState>>();
+
+function hashFile(path: string): string {
+  return createHash('sha256').update(readFileSync(path)).digest('hex');
+}
+
+/** Remember the current on-disk state of a file for a session */
+export function recordFileState(sessionId: string, path: string): void {
+  let files = sessions.get(sessionId);
+  if (!files) {
+    files = new Map();
+    sessions.set(sessionId, files);
+  }
+
+  if (!existsSync(path)) {
+    files.delete(path);
+    return;
+  }
+  const stat = statSync(path);
+  files.set(path, { hash: hashFile(path), mtimeMs: stat.mtimeMs, size: stat.size });
+}
+
+/**
+ * Why the session may not overwrite an existing file, or null when it may.
+ * A changed mtime alone (e.g. `touch`) is not a change; the hash decides.
+ */
+export function checkFileFreshness(sessionId: string, path: string): string | null {
+  if (!existsSync(path)) return null;
+
+  const known = sessions.get(sessionId)?.get(path);
+  if (!known) {
+    return `File has not been read in this session: ${path}. Read it first so existing content is not lost.`;
+  }
+
+  const stat = statSync(path);
+  if (stat.mtimeMs === known.mtimeMs && stat.size === known.size) return null;
+  if (stat.size === known.size && hashFile(path) === known.hash) {
+    known.mtimeMs = stat.mtimeMs;
+    return null;
+  }
+  return `File has been modified since it was last read: ${path}. Read it again before changing it.`;
+}
+
+/** Forget tracked files for one session, or for all sessions */
+export function clearFileState(sessionId?: string): void {
+  if (sessionId === undefined) sessions.clear();
+  else sessions.delete(sessionId);
+}
@@ -1,6 +1,9 @@
 import { statSync } from 'fs';
 import type { ToolDefinition, ToolResult } from '../../types';
+import type { ToolContext } from '../types';
 import { result, resolvePath } from './helpers';
+import { limitToolOutput } from './output';
+import { checkPathAccess, sandboxViolationResult } from './sandbox';
 
 export const globTool: ToolDefinition = {
   name: 'Glob',
@@ -25,6 +28,7 @@ export const globTool: ToolDefinition = {
 export async function executeGlob(
   toolUseId: string,
   input: Record<string, unknown>,
+  context?: ToolContext,
 ): Promise<ToolResult> {
   const pattern = input.pattern as string;
   const path = input.path as string | undefined;
@@ -34,12 +38,17 @@ export async function executeGlob(
   }
 
   const searchDir = path ? resolvePath(path) : process.cwd();
+  const violation = checkPathAccess(context?.sandbox, searchDir, 'read');
+  if (violation) {
+    return sandboxViolationResult(toolUseId, 'Glob', violation);
+  }
 
   try {
     const glob = new Bun.Glob(pattern);
     const entries: { path: string; mtimeMs: number }[] = [];
 
     for await (const match of glob.scan({ cwd: searchDir, absolute: true })) {
+      if (checkPathAccess(context?.sandbox, match, 'read')) continue;
       try {
         entries.push({ path: match, mtimeMs: statSync(match).mtimeMs });
       } catch {
@@ -52,7 +61,7 @@ export async function executeGlob(
     }
 
     entries.sort((a, b) => b.mtimeMs - a.mtimeMs);
-    return result(toolUseId, entries.map(e => e.path).join('\n'));
+    return result(toolUseId, limitToolOutput(toolUseId, entries.map(e => e.path).join('\n'), context));
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     return result(toolUseId, `Error running glob: ${msg}`, true);
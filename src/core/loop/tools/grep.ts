@@ -2,9 +2,10 @@ import { spawn } from 'child_process';
 import { readdirSync, readFileSync, statSync } from 'fs';
 import { join, relative } from 'path';
 import type { ToolDefinition, ToolResult } from '../../types';
+import type { ToolContext } from '../types';
 import { result, resolvePath } from './helpers';
-
-const MAX_OUTPUT_CHARS = 30000;
+import { limitToolOutput, MAX_CAPTURE_CHARS } from './output';
+import { checkPathAccess, sandboxViolationResult } from './sandbox';
 
 type OutputMode = 'content' | 'files_with_matches' | 'count';
 
@@ -51,6 +52,7 @@ export const grepTool: ToolDefinition = {
 export async function executeGrep(
   toolUseId: string,
   input: Record<string, unknown>,
+  toolContext?: ToolContext,
 ): Promise<ToolResult> {
   const pattern = input.pattern as string;
   const path = input.path as string | undefined;
@@ -65,6 +67,12 @@ export async function executeGrep(
   }
 
   const searchPath = path ? resolvePath(path) : process.cwd();
+  const violation = checkPathAccess(toolContext?.sandbox, searchPath, 'read');
+  if (violation) {
+    return sandboxViolationResult(toolUseId, 'Grep', violation);
+  }
+  // Denied files inside the search path are left out of the results
+  const allowed = (file: string): boolean => !checkPathAccess(toolContext?.sandbox, file, 'read');
 
   try {
     const rgResult = await tryRipgrep(pattern, searchPath, {
@@ -73,8 +81,8 @@ export async function executeGrep(
       outputMode,
       context,
       multiline,
-    });
-    return result(toolUseId, truncateOutput(rgResult));
+    }, allowed);
+    return result(toolUseId, limitToolOutput(toolUseId, rgResult, toolContext));
   } catch (err) {
     if (isRipgrepNotFound(err)) {
       return nativeFallback(toolUseId, pattern, searchPath, {
@@ -82,7 +90,7 @@ export async function executeGrep(
         outputMode,
         context,
         multiline,
-      });
+      }, toolContext, allowed);
     }
     const msg = err instanceof Error ? err.message : String(err);
     return result(toolUseId, `Error running grep: ${msg}`, true);
@@ -102,7 +110,8 @@ function buildRgArgs(
   searchPath: string,
   options: GrepOptions,
 ): string[] {
-  const args: string[] = ['--no-heading', '--color', 'never'];
+  // --null ends each file path with NUL so the paths can be checked against the sandbox
+  const args: string[] = ['--no-heading', '--color', 'never', '--null'];
 
   if (options.outputMode === 'files_with_matches') {
     args.push('-l');
@@ -134,10 +143,26 @@ function buildRgArgs(
 
 const RG_TIMEOUT_MS = 60000;
 
+/** Turn `--null` output back into `path:...` lines, dropping files that are not allowed */
+function formatRgOutput(stdout: string, outputMode: OutputMode, allowed: (file: string) => boolean): string {
+  if (outputMode === 'files_with_matches') {
+    return stdout.split('\0').map(file => file.trim()).filter(file => file && allowed(file)).join('\n');
+  }
+  return stdout.split('\n').flatMap((line) => {
+    const nul = line.indexOf('\0');
+    if (nul === -1) return [line];
+    const file = line.slice(0, nul);
+    const rest = line.slice(nul + 1);
+    // Context lines are `path-12-text`, matches `path:12:text` and counts `path:3`
+    return allowed(file) ? [`${file}${/^\d+-/.test(rest) ? '-' : ':'}${rest}`] : [];
+  }).join('\n');
+}
+
 function tryRipgrep(
   pattern: string,
   searchPath: string,
   options: GrepOptions,
+  allowed: (file: string) => boolean,
 ): Promise<string> {
   return new Promise((resolve, reject) => {
     const args = buildRgArgs(pattern, searchPath, options);
@@ -154,7 +179,7 @@ function tryRipgrep(
 
     proc.stdout.on('data', (data: Buffer) => {
       stdout += data.toString();
-      if (stdout.length > MAX_OUTPUT_CHARS * 2) {
+      if (stdout.length > MAX_CAPTURE_CHARS) {
         killed = true;
         proc.kill('SIGTERM');
       }
@@ -165,7 +190,7 @@ function tryRipgrep(
     proc.on('close', (code: number | null) => {
       clearTimeout(timeout);
       if (killed || code === 0) {
-        resolve(stdout.trim() || 'No matches found');
+        resolve(formatRgOutput(stdout, options.outputMode, allowed).trim() || 'No matches found');
       } else if (code === 1) {
         resolve('No matches found'); // rg exit code 1 = no matches
       } else {
@@ -184,11 +209,13 @@ export function nativeFallback(
   pattern: string,
   searchPath: string,
   options: Omit<GrepOptions, 'type'>,
+  toolContext?: ToolContext,
+  allowed: (file: string) => boolean = () => true,
 ): ToolResult {
   try {
     const flags = options.multiline ? 'gms' : 'gm';
     const regex = new RegExp(pattern, flags);
-    const files = walkDirectory(searchPath, options.glob);
+    const files = walkDirectory(searchPath, options.glob).filter(allowed);
     const results: string[] = [];
 
     for (const filePath of files) {
@@ -214,7 +241,7 @@ export function nativeFallback(
       return result(toolUseId, 'No matches found');
     }
 
-    return result(toolUseId, truncateOutput(results.join('\n')));
+    return result(toolUseId, limitToolOutput(toolUseId, results.join('\n'), toolContext));
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     return result(toolUseId, `Error running native grep: ${msg}`, true);
@@ -306,8 +333,3 @@ function isBinaryExtension(filename: string): boolean {
   if (dotIdx === -1) return false;
   return BINARY_EXTENSIONS.has(filename.slice(dotIdx).toLowerCase());
 }
-
-function truncateOutput(output: string): string {
-  if (output.length <= MAX_OUTPUT_CHARS) return output;
-  return output.slice(0, MAX_OUTPUT_CHARS) + '\n... (output truncated at 30000 characters)';
-}
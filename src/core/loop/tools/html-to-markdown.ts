@@ -0,0 +1,116 @@
+/**
+ * HTML to Markdown
+ * Small dependency-free converter for WebFetch. It keeps headings, links,
+ * lists, emphasis, code and paragraphs, and drops scripts, styles and page
+ * chrome. The output is for a model to read, not a faithful rendering.
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Elements removed together with their content */
+const DROPPED_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'head', 'nav', 'footer', 'form'];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  mdash: '—', ndash: '–', hellip: '…', copy: '©', reg: '®', trade: '™',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', middot: '·', bull: '•',
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1]?.toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function attribute(attrs: string, name: string): string | undefined {
+  const match = attrs.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+function resolveHref(href: string, baseUrl?: string): string {
+  if (!baseUrl) return href;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+}
+
+/** Collapse whitespace inside inline text the way a browser would */
+function collapseInline(text: string): string {
+  return text.replace(/[ \t\r\n]+/g, ' ');
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Extract the document title, if any */
+export function extractTitle(html: string): string | undefined {
+  const match = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const title = match ? collapseInline(decodeEntities(match[1]!)).trim() : '';
+  return title || undefined;
+}
+
+/** Convert an HTML document to markdown; relative links resolve against baseUrl */
+export function htmlToMarkdown(html: string, baseUrl?: string): string {
+  let text = html.replace(/<!--[\s\S]*?-->/g, '');
+
+  for (const tag of DROPPED_ELEMENTS) {
+    text = text.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, 'gi'), '');
+  }
+
+  // Preformatted blocks keep their whitespace; stash them behind private-use
+  // placeholders until the rest of the text is cleaned up
+  const blocks: string[] = [];
+  text = text.replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, inner: string) => {
+    const code = decodeEntities(inner.replace(/<[^>]+>/g, '')).replace(/\n+$/, '');
+    blocks.push(`\n\n\`\`\`\n${code}\n\`\`\`\n\n`);
+    return `\uE000${blocks.length - 1}\uE000`;
+  });
+
+  text = collapseInline(text);
+
+  text = text
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${inner.trim()}\n\n`)
+    .replace(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi, (_, attrs: string, inner: string) => {
+      const href = attribute(attrs, 'href');
+      const label = inner.trim();
+      if (!href || href.startsWith('javascript:') || !label) return label;
+      return `[${label}](${resolveHref(decodeEntities(href), baseUrl)})`;
+    })
+    .replace(/<img\b([^>]*)>/gi, (_, attrs: string) => {
+      const alt = attribute(attrs, 'alt');
+      return alt ? `[image: ${alt}]` : '';
+    })
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, __, inner: string) => inner.trim() ? `**${inner.trim()}**` : '')
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, __, inner: string) => inner.trim() ? `_${inner.trim()}_` : '')
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, (_, inner: string) => `\`${inner}\``)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<blockquote\b[^>]*>/gi, '\n\n> ')
+    .replace(/<hr\b[^>]*>/gi, '\n\n---\n\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|main|header|aside|ul|ol|table|tr|dl|dt|dd|figure|blockquote)\b[^>]*>/gi, '\n\n')
+    .replace(/<\/t[dh]>/gi, ' | ')
+    .replace(/<[^>]+>/g, '');
+
+  text = decodeEntities(text)
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\uE000(\d+)\uE000/g, (_, index: string) => blocks[Number(index)]!)
+    .replace(/\n{3,}/g, '\n\n');
+
+  return text.trim();
+}
@@ -1,18 +1,87 @@
 import type { ToolResult } from '../../types';
+import type { ToolContext } from '../types';
 import { readFileTool, executeReadFile } from './read';
 import { writeFileTool, executeWriteFile } from './write';
 import { bashTool, executeBash } from './bash';
 import { editTool, executeEdit } from './edit';
+import { multiEditTool, executeMultiEdit } from './multi-edit';
+import { applyPatchTool, executeApplyPatch } from './apply-patch';
 import { globTool, executeGlob } from './glob';
 import { grepTool, executeGrep } from './grep';
+import {
+  bashBackgroundTool,
+  bashOutputTool,
+  bashInputTool,
+  bashKillTool,
+  executeBashBackground,
+  executeBashOutput,
+  executeBashInput,
+  executeBashKill,
+} from './background-shell';
+import { webFetchTool, executeWebFetch } from './web-fetch';
+import { webSearchTool, executeWebSearch } from './web-search';
 
 export { readFileTool, executeReadFile } from './read';
 export { writeFileTool, executeWriteFile } from './write';
 export { bashTool, executeBash } from './bash';
-export { editTool, executeEdit } from './edit';
+export { editTool, executeEdit, applyEdit, type EditOperation } from './edit';
+export { multiEditTool, executeMultiEdit } from './multi-edit';
+export {
+  applyPatchTool,
+  executeApplyPatch,
+  parsePatch,
+  applyHunks,
+  patchFilePaths,
+  type FilePatch,
+  type PatchHunk,
+} from './apply-patch';
 export { globTool, executeGlob } from './glob';
 export { grepTool, executeGrep } from './grep';
+export {
+  bashBackgroundTool,
+  bashOutputTool,
+  bashInputTool,
+  bashKillTool,
+  executeBashBackground,
+  executeBashOutput,
+  executeBashInput,
+  executeBashKill,
+  listBackgroundShells,
+  killSessionShells,
+  killAllShells,
+  type BackgroundShellInfo,
+} from './background-shell';
+export { webFetchTool, executeWebFetch } from './web-fetch';
+export {
+  webSearchTool,
+  executeWebSearch,
+  registerWebSearchProvider,
+  getWebSearchProvider,
+  clearWebSearchProvider,
+} from './web-search';
+export { checkAddress, checkDomain, clearWebCache } from './web';
+export { htmlToMarkdown } from './html-to-markdown';
 export { result, resolvePath } from './helpers';
+export { limitToolOutput, toolOutputDir, MAX_TOOL_OUTPUT_CHARS } from './output';
+export { recordFileState, checkFileFreshness, clearFileState } from './file-state';
+export {
+  fileSnapshotDir,
+  saveFileSnapshot,
+  listFileSnapshots,
+  restoreFileSnapshot,
+  restoreFileSnapshots,
+  markSnapshotsReverted,
+  MAX_SNAPSHOTS_PER_SESSION,
+  type FileSnapshot,
+} from './file-snapshots';
+export {
+  resolveSandboxPolicy,
+  checkPathAccess,
+  sandboxEnv,
+  buildSandboxedCommand,
+  type SandboxViolation,
+  type SandboxRule,
+} from './sandbox';
 
 // SpawnAgent is registered dynamically at runtime via createSpawnAgentTool()
 // It is NOT added to BUILTIN_TOOLS to avoid circular dependencies.
@@ -23,11 +92,16 @@ export type { SpawnAgentDeps, SpawnAgentInput } from './spawn-agent';
 export { sendMessageTool, createSendMessageTool } from './send-message';
 export type { SendMessageDeps } from './send-message';
 
-export const BUILTIN_TOOLS = [readFileTool, writeFileTool, bashTool, editTool, globTool, grepTool];
+export const BUILTIN_TOOLS = [
+  readFileTool, writeFileTool, bashTool, editTool, multiEditTool, applyPatchTool, globTool, grepTool,
+  bashBackgroundTool, bashOutputTool, bashInputTool, bashKillTool,
+  webFetchTool, webSearchTool,
+];
 
 type ToolExecutor = (
   toolUseId: string,
   input: Record<string, unknown>,
+  context?: ToolContext,
 ) => Promise<ToolResult>;
 
 const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
@@ -35,8 +109,16 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
   Write: executeWriteFile,
   Bash: executeBash,
   Edit: executeEdit,
+  MultiEdit: executeMultiEdit,
+  ApplyPatch: executeApplyPatch,
   Glob: executeGlob,
   Grep: executeGrep,
+  BashBackground: executeBashBackground,
+  BashOutput: executeBashOutput,
+  BashInput: executeBashInput,
+  BashKill: executeBashKill,
+  WebFetch: executeWebFetch,
+  WebSearch: executeWebSearch,
 };
 
 export function getToolExecutor(name: string): ToolExecutor | undefined {
@@ -0,0 +1,117 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import type { ToolDefinition, ToolResult } from '../../types';
+import type { ToolContext } from '../types';
+import { result, resolvePath } from './helpers';
+import { applyEdit, type EditOperation } from './edit';
+import { checkPathAccess, sandboxViolationResult } from './sandbox';
+import { checkFileFreshness, recordFileState } from './file-state';
+import { saveFileSnapshot } from './file-snapshots';
+
+export const multiEditTool: ToolDefinition = {
+  name: 'MultiEdit',
+  description: 'Apply several string replacements to one file in order. ' +
+    'Either every edit applies or the file is left unchanged.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      file_path: {
+        type: 'string',
+        description: 'The absolute path to the file to modify',
+      },
+      edits: {
+        type: 'array',
+        description: 'Replacements applied in order; each one sees the result of the previous ones',
+        items: {
+          type: 'object',
+          properties: {
+            old_string: { type: 'string', description: 'The exact text to find and replace' },
+            new_string: { type: 'string', description: 'The text to replace old_string with' },
+            replace_all: { type: 'boolean', description: 'Replace all occurrences (default: false)' },
+          },
+          required: ['old_string', 'new_string'],
+        },
+      },
+    },
+    required: ['file_path', 'edits'],
+  },
+  isConcurrencySafe: false,
+};
+
+/** Validate the raw edits array, returning an error message for the first bad entry */
+function parseEdits(raw: unknown): EditOperation[] | string {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return 'edits must be a non-empty array';
+  }
+
+  const edits: EditOperation[] = [];
+  for (const [i, entry] of raw.entries()) {
+    const edit = entry as Record<string, unknown> | null;
+    if (typeof edit?.old_string !== 'string' || typeof edit.new_string !== 'string') {
+      return `edit ${i + 1}: old_string and new_string are required`;
+    }
+    if (edit.old_string === edit.new_string) {
+      return `edit ${i + 1}: old_string and new_string are identical`;
+    }
+    edits.push({ oldString: edit.old_string, newString: edit.new_string, replaceAll: edit.replace_all === true });
+  }
+  return edits;
+}
+
+export async function executeMultiEdit(
+  toolUseId: string,
+  input: Record<string, unknown>,
+  context?: ToolContext,
+): Promise<ToolResult> {
+  const filePath = input.file_path as string;
+
+  if (!filePath) {
+    return result(toolUseId, 'Error: file_path is required', true);
+  }
+  const edits = parseEdits(input.edits);
+  if (typeof edits === 'string') {
+    return result(toolUseId, `Error: ${edits}`, true);
+  }
+
+  const resolvedPath = resolvePath(filePath);
+
+  const violation = checkPathAccess(context?.sandbox, resolvedPath, 'write');
+  if (violation) {
+    return sandboxViolationResult(toolUseId, 'MultiEdit', violation);
+  }
+
+  if (!existsSync(resolvedPath)) {
+    return result(toolUseId, `Error: File not found: ${resolvedPath}`, true);
+  }
+
+  const stale = context ? checkFileFreshness(context.sessionId, resolvedPath) : null;
+  if (stale) {
+    return result(toolUseId, `Error: ${stale}`, true);
+  }
+
+  try {
+    let content = readFileSync(resolvedPath, 'utf-8');
+    let replaced = 0;
+
+    for (const [i, edit] of edits.entries()) {
+      const applied = applyEdit(content, edit);
+      if ('error' in applied) {
+        return result(toolUseId, `Error: edit ${i + 1} of ${edits.length}: ${applied.error}. No changes were made.`, true);
+      }
+      content = applied.content;
+      replaced += applied.count;
+    }
+
+    saveFileSnapshot(context, 'MultiEdit', toolUseId, resolvedPath);
+    writeFileSync(resolvedPath, content, 'utf-8');
+    if (context) recordFileState(context.sessionId, resolvedPath);
+
+    return result(
+      toolUseId,
+      `Successfully applied ${edits.length} edit${edits.length > 1 ? 's' : ''} ` +
+        `(${replaced} replacement${replaced > 1 ? 's' : ''}) to ${resolvedPath}`,
+    );
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return result(toolUseId, `Error editing file: ${msg}`, true);
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Tool Output Budget
+ * Shared size limit for builtin tool output. Output over the budget is
+ * spilled to a file under the session's data dir and replaced with a
+ * head/tail preview that points at the file, which the agent can page
+ * through with Read offset/limit.
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { ToolContext } from '../types';
+import { getLogger } from '../../../infra/logger';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Maximum characters of tool output returned to the model */
+export const MAX_TOOL_OUTPUT_CHARS = 30000;
+
+/** Maximum characters captured in memory from a single process stream */
+export const MAX_CAPTURE_CHARS = 10_000_000;
+
+const PREVIEW_HEAD_CHARS = 12000;
+const PREVIEW_TAIL_CHARS = 6000;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Directory for spilled tool output of a session */
+export function toolOutputDir(dataDir: string, sessionId: string): string {
+  return join(dataDir, 'sessions', sessionId, 'tool-output');
+}
+
+function countLines(text: string): number {
+  if (!text) return 0;
+  const lines = text.split('\n').length;
+  return text.endsWith('\n') ? lines - 1 : lines;
+}
+
+/** Cut to at most `maxChars`, backing off to the last full line when possible */
+function headAtLine(text: string, maxChars: number): string {
+  const cut = text.slice(0, maxChars);
+  const lastNewline = cut.lastIndexOf('\n');
+  return lastNewline > 0 ? cut.slice(0, lastNewline + 1) : cut;
+}
+
+function tailAtLine(text: string, maxChars: number): string {
+  const cut = text.slice(-maxChars);
+  const firstNewline = cut.indexOf('\n');
+  return firstNewline >= 0 && firstNewline < cut.length - 1 ? cut.slice(firstNewline + 1) : cut;
+}
+
+function spillToFile(spillDir: string, toolUseId: string, content: string): string | null {
+  try {
+    mkdirSync(spillDir, { recursive: true });
+    const filePath = join(spillDir, `${toolUseId.replace(/[^\w.-]/g, '_')}.txt`);
+    writeFileSync(filePath, content);
+    return filePath;
+  } catch (err) {
+    getLogger().warn('Failed to spill tool output', {
+      toolUseId, error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Fit tool output into the shared budget. Without a spill directory (or if
+ * writing fails) the output is truncated instead.
+ */
+export function limitToolOutput(toolUseId: string, output: string, context?: ToolContext): string {
+  if (output.length <= MAX_TOOL_OUTPUT_CHARS) return output;
+
+  const filePath = context?.spillDir ? spillToFile(context.spillDir, toolUseId, output) : null;
+  if (!filePath) {
+    return output.slice(0, MAX_TOOL_OUTPUT_CHARS) +
+      `\n... (output truncated at ${MAX_TOOL_OUTPUT_CHARS} characters)`;
+  }
+
+  const head = headAtLine(output, PREVIEW_HEAD_CHARS);
+  const tail = tailAtLine(output, PREVIEW_TAIL_CHARS);
+  const totalLines = countLines(output);
+  const headLines = countLines(head);
+  const tailLines = countLines(tail);
+  const omitted = Math.max(0, totalLines - headLines - tailLines);
+
+  return [
+    head.trimEnd(),
+    '',
+    `... [${omitted} lines omitted. Full output (${totalLines} lines, ${output.length} characters) ` +
+      `saved to ${filePath}. Page through it with Read using offset=${headLines + 1} and limit.] ...`,
+    '',
+    tail,
+  ].join('\n');
+}
+
+/** Append a chunk to a capture buffer, stopping at MAX_CAPTURE_CHARS */
+export function appendCapped(buffer: string, chunk: string): string {
+  if (buffer.length >= MAX_CAPTURE_CHARS) return buffer;
+  const room = MAX_CAPTURE_CHARS - buffer.length;
+  if (chunk.length <= room) return buffer + chunk;
+  return buffer + chunk.slice(0, room) + `\n... (capture stopped at ${MAX_CAPTURE_CHARS} characters)`;
+}
@@ -1,10 +1,22 @@
 import { existsSync, readFileSync } from 'fs';
+import { basename } from 'path';
 import type { ToolDefinition, ToolResult } from '../../types';
+import type { ToolContext } from '../types';
 import { result, resolvePath } from './helpers';
+import { checkPathAccess, sandboxViolationResult } from './sandbox';
+import { MAX_TOOL_OUTPUT_CHARS } from './output';
+import { recordFileState } from './file-state';
+import { mediaTypeForPath, toMediaBlock, PDF_MEDIA_TYPE } from '../../media';
+
+const DEFAULT_LINE_LIMIT = 2000;
+const MAX_LINE_CHARS = 2000;
 
 export const readFileTool: ToolDefinition = {
   name: 'Read',
-  description: 'Read the contents of a file at the specified path',
+  description:
+    'Read a file at the specified path. Returns line-numbered output. ' +
+    'Use offset and limit to read a specific line range of large files. ' +
+    'Images (PNG, JPEG, GIF, WebP) and PDFs are shown to you directly when the model supports them.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -16,32 +28,119 @@ export const readFileTool: ToolDefinition = {
         type: 'string',
         description: 'The encoding to use (default: utf-8)',
       },
+      offset: {
+        type: 'number',
+        description: 'Line number to start reading from (1-based, default: 1)',
+      },
+      limit: {
+        type: 'number',
+        description: `Maximum number of lines to read (default: ${DEFAULT_LINE_LIMIT})`,
+      },
     },
     required: ['path'],
   },
   isConcurrencySafe: true,
 };
 
+function formatLine(lineNumber: number, line: string): string {
+  const text = line.length > MAX_LINE_CHARS
+    ? `${line.slice(0, MAX_LINE_CHARS)}... [line truncated]`
+    : line;
+  return `${String(lineNumber).padStart(6)}\t${text}`;
+}
+
+/**
+ * Render lines [offset, offset + limit) with line numbers, stopping early
+ * when the output budget is reached. A footer tells the agent how to continue.
+ */
+export function formatLineRange(content: string, offset: number, limit: number): string {
+  const lines = content.split('\n');
+  if (content.endsWith('\n')) lines.pop();
+  const total = lines.length;
+
+  if (total === 0) return '(empty file)';
+  if (offset > total) return `(offset ${offset} is past the end of the file, which has ${total} lines)`;
+
+  const start = offset - 1;
+  const end = Math.min(total, start + limit);
+  const out: string[] = [];
+  let size = 0;
+  let last = start;
+
+  for (let i = start; i < end; i++) {
+    const formatted = formatLine(i + 1, lines[i]!);
+    if (out.length > 0 && size + formatted.length + 1 > MAX_TOOL_OUTPUT_CHARS) break;
+    out.push(formatted);
+    size += formatted.length + 1;
+    last = i + 1;
+  }
+
+  if (start > 0 || last < total) {
+    const more = last < total ? ` Use offset=${last + 1} to read more.` : '';
+    out.push('', `[Showing lines ${offset}-${last} of ${total}.${more}]`);
+  }
+
+  return out.join('\n');
+}
+
 export async function executeReadFile(
   toolUseId: string,
   input: Record<string, unknown>,
+  context?: ToolContext,
 ): Promise<ToolResult> {
   const path = input.path as string;
   const encoding = (input.encoding as BufferEncoding) ?? 'utf-8';
+  const offset = (input.offset as number | undefined) ?? 1;
+  const limit = (input.limit as number | undefined) ?? DEFAULT_LINE_LIMIT;
 
   if (!path) {
     return result(toolUseId, 'Error: path is required', true);
   }
 
+  if (!Number.isInteger(offset) || offset < 1 || !Number.isInteger(limit) || limit < 1) {
+    return result(toolUseId, 'Error: offset and limit must be positive integers', true);
+  }
+
   const resolvedPath = resolvePath(path);
 
+  const violation = checkPathAccess(context?.sandbox, resolvedPath, 'read');
+  if (violation) {
+    return sandboxViolationResult(toolUseId, 'Read', violation);
+  }
+
   if (!existsSync(resolvedPath)) {
     return result(toolUseId, `Error: File not found: ${resolvedPath}`, true);
   }
 
+  const mediaType = mediaTypeForPath(resolvedPath);
+  if (mediaType) {
+    return readMediaFile(toolUseId, resolvedPath, mediaType, context);
+  }
+
   try {
     const content = readFileSync(resolvedPath, encoding);
-    return result(toolUseId, content);
+    if (context) recordFileState(context.sessionId, resolvedPath);
+    return result(toolUseId, formatLineRange(content, offset, limit));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return result(toolUseId, `Error reading file: ${msg}`, true);
+  }
+}
+
+/** Images and PDFs go to the model as content blocks; without vision they cannot be read at all */
+function readMediaFile(
+  toolUseId: string, path: string, mediaType: string, context?: ToolContext,
+): ToolResult {
+  const kind = mediaType === PDF_MEDIA_TYPE ? 'PDF' : 'image';
+  if (!context?.vision) {
+    return result(toolUseId, `Error: ${path} is ${kind === 'PDF' ? 'a PDF' : 'an image'} and the current model cannot view it`, true);
+  }
+
+  try {
+    const data = readFileSync(path);
+    const block = toMediaBlock(data, mediaType, basename(path));
+    recordFileState(context.sessionId, path);
+    return { ...result(toolUseId, `Read ${kind} ${path} (${data.length} bytes); it is attached below.`), media: [block] };
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     return result(toolUseId, `Error reading file: ${msg}`, true);
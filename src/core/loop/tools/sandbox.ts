@@ -0,0 +1,269 @@
+/**
+ * Tool Sandbox
+ * Filesystem, environment and network policy for builtin tools. File tools
+ * are checked against the write roots and denied paths before touching the
+ * disk, and Grep and Glob leave denied files out of their results. Bash gets a scrubbed environment and, when bubblewrap or unshare
+ * is available, a mount/network namespace that enforces the same policy.
+ */
+
+import { existsSync, realpathSync, statSync } from 'fs';
+import { homedir } from 'os';
+import { basename, dirname, join, resolve, sep } from 'path';
+import { SandboxPolicySchema, type SandboxPolicy, type ToolResult } from '../../types';
+import type { ResolvedSandboxPolicy } from '../types';
+import { result } from './helpers';
+import { getLogger } from '../../../infra/logger';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SandboxRule = 'denied_path' | 'outside_write_roots' | 'network_isolation_unavailable';
+
+export interface SandboxViolation {
+  rule: SandboxRule;
+  message: string;
+  path?: string;
+}
+
+/** Namespace tools found on this machine */
+export interface IsolationSupport {
+  bwrap: boolean;
+  unshare: boolean;
+}
+
+export type SandboxedCommand =
+  | { argv: string[]; violation?: undefined }
+  | { argv?: undefined; violation: SandboxViolation };
+
+// ---------------------------------------------------------------------------
+// Path Helpers
+// ---------------------------------------------------------------------------
+
+const GLOB_CHARS = /[*?[\]{}]/;
+
+function expandHome(path: string): string {
+  if (path === '~') return homedir();
+  return path.startsWith('~/') ? join(homedir(), path.slice(2)) : path;
+}
+
+/** Resolve symlinks in the longest existing prefix so links cannot escape a root */
+function canonicalPath(path: string): string {
+  let current = path;
+  const rest: string[] = [];
+  while (!existsSync(current)) {
+    const parent = dirname(current);
+    if (parent === current) return path;
+    rest.unshift(basename(current));
+    current = parent;
+  }
+  try {
+    return join(realpathSync(current), ...rest);
+  } catch {
+    return path;
+  }
+}
+
+function isWithin(path: string, root: string): boolean {
+  return path === root || path.startsWith(root.endsWith(sep) ? root : root + sep);
+}
+
+/** A pattern matches the path itself or any directory above it */
+function matchesDenyPattern(path: string, pattern: string): boolean {
+  if (!GLOB_CHARS.test(pattern)) return isWithin(path, pattern);
+  const glob = new Bun.Glob(pattern);
+  for (let current = path; ; current = dirname(current)) {
+    if (glob.match(current)) return true;
+    if (dirname(current) === current) return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Policy Resolution
+// ---------------------------------------------------------------------------
+
+/**
+ * Merge an agent's sandbox overrides over the configured policy.
+ * Returns undefined when the merged policy is disabled.
+ */
+export function resolveSandboxPolicy(
+  policy?: Partial<SandboxPolicy>,
+  override?: Partial<SandboxPolicy>,
+  cwd = process.cwd(),
+): ResolvedSandboxPolicy | undefined {
+  const merged = SandboxPolicySchema.parse({ ...policy, ...override });
+  if (!merged.enabled) return undefined;
+
+  return {
+    writeRoots: merged.writeRoots.map(root => canonicalPath(resolve(cwd, expandHome(root)))),
+    denyPaths: merged.denyPaths.map(pattern => resolve(cwd, expandHome(pattern))),
+    envAllowlist: merged.envAllowlist,
+    network: merged.network,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+/** Check a resolved path against the policy; writes must also fall inside a write root */
+export function checkPathAccess(
+  policy: ResolvedSandboxPolicy | undefined,
+  path: string,
+  mode: 'read' | 'write',
+): SandboxViolation | null {
+  if (!policy) return null;
+
+  const real = canonicalPath(path);
+  const denied = policy.denyPaths.find(p => matchesDenyPattern(path, p) || matchesDenyPattern(real, p));
+  if (denied) {
+    return { rule: 'denied_path', path, message: `Access to ${path} is denied by sandbox rule ${denied}` };
+  }
+
+  if (mode === 'write' && !policy.writeRoots.some(root => isWithin(real, root))) {
+    return {
+      rule: 'outside_write_roots',
+      path,
+      message: `${path} is outside the sandbox write roots (${policy.writeRoots.join(', ')})`,
+    };
+  }
+
+  return null;
+}
+
+/** Keep only allowlisted environment variables */
+export function sandboxEnv(
+  policy: ResolvedSandboxPolicy,
+  env: NodeJS.ProcessEnv = process.env,
+): NodeJS.ProcessEnv {
+  const allowed = (name: string): boolean => policy.envAllowlist.some(entry =>
+    entry.endsWith('*') ? name.startsWith(entry.slice(0, -1)) : name === entry);
+
+  const scrubbed: NodeJS.ProcessEnv = {};
+  for (const [name, value] of Object.entries(env)) {
+    if (allowed(name)) scrubbed[name] = value;
+  }
+  return scrubbed;
+}
+
+// ---------------------------------------------------------------------------
+// Bash Isolation
+// ---------------------------------------------------------------------------
+
+let isolationSupport: IsolationSupport | null = null;
+
+export function detectIsolationSupport(): IsolationSupport {
+  if (!isolationSupport) {
+    isolationSupport = {
+      bwrap: process.platform === 'linux' && Bun.which('bwrap') !== null,
+      unshare: process.platform === 'linux' && Bun.which('unshare') !== null,
+    };
+  }
+  return isolationSupport;
+}
+
+/**
+ * Literal denied paths mentioned in a command, in absolute, ~ or $HOME form.
+ * Only a guard against the obvious: without bubblewrap, globs, variables and
+ * relative paths after a `cd` still reach denied files.
+ */
+function findDeniedMention(policy: ResolvedSandboxPolicy, command: string): string | undefined {
+  const home = homedir();
+  return policy.denyPaths.filter(p => !GLOB_CHARS.test(p)).find((p) => {
+    if (command.includes(p)) return true;
+    if (!isWithin(p, home)) return false;
+    const rest = p.slice(home.length);
+    return ['~', '$HOME', '${HOME}'].some(prefix => command.includes(`${prefix}${rest}`));
+  });
+}
+
+function bwrapArgs(policy: ResolvedSandboxPolicy, cwd: string): string[] {
+  const args = ['--ro-bind', '/', '/', '--dev', '/dev', '--proc', '/proc', '--tmpfs', '/tmp'];
+
+  for (const root of policy.writeRoots) {
+    if (existsSync(root)) args.push('--bind', root, root);
+  }
+
+  // Hide denied paths that exist; glob patterns are enforced by the path checks only
+  for (const denied of policy.denyPaths) {
+    if (GLOB_CHARS.test(denied) || !existsSync(denied)) continue;
+    if (statSync(denied).isDirectory()) args.push('--tmpfs', denied);
+    else args.push('--ro-bind', '/dev/null', denied);
+  }
+
+  if (!policy.network) args.push('--unshare-net');
+  args.push('--die-with-parent', '--chdir', cwd);
+  return args;
+}
+
+/** Policies already warned about, so each session's policy warns once */
+const unconfinedWarned = new WeakSet<ResolvedSandboxPolicy>();
+
+/** Bash is only confined by bubblewrap; say so rather than fail silently */
+function warnUnconfined(policy: ResolvedSandboxPolicy): void {
+  if (unconfinedWarned.has(policy)) return;
+  unconfinedWarned.add(policy);
+  getLogger().warn(
+    'bubblewrap (bwrap) is not installed, so the sandbox does not confine Bash: it can write outside the write roots '
+      + 'and read denied paths. Install bwrap to enforce them.',
+    { writeRoots: policy.writeRoots, denyPaths: policy.denyPaths },
+  );
+}
+
+/**
+ * Build the argv that runs a Bash command under the policy. Without
+ * bubblewrap only network isolation is applied (via unshare), so neither
+ * write roots nor denied paths are enforced for Bash and a warning is
+ * logged; a no-network
+ * policy with neither tool available is refused rather than run unisolated.
+ */
+export function buildSandboxedCommand(
+  policy: ResolvedSandboxPolicy,
+  command: string,
+  cwd: string,
+  support: IsolationSupport = detectIsolationSupport(),
+): SandboxedCommand {
+  const cwdViolation = checkPathAccess(policy, cwd, 'read');
+  if (cwdViolation) return { violation: cwdViolation };
+
+  const mention = findDeniedMention(policy, command);
+  if (mention) {
+    return {
+      violation: { rule: 'denied_path', path: mention, message: `Command references ${mention}, which is denied by the sandbox` },
+    };
+  }
+
+  if (support.bwrap) {
+    return { argv: ['bwrap', ...bwrapArgs(policy, cwd), 'bash', '-c', command] };
+  }
+  if (!policy.network && !support.unshare) {
+    return {
+      violation: {
+        rule: 'network_isolation_unavailable',
+        message: 'Sandbox disallows network access, but neither bwrap nor unshare is available',
+      },
+    };
+  }
+
+  warnUnconfined(policy);
+  if (!policy.network) {
+    return { argv: ['unshare', '--user', '--map-root-user', '--net', '--', 'bash', '-c', command] };
+  }
+
+  return { argv: ['bash', '-c', command] };
+}
+
+// ---------------------------------------------------------------------------
+// Tool Errors
+// ---------------------------------------------------------------------------
+
+/** Tool error for a sandbox violation, with a machine-readable JSON line */
+export function sandboxViolationResult(
+  toolUseId: string,
+  tool: string,
+  violation: SandboxViolation,
+): ToolResult {
+  getLogger().warn('Sandbox violation', { toolUseId, tool, rule: violation.rule, path: violation.path });
+  const details = JSON.stringify({ error: 'sandbox_violation', tool, rule: violation.rule, path: violation.path });
+  return result(toolUseId, `Error: Sandbox violation: ${violation.message}\n${details}`, true);
+}
@@ -9,13 +9,16 @@ export interface SpawnAgentDeps {
     task: string,
     options?: {
       timeout?: number; tools?: string[]; parentId?: string;
-      depth?: number; resumeSessionId?: string;
+      depth?: number; resumeSessionId?: string; taskId?: string; swarmId?: string;
     },
   ) => Promise<SubagentRecord>;
   listAgents: () => AgentDefinition[];
   getAgent: (name: string) => AgentDefinition | undefined;
   currentDepth?: number;
   parentId?: string;
+  /** Task and swarm of the spawning run; subagents inherit them for usage accounting */
+  taskId?: string;
+  swarmId?: string;
   getSubagentSessionId?: (recordId: string) => string | undefined;
 }
 
@@ -122,6 +125,8 @@ async function executeSpawnAgent(
       parentId: deps.parentId,
       depth: (deps.currentDepth ?? 0) + 1,
       resumeSessionId,
+      taskId: deps.taskId,
+      swarmId: deps.swarmId,
     });
 
     return formatResult(toolUseId, record, resolvedName);
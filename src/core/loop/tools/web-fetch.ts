@@ -0,0 +1,190 @@
+/**
+ * WebFetch Tool
+ * Fetches a URL and returns HTML pages as markdown, subject to the web
+ * domain policy and the private address guard. Redirects are followed by
+ * hand so every hop is checked.
+ */
+
+import type { ToolDefinition, ToolResult } from '../../types';
+import type { ToolContext } from '../types';
+import { result } from './helpers';
+import { limitToolOutput } from './output';
+import { checkAddress, checkDomain, getCachedResponse, setCachedResponse } from './web';
+import { htmlToMarkdown, extractTitle } from './html-to-markdown';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const FETCH_TIMEOUT_MS = 30_000;
+const MAX_REDIRECTS = 5;
+const DEFAULT_MAX_CHARS = 20_000;
+/** Bytes of body read before the rest is dropped, so a huge page cannot fill memory */
+const MAX_BODY_BYTES = 2_000_000;
+const USER_AGENT = 'daemux-webfetch/1.0';
+
+const TEXT_TYPES = /^(text\/|application\/(json|xml|xhtml\+xml|javascript|x-yaml|yaml|ld\+json)|[^;]*\+(json|xml))/i;
+
+export const webFetchTool: ToolDefinition = {
+  name: 'WebFetch',
+  description: 'Fetch a URL and return its content. HTML pages are converted to markdown; ' +
+    'long pages are truncated to max_chars.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      url: {
+        type: 'string',
+        description: 'The http(s) URL to fetch',
+      },
+      max_chars: {
+        type: 'number',
+        description: `Maximum characters of content to return (default: ${DEFAULT_MAX_CHARS})`,
+      },
+    },
+    required: ['url'],
+  },
+  isConcurrencySafe: true,
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function parseHttpUrl(raw: string): URL | string {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return `Invalid URL: ${raw}`;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return `Unsupported protocol ${url.protocol} (only http and https are allowed)`;
+  }
+  return url;
+}
+
+/** Fetch with manual redirects so the domain policy and address guard apply to every hop */
+async function fetchWithPolicy(start: URL, context?: ToolContext): Promise<{ response: Response; url: URL } | string> {
+  let url = start;
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const denied = checkDomain(url, context?.web);
+    if (denied) return denied;
+    const privateAddress = await checkAddress(url, context?.web);
+    if (privateAddress) return privateAddress;
+
+    const response = await fetch(url, {
+      redirect: 'manual',
+      signal,
+      headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,text/markdown,text/plain,*/*;q=0.8' },
+    });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url };
+    }
+
+    await response.body?.cancel();
+    const next = parseHttpUrl(new URL(location, url).toString());
+    if (typeof next === 'string') return `Redirect to ${location} refused: ${next}`;
+    url = next;
+  }
+
+  return `Too many redirects (more than ${MAX_REDIRECTS})`;
+}
+
+/** Read the body as UTF-8 text, stopping once maxBytes have arrived */
+async function readBody(response: Response, maxBytes: number): Promise<{ text: string; truncated: boolean }> {
+  if (!response.body) return { text: '', truncated: false };
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let received = 0;
+
+  while (received < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) return { text: text + decoder.decode(), truncated: false };
+    const chunk = value.subarray(0, maxBytes - received);
+    received += chunk.byteLength;
+    text += decoder.decode(chunk, { stream: true });
+  }
+
+  await reader.cancel();
+  return { text: text + decoder.decode(), truncated: true };
+}
+
+function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  return `${text.slice(0, maxChars)}\n\n[Content truncated: showing ${maxChars} of ${text.length} characters]`;
+}
+
+// ---------------------------------------------------------------------------
+// Executor
+// ---------------------------------------------------------------------------
+
+export async function executeWebFetch(
+  toolUseId: string,
+  input: Record<string, unknown>,
+  context?: ToolContext,
+): Promise<ToolResult> {
+  const rawUrl = input.url as string;
+  const maxChars = typeof input.max_chars === 'number' && input.max_chars > 0
+    ? Math.floor(input.max_chars)
+    : DEFAULT_MAX_CHARS;
+
+  if (!rawUrl) {
+    return result(toolUseId, 'Error: url is required', true);
+  }
+  if (context?.sandbox && !context.sandbox.network) {
+    return result(toolUseId, 'Error: Sandbox disallows network access', true);
+  }
+
+  const url = parseHttpUrl(rawUrl);
+  if (typeof url === 'string') {
+    return result(toolUseId, `Error: ${url}`, true);
+  }
+
+  const cacheKey = `fetch:${url.toString()}`;
+  const cached = getCachedResponse(context?.sessionId, cacheKey);
+  if (cached !== undefined) {
+    return result(toolUseId, limitToolOutput(toolUseId, truncate(cached, maxChars), context));
+  }
+
+  try {
+    const fetched = await fetchWithPolicy(url, context);
+    if (typeof fetched === 'string') {
+      return result(toolUseId, `Error: ${fetched}`, true);
+    }
+    const { response, url: finalUrl } = fetched;
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      return result(toolUseId, `Error: HTTP ${response.status} ${response.statusText} fetching ${finalUrl}`, true);
+    }
+
+    const contentType = response.headers.get('content-type') ?? 'text/plain';
+    if (!TEXT_TYPES.test(contentType)) {
+      await response.body?.cancel();
+      return result(toolUseId, `Error: Unsupported content type ${contentType} at ${finalUrl}`, true);
+    }
+
+    const { text: body, truncated } = await readBody(response, MAX_BODY_BYTES);
+    const isHtml = /html/i.test(contentType);
+    const title = isHtml ? extractTitle(body) : undefined;
+    const content = isHtml ? htmlToMarkdown(body, finalUrl.toString()) : body;
+
+    const header = [
+      `URL: ${finalUrl}`,
+      ...(title ? [`Title: ${title}`] : []),
+    ].join('\n');
+    const footer = truncated ? `\n\n[Response body truncated at ${MAX_BODY_BYTES} bytes]` : '';
+    const output = `${header}\n\n${content}${footer}`;
+
+    setCachedResponse(context?.sessionId, cacheKey, output);
+    return result(toolUseId, limitToolOutput(toolUseId, truncate(output, maxChars), context));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return result(toolUseId, `Error fetching ${url}: ${msg}`, true);
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * WebSearch Tool
+ * Searches the web through a pluggable provider. Daemux ships no search
+ * backend of its own; plugins supply one with
+ * `api.registerTool({ webSearchProvider })`.
+ */
+
+import type { ToolDefinition, ToolResult } from '../../types';
+import type { WebSearchProvider, WebSearchResult } from '../../plugin-api-types';
+import type { ToolContext } from '../types';
+import { result } from './helpers';
+import { limitToolOutput } from './output';
+import { checkDomain, getCachedResponse, setCachedResponse } from './web';
+import { getLogger } from '../../../infra/logger';
+
+// ---------------------------------------------------------------------------
+// Provider Registry
+// ---------------------------------------------------------------------------
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+
+let provider: WebSearchProvider | null = null;
+
+export function registerWebSearchProvider(searchProvider: WebSearchProvider): void {
+  if (provider && provider.name !== searchProvider.name) {
+    getLogger().warn('Replacing web search provider', { previous: provider.name, next: searchProvider.name });
+  }
+  provider = searchProvider;
+}
+
+export function getWebSearchProvider(): WebSearchProvider | null {
+  return provider;
+}
+
+/** Remove the registered provider (plugin unload, tests) */
+export function clearWebSearchProvider(): void {
+  provider = null;
+}
+
+// ---------------------------------------------------------------------------
+// Tool Definition
+// ---------------------------------------------------------------------------
+
+export const webSearchTool: ToolDefinition = {
+  name: 'WebSearch',
+  description: 'Search the web and return a list of result titles, URLs and snippets',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'The search query',
+      },
+      limit: {
+        type: 'number',
+        description: `Maximum number of results (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})`,
+      },
+    },
+    required: ['query'],
+  },
+  isConcurrencySafe: true,
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function isReachable(entry: WebSearchResult, context?: ToolContext): boolean {
+  try {
+    return checkDomain(new URL(entry.url), context?.web) === null;
+  } catch {
+    return false;
+  }
+}
+
+function formatResults(query: string, results: WebSearchResult[]): string {
+  if (results.length === 0) return `No results for: ${query}`;
+  const lines = results.map((entry, i) => {
+    const snippet = entry.snippet?.trim() ? `\n   ${entry.snippet.trim().replace(/\s+/g, ' ')}` : '';
+    return `${i + 1}. [${entry.title || entry.url}](${entry.url})${snippet}`;
+  });
+  return `Results for: ${query}\n\n${lines.join('\n')}`;
+}
+
+// ---------------------------------------------------------------------------
+// Executor
+// ---------------------------------------------------------------------------
+
+export async function executeWebSearch(
+  toolUseId: string,
+  input: Record<string, unknown>,
+  context?: ToolContext,
+): Promise<ToolResult> {
+  const query = typeof input.query === 'string' ? input.query.trim() : '';
+  const limit = typeof input.limit === 'number' && input.limit > 0
+    ? Math.min(Math.floor(input.limit), MAX_LIMIT)
+    : DEFAULT_LIMIT;
+
+  if (!query) {
+    return result(toolUseId, 'Error: query is required', true);
+  }
+  if (!provider) {
+    return result(toolUseId, 'Error: No web search provider is registered. Install a plugin that provides one.', true);
+  }
+  if (context?.sandbox && !context.sandbox.network) {
+    return result(toolUseId, 'Error: Sandbox disallows network access', true);
+  }
+
+  const cacheKey = `search:${provider.name}:${limit}:${query}`;
+  const cached = getCachedResponse(context?.sessionId, cacheKey);
+  if (cached !== undefined) {
+    return result(toolUseId, limitToolOutput(toolUseId, cached, context));
+  }
+
+  try {
+    const found = await provider.search(query, { limit });
+    const output = formatResults(query, found.filter(entry => isReachable(entry, context)).slice(0, limit));
+    setCachedResponse(context?.sessionId, cacheKey, output);
+    return result(toolUseId, limitToolOutput(toolUseId, output, context));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return result(toolUseId, `Error: Web search failed (${provider.name}): ${msg}`, true);
+  }
+}
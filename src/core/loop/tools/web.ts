@@ -0,0 +1,146 @@
+/**
+ * Web Tool Helpers
+ * Domain allow/deny checks, the private address guard and the response
+ * cache shared by WebFetch and WebSearch.
+ */
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import type { WebToolsPolicy } from '../../types';
+
+// ---------------------------------------------------------------------------
+// Domain Policy
+// ---------------------------------------------------------------------------
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^\*\./, '').replace(/\.$/, '');
+}
+
+function matchesDomain(hostname: string, domain: string): boolean {
+  const normalized = normalizeDomain(domain);
+  return hostname === normalized || hostname.endsWith(`.${normalized}`);
+}
+
+/** Reason the URL is not reachable under the policy, or null when it is */
+export function checkDomain(url: URL, policy?: Partial<WebToolsPolicy>): string | null {
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, '');
+  const blocked = policy?.blockedDomains?.find(d => matchesDomain(hostname, d));
+  if (blocked) return `Domain ${hostname} is blocked by web policy (${blocked})`;
+
+  const allowed = policy?.allowedDomains ?? [];
+  if (allowed.length > 0 && !allowed.some(d => matchesDomain(hostname, d))) {
+    return `Domain ${hostname} is not in the allowed domains (${allowed.join(', ')})`;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Private Addresses
+// ---------------------------------------------------------------------------
+
+function isPrivateIPv4(address: string): boolean {
+  const [a = 0, b = 0] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168);
+}
+
+/** The IPv4 address inside an IPv4-mapped IPv6 address (::ffff:a.b.c.d or ::ffff:xxxx:xxxx) */
+function mappedIPv4(address: string): string | null {
+  const tail = /^::ffff:(.+)$/i.exec(address)?.[1];
+  if (!tail) return null;
+  if (isIP(tail) === 4) return tail;
+  const groups = tail.split(':');
+  if (groups.length !== 2) return null;
+  const [high = 0, low = 0] = groups.map(g => parseInt(g, 16));
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+}
+
+/** Whether an IP address is unspecified, loopback, link-local or private */
+export function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) return isPrivateIPv4(address);
+
+  const lower = address.toLowerCase();
+  const mapped = mappedIPv4(lower);
+  if (mapped) return isPrivateIPv4(mapped);
+  return lower === '::' || lower === '::1' ||
+    /^f[cd][0-9a-f]{2}:/.test(lower) ||
+    /^fe[89ab][0-9a-f]:/.test(lower);
+}
+
+/**
+ * Reason the URL's host must not be fetched because it resolves to a
+ * loopback, link-local or private address, or null when it may be. Every
+ * address the name resolves to is checked, so a DNS answer cannot slip a
+ * private address in next to a public one.
+ */
+export async function checkAddress(url: URL, policy?: Partial<WebToolsPolicy>): Promise<string | null> {
+  if (policy?.allowPrivateNetwork) return null;
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true })).map(a => a.address);
+    } catch {
+      // Unresolvable: the fetch itself reports the error
+      return null;
+    }
+  }
+
+  const blocked = addresses.find(isPrivateAddress);
+  if (!blocked) return null;
+  return `${url.hostname} resolves to private address ${blocked}; set web.allowPrivateNetwork to allow it`;
+}
+
+// ---------------------------------------------------------------------------
+// Response Cache
+// ---------------------------------------------------------------------------
+
+const CACHE_TTL_MS = 15 * 60 * 1000;
+/** Entries across all sessions; the least recently used is dropped first */
+const MAX_ENTRIES = 500;
+const DEFAULT_SESSION = 'default';
+
+const cache = new Map<string, { value: string; expiresAt: number }>();
+
+function cacheKey(sessionId: string | undefined, key: string): string {
+  return `${sessionId ?? DEFAULT_SESSION}\0${key}`;
+}
+
+export function getCachedResponse(sessionId: string | undefined, key: string): string | undefined {
+  const id = cacheKey(sessionId, key);
+  const entry = cache.get(id);
+  if (!entry) return undefined;
+  cache.delete(id);
+  if (entry.expiresAt <= Date.now()) return undefined;
+  cache.set(id, entry);
+  return entry.value;
+}
+
+export function setCachedResponse(sessionId: string | undefined, key: string, value: string): void {
+  const id = cacheKey(sessionId, key);
+  cache.delete(id);
+  cache.set(id, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+
+  // Maps keep insertion order, so the first key is the least recently used
+  if (cache.size > MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+/** Drop cached web responses for one session, or for all sessions */
+export function clearWebCache(sessionId?: string): void {
+  if (sessionId === undefined) {
+    cache.clear();
+    return;
+  }
+  const prefix = cacheKey(sessionId, '');
+  for (const id of cache.keys()) {
+    if (id.startsWith(prefix)) cache.delete(id);
+  }
+}
@@ -1,7 +1,11 @@
 import { writeFileSync, mkdirSync } from 'fs';
 import { dirname } from 'path';
 import type { ToolDefinition, ToolResult } from '../../types';
+import type { ToolContext } from '../types';
 import { result, resolvePath } from './helpers';
+import { checkPathAccess, sandboxViolationResult } from './sandbox';
+import { checkFileFreshness, recordFileState } from './file-state';
+import { saveFileSnapshot } from './file-snapshots';
 
 export const writeFileTool: ToolDefinition = {
   name: 'Write',
@@ -30,6 +34,7 @@ export const writeFileTool: ToolDefinition = {
 export async function executeWriteFile(
   toolUseId: string,
   input: Record<string, unknown>,
+  context?: ToolContext,
 ): Promise<ToolResult> {
   const path = input.path as string;
   const content = input.content as string;
@@ -44,9 +49,21 @@ export async function executeWriteFile(
 
   const resolvedPath = resolvePath(path);
 
+  const violation = checkPathAccess(context?.sandbox, resolvedPath, 'write');
+  if (violation) {
+    return sandboxViolationResult(toolUseId, 'Write', violation);
+  }
+
+  const stale = context ? checkFileFreshness(context.sessionId, resolvedPath) : null;
+  if (stale) {
+    return result(toolUseId, `Error: ${stale}`, true);
+  }
+
   try {
     mkdirSync(dirname(resolvedPath), { recursive: true });
+    saveFileSnapshot(context, 'Write', toolUseId, resolvedPath);
     writeFileSync(resolvedPath, content, encoding);
+    if (context) recordFileState(context.sessionId, resolvedPath);
     return result(toolUseId, `File written successfully: ${resolvedPath}`);
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
@@ -2,13 +2,17 @@
  * Agentic Loop Types
  */
 
-import type { Message, ToolDefinition, ToolResult, AgentDefinition } from '../types';
+import type {
+  Message, ToolDefinition, ToolResult, AgentDefinition, ThinkingLevel, WebToolsPolicy,
+  ImageBlock, DocumentBlock, MediaBlock,
+} from '../types';
+import type { OutputSchema } from '../structured-output';
 
 // ---------------------------------------------------------------------------
 // Loop Configuration
 // ---------------------------------------------------------------------------
 
-export interface LoopConfig {
+export interface LoopConfig<T = unknown> {
   sessionId?: string;
   agent?: AgentDefinition;
   systemPrompt?: string;
@@ -16,11 +20,51 @@ export interface LoopConfig {
   /** Custom tool executors to register on the ToolExecutor instance */
   toolExecutors?: Map<string, (id: string, input: Record<string, unknown>) => Promise<ToolResult>>;
   timeoutMs?: number;
+  /** Work-loop task and swarm the run belongs to, for usage accounting and budgets */
+  taskId?: string;
+  swarmId?: string;
   compactionThreshold?: number;
+  /** Overrides and persists the session's extended thinking level */
+  thinkingLevel?: ThinkingLevel;
+  /** Schema the final answer must match; it is returned as LoopResult.output */
+  outputSchema?: OutputSchema<T>;
+  /** Repair attempts after an invalid or missing answer (default 2) */
+  maxOutputRepairs?: number;
   onStream?: (chunk: StreamChunk) => void;
   onToolCall?: (name: string, input: Record<string, unknown>) => Promise<void>;
 }
 
+// ---------------------------------------------------------------------------
+// Tool Context
+// ---------------------------------------------------------------------------
+
+/** Per-run context passed by the ToolExecutor to builtin tool executors */
+export interface ToolContext {
+  sessionId: string;
+  /** Directory for tool output that exceeds the output budget */
+  spillDir?: string;
+  /** Directory for pre-edit file snapshots; none are kept when absent */
+  snapshotDir?: string;
+  /** Assistant message whose tool calls are running; snapshots are recorded against it */
+  messageUuid?: string;
+  /** Active sandbox policy; tools run unrestricted when absent */
+  sandbox?: ResolvedSandboxPolicy;
+  /** Domain allow/deny lists for WebFetch and WebSearch */
+  web?: Partial<WebToolsPolicy>;
+  /** The provider accepts image and document blocks; Read returns them only then */
+  vision?: boolean;
+  /** Receives partial output while a long-running tool executes */
+  onProgress?: (toolUseId: string, output: string) => void;
+}
+
+/** Sandbox policy with paths expanded to absolute form */
+export interface ResolvedSandboxPolicy {
+  writeRoots: string[];
+  denyPaths: string[];
+  envAllowlist: string[];
+  network: boolean;
+}
+
 // ---------------------------------------------------------------------------
 // Stream Chunks
 // ---------------------------------------------------------------------------
@@ -29,6 +73,7 @@ export type StreamChunk =
   | { type: 'text'; content: string }
   | { type: 'tool_start'; toolUseId: string; name: string }
   | { type: 'tool_input'; toolUseId: string; input: string }
+  | { type: 'tool_progress'; toolUseId: string; content: string }
   | { type: 'tool_result'; toolUseId: string; result: string; isError: boolean }
   | { type: 'thinking'; content: string }
   | { type: 'done'; stopReason: string };
@@ -37,12 +82,16 @@ export type StreamChunk =
 // Loop Result
 // ---------------------------------------------------------------------------
 
-export interface LoopResult {
+export interface LoopResult<T = unknown> {
   response: string;
   sessionId: string;
   tokensUsed: {
     input: number;
     output: number;
+    /** Input tokens served from the prompt cache */
+    cacheRead: number;
+    /** Input tokens written to the prompt cache */
+    cacheWrite: number;
   };
   toolCalls: Array<{
     name: string;
@@ -51,9 +100,15 @@ export interface LoopResult {
     isError: boolean;
     durationMs: number;
   }>;
-  stopReason: 'end_turn' | 'max_tokens' | 'tool_use' | 'timeout';
+  stopReason:
+    | 'end_turn' | 'max_tokens' | 'tool_use' | 'timeout' | 'budget_exceeded' | 'invalid_output'
+    | 'context_overflow';
   durationMs: number;
   compacted: boolean;
+  /** Validated final answer when the run had an outputSchema */
+  output?: T;
+  /** Validation errors of the last answer when stopReason is 'invalid_output' */
+  outputErrors?: string[];
 }
 
 // ---------------------------------------------------------------------------
@@ -74,12 +129,25 @@ export interface ToolResultBlock {
   is_error?: boolean;
 }
 
+export interface ThinkingBlock {
+  type: 'thinking';
+  thinking: string;
+  signature: string;
+}
+
+export interface RedactedThinkingBlock {
+  type: 'redacted_thinking';
+  data: string;
+}
+
 export interface ToolCallRecord {
   name: string;
   input: Record<string, unknown>;
   result: string;
   isError: boolean;
   durationMs: number;
+  /** Images or documents the tool returned alongside its text result */
+  media?: MediaBlock[];
 }
 
 // ---------------------------------------------------------------------------
@@ -94,7 +162,11 @@ export interface APIMessage {
 export type ContentBlock =
   | { type: 'text'; text: string }
   | ToolUseBlock
-  | ToolResultBlock;
+  | ToolResultBlock
+  | ThinkingBlock
+  | RedactedThinkingBlock
+  | ImageBlock
+  | DocumentBlock;
 
 // ---------------------------------------------------------------------------
 // API Response Types
@@ -107,6 +179,8 @@ export interface APIResponse {
   usage: {
     input_tokens: number;
     output_tokens: number;
+    cache_read_input_tokens?: number;
+    cache_creation_input_tokens?: number;
   };
 }
 
@@ -120,3 +194,11 @@ export interface SessionContext {
   tokenCount: number;
   compactionCount: number;
 }
+
+/** Token counts of the fixed context components, as seen by the token counter */
+export interface ContextTokenCounts {
+  systemPrompt: number;
+  agentContext: number;
+  builtinTools: number;
+  mcpTools: number;
+}
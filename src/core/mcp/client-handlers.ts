@@ -0,0 +1,124 @@
+/**
+ * MCP Client Handlers
+ * Answers the requests MCP servers send to daemux: sampling/createMessage
+ * runs on the main conversation model once the user approves it, roots/list
+ * reports the workspace directories, and elicitation/create asks the user
+ * through the ElicitationBroker.
+ */
+
+import { basename, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { MCPRequestError } from '@daemux/mcp-client';
+import type {
+  MCPClientHandlers, MCPRoot, MCPSamplingMessage, MCPSamplingRequest,
+} from '@daemux/mcp-client';
+import type { LLMChatOptions } from '../plugin-api-types';
+import type { ResolvedModel } from '../model-router';
+import type { ApprovalManager } from '../approval-manager';
+import type { SandboxPolicy } from '../types';
+import { resolveSandboxPolicy } from '../loop/tools/sandbox';
+import type { ElicitationBroker } from './elicitation';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface MCPClientHandlerOptions {
+  /** Provider and model sampling requests run on, resolved per request */
+  resolveModel: () => ResolvedModel;
+  /** Asks the user before each sampling request; sampling is not offered without it */
+  approvals?: ApprovalManager;
+  /** Workspace directories reported by roots/list */
+  roots: () => string[];
+  /** Relays elicitation requests to the user; elicitation is not offered without it */
+  elicitation?: ElicitationBroker;
+}
+
+/** Error code the MCP specification uses for a sampling request the user rejected */
+export const USER_REJECTED = -1;
+
+const PREVIEW_LENGTH = 120;
+
+// ---------------------------------------------------------------------------
+// Roots
+// ---------------------------------------------------------------------------
+
+/** The working directory plus the sandbox write roots, without duplicates */
+export function workspaceRoots(sandbox?: Partial<SandboxPolicy>, cwd = process.cwd()): string[] {
+  const roots = [resolve(cwd), ...(resolveSandboxPolicy(sandbox, undefined, cwd)?.writeRoots ?? [])];
+  return [...new Set(roots)];
+}
+
+function toRoot(dir: string): MCPRoot {
+  return { uri: pathToFileURL(dir).href, name: basename(dir) || dir };
+}
+
+// ---------------------------------------------------------------------------
+// Sampling
+// ---------------------------------------------------------------------------
+
+function describeSampling(serverId: string, request: MCPSamplingRequest): string {
+  const last = [...request.messages].reverse().find(m => m.content.type === 'text');
+  const text = last?.content.type === 'text' ? last.content.text.replace(/\s+/g, ' ').trim() : '';
+  const preview = text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}...` : text;
+  return `MCP sampling for '${serverId}' (${request.messages.length} message(s), up to ${request.maxTokens} tokens): "${preview}"`;
+}
+
+/** Text goes through as is; images only when the provider can see them */
+function toChatMessage(message: MCPSamplingMessage, vision: boolean): LLMChatOptions['messages'][number] {
+  const { content } = message;
+  if (content.type === 'text') return { role: message.role, content: content.text };
+  if (content.type === 'image' && vision) {
+    return {
+      role: message.role,
+      content: [{ type: 'image', source: { type: 'base64', media_type: content.mimeType, data: content.data } }],
+    };
+  }
+  return { role: message.role, content: `[${content.type}: ${content.mimeType} omitted]` };
+}
+
+function createSamplingHandler(
+  options: MCPClientHandlerOptions, approvals: ApprovalManager,
+): NonNullable<MCPClientHandlers['createMessage']> {
+  /** Servers the user allowed for the rest of the process with "allow-always" */
+  const allowed = new Set<string>();
+
+  return async (serverId, request) => {
+    if (!allowed.has(serverId)) {
+      const decision = await approvals.requestApproval(describeSampling(serverId, request), {
+        mcpServer: serverId, maxTokens: request.maxTokens,
+      });
+      if (decision === 'allow-always') allowed.add(serverId);
+      else if (decision !== 'allow-once') throw new MCPRequestError(USER_REJECTED, 'User rejected sampling request');
+    }
+
+    const { provider, model, maxTokens } = options.resolveModel();
+    const response = await provider.compactionChat({
+      model,
+      messages: request.messages.map(m => toChatMessage(m, provider.capabilities.vision)),
+      systemPrompt: request.systemPrompt,
+      maxTokens: Math.min(request.maxTokens, maxTokens ?? request.maxTokens),
+    });
+
+    const text = response.content.filter(b => b.type === 'text').map(b => b.text ?? '').join('');
+    return {
+      role: 'assistant',
+      content: { type: 'text', text },
+      model,
+      stopReason: response.stopReason === 'max_tokens' ? 'maxTokens' : 'endTurn',
+    };
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function createMCPClientHandlers(options: MCPClientHandlerOptions): MCPClientHandlers {
+  const { approvals, elicitation } = options;
+  return {
+    createMessage: approvals ? createSamplingHandler(options, approvals) : undefined,
+    listRoots: async () => options.roots().map(toRoot),
+    elicit: elicitation ? (serverId, request) => elicitation.request(serverId, request) : undefined,
+  };
+}
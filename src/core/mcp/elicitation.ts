@@ -0,0 +1,208 @@
+/**
+ * MCP Elicitation
+ * Relays elicitation/create requests from MCP servers to the user. Each
+ * question is announced with an mcp:elicitation event; the interactive
+ * CLI and chat channels answer it with `/answer <id> field=value ...` or
+ * `/answer <id> decline`. Questions nobody can see are cancelled at once.
+ */
+
+import { randomUUID } from 'crypto';
+import type { MCPElicitationRequest, MCPElicitationResult, MCPElicitationSchema } from '@daemux/mcp-client';
+import type { EventBus } from '../event-bus';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ElicitationField {
+  name: string;
+  type: MCPElicitationSchema['properties'][string]['type'];
+  required: boolean;
+  title?: string;
+  description?: string;
+  enum?: string[];
+}
+
+export interface PendingElicitation {
+  id: string;
+  server: string;
+  message: string;
+  fields: ElicitationField[];
+}
+
+interface PendingEntry {
+  request: PendingElicitation;
+  resolve: (result: MCPElicitationResult) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+export const ANSWER_COMMAND = /^\/answer\s+(\S+)(?:\s+([\s\S]*))?$/;
+
+const DEFAULT_TIMEOUT_MS = 300_000;
+/** field=value, field="quoted value", "quoted value" or a bare word */
+const TOKEN_PATTERN = /([\w.-]+)=(?:"([^"]*)"|(\S*))|"([^"]*)"|(\S+)/g;
+const TRUE_VALUES = new Set(['true', 'yes', 'y']);
+const FALSE_VALUES = new Set(['false', 'no', 'n']);
+
+// ---------------------------------------------------------------------------
+// Questions and Answers
+// ---------------------------------------------------------------------------
+
+export function schemaFields(schema: MCPElicitationSchema): ElicitationField[] {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties ?? {}).map(([name, prop]) => ({
+    name,
+    type: prop.type,
+    required: required.has(name),
+    title: prop.title,
+    description: prop.description,
+    enum: prop.enum,
+  }));
+}
+
+/** The question as shown to the user, with how to answer it */
+export function formatElicitation(request: PendingElicitation): string {
+  const lines = [`MCP server '${request.server}' asks: ${request.message}`];
+  for (const field of request.fields) {
+    const kind = field.enum ? field.enum.join('|') : field.type;
+    const label = field.title && field.title !== field.name ? ` - ${field.title}` : '';
+    const description = field.description ? `: ${field.description}` : '';
+    lines.push(`  ${field.name} (${kind}${field.required ? ', required' : ''})${label}${description}`);
+  }
+  const example = request.fields.length === 1
+    ? '<value>'
+    : request.fields.map(f => `${f.name}=<value>`).join(' ');
+  lines.push(`Reply /answer ${request.id.slice(0, 8)} ${example || 'ok'} or /answer ${request.id.slice(0, 8)} decline`);
+  return lines.join('\n');
+}
+
+function parseValue(field: ElicitationField, raw: string): string | number | boolean {
+  switch (field.type) {
+    case 'boolean': {
+      const value = raw.toLowerCase();
+      if (TRUE_VALUES.has(value)) return true;
+      if (FALSE_VALUES.has(value)) return false;
+      throw new Error(`${field.name} must be yes or no`);
+    }
+    case 'number':
+    case 'integer': {
+      const value = Number(raw);
+      if (raw === '' || Number.isNaN(value) || (field.type === 'integer' && !Number.isInteger(value))) {
+        throw new Error(`${field.name} must be ${field.type === 'integer' ? 'a whole number' : 'a number'}`);
+      }
+      return value;
+    }
+    default:
+      if (field.enum && !field.enum.includes(raw)) {
+        throw new Error(`${field.name} must be one of ${field.enum.join(', ')}`);
+      }
+      return raw;
+  }
+}
+
+/**
+ * Parses an answer: "decline" or "cancel", key=value pairs, or the bare
+ * value when the question has a single field. Throws with a message for
+ * the user when the answer does not fit the schema.
+ */
+export function parseElicitationAnswer(fields: ElicitationField[], text: string): MCPElicitationResult {
+  const trimmed = text.trim();
+  if (trimmed === 'decline' || trimmed === 'cancel') return { action: trimmed };
+  if (fields.length === 0) return { action: 'accept', content: {} };
+
+  const content: Record<string, string | number | boolean> = {};
+  const single = fields.length === 1 ? fields[0]! : null;
+  const tokens = [...trimmed.matchAll(TOKEN_PATTERN)];
+
+  if (single && !tokens.some(m => m[1] === single.name)) {
+    const raw = tokens.length === 1 ? tokens[0]![4] ?? tokens[0]![0] : trimmed;
+    if (raw) content[single.name] = parseValue(single, raw);
+  } else {
+    for (const match of tokens) {
+      const field = fields.find(f => f.name === match[1]);
+      if (!field) throw new Error(`Unexpected "${match[0]}"; answer with field=value`);
+      content[field.name] = parseValue(field, match[2] ?? match[3] ?? '');
+    }
+  }
+
+  const missing = fields.filter(f => f.required && !(f.name in content));
+  if (missing.length > 0) throw new Error(`Missing ${missing.map(f => f.name).join(', ')}`);
+  return { action: 'accept', content };
+}
+
+// ---------------------------------------------------------------------------
+// Elicitation Broker
+// ---------------------------------------------------------------------------
+
+export class ElicitationBroker {
+  private pending = new Map<string, PendingEntry>();
+  private eventBus: EventBus;
+  private timeoutMs: number;
+
+  constructor(options: { eventBus: EventBus; timeoutMs?: number }) {
+    this.eventBus = options.eventBus;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /** Asks the user; resolves with their answer, or cancel on timeout or when nobody is listening */
+  request(server: string, params: MCPElicitationRequest): Promise<MCPElicitationResult> {
+    if (this.eventBus.listenerCount('mcp:elicitation') === 0) {
+      return Promise.resolve({ action: 'cancel' });
+    }
+
+    const request: PendingElicitation = {
+      id: randomUUID(),
+      server,
+      message: params.message,
+      fields: schemaFields(params.requestedSchema),
+    };
+
+    return new Promise<MCPElicitationResult>((resolve) => {
+      const timeout = setTimeout(() => this.settle(request.id, { action: 'cancel' }), this.timeoutMs);
+      this.pending.set(request.id, { request, resolve, timeout });
+      void this.eventBus.emit('mcp:elicitation', {
+        id: request.id, server, question: formatElicitation(request),
+      });
+    });
+  }
+
+  getPending(): PendingElicitation[] {
+    return Array.from(this.pending.values()).map(entry => entry.request);
+  }
+
+  /**
+   * Handles an `/answer <id> ...` command and returns a confirmation for
+   * the user. Throws when no question matches or the answer is invalid.
+   */
+  answer(command: string): string {
+    const match = command.trim().match(ANSWER_COMMAND);
+    if (!match) throw new Error('Usage: /answer <id> field=value ... | decline');
+
+    const [, idPrefix, text] = match;
+    const matches = this.getPending().filter(r => r.id.startsWith(idPrefix!));
+    if (matches.length !== 1) {
+      const reason = matches.length === 0 ? 'No pending question matches' : 'Ambiguous question ID';
+      throw new Error(`${reason} "${idPrefix}"`);
+    }
+
+    const request = matches[0]!;
+    const result = parseElicitationAnswer(request.fields, text ?? '');
+    this.settle(request.id, result);
+    return result.action === 'accept'
+      ? `Answer sent to MCP server '${request.server}'`
+      : `Question from MCP server '${request.server}' ${result.action === 'decline' ? 'declined' : 'cancelled'}`;
+  }
+
+  /** Cancels all pending questions so no server waits on a closed session */
+  shutdown(): void {
+    for (const id of Array.from(this.pending.keys())) this.settle(id, { action: 'cancel' });
+  }
+
+  private settle(id: string, result: MCPElicitationResult): void {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+    clearTimeout(entry.timeout);
+    this.pending.delete(id);
+    entry.resolve(result);
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * MCP Health Reports
+ *
+ * Each process that supervises MCP servers writes their health to
+ * <dir>/<pid>.json so `daemux mcp list` can show the state of servers
+ * connected by a running service or interactive session.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { MCPTransport } from '@daemux/mcp-client';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type MCPServerStatus = 'connected' | 'reconnecting';
+
+export interface MCPServerHealth {
+  id: string;
+  transport: MCPTransport;
+  status: MCPServerStatus;
+  toolCount: number;
+  reconnectAttempts: number;
+  connectedAt?: number;
+  lastPingAt?: number;
+  lastPingMs?: number;
+  lastError?: string;
+}
+
+export interface MCPHealthReport {
+  pid: number;
+  updatedAt: number;
+  servers: MCPServerHealth[];
+}
+
+// ---------------------------------------------------------------------------
+// Report Files
+// ---------------------------------------------------------------------------
+
+export function defaultHealthDir(): string {
+  return join(homedir(), '.daemux', 'mcp-health');
+}
+
+function reportPath(dir: string, pid: number): string {
+  return join(dir, `${pid}.json`);
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+export function writeHealthReport(dir: string, servers: MCPServerHealth[]): void {
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  const report: MCPHealthReport = { pid: process.pid, updatedAt: Date.now(), servers };
+  writeFileSync(reportPath(dir, process.pid), JSON.stringify(report, null, 2));
+}
+
+export function removeHealthReport(dir: string): void {
+  rmSync(reportPath(dir, process.pid), { force: true });
+}
+
+/**
+ * Reports of processes that are still running, newest first. Reports left
+ * behind by processes that died without cleaning up are deleted.
+ */
+export function readHealthReports(dir: string): MCPHealthReport[] {
+  if (!existsSync(dir)) return [];
+
+  const reports: MCPHealthReport[] = [];
+  for (const file of readdirSync(dir)) {
+    const pid = Number.parseInt(file, 10);
+    if (!file.endsWith('.json') || !Number.isInteger(pid)) continue;
+    if (!isAlive(pid)) {
+      rmSync(join(dir, file), { force: true });
+      continue;
+    }
+    try {
+      reports.push(JSON.parse(readFileSync(join(dir, file), 'utf-8')) as MCPHealthReport);
+    } catch {
+      // Partially written report; the next update replaces it
+    }
+  }
+  return reports.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/** Latest health of each server across all running processes */
+export function latestServerHealth(dir: string): Map<string, MCPServerHealth> {
+  const latest = new Map<string, MCPServerHealth>();
+  for (const report of readHealthReports(dir)) {
+    for (const server of report.servers) {
+      if (!latest.has(server.id)) latest.set(server.id, server);
+    }
+  }
+  return latest;
+}
@@ -7,9 +7,51 @@
 
 export { expandEnvValue, expandEnvInRecord, expandMCPConfig } from './env-expand';
 export { MCPServerManager } from './server-manager';
-export type { MCPServerManagerDeps, ConnectAllResult } from './server-manager';
+export type {
+  MCPServerManagerDeps,
+  MCPServerManagerOptions,
+  MCPSupervisionOptions,
+  ConnectAllResult,
+  ToolsChangedListener,
+  MCPResourceEntry,
+  MCPPromptEntry,
+} from './server-manager';
+export { defaultHealthDir, readHealthReports, latestServerHealth } from './health';
+export type { MCPServerHealth, MCPServerStatus, MCPHealthReport } from './health';
 export { createMCPToolBridge } from './tool-bridge';
 export type { MCPServerManagerLike, MCPToolBridge } from './tool-bridge';
+export {
+  createMCPResourceTools,
+  findResourceMentions,
+  inlineResourceMentions,
+  LIST_MCP_RESOURCES_TOOL,
+  READ_MCP_RESOURCE_TOOL,
+} from './resource-tools';
+export type { MCPResourceSource, ResourceMentionResult } from './resource-tools';
+export { parsePromptCommand, parsePromptArguments, promptUsage, resolvePromptCommand } from './prompt-commands';
+export type { MCPPromptSource } from './prompt-commands';
+export { createMCPClientHandlers, workspaceRoots, USER_REJECTED } from './client-handlers';
+export type { MCPClientHandlerOptions } from './client-handlers';
+export {
+  ElicitationBroker,
+  ANSWER_COMMAND,
+  schemaFields,
+  formatElicitation,
+  parseElicitationAnswer,
+} from './elicitation';
+export type { ElicitationField, PendingElicitation } from './elicitation';
+export {
+  createMCPAuthProvider,
+  loginMCPServer,
+  loadMCPCredentials,
+  saveMCPCredentials,
+  defaultMCPCredentialsDir,
+} from './oauth';
+export type { MCPOAuthCredentials, MCPLoginOptions } from './oauth';
+export { createDaemuxMCPTools } from './serve-tools';
+export type { DaemuxMCPToolDeps } from './serve-tools';
+export { bridgeToServerTools, createMCPServeHandler, startMCPHttpServer, MCP_SERVE_PATH } from './serve';
+export type { MCPServeOptions, MCPHttpServeOptions, MCPHttpServer } from './serve';
 export { loadMCPConfigs, loadFromSettings, loadFromProjectMcpJson } from './config-loader';
 export { initMCP } from './init';
 export type { MCPInitResult } from './init';
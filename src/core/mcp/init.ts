@@ -2,13 +2,22 @@
  * MCP Initialization
  *
  * Startup function that loads configs, connects to MCP servers,
- * and returns tools/executors ready for the agentic loop.
+ * and returns tools/executors ready for the agentic loop. Servers are
+ * supervised: dropped connections are re-established and tool changes
+ * are reported through onToolsChanged. When a server offers resources,
+ * the ListMCPResources / ReadMCPResource tools are included. Client
+ * handlers answer the sampling, roots and elicitation requests of servers,
+ * and HTTP/SSE servers use the login saved by `daemux mcp login`.
  */
 
+import type { MCPClientHandlers } from '@daemux/mcp-client';
 import type { ToolDefinition, ToolResult } from '../types';
 import { MCPServerManager } from './server-manager';
-import { createMCPToolBridge } from './tool-bridge';
+import { createMCPToolBridge, type MCPToolBridge } from './tool-bridge';
 import { loadMCPConfigs } from './config-loader';
+import { defaultHealthDir } from './health';
+import { createMCPResourceTools } from './resource-tools';
+import { createMCPAuthProvider } from './oauth';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -28,6 +37,10 @@ type ToolExecutorFn = (
 export interface MCPInitResult {
   tools: ToolDefinition[];
   executors: Map<string, ToolExecutorFn>;
+  /** Called with a fresh bridge whenever the servers' tools change; returns an unsubscribe function */
+  onToolsChanged: (listener: (bridge: MCPToolBridge) => void) => () => void;
+  /** Resources and prompts for @server:uri mentions and /server:prompt commands; null without servers */
+  manager: MCPServerManager | null;
   cleanup: () => Promise<void>;
 }
 
@@ -35,11 +48,25 @@ export interface MCPInitResult {
 // Public API
 // ---------------------------------------------------------------------------
 
-const EMPTY_RESULT: Pick<MCPInitResult, 'tools' | 'executors'> = {
+const EMPTY_RESULT: Pick<MCPInitResult, 'tools' | 'executors' | 'onToolsChanged' | 'manager'> = {
   tools: [],
   executors: new Map(),
+  onToolsChanged: () => () => {},
+  manager: null,
 };
 
+/** Server tools plus the resource tools when any connected server offers resources */
+function buildBridge(manager: MCPServerManager): MCPToolBridge {
+  const bridge = createMCPToolBridge(manager);
+  if (!manager.hasResources) return bridge;
+
+  const resources = createMCPResourceTools(manager);
+  return {
+    tools: [...bridge.tools, ...resources.tools],
+    executors: new Map([...bridge.executors, ...resources.executors]),
+  };
+}
+
 /**
  * Loads MCP server configurations, connects to all servers, and returns
  * tool definitions with their executor functions for the agentic loop.
@@ -47,7 +74,7 @@ const EMPTY_RESULT: Pick<MCPInitResult, 'tools' | 'executors'> = {
  * Safe to call even when no MCP servers are configured -- returns empty
  * tools/executors and a no-op cleanup function.
  */
-export async function initMCP(logger: Logger): Promise<MCPInitResult> {
+export async function initMCP(logger: Logger, clientHandlers?: MCPClientHandlers): Promise<MCPInitResult> {
   const configs = loadMCPConfigs();
   const configCount = Object.keys(configs).length;
 
@@ -58,9 +85,15 @@ export async function initMCP(logger: Logger): Promise<MCPInitResult> {
 
   logger.info(`Found ${configCount} MCP server configuration(s)`);
 
-  const manager = new MCPServerManager(logger);
+  const manager = new MCPServerManager(logger, undefined, {
+    supervision: { healthDir: defaultHealthDir() },
+    clientHandlers,
+    authProvider: (id, config) => (config.url ? createMCPAuthProvider(id, config.url) : undefined),
+  });
   const result = await manager.connectAll(configs);
   const cleanup = async () => manager.disconnectAll();
+  const onToolsChanged: MCPInitResult['onToolsChanged'] = (listener) =>
+    manager.onToolsChanged(() => listener(buildBridge(manager)));
 
   if (result.connected.length > 0) {
     logger.info(`MCP servers connected: ${result.connected.join(', ')}`);
@@ -70,12 +103,12 @@ export async function initMCP(logger: Logger): Promise<MCPInitResult> {
   }
 
   if (result.connected.length === 0) {
-    logger.warn('No MCP servers connected successfully');
-    return { ...EMPTY_RESULT, cleanup };
+    logger.warn('No MCP servers connected successfully; retrying in the background');
+    return { ...EMPTY_RESULT, onToolsChanged, manager, cleanup };
   }
 
-  const bridge = createMCPToolBridge(manager);
+  const bridge = buildBridge(manager);
   logger.info(`${bridge.tools.length} MCP tool(s) available`);
 
-  return { tools: bridge.tools, executors: bridge.executors, cleanup };
+  return { tools: bridge.tools, executors: bridge.executors, onToolsChanged, manager, cleanup };
 }
@@ -0,0 +1,252 @@
+/**
+ * MCP OAuth
+ *
+ * Logs in to HTTP and SSE MCP servers with the MCP authorization flow:
+ * discovery, dynamic client registration, and a PKCE authorization code
+ * grant whose redirect comes back to a localhost callback. Logins are
+ * stored in ~/.daemux/credentials/mcp/<server>.json; the auth provider
+ * built from one refreshes expired tokens and saves the new ones.
+ */
+
+import { randomBytes } from 'crypto';
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import {
+  buildAuthorizationUrl,
+  createPkcePair,
+  discoverOAuth,
+  exchangeAuthorizationCode,
+  refreshAccessToken,
+  registerClient,
+} from '@daemux/mcp-client';
+import type { MCPAuthProvider, OAuthClientInfo, OAuthDiscovery, OAuthTokens } from '@daemux/mcp-client';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface MCPOAuthCredentials {
+  /** URL the login was made for; a server whose URL changed needs a new login */
+  serverUrl: string;
+  discovery: OAuthDiscovery;
+  client: OAuthClientInfo;
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number;
+  createdAt: number;
+}
+
+export interface MCPLoginOptions {
+  /** Shows the authorization URL to the user, or opens it in a browser */
+  openUrl: (url: string) => void;
+  /** Where the login is saved; defaults to ~/.daemux/credentials/mcp */
+  dir?: string;
+  timeoutMs?: number;
+}
+
+interface CallbackServer {
+  redirectUri: string;
+  code: Promise<string>;
+  stop: () => void;
+}
+
+const CLIENT_NAME = 'daemux';
+const CALLBACK_PATH = '/callback';
+const DEFAULT_LOGIN_TIMEOUT_MS = 300_000;
+/** Tokens this close to expiry are refreshed before they are sent */
+const EXPIRY_MARGIN_MS = 60_000;
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// ---------------------------------------------------------------------------
+// Stored Logins
+// ---------------------------------------------------------------------------
+
+export function defaultMCPCredentialsDir(): string {
+  return join(homedir(), '.daemux', 'credentials', 'mcp');
+}
+
+function credentialsPath(dir: string, serverId: string): string {
+  return join(dir, `${encodeURIComponent(serverId)}.json`);
+}
+
+export function loadMCPCredentials(
+  serverId: string, dir: string = defaultMCPCredentialsDir(),
+): MCPOAuthCredentials | null {
+  const path = credentialsPath(dir, serverId);
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as MCPOAuthCredentials;
+  } catch {
+    return null;
+  }
+}
+
+export function saveMCPCredentials(
+  serverId: string, credentials: MCPOAuthCredentials, dir: string = defaultMCPCredentialsDir(),
+): void {
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const path = credentialsPath(dir, serverId);
+  writeFileSync(path, JSON.stringify(credentials, null, 2), { mode: 0o600 });
+  try {
+    chmodSync(path, 0o600);
+  } catch {
+    // Ignore chmod errors on Windows
+  }
+}
+
+function toCredentials(
+  serverUrl: string, discovery: OAuthDiscovery, client: OAuthClientInfo, tokens: OAuthTokens,
+  previousRefreshToken?: string,
+): MCPOAuthCredentials {
+  return {
+    serverUrl,
+    discovery,
+    client,
+    accessToken: tokens.access_token,
+    // Servers that do not rotate refresh tokens leave them out of refresh responses
+    refreshToken: tokens.refresh_token ?? previousRefreshToken,
+    expiresAt: tokens.expires_in !== undefined ? Date.now() + tokens.expires_in * 1000 : undefined,
+    createdAt: Date.now(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Login
+// ---------------------------------------------------------------------------
+
+/** Waits on 127.0.0.1 for the authorization server to redirect back with a code */
+function startCallbackServer(state: string, timeoutMs: number): CallbackServer {
+  let settle: { resolve: (code: string) => void; reject: (err: Error) => void };
+  const code = new Promise<string>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+
+  const server = Bun.serve({
+    hostname: '127.0.0.1',
+    port: 0,
+    fetch(req) {
+      const url = new URL(req.url);
+      if (url.pathname !== CALLBACK_PATH) return new Response('Not found', { status: 404 });
+
+      const error = url.searchParams.get('error');
+      const received = url.searchParams.get('code');
+      if (error) {
+        settle.reject(new Error(`Authorization failed: ${url.searchParams.get('error_description') ?? error}`));
+      } else if (url.searchParams.get('state') !== state || !received) {
+        settle.reject(new Error('Authorization failed: the callback did not match this login'));
+      } else {
+        settle.resolve(received);
+        return new Response('daemux is authorized. You can close this window.');
+      }
+      return new Response('Authorization failed. Check the terminal for details.', { status: 400 });
+    },
+  });
+
+  const timeout = setTimeout(
+    () => settle.reject(new Error(`Timed out after ${Math.round(timeoutMs / 1000)}s waiting for authorization`)),
+    timeoutMs,
+  );
+
+  return {
+    redirectUri: `http://127.0.0.1:${server.port}${CALLBACK_PATH}`,
+    code,
+    stop: () => {
+      clearTimeout(timeout);
+      // Not forced, so the browser still gets the page it is waiting for
+      void server.stop();
+    },
+  };
+}
+
+/**
+ * Runs the authorization flow for a server and saves the resulting login.
+ * The client is registered again on every login because its redirect URI
+ * carries the port of this login's callback server.
+ */
+export async function loginMCPServer(
+  serverId: string, serverUrl: string, options: MCPLoginOptions,
+): Promise<MCPOAuthCredentials> {
+  const discovery = await discoverOAuth(serverUrl);
+  const state = randomBytes(16).toString('base64url');
+  const callback = startCallbackServer(state, options.timeoutMs ?? DEFAULT_LOGIN_TIMEOUT_MS);
+
+  try {
+    const client = await registerClient(discovery.metadata, callback.redirectUri, CLIENT_NAME);
+    const pkce = createPkcePair();
+    options.openUrl(buildAuthorizationUrl(discovery, client, {
+      redirectUri: callback.redirectUri, challenge: pkce.challenge, state,
+    }));
+
+    const code = await callback.code;
+    const tokens = await exchangeAuthorizationCode(discovery, client, {
+      code, verifier: pkce.verifier, redirectUri: callback.redirectUri,
+    });
+    const credentials = toCredentials(serverUrl, discovery, client, tokens);
+    saveMCPCredentials(serverId, credentials, options.dir);
+    return credentials;
+  } finally {
+    callback.stop();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Auth Provider
+// ---------------------------------------------------------------------------
+
+function loginRequired(serverId: string, cause?: unknown): Error {
+  const reason = cause === undefined ? '' : ` (${errorMessage(cause)})`;
+  return new Error(`MCP server '${serverId}' needs authorization${reason}; run \`daemux mcp login ${serverId}\``);
+}
+
+/**
+ * Supplies the stored login's access token for a server. Tokens about to
+ * expire are refreshed before use, others after a 401; when there is no
+ * login to refresh the error asks the user to run `daemux mcp login`.
+ */
+export function createMCPAuthProvider(
+  serverId: string, serverUrl: string, dir: string = defaultMCPCredentialsDir(),
+): MCPAuthProvider {
+  /** Shared by concurrent requests so a refresh token is only spent once */
+  let refreshing: Promise<string> | null = null;
+
+  const load = (): MCPOAuthCredentials | null => {
+    const credentials = loadMCPCredentials(serverId, dir);
+    return credentials?.serverUrl === serverUrl ? credentials : null;
+  };
+
+  const refresh = (): Promise<string> => {
+    refreshing ??= (async () => {
+      const credentials = load();
+      if (!credentials?.refreshToken) throw loginRequired(serverId);
+
+      let tokens: OAuthTokens;
+      try {
+        tokens = await refreshAccessToken(credentials.discovery, credentials.client, credentials.refreshToken);
+      } catch (err) {
+        throw loginRequired(serverId, err);
+      }
+      const updated = toCredentials(
+        serverUrl, credentials.discovery, credentials.client, tokens, credentials.refreshToken,
+      );
+      saveMCPCredentials(serverId, { ...updated, createdAt: credentials.createdAt }, dir);
+      return updated.accessToken;
+    })().finally(() => {
+      refreshing = null;
+    });
+    return refreshing;
+  };
+
+  return {
+    async accessToken() {
+      const credentials = load();
+      if (!credentials) return undefined;
+      const expiring = credentials.expiresAt !== undefined && credentials.expiresAt - EXPIRY_MARGIN_MS <= Date.now();
+      return expiring && credentials.refreshToken ? refresh() : credentials.accessToken;
+    },
+    refresh,
+  };
+}
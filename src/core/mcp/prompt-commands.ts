@@ -0,0 +1,104 @@
+/**
+ * MCP Prompt Commands
+ * Turns `/server:prompt args` input into the text of an MCP prompt.
+ * Arguments are given as key=value or by position in the order the
+ * prompt declares them; quotes keep spaces inside one value.
+ */
+
+import type { MCPPrompt, MCPPromptMessage } from '@daemux/mcp-client';
+import type { MCPPromptEntry } from './server-manager';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface MCPPromptSource {
+  readonly serverIds: string[];
+  listPrompts(): Promise<MCPPromptEntry[]>;
+  getPrompt(
+    serverId: string, name: string, args: Record<string, string>,
+  ): Promise<{ description?: string; messages: MCPPromptMessage[] }>;
+}
+
+const COMMAND_PATTERN = /^\/([\w.-]+):([\w.-]+)(?:\s+([\s\S]*))?$/;
+const TOKEN_PATTERN = /"([^"]*)"|(\S+)/g;
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** Splits `/server:prompt args`; null when the input does not name a known server */
+export function parsePromptCommand(
+  input: string, serverIds: string[],
+): { server: string; prompt: string; argText: string } | null {
+  const match = COMMAND_PATTERN.exec(input.trim());
+  if (!match || !serverIds.includes(match[1]!)) return null;
+  return { server: match[1]!, prompt: match[2]!, argText: match[3]?.trim() ?? '' };
+}
+
+export function promptUsage(server: string, prompt: MCPPrompt): string {
+  const args = (prompt.arguments ?? []).map(a => a.required ? `<${a.name}>` : `[${a.name}]`);
+  return [`/${server}:${prompt.name}`, ...args].join(' ');
+}
+
+/**
+ * Maps argument text to the prompt's declared arguments. Extra positional
+ * values go to the last argument, so free text needs no quotes.
+ */
+export function parsePromptArguments(server: string, prompt: MCPPrompt, argText: string): Record<string, string> {
+  const declared = (prompt.arguments ?? []).map(a => a.name);
+  const args: Record<string, string> = {};
+  const positional: string[] = [];
+
+  for (const match of argText.matchAll(TOKEN_PATTERN)) {
+    const token = match[1] ?? match[2]!;
+    const eq = match[2] ? token.indexOf('=') : -1;
+    const key = eq > 0 ? token.slice(0, eq) : '';
+    if (declared.includes(key)) {
+      args[key] = token.slice(eq + 1);
+    } else {
+      positional.push(token);
+    }
+  }
+
+  const open = declared.filter(name => !(name in args));
+  if (positional.length > 0 && open.length === 0) {
+    throw new Error(`Too many arguments. Usage: ${promptUsage(server, prompt)}`);
+  }
+  open.forEach((name, i) => {
+    const values = i === open.length - 1 ? positional.slice(i) : positional.slice(i, i + 1);
+    if (values.length > 0) args[name] = values.join(' ');
+  });
+
+  const missing = (prompt.arguments ?? []).filter(a => a.required && !(a.name in args));
+  if (missing.length > 0) {
+    throw new Error(`Missing ${missing.map(a => a.name).join(', ')}. Usage: ${promptUsage(server, prompt)}`);
+  }
+  return args;
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+/**
+ * The prompt text for a `/server:prompt` command, or null when the input is
+ * not one. Throws with usage help for unknown prompts and bad arguments.
+ */
+export async function resolvePromptCommand(input: string, source: MCPPromptSource): Promise<string | null> {
+  const command = parsePromptCommand(input, source.serverIds);
+  if (!command) return null;
+
+  const prompts = await source.listPrompts();
+  const prompt = prompts.find(p => p.server === command.server && p.name === command.prompt);
+  if (!prompt) {
+    const available = prompts.filter(p => p.server === command.server).map(p => promptUsage(p.server, p));
+    throw new Error(available.length > 0
+      ? `Unknown prompt /${command.server}:${command.prompt}. Available: ${available.join(', ')}`
+      : `MCP server '${command.server}' has no prompts`);
+  }
+
+  const args = parsePromptArguments(command.server, prompt, command.argText);
+  const { messages } = await source.getPrompt(command.server, prompt.name, args);
+  return messages.map(m => m.content).join('\n\n');
+}
@@ -0,0 +1,146 @@
+/**
+ * MCP Resource Tools
+ * Synthetic ListMCPResources / ReadMCPResource tools that give the agent
+ * access to MCP server resources, and @server:uri mentions that inline a
+ * resource into a user message.
+ */
+
+import type { ToolDefinition, ToolResult } from '../types';
+import type { ToolContext } from '../loop/types';
+import { limitToolOutput } from '../loop/tools/output';
+import type { MCPResourceEntry } from './server-manager';
+import type { MCPToolBridge } from './tool-bridge';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface MCPResourceSource {
+  readonly serverIds: string[];
+  listResources(serverId?: string): Promise<MCPResourceEntry[]>;
+  readResource(serverId: string, uri: string): Promise<{ content: string; mimeType?: string }>;
+}
+
+export interface ResourceMentionResult {
+  text: string;
+  /** One message per mention that could not be read */
+  errors: string[];
+}
+
+export const LIST_MCP_RESOURCES_TOOL = 'ListMCPResources';
+export const READ_MCP_RESOURCE_TOOL = 'ReadMCPResource';
+
+const listResourcesTool: ToolDefinition = {
+  name: LIST_MCP_RESOURCES_TOOL,
+  description:
+    'List resources offered by connected MCP servers, such as files, documents or database schemas. ' +
+    'Read one with ReadMCPResource.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      server: { type: 'string', description: 'Only list resources of this MCP server' },
+    },
+  },
+};
+
+const readResourceTool: ToolDefinition = {
+  name: READ_MCP_RESOURCE_TOOL,
+  description: 'Read a resource from an MCP server by the URI that ListMCPResources returned.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      server: { type: 'string', description: 'Name of the MCP server' },
+      uri: { type: 'string', description: 'URI of the resource' },
+    },
+    required: ['server', 'uri'],
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Tools
+// ---------------------------------------------------------------------------
+
+function errorResult(toolUseId: string, err: unknown): ToolResult {
+  return { toolUseId, content: `Error: ${err instanceof Error ? err.message : String(err)}`, isError: true };
+}
+
+export function createMCPResourceTools(source: MCPResourceSource): MCPToolBridge {
+  const executors: MCPToolBridge['executors'] = new Map();
+
+  executors.set(LIST_MCP_RESOURCES_TOOL, async (toolUseId, input) => {
+    try {
+      const server = typeof input.server === 'string' ? input.server : undefined;
+      const resources = await source.listResources(server);
+      return {
+        toolUseId,
+        content: resources.length > 0 ? JSON.stringify(resources, null, 2) : 'No resources available',
+      };
+    } catch (err) {
+      return errorResult(toolUseId, err);
+    }
+  });
+
+  executors.set(READ_MCP_RESOURCE_TOOL, async (toolUseId, input, context?: ToolContext) => {
+    const { server, uri } = input;
+    if (typeof server !== 'string' || typeof uri !== 'string') {
+      return { toolUseId, content: 'Error: server and uri are required', isError: true };
+    }
+    try {
+      const { content } = await source.readResource(server, uri);
+      return { toolUseId, content: limitToolOutput(toolUseId, content, context) };
+    } catch (err) {
+      return errorResult(toolUseId, err);
+    }
+  });
+
+  return { tools: [listResourcesTool, readResourceTool], executors };
+}
+
+// ---------------------------------------------------------------------------
+// Mentions
+// ---------------------------------------------------------------------------
+
+const MENTION_PATTERN = /(^|\s)@([\w.-]+):(\S+)/g;
+const TRAILING_PUNCTUATION = /[.,;:!?)\]]+$/;
+
+/** @server:uri references in text whose server is known to the source */
+export function findResourceMentions(
+  text: string, serverIds: string[],
+): Array<{ server: string; uri: string }> {
+  const known = new Set(serverIds);
+  const seen = new Set<string>();
+  const mentions: Array<{ server: string; uri: string }> = [];
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const server = match[2]!;
+    const uri = match[3]!.replace(TRAILING_PUNCTUATION, '');
+    const key = `${server}:${uri}`;
+    if (!known.has(server) || !uri || seen.has(key)) continue;
+    seen.add(key);
+    mentions.push({ server, uri });
+  }
+  return mentions;
+}
+
+/**
+ * Appends the content of every @server:uri mention to the text. The
+ * mentions stay in place so the model can tell which resource is which.
+ */
+export async function inlineResourceMentions(
+  text: string, source: MCPResourceSource,
+): Promise<ResourceMentionResult> {
+  const mentions = findResourceMentions(text, source.serverIds);
+  const blocks: string[] = [];
+  const errors: string[] = [];
+
+  for (const { server, uri } of mentions) {
+    try {
+      const { content } = await source.readResource(server, uri);
+      blocks.push(`<resource server="${server}" uri="${uri}">\n${content}\n</resource>`);
+    } catch (err) {
+      errors.push(`@${server}:${uri}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return { text: blocks.length > 0 ? `${text}\n\n${blocks.join('\n\n')}` : text, errors };
+}
@@ -0,0 +1,268 @@
+/**
+ * daemux MCP Tools
+ * The tools `daemux mcp serve` offers to other MCP clients: tasks through
+ * TaskManager, subagents through the agent registry, memory search,
+ * approval resolution and schedules through CronService. Results are JSON
+ * so the calling model can pick out ids for follow-up calls.
+ */
+
+import type { ApprovalDecision, ScheduleType, TaskStatus, ToolDefinition, ToolResult } from '../types';
+import type { Database } from '../../infra/database';
+import type { TaskManager } from '../task-manager';
+import type { CronService } from '../cron-service';
+import { createSpawnAgentTool } from '../loop/tools/spawn-agent';
+import type { SpawnAgentDeps } from '../loop/tools/spawn-agent';
+import type { MCPToolBridge } from './tool-bridge';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DaemuxMCPToolDeps {
+  db: Database;
+  taskManager: Pick<TaskManager, 'create' | 'list'>;
+  cronService: Pick<CronService, 'addSchedule' | 'removeSchedule' | 'listSchedules'>;
+  /** Omitted when no provider is configured; SpawnAgent is then not offered */
+  agents?: SpawnAgentDeps;
+}
+
+const TASK_STATUSES: TaskStatus[] = ['pending', 'in_progress', 'completed', 'failed'];
+const SCHEDULE_TYPES: ScheduleType[] = ['at', 'every', 'cron'];
+const DECISIONS: ApprovalDecision[] = ['allow-once', 'allow-always', 'deny'];
+const DEFAULT_MEMORY_LIMIT = 10;
+/** Who resolved an approval, as recorded in the approvals table */
+const DECIDED_BY = 'mcp';
+
+// ---------------------------------------------------------------------------
+// Tool Definitions
+// ---------------------------------------------------------------------------
+
+const createTaskTool: ToolDefinition = {
+  name: 'CreateTask',
+  description: 'Create a daemux task. Tasks are picked up by `daemux work` when they are not blocked.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      subject: { type: 'string', description: 'Short title of the task' },
+      description: { type: 'string', description: 'What needs to be done' },
+      blocked_by: { type: 'array', items: { type: 'string' }, description: 'IDs of tasks that must finish first' },
+      verify_command: { type: 'string', description: 'Shell command that must pass for the task to complete' },
+    },
+    required: ['subject', 'description'],
+  },
+};
+
+const listTasksTool: ToolDefinition = {
+  name: 'ListTasks',
+  description: 'List daemux tasks, optionally filtered by status.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      status: { type: 'string', enum: TASK_STATUSES, description: 'Only list tasks with this status' },
+    },
+  },
+};
+
+const searchMemoryTool: ToolDefinition = {
+  name: 'SearchMemory',
+  description: 'Search daemux memory for entries containing every word of the query, newest first.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Words to search for' },
+      limit: { type: 'number', description: `Maximum entries to return (default ${DEFAULT_MEMORY_LIMIT})` },
+    },
+    required: ['query'],
+  },
+};
+
+const listApprovalsTool: ToolDefinition = {
+  name: 'ListApprovals',
+  description: 'List commands waiting for approval before a daemux agent may run them.',
+  inputSchema: { type: 'object', properties: {} },
+};
+
+const resolveApprovalTool: ToolDefinition = {
+  name: 'ResolveApproval',
+  description: 'Allow or deny a pending approval. The ID may be shortened to a unique prefix.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', description: 'Approval ID or unique prefix' },
+      decision: { type: 'string', enum: DECISIONS },
+    },
+    required: ['id', 'decision'],
+  },
+};
+
+const listSchedulesTool: ToolDefinition = {
+  name: 'ListSchedules',
+  description: 'List schedules that create daemux tasks.',
+  inputSchema: { type: 'object', properties: {} },
+};
+
+const addScheduleTool: ToolDefinition = {
+  name: 'AddSchedule',
+  description:
+    'Schedule a task: once at a time ("at", e.g. "2026-01-01T09:00:00Z"), repeatedly ("every", e.g. "30m") ' +
+    'or with a cron expression ("cron", e.g. "0 9 * * 1-5").',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: SCHEDULE_TYPES },
+      expression: { type: 'string', description: 'Time, interval or cron expression' },
+      subject: { type: 'string', description: 'Subject of the tasks the schedule creates' },
+      description: { type: 'string', description: 'Description of the tasks the schedule creates' },
+      timezone: { type: 'string', description: 'IANA timezone for cron expressions (default UTC)' },
+    },
+    required: ['type', 'expression', 'subject', 'description'],
+  },
+};
+
+const removeScheduleTool: ToolDefinition = {
+  name: 'RemoveSchedule',
+  description: 'Delete a schedule by ID.',
+  inputSchema: {
+    type: 'object',
+    properties: { id: { type: 'string', description: 'Schedule ID' } },
+    required: ['id'],
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function json(toolUseId: string, value: unknown): ToolResult {
+  return { toolUseId, content: JSON.stringify(value, null, 2) };
+}
+
+function errorResult(toolUseId: string, message: string): ToolResult {
+  return { toolUseId, content: `Error: ${message}`, isError: true };
+}
+
+function nonEmptyString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim().length > 0 ? value : undefined;
+}
+
+/** Catches executor errors so they reach the client as tool errors */
+function guarded(
+  execute: (toolUseId: string, input: Record<string, unknown>) => Promise<ToolResult> | ToolResult,
+): (toolUseId: string, input: Record<string, unknown>) => Promise<ToolResult> {
+  return async (toolUseId, input) => {
+    try {
+      return await execute(toolUseId, input);
+    } catch (err) {
+      return errorResult(toolUseId, err instanceof Error ? err.message : String(err));
+    }
+  };
+}
+
+function spawnAgentDefinition(base: ToolDefinition, agents: SpawnAgentDeps): ToolDefinition {
+  const names = agents.listAgents().map(agent => agent.name);
+  return names.length > 0
+    ? { ...base, description: `${base.description} Registered agents: ${names.join(', ')}.` }
+    : base;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function createDaemuxMCPTools(deps: DaemuxMCPToolDeps): MCPToolBridge {
+  const { db, taskManager, cronService } = deps;
+  const tools: ToolDefinition[] = [];
+  const executors: MCPToolBridge['executors'] = new Map();
+  const add = (
+    definition: ToolDefinition,
+    execute: (toolUseId: string, input: Record<string, unknown>) => Promise<ToolResult> | ToolResult,
+  ): void => {
+    tools.push(definition);
+    executors.set(definition.name, guarded(execute));
+  };
+
+  add(createTaskTool, async (toolUseId, input) => {
+    const subject = nonEmptyString(input.subject);
+    if (!subject || typeof input.description !== 'string') {
+      return errorResult(toolUseId, 'subject and description are required');
+    }
+    const task = await taskManager.create({
+      subject,
+      description: input.description,
+      blockedBy: Array.isArray(input.blocked_by) ? input.blocked_by.map(String) : undefined,
+      verifyCommand: nonEmptyString(input.verify_command),
+    });
+    return json(toolUseId, task);
+  });
+
+  add(listTasksTool, (toolUseId, input) => {
+    const status = TASK_STATUSES.find(s => s === input.status);
+    if (input.status !== undefined && !status) {
+      return errorResult(toolUseId, `status must be one of: ${TASK_STATUSES.join(', ')}`);
+    }
+    return json(toolUseId, taskManager.list(status ? { status } : undefined));
+  });
+
+  if (deps.agents) {
+    const spawnAgent = createSpawnAgentTool(deps.agents);
+    add(spawnAgentDefinition(spawnAgent.definition, deps.agents), spawnAgent.execute);
+  }
+
+  add(searchMemoryTool, (toolUseId, input) => {
+    const query = nonEmptyString(input.query);
+    if (!query) return errorResult(toolUseId, 'query is required');
+    const limit = typeof input.limit === 'number' && input.limit > 0 ? Math.floor(input.limit) : DEFAULT_MEMORY_LIMIT;
+    const entries = db.memory.searchText(query, limit);
+    return entries.length > 0 ? json(toolUseId, entries) : { toolUseId, content: 'No matching memory entries' };
+  });
+
+  add(listApprovalsTool, (toolUseId) => {
+    const now = Date.now();
+    return json(toolUseId, db.approvals.getPending().filter(request => request.expiresAtMs > now));
+  });
+
+  add(resolveApprovalTool, (toolUseId, input) => {
+    const id = nonEmptyString(input.id);
+    const decision = DECISIONS.find(d => d === input.decision);
+    if (!id || !decision) {
+      return errorResult(toolUseId, `id and a decision (${DECISIONS.join(', ')}) are required`);
+    }
+
+    // Written to the database; the process waiting on it picks the decision up
+    const now = Date.now();
+    const matches = db.approvals.getPending().filter(request => request.id.startsWith(id));
+    if (matches.length === 0) return errorResult(toolUseId, `No pending approval matches "${id}"`);
+    if (matches.length > 1) return errorResult(toolUseId, `"${id}" matches ${matches.length} approvals; use a longer prefix`);
+    const request = matches[0]!;
+    if (request.expiresAtMs <= now) return errorResult(toolUseId, `Approval ${request.id} has already expired`);
+
+    return json(toolUseId, db.approvals.update(request.id, { decision, decidedAtMs: now, decidedBy: DECIDED_BY }));
+  });
+
+  add(listSchedulesTool, (toolUseId) => json(toolUseId, cronService.listSchedules()));
+
+  add(addScheduleTool, async (toolUseId, input) => {
+    const type = SCHEDULE_TYPES.find(t => t === input.type);
+    const expression = nonEmptyString(input.expression);
+    const subject = nonEmptyString(input.subject);
+    if (!type || !expression || !subject || typeof input.description !== 'string') {
+      return errorResult(toolUseId, `type (${SCHEDULE_TYPES.join(', ')}), expression, subject and description are required`);
+    }
+    const id = await cronService.addSchedule({
+      type,
+      expression,
+      taskTemplate: { subject, description: input.description },
+      timezone: nonEmptyString(input.timezone),
+    });
+    return json(toolUseId, cronService.listSchedules({ id })[0]);
+  });
+
+  add(removeScheduleTool, async (toolUseId, input) => {
+    const id = nonEmptyString(input.id);
+    if (!id) return errorResult(toolUseId, 'id is required');
+    await cronService.removeSchedule(id);
+    return { toolUseId, content: `Removed schedule ${id}` };
+  });
+
+  return { tools, executors };
+}
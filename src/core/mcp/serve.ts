@@ -0,0 +1,124 @@
+/**
+ * MCP Serve
+ * Runs a tool bridge as an MCP server for other clients, over stdio or
+ * streamable HTTP. The HTTP listener binds to localhost by default, turns
+ * away browser pages from other origins, and can require a Bearer token,
+ * which it must when bound to an address other machines can reach.
+ */
+
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { createMCPMessageHandler, handleMCPHttpRequest } from '@daemux/mcp-client';
+import type { Logger, MCPMessageHandler, MCPServerTool } from '@daemux/mcp-client';
+import type { MCPToolBridge } from './tool-bridge';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface MCPServeOptions {
+  version: string;
+  instructions?: string;
+  logger?: Logger;
+}
+
+export interface MCPHttpServeOptions {
+  port: number;
+  /** Defaults to 127.0.0.1; any other than a loopback address requires `token` */
+  host?: string;
+  /** When set, requests must carry `Authorization: Bearer <token>` */
+  token?: string;
+}
+
+export interface MCPHttpServer {
+  url: string;
+  stop: () => void;
+}
+
+export const MCP_SERVE_PATH = '/mcp';
+
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+// ---------------------------------------------------------------------------
+// Message Handling
+// ---------------------------------------------------------------------------
+
+/** MCP server tools that run the bridge's executors, each call with its own tool use id */
+export function bridgeToServerTools(bridge: MCPToolBridge): MCPServerTool[] {
+  return bridge.tools.flatMap((definition) => {
+    const execute = bridge.executors.get(definition.name);
+    if (!execute) return [];
+    return [{
+      definition,
+      execute: async (input: Record<string, unknown>) => {
+        const { content, isError } = await execute(`mcp-${randomUUID()}`, input);
+        return { content, isError };
+      },
+    }];
+  });
+}
+
+export function createMCPServeHandler(bridge: MCPToolBridge, options: MCPServeOptions): MCPMessageHandler {
+  return createMCPMessageHandler({
+    name: 'daemux',
+    version: options.version,
+    instructions: options.instructions,
+    tools: bridgeToServerTools(bridge),
+    logger: options.logger,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// HTTP
+// ---------------------------------------------------------------------------
+
+/**
+ * Browsers send Origin with cross-site requests; only local pages may call
+ * the server, so a page on another site cannot reach it through DNS rebinding.
+ */
+function isAllowedOrigin(origin: string | null): boolean {
+  if (!origin) return true;
+  try {
+    return LOCAL_HOSTNAMES.has(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/** localhost, 127.0.0.0/8 and ::1 */
+function isLoopbackHost(host: string): boolean {
+  const bare = host.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  return bare === 'localhost' || bare === '::1' || /^127(\.\d{1,3}){3}$/.test(bare);
+}
+
+function hasToken(req: Request, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const received = Buffer.from(req.headers.get('authorization') ?? '');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+export function startMCPHttpServer(handle: MCPMessageHandler, options: MCPHttpServeOptions): MCPHttpServer {
+  const host = options.host ?? '127.0.0.1';
+  // Tools such as CreateTask's verify_command run shell commands, so an open port is remote code execution
+  if (!options.token && !isLoopbackHost(host)) {
+    throw new Error(`Refusing to serve on ${host} without a token; set a token or bind to 127.0.0.1`);
+  }
+
+  const server = Bun.serve({
+    hostname: host,
+    port: options.port,
+    fetch(req) {
+      if (new URL(req.url).pathname !== MCP_SERVE_PATH) return new Response('Not found', { status: 404 });
+      if (!isAllowedOrigin(req.headers.get('origin'))) return new Response('Forbidden origin', { status: 403 });
+      if (options.token && !hasToken(req, options.token)) {
+        return new Response('Unauthorized', { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+      }
+      return handleMCPHttpRequest(handle, req);
+    },
+  });
+
+  const urlHost = host.includes(':') ? `[${host}]` : host;
+  return {
+    url: `http://${urlHost}:${server.port}${MCP_SERVE_PATH}`,
+    stop: () => { void server.stop(true); },
+  };
+}
@@ -3,17 +3,34 @@
  *
  * Central lifecycle manager for MCP server connections.
  * Connects to MCP servers, discovers their tools, and routes tool calls.
+ * With supervision enabled it pings each server, reconnects dropped or
+ * failed servers with backoff, and refreshes tools when a server sends
+ * notifications/tools/list_changed. Resources and prompts of all servers
+ * are listed and fetched through the same manager. Log and progress
+ * notifications from servers are forwarded to the logger. HTTP and SSE
+ * clients get their OAuth tokens from the configured auth provider.
  */
 
-import type { MCPServer, MCPConfig, MCPTransport, ToolDefinition } from '@daemux/mcp-client';
+import type {
+  MCPServer, MCPConfig, MCPTransport, MCPPrompt, MCPPromptMessage, MCPClientHandlers, MCPAuthProvider,
+  ToolDefinition,
+} from '@daemux/mcp-client';
 import { createMCPClient as defaultCreateMCPClient } from '@daemux/mcp-client';
 import { expandMCPConfig as defaultExpandMCPConfig } from './env-expand';
+import { backoffDelay } from '../resilient-provider';
+import {
+  writeHealthReport,
+  removeHealthReport,
+  type MCPServerHealth,
+  type MCPServerStatus,
+} from './health';
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
 interface Logger {
+  debug?(msg: string, data?: Record<string, unknown>): void;
   info(msg: string, data?: Record<string, unknown>): void;
   warn(msg: string, data?: Record<string, unknown>): void;
   error(msg: string, data?: Record<string, unknown>): void;
@@ -27,9 +44,63 @@ export interface MCPServerManagerDeps {
   expandMCPConfig?: ExpandMCPConfigFn;
 }
 
-interface ConnectedServer {
-  server: MCPServer;
+export interface MCPSupervisionOptions {
+  pingIntervalMs: number;
+  pingTimeoutMs: number;
+  reconnectBaseDelayMs: number;
+  reconnectMaxDelayMs: number;
+  /** Directory for health reports read by `daemux mcp list`; none are written when unset */
+  healthDir?: string;
+}
+
+export interface MCPServerManagerOptions {
+  /** Ping, reconnect and tool-refresh supervision; off when omitted */
+  supervision?: Partial<MCPSupervisionOptions>;
+  /** Answers sampling, roots and elicitation requests from servers; used by the default client factory */
+  clientHandlers?: MCPClientHandlers;
+  /** OAuth tokens for a server's HTTP or SSE connection; used by the default client factory */
+  authProvider?: (id: string, config: MCPConfig) => MCPAuthProvider | undefined;
+}
+
+export type ToolsChangedListener = (tools: ToolDefinition[]) => void;
+
+export interface MCPResourceEntry {
+  server: string;
+  uri: string;
+  name: string;
+  mimeType?: string;
+}
+
+export interface MCPPromptEntry extends MCPPrompt {
+  server: string;
+}
+
+const DEFAULT_SUPERVISION: MCPSupervisionOptions = {
+  pingIntervalMs: 30_000,
+  pingTimeoutMs: 10_000,
+  reconnectBaseDelayMs: 1_000,
+  reconnectMaxDelayMs: 60_000,
+};
+
+const TOOLS_LIST_CHANGED = 'notifications/tools/list_changed';
+const LOG_MESSAGE = 'notifications/message';
+const PROGRESS = 'notifications/progress';
+const ERROR_LEVELS = new Set(['error', 'critical', 'alert', 'emergency']);
+
+interface ServerEntry {
+  config: MCPConfig;
+  transport: MCPTransport;
+  /** Null while the server is reconnecting */
+  server: MCPServer | null;
   tools: ToolDefinition[];
+  status: MCPServerStatus;
+  reconnectAttempts: number;
+  connectedAt?: number;
+  lastPingAt?: number;
+  lastPingMs?: number;
+  lastError?: string;
+  pingTimer?: ReturnType<typeof setInterval>;
+  reconnectTimer?: ReturnType<typeof setTimeout>;
 }
 
 export interface ConnectAllResult {
@@ -47,14 +118,20 @@ function errorMessage(err: unknown): string {
 
 export class MCPServerManager {
   private readonly log: Logger;
-  private readonly servers = new Map<string, ConnectedServer>();
+  private readonly servers = new Map<string, ServerEntry>();
   private readonly createClient: CreateMCPClientFn;
   private readonly expandConfig: ExpandMCPConfigFn;
+  private readonly supervision: MCPSupervisionOptions | null;
+  private readonly toolsListeners = new Set<ToolsChangedListener>();
 
-  constructor(logger: Logger, deps?: MCPServerManagerDeps) {
+  constructor(logger: Logger, deps?: MCPServerManagerDeps, options?: MCPServerManagerOptions) {
     this.log = logger;
-    this.createClient = deps?.createMCPClient ?? defaultCreateMCPClient;
+    const handlers = options?.clientHandlers;
+    const authProvider = options?.authProvider;
+    this.createClient = deps?.createMCPClient ?? ((id, transport, config) =>
+      defaultCreateMCPClient(id, transport, config, undefined, handlers, authProvider?.(id, config)));
     this.expandConfig = deps?.expandMCPConfig ?? defaultExpandMCPConfig;
+    this.supervision = options?.supervision ? { ...DEFAULT_SUPERVISION, ...options.supervision } : null;
   }
 
   /**
@@ -93,21 +170,49 @@ export class MCPServerManager {
 
   /**
    * Connects to a single MCP server, discovers its tools, and stores the connection.
+   * Under supervision a failed server is kept and retried in the background.
    */
   async connectServer(id: string, rawConfig: MCPConfig): Promise<void> {
     this.log.info(`Connecting to MCP server '${id}'`);
 
     const config = this.expandConfig(rawConfig);
     const transport = this.detectTransport(config);
-    const server = this.createClient(id, transport, config);
+    const previous = this.servers.get(id);
+    if (previous) this.stopTimers(previous);
 
     try {
-      await server.connect();
+      const { server, tools } = await this.open(id, transport, config);
+      this.servers.set(id, {
+        config: rawConfig, transport, server, tools,
+        status: 'connected', reconnectAttempts: 0, connectedAt: Date.now(),
+      });
+      this.startPings(id);
+      this.log.info(`MCP server '${id}' ready`, {
+        transport,
+        toolCount: tools.length,
+      });
     } catch (err) {
       const msg = errorMessage(err);
       this.log.error(`Failed to connect MCP server '${id}'`, { error: msg });
+      if (this.supervision) {
+        this.servers.set(id, {
+          config: rawConfig, transport, server: null, tools: [],
+          status: 'reconnecting', reconnectAttempts: 0, lastError: msg,
+        });
+        this.scheduleReconnect(id);
+      }
       throw new Error(`MCP server '${id}' connection failed: ${msg}`);
+    } finally {
+      this.reportHealth();
     }
+  }
+
+  /** Creates a client, connects it and lists its tools */
+  private async open(
+    id: string, transport: MCPTransport, config: MCPConfig,
+  ): Promise<{ server: MCPServer; tools: ToolDefinition[] }> {
+    const server = this.createClient(id, transport, config);
+    await server.connect();
 
     let tools: ToolDefinition[] = [];
     try {
@@ -116,12 +221,26 @@ export class MCPServerManager {
       this.log.warn(`MCP server '${id}' connected but tool discovery failed`, { error: errorMessage(err) });
     }
 
-    this.servers.set(id, { server, tools });
-
-    this.log.info(`MCP server '${id}' ready`, {
-      transport,
-      toolCount: tools.length,
+    server.onClose?.(reason => this.handleConnectionLost(id, server, reason));
+    server.onNotification?.((method, params) => {
+      if (method === TOOLS_LIST_CHANGED) void this.refreshTools(id, server);
+      else if (method === LOG_MESSAGE) this.logServerMessage(id, params);
+      else if (method === PROGRESS) this.log.debug?.(`MCP server '${id}' progress`, params);
     });
+    return { server, tools };
+  }
+
+  /** Forwards a notifications/message log entry at the matching level */
+  private logServerMessage(id: string, params: Record<string, unknown>): void {
+    const level = String(params.level ?? 'info');
+    const source = typeof params.logger === 'string' ? ` (${params.logger})` : '';
+    const data = typeof params.data === 'string' ? params.data : JSON.stringify(params.data);
+    const msg = `MCP server '${id}'${source}: ${data}`;
+
+    if (ERROR_LEVELS.has(level)) this.log.error(msg);
+    else if (level === 'warning') this.log.warn(msg);
+    else if (level === 'debug') this.log.debug?.(msg);
+    else this.log.info(msg);
   }
 
   /**
@@ -166,12 +285,87 @@ export class MCPServerManager {
     }
 
     const { serverId, toolName } = parsed;
-    const entry = this.servers.get(serverId);
-    if (!entry) {
+    if (!this.servers.has(serverId)) {
       throw new Error(`MCP server '${serverId}' not found for tool '${qualifiedName}'`);
     }
 
-    return entry.server.callTool(toolName, input as Record<string, unknown>);
+    return this.requireServer(serverId).callTool(toolName, input as Record<string, unknown>);
+  }
+
+  // -----------------------------------------------------------------------
+  // Resources and Prompts
+  // -----------------------------------------------------------------------
+
+  /**
+   * Lists resources of one server, or of every connected server that
+   * offers resources. A server whose listing fails is logged and skipped.
+   */
+  async listResources(serverId?: string): Promise<MCPResourceEntry[]> {
+    const lists = await Promise.all(this.serversWith('resources', serverId).map(async ([id, server]) => {
+      try {
+        return (await server.listResources()).map(r => ({ server: id, ...r }));
+      } catch (err) {
+        this.log.warn(`MCP server '${id}' resource listing failed`, { error: errorMessage(err) });
+        return [];
+      }
+    }));
+    return lists.flat();
+  }
+
+  async readResource(serverId: string, uri: string): Promise<{ content: string; mimeType?: string }> {
+    return this.requireServer(serverId).readResource(uri);
+  }
+
+  /** Lists prompts of every connected server that offers prompts */
+  async listPrompts(): Promise<MCPPromptEntry[]> {
+    const lists = await Promise.all(this.serversWith('prompts').map(async ([id, server]) => {
+      try {
+        return (await server.listPrompts?.() ?? []).map(p => ({ server: id, ...p }));
+      } catch (err) {
+        this.log.warn(`MCP server '${id}' prompt listing failed`, { error: errorMessage(err) });
+        return [];
+      }
+    }));
+    return lists.flat();
+  }
+
+  async getPrompt(
+    serverId: string, name: string, args: Record<string, string>,
+  ): Promise<{ description?: string; messages: MCPPromptMessage[] }> {
+    const server = this.requireServer(serverId);
+    if (!server.getPrompt) {
+      throw new Error(`MCP server '${serverId}' does not offer prompts`);
+    }
+    return server.getPrompt(name, args);
+  }
+
+  /** Whether any connected server offers resources */
+  get hasResources(): boolean {
+    return this.serversWith('resources').length > 0;
+  }
+
+  /**
+   * Connected servers, optionally one by id, that announced a capability or
+   * announced none at all, and that implement its listing method
+   */
+  private serversWith(capability: 'resources' | 'prompts', serverId?: string): Array<[string, MCPServer]> {
+    const method = capability === 'resources' ? 'listResources' : 'listPrompts';
+    return [...this.servers.entries()].flatMap(([id, { server }]) =>
+      server && (!serverId || id === serverId) && typeof server[method] === 'function' &&
+        (!server.capabilities || server.capabilities[capability])
+        ? [[id, server] as [string, MCPServer]]
+        : []);
+  }
+
+  private requireServer(serverId: string): MCPServer {
+    const entry = this.servers.get(serverId);
+    if (!entry) {
+      throw new Error(`MCP server '${serverId}' not found`);
+    }
+    if (!entry.server) {
+      throw new Error(`MCP server '${serverId}' is reconnecting${entry.lastError ? ` (${entry.lastError})` : ''}`);
+    }
+    return entry.server;
   }
 
   /**
@@ -183,8 +377,12 @@ export class MCPServerManager {
       return;
     }
 
+    for (const [, entry] of entries) this.stopTimers(entry);
+    if (this.supervision?.healthDir) removeHealthReport(this.supervision.healthDir);
+
     const results = await Promise.allSettled(
       entries.map(async ([id, { server }]) => {
+        if (!server) return;
         this.log.info(`Disconnecting MCP server '${id}'`);
         await server.disconnect();
       })
@@ -202,12 +400,170 @@ export class MCPServerManager {
 
   /** Returns the number of connected servers. */
   get serverCount(): number {
-    return this.servers.size;
+    return [...this.servers.values()].filter(e => e.server).length;
+  }
+
+  /** Ids of all configured servers, connected or reconnecting. */
+  get serverIds(): string[] {
+    return [...this.servers.keys()];
   }
 
   /** Checks if a specific server is connected. */
   isConnected(serverId: string): boolean {
-    return this.servers.has(serverId);
+    return this.servers.get(serverId)?.status === 'connected';
+  }
+
+  /** Connection state, tool count and last ping of every known server */
+  getHealth(): MCPServerHealth[] {
+    return [...this.servers.entries()].map(([id, e]) => ({
+      id,
+      transport: e.transport,
+      status: e.status,
+      toolCount: e.tools.length,
+      reconnectAttempts: e.reconnectAttempts,
+      ...(e.connectedAt !== undefined ? { connectedAt: e.connectedAt } : {}),
+      ...(e.lastPingAt !== undefined ? { lastPingAt: e.lastPingAt, lastPingMs: e.lastPingMs } : {}),
+      ...(e.lastError ? { lastError: e.lastError } : {}),
+    }));
+  }
+
+  /**
+   * Subscribes to changes of the combined tool list, after a
+   * tools/list_changed notification or a reconnect. Returns an unsubscribe function.
+   */
+  onToolsChanged(listener: ToolsChangedListener): () => void {
+    this.toolsListeners.add(listener);
+    return () => { this.toolsListeners.delete(listener); };
+  }
+
+  // -----------------------------------------------------------------------
+  // Supervision
+  // -----------------------------------------------------------------------
+
+  private startPings(id: string): void {
+    const entry = this.servers.get(id);
+    if (!this.supervision || !entry?.server?.ping) return;
+    entry.pingTimer = setInterval(() => { void this.checkHealth(id); }, this.supervision.pingIntervalMs);
+    entry.pingTimer.unref?.();
+  }
+
+  private stopTimers(entry: ServerEntry): void {
+    clearInterval(entry.pingTimer);
+    clearTimeout(entry.reconnectTimer);
+    entry.pingTimer = undefined;
+    entry.reconnectTimer = undefined;
+  }
+
+  /** Pings a connected server; no answer within the timeout counts as a dropped connection */
+  async checkHealth(id: string): Promise<void> {
+    const entry = this.servers.get(id);
+    const server = entry?.server;
+    if (!entry || !server?.ping || !this.supervision) return;
+
+    const { pingTimeoutMs } = this.supervision;
+    const started = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`no answer within ${pingTimeoutMs}ms`)), pingTimeoutMs);
+    });
+    try {
+      await Promise.race([server.ping(), timeout]);
+      entry.lastPingAt = Date.now();
+      entry.lastPingMs = entry.lastPingAt - started;
+      this.reportHealth();
+    } catch (err) {
+      this.handleConnectionLost(id, server, `ping failed: ${errorMessage(err)}`);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private handleConnectionLost(id: string, server: MCPServer, reason: string): void {
+    const entry = this.servers.get(id);
+    if (!entry || entry.server !== server) return;
+
+    this.log.warn(`MCP server '${id}' connection lost`, { reason });
+    this.stopTimers(entry);
+    entry.server = null;
+    entry.status = 'reconnecting';
+    entry.lastError = reason;
+    void server.disconnect().catch(() => {});
+    this.reportHealth();
+    this.scheduleReconnect(id);
+  }
+
+  private scheduleReconnect(id: string): void {
+    const entry = this.servers.get(id);
+    if (!entry || !this.supervision) return;
+
+    const delay = backoffDelay(entry.reconnectAttempts, {
+      baseDelayMs: this.supervision.reconnectBaseDelayMs,
+      maxDelayMs: this.supervision.reconnectMaxDelayMs,
+    });
+    entry.reconnectTimer = setTimeout(() => { void this.reconnect(id); }, delay);
+    entry.reconnectTimer.unref?.();
+  }
+
+  private async reconnect(id: string): Promise<void> {
+    const entry = this.servers.get(id);
+    if (!entry || entry.server) return;
+    entry.reconnectTimer = undefined;
+    entry.reconnectAttempts++;
+
+    try {
+      const config = this.expandConfig(entry.config);
+      const { server, tools } = await this.open(id, entry.transport, config);
+      // disconnectAll() may have run while connecting
+      if (this.servers.get(id) !== entry) {
+        await server.disconnect().catch(() => {});
+        return;
+      }
+      const changed = JSON.stringify(tools) !== JSON.stringify(entry.tools);
+      Object.assign(entry, {
+        server, tools, status: 'connected', reconnectAttempts: 0,
+        connectedAt: Date.now(), lastError: undefined,
+      });
+      this.log.info(`MCP server '${id}' reconnected`, { toolCount: tools.length });
+      this.startPings(id);
+      this.reportHealth();
+      if (changed) this.emitToolsChanged();
+    } catch (err) {
+      if (this.servers.get(id) !== entry) return;
+      entry.lastError = errorMessage(err);
+      this.log.warn(`MCP server '${id}' reconnect attempt ${entry.reconnectAttempts} failed`, { error: entry.lastError });
+      this.reportHealth();
+      this.scheduleReconnect(id);
+    }
+  }
+
+  private async refreshTools(id: string, server: MCPServer): Promise<void> {
+    const entry = this.servers.get(id);
+    if (!entry || entry.server !== server) return;
+
+    try {
+      entry.tools = await server.listTools();
+    } catch (err) {
+      this.log.warn(`MCP server '${id}' tool refresh failed`, { error: errorMessage(err) });
+      return;
+    }
+    this.log.info(`MCP server '${id}' tools changed`, { toolCount: entry.tools.length });
+    this.reportHealth();
+    this.emitToolsChanged();
+  }
+
+  private emitToolsChanged(): void {
+    const tools = this.getToolDefinitions();
+    for (const listener of this.toolsListeners) listener(tools);
+  }
+
+  private reportHealth(): void {
+    const dir = this.supervision?.healthDir;
+    if (!dir) return;
+    try {
+      writeHealthReport(dir, this.getHealth());
+    } catch (err) {
+      this.log.warn('Failed to write MCP health report', { error: errorMessage(err) });
+    }
   }
 
   private parseQualifiedName(qualifiedName: string): { serverId: string; toolName: string } | null {
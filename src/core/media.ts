@@ -0,0 +1,94 @@
+/**
+ * Media Blocks
+ * Builds image and PDF content blocks from file data, and the text that
+ * stands in for them where base64 data must not go: compaction summaries,
+ * elided history and token estimates.
+ */
+
+import { extname } from 'path';
+import type { MediaBlock } from './types';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const IMAGE_MEDIA_TYPES: Readonly<Record<string, string>> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+export const PDF_MEDIA_TYPE = 'application/pdf';
+
+/** Provider limits for a single inline image and document */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_DOCUMENT_BYTES = 32 * 1024 * 1024;
+
+/** Rough token costs: a full-size image, and PDF bytes per token (text plus page image) */
+const IMAGE_TOKENS = 1600;
+const DOCUMENT_BYTES_PER_TOKEN = 50;
+
+// ---------------------------------------------------------------------------
+// Building Blocks
+// ---------------------------------------------------------------------------
+
+/** Media type of a file the model can view, by extension */
+export function mediaTypeForPath(path: string): string | undefined {
+  const ext = extname(path).toLowerCase();
+  return ext === '.pdf' ? PDF_MEDIA_TYPE : IMAGE_MEDIA_TYPES[ext];
+}
+
+export function isViewableMediaType(mediaType: string): boolean {
+  return mediaType === PDF_MEDIA_TYPE || Object.values(IMAGE_MEDIA_TYPES).includes(mediaType);
+}
+
+/**
+ * Image or document block for file data. Throws for media types the model
+ * cannot view and for files over the provider limit.
+ */
+export function toMediaBlock(data: Buffer, mediaType: string, title?: string): MediaBlock {
+  if (!isViewableMediaType(mediaType)) {
+    throw new Error(`Unsupported media type: ${mediaType}`);
+  }
+  const isDocument = mediaType === PDF_MEDIA_TYPE;
+  const limit = isDocument ? MAX_DOCUMENT_BYTES : MAX_IMAGE_BYTES;
+  if (data.length > limit) {
+    throw new Error(`File is too large to attach (${data.length} bytes, limit ${limit})`);
+  }
+
+  const source = { type: 'base64' as const, media_type: mediaType, data: data.toString('base64') };
+  return isDocument
+    ? { type: 'document', source, ...(title ? { title } : {}) }
+    : { type: 'image', source };
+}
+
+// ---------------------------------------------------------------------------
+// Stand-ins
+// ---------------------------------------------------------------------------
+
+export function isMediaBlock(block: unknown): block is MediaBlock {
+  const type = (block as { type?: unknown } | null)?.type;
+  return type === 'image' || type === 'document';
+}
+
+function decodedSize(block: MediaBlock): number {
+  const { data } = block.source;
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor(data.length * 3 / 4) - padding;
+}
+
+/** Short text description of a media block, e.g. "[image: image/png, 12 KB]" */
+export function describeMedia(block: MediaBlock): string {
+  const size = `${Math.max(1, Math.round(decodedSize(block) / 1024))} KB`;
+  const title = block.type === 'document' && block.title ? `${block.title}, ` : '';
+  return `[${block.type}: ${title}${block.source.media_type}, ${size}]`;
+}
+
+/** Approximate tokens a media block occupies in the context window */
+export function estimateMediaTokens(block: MediaBlock): number {
+  return block.type === 'image'
+    ? IMAGE_TOKENS
+    : Math.ceil(decodedSize(block) / DOCUMENT_BYTES_PER_TOKEN);
+}
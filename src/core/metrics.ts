@@ -10,6 +10,8 @@ import { getLogger } from '../infra/logger';
 export interface AgentMetrics {
   agentName: string;
   tokensUsed: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
   toolUses: number;
   duration: number;       // milliseconds
   model: string;
@@ -59,6 +61,8 @@ export class MetricsCollector {
     this.record(metrics, 'metrics:agent', {
       agentName: metrics.agentName,
       tokensUsed: metrics.tokensUsed,
+      cacheReadTokens: metrics.cacheReadTokens,
+      cacheWriteTokens: metrics.cacheWriteTokens,
       toolUses: metrics.toolUses,
       durationMs: metrics.duration,
     });
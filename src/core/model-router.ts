@@ -0,0 +1,192 @@
+/**
+ * Model Router
+ * Maps internal roles (main conversation, compaction, classifier, planner,
+ * agent factory, subagents) and model aliases to a concrete provider, model
+ * id and output token cap. Aliases that are not configured are matched
+ * against the provider's listModels(), so "haiku" means whatever haiku model
+ * the serving provider actually offers.
+ */
+
+import type { Config, ModelRoute, ModelRouting } from './types';
+import type { LLMProvider } from './plugin-api-types';
+import { resolveModelProvider, type ProviderManager } from './provider-manager';
+
+// ---------------------------------------------------------------------------
+// Types & Constants
+// ---------------------------------------------------------------------------
+
+export type ModelRole = 'main' | 'compaction' | 'classifier' | 'planner' | 'agentFactory' | 'subagent';
+
+export const MODEL_ROLES: readonly ModelRole[] = [
+  'main', 'compaction', 'classifier', 'planner', 'agentFactory', 'subagent',
+];
+
+export interface ResolvedModel {
+  provider: LLMProvider;
+  model: string;
+  /** Output token cap from the route; callers apply their own default when unset */
+  maxTokens?: number;
+}
+
+export interface ModelRoutingReport {
+  errors: string[];
+  warnings: string[];
+}
+
+/** Model ids used for the built-in aliases when the provider lists no models */
+export const BUILTIN_MODEL_ALIASES: Readonly<Record<string, string>> = {
+  sonnet: 'claude-sonnet-4-20250514',
+  opus: 'claude-opus-4-20250514',
+  haiku: 'claude-haiku-3-5-20250514',
+};
+
+const ROLE_DEFAULTS: Record<ModelRole, string> = {
+  main: 'default',
+  compaction: 'haiku',
+  classifier: 'haiku',
+  planner: 'haiku',
+  agentFactory: 'haiku',
+  subagent: 'inherit',
+};
+
+type RouterConfig = Partial<Pick<Config, 'model' | 'compactionModel' | 'models'>>;
+
+function listModelIds(provider: LLMProvider): string[] {
+  try {
+    return provider.listModels().map(m => m.id);
+  } catch {
+    return [];
+  }
+}
+
+function toRoute(ref: string | ModelRoute): ModelRoute {
+  return typeof ref === 'string' ? { model: ref } : ref;
+}
+
+// ---------------------------------------------------------------------------
+// ModelRouter
+// ---------------------------------------------------------------------------
+
+export class ModelRouter {
+  private config: RouterConfig;
+  private routing: ModelRouting;
+  private manager: ProviderManager | null | undefined;
+
+  /** Providers are looked up in the global ProviderManager unless a manager is given */
+  constructor(config: RouterConfig = {}, manager?: ProviderManager | null) {
+    this.config = config;
+    this.routing = config.models ?? { roles: {}, aliases: {} };
+    this.manager = manager;
+  }
+
+  /**
+   * The configured reference for a role before resolution. An explicit
+   * `model` setting wins over roles.main, and compactionModel over
+   * roles.compaction, so existing settings and flags keep working.
+   */
+  reference(role: ModelRole, override?: string): ModelRoute {
+    if (override) return { model: override };
+
+    const configured = this.routing.roles[role];
+    if (role === 'main' && this.config.model && this.config.model !== 'default') {
+      return { model: this.config.model, maxTokens: configured ? toRoute(configured).maxTokens : undefined };
+    }
+    if (role === 'compaction' && this.config.compactionModel) {
+      return { model: this.config.compactionModel };
+    }
+    return configured ? toRoute(configured) : { model: ROLE_DEFAULTS[role] };
+  }
+
+  /** Resolve the model for a role; `override` is e.g. an agent's own compactionModel */
+  resolveRole(role: ModelRole, fallback: LLMProvider, override?: string): ResolvedModel {
+    const route = this.reference(role, override);
+    const resolved = this.resolveRef(route.model, fallback, []);
+    return { ...resolved, maxTokens: route.maxTokens ?? resolved.maxTokens };
+  }
+
+  /** Resolve a model id, alias, "default", "inherit" or "provider:model" */
+  resolve(ref: string, fallback: LLMProvider): ResolvedModel {
+    return this.resolveRef(ref, fallback, []);
+  }
+
+  /**
+   * Turn a resolved model back into an id that resolveModelProvider() routes
+   * to the same provider, for code paths that pass model ids as strings.
+   */
+  qualify(resolved: ResolvedModel, fallback: LLMProvider): string {
+    return resolved.provider === fallback && !resolved.model.includes(':')
+      ? resolved.model
+      : `${resolved.provider.id}:${resolved.model}`;
+  }
+
+  /**
+   * Resolve every role and configured alias. Unresolvable references
+   * (alias cycles, providers without credentials) are errors; models the
+   * provider does not list and aliases it has no match for are warnings.
+   */
+  validate(fallback: LLMProvider): ModelRoutingReport {
+    const report: ModelRoutingReport = { errors: [], warnings: [] };
+    const refs: Array<[string, string]> = [
+      ...MODEL_ROLES.map((role): [string, string] => [`role ${role}`, this.reference(role).model]),
+      ...Object.entries(this.routing.aliases).map(([name, ref]): [string, string] => [`alias ${name}`, toRoute(ref).model]),
+    ];
+
+    for (const [label, ref] of refs) {
+      const notes: string[] = [];
+      try {
+        const { provider, model } = this.resolveRef(ref, fallback, [], notes);
+        const listed = listModelIds(provider);
+        if (listed.length > 0 && !listed.includes(model)) {
+          notes.push(`model "${model}" is not listed by provider ${provider.id}`);
+        }
+      } catch (err) {
+        report.errors.push(`${label}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      report.warnings.push(...notes.map(note => `${label}: ${note}`));
+    }
+    return report;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private
+  // ---------------------------------------------------------------------------
+
+  /**
+   * `seen` holds the aliases followed so far, so cycles fail instead of
+   * recursing forever. A configured alias may point at the built-in alias of
+   * the same name (haiku: { model: 'haiku', maxTokens: 1000 }).
+   */
+  private resolveRef(ref: string, fallback: LLMProvider, seen: string[], notes?: string[]): ResolvedModel {
+    const repeated = seen.includes(ref);
+    if (repeated && !BUILTIN_MODEL_ALIASES[ref]) {
+      throw new Error(`Model alias cycle: ${[...seen, ref].join(' -> ')}`);
+    }
+
+    if (ref === 'inherit') {
+      const main = this.reference('main');
+      const resolved = this.resolveRef(main.model, fallback, [...seen, ref], notes);
+      return { ...resolved, maxTokens: main.maxTokens ?? resolved.maxTokens };
+    }
+
+    const alias = repeated ? undefined : this.routing.aliases[ref];
+    if (alias) {
+      const route = toRoute(alias);
+      const resolved = this.resolveRef(route.model, fallback, [...seen, ref], notes);
+      return { ...resolved, maxTokens: route.maxTokens ?? resolved.maxTokens };
+    }
+
+    const { provider, model } = resolveModelProvider(ref, fallback, this.manager);
+    if (model === 'default') return { provider, model: provider.getDefaultModel() };
+
+    const builtin = BUILTIN_MODEL_ALIASES[model];
+    if (!builtin) return { provider, model };
+
+    const listed = listModelIds(provider);
+    if (listed.length === 0 || listed.includes(builtin)) return { provider, model: builtin };
+    const match = listed.find(id => id.includes(model));
+    if (match) return { provider, model: match };
+
+    notes?.push(`provider ${provider.id} has no "${model}" model; using its default`);
+    return { provider, model: provider.getDefaultModel() };
+  }
+}
@@ -0,0 +1,402 @@
+/**
+ * OpenAI-Compatible Provider
+ * Built-in LLMProvider for the chat-completions API, which OpenAI and local
+ * servers such as llama.cpp, vLLM and Ollama all speak. Anthropic-style
+ * tool_use / tool_result blocks are mapped to tool_calls and tool messages,
+ * image and document blocks to content parts, and streamed deltas are
+ * reassembled into LLMChatChunks.
+ */
+
+import {
+  OpenAIProviderConfigSchema, type OpenAIProviderConfig, type ToolDefinition, type MediaBlock,
+} from './types';
+import type {
+  LLMProvider,
+  LLMProviderCapabilities,
+  LLMModel,
+  LLMCredentials,
+  LLMChatOptions,
+  LLMChatChunk,
+  LLMChatResponse,
+  LLMUsage,
+  LLMToolChoice,
+} from './plugin-api-types';
+import { getLogger } from '../infra/logger';
+import { isMediaBlock } from './media';
+
+// ---------------------------------------------------------------------------
+// Types & Constants
+// ---------------------------------------------------------------------------
+
+export interface OpenAIProviderOptions extends Partial<OpenAIProviderConfig> {
+  /** Provider id used in "id:model" references (default: "openai") */
+  id?: string;
+  name?: string;
+}
+
+type StopReason = NonNullable<LLMChatResponse['stopReason']>;
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'file'; file: { filename: string; file_data: string } };
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null | OpenAIContentPart[];
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+interface OpenAIStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+interface OpenAICompletion {
+  choices: Array<{
+    message: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+type Block = { type: string; [key: string]: unknown };
+
+const DEFAULT_MAX_TOKENS = 4096;
+const MAX_OUTPUT_TOKENS = 16384;
+
+// ---------------------------------------------------------------------------
+// Request Mapping
+// ---------------------------------------------------------------------------
+
+function textOf(blocks: Block[]): string {
+  return blocks.flatMap(b => b.type === 'text' ? [b.text as string] : []).join('\n');
+}
+
+function toContentPart(block: MediaBlock): OpenAIContentPart {
+  const url = `data:${block.source.media_type};base64,${block.source.data}`;
+  return block.type === 'image'
+    ? { type: 'image_url', image_url: { url } }
+    : { type: 'file', file: { filename: block.title ?? 'document.pdf', file_data: url } };
+}
+
+/** Convert internal (Anthropic-style) messages to chat-completions messages */
+export function toOpenAIMessages(
+  systemPrompt: string | undefined,
+  messages: LLMChatOptions['messages'],
+): OpenAIMessage[] {
+  const out: OpenAIMessage[] = [];
+  if (systemPrompt) out.push({ role: 'system', content: systemPrompt });
+
+  for (const msg of messages) {
+    const role = msg.role === 'assistant' ? 'assistant' : 'user';
+    if (typeof msg.content === 'string') {
+      out.push({ role, content: msg.content });
+      continue;
+    }
+
+    const blocks = msg.content as Block[];
+    if (role === 'assistant') {
+      const toolCalls: OpenAIToolCall[] = blocks
+        .filter(b => b.type === 'tool_use')
+        .map(b => ({
+          id: b.id as string,
+          type: 'function',
+          function: { name: b.name as string, arguments: JSON.stringify(b.input ?? {}) },
+        }));
+      const text = textOf(blocks);
+      out.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    // Tool results must directly follow the assistant message that asked for them
+    for (const block of blocks) {
+      if (block.type !== 'tool_result') continue;
+      out.push({ role: 'tool', tool_call_id: block.tool_use_id as string, content: String(block.content ?? '') });
+    }
+    const text = textOf(blocks);
+    const media = blocks.filter(isMediaBlock);
+    if (media.length > 0) {
+      out.push({ role: 'user', content: [...(text ? [{ type: 'text' as const, text }] : []), ...media.map(toContentPart)] });
+    } else if (text) {
+      out.push({ role: 'user', content: text });
+    }
+  }
+  return out;
+}
+
+export function toOpenAITools(tools: ToolDefinition[]): Array<{ type: 'function'; function: Record<string, unknown> }> {
+  return tools.map(tool => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.inputSchema },
+  }));
+}
+
+export function toOpenAIToolChoice(choice: LLMToolChoice): unknown {
+  if (choice.type === 'auto') return 'auto';
+  if (choice.type === 'any') return 'required';
+  return { type: 'function', function: { name: choice.name } };
+}
+
+// ---------------------------------------------------------------------------
+// Response Mapping
+// ---------------------------------------------------------------------------
+
+function mapStopReason(finishReason: string | null | undefined, hasToolCalls: boolean): StopReason {
+  if (finishReason === 'length') return 'max_tokens';
+  // Some local servers report "stop" even when the reply is a tool call
+  if (finishReason === 'tool_calls' || finishReason === 'function_call' || hasToolCalls) return 'tool_use';
+  return 'end_turn';
+}
+
+/** OpenAI counts cached tokens inside prompt_tokens; report them separately */
+function mapUsage(usage: OpenAIUsage | null | undefined): LLMUsage {
+  const cached = usage?.prompt_tokens_details?.cached_tokens ?? 0;
+  return {
+    inputTokens: (usage?.prompt_tokens ?? 0) - cached,
+    outputTokens: usage?.completion_tokens ?? 0,
+    cacheReadTokens: cached,
+    cacheWriteTokens: 0,
+  };
+}
+
+function parseArguments(name: string, raw: string): Record<string, unknown> {
+  if (!raw.trim()) return {};
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : {};
+  } catch {
+    getLogger().warn('Model returned invalid tool call arguments', { tool: name, arguments: raw.slice(0, 200) });
+    return {};
+  }
+}
+
+/** Yield the JSON payload of each `data:` line of a server-sent event stream */
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const bytes of body) {
+    buffer += decoder.decode(bytes, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const data = line.trim();
+      if (!data.startsWith('data:')) continue;
+      const payload = data.slice(5).trim();
+      if (payload === '[DONE]') return;
+      if (payload) yield JSON.parse(payload);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly capabilities: LLMProviderCapabilities;
+  private config: OpenAIProviderConfig;
+  private apiKey = '';
+  private ready = false;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    const { id, name, ...config } = options;
+    this.id = id ?? 'openai';
+    this.name = name ?? 'OpenAI-compatible';
+    this.config = OpenAIProviderConfigSchema.parse(config);
+    this.capabilities = {
+      streaming: true,
+      toolUse: true,
+      vision: this.config.vision,
+      maxContextWindow: this.config.contextWindow,
+    };
+  }
+
+  async initialize(credentials: LLMCredentials): Promise<void> {
+    this.apiKey = credentials.value;
+    this.ready = true;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  async verifyCredentials(credentials: LLMCredentials): Promise<{ valid: boolean; error?: string }> {
+    try {
+      const res = await fetch(this.url('/models'), { headers: this.headers(credentials.value) });
+      if (res.status === 401 || res.status === 403) {
+        return { valid: false, error: 'Invalid API key. Please check the key for this endpoint.' };
+      }
+      // Some local servers do not implement /models; any other answer means the key was accepted
+      return { valid: true };
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      return { valid: false, error: `Could not reach ${this.config.baseUrl}: ${msg}` };
+    }
+  }
+
+  listModels(): LLMModel[] {
+    const ids = this.config.models ?? [this.config.defaultModel];
+    return ids.map(id => ({
+      id,
+      name: id,
+      contextWindow: this.config.contextWindow,
+      maxOutputTokens: MAX_OUTPUT_TOKENS,
+    }));
+  }
+
+  getDefaultModel(): string {
+    return this.config.defaultModel;
+  }
+
+  async *chat(options: LLMChatOptions): AsyncGenerator<LLMChatChunk> {
+    const res = await this.post({
+      ...this.requestBody(options),
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    if (!res.body) throw new Error('OpenAI API returned an empty response');
+
+    const toolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+    let finishReason: string | null | undefined;
+    let usage: OpenAIUsage | null | undefined;
+
+    for await (const event of readEvents(res.body)) {
+      const chunk = event as OpenAIStreamChunk;
+      if (chunk.usage) usage = chunk.usage;
+
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+      if (choice.delta?.content) yield { type: 'text', content: choice.delta.content };
+
+      for (const delta of choice.delta?.tool_calls ?? []) {
+        const call = toolCalls.get(delta.index) ?? { id: '', name: '', arguments: '' };
+        if (delta.id) call.id = delta.id;
+        if (delta.function?.name) call.name += delta.function.name;
+        if (delta.function?.arguments) call.arguments += delta.function.arguments;
+        toolCalls.set(delta.index, call);
+      }
+    }
+
+    const ordered = [...toolCalls.entries()].sort(([a], [b]) => a - b).map(([, call]) => call);
+    for (const [i, call] of ordered.entries()) {
+      yield {
+        type: 'tool_use',
+        toolUseId: call.id || `call_${i}`,
+        toolName: call.name,
+        toolInput: parseArguments(call.name, call.arguments),
+      };
+    }
+    yield { type: 'done', stopReason: mapStopReason(finishReason, ordered.length > 0), usage: mapUsage(usage) };
+  }
+
+  async compactionChat(options: LLMChatOptions): Promise<LLMChatResponse> {
+    const res = await this.post(this.requestBody(options));
+    const completion = await res.json() as OpenAICompletion;
+    const choice = completion.choices[0];
+    const message = choice?.message ?? {};
+
+    const content: LLMChatResponse['content'] = [];
+    if (message.content) content.push({ type: 'text', text: message.content });
+    for (const call of message.tool_calls ?? []) {
+      content.push({
+        type: 'tool_use',
+        id: call.id,
+        name: call.function.name,
+        input: parseArguments(call.function.name, call.function.arguments),
+      });
+    }
+
+    return {
+      content,
+      stopReason: mapStopReason(choice?.finish_reason, (message.tool_calls?.length ?? 0) > 0),
+      usage: mapUsage(completion.usage),
+    };
+  }
+
+  async shutdown(): Promise<void> {
+    this.ready = false;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private
+  // ---------------------------------------------------------------------------
+
+  private url(path: string): string {
+    return `${this.config.baseUrl.replace(/\/+$/, '')}${path}`;
+  }
+
+  private headers(apiKey: string): Record<string, string> {
+    return {
+      'content-type': 'application/json',
+      // Local servers usually run without a key
+      ...(apiKey ? { authorization: `Bearer ${apiKey}` } : {}),
+    };
+  }
+
+  private requestBody(options: LLMChatOptions): Record<string, unknown> {
+    return {
+      model: options.model,
+      messages: toOpenAIMessages(options.systemPrompt, options.messages),
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(options.tools?.length ? { tools: toOpenAITools(options.tools) } : {}),
+      ...(options.tools?.length && options.toolChoice ? { tool_choice: toOpenAIToolChoice(options.toolChoice) } : {}),
+    };
+  }
+
+  private async post(body: Record<string, unknown>): Promise<Response> {
+    if (!this.ready) throw new Error(`Provider ${this.id} is not initialized`);
+
+    const res = await fetch(this.url('/chat/completions'), {
+      method: 'POST',
+      headers: this.headers(this.apiKey),
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      const detail = (await res.text()).slice(0, 500);
+      // status and headers let ResilientProvider classify the error and honor retry-after
+      throw Object.assign(new Error(`OpenAI API error ${res.status}: ${detail}`), {
+        status: res.status,
+        headers: res.headers,
+      });
+    }
+    return res;
+  }
+}
+
+/** Create the built-in OpenAI-compatible provider */
+export function createOpenAIProvider(options: OpenAIProviderOptions = {}): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider(options);
+}
@@ -0,0 +1,472 @@
+/**
+ * Tool Permission Rules Engine
+ * Evaluates declarative `Tool(specifier)` rules from settings before each
+ * tool call. "ask" decisions are routed through the ApprovalManager so CLI
+ * or channel users can approve, every decision is written to the audit
+ * table, and "allow-always" answers are remembered per project.
+ */
+
+import { homedir } from 'os';
+import { basename, isAbsolute, join, normalize, resolve } from 'path';
+import type { PermissionBehavior, PermissionRules } from './types';
+import type { Database } from '../infra/database';
+import type { ApprovalManager } from './approval-manager';
+import { updateProjectLocalSettings } from './config';
+import { getLogger } from '../infra/logger';
+import { patchFilePaths } from './loop/tools/apply-patch';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ParsedPermissionRule {
+  /** Original rule text, e.g. `Bash(git push:*)` */
+  source: string;
+  tool: string;
+  specifier?: string;
+}
+
+export interface PermissionEvaluation {
+  behavior: PermissionBehavior;
+  /**
+   * Rule that produced the behavior, or NESTED_COMMAND when a shell command
+   * hides commands from the rules; undefined when the default mode applied
+   */
+  rule?: string;
+}
+
+export interface PermissionCheckResult {
+  allowed: boolean;
+  /** Explanation returned to the model when the call is refused */
+  reason?: string;
+}
+
+export interface PermissionCheckMeta {
+  sessionId?: string;
+  toolUseId?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Rule Parsing & Matching
+// ---------------------------------------------------------------------------
+
+/**
+ * Tools that run shell commands. `Bash` rules and Bash hook matchers cover
+ * all of them, matched against the command or, for BashInput, the text
+ * written to the shell.
+ */
+export const BASH_COMMAND_TOOLS: ReadonlySet<string> = new Set(['Bash', 'BashBackground', 'BashInput']);
+
+/** Input field that a rule specifier is matched against, keyed by tool name */
+const SUBJECT_FIELDS: Record<string, string> = {
+  Bash: 'command',
+  BashBackground: 'command',
+  BashInput: 'input',
+  Read: 'path',
+  Write: 'path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  Glob: 'path',
+  Grep: 'path',
+};
+
+const RULE_PATTERN = /^([^()\s]+)(?:\((.*)\))?$/s;
+
+export function parsePermissionRule(rule: string): ParsedPermissionRule | null {
+  const match = rule.trim().match(RULE_PATTERN);
+  if (!match) return null;
+  const specifier = match[2]?.trim();
+  return { source: rule, tool: match[1]!, specifier: specifier || undefined };
+}
+
+/** `*` matches anything; `\*` and `\\` are a literal star and backslash */
+function wildcardToRegExp(pattern: string): RegExp {
+  const source = pattern.replace(/\\([\\*])|\*|[.+^${}()|[\]\\?]/g, (token, literal?: string) => {
+    if (literal) return `\\${literal}`;
+    return token === '*' ? '.*' : `\\${token}`;
+  });
+  return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * Split a command into the commands it chains or pipes together, on `&&`,
+ * `||`, `;`, `|`, `&` and newlines outside quotes, so each one is checked on
+ * its own. `&` inside redirections such as `2>&1` does not split.
+ */
+export function splitCommand(command: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i]!;
+    if (ch === '\\' && quote !== "'") {
+      current += ch + (command[i + 1] ?? '');
+      i++;
+    } else if (quote) {
+      if (ch === quote) quote = null;
+      current += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      current += ch;
+    } else if (ch === ';' || ch === '\n' || ch === '|' || (ch === '&' && !isRedirectAmpersand(command, i))) {
+      parts.push(current);
+      current = '';
+      if ((ch === '|' || ch === '&') && command[i + 1] === ch) i++;
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+function isRedirectAmpersand(command: string, index: number): boolean {
+  return command[index - 1] === '>' || command[index - 1] === '<' || command[index + 1] === '>';
+}
+
+const ENV_ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=(?:"(?:[^"\\]|\\.)*"|'[^']*'|\\.|[^\s"'\\])*\s*/;
+
+/**
+ * The command as rules see it: leading `NAME=value` assignments dropped and
+ * an absolute binary reduced to its name, so `FOO=1 /bin/rm x` is `rm x`.
+ */
+export function normalizeCommand(command: string): string {
+  let rest = command.trim();
+  for (let match = rest.match(ENV_ASSIGNMENT); match?.[0]; match = rest.match(ENV_ASSIGNMENT)) {
+    rest = rest.slice(match[0].length);
+  }
+  const binary = rest.match(/^\/\S*/)?.[0];
+  return binary ? basename(binary) + rest.slice(binary.length) : rest;
+}
+
+/** Reason label for commands that run other commands the rules cannot see */
+export const NESTED_COMMAND = 'nested shell command';
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh']);
+
+/** Words of a command with quotes and shell syntax removed, e.g. `bash -c "rm x"` is bash, -c, rm, x */
+function commandWords(command: string): string[] {
+  return command.split(/[\s"'`$(){};|&<>]+/).filter(Boolean);
+}
+
+/**
+ * Whether a command runs commands that prefix rules cannot see: a subshell,
+ * command substitution, backticks, a brace group, `eval` or `sh -c`.
+ */
+function hasNestedCommand(command: string): boolean {
+  let quote: string | null = null;
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i]!;
+    if (ch === '\\' && quote !== "'") {
+      i++;
+    } else if (quote === "'") {
+      if (ch === quote) quote = null;
+    } else if (ch === '`' || (ch === '$' && command[i + 1] === '(')) {
+      return true;
+    } else if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '(' || ch === ')') {
+      return true;
+    } else if ((ch === '{' || ch === '}') && !/\S/.test(command[i - 1] ?? '') && !/\S/.test(command[i + 1] ?? '')) {
+      return true;
+    }
+  }
+
+  const [binary, ...args] = commandWords(command);
+  return binary === 'eval' || (SHELLS.has(binary ?? '') && args.some(arg => /^-[a-z]*c/.test(arg)));
+}
+
+/** Whether the literal words a Bash specifier starts with appear anywhere in the command */
+function namesCommand(command: string, specifier: string): boolean {
+  const wanted = commandWords(specifier.replace(/:\*$/, '').split('*')[0]!);
+  if (wanted.length === 0) return true;
+  const words = commandWords(command);
+  return words.some((word, i) =>
+    basename(word) === wanted[0] && wanted.every((w, j) => j === 0 || words[i + j] === w));
+}
+
+/** `git push:*` matches the command prefix; otherwise `*` is a wildcard over the whole command */
+function matchesCommand(command: string, specifier: string): boolean {
+  const normalized = command.trim();
+  if (specifier.endsWith(':*')) {
+    const prefix = specifier.slice(0, -2).trim();
+    return normalized === prefix || normalized.startsWith(`${prefix} `);
+  }
+  return wildcardToRegExp(specifier).test(normalized);
+}
+
+/**
+ * Path specifiers are globs: `/abs/**` is absolute, `~/x` is under the home
+ * dir, `./x` is relative to the project, and anything else (`**`, `*.pem`)
+ * matches at any depth.
+ */
+function matchesPath(path: string, specifier: string, projectDir: string): boolean {
+  let pattern: string;
+  if (specifier.startsWith('~/')) pattern = join(homedir(), specifier.slice(2));
+  else if (specifier.startsWith('./')) pattern = resolve(projectDir, specifier);
+  else if (isAbsolute(specifier)) pattern = resolve(specifier);
+  else pattern = `**/${normalize(specifier)}`;
+
+  return new Bun.Glob(pattern).match(path);
+}
+
+/** Escape a command or path so a rule saved for it matches only that exact text */
+function escapeSpecifier(toolName: string, subject: string): string {
+  return BASH_COMMAND_TOOLS.has(toolName) ? subject.replace(/[\\*]/g, '\\$&') : subject.replace(/[\\*?[\]{}]/g, '\\$&');
+}
+
+const BEHAVIOR_RANK: Record<PermissionBehavior, number> = { allow: 0, ask: 1, deny: 2 };
+
+/**
+ * The strictest of several evaluations. Among allows, one given only by the
+ * default mode leaves the whole call unattributed.
+ */
+function strictest(results: PermissionEvaluation[]): PermissionEvaluation | undefined {
+  let worst: PermissionEvaluation | undefined;
+  for (const result of results) {
+    const rank = BEHAVIOR_RANK[result.behavior] - BEHAVIOR_RANK[worst?.behavior ?? 'allow'];
+    if (!worst || rank > 0 || (rank === 0 && result.behavior === 'allow' && !result.rule)) worst = result;
+  }
+  return worst;
+}
+
+/** The value a specifier is matched against, or null for tools without one */
+function ruleSubject(toolName: string, input: Record<string, unknown>, projectDir: string): string | null {
+  const field = SUBJECT_FIELDS[toolName];
+  if (!field) return null;
+  const value = input[field];
+  if (BASH_COMMAND_TOOLS.has(toolName)) return typeof value === 'string' ? value : null;
+  return resolve(projectDir, typeof value === 'string' && value ? value : '.');
+}
+
+// ---------------------------------------------------------------------------
+// Permission Engine Class
+// ---------------------------------------------------------------------------
+
+export class PermissionEngine {
+  private rules: Record<PermissionBehavior, ParsedPermissionRule[]>;
+  private approved: ParsedPermissionRule[];
+  private defaultMode: PermissionBehavior;
+  private projectDir: string;
+  private db: Database | undefined;
+  private approvalManager: ApprovalManager | undefined;
+  private agentId: string | undefined;
+
+  constructor(options: {
+    rules?: Partial<PermissionRules>;
+    projectDir?: string;
+    db?: Database;
+    approvalManager?: ApprovalManager;
+    agentId?: string;
+  } = {}) {
+    this.projectDir = options.projectDir ?? process.cwd();
+    this.db = options.db;
+    this.approvalManager = options.approvalManager;
+    this.agentId = options.agentId;
+    this.defaultMode = options.rules?.defaultMode ?? 'allow';
+    this.rules = {
+      allow: this.parseRules(options.rules?.allow),
+      ask: this.parseRules(options.rules?.ask),
+      deny: this.parseRules(options.rules?.deny),
+    };
+    this.approved = this.parseRules(options.rules?.approved);
+  }
+
+  /**
+   * Evaluate rules for a tool call: deny wins over everything, then calls
+   * remembered with "allow-always", then ask, then allow. A compound shell
+   * command is evaluated per command and gets the strictest result, so it is
+   * denied if any part is denied and allowed only if every part is allowed.
+   * ApplyPatch and MultiEdit are checked against the Write and Edit rules for
+   * every file they touch, falling back to their own rules for files no path
+   * rule covers.
+   */
+  evaluate(toolName: string, input: Record<string, unknown>): PermissionEvaluation {
+    const subject = ruleSubject(toolName, input, this.projectDir);
+    const whole = this.evaluateSubject(toolName, subject);
+    if (whole.behavior === 'deny' && whole.rule) return whole;
+
+    const paths = toolName === 'ApplyPatch'
+      ? patchFilePaths(input.patch, typeof input.cwd === 'string' ? input.cwd : undefined)
+      : toolName === 'MultiEdit' && subject !== null ? [subject] : null;
+    if (paths) {
+      const results = paths.map(path => strictest(
+        (['Write', 'Edit'] as const).map(tool => this.evaluateSubject(tool, path)).filter(r => r.rule),
+      ) ?? whole);
+      return strictest(whole.rule ? [whole, ...results] : results) ?? whole;
+    }
+    if (!BASH_COMMAND_TOOLS.has(toolName) || subject === null) return whole;
+    return strictest(splitCommand(subject).map(part => this.evaluateCommand(toolName, part))) ?? whole;
+  }
+
+  /** Evaluate, ask for approval when needed, and audit the outcome */
+  async check(
+    toolName: string,
+    input: Record<string, unknown>,
+    meta: PermissionCheckMeta = {},
+  ): Promise<PermissionCheckResult> {
+    const { behavior, rule } = this.evaluate(toolName, input);
+    const ruleLabel = rule ?? `defaultMode=${this.defaultMode}`;
+
+    if (behavior === 'allow') {
+      if (rule) this.audit(toolName, input, meta, true, { behavior, rule });
+      return { allowed: true };
+    }
+
+    if (behavior === 'deny') {
+      this.audit(toolName, input, meta, false, { behavior, rule: ruleLabel });
+      return { allowed: false, reason: `Permission denied for ${toolName} by rule ${ruleLabel}` };
+    }
+
+    return this.askApproval(toolName, input, meta, ruleLabel);
+  }
+
+  /** Remember an "allow-always" answer for this process and in the project's local settings */
+  rememberApproval(rule: string): void {
+    const parsed = parsePermissionRule(rule);
+    if (!parsed || this.approved.some(r => r.source === rule)) return;
+    this.approved.push(parsed);
+
+    try {
+      updateProjectLocalSettings(this.projectDir, (settings) => {
+        const permissions = (settings.permissions ?? {}) as { approved?: string[] };
+        permissions.approved = [...(permissions.approved ?? []).filter(r => r !== rule), rule];
+        settings.permissions = permissions;
+      });
+    } catch (err) {
+      getLogger().warn('Failed to persist permission rule', {
+        rule, error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /** Rule that matches exactly this call, with wildcards in the command or path escaped */
+  suggestRule(toolName: string, input: Record<string, unknown>): string {
+    const subject = ruleSubject(toolName, input, this.projectDir);
+    return subject === null ? toolName : `${toolName}(${escapeSpecifier(toolName, subject)})`;
+  }
+
+  /** Rules that an "allow-always" answer records: one per command of a compound shell command */
+  suggestRules(toolName: string, input: Record<string, unknown>): string[] {
+    const subject = ruleSubject(toolName, input, this.projectDir);
+    if (!BASH_COMMAND_TOOLS.has(toolName) || subject === null) return [this.suggestRule(toolName, input)];
+    return splitCommand(subject).map(part => `${toolName}(${escapeSpecifier(toolName, normalizeCommand(part))})`);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private
+  // ---------------------------------------------------------------------------
+
+  private parseRules(rules: string[] | undefined): ParsedPermissionRule[] {
+    const parsed: ParsedPermissionRule[] = [];
+    for (const rule of rules ?? []) {
+      const result = parsePermissionRule(rule);
+      if (result) parsed.push(result);
+      else getLogger().warn('Ignoring invalid permission rule', { rule });
+    }
+    return parsed;
+  }
+
+  private evaluateSubject(toolName: string, subject: string | null): PermissionEvaluation {
+    const find = (rules: ParsedPermissionRule[]) => rules.find(r => this.matches(r, toolName, subject))?.source;
+
+    const denied = find(this.rules.deny);
+    if (denied) return { behavior: 'deny', rule: denied };
+    const approved = find(this.approved);
+    if (approved) return { behavior: 'allow', rule: approved };
+    for (const behavior of ['ask', 'allow'] as const) {
+      const rule = find(this.rules[behavior]);
+      if (rule) return { behavior, rule };
+    }
+    return { behavior: this.defaultMode };
+  }
+
+  /**
+   * One command of a shell command line. A command that runs nested commands
+   * is denied when a deny rule names any command in it, and otherwise asks
+   * unless it was approved as written.
+   */
+  private evaluateCommand(toolName: string, part: string): PermissionEvaluation {
+    const command = normalizeCommand(part);
+    const result = this.evaluateSubject(toolName, command);
+    if (result.behavior === 'deny' || !hasNestedCommand(command)) return result;
+
+    const denied = this.rules.deny.find(rule =>
+      this.matches({ ...rule, specifier: undefined }, toolName, command)
+      && rule.specifier !== undefined && namesCommand(command, rule.specifier));
+    if (denied) return { behavior: 'deny', rule: denied.source };
+    if (result.behavior === 'ask' || this.approved.some(rule => rule.source === result.rule)) return result;
+    return { behavior: 'ask', rule: NESTED_COMMAND };
+  }
+
+  private matches(rule: ParsedPermissionRule, toolName: string, subject: string | null): boolean {
+    const tool = wildcardToRegExp(rule.tool);
+    if (!tool.test(toolName) && !(BASH_COMMAND_TOOLS.has(toolName) && tool.test('Bash'))) return false;
+    if (!rule.specifier) return true;
+    if (subject === null) return false;
+    return BASH_COMMAND_TOOLS.has(toolName)
+      ? matchesCommand(subject, rule.specifier)
+      : matchesPath(subject, rule.specifier, this.projectDir);
+  }
+
+  private async askApproval(
+    toolName: string,
+    input: Record<string, unknown>,
+    meta: PermissionCheckMeta,
+    rule: string,
+  ): Promise<PermissionCheckResult> {
+    if (!this.approvalManager) {
+      this.audit(toolName, input, meta, false, { behavior: 'ask', rule, decision: 'no-approver' });
+      return {
+        allowed: false,
+        reason: `${toolName} requires approval (rule ${rule}), but no approver is available`,
+      };
+    }
+
+    const description = this.suggestRule(toolName, input);
+    const decision = await this.approvalManager.requestApproval(description, {
+      tool: toolName, input, rule, sessionId: meta.sessionId, toolUseId: meta.toolUseId,
+    });
+
+    const allowed = decision === 'allow-once' || decision === 'allow-always';
+    this.audit(toolName, input, meta, allowed, { behavior: 'ask', rule, decision: decision ?? 'timeout' });
+
+    if (decision === 'allow-always') {
+      for (const approved of this.suggestRules(toolName, input)) this.rememberApproval(approved);
+    }
+    if (allowed) return { allowed: true };
+
+    return {
+      allowed: false,
+      reason: decision === 'deny'
+        ? `The user denied permission for ${description}`
+        : `Approval for ${description} timed out`,
+    };
+  }
+
+  private audit(
+    toolName: string,
+    input: Record<string, unknown>,
+    meta: PermissionCheckMeta,
+    allowed: boolean,
+    details: Record<string, unknown>,
+  ): void {
+    if (!this.db) return;
+    try {
+      this.db.audit.log({
+        action: 'tool_permission',
+        target: this.suggestRule(toolName, input),
+        agentId: this.agentId,
+        result: allowed ? 'success' : 'failure',
+        details: { ...details, tool: toolName, sessionId: meta.sessionId, toolUseId: meta.toolUseId },
+      });
+    } catch (err) {
+      getLogger().warn('Failed to write permission audit entry', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+}
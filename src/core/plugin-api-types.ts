@@ -93,7 +93,9 @@ export type HookEvent =
   | 'subagent:spawn'
   | 'startup'
   | 'shutdown'
-  | 'preCompact';
+  | 'preCompact'
+  | 'preToolUse'
+  | 'postToolUse';
 
 export interface HookContext {
   event: HookEvent;
@@ -102,12 +104,20 @@ export interface HookContext {
   message?: unknown;
   taskId?: string;
   data?: Record<string, unknown>;
+  /** Set for preToolUse/postToolUse */
+  toolName?: string;
+  toolUseId?: string;
+  toolInput?: Record<string, unknown>;
+  /** Set for postToolUse */
+  toolResult?: { content: string; isError: boolean };
 }
 
 export interface HookResult {
   allow: boolean;
   additionalContext?: string;
   error?: string;
+  /** preToolUse only: replaces the tool input before the call runs */
+  updatedInput?: Record<string, unknown>;
 }
 
 export type HookHandler = (context: HookContext) => Promise<HookResult>;
@@ -135,22 +145,71 @@ export interface LLMCredentials {
   value: string;
 }
 
+/**
+ * Prompt cache breakpoints for a chat request.
+ * Providers without prompt caching ignore these markers.
+ */
+export interface LLMCacheBreakpoints {
+  /** Cache everything up to and including the system prompt */
+  system?: boolean;
+  /** Cache everything up to and including the tool definitions */
+  tools?: boolean;
+  /** Indices into `messages` whose last content block ends a cached prefix */
+  messageIndices?: number[];
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens served from the prompt cache */
+  cacheReadTokens?: number;
+  /** Input tokens written to the prompt cache */
+  cacheWriteTokens?: number;
+}
+
 export interface LLMChatOptions {
   model: string;
   messages: Array<{ role: string; content: string | unknown[] }>;
   tools?: ToolDefinition[];
   maxTokens?: number;
   systemPrompt?: string;
+  cacheBreakpoints?: LLMCacheBreakpoints;
+  /** Enable extended thinking with the given token budget */
+  thinking?: { budgetTokens: number };
+  /** Require a tool call ('any') or a specific tool; providers without support may ignore it */
+  toolChoice?: LLMToolChoice;
 }
 
+export type LLMToolChoice = { type: 'auto' } | { type: 'any' } | { type: 'tool'; name: string };
+
+/**
+ * Streamed chunk from a chat completion.
+ * - `thinking`: `content` is a thinking delta; a chunk carrying `signature`
+ *   closes the current thinking block.
+ * - `redacted_thinking`: `content` is the opaque encrypted block data.
+ */
 export interface LLMChatChunk {
-  type: 'text' | 'tool_use' | 'done';
+  type: 'text' | 'tool_use' | 'thinking' | 'redacted_thinking' | 'done';
   content?: string;
+  signature?: string;
   toolUseId?: string;
   toolName?: string;
   toolInput?: Record<string, unknown>;
   stopReason?: 'end_turn' | 'tool_use' | 'max_tokens';
-  usage?: { inputTokens: number; outputTokens: number };
+  usage?: LLMUsage;
+}
+
+/**
+ * Counts the input tokens a request would consume.
+ * Providers with a native tokenizer or count endpoint implement this;
+ * callers fall back to a local approximation otherwise.
+ */
+export interface TokenCounter {
+  countTokens(
+    messages: LLMChatOptions['messages'],
+    tools?: ToolDefinition[],
+    systemPrompt?: string,
+  ): Promise<number>;
 }
 
 export interface LLMChatResponse {
@@ -162,7 +221,7 @@ export interface LLMChatResponse {
     input?: Record<string, unknown>;
   }>;
   stopReason: 'end_turn' | 'tool_use' | 'max_tokens' | null;
-  usage: { inputTokens: number; outputTokens: number };
+  usage: LLMUsage;
 }
 
 export interface LLMProvider {
@@ -211,6 +270,11 @@ export interface LLMProvider {
    */
   compactionChat(options: LLMChatOptions): Promise<LLMChatResponse>;
 
+  /**
+   * Count input tokens for messages, tools and system prompt (optional)
+   */
+  countTokens?: TokenCounter['countTokens'];
+
   /**
    * Shutdown and cleanup resources
    */
@@ -246,13 +310,32 @@ export interface TranscriptionProvider {
 // Tool Registration (for plugin-registered tools)
 // ---------------------------------------------------------------------------
 
-export interface ToolRegistration {
+export interface ExecutableToolRegistration {
   definition: ToolDefinition;
   execute: (toolUseId: string, input: Record<string, unknown>) => Promise<ToolResult>;
   /** If true, the tool is a server-side tool passed through to the LLM provider (e.g. Anthropic web_search) */
   serverTool?: boolean;
 }
 
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  snippet?: string;
+}
+
+/** Search backend for the builtin WebSearch tool */
+export interface WebSearchProvider {
+  readonly name: string;
+  search(query: string, options: { limit: number }): Promise<WebSearchResult[]>;
+}
+
+/** Registers a backend for WebSearch instead of a new tool; the last one registered wins */
+export interface WebSearchProviderRegistration {
+  webSearchProvider: WebSearchProvider;
+}
+
+export type ToolRegistration = ExecutableToolRegistration | WebSearchProviderRegistration;
+
 // ---------------------------------------------------------------------------
 // Plugin Manifest
 // ---------------------------------------------------------------------------
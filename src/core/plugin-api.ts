@@ -27,10 +27,13 @@ import type {
   ToolRegistration,
 } from './plugin-api-types';
 
-import { BUILTIN_TOOLS, registerToolExecutor } from './loop/tools';
+import { BUILTIN_TOOLS, registerToolExecutor, registerWebSearchProvider } from './loop/tools';
 
 // Built-in tools that plugins are not allowed to override
-const PROTECTED_TOOLS = new Set(['Read', 'Write', 'Bash', 'Edit', 'Glob', 'Grep']);
+const PROTECTED_TOOLS = new Set([
+  'Read', 'Write', 'Bash', 'Edit', 'MultiEdit', 'ApplyPatch', 'Glob', 'Grep',
+  'BashBackground', 'BashOutput', 'BashInput', 'BashKill', 'WebFetch', 'WebSearch',
+]);
 
 // Re-export types
 export * from './plugin-api-types';
@@ -103,6 +106,12 @@ export function createPluginAPI(context: PluginAPIContext): PluginAPI {
     },
 
     registerTool(registration: ToolRegistration): void {
+      if ('webSearchProvider' in registration) {
+        registerWebSearchProvider(registration.webSearchProvider);
+        context.logger.log('info', `Plugin web search provider registered: ${registration.webSearchProvider.name}`);
+        return;
+      }
+
       const { definition, execute, serverTool } = registration;
 
       // Validate tool definition schema before proceeding
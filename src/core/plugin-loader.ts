@@ -7,7 +7,8 @@ import { join, basename, dirname } from 'path';
 import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
 import { homedir } from 'os';
 import { z } from 'zod';
-import type { AgentDefinition } from './types';
+import { AgentModelSchema, type AgentDefinition } from './types';
+import { parseSandboxFrontmatter } from './agent-loader';
 import type { Plugin, PluginManifest, PluginAPI, MCPConfig } from './plugin-api-types';
 
 // ---------------------------------------------------------------------------
@@ -34,9 +35,11 @@ const PluginManifestSchema = z.object({
 const AgentFrontmatterSchema = z.object({
   name: z.string().regex(/^[a-z][a-z0-9-]{2,49}$/),
   description: z.string(),
-  model: z.enum(['inherit', 'sonnet', 'opus', 'haiku']).default('inherit'),
+  model: AgentModelSchema.default('inherit'),
   tools: z.array(z.string()).optional(),
   color: z.enum(['blue', 'cyan', 'green', 'yellow', 'red']),
+  compactionStrategy: z.string().optional(),
+  compactionModel: z.string().optional(),
 });
 
 // ---------------------------------------------------------------------------
@@ -320,6 +323,9 @@ export class PluginLoader {
       color: fm.color,
       systemPrompt: body.trim(),
       pluginId,
+      compactionStrategy: fm.compactionStrategy,
+      compactionModel: fm.compactionModel,
+      sandbox: parseSandboxFrontmatter(frontmatter),
     };
   }
 
@@ -194,3 +194,34 @@ export function getProviderManager(): ProviderManager {
 export function hasProviderManager(): boolean {
   return globalProviderManager !== null;
 }
+
+// ---------------------------------------------------------------------------
+// Provider-Qualified Model IDs
+// ---------------------------------------------------------------------------
+
+/**
+ * Pick the provider for a model id. "openai:gpt-4o-mini" routes to the
+ * registered "openai" provider with model "gpt-4o-mini". A prefix that is not
+ * a known provider stays part of the model id, so ids like "llama3:8b" reach
+ * the fallback provider unchanged. Looks providers up in the global manager
+ * unless one is given.
+ */
+export function resolveModelProvider(
+  model: string,
+  fallback: LLMProvider,
+  manager: ProviderManager | null = hasProviderManager() ? getProviderManager() : null,
+): { provider: LLMProvider; model: string } {
+  const sep = model.indexOf(':');
+  if (sep <= 0) return { provider: fallback, model };
+
+  const providerId = model.slice(0, sep);
+  const rest = model.slice(sep + 1);
+  if (providerId === fallback.id) return { provider: fallback, model: rest };
+
+  const provider = manager?.getProvider(providerId);
+  if (!provider) return { provider: fallback, model };
+  if (!provider.isReady()) {
+    throw new Error(`Provider ${providerId} is not initialized; configure its credentials first`);
+  }
+  return { provider, model: rest || provider.getDefaultModel() };
+}
@@ -0,0 +1,467 @@
+/**
+ * Resilient Provider
+ * LLMProvider wrapper that retries transient errors (429, overloaded, 5xx,
+ * network resets) with jittered backoff, honors retry-after hints, keeps a
+ * circuit breaker per provider and fails over along an ordered chain of
+ * fallback providers/models. Decisions are emitted on the event bus.
+ */
+
+import { FailoverConfigSchema, type Config, type FailoverConfig } from './types';
+import type {
+  LLMProvider,
+  LLMProviderCapabilities,
+  LLMModel,
+  LLMCredentials,
+  LLMChatOptions,
+  LLMChatChunk,
+  LLMChatResponse,
+} from './plugin-api-types';
+import type { EventBus } from './event-bus';
+import type { ProviderManager } from './provider-manager';
+import { ModelRouter } from './model-router';
+import { isMediaBlock, describeMedia } from './media';
+import { getLogger } from '../infra/logger';
+
+// ---------------------------------------------------------------------------
+// Types & Constants
+// ---------------------------------------------------------------------------
+
+export type ProviderErrorKind =
+  | 'rate_limit' | 'overloaded' | 'server' | 'timeout' | 'network'
+  | 'auth' | 'client' | 'aborted' | 'unknown';
+
+export interface ClassifiedError {
+  kind: ProviderErrorKind;
+  /** Worth retrying on the same provider */
+  retryable: boolean;
+  /** Worth moving on to the next provider in the chain */
+  failover: boolean;
+  status?: number;
+  /** Server hint from retry-after / retry-after-ms */
+  retryAfterMs?: number;
+}
+
+export interface FailoverTarget {
+  provider: LLMProvider;
+  /** Model to request; unset keeps the caller's model on the primary and uses the default elsewhere */
+  model?: string;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ResilientProviderOptions {
+  primary: LLMProvider;
+  fallbacks?: FailoverTarget[];
+  policy?: Partial<FailoverConfig>;
+  /** Breakers shared across calls; without them no circuits are tracked */
+  breakers?: CircuitBreakerRegistry;
+  eventBus?: EventBus;
+  /** Overridable for tests */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const TRANSIENT_KINDS = new Set<ProviderErrorKind>(['rate_limit', 'overloaded', 'server', 'timeout', 'network']);
+
+const NETWORK_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'ENOTFOUND',
+  'EAI_AGAIN', 'ENETUNREACH', 'UND_ERR_SOCKET', 'ConnectionRefused', 'ConnectionClosed',
+]);
+
+const NETWORK_PATTERN = /fetch failed|socket hang up|network error|connection (?:reset|refused|closed|error)|unable to connect/i;
+
+/** Status codes at the start of SDK messages ("429 {...}") or after "error"/"status" */
+const STATUS_PATTERN = /(?:^|\berror |\bstatus(?: code)?:? )([1-5]\d\d)\b/i;
+
+// ---------------------------------------------------------------------------
+// Error Classification
+// ---------------------------------------------------------------------------
+
+function headerValue(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== 'object') return undefined;
+  if (typeof (headers as Headers).get === 'function') return (headers as Headers).get(name) ?? undefined;
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/** Read a retry delay hint from an error's retryAfterMs or its response headers */
+export function parseRetryAfter(err: Error, now = Date.now()): number | undefined {
+  const e = err as Error & { retryAfterMs?: unknown; headers?: unknown };
+  if (typeof e.retryAfterMs === 'number') return Math.max(0, e.retryAfterMs);
+
+  const ms = headerValue(e.headers, 'retry-after-ms');
+  if (ms && Number.isFinite(Number(ms))) return Math.max(0, Number(ms));
+
+  const header = headerValue(e.headers, 'retry-after');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function errorStatus(err: Error): number | undefined {
+  const e = err as Error & { status?: unknown; statusCode?: unknown };
+  if (typeof e.status === 'number') return e.status;
+  if (typeof e.statusCode === 'number') return e.statusCode;
+  const match = STATUS_PATTERN.exec(err.message);
+  return match ? Number(match[1]) : undefined;
+}
+
+/** Decide whether a provider error is worth a retry, a failover, or neither */
+export function classifyProviderError(err: unknown): ClassifiedError {
+  if (!(err instanceof Error)) return { kind: 'unknown', retryable: false, failover: false };
+  if (err.name === 'AbortError') return { kind: 'aborted', retryable: false, failover: false };
+
+  const status = errorStatus(err);
+  const msg = err.message.toLowerCase();
+  const code = (err as Error & { code?: unknown }).code;
+
+  let kind: ProviderErrorKind;
+  if (status === 429 || msg.includes('rate limit')) kind = 'rate_limit';
+  else if (status === 529 || msg.includes('overloaded')) kind = 'overloaded';
+  else if (status === 408 || err.name === 'TimeoutError' || msg.includes('timed out')) kind = 'timeout';
+  else if (status !== undefined && status >= 500) kind = 'server';
+  else if (status === 401 || status === 403) kind = 'auth';
+  else if (status !== undefined && status >= 400) kind = 'client';
+  else if ((typeof code === 'string' && NETWORK_CODES.has(code)) || NETWORK_PATTERN.test(err.message)) kind = 'network';
+  else kind = 'unknown';
+
+  const retryable = TRANSIENT_KINDS.has(kind);
+  return {
+    kind,
+    retryable,
+    // A rejected key on one provider says nothing about the next one
+    failover: retryable || kind === 'auth',
+    status,
+    retryAfterMs: parseRetryAfter(err),
+  };
+}
+
+/**
+ * Exponential backoff with equal jitter: half the delay is kept, the other
+ * half is random so clients that failed together do not retry together.
+ */
+export function backoffDelay(
+  attempt: number,
+  policy: Pick<FailoverConfig, 'baseDelayMs' | 'maxDelayMs'>,
+  random: () => number = Math.random,
+): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+/** Messages with images and documents, also inside tool results, replaced by text stand-ins */
+function describeMediaIn(messages: LLMChatOptions['messages']): LLMChatOptions['messages'] {
+  const replace = (blocks: unknown[]): unknown[] => blocks.map(block => {
+    if (isMediaBlock(block)) return { type: 'text', text: describeMedia(block) };
+    const content = (block as { content?: unknown }).content;
+    return Array.isArray(content) ? { ...(block as object), content: replace(content) } : block;
+  });
+  return messages.map(m => typeof m.content === 'string' ? m : { ...m, content: replace(m.content) });
+}
+
+// ---------------------------------------------------------------------------
+// Circuit Breaker
+// ---------------------------------------------------------------------------
+
+/**
+ * Opens after `failureThreshold` consecutive failures and skips the provider
+ * until `cooldownMs` has passed. The first call after that is a trial: success
+ * closes the circuit, failure opens it again.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+  private current: CircuitState = 'closed';
+
+  constructor(private options: Pick<FailoverConfig, 'failureThreshold' | 'cooldownMs'>) {}
+
+  get state(): CircuitState {
+    return this.current;
+  }
+
+  get retryAt(): number | undefined {
+    return this.current === 'open' ? this.openUntil : undefined;
+  }
+
+  /** Whether a call may go through; an expired open circuit admits one trial call */
+  allow(now = Date.now()): boolean {
+    if (this.current === 'closed') return true;
+    if (this.current === 'open' && now >= this.openUntil) {
+      this.current = 'half_open';
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.current = 'closed';
+  }
+
+  /** `openForMs` opens the circuit right away, e.g. when the server asks for a long pause */
+  recordFailure(openForMs?: number, now = Date.now()): void {
+    this.failures++;
+    if (openForMs !== undefined || this.current === 'half_open' || this.failures >= this.options.failureThreshold) {
+      this.current = 'open';
+      this.openUntil = now + (openForMs ?? this.options.cooldownMs);
+    }
+  }
+}
+
+/** One breaker per provider id, shared by every call through a ResilientProvider */
+export class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(private options: Pick<FailoverConfig, 'failureThreshold' | 'cooldownMs'>) {}
+
+  get(providerId: string): CircuitBreaker {
+    let breaker = this.breakers.get(providerId);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.options);
+      this.breakers.set(providerId, breaker);
+    }
+    return breaker;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// ResilientProvider
+// ---------------------------------------------------------------------------
+
+export class ResilientProvider implements LLMProvider {
+  private primary: LLMProvider;
+  private fallbacks: FailoverTarget[];
+  private policy: FailoverConfig;
+  private breakers: CircuitBreakerRegistry | undefined;
+  private eventBus: EventBus | undefined;
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(options: ResilientProviderOptions) {
+    this.primary = options.primary;
+    this.fallbacks = options.fallbacks ?? [];
+    this.policy = FailoverConfigSchema.parse(options.policy ?? {});
+    this.breakers = options.breakers;
+    this.eventBus = options.eventBus;
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+  }
+
+  get id(): string {
+    return this.primary.id;
+  }
+
+  get name(): string {
+    return this.primary.name;
+  }
+
+  /** The primary's; fallbacks without vision get text stand-ins for the media it was sent */
+  get capabilities(): LLMProviderCapabilities {
+    return this.primary.capabilities;
+  }
+
+  initialize(credentials: LLMCredentials): Promise<void> {
+    return this.primary.initialize(credentials);
+  }
+
+  isReady(): boolean {
+    return this.primary.isReady();
+  }
+
+  verifyCredentials(credentials: LLMCredentials): Promise<{ valid: boolean; error?: string }> {
+    return this.primary.verifyCredentials(credentials);
+  }
+
+  listModels(): LLMModel[] {
+    return this.primary.listModels();
+  }
+
+  getDefaultModel(): string {
+    return this.primary.getDefaultModel();
+  }
+
+  /**
+   * Streams are retried and failed over only until the first chunk arrives;
+   * after that the caller has seen output that a retry would repeat.
+   */
+  async *chat(options: LLMChatOptions): AsyncGenerator<LLMChatChunk> {
+    const { stream, first } = await this.execute(options, async (provider, request) => {
+      const stream = provider.chat(request);
+      return { stream, first: await stream.next() };
+    });
+    if (first.done) return;
+    yield first.value;
+    yield* stream;
+  }
+
+  compactionChat(options: LLMChatOptions): Promise<LLMChatResponse> {
+    return this.execute(options, (provider, request) => provider.compactionChat(request));
+  }
+
+  shutdown(): Promise<void> {
+    return this.primary.shutdown();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private
+  // ---------------------------------------------------------------------------
+
+  private async execute<T>(
+    options: LLMChatOptions,
+    call: (provider: LLMProvider, request: LLMChatOptions) => Promise<T>,
+  ): Promise<T> {
+    const chain: FailoverTarget[] = [{ provider: this.primary }, ...this.fallbacks];
+    let lastError: unknown;
+    let pending: { from: string; reason: string } | null = null;
+    let tried = false;
+
+    for (const [index, target] of chain.entries()) {
+      const { id } = target.provider;
+      // With every circuit open the last target still gets a call rather than none
+      const mustTry = !tried && index === chain.length - 1;
+      if (!this.allow(id) && !mustTry) {
+        pending = { from: id, reason: 'circuit open' };
+        continue;
+      }
+      tried = true;
+
+      const request = {
+        ...options,
+        model: target.model ?? (index === 0 ? options.model : target.provider.getDefaultModel()),
+        messages: target.provider.capabilities.vision ? options.messages : describeMediaIn(options.messages),
+      };
+      if (pending) {
+        this.emitFailover(pending.from, id, request.model, pending.reason);
+        pending = null;
+      }
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const result = await call(target.provider, request);
+          this.record(id, true);
+          return result;
+        } catch (err) {
+          lastError = err;
+          const error = classifyProviderError(err);
+          if (!error.failover) {
+            // The provider answered; the request itself is at fault
+            this.record(id, true);
+            throw err;
+          }
+          if (await this.retry(id, request.model, attempt, error, err)) continue;
+          pending = { from: id, reason: error.kind };
+          break;
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /** Wait and return true when the error should be retried on the same provider */
+  private async retry(
+    providerId: string,
+    model: string,
+    attempt: number,
+    error: ClassifiedError,
+    err: unknown,
+  ): Promise<boolean> {
+    const hint = error.retryAfterMs;
+    const hintTooLong = hint !== undefined && hint > this.policy.maxDelayMs;
+    if (!error.retryable || attempt >= this.policy.maxRetries || hintTooLong) {
+      this.record(providerId, false, hintTooLong ? hint : undefined);
+      return false;
+    }
+
+    this.record(providerId, false);
+    const delayMs = hint ?? backoffDelay(attempt, this.policy);
+    const message = err instanceof Error ? err.message : String(err);
+    getLogger().warn('LLM call failed, retrying', { providerId, model, attempt: attempt + 1, delayMs, kind: error.kind });
+    void this.eventBus?.emit('provider:retry', {
+      providerId, model, attempt: attempt + 1, delayMs, kind: error.kind, error: message,
+    });
+    await this.sleep(delayMs);
+    return true;
+  }
+
+  private allow(providerId: string): boolean {
+    const breaker = this.breakers?.get(providerId);
+    if (!breaker) return true;
+    const before = breaker.state;
+    const allowed = breaker.allow();
+    if (breaker.state !== before) this.emitCircuit(providerId, breaker);
+    return allowed;
+  }
+
+  private record(providerId: string, ok: boolean, openForMs?: number): void {
+    const breaker = this.breakers?.get(providerId);
+    if (!breaker) return;
+    const before = breaker.state;
+    if (ok) breaker.recordSuccess();
+    else breaker.recordFailure(openForMs);
+    if (breaker.state !== before) this.emitCircuit(providerId, breaker);
+  }
+
+  private emitCircuit(providerId: string, breaker: CircuitBreaker): void {
+    getLogger().info('Provider circuit changed', { providerId, state: breaker.state });
+    void this.eventBus?.emit('provider:circuit', { providerId, state: breaker.state, retryAt: breaker.retryAt });
+  }
+
+  private emitFailover(from: string, to: string, model: string, reason: string): void {
+    getLogger().warn('Failing over to next provider', { from, to, model, reason });
+    void this.eventBus?.emit('provider:failover', { from, to, model, reason });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve failover entries: a registered provider id means that provider with
+ * its default model; anything else is resolved like a model reference.
+ * Entries that cannot be resolved are skipped with a warning.
+ */
+export function resolveFailoverTargets(
+  entries: string[],
+  primary: LLMProvider,
+  manager: ProviderManager | null,
+  router: ModelRouter = new ModelRouter({}, manager),
+): FailoverTarget[] {
+  const targets: FailoverTarget[] = [];
+  for (const entry of entries) {
+    const named = manager?.getProvider(entry);
+    if (named) {
+      targets.push({ provider: named });
+      continue;
+    }
+    try {
+      const { provider, model } = router.resolve(entry, primary);
+      targets.push({ provider, model });
+    } catch (err) {
+      getLogger().warn('Skipping failover target', {
+        entry, error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return targets;
+}
+
+/** Wrap the main provider with the configured retry, circuit and failover policy */
+export function createResilientProvider(options: {
+  primary: LLMProvider;
+  config?: Partial<Pick<Config, 'failover' | 'models'>>;
+  manager?: ProviderManager | null;
+  eventBus?: EventBus;
+}): ResilientProvider {
+  const policy = FailoverConfigSchema.parse(options.config?.failover ?? {});
+  const manager = options.manager ?? null;
+  const router = new ModelRouter({ models: options.config?.models }, manager);
+
+  return new ResilientProvider({
+    primary: options.primary,
+    fallbacks: resolveFailoverTargets(policy.fallbacks, options.primary, manager, router),
+    policy,
+    breakers: new CircuitBreakerRegistry(policy),
+    eventBus: options.eventBus,
+  });
+}
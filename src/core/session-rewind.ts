@@ -0,0 +1,194 @@
+/**
+ * Session Checkpoints and Rewind
+ * Every assistant message that ended a turn is a checkpoint. Rewinding to one
+ * keeps it and its parentUuid ancestors as the live history, archives every
+ * later message, and undoes the file changes builtin tools made after it by
+ * restoring their pre-edit snapshots. Changes made outside the builtin file
+ * tools (e.g. by Bash) are not tracked and stay as they are.
+ *
+ * Snapshots only hold the content before a change, so a change that a rewind
+ * undid cannot be made again. Rewinding forward onto a branch whose file
+ * changes were undone is refused rather than leave files behind the history.
+ */
+
+import type { Message } from './types';
+import type { Database } from '../infra/database';
+import type { ContentBlock } from './loop/types';
+import {
+  listFileSnapshots,
+  restoreFileSnapshots,
+  markSnapshotsReverted,
+  type FileSnapshot,
+} from './loop/tools/file-snapshots';
+
+// ---------------------------------------------------------------------------
+// Types & Constants
+// ---------------------------------------------------------------------------
+
+export interface SessionCheckpoint {
+  messageUuid: string;
+  createdAt: number;
+  /** First line of the assistant's reply */
+  preview: string;
+  /** File changes made after this checkpoint that a rewind would undo */
+  fileChanges: number;
+}
+
+export interface RewindOptions {
+  sessionId: string;
+  /** Full uuid or unambiguous prefix of the checkpoint message */
+  messageUuid: string;
+  snapshotDir: string;
+  /** Report what would change without touching messages or files */
+  dryRun?: boolean;
+}
+
+export interface RewindResult {
+  messageUuid: string;
+  archivedMessages: number;
+  restoredMessages: number;
+  /** Paths put back to their state at the checkpoint */
+  restoredFiles: string[];
+  /** Paths whose snapshot content was pruned and could not be restored */
+  unrestoredFiles: string[];
+}
+
+/** Upper bound on messages scanned when resolving a session's history */
+const MAX_SESSION_MESSAGES = 100_000;
+
+const PREVIEW_LENGTH = 80;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function blocksOf(message: Message): ContentBlock[] {
+  return Array.isArray(message.content) ? message.content as ContentBlock[] : [];
+}
+
+/** An assistant reply with no pending tool calls, i.e. the end of a turn */
+function isCheckpoint(message: Message): boolean {
+  return message.role === 'assistant' && !blocksOf(message).some(b => b.type === 'tool_use');
+}
+
+function previewOf(message: Message): string {
+  const text = typeof message.content === 'string'
+    ? message.content
+    : blocksOf(message).flatMap(b => b.type === 'text' ? [b.text] : []).join('\n');
+  const line = text.trim().split('\n')[0] ?? '';
+  return line.length > PREVIEW_LENGTH ? `${line.slice(0, PREVIEW_LENGTH - 3)}...` : line;
+}
+
+function resolveTarget(messages: Message[], prefix: string): Message {
+  const matches = messages.filter(m => m.uuid.startsWith(prefix));
+  if (matches.length === 0) {
+    throw new Error(`No message matching "${prefix}" in this session`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Ambiguous message id "${prefix}" matches ${matches.length} messages. Use a longer prefix.`);
+  }
+  const target = matches[0]!;
+  if (!isCheckpoint(target)) {
+    throw new Error(`Message ${target.uuid} is not a checkpoint; rewind to an assistant reply that ended a turn`);
+  }
+  return target;
+}
+
+/** The target message and its parentUuid ancestors */
+function chainTo(messages: Message[], target: Message): Set<string> {
+  const byUuid = new Map(messages.map(m => [m.uuid, m]));
+  const chain = new Set<string>();
+  for (let msg: Message | undefined = target; msg && !chain.has(msg.uuid); ) {
+    chain.add(msg.uuid);
+    msg = msg.parentUuid ? byUuid.get(msg.parentUuid) : undefined;
+  }
+  return chain;
+}
+
+/**
+ * Snapshots of changes that a rewind to the target would undo and no rewind
+ * has handled yet: those made by later messages outside the target's chain.
+ * A snapshot taken outside the agentic loop has no message, so its time decides.
+ */
+function snapshotsToUndo(
+  snapshots: FileSnapshot[],
+  byUuid: Map<string, Message>,
+  target: Message,
+  chain: Set<string>,
+): FileSnapshot[] {
+  return snapshots.filter((snapshot) => {
+    if (snapshot.revertedAt !== undefined) return false;
+    const message = snapshot.messageUuid ? byUuid.get(snapshot.messageUuid) : undefined;
+    if (!message) return snapshot.createdAt > target.createdAt;
+    return !chain.has(message.uuid) && message.createdAt > target.createdAt;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Checkpoints on the session's live history, oldest first */
+export function listCheckpoints(db: Database, sessionId: string, snapshotDir: string): SessionCheckpoint[] {
+  const snapshots = listFileSnapshots(snapshotDir, { includePruned: true });
+  const messages = db.messages.list(sessionId, { includeArchived: true, limit: MAX_SESSION_MESSAGES });
+  const byUuid = new Map(messages.map(m => [m.uuid, m]));
+  return messages
+    .filter(m => !m.archivedAt && isCheckpoint(m))
+    .map(m => ({
+      messageUuid: m.uuid,
+      createdAt: m.createdAt,
+      preview: previewOf(m),
+      fileChanges: snapshotsToUndo(snapshots, byUuid, m, chainTo(messages, m)).length,
+    }));
+}
+
+/**
+ * Rewind a session to a checkpoint. The checkpoint may be on the live
+ * history or on an archived branch, such as history replaced by compaction
+ * or abandoned by an earlier rewind, as long as no rewind undid file changes
+ * on its history. Files are restored all together or not at all.
+ */
+export function rewindSession(db: Database, options: RewindOptions): RewindResult {
+  const { sessionId, snapshotDir, dryRun = false } = options;
+  const messages = db.messages.list(sessionId, { includeArchived: true, limit: MAX_SESSION_MESSAGES });
+  const target = resolveTarget(messages, options.messageUuid);
+  const chain = chainTo(messages, target);
+  const snapshots = listFileSnapshots(snapshotDir, { includePruned: true });
+
+  const undone = snapshots.filter(s => s.revertedAt !== undefined && s.messageUuid && chain.has(s.messageUuid));
+  if (undone.length > 0) {
+    const paths = [...new Set(undone.map(s => s.path))].sort();
+    throw new Error(
+      `Cannot rewind to ${target.uuid}: an earlier rewind undid file changes on its history ` +
+      `(${paths.join(', ')}) and they cannot be reapplied`,
+    );
+  }
+
+  const toArchive = messages.filter(m => !m.archivedAt && !chain.has(m.uuid)).map(m => m.uuid);
+  const toRestore = messages.filter(m => m.archivedAt && chain.has(m.uuid)).map(m => m.uuid);
+
+  // The oldest change to each file holds its content at the checkpoint
+  const toUndo = snapshotsToUndo(snapshots, new Map(messages.map(m => [m.uuid, m])), target, chain);
+  const oldest = new Map<string, FileSnapshot>();
+  for (const snapshot of toUndo) {
+    if (!oldest.has(snapshot.path)) oldest.set(snapshot.path, snapshot);
+  }
+  const restorable = [...oldest.values()].filter(s => !s.pruned);
+  const unrestored = [...oldest.values()].filter(s => s.pruned).map(s => s.path);
+
+  if (!dryRun) {
+    restoreFileSnapshots(snapshotDir, restorable.map(s => s.id));
+    markSnapshotsReverted(snapshotDir, toUndo.map(s => s.id));
+    db.messages.archive(sessionId, toArchive);
+    db.messages.unarchive(sessionId, toRestore);
+  }
+
+  return {
+    messageUuid: target.uuid,
+    archivedMessages: toArchive.length,
+    restoredMessages: toRestore.length,
+    restoredFiles: restorable.map(s => s.path).sort(),
+    unrestoredFiles: unrestored.sort(),
+  };
+}
@@ -0,0 +1,347 @@
+/**
+ * Structured Output
+ * Schemas for a run's final answer, given as JSON Schema or Zod. The answer
+ * is collected through a StructuredOutput tool call, validated, and sent
+ * back to the model with the validation errors until it conforms or the
+ * repair attempts run out. Non-object schemas are wrapped in a `value`
+ * property because tool inputs must be objects.
+ */
+
+import { z } from 'zod';
+import type { ToolDefinition } from './types';
+import type { LLMProvider, LLMChatResponse } from './plugin-api-types';
+
+// ---------------------------------------------------------------------------
+// Types & Constants
+// ---------------------------------------------------------------------------
+
+export type JSONSchema = Record<string, unknown>;
+
+export type OutputSchema<T = unknown> = z.ZodType<T, z.ZodTypeDef, unknown> | JSONSchema;
+
+export type OutputValidation<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export const STRUCTURED_OUTPUT_TOOL = 'StructuredOutput';
+
+/** Repair attempts after the first invalid or missing answer */
+export const DEFAULT_OUTPUT_REPAIRS = 2;
+
+const WRAPPED_KEY = 'value';
+
+export const STRUCTURED_OUTPUT_INSTRUCTIONS =
+  `When you have the final answer, call the ${STRUCTURED_OUTPUT_TOOL} tool with it. ` +
+  'Its input must match the tool schema exactly. Do not answer in plain text.';
+
+export class StructuredOutputError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Output does not match the schema: ${errors.join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.errors = errors;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Schema Conversion
+// ---------------------------------------------------------------------------
+
+function isZodSchema(schema: OutputSchema): schema is z.ZodTypeAny {
+  return schema instanceof z.ZodType;
+}
+
+function withDescription(json: JSONSchema, schema: z.ZodTypeAny): JSONSchema {
+  return schema.description ? { ...json, description: schema.description } : json;
+}
+
+/** JSON Schema for the Zod types that describe plain JSON data */
+function zodToJSONSchema(schema: z.ZodTypeAny): JSONSchema {
+  const def = schema._def as { typeName: z.ZodFirstPartyTypeKind } & Record<string, unknown>;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const json: JSONSchema = { type: 'string' };
+      for (const check of (schema as z.ZodString)._def.checks) {
+        if (check.kind === 'min') json.minLength = check.value;
+        else if (check.kind === 'max') json.maxLength = check.value;
+        else if (check.kind === 'regex') json.pattern = check.regex.source;
+      }
+      return withDescription(json, schema);
+    }
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const isInt = (schema as z.ZodNumber).isInt;
+      return withDescription({ type: isInt ? 'integer' : 'number' }, schema);
+    }
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return withDescription({ type: 'boolean' }, schema);
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' };
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return withDescription({ const: (schema as z.ZodLiteral<unknown>).value }, schema);
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return withDescription({ type: 'string', enum: (schema as z.ZodEnum<[string]>).options }, schema);
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return withDescription({ type: 'array', items: zodToJSONSchema((schema as z.ZodArray<z.ZodTypeAny>).element) }, schema);
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>;
+      const properties: Record<string, JSONSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = zodToJSONSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+      return withDescription({ type: 'object', properties, required, additionalProperties: false }, schema);
+    }
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return withDescription({
+        type: 'object', additionalProperties: zodToJSONSchema((schema as z.ZodRecord).valueSchema),
+      }, schema);
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return withDescription({
+        anyOf: ((schema as z.ZodUnion<[z.ZodTypeAny]>).options).map(zodToJSONSchema),
+      }, schema);
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [zodToJSONSchema((schema as z.ZodNullable<z.ZodTypeAny>).unwrap()), { type: 'null' }] };
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJSONSchema((schema as z.ZodOptional<z.ZodTypeAny>).unwrap());
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return zodToJSONSchema((schema as z.ZodDefault<z.ZodTypeAny>).removeDefault());
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+      return zodToJSONSchema((schema as z.ZodCatch<z.ZodTypeAny>).removeCatch());
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJSONSchema((schema as z.ZodEffects<z.ZodTypeAny>).innerType());
+    default:
+      return withDescription({}, schema);
+  }
+}
+
+/** The JSON Schema sent to the model; Zod schemas are converted */
+export function toJSONSchema(schema: OutputSchema): JSONSchema {
+  return isZodSchema(schema) ? zodToJSONSchema(schema) : schema;
+}
+
+function isObjectSchema(json: JSONSchema): boolean {
+  return json.type === 'object';
+}
+
+/** Tool the model calls with its final answer */
+export function structuredOutputTool(schema: OutputSchema): ToolDefinition {
+  const json = toJSONSchema(schema);
+  const inputSchema = isObjectSchema(json)
+    ? { ...json, type: 'object' as const, properties: (json.properties ?? {}) as Record<string, unknown> }
+    : { type: 'object' as const, properties: { [WRAPPED_KEY]: json }, required: [WRAPPED_KEY] };
+
+  return {
+    name: STRUCTURED_OUTPUT_TOOL,
+    description: 'Return the final answer. Call this exactly once, when the task is done.',
+    inputSchema,
+  };
+}
+
+/** Tool input back to the answer, undoing the wrapping of non-object schemas */
+export function unwrapToolInput(schema: OutputSchema, input: Record<string, unknown>): unknown {
+  return isObjectSchema(toJSONSchema(schema)) ? input : input[WRAPPED_KEY];
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Validate against the JSON Schema keywords structured output relies on:
+ * type, enum, const, properties, required, additionalProperties, items,
+ * anyOf/oneOf/allOf and the common length and range bounds.
+ */
+function validateJSON(value: unknown, schema: JSONSchema, path: string, errors: string[]): void {
+  const fail = (message: string): void => { errors.push(`${path}: ${message}`); };
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+    if (!types.some(t => matchesType(value, t))) {
+      fail(`expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some(e => JSON.stringify(e) === JSON.stringify(value))) {
+    fail(`expected one of ${schema.enum.map(e => JSON.stringify(e)).join(', ')}`);
+  }
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    fail(`expected ${JSON.stringify(schema.const)}`);
+  }
+
+  const alternatives = (schema.anyOf ?? schema.oneOf) as JSONSchema[] | undefined;
+  if (alternatives && !alternatives.some(alt => {
+    const altErrors: string[] = [];
+    validateJSON(value, alt, path, altErrors);
+    return altErrors.length === 0;
+  })) {
+    fail('does not match any allowed schema');
+  }
+  for (const sub of (schema.allOf ?? []) as JSONSchema[]) validateJSON(value, sub, path, errors);
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) fail(`shorter than ${schema.minLength}`);
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) fail(`longer than ${schema.maxLength}`);
+    if (typeof schema.pattern === 'string') {
+      const pattern = compilePattern(schema.pattern);
+      if (!pattern) fail(`cannot be checked: invalid pattern ${schema.pattern}`);
+      else if (!pattern.test(value)) fail(`does not match ${schema.pattern}`);
+    }
+  }
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) fail(`less than ${schema.minimum}`);
+    if (typeof schema.maximum === 'number' && value > schema.maximum) fail(`greater than ${schema.maximum}`);
+  }
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) fail(`fewer than ${schema.minItems} items`);
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) fail(`more than ${schema.maxItems} items`);
+    if (schema.items && typeof schema.items === 'object') {
+      value.forEach((item, i) => validateJSON(item, schema.items as JSONSchema, `${path}[${i}]`, errors));
+    }
+  }
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, JSONSchema>;
+    for (const key of (schema.required ?? []) as string[]) {
+      if (!(key in record)) fail(`missing required property "${key}"`);
+    }
+    for (const [key, item] of Object.entries(record)) {
+      if (properties[key]) {
+        validateJSON(item, properties[key], `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        fail(`unexpected property "${key}"`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateJSON(item, schema.additionalProperties as JSONSchema, `${path}.${key}`, errors);
+      }
+    }
+  }
+}
+
+/** A schema pattern as a RegExp, or undefined when it does not compile */
+function compilePattern(source: string): RegExp | undefined {
+  try {
+    return new RegExp(source);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Validate an answer; Zod schemas also apply their transforms and defaults */
+export function validateOutput<T>(value: unknown, schema: OutputSchema<T>): OutputValidation<T> {
+  if (isZodSchema(schema)) {
+    const parsed = schema.safeParse(value);
+    if (parsed.success) return { ok: true, value: parsed.data as T };
+    return {
+      ok: false,
+      errors: parsed.error.issues.map(i => `$${i.path.map(p => typeof p === 'number' ? `[${p}]` : `.${p}`).join('')}: ${i.message}`),
+    };
+  }
+  const errors: string[] = [];
+  validateJSON(value, schema, '$', errors);
+  return errors.length === 0 ? { ok: true, value: value as T } : { ok: false, errors };
+}
+
+/** Parse a JSON answer given as text, tolerating code fences and surrounding prose */
+export function parseJSONText(text: string): unknown {
+  const cleaned = text
+    .replace(/^\s*```(?:json)?\s*/i, '')
+    .replace(/\s*```\s*$/, '')
+    .trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    const start = cleaned.search(/[[{]/);
+    const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'));
+    if (start === -1 || end <= start) return undefined;
+    try {
+      return JSON.parse(cleaned.slice(start, end + 1));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/** Message sent back to the model when its answer does not validate */
+export function repairPrompt(errors: string[]): string {
+  return `Your answer does not match the required schema:\n${errors.map(e => `- ${e}`).join('\n')}\n` +
+    `Call the ${STRUCTURED_OUTPUT_TOOL} tool again with a corrected answer.`;
+}
+
+// ---------------------------------------------------------------------------
+// Single-call Requests
+// ---------------------------------------------------------------------------
+
+function extractAnswer(
+  schema: OutputSchema, response: LLMChatResponse, parseText?: (text: string) => unknown,
+): unknown {
+  const call = response.content.find(b => b.type === 'tool_use' && b.name === STRUCTURED_OUTPUT_TOOL);
+  if (call?.input) return unwrapToolInput(schema, call.input);
+
+  // Providers that ignore toolChoice may still answer with JSON text, or with plain text
+  const text = response.content.filter(b => b.type === 'text' && b.text).map(b => b.text).join('\n');
+  if (!text) return undefined;
+  // A quoted bare answer such as "complex" parses as a JSON string, not an object
+  const json = parseJSONText(text);
+  if (json !== null && typeof json === 'object') return json;
+  return parseText?.(text) ?? json;
+}
+
+/**
+ * One structured answer from a non-streaming call, for internal helpers
+ * such as the planner and classifier. Forces the StructuredOutput tool and
+ * repairs invalid answers; throws StructuredOutputError when they run out.
+ */
+export async function requestStructured<T>(
+  provider: LLMProvider,
+  options: {
+    model: string;
+    systemPrompt: string;
+    prompt: string;
+    schema: OutputSchema<T>;
+    maxTokens: number;
+    maxRepairs?: number;
+    /** Reads an answer given as plain text rather than JSON */
+    parseText?: (text: string) => unknown;
+  },
+): Promise<T> {
+  const tool = structuredOutputTool(options.schema);
+  const messages: Array<{ role: string; content: string }> = [{ role: 'user', content: options.prompt }];
+  const maxRepairs = options.maxRepairs ?? DEFAULT_OUTPUT_REPAIRS;
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const response = await provider.compactionChat({
+      model: options.model,
+      messages,
+      systemPrompt: options.systemPrompt,
+      maxTokens: options.maxTokens,
+      tools: [tool],
+      toolChoice: { type: 'tool', name: STRUCTURED_OUTPUT_TOOL },
+    });
+
+    const answer = extractAnswer(options.schema, response, options.parseText);
+    const result = answer === undefined
+      ? { ok: false as const, errors: ['no answer was given'] }
+      : validateOutput(answer, options.schema);
+    if (result.ok) return result.value;
+
+    errors = result.errors;
+    messages.push(
+      { role: 'assistant', content: answer === undefined ? '(no answer)' : JSON.stringify(answer) },
+      { role: 'user', content: repairPrompt(errors) },
+    );
+  }
+  throw new StructuredOutputError(errors);
+}
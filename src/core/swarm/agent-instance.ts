@@ -9,6 +9,8 @@ export interface SwarmAgentInstanceConfig {
   agent: SwarmAgent;
   registry: AgentRegistry;
   messageBus: SwarmMessageBus;
+  /** Swarm this agent belongs to; its LLM usage is recorded against it */
+  swarmId?: string;
   onComplete: (agentId: string, result: string, tokensUsed?: number, toolUses?: number) => void;
   onFail: (agentId: string, error: string) => void;
 }
@@ -117,7 +119,7 @@ export class SwarmAgentInstance {
     const record = await this.config.registry.spawnSubagent(
       this.agentName,
       fullTask,
-      { tools: agentDef.tools },
+      { tools: agentDef.tools, swarmId: this.config.swarmId },
     );
 
     // Check if abort was signaled while spawnSubagent was running
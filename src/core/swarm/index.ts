@@ -6,6 +6,8 @@ import type { LLMProvider } from '../plugin-api-types';
 import type { AgentRegistry } from '../agent-registry';
 import type { AgentFactory } from '../agent-factory';
 import type { MetricsCollector } from '../metrics';
+import type { ModelRouter } from '../model-router';
+import type { UsageContext } from '../usage-tracker';
 import type { SwarmApprovalHook } from './approval';
 import { SwarmMessageBus } from './message-bus';
 import { SwarmAgentInstance } from './agent-instance';
@@ -49,6 +51,10 @@ interface SwarmCoordinatorDeps {
   agentFactory: AgentFactory;
   metricsCollector?: MetricsCollector;
   approvalHook?: SwarmApprovalHook;
+  /** Resolves the planner role; the same router the classifier and agent factory use */
+  router: ModelRouter;
+  /** Records planning and agent generation calls, tagged with the swarm id */
+  usage?: UsageContext;
 }
 
 export class SwarmCoordinator {
@@ -92,7 +98,7 @@ export class SwarmCoordinator {
       // Phase 1: Plan agents
       this.state.status = 'planning';
       const plannedAgents = await planAgents(
-        this.deps.provider, task, this.resolvedConfig.maxAgents,
+        this.deps.provider, task, this.resolvedConfig.maxAgents, this.deps.router, this.usageContext(),
       );
 
       if (this.stopped) return this.buildResult(startTime, 'failed');
@@ -183,6 +189,7 @@ export class SwarmCoordinator {
         agent: swarmAgent,
         registry: this.deps.registry,
         messageBus: this.messageBus,
+        swarmId: this.state.id,
         onComplete: this.handleAgentComplete.bind(this),
         onFail: this.handleAgentFail.bind(this),
       });
@@ -232,6 +239,11 @@ export class SwarmCoordinator {
     });
   }
 
+  private usageContext(): UsageContext | undefined {
+    const { usage } = this.deps;
+    return usage && { tracker: usage.tracker, scope: { ...usage.scope, swarmId: this.state.id } };
+  }
+
   private async ensureAgent(planned: PlannedAgent): Promise<void> {
     if (this.deps.registry.hasAgent(planned.name)) return;
 
@@ -239,7 +251,7 @@ export class SwarmCoordinator {
     try {
       await this.deps.agentFactory.createAgent(
         `${planned.role}: ${planned.task}`,
-        { tools: ['Read', 'Write', 'Edit', 'Bash', 'Glob', 'Grep'] },
+        { tools: ['Read', 'Write', 'Edit', 'Bash', 'Glob', 'Grep'], usage: this.usageContext() },
       );
     } catch (err) {
       getLogger().warn('Failed to create dynamic agent, falling back to general', {
@@ -1,9 +1,12 @@
 /** Swarm planning - LLM-based task decomposition into agent subtasks. */
 
+import { z } from 'zod';
 import type { LLMProvider } from '../plugin-api-types';
+import type { ModelRouter } from '../model-router';
+import { trackedProvider, type UsageContext } from '../usage-tracker';
+import { requestStructured } from '../structured-output';
 import { getLogger } from '../../infra/logger';
 
-const HAIKU_MODEL = 'claude-haiku-3-5-20250514';
 const MAX_PLAN_TOKENS = 1000;
 
 const PLANNING_PROMPT = `You are a task planner for a multi-agent system.
@@ -14,16 +17,20 @@ Available agent types:
 - plan: Architecture design, read-only (tools: Read, Glob, Grep)
 - general: Full capability agent (tools: all)
 
-Respond with ONLY a JSON array of objects, each with:
+Answer with an "agents" list where each entry has:
 - "name": agent name (lowercase with hyphens, e.g. "backend-dev")
 - "role": brief role description
 - "task": the specific subtask to execute
 
-Example:
-[{"name":"api-builder","role":"Backend developer","task":"Create the REST API endpoints"}]
+Keep the number of agents between 2 and the specified maximum.`;
 
-Keep the number of agents between 2 and the specified maximum.
-No markdown fencing, no explanation.`;
+const PlanSchema = z.object({
+  agents: z.array(z.object({
+    name: z.string().min(1).describe('Agent name, lowercase with hyphens'),
+    role: z.string(),
+    task: z.string(),
+  })).min(1),
+});
 
 export interface PlannedAgent {
   name: string;
@@ -40,20 +47,23 @@ export async function planAgents(
   provider: LLMProvider,
   task: string,
   maxAgents: number,
+  router: ModelRouter,
+  usage?: UsageContext,
 ): Promise<PlannedAgent[]> {
   try {
-    const response = await provider.compactionChat({
-      model: HAIKU_MODEL,
-      messages: [{
-        role: 'user',
-        content: `Maximum agents: ${maxAgents}\n\nTask: ${task}`,
-      }],
+    const target = router.resolveRole('planner', provider);
+    const plan = await requestStructured(trackedProvider(target.provider, usage), {
+      model: target.model,
       systemPrompt: PLANNING_PROMPT,
-      maxTokens: MAX_PLAN_TOKENS,
+      prompt: `Maximum agents: ${maxAgents}\n\nTask: ${task}`,
+      schema: PlanSchema,
+      maxTokens: target.maxTokens ?? MAX_PLAN_TOKENS,
     });
 
-    const text = extractText(response);
-    return parsePlan(text, maxAgents);
+    return plan.agents.slice(0, maxAgents).map(agent => ({
+      ...agent,
+      name: agent.name.toLowerCase().replace(/[^a-z0-9-]/g, '-'),
+    }));
   } catch (err) {
     getLogger().warn('Swarm planning failed, using single general agent', {
       error: errMsg(err),
@@ -61,44 +71,3 @@ export async function planAgents(
     return [{ name: 'general-worker', role: 'General agent', task }];
   }
 }
-
-function parsePlan(text: string, maxAgents: number): PlannedAgent[] {
-  const cleaned = text
-    .replace(/^```(?:json)?\s*/i, '')
-    .replace(/\s*```\s*$/, '')
-    .trim();
-
-  let parsed: unknown[];
-  try {
-    parsed = JSON.parse(cleaned);
-  } catch {
-    getLogger().warn('Failed to parse swarm plan JSON, using single agent');
-    return [{ name: 'general-worker', role: 'General agent', task: cleaned }];
-  }
-
-  if (!Array.isArray(parsed) || parsed.length === 0) {
-    return [{ name: 'general-worker', role: 'General agent', task: 'Execute the task' }];
-  }
-
-  return parsed
-    .slice(0, maxAgents)
-    .map((entry, index) => {
-      const raw = entry as Record<string, unknown>;
-      return {
-        name: String(raw.name ?? `agent-${index}`).toLowerCase().replace(/[^a-z0-9-]/g, '-'),
-        role: String(raw.role ?? 'Worker'),
-        task: String(raw.task ?? 'Execute assigned subtask'),
-      };
-    });
-}
-
-function extractText(
-  response: { content: Array<{ type: string; text?: string }> },
-): string {
-  for (const block of response.content) {
-    if (block.type === 'text' && block.text) {
-      return block.text.trim();
-    }
-  }
-  throw new Error('LLM response contained no text content');
-}
@@ -0,0 +1,93 @@
+/**
+ * Token Counting
+ * Provider-backed token counts with a local approximate fallback.
+ */
+
+import type { ToolDefinition } from './types';
+import type { LLMProvider, LLMChatOptions, TokenCounter } from './plugin-api-types';
+import { getLogger } from '../infra/logger';
+import { isMediaBlock, estimateMediaTokens } from './media';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Rough characters-per-token ratio for English text and code */
+const CHARS_PER_TOKEN = 4;
+
+/** Per-message framing overhead (role markers, block delimiters) */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// ---------------------------------------------------------------------------
+// Local Approximation
+// ---------------------------------------------------------------------------
+
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function blockText(block: unknown): string {
+  if (!block || typeof block !== 'object') return String(block ?? '');
+  const b = block as Record<string, unknown>;
+  switch (b.type) {
+    case 'text': return String(b.text ?? '');
+    case 'tool_result': return String(b.content ?? '');
+    case 'thinking': return String(b.thinking ?? '');
+    case 'tool_use': return `${String(b.name ?? '')}${JSON.stringify(b.input ?? {})}`;
+    default: return JSON.stringify(b);
+  }
+}
+
+/** Approximate token count of a single message's content; media is priced per block, not by its base64 size */
+export function estimateMessageTokens(content: string | unknown[]): number {
+  if (typeof content === 'string') return estimateTokens(content) + MESSAGE_OVERHEAD_TOKENS;
+
+  const media = content.filter(isMediaBlock);
+  const text = content.filter(b => !isMediaBlock(b)).map(blockText).join('\n');
+  return estimateTokens(text) + media.reduce((sum, b) => sum + estimateMediaTokens(b), 0) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export const approximateTokenCounter: TokenCounter = {
+  async countTokens(messages, tools, systemPrompt) {
+    let total = estimateTokens(systemPrompt ?? '');
+    if (tools && tools.length > 0) {
+      total += estimateTokens(JSON.stringify(tools));
+    }
+    for (const msg of messages) {
+      total += estimateMessageTokens(msg.content);
+    }
+    return total;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Provider-backed Counter
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a token counter that uses the provider's native counting when
+ * available and falls back to the local approximation on absence or error.
+ */
+export function createTokenCounter(provider?: LLMProvider): TokenCounter {
+  const countTokens = provider?.countTokens?.bind(provider);
+  if (!countTokens) return approximateTokenCounter;
+
+  return {
+    async countTokens(
+      messages: LLMChatOptions['messages'],
+      tools?: ToolDefinition[],
+      systemPrompt?: string,
+    ): Promise<number> {
+      try {
+        return await countTokens(messages, tools, systemPrompt);
+      } catch (err) {
+        getLogger().debug('Provider token count failed, using approximation', {
+          provider: provider?.id,
+          error: err instanceof Error ? err.message : String(err),
+        });
+        return approximateTokenCounter.countTokens(messages, tools, systemPrompt);
+      }
+    },
+  };
+}
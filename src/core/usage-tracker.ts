@@ -0,0 +1,306 @@
+/**
+ * Usage Tracker
+ * Prices every LLM call from a per-model table, records it in the usage
+ * table, and checks spend against session, task, agent and daily budgets.
+ * Soft limits emit a usage:budget event once; hard limits also make
+ * check() report the breach so the caller can stop.
+ */
+
+import type { Config, BudgetLimit, ModelPricing, UsageRecord } from './types';
+import type { Database } from '../infra/database';
+import type { UsageFilter } from '../infra/db/usage';
+import type { EventBus } from './event-bus';
+import type {
+  LLMProvider,
+  LLMProviderCapabilities,
+  LLMModel,
+  LLMCredentials,
+  LLMChatOptions,
+  LLMChatChunk,
+  LLMChatResponse,
+  LLMUsage,
+} from './plugin-api-types';
+import { getLogger } from '../infra/logger';
+
+// ---------------------------------------------------------------------------
+// Types & Constants
+// ---------------------------------------------------------------------------
+
+export type BudgetScope = 'session' | 'task' | 'agent' | 'daily';
+
+/** What a call is attributed to; agent is unset for the main conversation */
+export interface UsageScope {
+  sessionId: string;
+  agent?: string;
+  taskId?: string;
+  swarmId?: string;
+}
+
+/** Tracker and scope for helpers that make their own model calls */
+export interface UsageContext {
+  tracker: UsageTracker;
+  scope: UsageScope;
+}
+
+export interface BudgetBreach {
+  scope: BudgetScope;
+  level: 'soft' | 'hard';
+  spentUsd: number;
+  limitUsd: number;
+}
+
+export interface BudgetStatus {
+  /** First hard limit reached, if any */
+  exceeded?: BudgetBreach;
+  warnings: BudgetBreach[];
+}
+
+/**
+ * USD per million tokens, keyed by model id prefix. Lookups use the longest
+ * matching prefix, so dated ids ("claude-sonnet-4-20250514") find their family.
+ */
+export const BUILTIN_PRICING: Readonly<Record<string, ModelPricing>> = {
+  'claude-opus-4-5': { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  'claude-opus-4': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  'claude-haiku-3-5': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  'claude-3-opus': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-3-haiku': { input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite: 0.3 },
+  'gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cacheRead: 0.075 },
+  'gpt-4.1': { input: 2, output: 8, cacheRead: 0.5 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cacheRead: 0.1 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4, cacheRead: 0.025 },
+};
+
+const BUDGET_SCOPES: readonly BudgetScope[] = ['session', 'task', 'agent', 'daily'];
+
+type TrackerConfig = Partial<Pick<Config, 'pricing' | 'budgets'>>;
+
+// ---------------------------------------------------------------------------
+// Pricing
+// ---------------------------------------------------------------------------
+
+/** Price for a model id: an exact entry first, then the longest matching prefix */
+export function findPricing(
+  model: string, table: Readonly<Record<string, ModelPricing>> = BUILTIN_PRICING,
+): ModelPricing | undefined {
+  if (table[model]) return table[model];
+  let best: string | undefined;
+  for (const prefix of Object.keys(table)) {
+    if (model.startsWith(prefix) && (!best || prefix.length > best.length)) best = prefix;
+  }
+  return best ? table[best] : undefined;
+}
+
+/** Cost in USD of one call; input tokens exclude the cached ones */
+export function estimateCost(usage: LLMUsage, pricing: ModelPricing | undefined): number {
+  if (!pricing) return 0;
+  const cost =
+    usage.inputTokens * pricing.input +
+    usage.outputTokens * pricing.output +
+    (usage.cacheReadTokens ?? 0) * (pricing.cacheRead ?? pricing.input) +
+    (usage.cacheWriteTokens ?? 0) * (pricing.cacheWrite ?? pricing.input);
+  return cost / 1_000_000;
+}
+
+/** Local midnight of the day containing `now`; daily and agent budgets reset here */
+export function startOfDay(now: number = Date.now()): number {
+  const day = new Date(now);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+}
+
+/** The provider recording into `usage` when given, otherwise unchanged */
+export function trackedProvider(provider: LLMProvider, usage: UsageContext | undefined): LLMProvider {
+  return usage ? usage.tracker.track(provider, usage.scope) : provider;
+}
+
+// ---------------------------------------------------------------------------
+// UsageTracker
+// ---------------------------------------------------------------------------
+
+export class UsageTracker {
+  private db: Database;
+  private config: TrackerConfig;
+  private eventBus: EventBus | undefined;
+  private pricing: Record<string, ModelPricing>;
+  private unpriced = new Set<string>();
+  private announced = new Set<string>();
+
+  constructor(options: { db: Database; config?: TrackerConfig; eventBus?: EventBus }) {
+    this.db = options.db;
+    this.config = options.config ?? {};
+    this.eventBus = options.eventBus;
+    this.pricing = { ...BUILTIN_PRICING, ...this.config.pricing };
+  }
+
+  /** Price and persist one LLM call */
+  record(scope: UsageScope, call: { provider: string; model: string; usage: LLMUsage }): UsageRecord {
+    const pricing = findPricing(call.model, this.pricing);
+    if (!pricing && !this.unpriced.has(call.model)) {
+      this.unpriced.add(call.model);
+      getLogger().warn('No price for model; its usage is recorded at no cost', { model: call.model });
+    }
+
+    return this.db.usage.record({
+      ...scope,
+      provider: call.provider,
+      model: call.model,
+      inputTokens: call.usage.inputTokens,
+      outputTokens: call.usage.outputTokens,
+      cacheReadTokens: call.usage.cacheReadTokens ?? 0,
+      cacheWriteTokens: call.usage.cacheWriteTokens ?? 0,
+      costUsd: estimateCost(call.usage, pricing),
+    });
+  }
+
+  /**
+   * The provider with its non-streaming calls recorded against the scope,
+   * for compaction, sampling and structured helper calls. Streamed chat is
+   * left to the caller, which sees the final usage and model.
+   */
+  track(provider: LLMProvider, scope: UsageScope): LLMProvider {
+    return new TrackedProvider(provider, this, scope);
+  }
+
+  /**
+   * Compare spend with every budget that applies to the scope. Scopes the
+   * caller cannot name (no task, no agent) are skipped; the daily budget
+   * always applies.
+   */
+  check(scope: Partial<UsageScope>, now: number = Date.now()): BudgetStatus {
+    const status: BudgetStatus = { warnings: [] };
+
+    for (const budgetScope of BUDGET_SCOPES) {
+      const target = this.budgetTarget(budgetScope, scope, now);
+      if (!target) continue;
+      const { limit, filter, key } = target;
+
+      const spentUsd = this.db.usage.totals(filter).costUsd;
+      if (limit.hard !== undefined && spentUsd >= limit.hard) {
+        const breach: BudgetBreach = { scope: budgetScope, level: 'hard', spentUsd, limitUsd: limit.hard };
+        status.exceeded ??= breach;
+        this.announce(key, breach, scope);
+      } else if (limit.soft !== undefined && spentUsd >= limit.soft) {
+        const breach: BudgetBreach = { scope: budgetScope, level: 'soft', spentUsd, limitUsd: limit.soft };
+        status.warnings.push(breach);
+        this.announce(key, breach, scope);
+      }
+    }
+    return status;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private
+  // ---------------------------------------------------------------------------
+
+  private budgetTarget(
+    budgetScope: BudgetScope, scope: Partial<UsageScope>, now: number,
+  ): { limit: BudgetLimit; filter: UsageFilter; key: string } | undefined {
+    const budgets = this.config.budgets;
+    if (!budgets) return undefined;
+
+    switch (budgetScope) {
+      case 'session':
+        return budgets.session && scope.sessionId
+          ? { limit: budgets.session, filter: { sessionId: scope.sessionId }, key: `session:${scope.sessionId}` }
+          : undefined;
+      case 'task':
+        return budgets.task && scope.taskId
+          ? { limit: budgets.task, filter: { taskId: scope.taskId }, key: `task:${scope.taskId}` }
+          : undefined;
+      case 'agent': {
+        const limit = scope.agent ? budgets.agents?.[scope.agent] ?? budgets.agent : undefined;
+        const fromMs = startOfDay(now);
+        return limit && scope.agent
+          ? { limit, filter: { agent: scope.agent, fromMs }, key: `agent:${scope.agent}:${fromMs}` }
+          : undefined;
+      }
+      case 'daily': {
+        const fromMs = startOfDay(now);
+        return budgets.daily ? { limit: budgets.daily, filter: { fromMs }, key: `daily:${fromMs}` } : undefined;
+      }
+    }
+  }
+
+  /** Log and emit each breach once per tracker */
+  private announce(key: string, breach: BudgetBreach, scope: Partial<UsageScope>): void {
+    const id = `${key}:${breach.level}`;
+    if (this.announced.has(id)) return;
+    this.announced.add(id);
+
+    getLogger().warn(`Budget ${breach.level} limit reached`, { ...breach, ...scope });
+    void this.eventBus?.emit('usage:budget', {
+      ...breach, sessionId: scope.sessionId, agent: scope.agent, taskId: scope.taskId,
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// TrackedProvider
+// ---------------------------------------------------------------------------
+
+class TrackedProvider implements LLMProvider {
+  private inner: LLMProvider;
+  private tracker: UsageTracker;
+  private scope: UsageScope;
+  countTokens?: LLMProvider['countTokens'];
+
+  constructor(inner: LLMProvider, tracker: UsageTracker, scope: UsageScope) {
+    this.inner = inner;
+    this.tracker = tracker;
+    this.scope = scope;
+    if (inner.countTokens) this.countTokens = inner.countTokens.bind(inner);
+  }
+
+  get id(): string {
+    return this.inner.id;
+  }
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get capabilities(): LLMProviderCapabilities {
+    return this.inner.capabilities;
+  }
+
+  initialize(credentials: LLMCredentials): Promise<void> {
+    return this.inner.initialize(credentials);
+  }
+
+  isReady(): boolean {
+    return this.inner.isReady();
+  }
+
+  verifyCredentials(credentials: LLMCredentials): Promise<{ valid: boolean; error?: string }> {
+    return this.inner.verifyCredentials(credentials);
+  }
+
+  listModels(): LLMModel[] {
+    return this.inner.listModels();
+  }
+
+  getDefaultModel(): string {
+    return this.inner.getDefaultModel();
+  }
+
+  chat(options: LLMChatOptions): AsyncGenerator<LLMChatChunk> {
+    return this.inner.chat(options);
+  }
+
+  async compactionChat(options: LLMChatOptions): Promise<LLMChatResponse> {
+    const response = await this.inner.compactionChat(options);
+    this.tracker.record(this.scope, { provider: this.inner.id, model: options.model, usage: response.usage });
+    return response;
+  }
+
+  shutdown(): Promise<void> {
+    return this.inner.shutdown();
+  }
+}
@@ -10,9 +10,11 @@ import type { EventBus } from './event-bus';
 import type { LLMProvider } from './plugin-api-types';
 import type { TaskManager } from './task-manager';
 import type { CronService } from './cron-service';
+import type { PermissionEngine } from './permissions';
 import { AgenticLoop } from './loop';
 import { TaskVerifier } from './task-verifier';
 import { buildRetryPrompt } from './retry-prompt';
+import { UsageTracker } from './usage-tracker';
 import { getLogger } from '../infra/logger';
 
 // ---------------------------------------------------------------------------
@@ -58,6 +60,8 @@ export interface WorkLoopOptions {
   provider: LLMProvider;
   taskManager: TaskManager;
   cronService?: CronService;
+  /** Permission engine shared by every task's AgenticLoop */
+  permissions?: PermissionEngine;
 }
 
 // ---------------------------------------------------------------------------
@@ -68,6 +72,7 @@ export class WorkLoop {
   private timer: ReturnType<typeof setInterval> | null = null;
   private running: Map<string, AgenticLoop> = new Map();
   private budgetTracker: BudgetTracker;
+  private usage: UsageTracker;
   private taskVerifier: TaskVerifier;
   private isRunning = false;
 
@@ -77,6 +82,7 @@ export class WorkLoop {
   private readonly provider: LLMProvider;
   private readonly taskManager: TaskManager;
   private readonly cronService: CronService | null;
+  private readonly permissions: PermissionEngine | undefined;
 
   constructor(options: WorkLoopOptions) {
     this.db = options.db;
@@ -85,7 +91,9 @@ export class WorkLoop {
     this.provider = options.provider;
     this.taskManager = options.taskManager;
     this.cronService = options.cronService ?? null;
+    this.permissions = options.permissions;
     this.budgetTracker = new BudgetTracker(options.config.workBudgetMaxTasksPerHour);
+    this.usage = new UsageTracker({ db: options.db, config: options.config, eventBus: options.eventBus });
     this.taskVerifier = new TaskVerifier({
       eventBus: options.eventBus,
       taskManager: options.taskManager,
@@ -183,6 +191,9 @@ export class WorkLoop {
       return;
     }
 
+    // No new tasks once the daily spend limit is reached
+    if (this.usage.check({}).exceeded) return;
+
     // Calculate free slots
     const freeSlots = this.config.maxConcurrentTasks - this.running.size;
     if (freeSlots <= 0) {
@@ -224,6 +235,7 @@ export class WorkLoop {
       eventBus: this.eventBus,
       config: this.config,
       provider: this.provider,
+      permissions: this.permissions,
     });
 
     this.running.set(task.id, loop);
@@ -253,9 +265,13 @@ export class WorkLoop {
 
     loop.run(prompt, {
       timeoutMs: task.timeBudgetMs,
+      taskId: task.id,
     })
       .then(async result => {
         if (!this.isRunning) return;
+        if (result.stopReason === 'budget_exceeded') {
+          throw new Error('Budget exceeded before the task finished');
+        }
         const response = result.response || 'Task completed with no output';
         getLogger().info('WorkLoop: task completed', { taskId: task.id, response: response.slice(0, 200) });
         await this.taskManager.complete(task.id);
@@ -270,6 +286,8 @@ export class WorkLoop {
       })
       .finally(() => {
         this.running.delete(task.id);
+        // Each task runs in its own session, which ends with it
+        loop.endSession();
       });
   }
 
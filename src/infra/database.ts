@@ -13,6 +13,7 @@ import { createSchedulesRepository } from './db/schedules';
 import { createStateRepository } from './db/state';
 import { createMemoryRepository } from './db/memory';
 import { createAuditRepository } from './db/audit';
+import { createUsageRepository } from './db/usage';
 
 export type { DatabaseConfig } from './db/connection';
 
@@ -28,6 +29,7 @@ export class Database {
   readonly state: ReturnType<typeof createStateRepository>;
   readonly memory: ReturnType<typeof createMemoryRepository>;
   readonly audit: ReturnType<typeof createAuditRepository>;
+  readonly usage: ReturnType<typeof createUsageRepository>;
 
   constructor(config: { path: string; enableVec?: boolean }) {
     this.connection = new DatabaseConnection(config);
@@ -44,6 +46,7 @@ export class Database {
     this.state = createStateRepository(db);
     this.memory = createMemoryRepository(db, vecEnabled);
     this.audit = createAuditRepository(db);
+    this.usage = createUsageRepository(db);
   }
 
   async initialize(): Promise<void> {
@@ -16,5 +16,7 @@ export { createSchedulesRepository } from './schedules';
 export { createStateRepository } from './state';
 export { createMemoryRepository } from './memory';
 export { createAuditRepository } from './audit';
+export { createUsageRepository } from './usage';
+export type { UsageFilter, UsageTotals, UsageGroupBy, UsageSummary } from './usage';
 
 export type * from './types';
@@ -63,6 +63,20 @@ export function createMemoryRepository(db: BunSQLite, vecEnabled: boolean) {
       return rows.map(mapRow);
     },
 
+    /** Entries containing every word of the query, newest first; for callers without embeddings */
+    searchText: (query: string, limit = 10): MemoryEntry[] => {
+      const words = query.split(/\s+/).filter(Boolean);
+      if (words.length === 0) return [];
+
+      const where = words.map(() => "content LIKE ? ESCAPE '\\'").join(' AND ');
+      const patterns = words.map(word => `%${word.replace(/[\\%_]/g, '\\$&')}%`);
+      const rows = db.query(
+        `SELECT * FROM memory WHERE ${where} ORDER BY created_at DESC LIMIT ?`
+      ).all(...patterns, limit) as MemoryRow[];
+
+      return rows.map(mapRow);
+    },
+
     delete: (id: string): boolean => {
       if (vecEnabled) {
         db.run('DELETE FROM memory_vec WHERE id = ?', [id]);
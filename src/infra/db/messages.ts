@@ -25,6 +25,7 @@ export function createMessagesRepository(db: BunSQLite) {
       content,
       createdAt: row.created_at,
       tokenCount: row.token_count ?? undefined,
+      archivedAt: row.archived_at ?? undefined,
     };
   };
 
@@ -48,19 +49,25 @@ export function createMessagesRepository(db: BunSQLite) {
       return row ? mapRow(row) : null;
     },
 
-    list: (sessionId: string, options?: { limit?: number; offset?: number; afterUuid?: string }): Message[] => {
+    list: (sessionId: string, options?: {
+      limit?: number; offset?: number; afterUuid?: string; includeArchived?: boolean;
+    }): Message[] => {
       const limit = options?.limit ?? 1000;
       const offset = options?.offset ?? 0;
 
       let query = 'SELECT * FROM messages WHERE session_id = ?';
       const params: SQLQueryBindings[] = [sessionId];
 
+      if (!options?.includeArchived) {
+        query += ' AND archived_at IS NULL';
+      }
+
       if (options?.afterUuid) {
         query += ' AND created_at > (SELECT created_at FROM messages WHERE uuid = ?)';
         params.push(options.afterUuid);
       }
 
-      query += ' ORDER BY created_at ASC LIMIT ? OFFSET ?';
+      query += ' ORDER BY created_at ASC, rowid ASC LIMIT ? OFFSET ?';
       params.push(limit, offset);
 
       const rows = db.query(query).all(...(params as SQLBindings)) as MessageRow[];
@@ -72,6 +79,40 @@ export function createMessagesRepository(db: BunSQLite) {
       return result.changes > 0;
     },
 
+    /** Archive the given messages (or all active ones) so they drop out of the live history */
+    archive: (sessionId: string, uuids?: string[]): number => {
+      const now = Date.now();
+      if (!uuids) {
+        return db.run(
+          'UPDATE messages SET archived_at = ? WHERE session_id = ? AND archived_at IS NULL',
+          [now, sessionId],
+        ).changes;
+      }
+      if (uuids.length === 0) return 0;
+      const placeholders = uuids.map(() => '?').join(', ');
+      return db.run(
+        `UPDATE messages SET archived_at = ? WHERE session_id = ? AND archived_at IS NULL AND uuid IN (${placeholders})`,
+        [now, sessionId, ...uuids],
+      ).changes;
+    },
+
+    /** Bring archived messages back into the live history */
+    unarchive: (sessionId: string, uuids: string[]): number => {
+      if (uuids.length === 0) return 0;
+      const placeholders = uuids.map(() => '?').join(', ');
+      return db.run(
+        `UPDATE messages SET archived_at = NULL WHERE session_id = ? AND archived_at IS NOT NULL AND uuid IN (${placeholders})`,
+        [sessionId, ...uuids],
+      ).changes;
+    },
+
+    listArchived: (sessionId: string): Message[] => {
+      const rows = db.query(
+        'SELECT * FROM messages WHERE session_id = ? AND archived_at IS NOT NULL ORDER BY created_at ASC, rowid ASC'
+      ).all(sessionId) as MessageRow[];
+      return rows.map(mapRow);
+    },
+
     deleteSession: (sessionId: string): number => {
       const result = db.run('DELETE FROM messages WHERE session_id = ?', [sessionId]);
       return result.changes;
@@ -92,7 +133,8 @@ export function createMessagesRepository(db: BunSQLite) {
 
     getTokenCount: (sessionId: string): number => {
       const result = db.query(
-        'SELECT SUM(token_count) as total FROM messages WHERE session_id = ? AND token_count IS NOT NULL'
+        `SELECT SUM(token_count) as total FROM messages
+         WHERE session_id = ? AND token_count IS NOT NULL AND archived_at IS NULL`
       ).get(sessionId) as { total: number | null };
       return result?.total ?? 0;
     },
@@ -23,6 +23,12 @@ export function runMigrations(db: BunSQLite, vecEnabled: boolean): void {
   if (currentVersion < 3) {
     applyMigrationV3(db);
   }
+  if (currentVersion < 4) {
+    applyMigrationV4(db);
+  }
+  if (currentVersion < 5) {
+    applyMigrationV5(db);
+  }
 }
 
 function getCurrentSchemaVersion(db: BunSQLite): number {
@@ -187,3 +193,34 @@ function applyMigrationV3(db: BunSQLite): void {
   db.run('ALTER TABLE tasks ADD COLUMN retry_count INTEGER DEFAULT 0');
   db.run('INSERT INTO schema_version (version, applied_at) VALUES (3, ?)', [Date.now()]);
 }
+
+function applyMigrationV4(db: BunSQLite): void {
+  db.run('ALTER TABLE messages ADD COLUMN archived_at INTEGER');
+  db.run('INSERT INTO schema_version (version, applied_at) VALUES (4, ?)', [Date.now()]);
+}
+
+function applyMigrationV5(db: BunSQLite): void {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS usage (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp INTEGER NOT NULL,
+      session_id TEXT NOT NULL,
+      agent TEXT,
+      task_id TEXT,
+      swarm_id TEXT,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+      cost_usd REAL NOT NULL DEFAULT 0
+    )
+  `);
+
+  db.run('CREATE INDEX IF NOT EXISTS idx_usage_timestamp ON usage(timestamp)');
+  db.run('CREATE INDEX IF NOT EXISTS idx_usage_session ON usage(session_id)');
+  db.run('CREATE INDEX IF NOT EXISTS idx_usage_task ON usage(task_id)');
+
+  db.run('INSERT INTO schema_version (version, applied_at) VALUES (5, ?)', [Date.now()]);
+}
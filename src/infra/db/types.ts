@@ -23,6 +23,7 @@ export interface MessageRow {
   content: string;
   created_at: number;
   token_count: number | null;
+  archived_at: number | null;
 }
 
 export interface TaskRow {
@@ -97,3 +98,19 @@ export interface AuditRow {
   result: string;
   details: string | null;
 }
+
+export interface UsageRow {
+  id: number;
+  timestamp: number;
+  session_id: string;
+  agent: string | null;
+  task_id: string | null;
+  swarm_id: string | null;
+  provider: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  cost_usd: number;
+}
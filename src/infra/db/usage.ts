@@ -0,0 +1,139 @@
+/**
+ * Usage Repository
+ * Token counts and cost of every LLM call, for budgets and spend reports
+ */
+
+import type { Database as BunSQLite, SQLQueryBindings } from 'bun:sqlite';
+import type { UsageRecord } from '@daemux/types';
+import type { UsageRow } from './types';
+
+type SQLBindings = SQLQueryBindings[];
+
+export interface UsageFilter {
+  sessionId?: string;
+  agent?: string;
+  taskId?: string;
+  swarmId?: string;
+  fromMs?: number;
+  toMs?: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+}
+
+export type UsageGroupBy = 'day' | 'agent' | 'model';
+
+export interface UsageSummary extends UsageTotals {
+  /** Local date (YYYY-MM-DD), agent name or model id; null for calls without an agent */
+  key: string | null;
+}
+
+const GROUP_COLUMNS: Record<UsageGroupBy, string> = {
+  day: "date(timestamp / 1000, 'unixepoch', 'localtime')",
+  agent: 'agent',
+  model: 'model',
+};
+
+const TOTAL_COLUMNS = `
+  COUNT(*) AS calls,
+  COALESCE(SUM(input_tokens), 0) AS inputTokens,
+  COALESCE(SUM(output_tokens), 0) AS outputTokens,
+  COALESCE(SUM(cache_read_tokens), 0) AS cacheReadTokens,
+  COALESCE(SUM(cache_write_tokens), 0) AS cacheWriteTokens,
+  COALESCE(SUM(cost_usd), 0) AS costUsd
+`;
+
+function buildWhere(filter: UsageFilter): { where: string; params: SQLQueryBindings[] } {
+  let where = 'WHERE 1=1';
+  const params: SQLQueryBindings[] = [];
+  const columns: Array<[keyof UsageFilter, string]> = [
+    ['sessionId', 'session_id'], ['agent', 'agent'], ['taskId', 'task_id'], ['swarmId', 'swarm_id'],
+  ];
+
+  for (const [key, column] of columns) {
+    if (filter[key] !== undefined) {
+      where += ` AND ${column} = ?`;
+      params.push(filter[key]);
+    }
+  }
+  if (filter.fromMs !== undefined) {
+    where += ' AND timestamp >= ?';
+    params.push(filter.fromMs);
+  }
+  if (filter.toMs !== undefined) {
+    where += ' AND timestamp <= ?';
+    params.push(filter.toMs);
+  }
+  return { where, params };
+}
+
+export function createUsageRepository(db: BunSQLite) {
+  return {
+    record: (entry: Omit<UsageRecord, 'id' | 'timestamp'> & { timestamp?: number }): UsageRecord => {
+      const timestamp = entry.timestamp ?? Date.now();
+      const result = db.run(
+        `INSERT INTO usage (timestamp, session_id, agent, task_id, swarm_id, provider, model,
+          input_tokens, output_tokens, cache_read_tokens, cache_write_tokens, cost_usd)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          timestamp,
+          entry.sessionId,
+          entry.agent ?? null,
+          entry.taskId ?? null,
+          entry.swarmId ?? null,
+          entry.provider,
+          entry.model,
+          entry.inputTokens,
+          entry.outputTokens,
+          entry.cacheReadTokens,
+          entry.cacheWriteTokens,
+          entry.costUsd,
+        ]
+      );
+      return { ...entry, id: Number(result.lastInsertRowid), timestamp };
+    },
+
+    totals: (filter: UsageFilter = {}): UsageTotals => {
+      const { where, params } = buildWhere(filter);
+      return db.query(`SELECT ${TOTAL_COLUMNS} FROM usage ${where}`)
+        .get(...(params as SQLBindings)) as UsageTotals;
+    },
+
+    summarize: (groupBy: UsageGroupBy, filter: UsageFilter = {}): UsageSummary[] => {
+      const { where, params } = buildWhere(filter);
+      const column = GROUP_COLUMNS[groupBy];
+      const order = groupBy === 'day' ? 'key DESC' : 'costUsd DESC';
+      return db.query(
+        `SELECT ${column} AS key, ${TOTAL_COLUMNS} FROM usage ${where} GROUP BY ${column} ORDER BY ${order}`
+      ).all(...(params as SQLBindings)) as UsageSummary[];
+    },
+
+    list: (filter: UsageFilter & { limit?: number } = {}): UsageRecord[] => {
+      const { where, params } = buildWhere(filter);
+      params.push(filter.limit ?? 100);
+      const rows = db.query(`SELECT * FROM usage ${where} ORDER BY timestamp DESC, id DESC LIMIT ?`)
+        .all(...(params as SQLBindings)) as UsageRow[];
+      return rows.map(row => ({
+        id: row.id,
+        timestamp: row.timestamp,
+        sessionId: row.session_id,
+        agent: row.agent ?? undefined,
+        taskId: row.task_id ?? undefined,
+        swarmId: row.swarm_id ?? undefined,
+        provider: row.provider,
+        model: row.model,
+        inputTokens: row.input_tokens,
+        outputTokens: row.output_tokens,
+        cacheReadTokens: row.cache_read_tokens,
+        cacheWriteTokens: row.cache_write_tokens,
+        costUsd: row.cost_usd,
+      }));
+    },
+  };
+}
@@ -106,7 +106,7 @@ describe('Auth Commands', () => {
     });
 
     it('should reject unsupported provider', () => {
-      const providers = ['openai', 'google', 'azure', 'invalid'];
+      const providers = ['google', 'azure', 'invalid'];
 
       for (const provider of providers) {
         const isValid = SUPPORTED_PROVIDERS.includes(provider as any);
@@ -78,8 +78,12 @@ describe('Auth Integration - Validation Functions', () => {
       expect(validateProvider('anthropic')).toBe(true);
     });
 
+    it('accepts openai', () => {
+      expect(validateProvider('openai')).toBe(true);
+    });
+
     it('rejects unsupported providers', () => {
-      expect(validateProvider('openai')).toBe(false);
+      expect(validateProvider('google')).toBe(false);
       expect(validateProvider('')).toBe(false);
       expect(validateProvider('ANTHROPIC')).toBe(false);
     });
@@ -106,8 +106,11 @@ describe('Auth Interactive Commands', () => {
       expect(SUPPORTED_PROVIDERS.includes('anthropic' as any)).toBe(true);
     });
 
+    it('should accept openai provider', () => {
+      expect(SUPPORTED_PROVIDERS.includes('openai' as any)).toBe(true);
+    });
+
     it('should reject unsupported providers', () => {
-      expect(SUPPORTED_PROVIDERS.includes('openai' as any)).toBe(false);
       expect(SUPPORTED_PROVIDERS.includes('google' as any)).toBe(false);
       expect(SUPPORTED_PROVIDERS.includes('invalid' as any)).toBe(false);
     });
@@ -327,12 +327,13 @@ describe('Auth Validation Logic', () => {
   });
 
   describe('Provider Validation', () => {
-    it('should accept anthropic', () => {
+    it('should accept anthropic and openai', () => {
       expect(SUPPORTED_PROVIDERS.includes('anthropic')).toBe(true);
+      expect(SUPPORTED_PROVIDERS.includes('openai')).toBe(true);
     });
 
     it('should reject unknown providers', () => {
-      const unknownProviders = ['openai', 'google', 'azure', 'local'];
+      const unknownProviders = ['google', 'azure', 'local'];
 
       for (const p of unknownProviders) {
         expect(SUPPORTED_PROVIDERS.includes(p as any)).toBe(false);
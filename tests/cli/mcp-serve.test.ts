@@ -0,0 +1,56 @@
+/**
+ * MCP Serve Command Tests
+ * Where `daemux mcp serve --http` takes its Bearer token from
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { resolveServeToken } from '../../src/cli/mcp-serve';
+
+describe('resolveServeToken', () => {
+  let dataDir: string;
+  let savedEnv: string | undefined;
+
+  beforeEach(() => {
+    dataDir = join(tmpdir(), `daemux-serve-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(dataDir, { recursive: true });
+    savedEnv = process.env.DAEMUX_MCP_TOKEN;
+    delete process.env.DAEMUX_MCP_TOKEN;
+  });
+
+  afterEach(() => {
+    if (savedEnv === undefined) delete process.env.DAEMUX_MCP_TOKEN;
+    else process.env.DAEMUX_MCP_TOKEN = savedEnv;
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should create a random token in a private file and reuse it', () => {
+    const first = resolveServeToken({}, dataDir);
+    const path = join(dataDir, 'mcp-token');
+
+    expect(first.token).toMatch(/^[0-9a-f]{64}$/);
+    expect(first.source).toBe(path);
+    expect(readFileSync(path, 'utf-8').trim()).toBe(first.token);
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect(resolveServeToken({}, dataDir).token).toBe(first.token);
+  });
+
+  it('should prefer --token-file over the environment', () => {
+    const tokenFile = join(dataDir, 'custom');
+    writeFileSync(tokenFile, 'from-file\n');
+    process.env.DAEMUX_MCP_TOKEN = 'from-env';
+
+    expect(resolveServeToken({ tokenFile }, dataDir)).toEqual({ token: 'from-file', source: tokenFile });
+    expect(resolveServeToken({}, dataDir)).toEqual({ token: 'from-env', source: '$DAEMUX_MCP_TOKEN' });
+  });
+
+  it('should refuse an empty or missing token file', () => {
+    const empty = join(dataDir, 'empty');
+    writeFileSync(empty, '  \n');
+
+    expect(() => resolveServeToken({ tokenFile: empty }, dataDir)).toThrow('is empty');
+    expect(() => resolveServeToken({ tokenFile: join(dataDir, 'missing') }, dataDir)).toThrow('Cannot read the token file');
+  });
+});
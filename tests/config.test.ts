@@ -143,6 +143,35 @@ describe('Configuration', () => {
       expect(config.debug).toBe(true);
     });
 
+    it('should fill sandbox defaults for a partial settings policy', () => {
+      writeFileSync(join(testAgentDir, 'settings.json'), JSON.stringify({
+        sandbox: { enabled: true, network: false },
+      }));
+
+      const config = new ConfigLoader({ projectDir: testDir, skipEnv: true, skipUser: true }).load();
+
+      expect(config.sandbox?.enabled).toBe(true);
+      expect(config.sandbox?.network).toBe(false);
+      expect(config.sandbox?.writeRoots).toEqual(['.']);
+      expect(config.sandbox?.denyPaths).toContain('~/.daemux/credentials');
+    });
+
+    it('should accumulate permission rules across settings files', () => {
+      writeFileSync(join(testAgentDir, 'settings.json'), JSON.stringify({
+        permissions: { deny: ['Write(/etc/**)'], ask: ['Bash(git push:*)'] },
+      }));
+      writeFileSync(join(testAgentDir, 'settings.local.json'), JSON.stringify({
+        permissions: { approved: ['Bash(git push)'] },
+      }));
+
+      const config = new ConfigLoader({ projectDir: testDir, skipEnv: true, skipUser: true }).load();
+
+      expect(config.permissions?.deny).toEqual(['Write(/etc/**)']);
+      expect(config.permissions?.ask).toEqual(['Bash(git push:*)']);
+      expect(config.permissions?.approved).toEqual(['Bash(git push)']);
+      expect(config.permissions?.defaultMode).toBe('allow');
+    });
+
     it('should override with local settings', () => {
       const settingsPath = join(testAgentDir, 'settings.json');
       const localSettingsPath = join(testAgentDir, 'settings.local.json');
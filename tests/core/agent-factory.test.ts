@@ -6,6 +6,7 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
 import { AgentFactory } from '../../src/core/agent-factory';
 import type { AgentFactoryDeps } from '../../src/core/agent-factory';
+import { ModelRouter } from '../../src/core/model-router';
 import type { LLMProvider, LLMChatResponse } from '../../src/core/plugin-api-types';
 import type { AgentDefinition } from '../../src/core/types';
 
@@ -13,8 +14,8 @@ import type { AgentDefinition } from '../../src/core/types';
 // Mock Helpers
 // ---------------------------------------------------------------------------
 
-function makeValidAgentJson(overrides?: Record<string, unknown>): string {
-  return JSON.stringify({
+function makeValidAgentConfig(overrides?: Record<string, unknown>): Record<string, unknown> {
+  return {
     name: 'code-reviewer',
     description: 'Reviews code for quality issues',
     systemPrompt: 'You are a code reviewer. Check for bugs, style issues, and security problems.',
@@ -22,7 +23,19 @@ function makeValidAgentJson(overrides?: Record<string, unknown>): string {
     model: 'haiku',
     color: 'cyan',
     ...overrides,
-  });
+  };
+}
+
+function makeValidAgentJson(overrides?: Record<string, unknown>): string {
+  return JSON.stringify(makeValidAgentConfig(overrides));
+}
+
+function makeToolResponse(input: Record<string, unknown>): LLMChatResponse {
+  return {
+    content: [{ type: 'tool_use', id: 'call-1', name: 'StructuredOutput', input }],
+    stopReason: 'tool_use',
+    usage: { inputTokens: 100, outputTokens: 50 },
+  };
 }
 
 function makeLLMResponse(text: string): LLMChatResponse {
@@ -33,8 +46,8 @@ function makeLLMResponse(text: string): LLMChatResponse {
   };
 }
 
+/** Answers with the StructuredOutput tool, or with plain text when given */
 function makeMockProvider(responseText?: string): LLMProvider {
-  const text = responseText ?? makeValidAgentJson();
   return {
     id: 'mock',
     name: 'Mock Provider',
@@ -45,7 +58,9 @@ function makeMockProvider(responseText?: string): LLMProvider {
     listModels: () => [],
     getDefaultModel: () => 'claude-haiku-3-5-20250514',
     chat: async function* () { yield { type: 'done' as const, stopReason: 'end_turn' as const }; },
-    compactionChat: async () => makeLLMResponse(text),
+    compactionChat: async () => responseText === undefined
+      ? makeToolResponse(makeValidAgentConfig())
+      : makeLLMResponse(responseText),
     shutdown: async () => {},
   };
 }
@@ -73,6 +88,7 @@ function makeDeps(
     deps: {
       provider: providerOverride ?? makeMockProvider(),
       registry: (registryOverride ?? registry) as AgentFactoryDeps['registry'],
+      router: new ModelRouter(),
     },
     registered,
   };
@@ -101,7 +117,7 @@ describe('AgentFactory', () => {
       const provider = makeMockProvider();
       provider.compactionChat = async (options) => {
         capturedModel = options.model;
-        return makeLLMResponse(makeValidAgentJson());
+        return makeToolResponse(makeValidAgentConfig());
       };
 
       const { deps } = makeDeps(provider);
@@ -194,7 +210,23 @@ describe('AgentFactory', () => {
       const { deps } = makeDeps(makeMockProvider('not valid json at all'));
       const factory = new AgentFactory(deps);
 
-      await expect(factory.createAgent('Some task')).rejects.toThrow('Failed to parse agent config JSON');
+      await expect(factory.createAgent('Some task')).rejects.toThrow('Failed to generate agent config');
+    });
+
+    it('should send validation errors back and use the corrected config', async () => {
+      const answers = [makeValidAgentConfig({ name: 'Bad Name' }), makeValidAgentConfig({ name: 'fixed-name' })];
+      const prompts: string[] = [];
+      const provider = makeMockProvider();
+      provider.compactionChat = async (options) => {
+        prompts.push(String(options.messages.at(-1)?.content));
+        return makeToolResponse(answers[prompts.length - 1]!);
+      };
+
+      const { deps } = makeDeps(provider);
+      const agent = await new AgentFactory(deps).createAgent('Some task');
+
+      expect(agent.name).toBe('fixed-name');
+      expect(prompts[1]).toContain('$.name: Invalid agent name');
     });
 
     it('should handle invalid agent name in response', async () => {
@@ -216,7 +248,7 @@ describe('AgentFactory', () => {
       const { deps } = makeDeps(provider);
       const factory = new AgentFactory(deps);
 
-      await expect(factory.createAgent('Some task')).rejects.toThrow('no text content');
+      await expect(factory.createAgent('Some task')).rejects.toThrow('no answer was given');
     });
 
     it('should default invalid model to inherit', async () => {
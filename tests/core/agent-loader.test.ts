@@ -7,7 +7,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
 import { mkdirSync, writeFileSync, rmSync, existsSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
-import { loadBuiltinAgents, parseFrontmatter } from '../../src/core/agent-loader';
+import { loadBuiltinAgents, parseFrontmatter, parseSandboxFrontmatter } from '../../src/core/agent-loader';
 
 // ---------------------------------------------------------------------------
 // Fixtures
@@ -429,3 +429,33 @@ Prompt.`;
     expect(data.endpoint).toBe('https://api.example.com:8080/v1');
   });
 });
+
+// ---------------------------------------------------------------------------
+// parseSandboxFrontmatter Tests
+// ---------------------------------------------------------------------------
+
+describe('parseSandboxFrontmatter', () => {
+  it('should build sandbox overrides from flat keys', () => {
+    const { data } = parseFrontmatter(`---
+name: locked-down
+sandbox: true
+sandboxNetwork: false
+sandboxWriteRoots:
+  - ./build
+sandboxEnvAllowlist: ["PATH", "LC_*"]
+---
+
+Prompt.`);
+
+    expect(parseSandboxFrontmatter(data)).toEqual({
+      enabled: true,
+      network: false,
+      writeRoots: ['./build'],
+      envAllowlist: ['PATH', 'LC_*'],
+    });
+  });
+
+  it('should return undefined when no sandbox keys are set', () => {
+    expect(parseSandboxFrontmatter({ name: 'plain' })).toBeUndefined();
+  });
+});
@@ -229,6 +229,22 @@ describe('BackgroundTaskRunner', () => {
       runner.stopAll();
     });
 
+    it('should emit bg-task:progress with live tool output', async () => {
+      provider.addToolUseResponse('Bash', { command: 'echo compiling module' });
+      provider.addTextResponse('Built');
+      const updates: string[] = [];
+      eventBus.on('bg-task:progress', (payload) => { updates.push(payload.text); });
+
+      const runner = createRunner();
+      runner.spawn('Build it', 'chat-1');
+
+      await new Promise(r => setTimeout(r, 500));
+
+      expect(updates[0]).toBe('compiling module');
+
+      runner.stopAll();
+    });
+
     it('should call onComplete with error on failure', async () => {
       // Make provider throw by not adding any response and making it fail
       provider.setDefaultResponse({
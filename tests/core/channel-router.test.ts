@@ -1,7 +1,8 @@
 /**
  * Channel Router Unit Tests
  * Tests message routing, queue serialization, audio transcription bridging,
- * dialog mode (ChatSession-based), and backward compatibility (legacy mode).
+ * photo and document forwarding, dialog mode (ChatSession-based), and
+ * backward compatibility (legacy mode).
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
@@ -39,11 +40,13 @@ function createMockLogger(): Logger {
 // Mock AgenticLoop
 // ---------------------------------------------------------------------------
 
-function createMockLoop(response = 'Hello from the agent') {
+function createMockLoop(response = 'Hello from the agent', vision = false) {
   let runCount = 0;
+  const messages: unknown[] = [];
   return {
-    run: async (message: string, config?: { sessionId?: string }) => {
+    run: async (message: unknown, config?: { sessionId?: string }) => {
       runCount++;
+      messages.push(message);
       return {
         response,
         sessionId: config?.sessionId ?? `session-${runCount}`,
@@ -58,6 +61,8 @@ function createMockLoop(response = 'Hello from the agent') {
     interrupt: () => {},
     getSession: () => null,
     getRunCount: () => runCount,
+    getProvider: () => ({ capabilities: { vision } }),
+    messages,
   };
 }
 
@@ -407,6 +412,82 @@ describe('ChannelRouter', () => {
     });
   });
 
+  describe('Photo and Document Attachments', () => {
+    function makePhotoMessage(caption: string): RichChannelMessage {
+      return {
+        ...makeTextMessage(caption),
+        messageType: 'photo',
+        attachments: [{ type: 'photo', data: Buffer.from('png bytes'), mimeType: 'image/png' }],
+      };
+    }
+
+    function startRouter(loop: ReturnType<typeof createMockLoop>): ChannelRouter {
+      const router = new ChannelRouter({
+        loop: loop as unknown as Parameters<typeof createChannelRouter>[0]['loop'],
+        channelManager,
+        eventBus,
+        logger,
+      });
+      router.start();
+      return router;
+    }
+
+    it('should forward photos as image blocks when the model supports vision', async () => {
+      const loop = createMockLoop('Nice photo', true);
+      const channel = createMockChannel();
+      channelManager.register(channel);
+      const router = startRouter(loop);
+
+      await channel.triggerMessage(makePhotoMessage('What is this?'));
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(loop.messages).toEqual([[
+        { type: 'text', text: 'What is this?' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: Buffer.from('png bytes').toString('base64') } },
+      ]]);
+      expect(channel.sentMessages[0]!.text).toBe('Nice photo');
+
+      await router.stop();
+    });
+
+    it('should download attachments and answer uncaptioned ones', async () => {
+      const loop = createMockLoop('Got it', true);
+      const channel = createMockChannel();
+      channel.downloadAttachment = async () => ({ data: Buffer.from('%PDF-1.4'), fileName: 'report.pdf' });
+      channelManager.register(channel);
+      const router = startRouter(loop);
+
+      await channel.triggerMessage({
+        ...makeTextMessage(''),
+        messageType: 'document',
+        attachments: [{ type: 'document', url: 'file-id-456' }],
+      });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const content = loop.messages[0] as Array<{ type: string; text?: string; title?: string }>;
+      expect(content[0]!.text).toContain('Sent without a caption');
+      expect(content[1]).toMatchObject({ type: 'document', title: 'report.pdf' });
+
+      await router.stop();
+    });
+
+    it('should note attachments the model cannot view', async () => {
+      const loop = createMockLoop();
+      const channel = createMockChannel();
+      channelManager.register(channel);
+      const router = startRouter(loop);
+
+      await channel.triggerMessage(makePhotoMessage('What is this?'));
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(loop.messages).toEqual([
+        'What is this?\n\n[1 attachment(s) received; the current model cannot view images or documents]',
+      ]);
+
+      await router.stop();
+    });
+  });
+
   describe('Stop/Cleanup', () => {
     it('should stop processing and clear queue', async () => {
       const loop = createMockLoop();
@@ -388,6 +388,22 @@ describe('ChatSession', () => {
       session.stop();
     });
 
+    it('should forward task progress updates to the channel', async () => {
+      const session = createSession();
+
+      await eventBus.emit('bg-task:progress', {
+        taskId: 'task-progress-1',
+        chatKey: 'telegram:12345',
+        text: 'Compiling 12/40',
+      });
+
+      await new Promise(r => setTimeout(r, 50));
+
+      expect(channel.sentMessages.map(m => m.text)).toContain('Task task-pro progress:\nCompiling 12/40');
+
+      session.stop();
+    });
+
     it('should ignore completion events from other chats', async () => {
       const session = createSession();
 
@@ -0,0 +1,170 @@
+/**
+ * Hook Manager Tests
+ * preToolUse/postToolUse hooks run by the ToolExecutor: blocking, input
+ * rewriting, additional context and tool matchers
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { join } from 'path';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { HookManager } from '../../src/core/hook-manager';
+import { projectHooksPath, trustHooksContent } from '../../src/core/hook-trust';
+import { ToolExecutor } from '../../src/core/loop/executor';
+import { EventBus } from '../../src/core/event-bus';
+import type { Config } from '../../src/core/types';
+import type { Logger } from '../../src/infra/logger';
+
+function createMockLogger(): Logger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {},
+    child: () => createMockLogger(),
+  } as unknown as Logger;
+}
+
+describe('Tool hooks', () => {
+  const testDir = join(import.meta.dir, 'test-hooks');
+  let eventBus: EventBus;
+  let hooks: HookManager;
+
+  /** Write a shell hook script and return the command that runs it */
+  const script = (name: string, body: string): string => {
+    const path = join(testDir, `${name}.sh`);
+    writeFileSync(path, body);
+    return `sh ${path}`;
+  };
+
+  const createExecutor = () => new ToolExecutor({
+    eventBus,
+    context: { sessionId: 'session-1' },
+    hooks,
+  });
+
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true });
+    eventBus = new EventBus();
+    hooks = new HookManager({
+      config: { hookTimeoutMs: 5000 } as Config,
+      eventBus,
+      logger: createMockLogger(),
+    });
+  });
+
+  afterEach(() => {
+    hooks.shutdown();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should pass tool name, input and session id on stdin', async () => {
+    const captured = join(testDir, 'stdin.json');
+    hooks.registerHook('preToolUse', script('capture', `cat > ${captured}\n`));
+
+    await createExecutor().execute({ type: 'tool_use', id: 't1', name: 'Glob', input: { pattern: '*.none' } });
+
+    const context = JSON.parse(readFileSync(captured, 'utf-8'));
+    expect(context).toMatchObject({
+      event: 'preToolUse', sessionId: 'session-1', toolName: 'Glob', toolUseId: 't1', toolInput: { pattern: '*.none' },
+    });
+  });
+
+  it('should block the call and return stderr to the model on exit 2', async () => {
+    const target = join(testDir, 'blocked.txt');
+    hooks.registerHook('preToolUse', script('block', 'echo "rm -rf is not allowed" >&2\nexit 2\n'));
+
+    const result = await createExecutor().execute({
+      type: 'tool_use', id: 't2', name: 'Write', input: { path: target, content: 'x' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toBe('Error: Blocked by preToolUse hook: rm -rf is not allowed');
+    expect(existsSync(target)).toBe(false);
+  });
+
+  it('should apply updatedInput from stdout', async () => {
+    const original = join(testDir, 'original.txt');
+    const rewritten = join(testDir, 'rewritten.txt');
+    hooks.registerHook('preToolUse', script('rewrite',
+      `cat > /dev/null\necho '${JSON.stringify({ updatedInput: { path: rewritten, content: 'fixed' } })}'\n`));
+    const records = await createExecutor().executeAll([
+      { type: 'tool_use', id: 't3', name: 'Write', input: { path: original, content: 'x' } },
+    ]);
+
+    expect(existsSync(original)).toBe(false);
+    expect(readFileSync(rewritten, 'utf-8')).toBe('fixed');
+    expect(records[0]?.input).toEqual({ path: rewritten, content: 'fixed' });
+  });
+
+  it('should only run hooks whose matcher matches the tool name', async () => {
+    hooks.registerHook('preToolUse', script('block-bash', 'echo "no shell" >&2\nexit 2\n'), undefined, 'Bash');
+
+    const glob = await createExecutor().execute({ type: 'tool_use', id: 't4', name: 'Glob', input: { pattern: '*.none' } });
+    const bash = await createExecutor().execute({ type: 'tool_use', id: 't5', name: 'Bash', input: { command: 'true' } });
+    const background = await createExecutor().execute({
+      type: 'tool_use', id: 't5b', name: 'BashBackground', input: { command: 'true' },
+    });
+
+    expect(glob.isError).toBe(false);
+    expect(bash.content).toContain('no shell');
+    expect(background.content).toContain('no shell');
+  });
+
+  it('should append postToolUse feedback and additional context to the result', async () => {
+    const captured = join(testDir, 'post.json');
+    hooks.registerHook('postToolUse', script('context',
+      `cat > ${captured}\necho '{"additionalContext":"Formatted with prettier"}'\n`));
+    hooks.registerHook('postToolUse', script('lint', 'echo "lint failed" >&2\nexit 2\n'));
+
+    const result = await createExecutor().execute({
+      type: 'tool_use', id: 't6', name: 'Write', input: { path: join(testDir, 'a.ts'), content: 'x' },
+    });
+
+    expect(result.isError).toBe(false);
+    expect(result.content).toContain('Formatted with prettier');
+    expect(result.content).toContain('postToolUse hook: lint failed');
+    expect(JSON.parse(readFileSync(captured, 'utf-8')).toolResult).toEqual({
+      content: expect.stringContaining('File written successfully'), isError: false,
+    });
+  });
+
+  it('should load matchers from hooks.json', async () => {
+    writeFileSync(join(testDir, 'hooks.json'), JSON.stringify({
+      hooks: [{ event: 'preToolUse', matcher: 'Write|Edit', command: script('deny', 'exit 2\n') }],
+    }));
+    hooks.loadHooks(testDir);
+
+    const result = await createExecutor().execute({
+      type: 'tool_use', id: 't7', name: 'Edit', input: { file_path: join(testDir, 'x'), old_string: 'a', new_string: 'b' },
+    });
+
+    expect(result.content).toBe('Error: Blocked by preToolUse hook: Hook blocked operation');
+  });
+
+  it('should load project hooks only while their contents are trusted', async () => {
+    const dataDir = join(testDir, 'data');
+    const projectDir = join(testDir, 'project');
+    const filePath = projectHooksPath(projectDir);
+    mkdirSync(join(projectDir, '.daemux'), { recursive: true });
+    const content = JSON.stringify({ hooks: [{ event: 'preToolUse', command: script('deny', 'exit 2\n') }] });
+    writeFileSync(filePath, content);
+    const project = () => new HookManager({
+      config: { hookTimeoutMs: 5000, dataDir } as Config, eventBus, logger: createMockLogger(),
+    });
+
+    const untrusted = project();
+    expect(untrusted.loadProjectHooks(projectDir)).toBe(false);
+    expect(untrusted.hasHooks('preToolUse')).toBe(false);
+
+    trustHooksContent(dataDir, filePath, content);
+    const trusted = project();
+    expect(trusted.loadProjectHooks(projectDir)).toBe(true);
+    expect(trusted.hasHooks('preToolUse')).toBe(true);
+
+    writeFileSync(filePath, `${content}\n`);
+    expect(project().loadProjectHooks(projectDir)).toBe(false);
+    expect(project().loadProjectHooks(join(testDir, 'no-hooks'))).toBe(true);
+  });
+});
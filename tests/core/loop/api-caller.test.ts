@@ -0,0 +1,174 @@
+/**
+ * API Caller Tests
+ * Prompt cache breakpoints, cache usage accounting and extended thinking
+ */
+
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { callLLMAPI, buildCacheBreakpoints, resolveThinkingBudget } from '../../../src/core/loop/api-caller';
+import type { Config } from '../../../src/core/types';
+import type { StreamChunk } from '../../../src/core/loop/types';
+import { BUILTIN_TOOLS } from '../../../src/core/loop/tools';
+import { createReadyMockProvider, MockLLMProvider } from '../../mocks/mock-llm-provider';
+
+const baseConfig: Config = {
+  agentId: 'test-agent',
+  dataDir: '/tmp/test',
+  model: 'mock-model',
+  compactionThreshold: 0.8,
+  effectiveContextWindow: 180000,
+  queueMode: 'steer',
+  collectWindowMs: 5000,
+  hookTimeoutMs: 600000,
+  turnTimeoutMs: 1800000,
+  debug: false,
+  mcpDebug: false,
+  heartbeatIntervalMs: 1800000,
+  heartbeatEnabled: false,
+  maxConcurrentTasks: 3,
+  workPollingIntervalMs: 5000,
+  workBudgetMaxTasksPerHour: 50,
+  promptCaching: true,
+};
+
+describe('buildCacheBreakpoints', () => {
+  it('should mark system, tools and the last two messages', () => {
+    expect(buildCacheBreakpoints(5, true)).toEqual({
+      system: true, tools: true, messageIndices: [3, 4],
+    });
+  });
+
+  it('should handle a single message', () => {
+    expect(buildCacheBreakpoints(1, true).messageIndices).toEqual([0]);
+  });
+
+  it('should not mark tools when none are sent', () => {
+    expect(buildCacheBreakpoints(2, false).tools).toBe(false);
+  });
+});
+
+describe('callLLMAPI prompt caching', () => {
+  let provider: MockLLMProvider;
+
+  beforeEach(() => {
+    provider = createReadyMockProvider();
+  });
+
+  const messages = [
+    { role: 'user' as const, content: 'first' },
+    { role: 'assistant' as const, content: 'reply' },
+    { role: 'user' as const, content: 'second' },
+  ];
+
+  it('should pass cache breakpoints to the provider', async () => {
+    await callLLMAPI(provider, baseConfig, 'system', messages, BUILTIN_TOOLS);
+
+    expect(provider.getLastCall()?.cacheBreakpoints).toEqual({
+      system: true, tools: true, messageIndices: [1, 2],
+    });
+  });
+
+  it('should omit breakpoints when prompt caching is disabled', async () => {
+    await callLLMAPI(provider, { ...baseConfig, promptCaching: false }, 'system', messages, BUILTIN_TOOLS);
+
+    expect(provider.getLastCall()?.cacheBreakpoints).toBeUndefined();
+  });
+
+  it('should report cache read and write tokens', async () => {
+    provider.addResponse({
+      usage: { inputTokens: 10, outputTokens: 5, cacheReadTokens: 900, cacheWriteTokens: 40 },
+    });
+
+    const result = await callLLMAPI(provider, baseConfig, 'system', messages, []);
+
+    expect(result.usage).toEqual({
+      input_tokens: 10,
+      output_tokens: 5,
+      cache_read_input_tokens: 900,
+      cache_creation_input_tokens: 40,
+    });
+  });
+
+  it('should default cache tokens to zero when the provider omits them', async () => {
+    const result = await callLLMAPI(provider, baseConfig, 'system', messages, []);
+
+    expect(result.usage.cache_read_input_tokens).toBe(0);
+    expect(result.usage.cache_creation_input_tokens).toBe(0);
+  });
+});
+
+describe('callLLMAPI output limit', () => {
+  const messages = [{ role: 'user' as const, content: 'question' }];
+
+  it('should default to the output limit the model advertises', async () => {
+    const provider = createReadyMockProvider();
+    await callLLMAPI(provider, baseConfig, 'system', messages, []);
+
+    expect(provider.getLastCall()?.maxTokens).toBe(8192);
+  });
+
+  it('should keep the route maxTokens when set', async () => {
+    const provider = createReadyMockProvider();
+    const config: Config = { ...baseConfig, models: { roles: { main: { model: 'mock-model', maxTokens: 20000 } }, aliases: {} } };
+    await callLLMAPI(provider, config, 'system', messages, []);
+
+    expect(provider.getLastCall()?.maxTokens).toBe(20000);
+  });
+});
+
+describe('resolveThinkingBudget', () => {
+  it('should disable thinking for off or unset levels', () => {
+    expect(resolveThinkingBudget(undefined)).toBeUndefined();
+    expect(resolveThinkingBudget('off')).toBeUndefined();
+  });
+
+  it('should increase the budget with the level', () => {
+    const low = resolveThinkingBudget('low')!;
+    const medium = resolveThinkingBudget('medium')!;
+    const high = resolveThinkingBudget('high')!;
+    expect(low).toBeLessThan(medium);
+    expect(medium).toBeLessThan(high);
+  });
+});
+
+describe('callLLMAPI extended thinking', () => {
+  let provider: MockLLMProvider;
+  const messages = [{ role: 'user' as const, content: 'question' }];
+
+  beforeEach(() => {
+    provider = createReadyMockProvider();
+  });
+
+  it('should request a thinking budget for the session level', async () => {
+    await callLLMAPI(provider, baseConfig, 'system', messages, [], undefined, { thinkingLevel: 'high' });
+
+    expect(provider.getLastCall()?.thinking).toEqual({ budgetTokens: 32000 });
+  });
+
+  it('should not request thinking when the level is off', async () => {
+    await callLLMAPI(provider, baseConfig, 'system', messages, [], undefined, { thinkingLevel: 'off' });
+
+    expect(provider.getLastCall()?.thinking).toBeUndefined();
+  });
+
+  it('should assemble signed and redacted thinking blocks before text', async () => {
+    provider.addResponse({
+      content: [
+        { type: 'thinking', text: 'Reasoning', signature: 'sig-abc' },
+        { type: 'redacted_thinking', data: 'opaque' },
+        { type: 'text', text: 'Answer' },
+      ],
+    });
+    const chunks: StreamChunk[] = [];
+
+    const result = await callLLMAPI(
+      provider, baseConfig, 'system', messages, [], c => chunks.push(c), { thinkingLevel: 'low' },
+    );
+
+    expect(result.content).toEqual([
+      { type: 'thinking', thinking: 'Reasoning', signature: 'sig-abc' },
+      { type: 'redacted_thinking', data: 'opaque' },
+      { type: 'text', text: 'Answer' },
+    ]);
+    expect(chunks).toContainEqual({ type: 'thinking', content: 'Reasoning' });
+  });
+});
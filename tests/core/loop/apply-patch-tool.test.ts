@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync, existsSync, readFileSync } from 'fs';
+import {
+  executeApplyPatch,
+  parsePatch,
+  patchFilePaths,
+} from '../../../src/core/loop/tools/apply-patch';
+import { clearFileState, recordFileState } from '../../../src/core/loop/tools/file-state';
+
+describe('ApplyPatch Tool', () => {
+  const testDir = join(import.meta.dir, 'test-apply-patch-temp');
+  const file = (name: string) => join(testDir, name);
+
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('parsePatch', () => {
+    it('should parse git headers, strip a/ b/ prefixes and detect created files', () => {
+      const patches = parsePatch([
+        'diff --git a/src/x.ts b/src/x.ts',
+        'index 123..456 100644',
+        '--- a/src/x.ts',
+        '+++ b/src/x.ts',
+        '@@ -1,2 +1,2 @@',
+        ' keep',
+        '-old',
+        '+new',
+        '--- /dev/null',
+        '+++ b/src/new.ts',
+        '@@ -0,0 +1 @@',
+        '+created',
+      ].join('\n'));
+
+      expect(patches).toHaveLength(2);
+      expect(patches[0]).toMatchObject({ oldPath: 'src/x.ts', newPath: 'src/x.ts' });
+      expect(patches[0]!.hunks[0]!.lines).toEqual([' keep', '-old', '+new']);
+      expect(patches[1]).toMatchObject({ oldPath: null, newPath: 'src/new.ts' });
+    });
+
+    it('should reject hunks whose line counts do not match', () => {
+      expect(() => parsePatch('--- a\n+++ b\n@@ -1,2 +1,2 @@\n-x\n+y\n')).toThrow('patch ended before the hunk was complete');
+    });
+
+    it('should list the files a patch touches for the executor', () => {
+      const paths = patchFilePaths('--- a/one.txt\n+++ b/two.txt\n@@ -1 +1 @@\n-a\n+b\n', testDir);
+
+      expect(paths).toEqual([file('one.txt'), file('two.txt')]);
+      expect(patchFilePaths('not a patch')).toEqual([]);
+    });
+  });
+
+  describe('executeApplyPatch', () => {
+    it('should apply hunks across several files, including creates and deletes', async () => {
+      writeFileSync(file('a.txt'), 'line1\nline2\nline3\nline4\nline5\nline6\nline7\nline8\n');
+      writeFileSync(file('gone.txt'), 'bye\n');
+
+      const patch = [
+        '--- a/a.txt',
+        '+++ b/a.txt',
+        '@@ -1,3 +1,3 @@',
+        ' line1',
+        '-line2',
+        '+LINE2',
+        ' line3',
+        '@@ -6,3 +6,4 @@',
+        ' line6',
+        ' line7',
+        '+inserted',
+        ' line8',
+        '--- /dev/null',
+        '+++ b/nested/new.txt',
+        '@@ -0,0 +1,2 @@',
+        '+hello',
+        '+world',
+        '--- a/gone.txt',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-bye',
+      ].join('\n');
+
+      const res = await executeApplyPatch('p-1', { patch, cwd: testDir });
+
+      expect(res.isError).toBe(false);
+      expect(res.content).toContain('Applied patch to 3 files');
+      expect(readFileSync(file('a.txt'), 'utf-8')).toBe('line1\nLINE2\nline3\nline4\nline5\nline6\nline7\ninserted\nline8\n');
+      expect(readFileSync(file('nested/new.txt'), 'utf-8')).toBe('hello\nworld\n');
+      expect(existsSync(file('gone.txt'))).toBe(false);
+    });
+
+    it('should tolerate hunks whose line numbers have drifted', async () => {
+      writeFileSync(file('drift.txt'), 'added\nabove\nalpha\nbeta\n');
+
+      const res = await executeApplyPatch('p-2', {
+        patch: '--- a/drift.txt\n+++ b/drift.txt\n@@ -1,2 +1,2 @@\n alpha\n-beta\n+gamma\n',
+        cwd: testDir,
+      });
+
+      expect(res.isError).toBe(false);
+      expect(readFileSync(file('drift.txt'), 'utf-8')).toBe('added\nabove\nalpha\ngamma\n');
+    });
+
+    it('should change nothing and report each failing hunk when any hunk does not match', async () => {
+      writeFileSync(file('ok.txt'), 'one\n');
+      writeFileSync(file('bad.txt'), 'real\ncontent\n');
+
+      const patch = [
+        '--- a/ok.txt',
+        '+++ b/ok.txt',
+        '@@ -1 +1 @@',
+        '-one',
+        '+ONE',
+        '--- a/bad.txt',
+        '+++ b/bad.txt',
+        '@@ -1 +1 @@',
+        '-real',
+        '+REAL',
+        '@@ -2 +2 @@',
+        '-wrong',
+        '+WRONG',
+      ].join('\n');
+
+      const res = await executeApplyPatch('p-3', { patch, cwd: testDir });
+
+      expect(res.isError).toBe(true);
+      expect(res.content).toContain('no files were changed');
+      expect(res.content).toContain(`${file('bad.txt')}: hunk 2 (@@ -2 +2 @@) does not match the file; expected text starting with: wrong`);
+      expect(res.content).not.toContain('hunk 1');
+      expect(readFileSync(file('ok.txt'), 'utf-8')).toBe('one\n');
+      expect(readFileSync(file('bad.txt'), 'utf-8')).toBe('real\ncontent\n');
+    });
+
+    it('should honour "No newline at end of file" markers', async () => {
+      writeFileSync(file('eol.txt'), 'a\nb');
+
+      const res = await executeApplyPatch('p-4', {
+        patch: '--- a/eol.txt\n+++ b/eol.txt\n@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+c\n',
+        cwd: testDir,
+      });
+
+      expect(res.isError).toBe(false);
+      expect(readFileSync(file('eol.txt'), 'utf-8')).toBe('a\nc\n');
+    });
+
+    it('should refuse to create a file that already exists', async () => {
+      writeFileSync(file('exists.txt'), 'x\n');
+
+      const res = await executeApplyPatch('p-5', { patch: '--- /dev/null\n+++ b/exists.txt\n@@ -0,0 +1 @@\n+y\n', cwd: testDir });
+
+      expect(res.isError).toBe(true);
+      expect(res.content).toContain('file already exists');
+    });
+
+    it('should refuse to rename onto an existing file', async () => {
+      writeFileSync(file('from.txt'), 'a\n');
+      writeFileSync(file('to.txt'), 'keep\n');
+
+      const res = await executeApplyPatch('p-6', {
+        patch: '--- a/from.txt\n+++ b/to.txt\n@@ -1 +1 @@\n-a\n+b\n', cwd: testDir,
+      });
+
+      expect(res.isError).toBe(true);
+      expect(res.content).toContain(`${file('to.txt')}: file already exists`);
+      expect(readFileSync(file('to.txt'), 'utf-8')).toBe('keep\n');
+      expect(existsSync(file('from.txt'))).toBe(true);
+    });
+
+    it('should refuse files the session has not read or that changed since', async () => {
+      const context = { sessionId: 'patch-session' };
+      const patch = '--- a/seen.txt\n+++ b/seen.txt\n@@ -1 +1 @@\n-a\n+b\n';
+      writeFileSync(file('seen.txt'), 'a\n');
+
+      try {
+        const unread = await executeApplyPatch('p-7', { patch, cwd: testDir }, context);
+        expect(unread.content).toContain('has not been read in this session');
+
+        recordFileState(context.sessionId, file('seen.txt'));
+        writeFileSync(file('seen.txt'), 'a\n\n');
+        const changed = await executeApplyPatch('p-8', { patch, cwd: testDir }, context);
+        expect(changed.content).toContain('has been modified since it was last read');
+        expect(readFileSync(file('seen.txt'), 'utf-8')).toBe('a\n\n');
+
+        recordFileState(context.sessionId, file('seen.txt'));
+        expect((await executeApplyPatch('p-9', { patch, cwd: testDir }, context)).isError).toBe(false);
+      } finally {
+        clearFileState(context.sessionId);
+      }
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Background Shell Tool Tests
+ * Starting detached commands, polling output, stdin, kill and per-session cleanup
+ */
+
+import { describe, it, expect, afterEach } from 'bun:test';
+import { readFileSync } from 'fs';
+import {
+  executeBashBackground,
+  executeBashOutput,
+  executeBashInput,
+  executeBashKill,
+  listBackgroundShells,
+  killSessionShells,
+  killAllShells,
+} from '../../../src/core/loop/tools';
+import type { ToolContext } from '../../../src/core/loop/types';
+
+const sessionA: ToolContext = { sessionId: 'session-a' };
+const sessionB: ToolContext = { sessionId: 'session-b' };
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+/** Start a shell and return its id */
+async function start(command: string, context: ToolContext = sessionA): Promise<string> {
+  const res = await executeBashBackground('start', { command }, context);
+  expect(res.isError).toBe(false);
+  return res.content.match(/shell_[0-9a-f]{8}/)![0];
+}
+
+/** Poll BashOutput until the predicate matches the accumulated output */
+async function waitForOutput(
+  shellId: string,
+  predicate: (output: string) => boolean,
+  context: ToolContext = sessionA,
+): Promise<string> {
+  let output = '';
+  for (let i = 0; i < 100; i++) {
+    const res = await executeBashOutput('read', { shell_id: shellId }, context);
+    output += res.content;
+    if (predicate(output)) return output;
+    await sleep(20);
+  }
+  throw new Error(`Timed out waiting for output, got: ${output}`);
+}
+
+/** Running (not exited or zombie) according to /proc */
+function isAlive(pid: number): boolean {
+  try {
+    const stat = readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    return stat.slice(stat.lastIndexOf(')') + 2)[0] !== 'Z';
+  } catch {
+    return false;
+  }
+}
+
+describe('Background shells', () => {
+  afterEach(() => {
+    killAllShells();
+  });
+
+  it('should return only output produced since the last read', async () => {
+    const id = await start('echo first; sleep 0.2; echo second; sleep 5');
+
+    const first = await waitForOutput(id, o => o.includes('first'));
+    expect(first).toContain('Status: running');
+    const second = await waitForOutput(id, o => o.includes('second'));
+
+    expect(second).not.toContain('first');
+  });
+
+  it('should report the exit code once the command finishes', async () => {
+    const id = await start('echo done; exit 3');
+
+    const output = await waitForOutput(id, o => o.includes('exited'));
+
+    expect(output).toContain('Status: exited with code 3');
+  });
+
+  it('should forward stdin to the process', async () => {
+    const id = await start('read line; echo "got:$line"');
+
+    const res = await executeBashInput('in', { shell_id: id, input: 'hello\n' }, sessionA);
+    expect(res.isError).toBe(false);
+
+    const output = await waitForOutput(id, o => o.includes('got:hello'));
+    expect(output).toContain('got:hello');
+  });
+
+  it.skipIf(process.platform !== 'linux')('should kill the process group', async () => {
+    const id = await start('sleep 30 & echo "child:$!"; wait');
+    const output = await waitForOutput(id, o => /child:\d+/.test(o));
+    const childPid = Number(output.match(/child:(\d+)/)![1]);
+
+    const res = await executeBashKill('kill', { shell_id: id }, sessionA);
+    await sleep(100);
+
+    expect(res.content).toContain('Stopped background shell');
+    expect(isAlive(childPid)).toBe(false);
+    expect((await executeBashOutput('read', { shell_id: id }, sessionA)).isError).toBe(true);
+  });
+
+  it('should not expose shells to other sessions', async () => {
+    const id = await start('sleep 5');
+
+    const res = await executeBashOutput('read', { shell_id: id }, sessionB);
+
+    expect(res.isError).toBe(true);
+    expect(res.content).toContain('No background shell');
+  });
+
+  it('should stop only the shells of the given session', async () => {
+    await start('sleep 5', sessionA);
+    await start('sleep 5', sessionB);
+
+    expect(killSessionShells('session-a')).toBe(1);
+
+    expect(listBackgroundShells('session-a')).toHaveLength(0);
+    expect(listBackgroundShells('session-b')).toHaveLength(1);
+  });
+
+  it('should require a command', async () => {
+    const res = await executeBashBackground('start', {}, sessionA);
+
+    expect(res.isError).toBe(true);
+  });
+});
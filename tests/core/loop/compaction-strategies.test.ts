@@ -0,0 +1,164 @@
+/**
+ * Compaction Strategy Tests
+ * Built-in strategies, turn detection and the strategy registry
+ */
+
+import { describe, it, expect, beforeEach } from 'bun:test';
+import {
+  fullSummaryStrategy,
+  keepRecentStrategy,
+  elideToolResultsStrategy,
+  findRecentTurnsStart,
+  registerCompactionStrategy,
+  getCompactionStrategy,
+  listCompactionStrategies,
+  type CompactionStrategy,
+} from '../../../src/core/loop/compaction-strategies';
+import type { Message } from '../../../src/core/types';
+import { createReadyMockProvider, MockLLMProvider } from '../../mocks/mock-llm-provider';
+
+let counter = 0;
+
+function msg(role: Message['role'], content: Message['content']): Message {
+  counter++;
+  return {
+    uuid: `00000000-0000-4000-8000-${String(counter).padStart(12, '0')}`,
+    parentUuid: null,
+    role,
+    content,
+    createdAt: counter,
+  };
+}
+
+function toolTurn(prompt: string, toolOutput: string): Message[] {
+  return [
+    msg('user', prompt),
+    msg('assistant', [{ type: 'tool_use', id: `t-${prompt}`, name: 'Bash', input: { command: 'ls' } }]),
+    msg('user', [{ type: 'tool_result', tool_use_id: `t-${prompt}`, content: toolOutput }]),
+    msg('assistant', `Done with ${prompt}`),
+  ];
+}
+
+describe('findRecentTurnsStart', () => {
+  it('should return the index of the Nth most recent user prompt', () => {
+    const messages = [...toolTurn('one', 'a'), ...toolTurn('two', 'b'), ...toolTurn('three', 'c')];
+    expect(findRecentTurnsStart(messages, 2)).toBe(4);
+  });
+
+  it('should not treat tool results as turn starts', () => {
+    const messages = toolTurn('one', 'a');
+    expect(findRecentTurnsStart(messages, 1)).toBe(0);
+  });
+
+  it('should return 0 when there are fewer turns than requested', () => {
+    expect(findRecentTurnsStart(toolTurn('one', 'a'), 5)).toBe(0);
+  });
+});
+
+describe('built-in strategies', () => {
+  let provider: MockLLMProvider;
+
+  beforeEach(() => {
+    provider = createReadyMockProvider();
+    provider.addTextResponse('Older work summarized');
+  });
+
+  it('full-summary should replace everything with one summary message', async () => {
+    const messages = [...toolTurn('one', 'a'), ...toolTurn('two', 'b')];
+
+    const output = await fullSummaryStrategy.compact({
+      provider, messages, model: 'mock-haiku', keepTurns: 1,
+    });
+
+    expect(output.summary).toBe('Older work summarized');
+    expect(output.messages).toHaveLength(1);
+    expect(output.messages[0]?.role).toBe('user');
+    expect(output.messages[0]?.content).toContain('Older work summarized');
+    expect(provider.getLastCall()?.model).toBe('mock-haiku');
+  });
+
+  it('keep-recent should summarize only the older turns', async () => {
+    const recent = toolTurn('two', 'recent output');
+    const messages = [...toolTurn('one', 'old output'), ...recent];
+
+    const output = await keepRecentStrategy.compact({
+      provider, messages, model: 'mock-haiku', keepTurns: 1,
+    });
+
+    expect(output.messages).toHaveLength(1 + recent.length);
+    expect(output.messages.slice(1).map(m => m.content)).toEqual(recent.map(m => m.content));
+    const summarized = provider.getLastCall()?.messages[0]?.content as string;
+    expect(summarized).toContain('old output');
+    expect(summarized).not.toContain('recent output');
+  });
+
+  it('keep-recent should leave short histories untouched', async () => {
+    const messages = toolTurn('one', 'a');
+
+    const output = await keepRecentStrategy.compact({
+      provider, messages, model: 'mock-haiku', keepTurns: 3,
+    });
+
+    expect(output.summary).toBe('');
+    expect(output.messages).toHaveLength(messages.length);
+    expect(provider.getCallCount()).toBe(0);
+  });
+
+  it('elide-tool-results should shorten old tool results without an LLM call', async () => {
+    const longOutput = 'x'.repeat(2000);
+    const messages = [...toolTurn('one', longOutput), ...toolTurn('two', longOutput)];
+
+    const output = await elideToolResultsStrategy.compact({
+      provider, messages, model: 'mock-haiku', keepTurns: 1,
+    });
+
+    expect(provider.getCallCount()).toBe(0);
+    expect(output.messages).toHaveLength(messages.length);
+
+    const oldResult = (output.messages[2]?.content as Array<{ content: string }>)[0]!.content;
+    const recentResult = (output.messages[6]?.content as Array<{ content: string }>)[0]!.content;
+    expect(oldResult.length).toBeLessThan(longOutput.length);
+    expect(oldResult).toContain('elided during compaction');
+    expect(recentResult).toBe(longOutput);
+  });
+
+  it('elide-tool-results should replace old images with a description', async () => {
+    const image = { type: 'image' as const, source: { type: 'base64' as const, media_type: 'image/png', data: 'A'.repeat(4096) } };
+    const turn = toolTurn('look', 'Read image');
+    turn[2] = msg('user', [{ type: 'tool_result', tool_use_id: 't-look', content: 'Read image' }, image]);
+    const messages = [...turn, ...toolTurn('two', 'short')];
+
+    const output = await elideToolResultsStrategy.compact({
+      provider, messages, model: 'mock-haiku', keepTurns: 1,
+    });
+
+    expect((output.messages[2]?.content as Array<unknown>)[1]).toEqual({
+      type: 'text', text: '[image: image/png, 3 KB] elided during compaction',
+    });
+  });
+});
+
+describe('strategy registry', () => {
+  it('should list the built-in strategies', () => {
+    const names = listCompactionStrategies().map(s => s.name);
+    expect(names).toContain('full-summary');
+    expect(names).toContain('keep-recent');
+    expect(names).toContain('elide-tool-results');
+  });
+
+  it('should register custom strategies', async () => {
+    const dropAll: CompactionStrategy = {
+      name: 'test-drop-all',
+      description: 'Drop everything',
+      compact: async () => ({ messages: [], summary: '' }),
+    };
+
+    registerCompactionStrategy(dropAll);
+
+    expect(getCompactionStrategy('test-drop-all')).toBe(dropAll);
+  });
+
+  it('should return undefined for unknown strategies', () => {
+    expect(getCompactionStrategy('missing')).toBeUndefined();
+  });
+});
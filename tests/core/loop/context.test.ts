@@ -260,6 +260,31 @@ describe('ContextBuilder', () => {
       expect(msg.tokenCount).toBe(150);
     });
 
+    it('should store an approximate token count when none is given', () => {
+      const session = db.sessions.create({
+        createdAt: Date.now(),
+        lastActivity: Date.now(),
+        compactionCount: 0,
+        totalTokensUsed: 0,
+        queueMode: 'steer',
+        flags: {},
+      });
+
+      const msg = contextBuilder.addMessage(session.id, 'user', [
+        { type: 'tool_result', tool_use_id: 'tool-1', content: 'x'.repeat(4000) },
+      ]);
+
+      expect(msg.tokenCount).toBeGreaterThanOrEqual(1000);
+      expect(db.messages.getTokenCount(session.id)).toBe(msg.tokenCount!);
+    });
+
+    it('should count message tokens through the provider when supported', async () => {
+      mockProvider.countTokens = async () => 4242;
+      const builder = new ContextBuilder({ db, eventBus, config: testConfig, provider: mockProvider });
+
+      expect(await builder.countMessageTokens('user', 'Hello')).toBe(4242);
+    });
+
     it('should add content blocks', () => {
       const session = db.sessions.create({
         createdAt: Date.now(),
@@ -414,6 +439,137 @@ describe('ContextBuilder', () => {
       expect(result.summary).toBe('');
       expect(result.beforeTokens).toBe(result.afterTokens);
     });
+
+    it('should archive the compacted messages instead of deleting them', async () => {
+      const session = db.sessions.create({
+        createdAt: Date.now(),
+        lastActivity: Date.now(),
+        compactionCount: 0,
+        totalTokensUsed: 0,
+        queueMode: 'steer',
+        flags: {},
+      });
+
+      for (let i = 0; i < 5; i++) {
+        db.messages.create(session.id, {
+          parentUuid: null,
+          role: i % 2 === 0 ? 'user' : 'assistant',
+          content: `Message ${i}`,
+          createdAt: Date.now() + i,
+        });
+      }
+
+      await contextBuilder.compact(session.id, 'Test prompt');
+
+      const live = db.messages.list(session.id);
+      expect(live).toHaveLength(1);
+      expect(live[0]?.content).toContain('Summary of conversation.');
+      expect(db.messages.listArchived(session.id)).toHaveLength(5);
+    });
+
+    it('should use the agent strategy and model over the config', async () => {
+      const session = db.sessions.create({
+        createdAt: Date.now(),
+        lastActivity: Date.now(),
+        compactionCount: 0,
+        totalTokensUsed: 0,
+        queueMode: 'steer',
+        flags: {},
+      });
+
+      for (let i = 0; i < 10; i++) {
+        db.messages.create(session.id, {
+          parentUuid: null,
+          role: i % 2 === 0 ? 'user' : 'assistant',
+          content: `Message ${i}`,
+          createdAt: Date.now() + i,
+        });
+      }
+
+      await contextBuilder.compact(session.id, 'Test prompt', {
+        name: 'test-agent',
+        description: 'Test',
+        model: 'inherit',
+        color: 'blue',
+        systemPrompt: '',
+        pluginId: 'test',
+        compactionStrategy: 'keep-recent',
+        compactionModel: 'mock-haiku',
+      });
+
+      expect(mockProvider.getLastCall()?.model).toBe('mock-haiku');
+      const live = db.messages.list(session.id);
+      // Summary of the first turn followed by the last four turns verbatim
+      expect(live).toHaveLength(9);
+      expect(live[1]?.content).toBe('Message 2');
+      expect(db.messages.listArchived(session.id)).toHaveLength(10);
+    });
+
+    it('should fall back to the config strategy', async () => {
+      const builder = new ContextBuilder({
+        db,
+        eventBus,
+        config: { ...testConfig, compactionStrategy: 'elide-tool-results', compactionKeepTurns: 1 },
+        provider: mockProvider,
+      });
+      const session = db.sessions.create({
+        createdAt: Date.now(),
+        lastActivity: Date.now(),
+        compactionCount: 0,
+        totalTokensUsed: 0,
+        queueMode: 'steer',
+        flags: {},
+      });
+
+      for (let i = 0; i < 4; i++) {
+        db.messages.create(session.id, {
+          parentUuid: null,
+          role: i % 2 === 0 ? 'user' : 'assistant',
+          content: `Message ${i}`,
+          createdAt: Date.now() + i,
+        });
+      }
+
+      const result = await builder.compact(session.id, 'Test prompt');
+
+      expect(result.summary).toBe('');
+      expect(mockProvider.getCallCount()).toBe(0);
+      expect(db.messages.list(session.id)).toHaveLength(4);
+    });
+
+    it('should summarize in full when keep-recent leaves the history at the limit', async () => {
+      const builder = new ContextBuilder({
+        db,
+        eventBus,
+        config: { ...testConfig, compactionStrategy: 'keep-recent' },
+        provider: mockProvider,
+      });
+      const session = db.sessions.create({
+        createdAt: Date.now(),
+        lastActivity: Date.now(),
+        compactionCount: 0,
+        totalTokensUsed: 0,
+        queueMode: 'steer',
+        flags: {},
+      });
+
+      // Fewer turns than compactionKeepTurns, so keep-recent has nothing to summarize
+      for (let i = 0; i < 4; i++) {
+        db.messages.create(session.id, {
+          parentUuid: null,
+          role: i % 2 === 0 ? 'user' : 'assistant',
+          content: `Message ${i}`,
+          createdAt: Date.now() + i,
+          tokenCount: 40000,
+        });
+      }
+
+      const result = await builder.compact(session.id, 'Test prompt', undefined, 20000);
+
+      expect(result.summary).toBe('Summary of conversation.');
+      expect(result.afterTokens).toBeLessThan(result.beforeTokens);
+      expect(db.messages.list(session.id)).toHaveLength(1);
+    });
   });
 
   describe('validateChain', () => {
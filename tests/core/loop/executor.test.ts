@@ -125,7 +125,7 @@ describe('ToolExecutor', () => {
       });
 
       expect(result.toolUseId).toBe('tool-1');
-      expect(result.content).toBe('Test content');
+      expect(result.content).toBe('     1\tTest content');
       expect(result.isError).toBeFalsy();
     });
 
@@ -203,8 +203,8 @@ describe('ToolExecutor', () => {
       const results = await executor.executeAll(toolUses);
 
       expect(results).toHaveLength(2);
-      expect(results.find(r => r.name === 'Read' && r.result === 'Content 1')).toBeDefined();
-      expect(results.find(r => r.name === 'Read' && r.result === 'Content 2')).toBeDefined();
+      expect(results.find(r => r.name === 'Read' && r.result === '     1\tContent 1')).toBeDefined();
+      expect(results.find(r => r.name === 'Read' && r.result === '     1\tContent 2')).toBeDefined();
     });
 
     it('should track duration for each tool', async () => {
@@ -312,6 +312,23 @@ describe('ToolExecutor', () => {
       expect(blocks[0]?.content).toContain('Error');
     });
 
+    it('should append media after all tool results', () => {
+      const image = { type: 'image' as const, source: { type: 'base64' as const, media_type: 'image/png', data: 'iVBORw==' } };
+      const records = [
+        { name: 'Read', input: {}, result: 'Read image', isError: false, durationMs: 5, media: [image] },
+        { name: 'Bash', input: {}, result: 'ok', isError: false, durationMs: 5 },
+      ];
+      const toolUses = [
+        { type: 'tool_use' as const, id: 'tool-1', name: 'Read', input: {} },
+        { type: 'tool_use' as const, id: 'tool-2', name: 'Bash', input: {} },
+      ];
+
+      const blocks = executor.toContentBlocks(records, toolUses);
+
+      expect(blocks.map(b => b.type)).toEqual(['tool_result', 'tool_result', 'image']);
+      expect(blocks[2]).toEqual(image);
+    });
+
     it('should handle missing record', () => {
       const records: any[] = [];
       const toolUses = [
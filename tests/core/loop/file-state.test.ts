@@ -0,0 +1,118 @@
+/**
+ * File State Tests
+ * Read-before-write and stale-file protection for Write/Edit, and pre-edit
+ * snapshots that can be restored
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync, existsSync, readFileSync, utimesSync } from 'fs';
+import {
+  executeReadFile,
+  executeWriteFile,
+  executeEdit,
+  clearFileState,
+  listFileSnapshots,
+  restoreFileSnapshot,
+  MAX_SNAPSHOTS_PER_SESSION,
+} from '../../../src/core/loop/tools';
+import type { ToolContext } from '../../../src/core/loop/types';
+
+describe('File state tracking', () => {
+  const testDir = join(import.meta.dir, 'test-file-state-temp');
+  const snapshotDir = join(testDir, 'snapshots');
+  const context: ToolContext = { sessionId: 'session-1', snapshotDir };
+  const target = join(testDir, 'target.txt');
+
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true });
+    writeFileSync(target, 'original\n');
+  });
+
+  afterEach(() => {
+    clearFileState();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should refuse to overwrite a file that was not read', async () => {
+    const write = await executeWriteFile('w1', { path: target, content: 'new' }, context);
+    const edit = await executeEdit('e1', { file_path: target, old_string: 'original', new_string: 'x' }, context);
+
+    expect(write.isError).toBe(true);
+    expect(write.content).toContain('has not been read in this session');
+    expect(edit.isError).toBe(true);
+    expect(readFileSync(target, 'utf-8')).toBe('original\n');
+  });
+
+  it('should allow creating new files and writing after a read', async () => {
+    const created = await executeWriteFile('w2', { path: join(testDir, 'new.txt'), content: 'x' }, context);
+    await executeReadFile('r1', { path: target }, context);
+    const write = await executeWriteFile('w3', { path: target, content: 'first' }, context);
+    const again = await executeWriteFile('w4', { path: target, content: 'second' }, context);
+
+    expect(created.isError).toBe(false);
+    expect(write.isError).toBe(false);
+    expect(again.isError).toBe(false);
+    expect(readFileSync(target, 'utf-8')).toBe('second');
+  });
+
+  it('should refuse to edit a file changed on disk since it was read', async () => {
+    await executeReadFile('r2', { path: target }, context);
+    writeFileSync(target, 'changed by someone else\n');
+
+    const edit = await executeEdit('e2', { file_path: target, old_string: 'someone', new_string: 'me' }, context);
+
+    expect(edit.isError).toBe(true);
+    expect(edit.content).toContain('has been modified since it was last read');
+    expect(readFileSync(target, 'utf-8')).toBe('changed by someone else\n');
+  });
+
+  it('should not treat a touched but unchanged file as stale', async () => {
+    await executeReadFile('r3', { path: target }, context);
+    const later = new Date(Date.now() + 60_000);
+    utimesSync(target, later, later);
+
+    const edit = await executeEdit('e3', { file_path: target, old_string: 'original', new_string: 'edited' }, context);
+
+    expect(edit.isError).toBe(false);
+  });
+
+  it('should track reads per session', async () => {
+    await executeReadFile('r4', { path: target }, context);
+
+    const other = await executeWriteFile('w5', { path: target, content: 'x' }, { sessionId: 'session-2' });
+
+    expect(other.content).toContain('has not been read in this session');
+  });
+
+  it('should snapshot the previous content so the change can be reverted', async () => {
+    const created = join(testDir, 'created.txt');
+    await executeReadFile('r5', { path: target }, context);
+    await executeEdit('e4', { file_path: target, old_string: 'original', new_string: 'edited' }, context);
+    await executeWriteFile('w6', { path: created, content: 'new file' }, context);
+
+    const snapshots = listFileSnapshots(snapshotDir);
+    expect(snapshots.map(s => [s.tool, s.toolUseId, s.existed])).toEqual([['Edit', 'e4', true], ['Write', 'w6', false]]);
+
+    restoreFileSnapshot(snapshotDir, snapshots[0]!.id);
+    restoreFileSnapshot(snapshotDir, snapshots[1]!.id);
+
+    expect(readFileSync(target, 'utf-8')).toBe('original\n');
+    expect(existsSync(created)).toBe(false);
+  });
+
+  it('should keep only the most recent snapshots', async () => {
+    await executeReadFile('r6', { path: target }, context);
+    for (let i = 0; i <= MAX_SNAPSHOTS_PER_SESSION; i++) {
+      await executeWriteFile(`w-${i}`, { path: target, content: `v${i}` }, context);
+    }
+
+    const snapshots = listFileSnapshots(snapshotDir);
+
+    expect(snapshots).toHaveLength(MAX_SNAPSHOTS_PER_SESSION);
+    expect(snapshots[0]!.toolUseId).toBe('w-1');
+    expect(existsSync(join(snapshotDir, snapshots[0]!.id))).toBe(true);
+  });
+});
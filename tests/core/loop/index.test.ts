@@ -18,6 +18,8 @@ import {
   defaultSystemPrompt,
 } from '../../../src/core/loop/index';
 import type { Config } from '../../../src/core/types';
+import type { StreamChunk } from '../../../src/core/loop/types';
+import { checkFileFreshness } from '../../../src/core/loop/tools';
 import { createReadyMockProvider, MockLLMProvider } from '../../mocks/mock-llm-provider';
 
 describe('AgenticLoop', () => {
@@ -142,6 +144,25 @@ describe('AgenticLoop', () => {
       // Calling interrupt should not throw
       expect(() => loop.interrupt()).not.toThrow();
     });
+
+    it('endSession should forget the files the session read', async () => {
+      const filePath = join(testDir, 'notes.txt');
+      writeFileSync(filePath, 'hello\n');
+      mockProvider.addToolUseResponse('Read', { path: filePath }, 'tool-1');
+      mockProvider.addTextResponse('Read it');
+      const loop = new AgenticLoop({
+        db,
+        eventBus,
+        config: testConfig,
+        provider: mockProvider,
+      });
+
+      const { sessionId } = await loop.run('Read the notes', { tools: BUILTIN_TOOLS });
+      expect(checkFileFreshness(sessionId, filePath)).toBeNull();
+
+      loop.endSession();
+      expect(checkFileFreshness(sessionId, filePath)).toContain('has not been read in this session');
+    });
   });
 
   describe('Global Loop Instance', () => {
@@ -271,5 +292,166 @@ describe('AgenticLoop', () => {
       expect(lastCall).toBeDefined();
       expect(lastCall?.model).toBe('mock-model');
     });
+
+    it('should accumulate cache tokens across iterations', async () => {
+      mockProvider.addResponse({
+        content: [{ type: 'tool_use', id: 'tool-1', name: 'Glob', input: { pattern: '*.none' } }],
+        stopReason: 'tool_use',
+        usage: { inputTokens: 10, outputTokens: 5, cacheWriteTokens: 500 },
+      });
+      mockProvider.addResponse({
+        content: [{ type: 'text', text: 'Done' }],
+        usage: { inputTokens: 20, outputTokens: 5, cacheReadTokens: 500, cacheWriteTokens: 30 },
+      });
+
+      const loop = new AgenticLoop({
+        db,
+        eventBus,
+        config: testConfig,
+        provider: mockProvider,
+      });
+
+      const result = await loop.run('Find files', { tools: BUILTIN_TOOLS });
+
+      expect(result.tokensUsed).toEqual({ input: 30, output: 10, cacheRead: 500, cacheWrite: 530 });
+    });
+
+    it('should store token counts for user messages and tool results', async () => {
+      mockProvider.addToolUseResponse('Glob', { pattern: '*.none' }, 'tool-1');
+      mockProvider.addTextResponse('Done');
+
+      const loop = new AgenticLoop({ db, eventBus, config: testConfig, provider: mockProvider });
+      const result = await loop.run('Find files', { tools: BUILTIN_TOOLS });
+
+      const messages = db.messages.list(result.sessionId);
+      expect(messages.length).toBe(4);
+      for (const msg of messages) {
+        expect(msg.tokenCount).toBeGreaterThan(0);
+      }
+    });
+
+    it('should include prompt and tool overhead in the compaction check', async () => {
+      const config = { ...testConfig, effectiveContextWindow: 4000, compactionThreshold: 0.5 };
+      const session = db.sessions.create({
+        createdAt: Date.now(), lastActivity: Date.now(), compactionCount: 0,
+        totalTokensUsed: 0, queueMode: 'steer', flags: {},
+      });
+      for (let i = 0; i < 4; i++) {
+        db.messages.create(session.id, {
+          parentUuid: null,
+          role: i % 2 === 0 ? 'user' : 'assistant',
+          content: 'x'.repeat(2000),
+          createdAt: Date.now() + i,
+          tokenCount: 500,
+        });
+      }
+      mockProvider.addTextResponse('Summary');
+      mockProvider.addTextResponse('Done');
+
+      const loop = new AgenticLoop({ db, eventBus, config, provider: mockProvider });
+      await loop.run('Continue', { sessionId: session.id, tools: BUILTIN_TOOLS });
+
+      expect(db.sessions.get(session.id)?.compactionCount).toBe(1);
+      expect(db.messages.listArchived(session.id)).toHaveLength(4);
+    });
+
+    it('should summarize in full when the strategy cannot shrink the history', async () => {
+      const config = {
+        ...testConfig, effectiveContextWindow: 4000, compactionStrategy: 'elide-tool-results',
+      };
+      const session = db.sessions.create({
+        createdAt: Date.now(), lastActivity: Date.now(), compactionCount: 0,
+        totalTokensUsed: 0, queueMode: 'steer', flags: {},
+      });
+      for (let i = 0; i < 4; i++) {
+        db.messages.create(session.id, {
+          parentUuid: null,
+          role: i % 2 === 0 ? 'user' : 'assistant',
+          content: `Message ${i}`,
+          createdAt: Date.now() + i,
+          tokenCount: 1000,
+        });
+      }
+      mockProvider.addTextResponse('Summary');
+      mockProvider.addTextResponse('Done');
+
+      const loop = new AgenticLoop({ db, eventBus, config, provider: mockProvider });
+      const result = await loop.run('Continue', { sessionId: session.id, tools: [] });
+
+      expect(result.stopReason).toBe('end_turn');
+      expect(result.response).toBe('Done');
+      const live = db.messages.list(session.id);
+      expect(live[0]?.content).toBe('[Previous conversation summary]\n\nSummary');
+    });
+
+    it('should stop instead of compacting forever when the context cannot shrink', async () => {
+      const config = { ...testConfig, effectiveContextWindow: 4000, turnTimeoutMs: 60_000 };
+      mockProvider.addTextResponse('never sent');
+
+      const loop = new AgenticLoop({ db, eventBus, config, provider: mockProvider });
+      const result = await loop.run('y'.repeat(40_000), { tools: [] });
+
+      expect(result.stopReason).toBe('context_overflow');
+      expect(result.response).toContain('Context limit reached');
+      expect(mockProvider.getCallCount()).toBe(0);
+      expect(db.messages.listArchived(result.sessionId)).toHaveLength(0);
+    });
+
+    it('should persist the thinking level and replay signed thinking blocks', async () => {
+      mockProvider.addResponse({
+        content: [
+          { type: 'thinking', text: 'Look for files first', signature: 'sig-1' },
+          { type: 'tool_use', id: 'tool-1', name: 'Glob', input: { pattern: '*.none' } },
+        ],
+        stopReason: 'tool_use',
+      });
+      mockProvider.addTextResponse('Done');
+
+      const loop = new AgenticLoop({ db, eventBus, config: testConfig, provider: mockProvider });
+      const result = await loop.run('Find files', { tools: BUILTIN_TOOLS, thinkingLevel: 'medium' });
+
+      expect(db.sessions.get(result.sessionId)?.thinkingLevel).toBe('medium');
+      const lastCall = mockProvider.getLastCall();
+      expect(lastCall?.thinking).toEqual({ budgetTokens: 12000 });
+      const assistant = lastCall?.messages.find(m => m.role === 'assistant');
+      expect(assistant?.content).toContainEqual({
+        type: 'thinking', thinking: 'Look for files first', signature: 'sig-1',
+      });
+    });
+
+    it('should strip thinking blocks when thinking is off', async () => {
+      mockProvider.addResponse({
+        content: [
+          { type: 'thinking', text: 'Plan', signature: 'sig-1' },
+          { type: 'tool_use', id: 'tool-1', name: 'Glob', input: { pattern: '*.none' } },
+        ],
+        stopReason: 'tool_use',
+      });
+      mockProvider.addTextResponse('Done');
+
+      const loop = new AgenticLoop({ db, eventBus, config: testConfig, provider: mockProvider });
+      await loop.run('Find files', { tools: BUILTIN_TOOLS });
+
+      const lastCall = mockProvider.getLastCall();
+      expect(lastCall?.thinking).toBeUndefined();
+      const assistant = lastCall?.messages.find(m => m.role === 'assistant');
+      expect((assistant?.content as Array<{ type: string }>).map(b => b.type)).toEqual(['tool_use']);
+    });
+
+    it('should stream tool input and Bash progress before the tool result', async () => {
+      mockProvider.addToolUseResponse('Bash', { command: 'echo building' }, 'tool-1');
+      mockProvider.addTextResponse('Done');
+      const chunks: StreamChunk[] = [];
+
+      const loop = new AgenticLoop({ db, eventBus, config: testConfig, provider: mockProvider });
+      const result = await loop.run('Build it', { tools: BUILTIN_TOOLS, onStream: c => chunks.push(c) });
+
+      const types = chunks.map(c => c.type).filter(t => t.startsWith('tool_'));
+      expect(types.indexOf('tool_input')).toBeLessThan(types.indexOf('tool_start'));
+      expect(types.indexOf('tool_progress')).toBeLessThan(types.indexOf('tool_result'));
+      expect(chunks).toContainEqual({ type: 'tool_input', toolUseId: 'tool-1', input: '{"command":"echo building"}' });
+      expect(chunks).toContainEqual({ type: 'tool_progress', toolUseId: 'tool-1', content: 'building\n' });
+      expect(result.toolCalls[0]?.result).toStartWith('building\n');
+    });
   });
 });
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync, existsSync, readFileSync } from 'fs';
+import { multiEditTool, executeMultiEdit } from '../../../src/core/loop/tools/multi-edit';
+
+describe('MultiEdit Tool', () => {
+  const testDir = join(import.meta.dir, 'test-multi-edit-temp');
+
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should be marked as not concurrency safe', () => {
+    expect(multiEditTool.isConcurrencySafe).toBe(false);
+    expect(multiEditTool.inputSchema.required).toEqual(['file_path', 'edits']);
+  });
+
+  it('should apply edits in order, each seeing the previous result', async () => {
+    const filePath = join(testDir, 'ordered.ts');
+    writeFileSync(filePath, 'const a = 1;\nconst b = a + a;\n');
+
+    const res = await executeMultiEdit('me-1', {
+      file_path: filePath,
+      edits: [
+        { old_string: 'const a = 1;', new_string: 'const value = 1;' },
+        { old_string: 'a + a', new_string: 'value + value' },
+        { old_string: 'value', new_string: 'total', replace_all: true },
+      ],
+    });
+
+    expect(res.isError).toBe(false);
+    expect(res.content).toContain('3 edits (5 replacements)');
+    expect(readFileSync(filePath, 'utf-8')).toBe('const total = 1;\nconst b = total + total;\n');
+  });
+
+  it('should leave the file unchanged when any edit fails', async () => {
+    const filePath = join(testDir, 'atomic.txt');
+    writeFileSync(filePath, 'one two three');
+
+    const res = await executeMultiEdit('me-2', {
+      file_path: filePath,
+      edits: [
+        { old_string: 'one', new_string: '1' },
+        { old_string: 'missing', new_string: 'x' },
+      ],
+    });
+
+    expect(res.isError).toBe(true);
+    expect(res.content).toContain('edit 2 of 2: old_string not found in file');
+    expect(readFileSync(filePath, 'utf-8')).toBe('one two three');
+  });
+
+  it('should reject non-unique matches without replace_all', async () => {
+    const filePath = join(testDir, 'dupe.txt');
+    writeFileSync(filePath, 'x x');
+
+    const res = await executeMultiEdit('me-3', { file_path: filePath, edits: [{ old_string: 'x', new_string: 'y' }] });
+
+    expect(res.isError).toBe(true);
+    expect(res.content).toContain('not unique, found 2 occurrences');
+  });
+
+  it('should validate the edits array', async () => {
+    const filePath = join(testDir, 'valid.txt');
+    writeFileSync(filePath, 'x');
+
+    const empty = await executeMultiEdit('me-4', { file_path: filePath, edits: [] });
+    const missing = await executeMultiEdit('me-5', { file_path: filePath, edits: [{ old_string: 'x' }] });
+
+    expect(empty.content).toContain('edits must be a non-empty array');
+    expect(missing.content).toContain('edit 1: old_string and new_string are required');
+  });
+
+  it('should insert replacement text literally', async () => {
+    const filePath = join(testDir, 'dollar.txt');
+    writeFileSync(filePath, 'price');
+
+    await executeMultiEdit('me-6', { file_path: filePath, edits: [{ old_string: 'price', new_string: "$& costs $'" }] });
+
+    expect(readFileSync(filePath, 'utf-8')).toBe("$& costs $'");
+  });
+});
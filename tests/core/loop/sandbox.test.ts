@@ -0,0 +1,245 @@
+/**
+ * Tool Sandbox Tests
+ * Write roots, denied paths, env scrubbing and Bash isolation
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { join } from 'path';
+import { homedir } from 'os';
+import { spawnSync } from 'child_process';
+import { existsSync, mkdirSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import {
+  resolveSandboxPolicy,
+  checkPathAccess,
+  sandboxEnv,
+  buildSandboxedCommand,
+  executeBash,
+  executeWriteFile,
+  executeEdit,
+  executeReadFile,
+  executeGrep,
+  executeGlob,
+} from '../../../src/core/loop/tools';
+import type { ToolContext } from '../../../src/core/loop/types';
+import { getLogger } from '../../../src/infra/logger';
+
+/** Drop the STDERR section so shell startup noise does not affect assertions */
+const stdoutOf = (content: string): string => content.split('\nSTDERR:')[0]!.trim();
+
+const canUnshareNet = spawnSync('unshare', ['--user', '--map-root-user', '--net', 'true']).status === 0;
+
+describe('Tool Sandbox', () => {
+  const testDir = join(import.meta.dir, 'test-sandbox');
+  const workDir = join(testDir, 'work');
+  const outsideDir = join(testDir, 'outside');
+  const secretDir = join(testDir, 'secrets');
+
+  const policy = () => resolveSandboxPolicy(
+    { enabled: true, writeRoots: [workDir], denyPaths: [secretDir, '**/*.pem'] },
+  )!;
+  const context = (): ToolContext => ({ sessionId: 's', sandbox: policy() });
+
+  beforeEach(() => {
+    mkdirSync(workDir, { recursive: true });
+    mkdirSync(outsideDir, { recursive: true });
+    mkdirSync(secretDir, { recursive: true });
+    writeFileSync(join(secretDir, 'token'), 'hunter2');
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('resolveSandboxPolicy', () => {
+    it('should return undefined when the policy is disabled', () => {
+      expect(resolveSandboxPolicy()).toBeUndefined();
+      expect(resolveSandboxPolicy({ enabled: false, network: false })).toBeUndefined();
+    });
+
+    it('should let agent overrides enable and replace config fields', () => {
+      const resolved = resolveSandboxPolicy({ writeRoots: ['/a'] }, { enabled: true, network: false }, '/work');
+
+      expect(resolved?.network).toBe(false);
+      expect(resolved?.writeRoots).toEqual(['/a']);
+    });
+
+    it('should expand ~ and relative paths', () => {
+      const resolved = resolveSandboxPolicy({ enabled: true }, undefined, workDir)!;
+
+      expect(resolved.writeRoots).toEqual([workDir]);
+      expect(resolved.denyPaths).toContain(join(homedir(), '.daemux', 'credentials'));
+    });
+  });
+
+  describe('checkPathAccess', () => {
+    it('should allow writes inside a write root', () => {
+      expect(checkPathAccess(policy(), join(workDir, 'a', 'b.txt'), 'write')).toBeNull();
+    });
+
+    it('should reject writes outside the write roots but allow reads', () => {
+      const target = join(outsideDir, 'x.txt');
+
+      expect(checkPathAccess(policy(), target, 'write')?.rule).toBe('outside_write_roots');
+      expect(checkPathAccess(policy(), target, 'read')).toBeNull();
+    });
+
+    it('should deny paths below a denied directory and glob matches', () => {
+      expect(checkPathAccess(policy(), join(secretDir, 'token'), 'read')?.rule).toBe('denied_path');
+      expect(checkPathAccess(policy(), join(workDir, 'certs', 'key.pem'), 'write')?.rule).toBe('denied_path');
+    });
+
+    it('should follow symlinks that point out of a write root', () => {
+      symlinkSync(outsideDir, join(workDir, 'link'));
+
+      expect(checkPathAccess(policy(), join(workDir, 'link', 'x.txt'), 'write')?.rule).toBe('outside_write_roots');
+    });
+  });
+
+  describe('file tools', () => {
+    it('should return a structured error and not write outside the roots', async () => {
+      const target = join(outsideDir, 'x.txt');
+      const res = await executeWriteFile('w1', { path: target, content: 'x' }, context());
+
+      expect(res.isError).toBe(true);
+      expect(res.content).toContain('Sandbox violation');
+      const details = JSON.parse(res.content.split('\n')[1]!);
+      expect(details).toEqual({ error: 'sandbox_violation', tool: 'Write', rule: 'outside_write_roots', path: target });
+      expect(existsSync(target)).toBe(false);
+    });
+
+    it('should write inside the roots', async () => {
+      const res = await executeWriteFile('w2', { path: join(workDir, 'ok.txt'), content: 'x' }, context());
+
+      expect(res.isError).toBe(false);
+    });
+
+    it('should refuse to edit or read denied files', async () => {
+      const token = join(secretDir, 'token');
+      const edit = await executeEdit('e1', { file_path: token, old_string: 'hunter2', new_string: 'x' }, context());
+      const read = await executeReadFile('r1', { path: token }, context());
+
+      expect(edit.content).toContain('"rule":"denied_path"');
+      expect(read.content).toContain('"rule":"denied_path"');
+    });
+
+    it('should leave denied files out of Grep and Glob results', async () => {
+      writeFileSync(join(testDir, 'notes.txt'), 'hunter2');
+      const grep = await executeGrep('g1', { pattern: 'hunter2', path: testDir }, context());
+      const glob = await executeGlob('gl1', { pattern: '**/*', path: testDir }, context());
+
+      expect(grep.content).toBe('notes.txt');
+      expect(glob.content).toContain('notes.txt');
+      expect(glob.content).not.toContain('token');
+    });
+
+    it('should refuse Grep and Glob inside a denied directory', async () => {
+      const grep = await executeGrep('g2', { pattern: 'hunter2', path: secretDir }, context());
+      const glob = await executeGlob('gl2', { pattern: '*', path: secretDir }, context());
+
+      expect(grep.content).toContain('"tool":"Grep","rule":"denied_path"');
+      expect(glob.content).toContain('"tool":"Glob","rule":"denied_path"');
+    });
+  });
+
+  describe('sandboxEnv', () => {
+    it('should keep only allowlisted variables', () => {
+      const env = sandboxEnv(
+        { ...policy(), envAllowlist: ['PATH', 'LC_*'] },
+        { PATH: '/bin', LC_ALL: 'C', ANTHROPIC_API_KEY: 'sk-secret' },
+      );
+
+      expect(env).toEqual({ PATH: '/bin', LC_ALL: 'C' });
+    });
+  });
+
+  describe('buildSandboxedCommand', () => {
+    it('should bind write roots and hide denied paths under bubblewrap', () => {
+      const { argv } = buildSandboxedCommand(
+        { ...policy(), network: false }, 'ls', workDir, { bwrap: true, unshare: true },
+      );
+
+      expect(argv?.[0]).toBe('bwrap');
+      expect(argv?.join(' ')).toContain(`--bind ${workDir} ${workDir}`);
+      expect(argv?.join(' ')).toContain(`--tmpfs ${secretDir}`);
+      expect(argv).toContain('--unshare-net');
+      expect(argv?.slice(-3)).toEqual(['bash', '-c', 'ls']);
+    });
+
+    it('should fall back to unshare for network isolation', () => {
+      const { argv } = buildSandboxedCommand(
+        { ...policy(), network: false }, 'ls', workDir, { bwrap: false, unshare: true },
+      );
+
+      expect(argv?.slice(0, 5)).toEqual(['unshare', '--user', '--map-root-user', '--net', '--']);
+    });
+
+    it('should refuse a no-network policy when no isolation tool exists', () => {
+      const { violation } = buildSandboxedCommand(
+        { ...policy(), network: false }, 'ls', workDir, { bwrap: false, unshare: false },
+      );
+
+      expect(violation?.rule).toBe('network_isolation_unavailable');
+    });
+
+    it('should warn once that Bash is not confined without bubblewrap', () => {
+      const warn = spyOn(getLogger(), 'warn').mockImplementation(() => {});
+      try {
+        const sandbox = policy();
+        buildSandboxedCommand(sandbox, 'ls', workDir, { bwrap: false, unshare: false });
+        buildSandboxedCommand(sandbox, 'ls', workDir, { bwrap: false, unshare: false });
+        buildSandboxedCommand(policy(), 'ls', workDir, { bwrap: true, unshare: false });
+
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(String(warn.mock.calls[0]![0])).toContain('can write outside the write roots and read denied paths');
+      } finally {
+        warn.mockRestore();
+      }
+    });
+
+    it('should refuse commands that name a denied path', () => {
+      const { violation } = buildSandboxedCommand(
+        policy(), `cat ${secretDir}/token`, workDir, { bwrap: false, unshare: false },
+      );
+
+      expect(violation?.rule).toBe('denied_path');
+    });
+
+    it('should refuse commands that name a denied path under $HOME', () => {
+      const sandbox = resolveSandboxPolicy({ enabled: true, denyPaths: ['~/.ssh'] })!;
+      const build = (command: string) => buildSandboxedCommand(sandbox, command, workDir, { bwrap: false, unshare: true });
+
+      expect(build('cat $HOME/.ssh/id_rsa').violation?.rule).toBe('denied_path');
+      expect(build('cat ${HOME}/.ssh/id_rsa').violation?.rule).toBe('denied_path');
+      expect(build('cat ~/.ssh/id_rsa').violation?.rule).toBe('denied_path');
+    });
+  });
+
+  describe('executeBash', () => {
+    it('should scrub variables outside the allowlist', async () => {
+      process.env.SANDBOX_TEST_SECRET = 'leaked';
+      try {
+        const res = await executeBash('b1', { command: 'echo "[$SANDBOX_TEST_SECRET]"', cwd: workDir }, context());
+        expect(stdoutOf(res.content)).toBe('[]');
+      } finally {
+        delete process.env.SANDBOX_TEST_SECRET;
+      }
+    });
+
+    it('should return a structured error for a denied cwd', async () => {
+      const res = await executeBash('b2', { command: 'ls', cwd: secretDir }, context());
+
+      expect(res.isError).toBe(true);
+      expect(res.content).toContain('"tool":"Bash"');
+    });
+
+    it.skipIf(!canUnshareNet)('should run without network interfaces when network is disabled', async () => {
+      const sandbox = { ...policy(), network: false };
+      const res = await executeBash('b3', { command: 'cat /proc/self/net/dev', cwd: workDir }, { sessionId: 's', sandbox });
+      const interfaces = stdoutOf(res.content).split('\n').filter(l => l.includes(':')).map(l => l.split(':')[0]!.trim());
+
+      expect(interfaces).toEqual(['lo']);
+    });
+  });
+});
@@ -166,5 +166,21 @@ describe('SpawnAgent Tool', () => {
       expect(capturedOpts.timeout).toBe(60000);
       expect(capturedOpts.tools).toEqual(['Read', 'Bash']);
     });
+
+    it('should pass the spawning run\'s task and swarm ids to the subagent', async () => {
+      let capturedOpts: Record<string, unknown> = {};
+      const { execute: exec } = createSpawnAgentTool({
+        ...deps,
+        taskId: 'task-1',
+        swarmId: 'swarm-1',
+        spawnSubagent: async (_name: string, _task: string, opts?: unknown) => {
+          capturedOpts = opts as Record<string, unknown>;
+          return makeRecord();
+        },
+      });
+
+      await exec('tu-5', { agent_name: 'test-agent', task: 'Do it' });
+      expect(capturedOpts).toMatchObject({ taskId: 'task-1', swarmId: 'swarm-1' });
+    });
   });
 });
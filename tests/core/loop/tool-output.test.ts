@@ -0,0 +1,101 @@
+/**
+ * Tool Output Budget Tests
+ * Spilling oversized output to the session data dir with a paged preview
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { join } from 'path';
+import { existsSync, mkdirSync, readFileSync, rmSync } from 'fs';
+import {
+  limitToolOutput,
+  toolOutputDir,
+  MAX_TOOL_OUTPUT_CHARS,
+  executeBash,
+  executeReadFile,
+} from '../../../src/core/loop/tools';
+import { ToolExecutor } from '../../../src/core/loop/executor';
+import { EventBus } from '../../../src/core/event-bus';
+
+const bigOutput = Array.from({ length: 5000 }, (_, i) => `row ${i} ${'z'.repeat(20)}`).join('\n');
+
+describe('Tool Output Budget', () => {
+  const testDir = join(import.meta.dir, 'test-tool-output');
+  const spillDir = join(testDir, 'spill');
+
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  describe('limitToolOutput', () => {
+    it('should pass small output through unchanged', () => {
+      expect(limitToolOutput('t1', 'small', { sessionId: 's', spillDir })).toBe('small');
+    });
+
+    it('should truncate when no spill directory is available', () => {
+      const out = limitToolOutput('t1', bigOutput);
+
+      expect(out).toContain(`output truncated at ${MAX_TOOL_OUTPUT_CHARS} characters`);
+      expect(existsSync(spillDir)).toBe(false);
+    });
+
+    it('should spill to a file and return a head/tail preview', () => {
+      const out = limitToolOutput('toolu_01', bigOutput, { sessionId: 's', spillDir });
+      const spillFile = join(spillDir, 'toolu_01.txt');
+
+      expect(readFileSync(spillFile, 'utf-8')).toBe(bigOutput);
+      expect(out.length).toBeLessThan(MAX_TOOL_OUTPUT_CHARS);
+      expect(out.startsWith('row 0 ')).toBe(true);
+      expect(out.endsWith('row 4999 ' + 'z'.repeat(20))).toBe(true);
+      expect(out).toContain(spillFile);
+      expect(out).toContain('5000 lines');
+    });
+
+    it('should produce an offset that continues after the preview head', async () => {
+      const out = limitToolOutput('toolu_02', bigOutput, { sessionId: 's', spillDir });
+      const offset = Number(out.match(/offset=(\d+)/)?.[1]);
+      const lastHeadLine = out.split('\n\n')[0]!.split('\n').pop()!;
+
+      const page = await executeReadFile('read-1', {
+        path: join(spillDir, 'toolu_02.txt'), offset, limit: 1,
+      });
+
+      expect(Number(lastHeadLine.split(' ')[1]) + 2).toBe(offset);
+      expect(page.content).toContain(`row ${offset - 1} `);
+    });
+  });
+
+  describe('toolOutputDir', () => {
+    it('should place spill files under the session directory', () => {
+      expect(toolOutputDir('/data', 'abc')).toBe(join('/data', 'sessions', 'abc', 'tool-output'));
+    });
+  });
+
+  describe('builtin tools', () => {
+    it('should spill large Bash output', async () => {
+      const res = await executeBash('bash-big', { command: 'seq 1 20000' }, { sessionId: 's', spillDir });
+
+      expect(res.isError).toBeFalsy();
+      expect(res.content).toContain('Full output (20000 lines');
+      expect(readFileSync(join(spillDir, 'bash-big.txt'), 'utf-8').split('\n')[19999]).toBe('20000');
+    });
+
+    it('should receive the tool context from the ToolExecutor', async () => {
+      const executor = new ToolExecutor({
+        eventBus: new EventBus(),
+        context: { sessionId: 's', spillDir },
+      });
+
+      const res = await executor.execute({
+        type: 'tool_use', id: 'exec-big', name: 'Bash', input: { command: 'seq 1 20000' },
+      });
+
+      expect(res.content).toContain(join(spillDir, 'exec-big.txt'));
+    });
+  });
+});
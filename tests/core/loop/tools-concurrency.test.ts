@@ -41,8 +41,8 @@ describe('Tool Concurrency Safety', () => {
       const results = await executor.executeAll(toolUses);
 
       expect(results).toHaveLength(2);
-      expect(results[0]!.result).toBe('Content A');
-      expect(results[1]!.result).toBe('Content B');
+      expect(results[0]!.result).toBe('     1\tContent A');
+      expect(results[1]!.result).toBe('     1\tContent B');
       expect(results[0]!.isError).toBe(false);
       expect(results[1]!.isError).toBe(false);
     });
@@ -176,6 +176,36 @@ describe('Tool Concurrency Safety', () => {
     });
   });
 
+  describe('ApplyPatch serializes with edits to any file in its patch', () => {
+    it('should run an Edit after an earlier ApplyPatch touching the same file', async () => {
+      const executor = new ToolExecutor({ eventBus });
+      const fileA = join(testDir, 'patch-a.txt');
+      const fileB = join(testDir, 'patch-b.txt');
+      const executionOrder: string[] = [];
+
+      const track = (delay: number) => async (id: string): Promise<ToolResult> => {
+        executionOrder.push(`${id}:start`);
+        await new Promise(r => setTimeout(r, delay));
+        executionOrder.push(`${id}:end`);
+        return { toolUseId: id, content: id, isError: false };
+      };
+      executor.registerExecutor('ApplyPatch', track(30));
+      executor.registerExecutor('Edit', track(0));
+
+      const patch = [
+        `--- ${fileA}`, `+++ ${fileA}`, '@@ -1 +1 @@', '-a', '+A',
+        `--- ${fileB}`, `+++ ${fileB}`, '@@ -1 +1 @@', '-b', '+B',
+      ].join('\n');
+
+      await executor.executeAll([
+        { type: 'tool_use' as const, id: 'patch', name: 'ApplyPatch', input: { patch } },
+        { type: 'tool_use' as const, id: 'edit', name: 'Edit', input: { file_path: fileB, old_string: 'x', new_string: 'y' } },
+      ]);
+
+      expect(executionOrder).toEqual(['patch:start', 'patch:end', 'edit:start', 'edit:end']);
+    });
+  });
+
   describe('Unsafe tools targeting different files run in parallel', () => {
     it('should run Edit operations on different files in parallel', async () => {
       const executor = new ToolExecutor({ eventBus });
@@ -243,7 +273,7 @@ describe('Tool Concurrency Safety', () => {
       expect(results).toHaveLength(3);
       // Results should be in the same order as input
       expect(results[0]!.name).toBe('Read');
-      expect(results[0]!.result).toBe('read-me');
+      expect(results[0]!.result).toBe('     1\tread-me');
       expect(results[1]!.name).toBe('Edit');
       expect(results[1]!.isError).toBe(false);
       expect(results[2]!.name).toBe('Bash');
@@ -291,7 +321,7 @@ describe('Tool Concurrency Safety', () => {
       ]);
 
       expect(results).toHaveLength(1);
-      expect(results[0]!.result).toBe('solo');
+      expect(results[0]!.result).toBe('     1\tsolo');
     });
 
     it('should handle single unsafe tool', async () => {
@@ -399,7 +429,7 @@ describe('Tool Whitelisting', () => {
       expect(results).toHaveLength(3);
       // Read should succeed
       expect(results[0]!.isError).toBe(false);
-      expect(results[0]!.result).toBe('readable');
+      expect(results[0]!.result).toBe('     1\treadable');
       // Bash should be blocked
       expect(results[1]!.isError).toBe(true);
       expect(results[1]!.result).toContain('not allowed');
@@ -447,7 +477,7 @@ describe('Tool Whitelisting', () => {
       });
 
       expect(result.isError).toBeFalsy();
-      expect(result.content).toBe('default content');
+      expect(result.content).toBe('     1\tdefault content');
     });
   });
 
@@ -16,6 +16,7 @@ import {
   BUILTIN_TOOLS,
   getToolExecutor,
   registerToolExecutor,
+  MAX_TOOL_OUTPUT_CHARS,
 } from '../../../src/core/loop/tools';
 
 describe('Built-in Tools', () => {
@@ -33,7 +34,7 @@ describe('Built-in Tools', () => {
 
   describe('Tool Definitions', () => {
     it('should export correct tool definitions', () => {
-      expect(BUILTIN_TOOLS).toHaveLength(6);
+      expect(BUILTIN_TOOLS).toHaveLength(14);
       expect(BUILTIN_TOOLS.map(t => t.name)).toContain('Read');
       expect(BUILTIN_TOOLS.map(t => t.name)).toContain('Write');
       expect(BUILTIN_TOOLS.map(t => t.name)).toContain('Bash');
@@ -73,7 +74,7 @@ describe('Built-in Tools', () => {
       const result = await executeReadFile('tool-1', { path: filePath });
 
       expect(result.toolUseId).toBe('tool-1');
-      expect(result.content).toBe('Hello, World!');
+      expect(result.content).toBe('     1\tHello, World!');
       expect(result.isError).toBeFalsy();
     });
 
@@ -83,7 +84,7 @@ describe('Built-in Tools', () => {
 
       const result = await executeReadFile('tool-2', { path: filePath, encoding: 'utf-8' });
 
-      expect(result.content).toBe('Content with encoding');
+      expect(result.content).toBe('     1\tContent with encoding');
       expect(result.isError).toBeFalsy();
     });
 
@@ -108,7 +109,7 @@ describe('Built-in Tools', () => {
       const result = await executeReadFile('tool-5', { path: join(testDir, 'relative-test.txt') });
 
       expect(result.isError).toBeFalsy();
-      expect(result.content).toBe('Relative content');
+      expect(result.content).toBe('     1\tRelative content');
     });
 
     it('should read large files', async () => {
@@ -119,7 +120,65 @@ describe('Built-in Tools', () => {
       const result = await executeReadFile('tool-6', { path: filePath });
 
       expect(result.isError).toBeFalsy();
-      expect(result.content).toHaveLength(100000);
+      expect(result.content).toContain('[line truncated]');
+      expect(result.content.length).toBeLessThan(largeContent.length);
+    });
+
+    it('should number lines and honor offset and limit', async () => {
+      const filePath = join(testDir, 'lines.txt');
+      writeFileSync(filePath, ['one', 'two', 'three', 'four', 'five'].join('\n') + '\n');
+
+      const result = await executeReadFile('tool-8', { path: filePath, offset: 2, limit: 2 });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.content).toBe(
+        '     2\ttwo\n     3\tthree\n\n[Showing lines 2-3 of 5. Use offset=4 to read more.]',
+      );
+    });
+
+    it('should stop at the output budget and point at the next offset', async () => {
+      const filePath = join(testDir, 'many-lines.txt');
+      writeFileSync(filePath, Array.from({ length: 1500 }, (_, i) => `line ${i} ${'y'.repeat(60)}`).join('\n'));
+
+      const result = await executeReadFile('tool-9', { path: filePath });
+
+      expect(result.content.length).toBeLessThanOrEqual(MAX_TOOL_OUTPUT_CHARS + 100);
+      expect(result.content).toMatch(/\[Showing lines 1-\d+ of 1500\. Use offset=\d+ to read more\.\]$/);
+    });
+
+    it('should reject invalid offset and limit', async () => {
+      const filePath = join(testDir, 'bad-range.txt');
+      writeFileSync(filePath, 'content');
+
+      const result = await executeReadFile('tool-10', { path: filePath, offset: 0 });
+
+      expect(result.isError).toBe(true);
+      expect(result.content).toContain('positive integers');
+    });
+
+    it('should attach images as content blocks when the model supports vision', async () => {
+      const filePath = join(testDir, 'pixel.png');
+      writeFileSync(filePath, Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+
+      const result = await executeReadFile('tool-11', { path: filePath }, { sessionId: 'media-session', vision: true });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.content).toContain('attached below');
+      expect(result.media).toEqual([{
+        type: 'image',
+        source: { type: 'base64', media_type: 'image/png', data: Buffer.from([0x89, 0x50, 0x4e, 0x47]).toString('base64') },
+      }]);
+    });
+
+    it('should refuse images and PDFs when the model cannot view them', async () => {
+      const filePath = join(testDir, 'report.pdf');
+      writeFileSync(filePath, '%PDF-1.4');
+
+      const result = await executeReadFile('tool-12', { path: filePath }, { sessionId: 'media-session' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content).toContain('is a PDF and the current model cannot view it');
+      expect(result.media).toBeUndefined();
     });
 
     it('should read file with special characters', async () => {
@@ -295,6 +354,17 @@ describe('Built-in Tools', () => {
       expect(result.isError).toBeFalsy();
       expect(result.content.trim()).toBe('3');
     });
+
+    it('should report output through onProgress before the result', async () => {
+      const progress: string[] = [];
+      const result = await executeBash('tool-11', { command: 'echo one; sleep 0.1; echo two' }, {
+        sessionId: 's', onProgress: (id, output) => progress.push(`${id}:${output}`),
+      });
+
+      expect(progress.join('')).toContain('tool-11:one\n');
+      expect(progress.join('')).toContain('tool-11:two\n');
+      expect(result.content.split('\nSTDERR:')[0]).toBe('one\ntwo\n');
+    });
   });
 
   describe('Tool Registry', () => {
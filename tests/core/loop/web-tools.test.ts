@@ -0,0 +1,227 @@
+/**
+ * Web Tool Tests
+ * WebFetch against a local HTTP stand-in, HTML conversion, domain policy,
+ * the private address guard, per-session caching and plugin-provided
+ * WebSearch backends
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'bun:test';
+import type { Server } from 'bun';
+import {
+  executeWebFetch,
+  executeWebSearch,
+  htmlToMarkdown,
+  checkAddress,
+  checkDomain,
+  clearWebCache,
+  clearWebSearchProvider,
+} from '../../../src/core/loop/tools';
+import { createPluginAPI, type PluginAPIContext } from '../../../src/core/plugin-api';
+import type { WebSearchProvider } from '../../../src/core/plugin-api-types';
+import type { ToolContext } from '../../../src/core/loop/types';
+
+const PAGE = `<!doctype html><html><head><title>Test &amp; Page</title><style>body{}</style></head>
+<body><nav>menu</nav><h1>Hello</h1><p>Some <strong>bold</strong> text and a <a href="/docs">link</a>.</p>
+<script>alert(1)</script><ul><li>one</li><li>two</li></ul><pre>const x = 1;
+  indented</pre></body></html>`;
+
+/** The stand-in server listens on loopback, which WebFetch refuses by default */
+const local = (sessionId = 's1', web: ToolContext['web'] = {}): ToolContext =>
+  ({ sessionId, web: { allowPrivateNetwork: true, ...web } });
+
+describe('Web tools', () => {
+  let server: Server;
+  let hits: Record<string, number>;
+  let base: string;
+
+  beforeAll(() => {
+    hits = {};
+    server = Bun.serve({
+      port: 0,
+      hostname: '127.0.0.1',
+      fetch(req) {
+        const { pathname } = new URL(req.url);
+        hits[pathname] = (hits[pathname] ?? 0) + 1;
+        switch (pathname) {
+          case '/page': return new Response(PAGE, { headers: { 'content-type': 'text/html; charset=utf-8' } });
+          case '/long': return new Response('x'.repeat(5000), { headers: { 'content-type': 'text/plain' } });
+          case '/endless': return new Response(new ReadableStream({
+            pull(controller) { controller.enqueue(new TextEncoder().encode('x'.repeat(65_536))); },
+          }), { headers: { 'content-type': 'text/plain' } });
+          case '/binary': return new Response(new Uint8Array([0, 1, 2]), { headers: { 'content-type': 'image/png' } });
+          case '/missing': return new Response('nope', { status: 404 });
+          case '/redirect': return Response.redirect('http://blocked.test/page', 302);
+          default: return new Response('plain text', { headers: { 'content-type': 'text/plain' } });
+        }
+      },
+    });
+    base = `http://127.0.0.1:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  afterEach(() => {
+    clearWebCache();
+    clearWebSearchProvider();
+  });
+
+  describe('htmlToMarkdown', () => {
+    it('should convert structure and drop scripts and styles', () => {
+      const md = htmlToMarkdown(PAGE, 'https://example.com/guide/');
+
+      expect(md).toContain('# Hello');
+      expect(md).toContain('**bold**');
+      expect(md).toContain('[link](https://example.com/docs)');
+      expect(md).toContain('- one\n- two');
+      expect(md).toContain('```\nconst x = 1;\n  indented\n```');
+      expect(md).not.toContain('alert');
+      expect(md).not.toContain('menu');
+    });
+  });
+
+  describe('checkDomain', () => {
+    it('should match subdomains and let blocked entries win', () => {
+      const policy = { allowedDomains: ['example.com'], blockedDomains: ['private.example.com'] };
+
+      expect(checkDomain(new URL('https://docs.example.com/x'), policy)).toBeNull();
+      expect(checkDomain(new URL('https://private.example.com/x'), policy)).toContain('blocked');
+      expect(checkDomain(new URL('https://notexample.com/x'), policy)).toContain('not in the allowed domains');
+      expect(checkDomain(new URL('https://anything.org/'), {})).toBeNull();
+    });
+  });
+
+  describe('checkAddress', () => {
+    it('should refuse loopback, link-local and private addresses', async () => {
+      for (const host of ['127.0.0.1', '169.254.169.254', '10.1.2.3', '172.20.0.1', '192.168.1.1', '0.0.0.0',
+        '[::1]', '[fe80::1]', '[fd00::1]', '[::ffff:127.0.0.1]', 'localhost']) {
+        expect(await checkAddress(new URL(`http://${host}/`))).toContain('private address');
+      }
+    });
+
+    it('should allow public addresses and honour allowPrivateNetwork', async () => {
+      expect(await checkAddress(new URL('http://93.184.216.34/'))).toBeNull();
+      expect(await checkAddress(new URL('http://[2606:4700::1111]/'))).toBeNull();
+      expect(await checkAddress(new URL('http://172.32.0.1/'))).toBeNull();
+      expect(await checkAddress(new URL('http://127.0.0.1/'), { allowPrivateNetwork: true })).toBeNull();
+    });
+  });
+
+  describe('WebFetch', () => {
+    it('should refuse private addresses without making a request', async () => {
+      const before = hits['/page'] ?? 0;
+
+      const res = await executeWebFetch('f0', { url: `${base}/page` }, { sessionId: 's1' });
+
+      expect(res.isError).toBe(true);
+      expect(res.content).toContain('resolves to private address 127.0.0.1');
+      expect(hits['/page'] ?? 0).toBe(before);
+    });
+
+
+    it('should return HTML pages as markdown with the title', async () => {
+      const res = await executeWebFetch('f1', { url: `${base}/page` }, local());
+
+      expect(res.isError).toBeFalsy();
+      expect(res.content).toContain('Title: Test & Page');
+      expect(res.content).toContain('# Hello');
+    });
+
+    it('should cache responses per session', async () => {
+      const before = hits['/cached'] ?? 0;
+
+      await executeWebFetch('f2', { url: `${base}/cached` }, local('s1'));
+      await executeWebFetch('f3', { url: `${base}/cached` }, local('s1'));
+      expect(hits['/cached']).toBe(before + 1);
+
+      await executeWebFetch('f4', { url: `${base}/cached` }, local('s2'));
+      expect(hits['/cached']).toBe(before + 2);
+
+      clearWebCache('s1');
+      await executeWebFetch('f4b', { url: `${base}/cached` }, local('s1'));
+      await executeWebFetch('f4c', { url: `${base}/cached` }, local('s2'));
+      expect(hits['/cached']).toBe(before + 3);
+    });
+
+    it('should truncate to max_chars', async () => {
+      const res = await executeWebFetch('f5', { url: `${base}/long`, max_chars: 100 }, local());
+
+      expect(res.content).toContain('[Content truncated: showing 100 of');
+      expect(res.content.length).toBeLessThan(300);
+    });
+
+    it('should stop reading a body at the byte limit', async () => {
+      const res = await executeWebFetch('f5b', { url: `${base}/endless`, max_chars: 100 }, local());
+
+      expect(res.isError).toBe(false);
+      expect(res.content).toMatch(/showing 100 of 200\d{4} characters/);
+    });
+
+    it('should refuse blocked domains without making a request', async () => {
+      const before = hits['/page'] ?? 0;
+      const context = local('s1', { blockedDomains: ['127.0.0.1'] });
+
+      const res = await executeWebFetch('f6', { url: `${base}/page` }, context);
+
+      expect(res.isError).toBe(true);
+      expect(res.content).toContain('blocked by web policy');
+      expect(hits['/page'] ?? 0).toBe(before);
+    });
+
+    it('should check the domain of redirect targets', async () => {
+      const context = local('s1', { blockedDomains: ['blocked.test'] });
+
+      const res = await executeWebFetch('f7', { url: `${base}/redirect` }, context);
+
+      expect(res.isError).toBe(true);
+      expect(res.content).toContain('blocked.test');
+    });
+
+    it('should report HTTP errors, binary content and bad protocols', async () => {
+      const missing = await executeWebFetch('f8', { url: `${base}/missing` }, local());
+      const binary = await executeWebFetch('f9', { url: `${base}/binary` }, local());
+      const file = await executeWebFetch('f10', { url: 'file:///etc/passwd' }, { sessionId: 's1' });
+
+      expect(missing.content).toContain('HTTP 404');
+      expect(binary.content).toContain('Unsupported content type image/png');
+      expect(file.content).toContain('Unsupported protocol');
+    });
+  });
+
+  describe('WebSearch', () => {
+    const registerProvider = (provider: WebSearchProvider) => {
+      const context = { logger: { log: () => {} } } as unknown as PluginAPIContext;
+      createPluginAPI(context).registerTool({ webSearchProvider: provider });
+    };
+
+    it('should error when no provider is registered', async () => {
+      const res = await executeWebSearch('w1', { query: 'bun' }, { sessionId: 's1' });
+
+      expect(res.isError).toBe(true);
+      expect(res.content).toContain('No web search provider');
+    });
+
+    it('should format results from a plugin provider and drop disallowed domains', async () => {
+      let calls = 0;
+      registerProvider({
+        name: 'fake',
+        search: async (_query, { limit }) => {
+          calls++;
+          return [
+            { title: 'Bun', url: 'https://bun.sh/docs', snippet: 'Fast  runtime' },
+            { title: 'Spam', url: 'https://spam.example/x' },
+          ].slice(0, limit);
+        },
+      });
+      const context: ToolContext = { sessionId: 's1', web: { blockedDomains: ['spam.example'] } };
+
+      const res = await executeWebSearch('w2', { query: 'bun' }, context);
+      await executeWebSearch('w3', { query: 'bun' }, context);
+
+      expect(res.content).toContain('1. [Bun](https://bun.sh/docs)\n   Fast runtime');
+      expect(res.content).not.toContain('spam.example');
+      expect(calls).toBe(1);
+    });
+  });
+});
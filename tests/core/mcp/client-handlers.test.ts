@@ -0,0 +1,273 @@
+/**
+ * MCP Client Handler Tests
+ * Sampling with approval, workspace roots, and server-initiated requests
+ * over a real stdio connection
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { pathToFileURL } from 'url';
+import { createMCPClient, MCPRequestError } from '@daemux/mcp-client';
+import type { MCPClientHandlers, MCPSamplingRequest } from '@daemux/mcp-client';
+import { createMCPClientHandlers, workspaceRoots, USER_REJECTED } from '../../../src/core/mcp/client-handlers';
+import { ApprovalManager } from '../../../src/core/approval-manager';
+import { EventBus } from '../../../src/core/event-bus';
+import { Database } from '../../../src/infra/database';
+import { MockLLMProvider } from '../../mocks/mock-llm-provider';
+
+const sampling: MCPSamplingRequest = {
+  messages: [
+    { role: 'user', content: { type: 'image', data: 'aGVsbG8=', mimeType: 'image/png' } },
+    { role: 'user', content: { type: 'text', text: 'Describe   this\nchart' } },
+  ],
+  systemPrompt: 'Be brief.',
+  maxTokens: 200,
+};
+
+describe('createMCPClientHandlers', () => {
+  const testDir = join(import.meta.dir, 'test-client-handlers');
+  let db: Database;
+  let eventBus: EventBus;
+  let approvals: ApprovalManager;
+  let provider: MockLLMProvider;
+  let requests: string[];
+
+  const createHandlers = () => createMCPClientHandlers({
+    resolveModel: () => ({ provider, model: 'mock-model', maxTokens: 100 }),
+    approvals,
+    roots: () => [testDir],
+  });
+
+  /** Answer the next approval request with the given decision */
+  const answerNext = (decision: 'allow-once' | 'allow-always' | 'deny') => {
+    eventBus.once('approval:request', ({ id }) => {
+      queueMicrotask(() => approvals.resolveApproval(id, decision, 'tester'));
+    });
+  };
+
+  beforeEach(async () => {
+    mkdirSync(testDir, { recursive: true });
+    db = new Database({ path: join(testDir, 'state.db'), enableVec: false });
+    await db.initialize();
+    eventBus = new EventBus();
+    approvals = new ApprovalManager({ db, eventBus, timeoutMs: 2000, pollIntervalMs: 20 });
+    provider = new MockLLMProvider();
+    requests = [];
+    eventBus.on('approval:request', ({ command }) => { requests.push(command); });
+  });
+
+  afterEach(() => {
+    approvals.shutdown();
+    db.close();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should run an approved sampling request on the resolved model', async () => {
+    answerNext('allow-once');
+    provider.capabilities.vision = true;
+    provider.addTextResponse('A rising line.');
+
+    const result = await createHandlers().createMessage!('charts', sampling);
+
+    expect(result).toEqual({
+      role: 'assistant', content: { type: 'text', text: 'A rising line.' }, model: 'mock-model', stopReason: 'endTurn',
+    });
+    expect(requests).toEqual([
+      `MCP sampling for 'charts' (2 message(s), up to 200 tokens): "Describe this chart"`,
+    ]);
+    expect(provider.getLastCall()).toMatchObject({
+      model: 'mock-model',
+      systemPrompt: 'Be brief.',
+      maxTokens: 100,
+      messages: [
+        { role: 'user', content: [{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'aGVsbG8=' } }] },
+        { role: 'user', content: 'Describe   this\nchart' },
+      ],
+    });
+  });
+
+  it('should describe images to providers without vision', async () => {
+    answerNext('allow-once');
+
+    await createHandlers().createMessage!('charts', sampling);
+
+    expect(provider.getLastCall()!.messages[0]).toEqual({ role: 'user', content: '[image: image/png omitted]' });
+  });
+
+  it('should reject denied sampling with the user-rejected error code', async () => {
+    answerNext('deny');
+
+    const error = await createHandlers().createMessage!('charts', sampling).catch(err => err);
+
+    expect(error).toBeInstanceOf(MCPRequestError);
+    expect(error.code).toBe(USER_REJECTED);
+    expect(provider.getCallCount()).toBe(0);
+  });
+
+  it('should remember allow-always per server for the process', async () => {
+    answerNext('allow-always');
+    const handlers = createHandlers();
+
+    await handlers.createMessage!('charts', sampling);
+    await handlers.createMessage!('charts', sampling);
+
+    expect(requests).toHaveLength(1);
+    expect(provider.getCallCount()).toBe(2);
+  });
+
+  it('should only offer sampling and elicitation when the user can be asked', async () => {
+    const handlers = createMCPClientHandlers({
+      resolveModel: () => ({ provider, model: 'mock-model' }),
+      roots: () => [testDir, '/'],
+    });
+
+    expect(handlers.createMessage).toBeUndefined();
+    expect(handlers.elicit).toBeUndefined();
+    expect(await handlers.listRoots!('fs')).toEqual([
+      { uri: pathToFileURL(testDir).href, name: 'test-client-handlers' },
+      { uri: 'file:///', name: '/' },
+    ]);
+  });
+});
+
+describe('workspaceRoots', () => {
+  it('should add sandbox write roots to the working directory', () => {
+    const cwd = mkdtempSync(join(tmpdir(), 'daemux-roots-'));
+    try {
+      mkdirSync(join(cwd, 'out'));
+      expect(workspaceRoots(undefined, cwd)).toEqual([cwd]);
+      expect(workspaceRoots({ enabled: true, writeRoots: ['.', 'out'] }, cwd)).toEqual([cwd, join(cwd, 'out')]);
+    } finally {
+      rmSync(cwd, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('server-initiated requests over stdio', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'daemux-mcp-requests-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should announce client capabilities and answer server requests', async () => {
+    // On "ask" the server sends four requests to the client and returns the replies it got
+    const script = join(dir, 'server.js');
+    writeFileSync(script, `
+      const send = (msg) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...msg }) + '\\n');
+      let buffer = '';
+      let capabilities;
+      let call;
+      const replies = {};
+      process.stdin.on('data', (chunk) => {
+        buffer += chunk;
+        let idx;
+        while ((idx = buffer.indexOf('\\n')) !== -1) {
+          const msg = JSON.parse(buffer.slice(0, idx));
+          buffer = buffer.slice(idx + 1);
+          if (msg.id === undefined) continue;
+          if (msg.method === undefined) {
+            replies[msg.id] = msg.result ?? msg.error;
+            if (Object.keys(replies).length === 4) {
+              send({ id: call, result: { content: [{ type: 'text', text: JSON.stringify({ capabilities, replies }) }] } });
+            }
+          } else if (msg.method === 'initialize') {
+            capabilities = msg.params.capabilities;
+            send({ id: msg.id, result: { capabilities: { tools: {} } } });
+          } else if (msg.method === 'tools/call') {
+            call = msg.id;
+            send({ id: 'roots', method: 'roots/list', params: {} });
+            send({ id: 'sample', method: 'sampling/createMessage', params: {
+              messages: [{ role: 'user', content: { type: 'text', text: 'Hi' } }], maxTokens: 20,
+            } });
+            send({ id: 'ask', method: 'elicitation/create', params: {
+              message: 'Name?', requestedSchema: { type: 'object', properties: { name: { type: 'string' } } },
+            } });
+            send({ id: 4, method: 'resources/subscribe', params: {} });
+          } else {
+            send({ id: msg.id, result: msg.method === 'tools/list' ? { tools: [] } : {} });
+          }
+        }
+      });
+    `);
+    const handlers: MCPClientHandlers = {
+      listRoots: mock(async () => [{ uri: 'file:///work', name: 'work' }]),
+      createMessage: mock(async () => ({
+        role: 'assistant' as const, content: { type: 'text' as const, text: 'Hello' }, model: 'm',
+      })),
+      elicit: mock(async () => ({ action: 'accept' as const, content: { name: 'Ada' } })),
+    };
+    const client = createMCPClient('local', 'stdio', { command: process.execPath, args: [script] }, undefined, handlers);
+    await client.connect();
+
+    try {
+      const reply = JSON.parse(await client.callTool('ask', {}) as string);
+
+      expect(reply.capabilities).toEqual({ sampling: {}, roots: { listChanged: false }, elicitation: {} });
+      expect(reply.replies).toEqual({
+        roots: { roots: [{ uri: 'file:///work', name: 'work' }] },
+        sample: { role: 'assistant', content: { type: 'text', text: 'Hello' }, model: 'm' },
+        ask: { action: 'accept', content: { name: 'Ada' } },
+        4: { code: -32601, message: 'Method not found: resources/subscribe' },
+      });
+      expect(handlers.createMessage).toHaveBeenCalledWith('local', {
+        messages: [{ role: 'user', content: { type: 'text', text: 'Hi' } }], maxTokens: 20,
+      });
+    } finally {
+      await client.disconnect();
+    }
+  });
+
+  it('should not time out a tool call while sampling for it takes longer than the timeout', async () => {
+    // The server answers tools/call with the sampled text once the client replies
+    const script = join(dir, 'server.js');
+    writeFileSync(script, `
+      const send = (msg) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...msg }) + '\\n');
+      let buffer = '';
+      let call;
+      process.stdin.on('data', (chunk) => {
+        buffer += chunk;
+        let idx;
+        while ((idx = buffer.indexOf('\\n')) !== -1) {
+          const msg = JSON.parse(buffer.slice(0, idx));
+          buffer = buffer.slice(idx + 1);
+          if (msg.id === undefined) continue;
+          if (msg.method === undefined) {
+            send({ id: call, result: { content: [{ type: 'text', text: msg.result.content.text }] } });
+          } else if (msg.method === 'tools/call') {
+            call = msg.id;
+            send({ id: 'sample', method: 'sampling/createMessage', params: {
+              messages: [{ role: 'user', content: { type: 'text', text: 'Hi' } }], maxTokens: 20,
+            } });
+          } else {
+            send({ id: msg.id, result: msg.method === 'tools/list' ? { tools: [] } : {} });
+          }
+        }
+      });
+    `);
+    const handlers: MCPClientHandlers = {
+      createMessage: async () => {
+        await new Promise(resolve => setTimeout(resolve, 600));
+        return { role: 'assistant' as const, content: { type: 'text' as const, text: 'Slow hello' }, model: 'm' };
+      },
+    };
+    const client = createMCPClient(
+      'local', 'stdio', { command: process.execPath, args: [script], timeoutMs: 200 }, undefined, handlers,
+    );
+    await client.connect();
+
+    try {
+      expect(await client.callTool('ask', {})).toBe('Slow hello');
+    } finally {
+      await client.disconnect();
+    }
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * MCP Elicitation Tests
+ * Answer parsing against the requested schema and the question broker
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import type { MCPElicitationRequest } from '@daemux/mcp-client';
+import {
+  ElicitationBroker,
+  formatElicitation,
+  parseElicitationAnswer,
+  schemaFields,
+} from '../../../src/core/mcp/elicitation';
+import { EventBus } from '../../../src/core/event-bus';
+
+const deployRequest: MCPElicitationRequest = {
+  message: 'Where should we deploy?',
+  requestedSchema: {
+    type: 'object',
+    properties: {
+      env: { type: 'string', enum: ['staging', 'production'] },
+      replicas: { type: 'integer', title: 'Replica count' },
+      notify: { type: 'boolean' },
+    },
+    required: ['env'],
+  },
+};
+const fields = schemaFields(deployRequest.requestedSchema);
+
+describe('parseElicitationAnswer', () => {
+  it('should parse field=value pairs into typed content', () => {
+    expect(parseElicitationAnswer(fields, 'env=staging replicas=3 notify=yes')).toEqual({
+      action: 'accept', content: { env: 'staging', replicas: 3, notify: true },
+    });
+  });
+
+  it('should take the whole answer for a single field', () => {
+    const single = schemaFields({ type: 'object', properties: { name: { type: 'string' } }, required: ['name'] });
+
+    expect(parseElicitationAnswer(single, 'Ada Lovelace')).toEqual({ action: 'accept', content: { name: 'Ada Lovelace' } });
+    expect(parseElicitationAnswer(single, 'name="Ada L"')).toEqual({ action: 'accept', content: { name: 'Ada L' } });
+    expect(parseElicitationAnswer(single, 'a=b')).toEqual({ action: 'accept', content: { name: 'a=b' } });
+  });
+
+  it('should pass through decline and cancel', () => {
+    expect(parseElicitationAnswer(fields, 'decline')).toEqual({ action: 'decline' });
+    expect(parseElicitationAnswer(fields, ' cancel ')).toEqual({ action: 'cancel' });
+  });
+
+  it('should reject answers that do not fit the schema', () => {
+    expect(() => parseElicitationAnswer(fields, 'env=dev')).toThrow('env must be one of staging, production');
+    expect(() => parseElicitationAnswer(fields, 'env=staging replicas=2.5')).toThrow('replicas must be a whole number');
+    expect(() => parseElicitationAnswer(fields, 'replicas=2')).toThrow('Missing env');
+    expect(() => parseElicitationAnswer(fields, 'region=eu')).toThrow('Unexpected "region=eu"');
+  });
+});
+
+describe('formatElicitation', () => {
+  it('should describe the fields and how to answer', () => {
+    const text = formatElicitation({ id: 'abcdef1234', server: 'deploy', message: 'Where?', fields });
+
+    expect(text).toBe([
+      "MCP server 'deploy' asks: Where?",
+      '  env (staging|production, required)',
+      '  replicas (integer) - Replica count',
+      '  notify (boolean)',
+      'Reply /answer abcdef12 env=<value> replicas=<value> notify=<value> or /answer abcdef12 decline',
+    ].join('\n'));
+  });
+});
+
+describe('ElicitationBroker', () => {
+  let eventBus: EventBus;
+  let broker: ElicitationBroker;
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    broker = new ElicitationBroker({ eventBus, timeoutMs: 1000 });
+  });
+
+  afterEach(() => {
+    broker.shutdown();
+  });
+
+  it('should cancel questions when nobody is listening', async () => {
+    expect(await broker.request('deploy', deployRequest)).toEqual({ action: 'cancel' });
+  });
+
+  it('should resolve a question with the answer given by ID prefix', async () => {
+    const questions: string[] = [];
+    eventBus.on('mcp:elicitation', ({ id, question }) => {
+      questions.push(question);
+      queueMicrotask(() => {
+        expect(() => broker.answer(`/answer ${id.slice(0, 8)} replicas=1`)).toThrow('Missing env');
+        expect(broker.answer(`/answer ${id.slice(0, 8)} env=production`)).toBe("Answer sent to MCP server 'deploy'");
+      });
+    });
+
+    expect(await broker.request('deploy', deployRequest)).toEqual({ action: 'accept', content: { env: 'production' } });
+    expect(questions[0]).toStartWith("MCP server 'deploy' asks: Where should we deploy?");
+    expect(broker.getPending()).toHaveLength(0);
+    expect(() => broker.answer('/answer zzz decline')).toThrow('No pending question matches "zzz"');
+  });
+
+  it('should cancel pending questions on timeout and shutdown', async () => {
+    eventBus.on('mcp:elicitation', () => {});
+    const quick = new ElicitationBroker({ eventBus, timeoutMs: 10 });
+
+    expect(await quick.request('deploy', deployRequest)).toEqual({ action: 'cancel' });
+
+    const pending = broker.request('deploy', deployRequest);
+    broker.shutdown();
+    expect(await pending).toEqual({ action: 'cancel' });
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * MCP OAuth Tests
+ * Login, token storage and refresh against a local mock authorization
+ * server that also serves MCP endpoints requiring its tokens
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'bun:test';
+import { createHash } from 'crypto';
+import { mkdtempSync, rmSync, statSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { HttpMCPClient, SseMCPClient } from '@daemux/mcp-client';
+import {
+  createMCPAuthProvider,
+  loadMCPCredentials,
+  loginMCPServer,
+  saveMCPCredentials,
+} from '../../../src/core/mcp/oauth';
+
+// ---------------------------------------------------------------------------
+// Mock Authorization Server and MCP Endpoint
+// ---------------------------------------------------------------------------
+
+let server: ReturnType<typeof Bun.serve>;
+let base: string;
+let issued = 0;
+/** Access tokens the MCP endpoint accepts */
+let validTokens = new Set<string>();
+let refreshTokens = new Set<string>();
+let challenges = new Map<string, string>();
+let authorizeParams: URLSearchParams | null = null;
+let denyAuthorization = false;
+/** The POST endpoint announced on the SSE stream */
+let sseEndpoint = '/mcp';
+let mcpRequests = 0;
+
+function issueTokens(): Response {
+  issued++;
+  validTokens.add(`access-${issued}`);
+  refreshTokens.add(`refresh-${issued}`);
+  return Response.json({
+    access_token: `access-${issued}`, token_type: 'Bearer', expires_in: 3600, refresh_token: `refresh-${issued}`,
+  });
+}
+
+async function handleToken(req: Request): Promise<Response> {
+  const form = new URLSearchParams(await req.text());
+  if (form.get('resource') !== `${base}/mcp`) return Response.json({ error: 'invalid_target' }, { status: 400 });
+
+  if (form.get('grant_type') === 'authorization_code') {
+    const challenge = challenges.get(form.get('code') ?? '');
+    const verified = createHash('sha256').update(form.get('code_verifier') ?? '').digest('base64url');
+    if (!challenge || challenge !== verified) return Response.json({ error: 'invalid_grant' }, { status: 400 });
+    return issueTokens();
+  }
+  if (refreshTokens.delete(form.get('refresh_token') ?? '')) return issueTokens();
+  return Response.json({ error: 'invalid_grant', error_description: 'refresh token revoked' }, { status: 400 });
+}
+
+async function handleMCP(req: Request): Promise<Response> {
+  mcpRequests++;
+  const token = req.headers.get('authorization')?.replace('Bearer ', '') ?? '';
+  if (!validTokens.has(token)) {
+    return new Response('unauthorized', {
+      status: 401,
+      headers: { 'WWW-Authenticate': `Bearer resource_metadata="${base}/.well-known/oauth-protected-resource/mcp"` },
+    });
+  }
+  const body = await req.json() as { id: number; method: string };
+  const result = body.method === 'tools/list'
+    ? { tools: [{ name: 'whoami', description: token, inputSchema: { type: 'object', properties: {} } }] }
+    : { capabilities: { tools: {} } };
+  return Response.json({ jsonrpc: '2.0', id: body.id, result });
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    hostname: '127.0.0.1',
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      switch (url.pathname) {
+        case '/.well-known/oauth-protected-resource/mcp':
+          return Response.json({ resource: `${base}/mcp`, authorization_servers: [`${base}/auth`] });
+        case '/.well-known/oauth-authorization-server/auth':
+          return Response.json({
+            issuer: `${base}/auth`,
+            authorization_endpoint: `${base}/auth/authorize`,
+            token_endpoint: `${base}/auth/token`,
+            registration_endpoint: `${base}/auth/register`,
+          });
+        case '/auth/register': {
+          const body = await req.json() as { redirect_uris: string[] };
+          return Response.json({ client_id: 'client-1', redirect_uris: body.redirect_uris }, { status: 201 });
+        }
+        case '/auth/authorize': {
+          authorizeParams = url.searchParams;
+          const redirect = new URL(url.searchParams.get('redirect_uri')!);
+          redirect.searchParams.set('state', url.searchParams.get('state')!);
+          if (denyAuthorization) {
+            redirect.searchParams.set('error', 'access_denied');
+          } else {
+            challenges.set('code-1', url.searchParams.get('code_challenge')!);
+            redirect.searchParams.set('code', 'code-1');
+          }
+          return Response.redirect(redirect.href, 302);
+        }
+        case '/auth/token':
+          return handleToken(req);
+        case '/mcp':
+          return handleMCP(req);
+        case '/sse':
+          return new Response(new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode(`event: endpoint\ndata: ${sseEndpoint}\n\n`));
+            },
+          }), { headers: { 'Content-Type': 'text/event-stream' } });
+        default:
+          return new Response('not found', { status: 404 });
+      }
+    },
+  });
+  base = `http://127.0.0.1:${server.port}`;
+});
+
+afterAll(() => {
+  void server.stop(true);
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('MCP OAuth', () => {
+  let dir: string;
+
+  /** Plays the browser: follows the authorization redirect back to the callback */
+  const browser = (url: string) => { fetch(url).catch(() => {}); };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'daemux-mcp-oauth-'));
+    issued = 0;
+    validTokens = new Set();
+    refreshTokens = new Set();
+    challenges = new Map();
+    authorizeParams = null;
+    denyAuthorization = false;
+    sseEndpoint = '/mcp';
+    mcpRequests = 0;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should log in with PKCE and save the tokens privately', async () => {
+    const credentials = await loginMCPServer('docs', `${base}/mcp`, { openUrl: browser, dir });
+
+    expect(authorizeParams?.get('client_id')).toBe('client-1');
+    expect(authorizeParams?.get('code_challenge_method')).toBe('S256');
+    expect(authorizeParams?.get('resource')).toBe(`${base}/mcp`);
+    expect(authorizeParams?.get('redirect_uri')).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/callback$/);
+    expect(credentials).toMatchObject({ accessToken: 'access-1', refreshToken: 'refresh-1' });
+    expect(credentials.expiresAt).toBeGreaterThan(Date.now());
+    expect(loadMCPCredentials('docs', dir)).toEqual(credentials);
+    expect(statSync(join(dir, 'docs.json')).mode & 0o777).toBe(0o600);
+  });
+
+  it('should fail the login when the user denies access', async () => {
+    denyAuthorization = true;
+
+    await expect(loginMCPServer('docs', `${base}/mcp`, { openUrl: browser, dir }))
+      .rejects.toThrow('Authorization failed: access_denied');
+    expect(loadMCPCredentials('docs', dir)).toBeNull();
+  });
+
+  it('should connect with the stored token and refresh it after a 401', async () => {
+    await loginMCPServer('docs', `${base}/mcp`, { openUrl: browser, dir });
+    const client = new HttpMCPClient('docs', { url: `${base}/mcp` }, undefined,
+      createMCPAuthProvider('docs', `${base}/mcp`, dir));
+
+    await client.connect();
+    validTokens.delete('access-1');
+    const tools = await client.listTools();
+
+    expect(tools[0]?.description).toBe('access-2');
+    expect(loadMCPCredentials('docs', dir)).toMatchObject({ accessToken: 'access-2', refreshToken: 'refresh-2' });
+    await client.disconnect();
+  });
+
+  it('should refresh tokens that are about to expire before sending them', async () => {
+    const credentials = await loginMCPServer('docs', `${base}/mcp`, { openUrl: browser, dir });
+    saveMCPCredentials('docs', { ...credentials, expiresAt: Date.now() + 1000 }, dir);
+
+    const provider = createMCPAuthProvider('docs', `${base}/mcp`, dir);
+    const [first, second] = await Promise.all([provider.accessToken(), provider.accessToken()]);
+
+    expect(first).toBe('access-2');
+    expect(second).toBe('access-2');
+    expect(issued).toBe(2);
+  });
+
+  it('should ask for a login when there is no usable token', async () => {
+    const client = new HttpMCPClient('docs', { url: `${base}/mcp` }, undefined,
+      createMCPAuthProvider('docs', `${base}/mcp`, dir));
+
+    await expect(client.connect()).rejects.toThrow("MCP server 'docs' needs authorization; run `daemux mcp login docs`");
+
+    await loginMCPServer('docs', `${base}/mcp`, { openUrl: browser, dir });
+    validTokens.clear();
+    refreshTokens.clear();
+    await expect(client.connect()).rejects.toThrow('refresh token revoked');
+  });
+
+  it('should ignore a login made for a different server URL', async () => {
+    await loginMCPServer('docs', `${base}/mcp`, { openUrl: browser, dir });
+
+    expect(await createMCPAuthProvider('docs', `${base}/other`, dir).accessToken()).toBeUndefined();
+  });
+
+  it('should not post the token to an SSE endpoint on another origin', async () => {
+    await loginMCPServer('docs', `${base}/mcp`, { openUrl: browser, dir });
+    sseEndpoint = `http://localhost:${server.port}/mcp`;
+    const client = new SseMCPClient('docs', { url: base }, undefined,
+      createMCPAuthProvider('docs', `${base}/mcp`, dir));
+
+    await expect(client.connect()).rejects.toThrow(
+      `MCP SSE server 'docs' sent an endpoint on another origin: http://localhost:${server.port}`,
+    );
+    expect(mcpRequests).toBe(0);
+  });
+});
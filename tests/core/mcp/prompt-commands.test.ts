@@ -0,0 +1,82 @@
+/**
+ * MCP Prompt Command Tests
+ * Parsing /server:prompt input, mapping arguments, and resolving prompts
+ */
+
+import { describe, it, expect, mock } from 'bun:test';
+import type { MCPPrompt } from '@daemux/mcp-client';
+import {
+  parsePromptCommand,
+  parsePromptArguments,
+  promptUsage,
+  resolvePromptCommand,
+  type MCPPromptSource,
+} from '../../../src/core/mcp/prompt-commands';
+
+const reviewPrompt: MCPPrompt = {
+  name: 'review',
+  description: 'Review a change',
+  arguments: [
+    { name: 'file', required: true },
+    { name: 'focus' },
+  ],
+};
+
+describe('parsePromptCommand', () => {
+  it('should split known server commands and ignore everything else', () => {
+    expect(parsePromptCommand('/git:review src/a.ts  security', ['git'])).toEqual({
+      server: 'git', prompt: 'review', argText: 'src/a.ts  security',
+    });
+    expect(parsePromptCommand('/git:status', ['git'])).toEqual({ server: 'git', prompt: 'status', argText: '' });
+    expect(parsePromptCommand('/rewind abc', ['git'])).toBeNull();
+    expect(parsePromptCommand('/other:review', ['git'])).toBeNull();
+  });
+});
+
+describe('parsePromptArguments', () => {
+  it('should fill named and positional arguments, giving the rest to the last one', () => {
+    expect(parsePromptArguments('git', reviewPrompt, 'src/a.ts look for races')).toEqual({
+      file: 'src/a.ts', focus: 'look for races',
+    });
+    expect(parsePromptArguments('git', reviewPrompt, 'focus=perf "src/my file.ts"')).toEqual({
+      file: 'src/my file.ts', focus: 'perf',
+    });
+  });
+
+  it('should report missing required and surplus arguments with usage', () => {
+    expect(promptUsage('git', reviewPrompt)).toBe('/git:review <file> [focus]');
+    expect(() => parsePromptArguments('git', reviewPrompt, 'focus=perf')).toThrow(
+      'Missing file. Usage: /git:review <file> [focus]',
+    );
+    expect(() => parsePromptArguments('git', { name: 'status' }, 'extra')).toThrow('Too many arguments');
+  });
+});
+
+describe('resolvePromptCommand', () => {
+  function makeSource(): MCPPromptSource {
+    return {
+      serverIds: ['git'],
+      listPrompts: async () => [{ server: 'git', ...reviewPrompt }],
+      getPrompt: mock(async (_server: string, _name: string, args: Record<string, string>) => ({
+        messages: [
+          { role: 'user' as const, content: `Review ${args['file']}` },
+          { role: 'user' as const, content: 'Be thorough.' },
+        ],
+      })),
+    };
+  }
+
+  it('should return the prompt text for a command', async () => {
+    const source = makeSource();
+
+    expect(await resolvePromptCommand('/git:review a.ts', source)).toBe('Review a.ts\n\nBe thorough.');
+    expect(source.getPrompt).toHaveBeenCalledWith('git', 'review', { file: 'a.ts' });
+    expect(await resolvePromptCommand('/help', source)).toBeNull();
+  });
+
+  it('should list available prompts for an unknown one', async () => {
+    await expect(resolvePromptCommand('/git:commit', makeSource())).rejects.toThrow(
+      'Unknown prompt /git:commit. Available: /git:review <file> [focus]',
+    );
+  });
+});
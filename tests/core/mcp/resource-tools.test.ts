@@ -0,0 +1,94 @@
+/**
+ * MCP Resource Tools Tests
+ * ListMCPResources / ReadMCPResource executors and @server:uri mentions
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  createMCPResourceTools,
+  findResourceMentions,
+  inlineResourceMentions,
+  type MCPResourceSource,
+} from '../../../src/core/mcp/resource-tools';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeSource(files: Record<string, Record<string, string>>): MCPResourceSource {
+  return {
+    serverIds: Object.keys(files),
+    listResources: async (serverId) => Object.entries(files)
+      .filter(([id]) => !serverId || id === serverId)
+      .flatMap(([server, entries]) => Object.keys(entries).map(uri => ({ server, uri, name: uri.split('/').pop()! }))),
+    readResource: async (serverId, uri) => {
+      const content = files[serverId]?.[uri];
+      if (content === undefined) throw new Error(`MCP resource '${uri}' returned no content`);
+      return { content, mimeType: 'text/plain' };
+    },
+  };
+}
+
+const source = makeSource({
+  docs: { 'file:///guide.md': '# Guide', 'file:///api.md': '# API' },
+  db: { 'postgres://main/schema': 'CREATE TABLE users (id int);' },
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('createMCPResourceTools', () => {
+  const { tools, executors } = createMCPResourceTools(source);
+
+  it('should define the list and read tools', () => {
+    expect(tools.map(t => t.name)).toEqual(['ListMCPResources', 'ReadMCPResource']);
+    expect(tools[1]!.inputSchema.required).toEqual(['server', 'uri']);
+  });
+
+  it('should list resources of all servers or of one', async () => {
+    const all = await executors.get('ListMCPResources')!('tu_1', {});
+    const one = await executors.get('ListMCPResources')!('tu_2', { server: 'db' });
+
+    expect(JSON.parse(all.content)).toHaveLength(3);
+    expect(JSON.parse(one.content)).toEqual([{ server: 'db', uri: 'postgres://main/schema', name: 'schema' }]);
+  });
+
+  it('should read a resource and report failures as errors', async () => {
+    const read = executors.get('ReadMCPResource')!;
+
+    expect(await read('tu_3', { server: 'docs', uri: 'file:///guide.md' })).toEqual({ toolUseId: 'tu_3', content: '# Guide' });
+    expect(await read('tu_4', { server: 'docs', uri: 'file:///missing.md' })).toMatchObject({
+      isError: true, content: "Error: MCP resource 'file:///missing.md' returned no content",
+    });
+    expect((await read('tu_5', { server: 'docs' })).isError).toBe(true);
+  });
+});
+
+describe('resource mentions', () => {
+  it('should find mentions of known servers only', () => {
+    const text = 'Compare @docs:file:///guide.md, @docs:file:///guide.md and (@db:postgres://main/schema). '
+      + 'Mail me at dev@docs:8080 or see @other:x';
+
+    expect(findResourceMentions(text, source.serverIds)).toEqual([
+      { server: 'docs', uri: 'file:///guide.md' },
+    ]);
+    expect(findResourceMentions('@db:postgres://main/schema.', source.serverIds)).toEqual([
+      { server: 'db', uri: 'postgres://main/schema' },
+    ]);
+  });
+
+  it('should append mentioned resources and collect read errors', async () => {
+    const result = await inlineResourceMentions('Summarize @docs:file:///api.md and @docs:file:///gone.md', source);
+
+    expect(result.text).toBe(
+      'Summarize @docs:file:///api.md and @docs:file:///gone.md\n\n'
+      + '<resource server="docs" uri="file:///api.md">\n# API\n</resource>',
+    );
+    expect(result.errors).toEqual(["@docs:file:///gone.md: MCP resource 'file:///gone.md' returned no content"]);
+  });
+
+  it('should leave text without mentions unchanged', async () => {
+    expect(await inlineResourceMentions('hello @nobody', source)).toEqual({ text: 'hello @nobody', errors: [] });
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * MCP Serve Tests
+ * daemux tools over a real database, and the server framing over
+ * in-memory stdio streams and a local HTTP listener
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { HttpMCPClient, serveMCPStdio } from '@daemux/mcp-client';
+import type { MCPMessageHandler } from '@daemux/mcp-client';
+import { Database } from '../../../src/infra/database';
+import { EventBus } from '../../../src/core/event-bus';
+import { TaskManager } from '../../../src/core/task-manager';
+import { CronService } from '../../../src/core/cron-service';
+import type { SpawnAgentDeps } from '../../../src/core/loop/tools/spawn-agent';
+import type { AgentDefinition, SubagentRecord } from '../../../src/core/types';
+import { createDaemuxMCPTools } from '../../../src/core/mcp/serve-tools';
+import { createMCPServeHandler, startMCPHttpServer } from '../../../src/core/mcp/serve';
+import type { MCPHttpServer } from '../../../src/core/mcp/serve';
+import type { MCPToolBridge } from '../../../src/core/mcp/tool-bridge';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const reviewer: AgentDefinition = {
+  name: 'reviewer', description: 'Reviews code', model: 'inherit', tools: [], color: 'blue',
+  systemPrompt: 'Review', pluginId: 'core',
+};
+
+function fakeAgents(): SpawnAgentDeps & { spawned: string[] } {
+  const spawned: string[] = [];
+  return {
+    spawned,
+    spawnSubagent: async (agentName, task) => {
+      spawned.push(`${agentName}: ${task}`);
+      return {
+        id: 'record-1', agentName, parentId: null, taskDescription: task, status: 'completed',
+        spawnedAt: 0, completedAt: 1, timeoutMs: 1000, result: 'looks good', tokensUsed: 10, toolUses: 0,
+      } as SubagentRecord;
+    },
+    listAgents: () => [reviewer],
+    getAgent: name => (name === 'reviewer' ? reviewer : undefined),
+  };
+}
+
+async function call(bridge: MCPToolBridge, name: string, input: Record<string, unknown> = {}) {
+  return bridge.executors.get(name)!('test', input);
+}
+
+/** Lines written to a stdio server in one chunk, and the replies it wrote back */
+async function runStdio(handle: MCPMessageHandler, lines: string[]): Promise<unknown[]> {
+  const written: string[] = [];
+  const input = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(lines.join('\n') + '\n'));
+      controller.close();
+    },
+  });
+  await serveMCPStdio(handle, { input, write: data => written.push(data) });
+  return written.join('').trim().split('\n').map(line => JSON.parse(line));
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('MCP Serve', () => {
+  let dir: string;
+  let db: Database;
+  let bridge: MCPToolBridge;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'daemux-mcp-serve-'));
+    db = new Database({ path: join(dir, 'state.db'), enableVec: false });
+    await db.initialize();
+    const eventBus = new EventBus();
+    bridge = createDaemuxMCPTools({
+      db, taskManager: new TaskManager({ db, eventBus }), cronService: new CronService(db, eventBus),
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('tools', () => {
+    it('should create and list tasks', async () => {
+      const created = await call(bridge, 'CreateTask', { subject: 'Write docs', description: 'README' });
+      const task = JSON.parse(created.content) as { id: string; status: string };
+
+      expect(task.status).toBe('pending');
+      expect(JSON.parse((await call(bridge, 'ListTasks', { status: 'pending' })).content)).toHaveLength(1);
+      expect(JSON.parse((await call(bridge, 'ListTasks', { status: 'completed' })).content)).toEqual([]);
+      expect((await call(bridge, 'ListTasks', { status: 'done' })).isError).toBe(true);
+      expect((await call(bridge, 'CreateTask', { subject: ' ' })).isError).toBe(true);
+    });
+
+    it('should search memory by text', async () => {
+      db.memory.store({ content: 'The staging database is postgres 16', metadata: {}, createdAt: 1 });
+
+      const found = await call(bridge, 'SearchMemory', { query: 'staging postgres' });
+      expect(JSON.parse(found.content)[0].content).toBe('The staging database is postgres 16');
+      expect((await call(bridge, 'SearchMemory', { query: 'mysql' })).content).toBe('No matching memory entries');
+    });
+
+    it('should resolve pending approvals by unique prefix', async () => {
+      const now = Date.now();
+      const pending = db.approvals.create({
+        command: 'rm -rf build', createdAtMs: now, expiresAtMs: now + 60_000, decision: null,
+      });
+      const expired = db.approvals.create({
+        command: 'git push', createdAtMs: now - 120_000, expiresAtMs: now - 60_000, decision: null,
+      });
+
+      const listed = JSON.parse((await call(bridge, 'ListApprovals')).content) as Array<{ id: string }>;
+      expect(listed.map(request => request.id)).toEqual([pending.id]);
+
+      const resolved = await call(bridge, 'ResolveApproval', { id: pending.id.slice(0, 8), decision: 'allow-once' });
+      expect(resolved.isError).toBeUndefined();
+      expect(db.approvals.get(pending.id)).toMatchObject({ decision: 'allow-once', decidedBy: 'mcp' });
+
+      expect((await call(bridge, 'ResolveApproval', { id: pending.id, decision: 'deny' })).content)
+        .toContain('No pending approval');
+      expect((await call(bridge, 'ResolveApproval', { id: expired.id, decision: 'deny' })).content)
+        .toContain('already expired');
+      expect((await call(bridge, 'ResolveApproval', { id: expired.id, decision: 'maybe' })).isError).toBe(true);
+    });
+
+    it('should add, list and remove schedules', async () => {
+      const added = await call(bridge, 'AddSchedule', {
+        type: 'every', expression: '30m', subject: 'Sync', description: 'Pull upstream',
+      });
+      const schedule = JSON.parse(added.content) as { id: string; taskTemplate: { subject: string } };
+
+      expect(schedule.taskTemplate.subject).toBe('Sync');
+      expect(JSON.parse((await call(bridge, 'ListSchedules')).content)).toHaveLength(1);
+      expect((await call(bridge, 'RemoveSchedule', { id: schedule.id })).content).toBe(`Removed schedule ${schedule.id}`);
+
+      const missing = await call(bridge, 'RemoveSchedule', { id: schedule.id });
+      expect(missing).toMatchObject({ isError: true, content: `Error: Schedule ${schedule.id} not found` });
+      expect((await call(bridge, 'AddSchedule', {
+        type: 'cron', expression: 'not a cron', subject: 'Bad', description: '',
+      })).isError).toBe(true);
+    });
+
+    it('should offer SpawnAgent only with agents, naming them', async () => {
+      expect(bridge.executors.has('SpawnAgent')).toBe(false);
+
+      const agents = fakeAgents();
+      const withAgents = createDaemuxMCPTools({
+        db, taskManager: new TaskManager({ db, eventBus: new EventBus() }),
+        cronService: new CronService(db, new EventBus()), agents,
+      });
+      const spawn = withAgents.tools.find(tool => tool.name === 'SpawnAgent');
+      expect(spawn?.description).toContain('Registered agents: reviewer.');
+
+      const result = await call(withAgents, 'SpawnAgent', { agent_name: 'reviewer', task: 'Check the diff' });
+      expect(result.content).toContain('looks good');
+      expect(agents.spawned).toEqual(['reviewer: Check the diff']);
+    });
+  });
+
+  describe('stdio', () => {
+    it('should answer initialize, tools and malformed input', async () => {
+      const handle = createMCPServeHandler(bridge, { version: '9.9.9', instructions: 'Use daemux' });
+      const replies = await runStdio(handle, [
+        JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26' } }),
+        JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+        JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+        JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'Nope', arguments: {} } }),
+        JSON.stringify({ jsonrpc: '2.0', id: 4, method: 'resources/list' }),
+        '{not json',
+      ]) as Array<{ id: number | null; result?: Record<string, unknown>; error?: { code: number } }>;
+      const byId = (id: number | null) => replies.find(reply => reply.id === id);
+
+      expect(replies).toHaveLength(5);
+      expect(byId(1)?.result).toMatchObject({
+        protocolVersion: '2025-03-26',
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: { name: 'daemux', version: '9.9.9' },
+        instructions: 'Use daemux',
+      });
+      expect((byId(2)?.result?.tools as Array<{ name: string }>).map(tool => tool.name)).toContain('CreateTask');
+      expect(byId(3)?.error?.code).toBe(-32602);
+      expect(byId(4)?.error?.code).toBe(-32601);
+      expect(byId(null)?.error?.code).toBe(-32700);
+    });
+
+    it('should answer batches and report tool errors as results', async () => {
+      const handle = createMCPServeHandler(bridge, { version: '1.0.0' });
+      const [batch] = await runStdio(handle, [JSON.stringify([
+        { jsonrpc: '2.0', id: 'a', method: 'initialize', params: { protocolVersion: '1999-01-01' } },
+        { jsonrpc: '2.0', id: 'b', method: 'tools/call', params: { name: 'RemoveSchedule', arguments: {} } },
+      ])]) as Array<Array<{ id: string; result: Record<string, unknown> }>>;
+
+      expect(batch?.[0]?.result.protocolVersion).toBe('2025-06-18');
+      expect(batch?.[1]?.result).toEqual({
+        content: [{ type: 'text', text: 'Error: id is required' }], isError: true,
+      });
+    });
+  });
+
+  describe('HTTP', () => {
+    let server: MCPHttpServer;
+
+    afterEach(() => {
+      server.stop();
+    });
+
+    it('should serve the tools to an MCP client', async () => {
+      server = startMCPHttpServer(createMCPServeHandler(bridge, { version: '1.0.0' }), { port: 0 });
+      const client = new HttpMCPClient('daemux', { url: server.url });
+
+      await client.connect();
+      expect(client.capabilities?.tools).toEqual({ listChanged: false });
+      expect((await client.listTools()).map(tool => tool.name)).toContain('AddSchedule');
+
+      await client.callTool('CreateTask', { subject: 'From MCP', description: 'over HTTP' });
+      expect(db.tasks.list().map(task => task.subject)).toEqual(['From MCP']);
+      await expect(client.callTool('RemoveSchedule', { id: 'missing' }))
+        .rejects.toThrow("MCP tool 'RemoveSchedule' failed: Error: Schedule missing not found");
+      await client.disconnect();
+
+      const notification = await fetch(server.url, {
+        method: 'POST', body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+      });
+      expect(notification.status).toBe(202);
+      expect((await fetch(server.url)).status).toBe(405);
+    });
+
+    it('should require the token and refuse foreign origins', async () => {
+      server = startMCPHttpServer(createMCPServeHandler(bridge, { version: '1.0.0' }), { port: 0, token: 'secret' });
+      const ping = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' });
+      const post = (headers: Record<string, string>) => fetch(server.url, { method: 'POST', headers, body: ping });
+
+      await expect(new HttpMCPClient('daemux', { url: server.url }).connect()).rejects.toThrow('returned 401');
+      expect((await post({ Authorization: 'Bearer wrong' })).status).toBe(401);
+      expect((await post({ Authorization: 'Bearer secret', Origin: 'https://evil.example' })).status).toBe(403);
+
+      const allowed = await post({ Authorization: 'Bearer secret', Origin: 'http://localhost:5173' });
+      expect(await allowed.json()).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+
+      const client = new HttpMCPClient('daemux', { url: server.url, headers: { Authorization: 'Bearer secret' } });
+      await client.connect();
+      await client.disconnect();
+    });
+
+    it('should refuse a non-loopback host without a token', () => {
+      const handle = createMCPServeHandler(bridge, { version: '1.0.0' });
+
+      expect(() => startMCPHttpServer(handle, { port: 0, host: '0.0.0.0' }))
+        .toThrow('Refusing to serve on 0.0.0.0 without a token');
+      server = startMCPHttpServer(handle, { port: 0, host: '0.0.0.0', token: 'secret' });
+      expect(server.url).toMatch(/^http:\/\/0\.0\.0\.0:\d+\/mcp$/);
+    });
+  });
+});
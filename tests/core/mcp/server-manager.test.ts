@@ -1,14 +1,22 @@
 /**
  * MCP Server Manager Unit Tests
  *
- * Tests lifecycle management, tool discovery, and tool call routing
+ * Tests lifecycle management, tool discovery, tool call routing, and
+ * supervision (pings, reconnects, tool refresh, health reports)
  * for the MCPServerManager class.
  */
 
-import { describe, it, expect, beforeEach, mock } from 'bun:test';
-import type { MCPServer, MCPConfig, ToolDefinition, MCPTransport } from '@daemux/mcp-client';
+import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import type {
+  MCPServer, MCPConfig, ToolDefinition, MCPTransport, MCPCloseHandler, MCPNotificationHandler,
+} from '@daemux/mcp-client';
+import { createMCPClient } from '@daemux/mcp-client';
 import { MCPServerManager } from '../../../src/core/mcp/server-manager';
 import type { MCPServerManagerDeps } from '../../../src/core/mcp/server-manager';
+import { readHealthReports } from '../../../src/core/mcp/health';
 
 // ---------------------------------------------------------------------------
 // Mock Helpers
@@ -32,6 +40,8 @@ function createMockServer(overrides: Partial<MCPServer> = {}): MCPServer {
     callTool: mock(async () => ({ result: 'ok' })),
     listResources: mock(async () => []),
     readResource: mock(async () => ({ content: '' })),
+    listPrompts: mock(async () => []),
+    getPrompt: mock(async () => ({ messages: [] })),
     ...overrides,
   };
 }
@@ -423,6 +433,70 @@ describe('MCPServerManager', () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Resources and Prompts
+  // -------------------------------------------------------------------------
+
+  describe('resources and prompts', () => {
+    function useServers(servers: Record<string, Partial<MCPServer>>): void {
+      mockCreateMCPClient.mockImplementation((_id: string) => {
+        const server = createMockServer({ id: _id, ...servers[_id] });
+        lastCreatedServers.set(_id, server);
+        return server;
+      });
+    }
+
+    it('should aggregate resources of servers that offer them', async () => {
+      useServers({
+        docs: { listResources: mock(async () => [{ uri: 'file:///a.md', name: 'a.md' }]) },
+        tools: { capabilities: { tools: {} } },
+        broken: { listResources: mock(async () => { throw new Error('boom'); }) },
+      });
+      const manager = createManager();
+      await manager.connectAll({ docs: { command: 'd' }, tools: { command: 't' }, broken: { command: 'b' } });
+
+      expect(await manager.listResources()).toEqual([{ server: 'docs', uri: 'file:///a.md', name: 'a.md' }]);
+      expect(await manager.listResources('tools')).toEqual([]);
+      expect(lastCreatedServers.get('tools')!.listResources).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith("MCP server 'broken' resource listing failed", { error: 'boom' });
+      expect(manager.hasResources).toBe(true);
+    });
+
+    it('should list prompts and route prompt and resource reads by server', async () => {
+      const getPrompt = mock(async () => ({ messages: [{ role: 'user' as const, content: 'Hi' }] }));
+      useServers({
+        git: {
+          capabilities: { prompts: {} },
+          listPrompts: mock(async () => [{ name: 'review' }]),
+          getPrompt,
+        },
+      });
+      const manager = createManager();
+      await manager.connectServer('git', { command: 'git-mcp' });
+
+      expect(await manager.listPrompts()).toEqual([{ server: 'git', name: 'review' }]);
+      expect(await manager.getPrompt('git', 'review', { file: 'a.ts' })).toEqual({
+        messages: [{ role: 'user', content: 'Hi' }],
+      });
+      expect(getPrompt).toHaveBeenCalledWith('review', { file: 'a.ts' });
+      expect(manager.hasResources).toBe(false);
+      await expect(manager.readResource('nope', 'x')).rejects.toThrow("MCP server 'nope' not found");
+    });
+
+    it('should skip servers that do not implement prompts', async () => {
+      useServers({
+        plain: { listPrompts: undefined, getPrompt: undefined },
+        git: { listPrompts: mock(async () => [{ name: 'review' }]) },
+      });
+      const manager = createManager();
+      await manager.connectAll({ plain: { command: 'p' }, git: { command: 'g' } });
+
+      expect(await manager.listPrompts()).toEqual([{ server: 'git', name: 'review' }]);
+      expect(logger.warn).not.toHaveBeenCalled();
+      await expect(manager.getPrompt('plain', 'review', {})).rejects.toThrow("MCP server 'plain' does not offer prompts");
+    });
+  });
+
   // -------------------------------------------------------------------------
   // disconnectAll
   // -------------------------------------------------------------------------
@@ -481,4 +555,252 @@ describe('MCPServerManager', () => {
       expect(manager.serverCount).toBe(0);
     });
   });
+
+  // -------------------------------------------------------------------------
+  // Supervision
+  // -------------------------------------------------------------------------
+
+  describe('supervision', () => {
+    const fastSupervision = { pingIntervalMs: 60_000, pingTimeoutMs: 50, reconnectBaseDelayMs: 1, reconnectMaxDelayMs: 5 };
+    let closeHandlers: Map<string, MCPCloseHandler>;
+    let notificationHandlers: Map<string, MCPNotificationHandler>;
+    let toolsByCall: ToolDefinition[][];
+    let connectError: Error | null;
+
+    function createSupervisedManager(healthDir?: string): MCPServerManager {
+      return new MCPServerManager(logger, deps, { supervision: { ...fastSupervision, healthDir } });
+    }
+
+    const waitFor = async (check: () => boolean) => {
+      for (let i = 0; i < 100 && !check(); i++) await new Promise(resolve => setTimeout(resolve, 5));
+    };
+
+    beforeEach(() => {
+      closeHandlers = new Map();
+      notificationHandlers = new Map();
+      toolsByCall = [];
+      connectError = null;
+      let created = 0;
+
+      mockCreateMCPClient.mockImplementation((_id: string) => {
+        const tools = toolsByCall[created] ?? sampleTools;
+        created++;
+        const server = createMockServer({
+          id: _id,
+          connect: mock(async () => { if (connectError) throw connectError; }),
+          listTools: mock(async () => tools),
+          ping: mock(async () => {}),
+          onClose: (handler) => { closeHandlers.set(_id, handler); },
+          onNotification: (handler) => { notificationHandlers.set(_id, handler); },
+        });
+        lastCreatedServers.set(_id, server);
+        return server;
+      });
+    });
+
+    it('should reconnect with a new client after the connection closes', async () => {
+      toolsByCall = [sampleTools, sampleTools.slice(0, 1)];
+      const manager = createSupervisedManager();
+      const changes: string[][] = [];
+      manager.onToolsChanged(tools => changes.push(tools.map(t => t.name)));
+      await manager.connectServer('fs', { command: 'fs-mcp' });
+      const first = lastCreatedServers.get('fs')!;
+
+      closeHandlers.get('fs')!('process exited with code 1');
+      expect(manager.isConnected('fs')).toBe(false);
+      await expect(manager.callTool('mcp__fs__read_file', {})).rejects.toThrow(
+        "MCP server 'fs' is reconnecting (process exited with code 1)",
+      );
+
+      await waitFor(() => manager.isConnected('fs'));
+      expect(manager.isConnected('fs')).toBe(true);
+      expect(lastCreatedServers.get('fs')).not.toBe(first);
+      expect(first.disconnect).toHaveBeenCalled();
+      expect(changes).toEqual([['mcp__fs__read_file']]);
+      await manager.disconnectAll();
+    });
+
+    it('should treat a failed ping as a dropped connection', async () => {
+      const manager = createSupervisedManager();
+      await manager.connectServer('slow', { command: 'slow-mcp' });
+      const first = lastCreatedServers.get('slow')!;
+      first.ping = mock(() => new Promise<void>(() => {}));
+
+      await manager.checkHealth('slow');
+
+      expect(manager.getHealth()[0]).toMatchObject({ status: 'reconnecting', lastError: 'ping failed: no answer within 50ms' });
+      await waitFor(() => manager.isConnected('slow'));
+      expect(manager.getHealth()[0]).toMatchObject({ status: 'connected', reconnectAttempts: 0 });
+      await manager.disconnectAll();
+    });
+
+    it('should refresh tools on notifications/tools/list_changed', async () => {
+      const manager = createSupervisedManager();
+      const changes: number[] = [];
+      manager.onToolsChanged(tools => changes.push(tools.length));
+      await manager.connectServer('fs', { command: 'fs-mcp' });
+      lastCreatedServers.get('fs')!.listTools = mock(async () => sampleTools.slice(1));
+
+      notificationHandlers.get('fs')!('notifications/tools/list_changed', {});
+      await waitFor(() => changes.length > 0);
+
+      expect(changes).toEqual([1]);
+      expect(manager.getToolDefinitions().map(t => t.name)).toEqual(['mcp__fs__write_file']);
+      await manager.disconnectAll();
+    });
+
+    it('should forward log and progress notifications to the logger', async () => {
+      const debug = mock(() => {});
+      const manager = new MCPServerManager({ ...logger, debug }, deps, { supervision: fastSupervision });
+      await manager.connectServer('db', { command: 'db-mcp' });
+      const notify = notificationHandlers.get('db')!;
+
+      notify('notifications/message', { level: 'warning', logger: 'query', data: 'slow query' });
+      notify('notifications/message', { level: 'critical', data: { code: 7 } });
+      notify('notifications/progress', { progressToken: 't1', progress: 3, total: 10 });
+
+      expect(logger.warn).toHaveBeenCalledWith("MCP server 'db' (query): slow query");
+      expect(logger.error).toHaveBeenCalledWith(`MCP server 'db': {"code":7}`);
+      expect(debug).toHaveBeenCalledWith("MCP server 'db' progress", { progressToken: 't1', progress: 3, total: 10 });
+      await manager.disconnectAll();
+    });
+
+    it('should keep retrying servers that failed to connect at startup', async () => {
+      connectError = new Error('Connection refused');
+      const manager = createSupervisedManager();
+
+      const result = await manager.connectAll({ late: { url: 'http://localhost:1/mcp' } });
+      expect(result.failed).toHaveLength(1);
+      await waitFor(() => manager.getHealth()[0]!.reconnectAttempts >= 2);
+      expect(manager.getHealth()[0]).toMatchObject({ status: 'reconnecting', lastError: 'Connection refused' });
+
+      connectError = null;
+      await waitFor(() => manager.isConnected('late'));
+      expect(manager.getToolDefinitions()).toHaveLength(2);
+      await manager.disconnectAll();
+    });
+
+    it('should write health reports and remove them on disconnect', async () => {
+      const healthDir = mkdtempSync(join(tmpdir(), 'daemux-mcp-health-'));
+      try {
+        writeFileSync(join(healthDir, '999999999.json'), '{}');
+        const manager = createSupervisedManager(healthDir);
+        await manager.connectServer('fs', { command: 'fs-mcp' });
+
+        const reports = readHealthReports(healthDir);
+        expect(reports).toHaveLength(1);
+        expect(reports[0]!.pid).toBe(process.pid);
+        expect(reports[0]!.servers).toEqual([expect.objectContaining({ id: 'fs', status: 'connected', toolCount: 2 })]);
+
+        await manager.disconnectAll();
+        expect(readHealthReports(healthDir)).toEqual([]);
+      } finally {
+        rmSync(healthDir, { recursive: true, force: true });
+      }
+    });
+
+    describe('with a stdio server', () => {
+      let dir: string;
+
+      beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'daemux-mcp-stdio-'));
+        deps = { createMCPClient: (id, transport, config) => createMCPClient(id, transport, config) };
+      });
+
+      afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+      });
+
+      it('should restart a crashed server and pick up changed tools', async () => {
+        // Lists one tool per start; "crash" exits, "change" announces a new tool list
+        const script = join(dir, 'server.js');
+        const counter = join(dir, 'starts');
+        writeFileSync(script, `
+          const fs = require('fs');
+          const starts = (fs.existsSync(${JSON.stringify(counter)}) ? Number(fs.readFileSync(${JSON.stringify(counter)}, 'utf8')) : 0) + 1;
+          fs.writeFileSync(${JSON.stringify(counter)}, String(starts));
+          let extra = false;
+          const send = (msg) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...msg }) + '\\n');
+          let buffer = '';
+          process.stdin.on('data', (chunk) => {
+            buffer += chunk;
+            let idx;
+            while ((idx = buffer.indexOf('\\n')) !== -1) {
+              const msg = JSON.parse(buffer.slice(0, idx));
+              buffer = buffer.slice(idx + 1);
+              if (msg.id === undefined) continue;
+              if (msg.method === 'tools/list') {
+                const tools = [{ name: 'start_' + starts, inputSchema: { type: 'object', properties: {} } }];
+                if (extra) tools.push({ name: 'extra', inputSchema: { type: 'object', properties: {} } });
+                send({ id: msg.id, result: { tools } });
+              } else if (msg.method === 'tools/call' && msg.params.name === 'crash') {
+                process.exit(1);
+              } else if (msg.method === 'tools/call' && msg.params.name === 'change') {
+                extra = true;
+                send({ id: msg.id, result: { content: [{ type: 'text', text: 'ok' }] } });
+                send({ method: 'notifications/tools/list_changed' });
+              } else {
+                send({ id: msg.id, result: {} });
+              }
+            }
+          });
+        `);
+        const manager = createSupervisedManager();
+        await manager.connectServer('local', { command: process.execPath, args: [script] });
+        expect(manager.getToolDefinitions().map(t => t.name)).toEqual(['mcp__local__start_1']);
+
+        await manager.callTool('mcp__local__change', {});
+        await waitFor(() => manager.getToolDefinitions().length === 2);
+        expect(manager.getToolDefinitions().map(t => t.name)).toEqual(['mcp__local__start_1', 'mcp__local__extra']);
+
+        await manager.callTool('mcp__local__crash', {}).catch(() => {});
+        await waitFor(() => manager.getToolDefinitions()[0]?.name === 'mcp__local__start_2');
+        expect(manager.isConnected('local')).toBe(true);
+        await manager.checkHealth('local');
+        expect(manager.getHealth()[0]!.lastPingAt).toBeNumber();
+
+        await manager.disconnectAll();
+      });
+
+      it('should read capabilities and prompts from the server', async () => {
+        // Announces prompts only and echoes prompt arguments back as text
+        const script = join(dir, 'prompts.js');
+        writeFileSync(script, `
+          const send = (msg) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...msg }) + '\\n');
+          let buffer = '';
+          process.stdin.on('data', (chunk) => {
+            buffer += chunk;
+            let idx;
+            while ((idx = buffer.indexOf('\\n')) !== -1) {
+              const msg = JSON.parse(buffer.slice(0, idx));
+              buffer = buffer.slice(idx + 1);
+              if (msg.id === undefined) continue;
+              if (msg.method === 'initialize') {
+                send({ id: msg.id, result: { capabilities: { prompts: {} } } });
+              } else if (msg.method === 'prompts/list') {
+                send({ id: msg.id, result: { prompts: [{ name: 'greet', arguments: [{ name: 'who', required: true }] }] } });
+              } else if (msg.method === 'prompts/get') {
+                const text = 'Say hello to ' + msg.params.arguments.who;
+                send({ id: msg.id, result: { messages: [{ role: 'user', content: { type: 'text', text } }] } });
+              } else {
+                send({ id: msg.id, result: msg.method === 'tools/list' ? { tools: [] } : {} });
+              }
+            }
+          });
+        `);
+        const manager = createSupervisedManager();
+        await manager.connectServer('local', { command: process.execPath, args: [script] });
+
+        expect(manager.hasResources).toBe(false);
+        expect(await manager.listPrompts()).toEqual([
+          { server: 'local', name: 'greet', arguments: [{ name: 'who', required: true }] },
+        ]);
+        expect(await manager.getPrompt('local', 'greet', { who: 'Ada' })).toEqual({
+          messages: [{ role: 'user', content: 'Say hello to Ada' }],
+        });
+
+        await manager.disconnectAll();
+      });
+    });
+  });
 });
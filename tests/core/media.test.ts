@@ -0,0 +1,105 @@
+/**
+ * Media Block Tests
+ * Building image and PDF blocks, their text stand-ins and token estimates,
+ * and Read results reaching the model as content blocks
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+import { Database } from '../../src/infra/database';
+import { EventBus } from '../../src/core/event-bus';
+import { AgenticLoop } from '../../src/core/loop';
+import {
+  mediaTypeForPath,
+  toMediaBlock,
+  describeMedia,
+  estimateMediaTokens,
+  MAX_IMAGE_BYTES,
+} from '../../src/core/media';
+import { estimateMessageTokens } from '../../src/core/token-counter';
+import { createReadyMockProvider } from '../mocks/mock-llm-provider';
+import type { Config } from '../../src/core/types';
+
+const testConfig: Config = {
+  agentId: 'test-agent',
+  dataDir: '/tmp/test-media',
+  model: 'mock-model',
+  compactionThreshold: 0.8,
+  effectiveContextWindow: 180000,
+  queueMode: 'steer',
+  collectWindowMs: 5000,
+  hookTimeoutMs: 600000,
+  turnTimeoutMs: 1800000,
+  debug: false,
+  mcpDebug: false,
+  heartbeatIntervalMs: 1800000,
+  heartbeatEnabled: false,
+  maxConcurrentTasks: 3,
+  workPollingIntervalMs: 5000,
+  workBudgetMaxTasksPerHour: 50,
+};
+
+describe('media blocks', () => {
+  it('should detect viewable files by extension', () => {
+    expect(mediaTypeForPath('/tmp/Photo.JPG')).toBe('image/jpeg');
+    expect(mediaTypeForPath('spec.pdf')).toBe('application/pdf');
+    expect(mediaTypeForPath('notes.txt')).toBeUndefined();
+  });
+
+  it('should build image and document blocks and reject what cannot be sent', () => {
+    expect(toMediaBlock(Buffer.from('abc'), 'image/gif', 'a.gif')).toEqual({
+      type: 'image', source: { type: 'base64', media_type: 'image/gif', data: 'YWJj' },
+    });
+    expect(toMediaBlock(Buffer.from('abc'), 'application/pdf', 'a.pdf')).toMatchObject({ type: 'document', title: 'a.pdf' });
+
+    expect(() => toMediaBlock(Buffer.from('abc'), 'image/tiff')).toThrow('Unsupported media type');
+    expect(() => toMediaBlock(Buffer.alloc(MAX_IMAGE_BYTES + 1), 'image/png')).toThrow('too large');
+  });
+
+  it('should describe and price blocks without their base64 data', () => {
+    const image = toMediaBlock(Buffer.alloc(10 * 1024), 'image/png');
+    const pdf = toMediaBlock(Buffer.alloc(5000), 'application/pdf', 'spec.pdf');
+
+    expect(describeMedia(image)).toBe('[image: image/png, 10 KB]');
+    expect(describeMedia(pdf)).toBe('[document: spec.pdf, application/pdf, 5 KB]');
+    expect(estimateMediaTokens(image)).toBe(1600);
+    expect(estimateMediaTokens(pdf)).toBe(100);
+
+    const tokens = estimateMessageTokens([{ type: 'text', text: 'look' }, image]);
+    expect(tokens).toBeLessThan(1700);
+  });
+});
+
+describe('Read with a vision-capable model', () => {
+  const testDir = join(import.meta.dir, 'test-media-temp');
+  let db: Database;
+
+  beforeEach(async () => {
+    mkdirSync(testDir, { recursive: true });
+    db = new Database({ path: ':memory:', enableVec: false });
+    await db.initialize();
+  });
+
+  afterEach(() => {
+    db.close();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should send the image to the model after the tool result', async () => {
+    const imagePath = join(testDir, 'screenshot.png');
+    writeFileSync(imagePath, Buffer.from('fake png'));
+    const provider = createReadyMockProvider();
+    provider.capabilities.vision = true;
+    provider.addToolUseResponse('Read', { path: imagePath }, 'tool-1');
+    provider.addTextResponse('A screenshot');
+    const loop = new AgenticLoop({ db, eventBus: new EventBus(), config: testConfig, provider });
+
+    const result = await loop.run('What is in the screenshot?');
+
+    expect(result.response).toBe('A screenshot');
+    expect(result.toolCalls[0]?.media).toHaveLength(1);
+    const content = provider.getLastCall()!.messages.at(-1)!.content as Array<{ type: string }>;
+    expect(content.map(b => b.type)).toEqual(['tool_result', 'image']);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Model Router Tests
+ * Role defaults, alias resolution through provider model lists, and
+ * startup validation of the routing config
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { ModelRouter } from '../../src/core/model-router';
+import { ProviderManager } from '../../src/core/provider-manager';
+import { ComplexityClassifier } from '../../src/core/complexity-classifier';
+import type { LLMProvider, LLMChatOptions } from '../../src/core/plugin-api-types';
+import type { ModelRouting } from '../../src/core/types';
+
+function makeProvider(id: string, models: string[], options: { ready?: boolean; calls?: LLMChatOptions[] } = {}): LLMProvider {
+  return {
+    id,
+    name: id,
+    capabilities: { streaming: true, toolUse: true, vision: false, maxContextWindow: 200000 },
+    initialize: async () => {},
+    isReady: () => options.ready ?? true,
+    verifyCredentials: async () => ({ valid: true }),
+    listModels: () => models.map(m => ({ id: m, name: m, contextWindow: 200000, maxOutputTokens: 8192 })),
+    getDefaultModel: () => models[0] ?? `${id}-default`,
+    chat: async function* () { yield { type: 'done' as const, stopReason: 'end_turn' as const }; },
+    compactionChat: async (opts) => {
+      options.calls?.push(opts);
+      return { content: [{ type: 'text', text: 'simple' }], stopReason: 'end_turn' };
+    },
+    shutdown: async () => {},
+  };
+}
+
+function routing(partial: Partial<ModelRouting>): ModelRouting {
+  return { roles: {}, aliases: {}, ...partial };
+}
+
+const anthropic = makeProvider('anthropic', [
+  'claude-sonnet-4-5-20250929', 'claude-haiku-4-5-20251001', 'claude-opus-4-1-20250805',
+]);
+
+describe('ModelRouter', () => {
+  it('should resolve built-in aliases through the provider model list', () => {
+    const router = new ModelRouter({ model: 'default' }, new ProviderManager());
+
+    expect(router.resolveRole('classifier', anthropic).model).toBe('claude-haiku-4-5-20251001');
+    expect(router.resolve('opus', anthropic).model).toBe('claude-opus-4-1-20250805');
+    expect(router.resolveRole('main', anthropic).model).toBe('claude-sonnet-4-5-20250929');
+    // Providers that list nothing get the built-in ids
+    expect(router.resolve('haiku', makeProvider('bare', [])).model).toBe('claude-haiku-3-5-20250514');
+    // Providers without a match fall back to their default model
+    expect(router.resolve('haiku', makeProvider('openai', ['gpt-4o-mini'])).model).toBe('gpt-4o-mini');
+
+    const capped = new ModelRouter({ models: routing({ aliases: { haiku: { model: 'haiku', maxTokens: 1000 } } }) });
+    expect(capped.resolve('haiku', anthropic)).toMatchObject({ model: 'claude-haiku-4-5-20251001', maxTokens: 1000 });
+  });
+
+  it('should prefer explicit model settings over role routes', () => {
+    const models = routing({ roles: { main: { model: 'opus', maxTokens: 8000 }, compaction: 'sonnet' } });
+
+    const routed = new ModelRouter({ model: 'default', models }, new ProviderManager());
+    expect(routed.resolveRole('main', anthropic)).toMatchObject({ model: 'claude-opus-4-1-20250805', maxTokens: 8000 });
+    expect(routed.resolveRole('compaction', anthropic).model).toBe('claude-sonnet-4-5-20250929');
+    expect(routed.resolveRole('subagent', anthropic).model).toBe('claude-opus-4-1-20250805');
+
+    const explicit = new ModelRouter({ model: 'claude-x', compactionModel: 'haiku', models }, new ProviderManager());
+    expect(explicit.resolveRole('main', anthropic)).toMatchObject({ model: 'claude-x', maxTokens: 8000 });
+    expect(explicit.resolveRole('compaction', anthropic).model).toBe('claude-haiku-4-5-20251001');
+    expect(explicit.resolveRole('compaction', anthropic, 'my-model').model).toBe('my-model');
+  });
+
+  it('should follow configured aliases and route them to other providers', () => {
+    const local = makeProvider('openai', ['llama3.1:8b']);
+    const manager = new ProviderManager();
+    manager.registerProvider(local);
+    const router = new ModelRouter({
+      model: 'default',
+      models: routing({
+        roles: { planner: 'fast', agentFactory: { model: 'fast', maxTokens: 900 } },
+        aliases: { fast: { model: 'local', maxTokens: 300 }, local: 'openai:llama3.1:8b', haiku: 'local' },
+      }),
+    }, manager);
+
+    const planner = router.resolveRole('planner', anthropic);
+    expect(planner).toEqual({ provider: local, model: 'llama3.1:8b', maxTokens: 300 });
+    expect(router.resolveRole('agentFactory', anthropic).maxTokens).toBe(900);
+    expect(router.resolveRole('classifier', anthropic).provider).toBe(local);
+    expect(router.qualify(planner, anthropic)).toBe('openai:llama3.1:8b');
+    expect(router.qualify(router.resolve('sonnet', anthropic), anthropic)).toBe('claude-sonnet-4-5-20250929');
+  });
+
+  it('should report broken routes as errors and unlisted models as warnings', () => {
+    const manager = new ProviderManager();
+    manager.registerProvider(makeProvider('openai', ['gpt-4o-mini'], { ready: false }));
+    const router = new ModelRouter({
+      model: 'claude-unknown',
+      models: routing({
+        roles: { planner: 'loop-a', classifier: 'openai:gpt-4o-mini' },
+        aliases: { 'loop-a': 'loop-b', 'loop-b': 'loop-a' },
+      }),
+    }, manager);
+
+    const report = router.validate(anthropic);
+
+    expect(report.errors).toContain('role planner: Model alias cycle: loop-a -> loop-b -> loop-a');
+    expect(report.errors.some(e => e.startsWith('role classifier: Provider openai is not initialized'))).toBe(true);
+    expect(report.warnings).toContain('role main: model "claude-unknown" is not listed by provider anthropic');
+  });
+
+  it('should route classifier calls through the configured role', async () => {
+    const calls: LLMChatOptions[] = [];
+    const provider = makeProvider('anthropic', [], { calls });
+    const router = new ModelRouter({ models: routing({ roles: { classifier: { model: 'claude-tiny', maxTokens: 5 } } }) });
+
+    await new ComplexityClassifier({ provider, router }).classify('What is 2+2?');
+
+    expect(calls[0]).toMatchObject({ model: 'claude-tiny', maxTokens: 5 });
+  });
+});
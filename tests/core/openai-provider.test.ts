@@ -0,0 +1,202 @@
+/**
+ * OpenAI-Compatible Provider Tests
+ * Message mapping, streamed tool calls against a local server, and
+ * provider-qualified model routing
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'bun:test';
+import type { Server } from 'bun';
+import { createOpenAIProvider, toOpenAIMessages } from '../../src/core/openai-provider';
+import { ProviderManager, resolveModelProvider } from '../../src/core/provider-manager';
+import type { LLMChatChunk, LLMProvider } from '../../src/core/plugin-api-types';
+
+let server: Server;
+let lastRequest: { headers: Headers; body: Record<string, unknown> } | null = null;
+
+function sse(events: unknown[]): Response {
+  const body = events.map(e => `data: ${JSON.stringify(e)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(body, { headers: { 'content-type': 'text/event-stream' } });
+}
+
+const toolCallStream = [
+  { choices: [{ delta: { content: 'Let me look.' } }] },
+  { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'Read', arguments: '{"path":' } }] } }] },
+  { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '"/tmp/a"}' } }] } }] },
+  { choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+  { choices: [], usage: { prompt_tokens: 120, completion_tokens: 15, prompt_tokens_details: { cached_tokens: 20 } } },
+];
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      if (url.pathname === '/v1/models') {
+        return req.headers.get('authorization') === 'Bearer good-key'
+          ? Response.json({ data: [] })
+          : new Response('unauthorized', { status: 401 });
+      }
+      const body = await req.json() as Record<string, unknown>;
+      lastRequest = { headers: req.headers, body };
+      if (body.model === 'broken') return new Response('model not loaded', { status: 500 });
+      if (body.stream) return sse(toolCallStream);
+      return Response.json({
+        choices: [{ message: { content: 'A summary' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 50, completion_tokens: 5 },
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+afterEach(() => {
+  lastRequest = null;
+});
+
+async function collect(gen: AsyncGenerator<LLMChatChunk>): Promise<LLMChatChunk[]> {
+  const chunks: LLMChatChunk[] = [];
+  for await (const chunk of gen) chunks.push(chunk);
+  return chunks;
+}
+
+function localProvider() {
+  return createOpenAIProvider({ baseUrl: `http://localhost:${server.port}/v1`, defaultModel: 'local-model' });
+}
+
+describe('OpenAI-compatible provider', () => {
+  it('should map tool_use and tool_result blocks to tool calls and tool messages', () => {
+    const mapped = toOpenAIMessages('Be brief', [
+      { role: 'user', content: 'read it' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'thinking', thinking: 'hmm', signature: 's' },
+          { type: 'text', text: 'Reading' },
+          { type: 'tool_use', id: 'tu_1', name: 'Read', input: { path: '/tmp/a' } },
+        ],
+      },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'tu_1', content: 'hello' }] },
+    ]);
+
+    expect(mapped).toEqual([
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'read it' },
+      {
+        role: 'assistant',
+        content: 'Reading',
+        tool_calls: [{ id: 'tu_1', type: 'function', function: { name: 'Read', arguments: '{"path":"/tmp/a"}' } }],
+      },
+      { role: 'tool', tool_call_id: 'tu_1', content: 'hello' },
+    ]);
+  });
+
+  it('should map image and document blocks to content parts', () => {
+    const source = (media_type: string) => ({ type: 'base64' as const, media_type, data: 'AAAA' });
+    const mapped = toOpenAIMessages(undefined, [
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'tu_1', content: 'Read image' },
+          { type: 'image', source: source('image/png') },
+          { type: 'document', source: source('application/pdf'), title: 'spec.pdf' },
+        ],
+      },
+    ]);
+
+    expect(mapped).toEqual([
+      { role: 'tool', tool_call_id: 'tu_1', content: 'Read image' },
+      {
+        role: 'user',
+        content: [
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+          { type: 'file', file: { filename: 'spec.pdf', file_data: 'data:application/pdf;base64,AAAA' } },
+        ],
+      },
+    ]);
+  });
+
+  it('should stream text, reassemble tool call arguments and report usage', async () => {
+    const provider = localProvider();
+    await provider.initialize({ type: 'api_key', value: '' });
+
+    const chunks = await collect(provider.chat({
+      model: 'local-model',
+      messages: [{ role: 'user', content: 'hi' }],
+      tools: [{ name: 'Read', description: 'Read a file', inputSchema: { type: 'object', properties: {} } }],
+    }));
+
+    expect(chunks[0]).toEqual({ type: 'text', content: 'Let me look.' });
+    expect(chunks[1]).toEqual({ type: 'tool_use', toolUseId: 'call_1', toolName: 'Read', toolInput: { path: '/tmp/a' } });
+    expect(chunks[2]).toEqual({
+      type: 'done',
+      stopReason: 'tool_use',
+      usage: { inputTokens: 100, outputTokens: 15, cacheReadTokens: 20, cacheWriteTokens: 0 },
+    });
+    expect(lastRequest?.headers.get('authorization')).toBeNull();
+    expect((lastRequest?.body.tools as unknown[])).toHaveLength(1);
+    expect(lastRequest?.body.tool_choice).toBeUndefined();
+  });
+
+  it('should map a forced tool choice to a function tool_choice', async () => {
+    const provider = localProvider();
+    await provider.initialize({ type: 'api_key', value: '' });
+
+    await provider.compactionChat({
+      model: 'local-model',
+      messages: [{ role: 'user', content: 'answer' }],
+      tools: [{ name: 'StructuredOutput', description: 'Answer', inputSchema: { type: 'object', properties: {} } }],
+      toolChoice: { type: 'tool', name: 'StructuredOutput' },
+    });
+
+    expect(lastRequest?.body.tool_choice).toEqual({ type: 'function', function: { name: 'StructuredOutput' } });
+  });
+
+  it('should answer compaction requests without streaming', async () => {
+    const provider = localProvider();
+    await provider.initialize({ type: 'api_key', value: 'sk-test' });
+
+    const response = await provider.compactionChat({ model: 'local-model', messages: [{ role: 'user', content: 'sum' }] });
+
+    expect(response.content).toEqual([{ type: 'text', text: 'A summary' }]);
+    expect(response.stopReason).toBe('end_turn');
+    expect(lastRequest?.headers.get('authorization')).toBe('Bearer sk-test');
+  });
+
+  it('should surface HTTP errors with the status code', async () => {
+    const provider = localProvider();
+    await provider.initialize({ type: 'api_key', value: '' });
+
+    await expect(provider.compactionChat({ model: 'broken', messages: [] })).rejects.toThrow('OpenAI API error 500');
+  });
+
+  it('should reject keys the endpoint refuses', async () => {
+    const provider = localProvider();
+
+    expect(await provider.verifyCredentials({ type: 'api_key', value: 'good-key' })).toEqual({ valid: true });
+    expect((await provider.verifyCredentials({ type: 'api_key', value: 'bad-key' })).valid).toBe(false);
+  });
+});
+
+describe('resolveModelProvider', () => {
+  const fallback = { id: 'anthropic', isReady: () => true } as unknown as LLMProvider;
+
+  it('should route provider-qualified ids to a registered provider', async () => {
+    const openai = localProvider();
+    await openai.initialize({ type: 'api_key', value: '' });
+    const manager = new ProviderManager();
+    manager.registerProvider(openai);
+
+    expect(resolveModelProvider('openai:llama3.1:8b', fallback, manager)).toEqual({ provider: openai, model: 'llama3.1:8b' });
+    expect(resolveModelProvider('anthropic:claude-x', fallback, manager)).toEqual({ provider: fallback, model: 'claude-x' });
+  });
+
+  it('should keep unknown prefixes as part of the model id', () => {
+    const manager = new ProviderManager();
+
+    expect(resolveModelProvider('llama3:8b', fallback, manager)).toEqual({ provider: fallback, model: 'llama3:8b' });
+    expect(resolveModelProvider('claude-sonnet', fallback, manager)).toEqual({ provider: fallback, model: 'claude-sonnet' });
+  });
+});
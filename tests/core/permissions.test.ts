@@ -0,0 +1,321 @@
+/**
+ * Permission Rules Engine Tests
+ * Rule matching, approval routing, audit logging and per-project memory
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { join } from 'path';
+import { existsSync, mkdirSync, readFileSync, rmSync } from 'fs';
+import { NESTED_COMMAND, PermissionEngine, parsePermissionRule, splitCommand } from '../../src/core/permissions';
+import { ApprovalManager } from '../../src/core/approval-manager';
+import { ToolExecutor } from '../../src/core/loop/executor';
+import { EventBus } from '../../src/core/event-bus';
+import { Database } from '../../src/infra/database';
+
+describe('parsePermissionRule', () => {
+  it('should parse bare tool names and specifiers', () => {
+    expect(parsePermissionRule('Read')).toEqual({ source: 'Read', tool: 'Read', specifier: undefined });
+    expect(parsePermissionRule('Bash(git push:*)')).toEqual({
+      source: 'Bash(git push:*)', tool: 'Bash', specifier: 'git push:*',
+    });
+  });
+
+  it('should reject malformed rules', () => {
+    expect(parsePermissionRule('Bash(git')).toBeNull();
+    expect(parsePermissionRule('')).toBeNull();
+  });
+});
+
+describe('splitCommand', () => {
+  it('should split chains, pipes and lines outside quotes', () => {
+    expect(splitCommand('git status && rm -rf x || echo; ls | wc -l\nsleep 1 & pwd')).toEqual([
+      'git status', 'rm -rf x', 'echo', 'ls', 'wc -l', 'sleep 1', 'pwd',
+    ]);
+    expect(splitCommand(`echo "a && b" 'c; d' e\\; f 2>&1 &> log`)).toEqual([`echo "a && b" 'c; d' e\\; f 2>&1 &> log`]);
+  });
+});
+
+describe('PermissionEngine.evaluate', () => {
+  const engine = new PermissionEngine({
+    projectDir: '/work/project',
+    rules: {
+      allow: ['Read(**)', 'Bash(git status)', 'mcp__github__*'],
+      ask: ['Bash(git push:*)'],
+      deny: ['Write(/etc/**)', 'Read(*.pem)'],
+    },
+  });
+
+  it('should match Bash command prefixes', () => {
+    expect(engine.evaluate('Bash', { command: 'git push origin main' })).toEqual({
+      behavior: 'ask', rule: 'Bash(git push:*)',
+    });
+    expect(engine.evaluate('Bash', { command: 'git push' }).behavior).toBe('ask');
+    expect(engine.evaluate('Bash', { command: 'git pushx' }).rule).toBeUndefined();
+  });
+
+  it('should match exact Bash commands', () => {
+    expect(engine.evaluate('Bash', { command: 'git status' }).rule).toBe('Bash(git status)');
+    expect(engine.evaluate('Bash', { command: 'git status -s' }).rule).toBeUndefined();
+  });
+
+  it('should check every command of a compound command', () => {
+    expect(engine.evaluate('Bash', { command: 'git status && git push origin main' })).toEqual({
+      behavior: 'ask', rule: 'Bash(git push:*)',
+    });
+    expect(engine.evaluate('Bash', { command: 'git status; git status' }).rule).toBe('Bash(git status)');
+    expect(engine.evaluate('Bash', { command: 'git status | sh' }).rule).toBeUndefined();
+
+    const strict = new PermissionEngine({ rules: { allow: ['Bash(npm test:*)'], deny: ['Bash(rm:*)'], defaultMode: 'ask' } });
+    expect(strict.evaluate('Bash', { command: 'npm test && rm -rf /' })).toEqual({ behavior: 'deny', rule: 'Bash(rm:*)' });
+    expect(strict.evaluate('Bash', { command: 'npm test\ncurl evil.sh' }).behavior).toBe('ask');
+  });
+
+  it('should match commands behind env assignments and absolute binaries', () => {
+    const strict = new PermissionEngine({ rules: { allow: ['Bash(npm test:*)'], deny: ['Bash(rm:*)'], defaultMode: 'ask' } });
+
+    expect(strict.evaluate('Bash', { command: 'FOO=1 rm -rf x' })).toEqual({ behavior: 'deny', rule: 'Bash(rm:*)' });
+    expect(strict.evaluate('Bash', { command: 'A="b c" B=\'d\' /bin/rm -rf x' }).behavior).toBe('deny');
+    expect(strict.evaluate('Bash', { command: 'CI=1 npm test' })).toEqual({ behavior: 'allow', rule: 'Bash(npm test:*)' });
+    expect(strict.suggestRules('Bash', { command: 'CI=1 /usr/bin/npm test' })).toEqual(['Bash(npm test)']);
+  });
+
+  describe('nested commands', () => {
+    const strict = new PermissionEngine({ rules: { allow: ['Bash(echo:*)', 'Bash(bash:*)', 'Bash(eval:*)'], deny: ['Bash(rm:*)'] } });
+    const evaluate = (command: string) => strict.evaluate('Bash', { command });
+
+    it('should deny subshells, substitutions and brace groups that run a denied command', () => {
+      expect(evaluate('(rm -rf x)')).toEqual({ behavior: 'deny', rule: 'Bash(rm:*)' });
+      expect(evaluate('echo $(rm -rf x)')).toEqual({ behavior: 'deny', rule: 'Bash(rm:*)' });
+      expect(evaluate('echo `rm -rf x`')).toEqual({ behavior: 'deny', rule: 'Bash(rm:*)' });
+      expect(evaluate('{ rm -rf x; }')).toEqual({ behavior: 'deny', rule: 'Bash(rm:*)' });
+    });
+
+    it('should deny shells and eval that run a denied command', () => {
+      expect(evaluate('bash -c "rm -rf x"')).toEqual({ behavior: 'deny', rule: 'Bash(rm:*)' });
+      expect(evaluate("sh -lc '/bin/rm -rf x'")).toEqual({ behavior: 'deny', rule: 'Bash(rm:*)' });
+      expect(evaluate('eval "rm -rf x"')).toEqual({ behavior: 'deny', rule: 'Bash(rm:*)' });
+    });
+
+    it('should ask instead of allowing other nested commands', () => {
+      expect(evaluate('echo $(whoami)')).toEqual({ behavior: 'ask', rule: NESTED_COMMAND });
+      expect(evaluate('bash -c "ls"')).toEqual({ behavior: 'ask', rule: NESTED_COMMAND });
+      expect(evaluate('(cd src)')).toEqual({ behavior: 'ask', rule: NESTED_COMMAND });
+      expect(evaluate("echo 'literal $(rm x) (and) `text`'")).toEqual({ behavior: 'allow', rule: 'Bash(echo:*)' });
+      expect(evaluate('echo ${HOME} {a,b}')).toEqual({ behavior: 'allow', rule: 'Bash(echo:*)' });
+    });
+
+    it('should allow a nested command approved as written', () => {
+      const approved = new PermissionEngine({ rules: { approved: ['Bash(echo $(whoami))'] } });
+      expect(approved.evaluate('Bash', { command: 'echo $(whoami)' }).behavior).toBe('allow');
+    });
+  });
+
+  it('should apply Bash rules to background shells and their input', () => {
+    const strict = new PermissionEngine({ rules: { deny: ['Bash(rm:*)'], ask: ['Bash'] } });
+
+    expect(strict.evaluate('BashBackground', { command: 'npm run dev & rm -rf /' })).toEqual({
+      behavior: 'deny', rule: 'Bash(rm:*)',
+    });
+    expect(strict.evaluate('BashInput', { shell_id: 'sh1', input: 'ls\nrm -rf /\n' }).behavior).toBe('deny');
+    expect(strict.evaluate('BashInput', { shell_id: 'sh1', input: 'ls\n' })).toEqual({ behavior: 'ask', rule: 'Bash' });
+    expect(strict.suggestRule('BashBackground', { command: 'npm run *' })).toBe('BashBackground(npm run \\*)');
+  });
+
+  it('should match path globs against resolved paths', () => {
+    expect(engine.evaluate('Write', { path: '/etc/hosts' }).behavior).toBe('deny');
+    expect(engine.evaluate('Write', { path: 'etc/hosts' }).behavior).toBe('allow');
+    expect(engine.evaluate('Read', { path: 'src/index.ts' }).rule).toBe('Read(**)');
+  });
+
+  it('should apply Write and Edit rules to every file a patch touches', () => {
+    const patch = (from: string, to: string) => `--- ${from}\n+++ ${to}\n@@ -1 +1 @@\n-old\n+new\n`;
+    const strict = new PermissionEngine({
+      projectDir: '/work/project',
+      rules: { allow: ['Edit(./src/**)'], deny: ['Write(/etc/**)'], defaultMode: 'ask' },
+    });
+    const applyPatch = (text: string) => strict.evaluate('ApplyPatch', { patch: text, cwd: '/work/project' });
+
+    expect(applyPatch(patch('a/src/a.ts', 'b/src/a.ts'))).toEqual({ behavior: 'allow', rule: 'Edit(./src/**)' });
+    expect(applyPatch(patch('a/src/a.ts', '/etc/cron.d/job'))).toEqual({ behavior: 'deny', rule: 'Write(/etc/**)' });
+    expect(applyPatch(patch('/etc/hosts', 'b/src/hosts'))).toEqual({ behavior: 'deny', rule: 'Write(/etc/**)' });
+    expect(applyPatch(patch('a/src/a.ts', 'b/docs/a.md'))).toEqual({ behavior: 'ask' });
+  });
+
+  it('should apply Write and Edit rules to MultiEdit', () => {
+    const strict = new PermissionEngine({ projectDir: '/work/project', rules: { deny: ['Edit(./secrets/**)'] } });
+
+    expect(strict.evaluate('Edit', { file_path: 'secrets/key' }).behavior).toBe('deny');
+    expect(strict.evaluate('MultiEdit', { file_path: 'secrets/key', edits: [] })).toEqual({
+      behavior: 'deny', rule: 'Edit(./secrets/**)',
+    });
+    expect(strict.evaluate('MultiEdit', { file_path: 'src/a.ts', edits: [] })).toEqual({ behavior: 'allow' });
+  });
+
+  it('should normalize paths before matching', () => {
+    const strict = new PermissionEngine({
+      projectDir: '/work/project', rules: { deny: ['Edit(secrets/**)', 'Write(./out/../private/**)'] },
+    });
+    const edit = (path: string) => strict.evaluate('Edit', { file_path: path }).behavior;
+
+    expect(edit('secrets/x')).toBe('deny');
+    expect(edit('./secrets/../secrets/x')).toBe('deny');
+    expect(edit('/work/project/./src/../secrets/x')).toBe('deny');
+    expect(strict.evaluate('Write', { path: '/work/project/private/a' }).behavior).toBe('deny');
+  });
+
+  it('should let deny win over allow', () => {
+    expect(engine.evaluate('Read', { path: 'certs/server.pem' })).toEqual({
+      behavior: 'deny', rule: 'Read(*.pem)',
+    });
+  });
+
+  it('should match wildcard tool names', () => {
+    expect(engine.evaluate('mcp__github__create_issue', {}).rule).toBe('mcp__github__*');
+  });
+
+  it('should fall back to the default mode', () => {
+    const strict = new PermissionEngine({ rules: { defaultMode: 'deny' } });
+    expect(strict.evaluate('Glob', { pattern: '*' })).toEqual({ behavior: 'deny' });
+  });
+});
+
+describe('PermissionEngine.check', () => {
+  const testDir = join(import.meta.dir, 'test-permissions');
+  const projectDir = join(testDir, 'project');
+  let db: Database;
+  let eventBus: EventBus;
+  let approvals: ApprovalManager;
+
+  const createEngine = (withApprover = true) => new PermissionEngine({
+    projectDir,
+    db,
+    agentId: 'agent-1',
+    approvalManager: withApprover ? approvals : undefined,
+    rules: { ask: ['Bash(git push:*)'], deny: ['Write(/etc/**)'] },
+  });
+
+  /** Answer the next approval request with the given decision */
+  const answerNext = (decision: 'allow-once' | 'allow-always' | 'deny') => {
+    eventBus.once('approval:request', ({ id }) => {
+      queueMicrotask(() => approvals.resolveApproval(id, decision, 'tester'));
+    });
+  };
+
+  beforeEach(async () => {
+    mkdirSync(projectDir, { recursive: true });
+    db = new Database({ path: join(testDir, 'state.db'), enableVec: false });
+    await db.initialize();
+    eventBus = new EventBus();
+    approvals = new ApprovalManager({ db, eventBus, timeoutMs: 2000, pollIntervalMs: 20 });
+  });
+
+  afterEach(() => {
+    approvals.shutdown();
+    db.close();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should refuse denied calls and audit the decision', async () => {
+    const result = await createEngine().check('Write', { path: '/etc/passwd' }, { sessionId: 's1' });
+
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toContain('Write(/etc/**)');
+
+    const [entry] = db.audit.query({ action: 'tool_permission' });
+    expect(entry?.result).toBe('failure');
+    expect(entry?.target).toBe('Write(/etc/passwd)');
+    expect(entry?.agentId).toBe('agent-1');
+    expect(entry?.details).toMatchObject({ behavior: 'deny', rule: 'Write(/etc/**)', sessionId: 's1' });
+  });
+
+  it('should not let remembered approvals override deny rules', () => {
+    const engine = new PermissionEngine({
+      rules: { deny: ['Write(/etc/**)'], ask: ['Bash(git push:*)'], approved: ['Bash(git push)', 'Write(/etc/hosts)'] },
+    });
+
+    expect(engine.evaluate('Bash', { command: 'git push' }).behavior).toBe('allow');
+    expect(engine.evaluate('Write', { path: '/etc/hosts' }).behavior).toBe('deny');
+  });
+
+  it('should not audit calls that match no rule', async () => {
+    expect((await createEngine().check('Read', { path: 'a.txt' })).allowed).toBe(true);
+    expect(db.audit.query({ action: 'tool_permission' })).toHaveLength(0);
+  });
+
+  it('should route ask rules through the ApprovalManager', async () => {
+    answerNext('allow-once');
+    const engine = createEngine();
+
+    const result = await engine.check('Bash', { command: 'git push origin main' });
+
+    expect(result.allowed).toBe(true);
+    expect(db.audit.query({ action: 'tool_permission' })[0]?.details).toMatchObject({
+      behavior: 'ask', decision: 'allow-once',
+    });
+  });
+
+  it('should report a user denial', async () => {
+    answerNext('deny');
+
+    const result = await createEngine().check('Bash', { command: 'git push' });
+
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toContain('denied');
+  });
+
+  it('should refuse ask rules when no approver is available', async () => {
+    const result = await createEngine(false).check('Bash', { command: 'git push' });
+
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toContain('no approver');
+  });
+
+  it('should remember allow-always answers for the project', async () => {
+    answerNext('allow-always');
+    const engine = createEngine();
+
+    await engine.check('Bash', { command: 'git push origin main' });
+    const second = await engine.check('Bash', { command: 'git push origin main' });
+
+    expect(second.allowed).toBe(true);
+    expect(approvals.getPending()).toHaveLength(0);
+    const settings = JSON.parse(readFileSync(join(projectDir, '.daemux', 'settings.local.json'), 'utf-8'));
+    expect(settings.permissions.approved).toEqual(['Bash(git push origin main)']);
+  });
+
+  it('should remember each command literally, without wildcards', async () => {
+    answerNext('allow-always');
+    const engine = createEngine();
+
+    await engine.check('Bash', { command: 'git push origin * && git status' });
+
+    expect(engine.evaluate('Bash', { command: 'git push origin *' }).rule).toBe('Bash(git push origin \\*)');
+    expect(engine.evaluate('Bash', { command: 'git push origin main' }).behavior).toBe('ask');
+    expect(engine.evaluate('Bash', { command: 'git status' }).behavior).toBe('allow');
+    expect(engine.suggestRule('Write', { path: '/tmp/[a]*.txt' })).toBe('Write(/tmp/\\[a\\]\\*.txt)');
+  });
+
+  it('should pick up decisions written by another process', async () => {
+    eventBus.once('approval:request', ({ id }) => {
+      db.approvals.update(id, { decision: 'allow-once', decidedAtMs: Date.now(), decidedBy: 'cli' });
+    });
+
+    const result = await createEngine().check('Bash', { command: 'git push' });
+
+    expect(result.allowed).toBe(true);
+  });
+
+  it('should be enforced by the ToolExecutor', async () => {
+    const executor = new ToolExecutor({ eventBus, permissions: createEngine() });
+
+    const result = await executor.execute({
+      type: 'tool_use', id: 't1', name: 'Write', input: { path: '/etc/daemux-test', content: 'x' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toContain('Permission denied');
+    expect(existsSync('/etc/daemux-test')).toBe(false);
+  });
+});
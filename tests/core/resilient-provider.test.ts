@@ -0,0 +1,248 @@
+/**
+ * Resilient Provider Tests
+ * Error classification, backoff, circuit breaking and failover between
+ * providers
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  ResilientProvider,
+  CircuitBreaker,
+  CircuitBreakerRegistry,
+  classifyProviderError,
+  parseRetryAfter,
+  backoffDelay,
+} from '../../src/core/resilient-provider';
+import { EventBus, type EventMap } from '../../src/core/event-bus';
+import type { LLMProvider, LLMChatChunk, LLMChatOptions } from '../../src/core/plugin-api-types';
+
+type Outcome = Error | 'ok';
+
+function httpError(status: number, headers?: Record<string, string>): Error {
+  return Object.assign(new Error(`API error ${status}`), { status, headers });
+}
+
+/** Provider whose calls fail or succeed in the given order, then succeed */
+function makeProvider(id: string, outcomes: Outcome[] = []) {
+  const requests: LLMChatOptions[] = [];
+  const next = (options: LLMChatOptions): void => {
+    requests.push(options);
+    const outcome = outcomes.shift() ?? 'ok';
+    if (outcome !== 'ok') throw outcome;
+  };
+  const provider: LLMProvider = {
+    id,
+    name: id,
+    capabilities: { streaming: true, toolUse: true, vision: false, maxContextWindow: 200000 },
+    initialize: async () => {},
+    isReady: () => true,
+    verifyCredentials: async () => ({ valid: true }),
+    listModels: () => [],
+    getDefaultModel: () => `${id}-default`,
+    chat: async function* (options) {
+      next(options);
+      yield { type: 'text', content: `from ${id}` };
+      yield { type: 'done', stopReason: 'end_turn' };
+    },
+    compactionChat: async (options) => {
+      next(options);
+      return { content: [{ type: 'text', text: `from ${id}` }], stopReason: 'end_turn' };
+    },
+    shutdown: async () => {},
+  };
+  return { provider, requests };
+}
+
+function recordEvents(bus: EventBus) {
+  const events: Array<{ name: string; payload: unknown }> = [];
+  for (const name of ['provider:retry', 'provider:failover', 'provider:circuit'] as const) {
+    bus.on(name, (payload: EventMap[typeof name]) => { events.push({ name, payload }); });
+  }
+  return events;
+}
+
+const request: LLMChatOptions = { model: 'main-model', messages: [{ role: 'user', content: 'hi' }] };
+
+async function collect(gen: AsyncGenerator<LLMChatChunk>): Promise<LLMChatChunk[]> {
+  const chunks: LLMChatChunk[] = [];
+  for await (const chunk of gen) chunks.push(chunk);
+  return chunks;
+}
+
+describe('classifyProviderError', () => {
+  it('should separate transient, auth and request errors', () => {
+    expect(classifyProviderError(httpError(429))).toMatchObject({ kind: 'rate_limit', retryable: true, failover: true });
+    expect(classifyProviderError(new Error('529 {"type":"overloaded_error"}'))).toMatchObject({ kind: 'overloaded', status: 529 });
+    expect(classifyProviderError(new Error('OpenAI API error 503: unavailable'))).toMatchObject({ kind: 'server', retryable: true });
+    expect(classifyProviderError(Object.assign(new Error('read failed'), { code: 'ECONNRESET' })).kind).toBe('network');
+    expect(classifyProviderError(new TypeError('fetch failed')).kind).toBe('network');
+    expect(classifyProviderError(httpError(401))).toMatchObject({ kind: 'auth', retryable: false, failover: true });
+    expect(classifyProviderError(httpError(400))).toMatchObject({ kind: 'client', retryable: false, failover: false });
+    expect(classifyProviderError(new Error('Expected 500 tokens')).kind).toBe('unknown');
+  });
+
+  it('should read retry hints from headers', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    expect(parseRetryAfter(httpError(429, { 'retry-after': '7' }))).toBe(7000);
+    expect(parseRetryAfter(httpError(429, { 'retry-after-ms': '250', 'retry-after': '7' }))).toBe(250);
+    expect(parseRetryAfter(Object.assign(new Error('x'), { headers: new Headers({ 'retry-after': '2' }) }))).toBe(2000);
+    expect(parseRetryAfter(httpError(503, { 'retry-after': 'Thu, 01 Jan 2026 00:00:30 GMT' }), now)).toBe(30000);
+    expect(parseRetryAfter(httpError(503))).toBeUndefined();
+  });
+
+  it('should keep jittered backoff between half and all of the capped delay', () => {
+    const policy = { baseDelayMs: 1000, maxDelayMs: 5000 };
+
+    expect(backoffDelay(0, policy, () => 0)).toBe(500);
+    expect(backoffDelay(1, policy, () => 1)).toBe(2000);
+    expect(backoffDelay(6, policy, () => 1)).toBe(5000);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('should open after repeated failures and admit one trial after the cooldown', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+
+    breaker.recordFailure(undefined, 0);
+    expect(breaker.state).toBe('closed');
+    breaker.recordFailure(undefined, 0);
+    expect(breaker.state).toBe('open');
+    expect(breaker.allow(500)).toBe(false);
+
+    expect(breaker.allow(1000)).toBe(true);
+    expect(breaker.state).toBe('half_open');
+    expect(breaker.allow(1000)).toBe(false);
+
+    breaker.recordFailure(undefined, 1000);
+    expect(breaker.retryAt).toBe(2000);
+    expect(breaker.allow(2000)).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+  });
+});
+
+describe('ResilientProvider', () => {
+  it('should retry transient errors with backoff and honor retry-after', async () => {
+    const { provider, requests } = makeProvider('primary', [httpError(503), httpError(429, { 'retry-after': '3' })]);
+    const bus = new EventBus();
+    const events = recordEvents(bus);
+    const delays: number[] = [];
+    const resilient = new ResilientProvider({
+      primary: provider, eventBus: bus, policy: { baseDelayMs: 100 }, sleep: async ms => { delays.push(ms); },
+    });
+
+    const response = await resilient.compactionChat(request);
+
+    expect(response.content).toEqual([{ type: 'text', text: 'from primary' }]);
+    expect(requests).toHaveLength(3);
+    expect(delays[0]).toBeGreaterThanOrEqual(50);
+    expect(delays[0]).toBeLessThanOrEqual(100);
+    expect(delays[1]).toBe(3000);
+    expect(events.map(e => e.name)).toEqual(['provider:retry', 'provider:retry']);
+  });
+
+  it('should not retry or fail over on request errors', async () => {
+    const { provider, requests } = makeProvider('primary', [httpError(400)]);
+    const fallback = makeProvider('backup');
+    const resilient = new ResilientProvider({
+      primary: provider, fallbacks: [{ provider: fallback.provider }], sleep: async () => {},
+    });
+
+    await expect(resilient.compactionChat(request)).rejects.toThrow('API error 400');
+    expect(requests).toHaveLength(1);
+    expect(fallback.requests).toHaveLength(0);
+  });
+
+  it('should fail over along the chain once retries are exhausted', async () => {
+    const primary = makeProvider('primary', [httpError(500), httpError(500)]);
+    const second = makeProvider('second', [httpError(401)]);
+    const third = makeProvider('third');
+    const bus = new EventBus();
+    const events = recordEvents(bus);
+    const resilient = new ResilientProvider({
+      primary: primary.provider,
+      fallbacks: [{ provider: second.provider }, { provider: third.provider, model: 'third-small' }],
+      policy: { maxRetries: 1 },
+      eventBus: bus,
+      sleep: async () => {},
+    });
+
+    const chunks = await collect(resilient.chat(request));
+
+    expect(chunks[0]).toEqual({ type: 'text', content: 'from third' });
+    expect(primary.requests.map(r => r.model)).toEqual(['main-model', 'main-model']);
+    expect(second.requests.map(r => r.model)).toEqual(['second-default']);
+    expect(third.requests.map(r => r.model)).toEqual(['third-small']);
+    expect(events.filter(e => e.name === 'provider:failover').map(e => e.payload)).toEqual([
+      { from: 'primary', to: 'second', model: 'second-default', reason: 'server' },
+      { from: 'second', to: 'third', model: 'third-small', reason: 'auth' },
+    ]);
+  });
+
+  it('should describe media to a fallback that cannot see it', async () => {
+    const primary = makeProvider('primary', [httpError(401)]);
+    primary.provider.capabilities = { ...primary.provider.capabilities, vision: true };
+    const backup = makeProvider('backup');
+    const resilient = new ResilientProvider({
+      primary: primary.provider, fallbacks: [{ provider: backup.provider }], sleep: async () => {},
+    });
+    const image = { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'A'.repeat(4096) } };
+
+    await resilient.compactionChat({
+      model: 'main-model',
+      messages: [
+        { role: 'user', content: [{ type: 'text', text: 'What is this?' }, image] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: [image] }] },
+      ],
+    });
+
+    expect(resilient.capabilities.vision).toBe(true);
+    expect(primary.requests[0]?.messages[0]?.content).toContainEqual(image);
+    expect(backup.requests[0]?.messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'What is this?' }, { type: 'text', text: '[image: image/png, 3 KB]' }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: [{ type: 'text', text: '[image: image/png, 3 KB]' }] }] },
+    ]);
+  });
+
+  it('should skip a provider with an open circuit until its cooldown ends', async () => {
+    const primary = makeProvider('primary', [httpError(503, { 'retry-after': '120' })]);
+    const backup = makeProvider('backup');
+    const bus = new EventBus();
+    const events = recordEvents(bus);
+    const resilient = new ResilientProvider({
+      primary: primary.provider,
+      fallbacks: [{ provider: backup.provider }],
+      breakers: new CircuitBreakerRegistry({ failureThreshold: 5, cooldownMs: 1000 }),
+      eventBus: bus,
+      sleep: async () => {},
+    });
+
+    await resilient.compactionChat(request);
+    await resilient.compactionChat(request);
+
+    // A hint longer than maxDelayMs opens the circuit instead of waiting
+    expect(primary.requests).toHaveLength(1);
+    expect(backup.requests).toHaveLength(2);
+    expect(events.find(e => e.name === 'provider:circuit')?.payload).toMatchObject({ providerId: 'primary', state: 'open' });
+    expect(events.filter(e => e.name === 'provider:failover').map(e => (e.payload as { reason: string }).reason))
+      .toEqual(['server', 'circuit open']);
+  });
+
+  it('should not replay a stream that already produced output', async () => {
+    const { provider, requests } = makeProvider('primary');
+    provider.chat = async function* (options) {
+      requests.push(options);
+      yield { type: 'text', content: 'partial' };
+      throw httpError(529);
+    };
+    const resilient = new ResilientProvider({ primary: provider, sleep: async () => {} });
+
+    const chunks: LLMChatChunk[] = [];
+    await expect((async () => {
+      for await (const chunk of resilient.chat(request)) chunks.push(chunk);
+    })()).rejects.toThrow('API error 529');
+    expect(chunks).toEqual([{ type: 'text', content: 'partial' }]);
+    expect(requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Session Rewind Tests
+ * Checkpoints, and restoring files and message history to one of them
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync, existsSync, readFileSync, unlinkSync } from 'fs';
+import { Database } from '../../src/infra/database';
+import type { Message } from '../../src/core/types';
+import { listCheckpoints, rewindSession } from '../../src/core/session-rewind';
+import {
+  executeReadFile,
+  executeWriteFile,
+  clearFileState,
+  listFileSnapshots,
+} from '../../src/core/loop/tools';
+import type { ToolContext } from '../../src/core/loop/types';
+
+const testDir = join(import.meta.dir, 'test-session-rewind-temp');
+const testDbPath = join(testDir, 'rewind.db');
+const snapshotDir = join(testDir, 'snapshots');
+
+describe('Session rewind', () => {
+  let db: Database;
+  let sessionId: string;
+  let clock: number;
+  const target = join(testDir, 'target.txt');
+  const created = join(testDir, 'created.txt');
+
+  function add(role: Message['role'], content: Message['content'], parent: Message | null): Message {
+    return db.messages.create(sessionId, {
+      parentUuid: parent?.uuid ?? null, role, content, createdAt: clock++,
+    });
+  }
+
+  /** One turn whose assistant message writes to the files, then a final reply */
+  async function editingTurn(prompt: string, parent: Message | null, content: string): Promise<Message> {
+    const user = add('user', prompt, parent);
+    const toolUse = add('assistant', [{ type: 'tool_use', id: 'tu', name: 'Write', input: {} }], user);
+    const context: ToolContext = { sessionId, snapshotDir, messageUuid: toolUse.uuid };
+
+    await executeReadFile('r', { path: target }, context);
+    await executeWriteFile('w', { path: target, content }, context);
+    if (!existsSync(created)) await executeWriteFile('c', { path: created, content: 'new' }, context);
+
+    clock = Date.now() + 1;
+    const results = add('user', [{ type: 'tool_result', tool_use_id: 'tu', content: 'ok' }], toolUse);
+    return add('assistant', [{ type: 'text', text: `Wrote ${content}` }], results);
+  }
+
+  beforeEach(async () => {
+    mkdirSync(testDir, { recursive: true });
+    writeFileSync(target, 'original');
+    db = new Database({ path: testDbPath, enableVec: false });
+    await db.initialize();
+    sessionId = db.sessions.create({
+      createdAt: Date.now(), lastActivity: Date.now(), compactionCount: 0,
+      totalTokensUsed: 0, queueMode: 'steer', flags: {},
+    }).id;
+    clock = Date.now() - 60_000;
+  });
+
+  afterEach(() => {
+    db.close();
+    clearFileState();
+    if (existsSync(testDbPath)) unlinkSync(testDbPath);
+    if (existsSync(testDir)) rmSync(testDir, { recursive: true });
+  });
+
+  it('should list turn-ending replies with the file changes made after them', async () => {
+    const first = add('assistant', 'Hello there', add('user', 'hi', null));
+    const second = await editingTurn('edit it', first, 'v1');
+
+    const checkpoints = listCheckpoints(db, sessionId, snapshotDir);
+
+    expect(checkpoints.map(c => c.messageUuid)).toEqual([first.uuid, second.uuid]);
+    expect(checkpoints[0]!.preview).toBe('Hello there');
+    expect(checkpoints[0]!.fileChanges).toBe(2);
+    expect(checkpoints[1]!.fileChanges).toBe(0);
+  });
+
+  it('should restore files and the message chain to a checkpoint', async () => {
+    const prompt = add('user', 'hi', null);
+    const first = add('assistant', 'Hello there', prompt);
+    const second = await editingTurn('edit it', first, 'v1');
+    await editingTurn('edit again', second, 'v2');
+
+    const result = rewindSession(db, { sessionId, messageUuid: first.uuid.slice(0, 8), snapshotDir });
+
+    expect(result.messageUuid).toBe(first.uuid);
+    expect(result.restoredFiles).toEqual([created, target].sort());
+    expect(readFileSync(target, 'utf-8')).toBe('original');
+    expect(existsSync(created)).toBe(false);
+    expect(db.messages.list(sessionId).map(m => m.uuid)).toEqual([prompt.uuid, first.uuid]);
+    expect(result.archivedMessages).toBe(8);
+  });
+
+  it('should leave everything unchanged on a dry run', async () => {
+    const first = add('assistant', 'Hello there', add('user', 'hi', null));
+    await editingTurn('edit it', first, 'v1');
+
+    const result = rewindSession(db, { sessionId, messageUuid: first.uuid, snapshotDir, dryRun: true });
+
+    expect(result.restoredFiles).toContain(target);
+    expect(readFileSync(target, 'utf-8')).toBe('v1');
+    expect(db.messages.list(sessionId)).toHaveLength(6);
+    expect(listFileSnapshots(snapshotDir).every(s => s.revertedAt === undefined)).toBe(true);
+  });
+
+  it('should bring back an archived branch whose file changes are still in place', async () => {
+    const first = add('assistant', 'Hello there', add('user', 'hi', null));
+    const second = await editingTurn('edit it', first, 'v1');
+    // Compaction archives the history and continues from a summary
+    db.messages.archive(sessionId, db.messages.list(sessionId).map(m => m.uuid));
+    add('assistant', 'Summary reply', add('user', 'summary', null));
+
+    const back = rewindSession(db, { sessionId, messageUuid: second.uuid, snapshotDir });
+
+    expect(back.restoredMessages).toBe(6);
+    expect(back.restoredFiles).toEqual([]);
+    expect(readFileSync(target, 'utf-8')).toBe('v1');
+    expect(db.messages.list(sessionId).pop()?.uuid).toBe(second.uuid);
+  });
+
+  it('should refuse to rewind forward onto changes an earlier rewind undid', async () => {
+    const first = add('assistant', 'Hello there', add('user', 'hi', null));
+    const second = await editingTurn('edit it', first, 'v1');
+    rewindSession(db, { sessionId, messageUuid: first.uuid, snapshotDir });
+
+    expect(() => rewindSession(db, { sessionId, messageUuid: second.uuid, snapshotDir }))
+      .toThrow(`an earlier rewind undid file changes on its history (${created}, ${target})`);
+    expect(readFileSync(target, 'utf-8')).toBe('original');
+    expect(db.messages.list(sessionId).pop()?.uuid).toBe(first.uuid);
+  });
+
+  it('should restore no file when one of them cannot be restored', async () => {
+    const first = add('assistant', 'Hello there', add('user', 'hi', null));
+    await editingTurn('edit it', first, 'v1');
+    // The created file is replaced by a directory, so deleting it fails
+    rmSync(created);
+    mkdirSync(created);
+    writeFileSync(join(created, 'inside.txt'), 'x');
+
+    expect(() => rewindSession(db, { sessionId, messageUuid: first.uuid, snapshotDir })).toThrow();
+    expect(readFileSync(target, 'utf-8')).toBe('v1');
+    expect(db.messages.list(sessionId)).toHaveLength(6);
+    expect(listCheckpoints(db, sessionId, snapshotDir)[0]!.fileChanges).toBe(2);
+  });
+
+  it('should reject messages that are not checkpoints', async () => {
+    const prompt = add('user', 'hi', null);
+    add('assistant', 'Hello there', prompt);
+
+    expect(() => rewindSession(db, { sessionId, messageUuid: prompt.uuid, snapshotDir }))
+      .toThrow('is not a checkpoint');
+    expect(() => rewindSession(db, { sessionId, messageUuid: 'no-such-id', snapshotDir }))
+      .toThrow('No message matching');
+    expect(() => rewindSession(db, { sessionId, messageUuid: '', snapshotDir }))
+      .toThrow('Ambiguous message id');
+  });
+});
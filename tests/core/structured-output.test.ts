@@ -0,0 +1,202 @@
+/**
+ * Structured Output Tests
+ * Schema conversion and validation, single-call requests with repair, and
+ * loop runs that must finish with a schema-conforming answer
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { Database } from '../../src/infra/database';
+import { EventBus } from '../../src/core/event-bus';
+import { AgenticLoop } from '../../src/core/loop';
+import {
+  toJSONSchema,
+  validateOutput,
+  parseJSONText,
+  structuredOutputTool,
+  requestStructured,
+  StructuredOutputError,
+} from '../../src/core/structured-output';
+import { createReadyMockProvider } from '../mocks/mock-llm-provider';
+import type { Config } from '../../src/core/types';
+
+const testConfig: Config = {
+  agentId: 'test-agent',
+  dataDir: '/tmp/test-structured-output',
+  model: 'mock-model',
+  compactionThreshold: 0.8,
+  effectiveContextWindow: 180000,
+  queueMode: 'steer',
+  collectWindowMs: 5000,
+  hookTimeoutMs: 600000,
+  turnTimeoutMs: 1800000,
+  debug: false,
+  mcpDebug: false,
+  heartbeatIntervalMs: 1800000,
+  heartbeatEnabled: false,
+  maxConcurrentTasks: 3,
+  workPollingIntervalMs: 5000,
+  workBudgetMaxTasksPerHour: 50,
+};
+
+const todoSchema = {
+  type: 'object',
+  properties: {
+    todos: { type: 'array', items: { type: 'string' }, minItems: 1 },
+    count: { type: 'integer', minimum: 0 },
+  },
+  required: ['todos', 'count'],
+  additionalProperties: false,
+};
+
+describe('schemas', () => {
+  it('should convert Zod schemas to JSON Schema', () => {
+    const schema = z.object({
+      name: z.string().regex(/^[a-z]+$/).describe('Lowercase name'),
+      kind: z.enum(['a', 'b']),
+      size: z.number().int().optional(),
+      tags: z.array(z.string()).default([]),
+      note: z.string().nullable(),
+    });
+
+    expect(toJSONSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', pattern: '^[a-z]+$', description: 'Lowercase name' },
+        kind: { type: 'string', enum: ['a', 'b'] },
+        size: { type: 'integer' },
+        tags: { type: 'array', items: { type: 'string' } },
+        note: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+      },
+      required: ['name', 'kind', 'note'],
+      additionalProperties: false,
+    });
+  });
+
+  it('should wrap non-object schemas in a value property', () => {
+    const tool = structuredOutputTool({ type: 'array', items: { type: 'string' } });
+
+    expect(tool.inputSchema).toEqual({
+      type: 'object',
+      properties: { value: { type: 'array', items: { type: 'string' } } },
+      required: ['value'],
+    });
+  });
+
+  it('should report JSON Schema violations with their paths', () => {
+    expect(validateOutput({ todos: ['a'], count: 1 }, todoSchema)).toEqual({ ok: true, value: { todos: ['a'], count: 1 } });
+
+    const result = validateOutput({ todos: [1], count: -1, extra: true }, todoSchema);
+    expect(result).toEqual({
+      ok: false,
+      errors: ['$.todos[0]: expected string, got integer', '$.count: less than 0', '$: unexpected property "extra"'],
+    });
+  });
+
+  it('should report an invalid pattern instead of throwing', () => {
+    expect(validateOutput('abc', { type: 'string', pattern: '([a-z' })).toEqual({
+      ok: false, errors: ['$: cannot be checked: invalid pattern ([a-z'],
+    });
+  });
+
+  it('should apply Zod transforms and format Zod issues the same way', () => {
+    const schema = z.object({ level: z.string().transform(s => s.toUpperCase()), items: z.array(z.number()) });
+
+    expect(validateOutput({ level: 'low', items: [] }, schema)).toEqual({ ok: true, value: { level: 'LOW', items: [] } });
+    const invalid = validateOutput({ level: 'low', items: ['x'] }, schema);
+    expect(invalid.ok ? [] : invalid.errors).toEqual(['$.items[0]: Expected number, received string']);
+  });
+
+  it('should parse JSON answers wrapped in fences or prose', () => {
+    expect(parseJSONText('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(parseJSONText('Here it is: [1, 2] as requested')).toEqual([1, 2]);
+    expect(parseJSONText('no json here')).toBeUndefined();
+  });
+});
+
+describe('requestStructured', () => {
+  it('should force the tool and send validation errors back until the answer conforms', async () => {
+    const provider = createReadyMockProvider();
+    provider.addToolUseResponse('StructuredOutput', { todos: [], count: 0 });
+    provider.addToolUseResponse('StructuredOutput', { todos: ['ship it'], count: 1 });
+
+    const answer = await requestStructured(provider, {
+      model: 'mock-model', systemPrompt: 'List todos', prompt: 'go', schema: todoSchema, maxTokens: 100,
+    });
+
+    expect(answer).toEqual({ todos: ['ship it'], count: 1 });
+    expect(provider.getCallCount()).toBe(2);
+    const repair = provider.getLastCall()!.messages.at(-1)!.content as string;
+    expect(repair).toContain('$.todos: fewer than 1 items');
+  });
+
+  it('should throw StructuredOutputError once repairs run out', async () => {
+    const provider = createReadyMockProvider();
+    provider.addTextResponse('I cannot answer that');
+    provider.addTextResponse('Still no');
+
+    const request = requestStructured(provider, {
+      model: 'mock-model', systemPrompt: '', prompt: 'go', schema: z.array(z.string()), maxTokens: 100, maxRepairs: 1,
+    });
+
+    await expect(request).rejects.toBeInstanceOf(StructuredOutputError);
+    expect(provider.getCallCount()).toBe(2);
+  });
+});
+
+describe('AgenticLoop with outputSchema', () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new Database({ path: ':memory:', enableVec: false });
+    await db.initialize();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function createLoop(provider: ReturnType<typeof createReadyMockProvider>): AgenticLoop {
+    return new AgenticLoop({ db, eventBus: new EventBus(), config: testConfig, provider });
+  }
+
+  it('should return the typed output of a valid StructuredOutput call', async () => {
+    const provider = createReadyMockProvider();
+    provider.addToolUseResponse('Glob', { pattern: '*.none' }, 'tool-1');
+    provider.addToolUseResponse('StructuredOutput', { verdict: 'pass', score: 9 }, 'tool-2');
+    const schema = z.object({ verdict: z.enum(['pass', 'fail']), score: z.number() });
+
+    const result = await createLoop(provider).run('Review it', { outputSchema: schema });
+
+    expect(result.stopReason).toBe('end_turn');
+    expect(result.output).toEqual({ verdict: 'pass', score: 9 });
+    expect(provider.getCallCount()).toBe(2);
+    expect(provider.getLastCall()!.tools?.map(t => t.name)).toContain('StructuredOutput');
+    expect(provider.getLastCall()!.systemPrompt).toContain('StructuredOutput');
+  });
+
+  it('should repair an invalid call and accept a JSON text answer', async () => {
+    const provider = createReadyMockProvider();
+    provider.addToolUseResponse('StructuredOutput', { todos: 'one', count: 1 }, 'tool-1');
+    provider.addTextResponse('```json\n{"todos": ["one"], "count": 1}\n```');
+
+    const result = await createLoop(provider).run('List todos', { outputSchema: todoSchema });
+
+    expect(result.stopReason).toBe('end_turn');
+    expect(result.output).toEqual({ todos: ['one'], count: 1 });
+    expect(result.toolCalls[0]).toMatchObject({ name: 'StructuredOutput', isError: true });
+  });
+
+  it('should stop with invalid_output and the last errors when repairs run out', async () => {
+    const provider = createReadyMockProvider();
+    provider.addTextResponse('Nothing to report');
+    provider.addTextResponse('Still nothing');
+
+    const result = await createLoop(provider).run('List todos', { outputSchema: todoSchema, maxOutputRepairs: 1 });
+
+    expect(result.stopReason).toBe('invalid_output');
+    expect(result.output).toBeUndefined();
+    expect(result.outputErrors).toEqual(['no answer was given through the StructuredOutput tool']);
+    expect(provider.getCallCount()).toBe(2);
+  });
+});
@@ -11,6 +11,7 @@ import {
 } from '../../../src/core/swarm/approval';
 import type { ApprovalRequest } from '../../../src/core/swarm/approval';
 import { SwarmCoordinator } from '../../../src/core/swarm';
+import { ModelRouter } from '../../../src/core/model-router';
 import { EventBus } from '../../../src/core/event-bus';
 import type { AgentDefinition, SubagentRecord } from '../../../src/core/types';
 import type { AgentFactory } from '../../../src/core/agent-factory';
@@ -245,9 +246,11 @@ describe('SwarmCoordinator with approval hook', () => {
     const agentFactory = createMockFactory();
 
     // Plan response
-    provider.addTextResponse(JSON.stringify([
-      { name: 'general', role: 'Worker', task: 'Do the work' },
-    ]));
+    provider.addToolUseResponse('StructuredOutput', {
+      agents: [
+        { name: 'general', role: 'Worker', task: 'Do the work' },
+      ],
+    });
 
     const denyingHook = {
       requestApproval: async () => false,
@@ -259,6 +262,7 @@ describe('SwarmCoordinator with approval hook', () => {
       provider,
       registry,
       agentFactory,
+      router: new ModelRouter(),
       approvalHook: denyingHook,
     });
 
@@ -274,9 +278,11 @@ describe('SwarmCoordinator with approval hook', () => {
     const registry = createMockRegistry();
     const agentFactory = createMockFactory();
 
-    provider.addTextResponse(JSON.stringify([
-      { name: 'general', role: 'Worker', task: 'Do the work' },
-    ]));
+    provider.addToolUseResponse('StructuredOutput', {
+      agents: [
+        { name: 'general', role: 'Worker', task: 'Do the work' },
+      ],
+    });
 
     const approvingHook = {
       requestApproval: async () => true,
@@ -288,6 +294,7 @@ describe('SwarmCoordinator with approval hook', () => {
       provider,
       registry,
       agentFactory,
+      router: new ModelRouter(),
       approvalHook: approvingHook,
     });
 
@@ -302,10 +309,12 @@ describe('SwarmCoordinator with approval hook', () => {
     const registry = createMockRegistry();
     const agentFactory = createMockFactory();
 
-    provider.addTextResponse(JSON.stringify([
-      { name: 'general', role: 'A', task: 'T1' },
-      { name: 'general', role: 'B', task: 'T2' },
-    ]));
+    provider.addToolUseResponse('StructuredOutput', {
+      agents: [
+        { name: 'general', role: 'A', task: 'T1' },
+        { name: 'general', role: 'B', task: 'T2' },
+      ],
+    });
 
     let capturedRequest: ApprovalRequest | null = null;
     const capturingHook = {
@@ -321,6 +330,7 @@ describe('SwarmCoordinator with approval hook', () => {
       provider,
       registry,
       agentFactory,
+      router: new ModelRouter(),
       approvalHook: capturingHook,
     });
 
@@ -5,6 +5,7 @@
 
 import { describe, it, expect, beforeEach } from 'bun:test';
 import { SwarmCoordinator } from '../../../src/core/swarm';
+import { ModelRouter } from '../../../src/core/model-router';
 import { EventBus } from '../../../src/core/event-bus';
 import type { AgentDefinition, SubagentRecord } from '../../../src/core/types';
 import type { AgentFactory } from '../../../src/core/agent-factory';
@@ -92,7 +93,8 @@ function createCoordinator(overrides?: {
   registryOpts?: MockRegistryOptions;
   maxAgents?: number;
   timeoutMs?: number;
-  planResponse?: string;
+  planResponse?: Array<{ name: string; role: string; task: string }>;
+  router?: ModelRouter;
 }): CoordinatorTestContext {
   const eventBus = new EventBus();
   const provider = createReadyMockProvider();
@@ -100,10 +102,10 @@ function createCoordinator(overrides?: {
   const agentFactory = createMockFactory();
 
   // Set up the planning response
-  const planJson = overrides?.planResponse ?? JSON.stringify([
+  const agents = overrides?.planResponse ?? [
     { name: 'general', role: 'General worker', task: 'Execute the main task' },
-  ]);
-  provider.addTextResponse(planJson);
+  ];
+  provider.addToolUseResponse('StructuredOutput', { agents });
 
   const coordinator = new SwarmCoordinator({
     eventBus,
@@ -114,6 +116,7 @@ function createCoordinator(overrides?: {
     provider,
     registry,
     agentFactory,
+    router: overrides?.router ?? new ModelRouter(),
   });
 
   return { coordinator, eventBus, provider, registry };
@@ -129,6 +132,17 @@ describe('SwarmCoordinator', () => {
   // -----------------------------------------------------------------------
 
   describe('execute', () => {
+    it('should plan with the planner role from the configured router', async () => {
+      const router = new ModelRouter({
+        models: { roles: { planner: { model: 'claude-planner', maxTokens: 321 } }, aliases: {} },
+      });
+      const { coordinator, provider } = createCoordinator({ router });
+
+      await coordinator.execute('Build a REST API');
+
+      expect(provider.getCallHistory()[0]).toMatchObject({ model: 'claude-planner', maxTokens: 321 });
+    });
+
     it('should execute a swarm and return a result', async () => {
       const { coordinator } = createCoordinator();
 
@@ -150,11 +164,12 @@ describe('SwarmCoordinator', () => {
     });
 
     it('should use the planning prompt to create agents', async () => {
-      const planJson = JSON.stringify([
-        { name: 'general', role: 'Backend dev', task: 'Create API' },
-        { name: 'general', role: 'Frontend dev', task: 'Create UI' },
-      ]);
-      const { coordinator, provider } = createCoordinator({ planResponse: planJson });
+      const { coordinator, provider } = createCoordinator({
+        planResponse: [
+          { name: 'general', role: 'Backend dev', task: 'Create API' },
+          { name: 'general', role: 'Frontend dev', task: 'Create UI' },
+        ],
+      });
 
       await coordinator.execute('Full stack feature');
 
@@ -171,12 +186,12 @@ describe('SwarmCoordinator', () => {
 
   describe('agent planning', () => {
     it('should limit agents to maxAgents config', async () => {
-      const manyAgents = JSON.stringify([
+      const manyAgents = [
         { name: 'general', role: 'A', task: 'T1' },
         { name: 'general', role: 'B', task: 'T2' },
         { name: 'general', role: 'C', task: 'T3' },
         { name: 'general', role: 'D', task: 'T4' },
-      ]);
+      ];
 
       const { coordinator } = createCoordinator({
         planResponse: manyAgents,
@@ -0,0 +1,69 @@
+/**
+ * Token Counter Tests
+ * Local approximation and provider-backed counting with fallback
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  approximateTokenCounter,
+  createTokenCounter,
+  estimateMessageTokens,
+  estimateTokens,
+} from '../../src/core/token-counter';
+import { createReadyMockProvider } from '../mocks/mock-llm-provider';
+
+describe('estimateMessageTokens', () => {
+  it('should count plain text plus framing overhead', () => {
+    expect(estimateMessageTokens('a'.repeat(40))).toBe(10 + 4);
+  });
+
+  it('should count tool result content rather than the JSON envelope', () => {
+    const content = [{ type: 'tool_result', tool_use_id: 'tool-1', content: 'x'.repeat(400) }];
+    expect(estimateMessageTokens(content)).toBe(100 + 4);
+  });
+
+  it('should include tool_use names and inputs', () => {
+    const content = [{ type: 'tool_use', id: 't', name: 'Bash', input: { command: 'ls -la' } }];
+    expect(estimateMessageTokens(content)).toBeGreaterThan(4);
+  });
+});
+
+describe('approximateTokenCounter', () => {
+  it('should sum system prompt, tools and messages', async () => {
+    const tools = [{ name: 'Read', description: 'Read a file', inputSchema: { type: 'object' as const, properties: {} } }];
+    const total = await approximateTokenCounter.countTokens(
+      [{ role: 'user', content: 'a'.repeat(40) }], tools, 'b'.repeat(80),
+    );
+
+    expect(total).toBe(14 + 20 + estimateTokens(JSON.stringify(tools)));
+  });
+
+  it('should return zero for an empty request', async () => {
+    expect(await approximateTokenCounter.countTokens([])).toBe(0);
+  });
+});
+
+describe('createTokenCounter', () => {
+  it('should fall back to the approximation when the provider cannot count', () => {
+    expect(createTokenCounter(createReadyMockProvider())).toBe(approximateTokenCounter);
+    expect(createTokenCounter()).toBe(approximateTokenCounter);
+  });
+
+  it('should use the provider count when available', async () => {
+    const provider = createReadyMockProvider();
+    provider.countTokens = async (messages) => messages.length * 1000;
+
+    const counter = createTokenCounter(provider);
+
+    expect(await counter.countTokens([{ role: 'user', content: 'hi' }])).toBe(1000);
+  });
+
+  it('should fall back when the provider count fails', async () => {
+    const provider = createReadyMockProvider();
+    provider.countTokens = async () => { throw new Error('count endpoint unavailable'); };
+
+    const counter = createTokenCounter(provider);
+
+    expect(await counter.countTokens([{ role: 'user', content: 'a'.repeat(40) }])).toBe(14);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Usage Tracker Tests
+ * Pricing lookups, cost estimates, budget checks per scope, recording of
+ * helper and compaction calls, and the loop stopping once a hard limit is
+ * reached
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { Database } from '../../src/infra/database';
+import { EventBus, type EventMap } from '../../src/core/event-bus';
+import { AgenticLoop, ContextBuilder } from '../../src/core/loop';
+import { ComplexityClassifier } from '../../src/core/complexity-classifier';
+import { ModelRouter } from '../../src/core/model-router';
+import { UsageTracker, findPricing, estimateCost, startOfDay } from '../../src/core/usage-tracker';
+import { createReadyMockProvider } from '../mocks/mock-llm-provider';
+import type { BudgetConfig, Config } from '../../src/core/types';
+
+const testConfig: Config = {
+  agentId: 'test-agent',
+  dataDir: '/tmp/test-usage-tracker',
+  model: 'mock-model',
+  compactionThreshold: 0.8,
+  effectiveContextWindow: 180000,
+  queueMode: 'steer',
+  collectWindowMs: 5000,
+  hookTimeoutMs: 600000,
+  turnTimeoutMs: 1800000,
+  debug: false,
+  mcpDebug: false,
+  heartbeatIntervalMs: 1800000,
+  heartbeatEnabled: false,
+  maxConcurrentTasks: 3,
+  workPollingIntervalMs: 5000,
+  workBudgetMaxTasksPerHour: 50,
+};
+
+const million = { inputTokens: 1_000_000, outputTokens: 0 };
+
+function budgets(partial: Partial<BudgetConfig>): BudgetConfig {
+  return { agents: {}, ...partial };
+}
+
+describe('pricing', () => {
+  it('should match dated model ids by their longest prefix', () => {
+    expect(findPricing('claude-sonnet-4-20250514')?.input).toBe(3);
+    expect(findPricing('claude-opus-4-5-20251101')?.input).toBe(5);
+    expect(findPricing('claude-opus-4-1-20250805')?.input).toBe(15);
+    expect(findPricing('gpt-4o-mini-2024-07-18')?.input).toBe(0.15);
+    expect(findPricing('llama3.1:8b')).toBeUndefined();
+  });
+
+  it('should bill cache tokens at their own rates or the input rate', () => {
+    const usage = { inputTokens: 1000, outputTokens: 1000, cacheReadTokens: 10000, cacheWriteTokens: 1000 };
+
+    expect(estimateCost(usage, { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 })).toBeCloseTo(0.02475, 8);
+    expect(estimateCost(usage, { input: 1, output: 2 })).toBeCloseTo(0.014, 8);
+    expect(estimateCost(usage, undefined)).toBe(0);
+  });
+});
+
+describe('UsageTracker', () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new Database({ path: ':memory:', enableVec: false });
+    await db.initialize();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should price calls with configured overrides', () => {
+    const tracker = new UsageTracker({ db, config: { pricing: { 'local-': { input: 0.5, output: 1 } } } });
+
+    const local = tracker.record({ sessionId: 's1' }, { provider: 'openai', model: 'local-llm', usage: million });
+    const unknown = tracker.record({ sessionId: 's1' }, { provider: 'openai', model: 'mystery', usage: million });
+
+    expect(local.costUsd).toBe(0.5);
+    expect(unknown.costUsd).toBe(0);
+  });
+
+  it('should report soft and hard breaches per scope and announce each once', () => {
+    const bus = new EventBus();
+    const events: Array<EventMap['usage:budget']> = [];
+    bus.on('usage:budget', payload => { events.push(payload); });
+    const tracker = new UsageTracker({
+      db,
+      eventBus: bus,
+      config: {
+        pricing: { m: { input: 1, output: 0 } },
+        budgets: budgets({
+          session: { soft: 1, hard: 3 },
+          task: { hard: 2 },
+          agent: { soft: 10 },
+          agents: { coder: { hard: 1 } },
+          daily: { soft: 2 },
+        }),
+      },
+    });
+    const scope = { sessionId: 's1', agent: 'writer', taskId: 't1' };
+    const record = (usage = million) => tracker.record(scope, { provider: 'p', model: 'm', usage });
+
+    record();
+    expect(tracker.check(scope)).toEqual({
+      warnings: [{ scope: 'session', level: 'soft', spentUsd: 1, limitUsd: 1 }],
+    });
+
+    record();
+    const status = tracker.check(scope);
+    expect(status.exceeded).toEqual({ scope: 'task', level: 'hard', spentUsd: 2, limitUsd: 2 });
+    expect(status.warnings.map(w => w.scope)).toEqual(['session', 'daily']);
+    tracker.check(scope);
+    expect(events.map(e => `${e.scope}:${e.level}`)).toEqual(['session:soft', 'task:hard', 'daily:soft']);
+
+    // Per-agent entries replace the default agent limit
+    tracker.record({ sessionId: 's2', agent: 'coder' }, { provider: 'p', model: 'm', usage: million });
+    expect(tracker.check({ agent: 'coder' }).exceeded).toEqual({ scope: 'agent', level: 'hard', spentUsd: 1, limitUsd: 1 });
+  });
+
+  it('should count agent and daily spend from local midnight', () => {
+    const tracker = new UsageTracker({
+      db, config: { pricing: { m: { input: 1, output: 0 } }, budgets: budgets({ daily: { hard: 1 } }) },
+    });
+    const today = startOfDay();
+    db.usage.record({
+      sessionId: 'old', provider: 'p', model: 'm', inputTokens: 0, outputTokens: 0,
+      cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 5, timestamp: today - 1000,
+    });
+
+    expect(tracker.check({}).exceeded).toBeUndefined();
+    tracker.record({ sessionId: 'new' }, { provider: 'p', model: 'm', usage: million });
+    expect(tracker.check({}).exceeded).toMatchObject({ scope: 'daily', spentUsd: 1 });
+  });
+
+  it('should record the calls of a tracked provider against its scope', async () => {
+    const tracker = new UsageTracker({ db });
+    const provider = createReadyMockProvider();
+    provider.addResponse({
+      content: [{ type: 'tool_use', id: 'c1', name: 'StructuredOutput', input: { complexity: 'complex' } }],
+      usage: { inputTokens: 40, outputTokens: 4 },
+    });
+    const classifier = new ComplexityClassifier({ provider, router: new ModelRouter() });
+
+    const scope = { sessionId: 's1', swarmId: 'swarm-1' };
+    expect(await classifier.classify('Refactor everything', undefined, { tracker, scope })).toBe('complex');
+    expect(db.usage.list()).toEqual([expect.objectContaining({
+      sessionId: 's1', swarmId: 'swarm-1', provider: 'mock', inputTokens: 40, outputTokens: 4,
+    })]);
+  });
+
+  it('should record compaction summaries against the run\'s scope', async () => {
+    const provider = createReadyMockProvider();
+    provider.addTextResponse('Summary');
+    const builder = new ContextBuilder({
+      db, eventBus: new EventBus(), config: testConfig, provider, usage: new UsageTracker({ db }),
+    });
+    const { sessionId } = await builder.build('missing', 'system');
+    let parent: string | null = null;
+    for (let i = 0; i < 12; i++) {
+      parent = builder.addMessage(sessionId, i % 2 ? 'assistant' : 'user', `message ${i}`, parent, 10).uuid;
+    }
+
+    await builder.compact(sessionId, 'system', undefined, 0, { sessionId, taskId: 'task-1' });
+    expect(db.usage.list()).toEqual([expect.objectContaining({ sessionId, taskId: 'task-1', provider: 'mock' })]);
+  });
+
+  it('should stop the loop with budget_exceeded once a hard limit is reached', async () => {
+    const provider = createReadyMockProvider();
+    provider.addToolUseResponse('Glob', { pattern: '*.none' }, 'tool-1');
+    provider.addToolUseResponse('Glob', { pattern: '*.none' }, 'tool-2');
+    provider.addTextResponse('Done');
+    const config: Config = {
+      ...testConfig,
+      pricing: { 'mock-model': { input: 10_000, output: 0 } },
+      budgets: budgets({ session: { hard: 1 } }),
+    };
+    const loop = new AgenticLoop({ db, eventBus: new EventBus(), config, provider });
+
+    const result = await loop.run('Find files', { taskId: 'task-1' });
+
+    expect(result.stopReason).toBe('budget_exceeded');
+    expect(provider.getCallCount()).toBe(1);
+    expect(db.usage.list()).toEqual([expect.objectContaining({
+      sessionId: result.sessionId, taskId: 'task-1', provider: 'mock', model: 'mock-model', costUsd: 1,
+    })]);
+  });
+});
@@ -257,6 +257,40 @@ describe('Database', () => {
       const count = db.messages.getTokenCount(sessionId);
       expect(count).toBe(150);
     });
+
+    it('should archive messages out of the live history', () => {
+      const first = db.messages.create(sessionId, {
+        parentUuid: null,
+        role: 'user',
+        content: 'Old',
+        createdAt: Date.now(),
+        tokenCount: 100,
+      });
+      db.messages.create(sessionId, {
+        parentUuid: first.uuid,
+        role: 'assistant',
+        content: 'Kept',
+        createdAt: Date.now() + 1,
+        tokenCount: 50,
+      });
+
+      expect(db.messages.archive(sessionId, [first.uuid])).toBe(1);
+
+      expect(db.messages.list(sessionId).map(m => m.content)).toEqual(['Kept']);
+      expect(db.messages.getTokenCount(sessionId)).toBe(50);
+      const archived = db.messages.listArchived(sessionId);
+      expect(archived).toHaveLength(1);
+      expect(archived[0]?.archivedAt).toBeDefined();
+      expect(db.messages.list(sessionId, { includeArchived: true })).toHaveLength(2);
+    });
+
+    it('should archive all live messages when no ids are given', () => {
+      db.messages.create(sessionId, { parentUuid: null, role: 'user', content: 'A', createdAt: Date.now() });
+      db.messages.create(sessionId, { parentUuid: null, role: 'user', content: 'B', createdAt: Date.now() + 1 });
+
+      expect(db.messages.archive(sessionId)).toBe(2);
+      expect(db.messages.list(sessionId)).toHaveLength(0);
+    });
   });
 
   describe('Tasks Repository', () => {
@@ -173,6 +173,26 @@ describe('Memory Repository Enhanced', () => {
     });
   });
 
+  describe('searchText', () => {
+    it('should match entries containing every word, newest first', () => {
+      db.memory.store({ content: 'Deploy uses blue-green rollout', metadata: {}, createdAt: 1000 });
+      db.memory.store({ content: 'deploy window is Friday', metadata: {}, createdAt: 2000 });
+      db.memory.store({ content: 'Rollout notes', metadata: {}, createdAt: 3000 });
+
+      expect(db.memory.searchText('deploy').map(e => e.createdAt)).toEqual([2000, 1000]);
+      expect(db.memory.searchText('deploy rollout').map(e => e.createdAt)).toEqual([1000]);
+      expect(db.memory.searchText('deploy', 1)).toHaveLength(1);
+      expect(db.memory.searchText('   ')).toEqual([]);
+    });
+
+    it('should treat LIKE wildcards as literal text', () => {
+      db.memory.store({ content: 'coverage is 100%', metadata: {}, createdAt: 1000 });
+      db.memory.store({ content: 'coverage is 1000', metadata: {}, createdAt: 2000 });
+
+      expect(db.memory.searchText('100%').map(e => e.content)).toEqual(['coverage is 100%']);
+    });
+  });
+
   describe('compact', () => {
     it('should compact old entries', () => {
       const oldTime = Date.now() - 100000;
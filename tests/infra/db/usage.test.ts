@@ -0,0 +1,61 @@
+/**
+ * Usage Repository Tests
+ * Recording LLM calls and aggregating spend by scope and group
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { runMigrations } from '../../../src/infra/db/migrations';
+import { createUsageRepository } from '../../../src/infra/db/usage';
+
+describe('Usage Repository', () => {
+  let db: Database;
+  let repo: ReturnType<typeof createUsageRepository>;
+
+  const call = {
+    provider: 'anthropic',
+    inputTokens: 100,
+    outputTokens: 50,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+  };
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    runMigrations(db, false);
+    repo = createUsageRepository(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should record a call and read it back', () => {
+    const saved = repo.record({ ...call, sessionId: 's1', agent: 'coder', taskId: 't1', model: 'm', costUsd: 0.5 });
+
+    expect(saved.id).toBeGreaterThan(0);
+    expect(repo.list()).toEqual([{ ...saved, swarmId: undefined }]);
+  });
+
+  it('should total spend for a scope and time window', () => {
+    repo.record({ ...call, sessionId: 's1', model: 'a', costUsd: 1, timestamp: 1000 });
+    repo.record({ ...call, sessionId: 's1', model: 'a', costUsd: 2, timestamp: 2000 });
+    repo.record({ ...call, sessionId: 's2', taskId: 't1', model: 'b', costUsd: 4, timestamp: 3000 });
+
+    expect(repo.totals({ sessionId: 's1' })).toMatchObject({ calls: 2, inputTokens: 200, costUsd: 3 });
+    expect(repo.totals({ taskId: 't1' }).costUsd).toBe(4);
+    expect(repo.totals({ fromMs: 2000 }).costUsd).toBe(6);
+    expect(repo.totals({ sessionId: 'none' })).toMatchObject({ calls: 0, costUsd: 0 });
+  });
+
+  it('should group spend by agent, model and day', () => {
+    const day = new Date(2026, 0, 15, 12).getTime();
+    repo.record({ ...call, sessionId: 's1', agent: 'coder', model: 'a', costUsd: 1, timestamp: day });
+    repo.record({ ...call, sessionId: 's1', agent: 'coder', model: 'b', costUsd: 3, timestamp: day });
+    repo.record({ ...call, sessionId: 's2', model: 'a', costUsd: 2, timestamp: day + 86_400_000 });
+
+    expect(repo.summarize('agent').map(r => [r.key, r.costUsd])).toEqual([['coder', 4], [null, 2]]);
+    expect(repo.summarize('model').map(r => [r.key, r.calls])).toEqual([['b', 1], ['a', 2]]);
+    expect(repo.summarize('day').map(r => r.key)).toEqual(['2026-01-16', '2026-01-15']);
+  });
+});
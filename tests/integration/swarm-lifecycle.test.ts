@@ -7,6 +7,7 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
 import { EventBus } from '../../src/core/event-bus';
 import { SwarmCoordinator } from '../../src/core/swarm';
+import { ModelRouter } from '../../src/core/model-router';
 import { SwarmMessageBus } from '../../src/core/swarm/message-bus';
 import {
   createMockAgentRegistry,
@@ -41,7 +42,7 @@ interface SwarmTestContext {
 
 function createSwarmContext(overrides?: {
   agents?: ReturnType<typeof makeAgentDef>[];
-  planJson?: string;
+  plan?: Array<{ name: string; role: string; task: string }>;
   maxAgents?: number;
   timeoutMs?: number;
   spawnDelay?: number;
@@ -56,10 +57,10 @@ function createSwarmContext(overrides?: {
   });
   const agentFactory = createMockFactory();
 
-  const planJson = overrides?.planJson ?? JSON.stringify([
+  const agents = overrides?.plan ?? [
     { name: 'general', role: 'Worker', task: 'Execute the main task' },
-  ]);
-  provider.addTextResponse(planJson);
+  ];
+  provider.addToolUseResponse('StructuredOutput', { agents });
 
   const coordinator = new SwarmCoordinator({
     eventBus,
@@ -70,6 +71,7 @@ function createSwarmContext(overrides?: {
     provider,
     registry,
     agentFactory,
+    router: new ModelRouter(),
   });
 
   return { coordinator, eventBus, provider, registry };
@@ -93,13 +95,13 @@ describe('Swarm Lifecycle', () => {
     });
 
     it('should complete a multi-agent swarm', async () => {
-      const planJson = JSON.stringify([
+      const plan = [
         { name: 'general', role: 'Backend developer', task: 'Create API endpoints' },
         { name: 'general', role: 'Frontend developer', task: 'Create UI components' },
         { name: 'general', role: 'Tester', task: 'Write integration tests' },
-      ]);
+      ];
 
-      const { coordinator } = createSwarmContext({ planJson });
+      const { coordinator } = createSwarmContext({ plan });
 
       const result = await coordinator.execute('Full stack feature');
 
@@ -199,9 +201,11 @@ describe('Swarm Lifecycle', () => {
       const failCtx = createSwarmContext();
       const failProvider = failCtx.provider;
       failProvider.reset();
-      failProvider.addTextResponse(JSON.stringify([
-        { name: 'general', role: 'Worker', task: 'Crash task' },
-      ]));
+      failProvider.addToolUseResponse('StructuredOutput', {
+        agents: [
+          { name: 'general', role: 'Worker', task: 'Crash task' },
+        ],
+      });
 
       // The real test: spawn fails but swarm collects error result
       const failRegistry = createMockAgentRegistry({
@@ -215,6 +219,7 @@ describe('Swarm Lifecycle', () => {
         provider: failProvider,
         registry: failRegistry,
         agentFactory: createMockFactory(),
+        router: new ModelRouter(),
       });
 
       const result = await failCoordinator.execute('Failing task');
@@ -225,9 +230,11 @@ describe('Swarm Lifecycle', () => {
       const failEvents: Array<{ swarmId: string; agentId: string; error: string }> = [];
       const eventBus = new EventBus();
       const provider = createReadyMockProvider();
-      provider.addTextResponse(JSON.stringify([
-        { name: 'general', role: 'Worker', task: 'Task' },
-      ]));
+      provider.addToolUseResponse('StructuredOutput', {
+        agents: [
+          { name: 'general', role: 'Worker', task: 'Task' },
+        ],
+      });
 
       eventBus.on('swarm:agent-fail', (payload) => {
         failEvents.push(payload);
@@ -242,6 +249,7 @@ describe('Swarm Lifecycle', () => {
           spawnResult: makeSubagentRecord({ status: 'failed', result: 'Error occurred' }),
         }),
         agentFactory: createMockFactory(),
+        router: new ModelRouter(),
       });
 
       await coordinator.execute('Failing task');
@@ -11,6 +11,9 @@ import type {
   LLMChatOptions,
   LLMChatChunk,
   LLMChatResponse,
+  LLMCacheBreakpoints,
+  LLMUsage,
+  TokenCounter,
 } from '../../src/core/plugin-api-types';
 
 // ---------------------------------------------------------------------------
@@ -19,14 +22,16 @@ import type {
 
 export interface MockChatResponse {
   content: Array<{
-    type: 'text' | 'tool_use';
+    type: 'text' | 'tool_use' | 'thinking' | 'redacted_thinking';
     text?: string;
+    signature?: string;
+    data?: string;
     id?: string;
     name?: string;
     input?: Record<string, unknown>;
   }>;
   stopReason: 'end_turn' | 'tool_use' | 'max_tokens' | null;
-  usage: { inputTokens: number; outputTokens: number };
+  usage: LLMUsage;
 }
 
 export interface MockCallRecord {
@@ -35,6 +40,8 @@ export interface MockCallRecord {
   tools?: unknown[];
   maxTokens?: number;
   systemPrompt?: string;
+  cacheBreakpoints?: LLMCacheBreakpoints;
+  thinking?: { budgetTokens: number };
   timestamp: number;
 }
 
@@ -56,6 +63,9 @@ export class MockLLMProvider implements LLMProvider {
   private responseIndex = 0;
   private callHistory: MockCallRecord[] = [];
   private initialized = false;
+
+  /** Optional native token counting; unset to exercise the local approximation */
+  countTokens?: TokenCounter['countTokens'];
   private defaultResponse: MockChatResponse = {
     content: [{ type: 'text', text: 'Default mock response' }],
     stopReason: 'end_turn',
@@ -110,6 +120,8 @@ export class MockLLMProvider implements LLMProvider {
       tools: options.tools,
       maxTokens: options.maxTokens,
       systemPrompt: options.systemPrompt,
+      cacheBreakpoints: options.cacheBreakpoints,
+      thinking: options.thinking,
       timestamp: Date.now(),
     });
 
@@ -125,6 +137,11 @@ export class MockLLMProvider implements LLMProvider {
           type: 'text',
           content: block.text,
         };
+      } else if (block.type === 'thinking') {
+        yield { type: 'thinking', content: block.text };
+        yield { type: 'thinking', signature: block.signature ?? 'mock-signature' };
+      } else if (block.type === 'redacted_thinking') {
+        yield { type: 'redacted_thinking', content: block.data };
       } else if (block.type === 'tool_use') {
         yield {
           type: 'tool_use',
@@ -151,6 +168,8 @@ export class MockLLMProvider implements LLMProvider {
       tools: options.tools,
       maxTokens: options.maxTokens,
       systemPrompt: options.systemPrompt,
+      cacheBreakpoints: options.cacheBreakpoints,
+      thinking: options.thinking,
       timestamp: Date.now(),
     });
 